@@ -6,182 +6,30 @@ import { motion } from 'framer-motion'
 import { Award, Lock } from 'lucide-react'
 import { validateSession } from '@/utils/sessionManager'
 import { Skeleton, SkeletonAchievementCard } from '@/components/Common/Skeleton'
-import { getUserProfile, getLanguageProgress, type UserProfile, type LanguageProgress } from '@/lib/firebaseService'
-import { TECHNOLOGY_MODULES } from '@/utils/techModules'
+import { getUserProfile } from '@/lib/firebaseService'
+import {
+  ACHIEVEMENTS,
+  RETIRED_ACHIEVEMENTS,
+  evaluateAchievement,
+  type AchievementDefinition,
+  type AchievementProgress,
+  type AchievementRarity,
+} from '@/utils/achievements'
 
-interface Achievement {
-  id: string
-  title: string
-  description: string
-  icon: string
-  color: string
-  condition: (profile: UserProfile, progressMap: Map<string, LanguageProgress>) => boolean
+const RARITY_STYLES: Record<AchievementRarity, { label: string; color: string; badge: string }> = {
+  common: { label: 'Common', color: 'from-blue-500 to-cyan-600', badge: 'bg-blue-500/20 text-blue-200' },
+  rare: { label: 'Rare', color: 'from-purple-500 to-indigo-600', badge: 'bg-purple-500/20 text-purple-200' },
+  epic: { label: 'Epic', color: 'from-orange-500 to-red-600', badge: 'bg-orange-500/20 text-orange-200' },
+  legendary: { label: 'Legendary', color: 'from-yellow-400 to-yellow-600', badge: 'bg-yellow-400/20 text-yellow-200' },
 }
 
-const ALL_ACHIEVEMENTS: Achievement[] = [
-  {
-    id: 'first-steps',
-    title: 'First Steps',
-    description: 'Complete your first tutorial',
-    icon: '🎯',
-    color: 'from-blue-500 to-blue-700',
-    condition: (profile, progressMap) => {
-      for (const progress of progressMap.values()) {
-        if (progress.tutorialProgress?.completed) return true
-      }
-      return false
-    },
-  },
-  {
-    id: 'game-master',
-    title: 'Game Master',
-    description: 'Win any game on hard difficulty',
-    icon: '🎮',
-    color: 'from-purple-500 to-purple-700',
-    condition: (profile, progressMap) => {
-      for (const progress of progressMap.values()) {
-        if (progress.completedDifficulties?.game?.includes('hard')) return true
-      }
-      return false
-    },
-  },
-  {
-    id: 'scholar',
-    title: 'Scholar',
-    description: 'Complete all tutorials in one module',
-    icon: '📚',
-    color: 'from-green-500 to-green-700',
-    condition: (profile, progressMap) => {
-      for (const mod of TECHNOLOGY_MODULES) {
-        let allTutorialsComplete = true
-        for (const language of mod.languages) {
-          const languageKey = `${mod.id}-${language.id}`
-          const progress = progressMap.get(languageKey)
-          if (!progress?.tutorialProgress?.completed) {
-            allTutorialsComplete = false
-            break
-          }
-        }
-        if (allTutorialsComplete && mod.languages.length > 0) return true
-      }
-      return false
-    },
-  },
-  {
-    id: 'speed-demon',
-    title: 'Speed Demon',
-    description: 'Earn 500+ XP quickly',
-    icon: '⚡',
-    color: 'from-yellow-500 to-orange-600',
-    condition: (profile, progressMap) => (profile.totalXP || 0) > 500,
-  },
-  {
-    id: 'experimenter',
-    title: 'Experimenter',
-    description: 'Complete sandbox exercises',
-    icon: '🔬',
-    color: 'from-cyan-500 to-blue-600',
-    condition: (profile, progressMap) => {
-      for (const progress of progressMap.values()) {
-        if (progress.completedDifficulties?.sandbox && progress.completedDifficulties.sandbox.length > 0) {
-          return true
-        }
-      }
-      return false
-    },
-  },
-  {
-    id: 'completionist',
-    title: 'Completionist',
-    description: 'Finish one language all 3 ways',
-    icon: '🏅',
-    color: 'from-orange-500 to-red-600',
-    condition: (profile, progressMap) => {
-      for (const progress of progressMap.values()) {
-        const tutorialDone = progress.tutorialProgress?.completed
-        const gameDone = progress.completedDifficulties?.game?.length === 3
-        const sandboxDone = progress.completedDifficulties?.sandbox?.length === 3
-        if (tutorialDone && gameDone && sandboxDone) return true
-      }
-      return false
-    },
-  },
-  {
-    id: 'legend',
-    title: 'Legend',
-    description: 'Complete all modules',
-    icon: '👑',
-    color: 'from-yellow-400 to-yellow-600',
-    condition: (profile, progressMap) => {
-      let completedModules = 0
-      for (const mod of TECHNOLOGY_MODULES) {
-        let moduleComplete = false
-        for (const language of mod.languages) {
-          const languageKey = `${mod.id}-${language.id}`
-          const progress = progressMap.get(languageKey)
-          if (progress?.tutorialProgress?.completed) {
-            moduleComplete = true
-            break
-          }
-        }
-        if (moduleComplete) completedModules++
-      }
-      return completedModules === TECHNOLOGY_MODULES.length
-    },
-  },
-  {
-    id: 'streak-master',
-    title: 'Streak Master',
-    description: 'Maintain a streak',
-    icon: '🔥',
-    color: 'from-red-500 to-orange-600',
-    condition: (profile, progressMap) => (profile.streak || 0) >= 3,
-  },
-  {
-    id: 'hard-mode-hero',
-    title: 'Hard Mode Hero',
-    description: 'Complete hard difficulty challenges',
-    icon: '💪',
-    color: 'from-red-600 to-pink-600',
-    condition: (profile, progressMap) => {
-      let hardCount = 0
-      for (const progress of progressMap.values()) {
-        if (progress.completedDifficulties?.game?.includes('hard')) hardCount++
-        if (progress.completedDifficulties?.sandbox?.includes('hard')) hardCount++
-      }
-      return hardCount >= 3
-    },
-  },
-  {
-    id: 'xp-hunter',
-    title: 'XP Hunter',
-    description: 'Earn 1000 XP',
-    icon: '💎',
-    color: 'from-purple-500 to-indigo-600',
-    condition: (profile, progressMap) => (profile.totalXP || 0) >= 1000,
-  },
-  {
-    id: 'multi-linguist',
-    title: 'Multi-Linguist',
-    description: 'Complete tutorials in 5 languages',
-    icon: '🌍',
-    color: 'from-teal-500 to-emerald-600',
-    condition: (profile, progressMap) => {
-      let completedLanguages = 0
-      for (const progress of progressMap.values()) {
-        if (progress.tutorialProgress?.completed) completedLanguages++
-      }
-      return completedLanguages >= 5
-    },
-  },
-]
-
 export default function AchievementsPage() {
   const router = useRouter()
   const [isLoading, setIsLoading] = useState(true)
-  const [userProfile, setUserProfile] = useState<UserProfile | null>(null)
-  const [languageProgressMap, setLanguageProgressMap] = useState<Map<string, LanguageProgress>>(new Map())
   const [unlockedAchievements, setUnlockedAchievements] = useState<string[]>([])
+  const [achievementProgress, setAchievementProgress] = useState<Map<string, AchievementProgress>>(new Map())
+  // Retired achievements only show on profiles that unlocked them
+  const [retiredAchievements, setRetiredAchievements] = useState<AchievementDefinition[]>([])
 
   useEffect(() => {
     const loadData = async () => {
@@ -191,35 +39,24 @@ export default function AchievementsPage() {
       }
 
       try {
-        // Load user profile
         const profile = await getUserProfile(userCode)
-        if (profile) {
-          setUserProfile(profile)
-        }
-
-        // Load all language progress
-        const progressMap = new Map<string, LanguageProgress>()
-        for (const mod of TECHNOLOGY_MODULES) {
-          for (const language of mod.languages) {
-            const languageKey = `${mod.id}-${language.id}`
-            const progress = await getLanguageProgress(userCode, languageKey)
-            if (progress) {
-              progressMap.set(languageKey, progress)
-            }
-          }
-        }
-        setLanguageProgressMap(progressMap)
+        if (!profile) return
 
-        // Check which achievements are unlocked
+        // Rules are evaluated against the same profile the server unlocks from. Met rules
+        // count as unlocked here even if the server hasn't recorded them yet.
+        const progressMap = new Map<string, AchievementProgress>()
         const unlocked: string[] = []
-        if (profile) {
-          for (const achievement of ALL_ACHIEVEMENTS) {
-            if (achievement.condition(profile, progressMap)) {
-              unlocked.push(achievement.id)
-            }
+        for (const achievement of ACHIEVEMENTS) {
+          const progress = evaluateAchievement(achievement, profile)
+          progressMap.set(achievement.id, progress)
+          if (progress.met || profile.achievements?.includes(achievement.id)) {
+            unlocked.push(achievement.id)
           }
         }
-        setUnlockedAchievements(unlocked)
+        const retired = RETIRED_ACHIEVEMENTS.filter(achievement => profile.achievements?.includes(achievement.id))
+        setAchievementProgress(progressMap)
+        setUnlockedAchievements([...unlocked, ...retired.map(achievement => achievement.id)])
+        setRetiredAchievements(retired)
       } catch (error) {
         console.error('Error loading achievements:', error)
       } finally {
@@ -264,8 +101,9 @@ export default function AchievementsPage() {
     )
   }
 
+  const shownAchievements = [...ACHIEVEMENTS, ...retiredAchievements]
   const unlockedCount = unlockedAchievements.length
-  const totalCount = ALL_ACHIEVEMENTS.length
+  const totalCount = shownAchievements.length
   const progressPercentage = Math.round((unlockedCount / totalCount) * 100)
 
   return (
@@ -305,8 +143,10 @@ export default function AchievementsPage() {
 
         {/* Achievements Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-          {ALL_ACHIEVEMENTS.map((achievement, index) => {
+          {shownAchievements.map((achievement, index) => {
             const isUnlocked = unlockedAchievements.includes(achievement.id)
+            const progress = achievementProgress.get(achievement.id)
+            const rarity = RARITY_STYLES[achievement.rarity]
 
             return (
               <motion.div
@@ -322,7 +162,7 @@ export default function AchievementsPage() {
               >
                 {/* Background Gradient */}
                 <div
-                  className={`absolute inset-0 bg-gradient-to-br ${achievement.color} opacity-10`}
+                  className={`absolute inset-0 bg-gradient-to-br ${rarity.color} opacity-10`}
                   aria-hidden="true"
                 />
 
@@ -354,6 +194,44 @@ export default function AchievementsPage() {
                     {achievement.description}
                   </p>
 
+                  {/* Rarity */}
+                  <span className={`mt-3 inline-block rounded-full px-2 py-0.5 text-xs font-semibold ${rarity.badge}`}>
+                    {rarity.label}
+                  </span>
+                  {achievement.rule.type === 'retired' && (
+                    <span className="mt-3 ml-2 inline-block rounded-full px-2 py-0.5 text-xs font-semibold bg-white/10 text-white/60">
+                      Retired
+                    </span>
+                  )}
+
+                  {/* Progress towards a locked achievement */}
+                  {!isUnlocked && progress && (
+                    <div className="mt-4">
+                      {progress.expired ? (
+                        <p className="text-xs text-white/50">This challenge&apos;s time window has closed</p>
+                      ) : (
+                        <>
+                          <div
+                            className="w-full bg-white/20 rounded-full h-2 overflow-hidden"
+                            role="progressbar"
+                            aria-valuemin={0}
+                            aria-valuemax={progress.target}
+                            aria-valuenow={progress.current}
+                            aria-label={`${achievement.title} progress`}
+                          >
+                            <div
+                              className="bg-gradient-to-r from-yellow-400 to-orange-500 h-full rounded-full"
+                              style={{ width: `${(progress.current / progress.target) * 100}%` }}
+                            />
+                          </div>
+                          <p className="mt-1 text-xs text-white/60">
+                            {progress.current}/{progress.target} {achievement.unit}
+                          </p>
+                        </>
+                      )}
+                    </div>
+                  )}
+
                   {/* Unlocked Badge */}
                   {isUnlocked && (
                     <motion.div
@@ -1,67 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { checkRateLimit, getClientIdentifier, RATE_LIMITS } from '@/utils/rateLimit'
 import { formatErrorWithHints } from '@/utils/errorHints'
-
-// Piston API endpoint (can be overridden via env)
-const PISTON_API = process.env.PISTON_API_URL || 'https://emkc.org/api/v2/piston/execute'
-
-// Request timeout in milliseconds
-const REQUEST_TIMEOUT = 30000
-
-// Language mapping from platform IDs to Piston language names
-const LANGUAGE_MAP: Record<string, { language: string; version: string }> = {
-  // JavaScript/TypeScript
-  'javascript': { language: 'javascript', version: '18.15.0' },
-  'javascript-games': { language: 'javascript', version: '18.15.0' },
-  'typescript': { language: 'typescript', version: '5.0.3' },
-
-  // Python
-  'python': { language: 'python', version: '3.10.0' },
-  'python-ml': { language: 'python', version: '3.10.0' },
-  'python-backend': { language: 'python', version: '3.10.0' },
-
-  // Java
-  'java': { language: 'java', version: '15.0.2' },
-
-  // Go
-  'go': { language: 'go', version: '1.16.2' },
-
-  // Rust
-  'rust': { language: 'rust', version: '1.68.2' },
-
-  // C/C++
-  'c': { language: 'c', version: '10.2.0' },
-  'cpp': { language: 'cpp', version: '10.2.0' },
-
-  // C#
-  'csharp': { language: 'csharp', version: '6.12.0' },
-
-  // Ruby
-  'ruby': { language: 'ruby', version: '3.0.1' },
-
-  // PHP
-  'php': { language: 'php', version: '8.2.3' },
-
-  // Kotlin
-  'kotlin': { language: 'kotlin', version: '1.8.20' },
-
-  // Swift
-  'swift': { language: 'swift', version: '5.3.3' },
-
-  // R
-  'r': { language: 'r', version: '4.1.1' },
-
-  // SQL (simulated - Piston doesn't support SQL)
-  'sql': { language: 'sqlite3', version: '3.36.0' },
-  'postgresql': { language: 'sqlite3', version: '3.36.0' },
-  'mongodb': { language: 'javascript', version: '18.15.0' },
-
-  // Bash
-  'bash': { language: 'bash', version: '5.2.0' },
-}
-
-// Languages that should use simulated preview (not executed)
-const PREVIEW_ONLY_LANGUAGES = ['html', 'css', 'markdown', 'json', 'yaml']
+import { parseDiagnostics } from '@/utils/diagnostics'
+import { ExecutionProviderError, isPreviewOnlyLanguage, runCode } from '@/lib/codeExecution'
 
 export async function POST(request: NextRequest) {
   try {
@@ -83,7 +24,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { language, code, stdin = '' } = body
+    const { language, code, stdin = '', database } = body
 
     if (!language || !code) {
       return NextResponse.json(
@@ -93,7 +34,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Check if this is a preview-only language
-    if (PREVIEW_ONLY_LANGUAGES.includes(language)) {
+    if (isPreviewOnlyLanguage(language)) {
       return NextResponse.json({
         success: true,
         output: `[Preview Mode]\n\nThis language (${language}) shows a preview rather than execution.\n\nYour code:\n${code.substring(0, 500)}${code.length > 500 ? '...' : ''}`,
@@ -104,10 +45,24 @@ export async function POST(request: NextRequest) {
       })
     }
 
-    // Get Piston language config
-    const pistonConfig = LANGUAGE_MAP[language]
+    // Execute code via the provider configured for this language
+    const startTime = Date.now()
+    let result
+    try {
+      result = await runCode(language, code, stdin, database)
+    } catch (error) {
+      if (error instanceof ExecutionProviderError && !error.isTimeout) {
+        console.error('Execution provider error:', error.message)
+        return NextResponse.json({
+          success: false,
+          error: 'Code execution service temporarily unavailable. Please try again.',
+          executionTime: Date.now() - startTime
+        })
+      }
+      throw error
+    }
 
-    if (!pistonConfig) {
+    if (!result) {
       return NextResponse.json({
         success: true,
         output: `[Simulated Output]\n\nLanguage "${language}" is not yet supported for real execution.\nShowing simulated output for demonstration purposes.`,
@@ -118,86 +73,50 @@ export async function POST(request: NextRequest) {
       })
     }
 
-    // Execute code via Piston API with timeout
-    const startTime = Date.now()
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT)
-
-    let pistonResponse: Response
-    try {
-      pistonResponse = await fetch(PISTON_API, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          language: pistonConfig.language,
-          version: pistonConfig.version,
-          files: [
-            {
-              name: getFileName(pistonConfig.language),
-              content: code
-            }
-          ],
-          stdin: stdin,
-          compile_timeout: 10000,
-          run_timeout: 5000,
-          compile_memory_limit: -1,
-          run_memory_limit: -1
-        }),
-        signal: controller.signal,
-      })
-    } finally {
-      clearTimeout(timeoutId)
-    }
-
     const executionTime = Date.now() - startTime
 
-    if (!pistonResponse.ok) {
-      console.error('Piston API error:', pistonResponse.status)
-      return NextResponse.json({
-        success: false,
-        error: 'Code execution service temporarily unavailable. Please try again.',
-        executionTime
-      })
-    }
-
-    const result = await pistonResponse.json()
-
     // Handle compilation errors
     if (result.compile && result.compile.code !== 0) {
-      const compileError = result.compile.stderr || result.compile.output || 'Compilation failed'
-      const enhancedError = formatErrorWithHints(compileError, pistonConfig.language)
+      const compileError = result.compile.stderr || 'Compilation failed'
+      const enhancedError = formatErrorWithHints(compileError, result.runtime)
 
       return NextResponse.json({
         success: false,
         output: '',
         stderr: enhancedError,
-        exitCode: result.compile.code,
+        exitCode: result.compile.code ?? 1,
         executionTime,
-        stage: 'compile'
+        stage: 'compile',
+        diagnostics: parseDiagnostics(compileError, result.runtime, code)
       })
     }
 
-    // Handle runtime results
-    const runResult = result.run || {}
-    const output = runResult.stdout || runResult.output || ''
-    const rawStderr = runResult.stderr || ''
-    const exitCode = runResult.code ?? 0
+    // Handle runtime results (a signal-killed process counts as a failure)
+    const output = result.run.stdout
+    const rawStderr = result.run.stderr
+    const exitCode = result.run.code ?? 1
 
     // Enhance stderr with helpful hints if there's an error
     const stderr = rawStderr && exitCode !== 0
-      ? formatErrorWithHints(rawStderr, pistonConfig.language)
+      ? formatErrorWithHints(rawStderr, result.runtime)
       : rawStderr
 
+    // Locate compiler warnings and runtime errors in the learner's code
+    const diagnostics = [
+      ...parseDiagnostics(result.compile?.stderr || '', result.runtime, code),
+      ...parseDiagnostics(rawStderr, result.runtime, code),
+    ]
+
     return NextResponse.json({
       success: exitCode === 0,
       output: output || (exitCode === 0 ? 'Program executed successfully (no output)' : ''),
       stderr,
       exitCode,
       executionTime,
-      language: pistonConfig.language,
-      version: pistonConfig.version
+      language: result.runtime,
+      version: result.version,
+      resultSet: result.resultSet,
+      diagnostics
     })
 
   } catch (error) {
@@ -205,7 +124,7 @@ export async function POST(request: NextRequest) {
     console.error('Code execution error:', error instanceof Error ? error.message : 'Unknown')
 
     // Check if it was a timeout
-    const isTimeout = error instanceof Error && error.name === 'AbortError'
+    const isTimeout = error instanceof ExecutionProviderError && error.isTimeout
 
     return NextResponse.json(
       {
@@ -221,25 +140,3 @@ export async function POST(request: NextRequest) {
     )
   }
 }
-
-function getFileName(language: string): string {
-  const extensions: Record<string, string> = {
-    'javascript': 'main.js',
-    'typescript': 'main.ts',
-    'python': 'main.py',
-    'java': 'Main.java',
-    'go': 'main.go',
-    'rust': 'main.rs',
-    'c': 'main.c',
-    'cpp': 'main.cpp',
-    'csharp': 'Main.cs',
-    'ruby': 'main.rb',
-    'php': 'main.php',
-    'kotlin': 'Main.kt',
-    'swift': 'main.swift',
-    'r': 'main.r',
-    'bash': 'main.sh',
-    'sqlite3': 'main.sql',
-  }
-  return extensions[language] || 'main.txt'
-}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkRateLimit, getClientIdentifier, RATE_LIMITS } from '@/utils/rateLimit'
+import { formatErrorWithHints } from '@/utils/errorHints'
+import { outputsMatch } from '@/utils/testCases'
+import { ExecutionProviderError, isPreviewOnlyLanguage, runCode } from '@/lib/codeExecution'
+import type { TestCase, TestCaseResult } from '@/types'
+
+// Upper bound on test cases per request, each one is a separate execution
+const MAX_TEST_CASES = 12
+
+/**
+ * Run a submission against every test case and report pass/fail per case.
+ * Hidden test cases only report whether they passed.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Rate limiting (one request covers the whole test suite)
+    const clientId = getClientIdentifier(request)
+    const rateLimit = checkRateLimit(`code-exec:${clientId}`, RATE_LIMITS.codeExecution)
+
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Too many requests. Please wait a moment before trying again.' },
+        {
+          status: 429,
+          headers: {
+            'X-RateLimit-Remaining': '0',
+            'X-RateLimit-Reset': rateLimit.resetTime.toString(),
+          }
+        }
+      )
+    }
+
+    const body = await request.json()
+    const { language, code } = body
+    const testCases: TestCase[] = Array.isArray(body.testCases) ? body.testCases : []
+
+    if (!language || !code || testCases.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Language, code and test cases are required' },
+        { status: 400 }
+      )
+    }
+
+    if (testCases.length > MAX_TEST_CASES) {
+      return NextResponse.json(
+        { success: false, error: `At most ${MAX_TEST_CASES} test cases can be run at once` },
+        { status: 400 }
+      )
+    }
+
+    if (isPreviewOnlyLanguage(language)) {
+      return NextResponse.json(
+        { success: false, error: `Language "${language}" cannot be tested because it only shows a preview` },
+        { status: 400 }
+      )
+    }
+
+    const results: TestCaseResult[] = []
+    for (const testCase of testCases) {
+      let result
+      try {
+        result = await runCode(language, code, String(testCase.input ?? ''))
+      } catch (error) {
+        if (error instanceof ExecutionProviderError && !error.isTimeout) {
+          console.error('Execution provider error:', error.message)
+          return NextResponse.json({
+            success: false,
+            error: 'Code execution service temporarily unavailable. Please try again.'
+          })
+        }
+        throw error
+      }
+
+      if (!result) {
+        return NextResponse.json(
+          { success: false, error: `Language "${language}" is not yet supported for testing` },
+          { status: 400 }
+        )
+      }
+
+      const hidden = Boolean(testCase.hidden)
+      const compileFailed = result.compile !== undefined && result.compile.code !== 0
+      const stage = compileFailed && result.compile ? result.compile : result.run
+      const exitCode = stage.code ?? 1
+      const error = exitCode !== 0
+        ? formatErrorWithHints(stage.stderr || (compileFailed ? 'Compilation failed' : 'Program exited with an error'), result.runtime)
+        : undefined
+      const actualOutput = compileFailed ? '' : result.run.stdout
+
+      results.push({
+        id: String(testCase.id),
+        description: String(testCase.description ?? ''),
+        passed: exitCode === 0 && outputsMatch(actualOutput, String(testCase.expectedOutput ?? '')),
+        hidden,
+        ...(hidden ? {} : {
+          input: testCase.input,
+          expectedOutput: testCase.expectedOutput,
+          actualOutput,
+          error,
+        }),
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      results,
+      passedCount: results.filter(result => result.passed).length,
+      total: results.length
+    })
+
+  } catch (error) {
+    // Log server-side only
+    console.error('Test run error:', error instanceof Error ? error.message : 'Unknown')
+
+    return NextResponse.json(
+      { success: false, error: 'Running tests failed. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
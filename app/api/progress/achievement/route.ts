@@ -0,0 +1,27 @@
+import { NextRequest } from 'next/server'
+import { FieldValue, Timestamp } from 'firebase-admin/firestore'
+import { getAdminDb } from '@/lib/firebaseAdmin'
+import { getNewlyMetAchievements } from '@/utils/achievements'
+import { getUserInTransaction, handleProgressRequest } from '@/lib/progress/requests'
+
+/**
+ * Unlock every achievement whose rule the stored profile now meets. The client only asks for
+ * a check; it can't name achievements to unlock. Achievements carry no XP.
+ */
+export async function POST(request: NextRequest) {
+  return handleProgressRequest(request, 'Achievement check', async (_body, userCode) => {
+    return getAdminDb().runTransaction(async transaction => {
+      const { userRef, user } = await getUserInTransaction(transaction, userCode)
+      const unlocked = getNewlyMetAchievements(user)
+
+      if (unlocked.length > 0) {
+        transaction.update(userRef, {
+          achievements: FieldValue.arrayUnion(...unlocked),
+          lastActive: Timestamp.now(),
+        })
+      }
+
+      return { unlocked }
+    })
+  })
+}
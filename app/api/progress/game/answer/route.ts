@@ -0,0 +1,109 @@
+import { NextRequest } from 'next/server'
+import { Timestamp } from 'firebase-admin/firestore'
+import { getAdminDb } from '@/lib/firebaseAdmin'
+import { generateProgressiveQuiz } from '@/utils/progressiveGameContent'
+import { GAME_XP_REWARDS, PASS_THRESHOLD } from '@/utils/gameConstants'
+import { getReviewCardId, recordMissedQuestion } from '@/utils/spacedRepetition'
+import {
+  getUserInTransaction,
+  handleProgressRequest,
+  parseDifficulty,
+  parseGameState,
+  parseInteger,
+  parseLanguageKey,
+} from '@/lib/progress/requests'
+import { getLanguageProgressEntry, languageProgressUpdate, markDifficultyCompleteGlobally } from '@/lib/progress/languageProgress'
+import { recordXPEvents } from '@/lib/progress/ledger'
+import { ProgressError, type XPGrant } from '@/lib/progress/types'
+
+/**
+ * Grade a quiz answer against the server-generated quiz.
+ * A correct answer completes its level (XP once per level); a correct answer on the
+ * last level with 75%+ of levels completed finishes the game and pays the completion bonus once.
+ * A wrong answer adds the question to the learner's review cards.
+ */
+export async function POST(request: NextRequest) {
+  return handleProgressRequest(request, 'Game answer', async (body, userCode) => {
+    const { languageKey, moduleId, languageId, language } = parseLanguageKey(body.languageKey)
+    const difficulty = parseDifficulty(body.difficulty)
+    const quiz = generateProgressiveQuiz(languageId, language.name, difficulty)
+    const totalLevels = quiz.questions.length
+
+    const level = parseInteger(body.level, 'level', 0, totalLevels - 1)
+    const question = quiz.questions[level]
+    const answer = parseInteger(body.answer, 'answer', 0, question.options.length - 1)
+    const gameState = parseGameState(body)
+    const correct = answer === question.correctAnswer
+
+    return getAdminDb().runTransaction(async transaction => {
+      const { userRef, user } = await getUserInTransaction(transaction, userCode)
+      const progress = getLanguageProgressEntry(user, languageKey)
+
+      if (progress.difficulty !== difficulty) {
+        throw new ProgressError(`This game was started on ${progress.difficulty} difficulty`, 409)
+      }
+
+      const activityPrefix = `game:${languageKey}:${difficulty}`
+      const grants: XPGrant[] = []
+      let completedLevels = progress.gameProgress.completedLevels ?? []
+
+      if (correct && !completedLevels.includes(level)) {
+        completedLevels = [...completedLevels, level].sort((a, b) => a - b)
+        grants.push({
+          activityKey: `${activityPrefix}:level-${level}`,
+          source: 'game',
+          amount: GAME_XP_REWARDS.CORRECT_ANSWER,
+          languageKey,
+          difficulty,
+        })
+      }
+
+      const finishedGame = correct && level === totalLevels - 1 && completedLevels.length / totalLevels >= PASS_THRESHOLD
+      if (finishedGame) {
+        grants.push({
+          activityKey: `${activityPrefix}:complete`,
+          source: 'game',
+          amount: GAME_XP_REWARDS.GAME_COMPLETION_BONUS,
+          languageKey,
+          difficulty,
+        })
+      }
+
+      const completed = progress.gameProgress.completed || finishedGame
+      const nextProgress = {
+        ...progress,
+        gameProgress: {
+          ...progress.gameProgress,
+          currentLevel: correct ? Math.min(level + 1, totalLevels - 1) : level,
+          completedLevels,
+          completed,
+          ...gameState,
+        },
+      }
+      if (completed) {
+        markDifficultyCompleteGlobally(nextProgress, difficulty)
+      }
+
+      const xp = await recordXPEvents(transaction, userRef, user, grants)
+
+      const reviewUpdate: Record<string, unknown> = {}
+      if (!correct) {
+        const cardId = getReviewCardId(languageKey, difficulty, question.id)
+        reviewUpdate[`reviewCards.${cardId}`] = recordMissedQuestion(
+          user.reviewCards?.[cardId], moduleId, languageId, difficulty, question.id
+        )
+      }
+
+      transaction.update(userRef, {
+        ...languageProgressUpdate(languageKey, nextProgress),
+        ...xp.updates,
+        ...reviewUpdate,
+        // Finishing a game fills the legacy glass
+        ...(finishedGame ? { glassProgress: 100 } : {}),
+        lastActive: Timestamp.now(),
+      })
+
+      return { correct, completedLevels, completed, finishedGame, xpGranted: xp.granted }
+    })
+  })
+}
@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server'
+import { Timestamp } from 'firebase-admin/firestore'
+import { getAdminDb } from '@/lib/firebaseAdmin'
+import { generateProgressiveQuiz } from '@/utils/progressiveGameContent'
+import {
+  getUserInTransaction,
+  handleProgressRequest,
+  parseDifficulty,
+  parseGameState,
+  parseInteger,
+  parseLanguageKey,
+} from '@/lib/progress/requests'
+import { getLanguageProgressEntry, languageProgressUpdate } from '@/lib/progress/languageProgress'
+import { ProgressError } from '@/lib/progress/types'
+
+/**
+ * Save the game position and resumable state (lives, hints, score).
+ * Completed levels only change through /api/progress/game/answer.
+ */
+export async function POST(request: NextRequest) {
+  return handleProgressRequest(request, 'Game state', async (body, userCode) => {
+    const { languageKey, languageId, language } = parseLanguageKey(body.languageKey)
+    const difficulty = parseDifficulty(body.difficulty)
+    const totalLevels = generateProgressiveQuiz(languageId, language.name, difficulty).questions.length
+    const currentLevel = parseInteger(body.currentLevel, 'currentLevel', 0, totalLevels - 1)
+    const gameState = parseGameState(body)
+
+    await getAdminDb().runTransaction(async transaction => {
+      const { userRef, user } = await getUserInTransaction(transaction, userCode)
+      const progress = getLanguageProgressEntry(user, languageKey)
+
+      if (progress.difficulty !== difficulty) {
+        throw new ProgressError(`This game was started on ${progress.difficulty} difficulty`, 409)
+      }
+
+      transaction.update(userRef, {
+        ...languageProgressUpdate(languageKey, {
+          ...progress,
+          gameProgress: { ...progress.gameProgress, currentLevel, ...gameState },
+        }),
+        lastActive: Timestamp.now(),
+      })
+    })
+
+    return {}
+  })
+}
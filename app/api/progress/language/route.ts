@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server'
+import { Timestamp } from 'firebase-admin/firestore'
+import { getAdminDb } from '@/lib/firebaseAdmin'
+import { getUserInTransaction, handleProgressRequest, parseDifficulty, parseInteger, parseLanguageKey } from '@/lib/progress/requests'
+import { languageProgressUpdate, MAX_GAME_LEVELS, MAX_TUTORIAL_SECTIONS } from '@/lib/progress/languageProgress'
+
+/**
+ * Start (or restart) progress for a language at a difficulty
+ */
+export async function POST(request: NextRequest) {
+  return handleProgressRequest(request, 'Language progress', async (body, userCode) => {
+    const { languageKey } = parseLanguageKey(body.languageKey)
+    const difficulty = parseDifficulty(body.difficulty)
+    const totalSections = parseInteger(body.totalTutorialSections, 'totalTutorialSections', 1, MAX_TUTORIAL_SECTIONS)
+    const totalLevels = parseInteger(body.totalGameLevels, 'totalGameLevels', 1, MAX_GAME_LEVELS)
+
+    await getAdminDb().runTransaction(async transaction => {
+      const { userRef } = await getUserInTransaction(transaction, userCode)
+
+      transaction.update(userRef, {
+        ...languageProgressUpdate(languageKey, {
+          difficulty,
+          tutorialProgress: {
+            currentSection: 0,
+            completedSections: [],
+            totalSections,
+            completed: false,
+            sectionStartedAt: Date.now(),
+          },
+          gameProgress: {
+            currentLevel: 0,
+            completedLevels: [],
+            totalLevels,
+            completed: false,
+          },
+        }),
+        lastActive: Timestamp.now(),
+      })
+    })
+
+    return {}
+  })
+}
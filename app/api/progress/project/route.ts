@@ -0,0 +1,50 @@
+import { NextRequest } from 'next/server'
+import { Timestamp } from 'firebase-admin/firestore'
+import { getAdminDb } from '@/lib/firebaseAdmin'
+import { getProjectById } from '@/utils/miniProjects'
+import { restoreWorkState } from '@/utils/projectFiles'
+import { MAX_PROJECT_XP } from '@/utils/gameConstants'
+import { getUserInTransaction, handleProgressRequest } from '@/lib/progress/requests'
+import { recordXPEvents } from '@/lib/progress/ledger'
+import { parseWorkState, verifyProjectSteps } from '@/lib/progress/projects'
+import { ProgressError } from '@/lib/progress/types'
+
+/**
+ * Mark a mini-project complete once the server has checked every step (see verifyProjectSteps);
+ * the project reward is paid once.
+ */
+export async function POST(request: NextRequest) {
+  return handleProgressRequest(request, 'Project completion', async (body, userCode) => {
+    const project = typeof body.projectId === 'string' ? getProjectById(body.projectId) : undefined
+    if (!project) {
+      throw new ProgressError('Project not found', 404)
+    }
+
+    const workState = restoreWorkState(project, parseWorkState(body.workState))
+    await verifyProjectSteps(project, workState)
+
+    return getAdminDb().runTransaction(async transaction => {
+      const { userRef, user } = await getUserInTransaction(transaction, userCode)
+
+      const xp = await recordXPEvents(transaction, userRef, user, [{
+        activityKey: `project:${project.id}`,
+        source: 'project',
+        amount: Math.min(project.xpReward, MAX_PROJECT_XP),
+      }])
+
+      transaction.update(userRef, {
+        [`projectProgress.${project.id}`]: {
+          ...workState,
+          completedSteps: project.steps.map((_, index) => index),
+          completed: true,
+          xpAwarded: true,
+          lastSaved: Timestamp.now(),
+        },
+        ...xp.updates,
+        lastActive: Timestamp.now(),
+      })
+
+      return { xpGranted: xp.granted }
+    })
+  })
+}
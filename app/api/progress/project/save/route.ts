@@ -0,0 +1,42 @@
+import { NextRequest } from 'next/server'
+import { Timestamp } from 'firebase-admin/firestore'
+import { getProjectById } from '@/utils/miniProjects'
+import { restoreWorkState } from '@/utils/projectFiles'
+import { getUserRef, handleProgressRequest } from '@/lib/progress/requests'
+import { parseWorkState } from '@/lib/progress/projects'
+import { ProgressError } from '@/lib/progress/types'
+
+/**
+ * Save mini-project files and step position. Only the work fields are written, by field
+ * path, so completion and XP state (set by /api/progress/project) are never overwritten.
+ */
+export async function POST(request: NextRequest) {
+  return handleProgressRequest(request, 'Project save', async (body, userCode) => {
+    const project = typeof body.projectId === 'string' ? getProjectById(body.projectId) : undefined
+    if (!project) {
+      throw new ProgressError('Project not found', 404)
+    }
+
+    const workState = restoreWorkState(project, parseWorkState(body.workState))
+    const field = `projectProgress.${project.id}`
+
+    try {
+      await getUserRef(userCode).update({
+        [`${field}.files`]: workState.files,
+        [`${field}.fileContents`]: workState.fileContents,
+        [`${field}.currentStep`]: workState.currentStep,
+        [`${field}.completedSteps`]: workState.completedSteps,
+        [`${field}.lastSaved`]: Timestamp.now(),
+        lastActive: Timestamp.now(),
+      })
+    } catch (error) {
+      // update() fails with NOT_FOUND (gRPC code 5) when the profile doesn't exist
+      if ((error as { code?: number }).code === 5) {
+        throw new ProgressError('User not found', 404)
+      }
+      throw error
+    }
+
+    return {}
+  })
+}
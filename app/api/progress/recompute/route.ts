@@ -0,0 +1,24 @@
+import { NextRequest } from 'next/server'
+import { Timestamp } from 'firebase-admin/firestore'
+import { getAdminDb } from '@/lib/firebaseAdmin'
+import { getUserInTransaction, handleProgressRequest } from '@/lib/progress/requests'
+import { recomputeXPTotals } from '@/lib/progress/ledger'
+
+/**
+ * Rebuild a profile's totalXP, level and tree growth from its XP ledger
+ */
+export async function POST(request: NextRequest) {
+  return handleProgressRequest(request, 'XP recompute', async (_body, userCode) => {
+    return getAdminDb().runTransaction(async transaction => {
+      const { userRef, user } = await getUserInTransaction(transaction, userCode)
+      const { totalXP, level, overallGrowth, updates } = await recomputeXPTotals(transaction, userRef, user)
+
+      transaction.update(userRef, {
+        ...updates,
+        lastActive: Timestamp.now(),
+      })
+
+      return { previousTotalXP: user.totalXP, totalXP, level, overallGrowth }
+    })
+  })
+}
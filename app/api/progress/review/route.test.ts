@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { generateProgressiveQuiz } from '@/utils/progressiveGameContent'
+import type { ReviewCard } from '@/utils/spacedRepetition'
+import { POST } from './route'
+
+const firestore = vi.hoisted(() => ({
+  cards: {} as Record<string, unknown>,
+  update: vi.fn(),
+}))
+
+vi.mock('@/lib/firebaseAdmin', () => ({
+  getAdminDb: () => ({
+    collection: () => ({ doc: (id: string) => ({ id }) }),
+    runTransaction: (run: (transaction: unknown) => Promise<unknown>) => run({
+      get: async () => ({ exists: true, data: () => ({ reviewCards: firestore.cards }) }),
+      update: firestore.update,
+    }),
+  }),
+}))
+
+const DAY_MS = 1000 * 60 * 60 * 24
+const question = generateProgressiveQuiz('html', 'HTML', 'easy').questions[0]
+
+function makeCard(dueAt: number): ReviewCard {
+  return {
+    moduleId: 'web-development',
+    languageId: 'html',
+    difficulty: 'easy',
+    questionId: question.id,
+    easeFactor: 2.5,
+    interval: 6,
+    repetitions: 2,
+    lapses: 0,
+    dueAt,
+    lastReviewedAt: dueAt - 6 * DAY_MS,
+  }
+}
+
+let requestCount = 0
+
+function postReview(cardId: string) {
+  // A fresh client address per request keeps the rate limiter out of the way
+  return POST(new NextRequest('http://localhost/api/progress/review', {
+    method: 'POST',
+    headers: { 'x-forwarded-for': `10.0.0.${++requestCount}` },
+    body: JSON.stringify({ userCode: 'ABCD-1234', cardId, answer: question.correctAnswer, rating: 'easy' }),
+  }))
+}
+
+beforeEach(() => {
+  firestore.update.mockReset()
+  firestore.cards = { due: makeCard(Date.now() - DAY_MS), early: makeCard(Date.now() + DAY_MS) }
+})
+
+describe('POST /api/progress/review', () => {
+  it('reschedules a due card', async () => {
+    const response = await postReview('due')
+    expect(response.status).toBe(200)
+    expect(await response.json()).toMatchObject({ success: true, correct: true, card: { repetitions: 3 } })
+    expect(firestore.update).toHaveBeenCalledOnce()
+  })
+
+  it('refuses to review a card before it is due', async () => {
+    const response = await postReview('early')
+    expect(response.status).toBe(409)
+    expect(await response.json()).toEqual({ success: false, error: 'This card is not due for review yet' })
+    expect(firestore.update).not.toHaveBeenCalled()
+  })
+})
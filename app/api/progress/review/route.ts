@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server'
+import { Timestamp } from 'firebase-admin/firestore'
+import { getAdminDb } from '@/lib/firebaseAdmin'
+import { FAILED_QUALITY, getReviewQuestion, isCardDue, REVIEW_RATINGS, scheduleReview, type ReviewRating } from '@/utils/spacedRepetition'
+import { getUserInTransaction, handleProgressRequest, parseInteger } from '@/lib/progress/requests'
+import { ProgressError } from '@/lib/progress/types'
+
+function isReviewRating(value: unknown): value is ReviewRating {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(REVIEW_RATINGS, value)
+}
+
+/**
+ * Grade a review answer and reschedule the card with SM-2.
+ * A correct answer uses the learner's rating (hard/good/easy); a wrong one always fails the card.
+ * Only due cards can be reviewed.
+ */
+export async function POST(request: NextRequest) {
+  return handleProgressRequest(request, 'Review answer', async (body, userCode) => {
+    if (typeof body.cardId !== 'string' || body.cardId.includes('.')) {
+      throw new ProgressError('A valid cardId is required')
+    }
+    const cardId = body.cardId
+
+    return getAdminDb().runTransaction(async transaction => {
+      const { userRef, user } = await getUserInTransaction(transaction, userCode)
+      const card = user.reviewCards?.[cardId]
+      if (!card) {
+        throw new ProgressError('Review card not found', 404)
+      }
+      // Answering a card early would let it be pushed out again and again without being recalled
+      if (!isCardDue(card)) {
+        throw new ProgressError('This card is not due for review yet', 409)
+      }
+
+      const question = getReviewQuestion(card)
+      if (!question) {
+        throw new ProgressError('This question is no longer available', 410)
+      }
+
+      const answer = parseInteger(body.answer, 'answer', 0, question.options.length - 1)
+      const correct = answer === question.correctAnswer
+      if (correct && !isReviewRating(body.rating)) {
+        throw new ProgressError('Rating must be hard, good or easy')
+      }
+
+      const nextCard = scheduleReview(card, correct ? REVIEW_RATINGS[body.rating as ReviewRating] : FAILED_QUALITY)
+
+      transaction.update(userRef, {
+        [`reviewCards.${cardId}`]: nextCard,
+        lastActive: Timestamp.now(),
+      })
+
+      return { correct, card: nextCard }
+    })
+  })
+}
@@ -0,0 +1,44 @@
+import { NextRequest } from 'next/server'
+import { Timestamp } from 'firebase-admin/firestore'
+import { getAdminDb } from '@/lib/firebaseAdmin'
+import { generateSandboxExercises } from '@/utils/sandboxExercises'
+import {
+  getUserInTransaction,
+  handleProgressRequest,
+  parseDifficulty,
+  parseInteger,
+  parseLanguageKey,
+} from '@/lib/progress/requests'
+import { getLanguageProgressEntry, languageProgressUpdate } from '@/lib/progress/languageProgress'
+
+/**
+ * Save which sandbox exercise the learner is on.
+ * Completed exercises only change through /api/progress/sandbox/submit.
+ */
+export async function POST(request: NextRequest) {
+  return handleProgressRequest(request, 'Sandbox state', async (body, userCode) => {
+    const { languageKey, languageId, language } = parseLanguageKey(body.languageKey)
+    const difficulty = parseDifficulty(body.difficulty)
+    const exerciseCount = generateSandboxExercises(languageId, language.name, difficulty).exercises.length
+    const currentExercise = parseInteger(body.currentExercise, 'currentExercise', 0, exerciseCount - 1)
+
+    await getAdminDb().runTransaction(async transaction => {
+      const { userRef, user } = await getUserInTransaction(transaction, userCode)
+      const progress = getLanguageProgressEntry(user, languageKey)
+      const existing = progress.sandboxProgress?.[difficulty] ?? { completedExercises: [], completed: false }
+
+      transaction.update(userRef, {
+        ...languageProgressUpdate(languageKey, {
+          ...progress,
+          sandboxProgress: {
+            ...progress.sandboxProgress,
+            [difficulty]: { ...existing, currentExercise },
+          },
+        }),
+        lastActive: Timestamp.now(),
+      })
+    })
+
+    return {}
+  })
+}
@@ -0,0 +1,124 @@
+import { NextRequest } from 'next/server'
+import { Timestamp } from 'firebase-admin/firestore'
+import { getAdminDb } from '@/lib/firebaseAdmin'
+import { generateSandboxExercises } from '@/utils/sandboxExercises'
+import { PASS_THRESHOLD, XP_REWARDS } from '@/utils/gameConstants'
+import { RATE_LIMITS } from '@/utils/rateLimit'
+import {
+  getUserInTransaction,
+  getUserRef,
+  handleProgressRequest,
+  parseDifficulty,
+  parseInteger,
+  parseLanguageKey,
+} from '@/lib/progress/requests'
+import {
+  getLanguageProgressEntry,
+  isDifficultyUnlocked,
+  languageProgressUpdate,
+  markDifficultyCompleteGlobally,
+} from '@/lib/progress/languageProgress'
+import { gradeSubmission } from '@/lib/progress/sandboxGrading'
+import { recordXPEvents } from '@/lib/progress/ledger'
+import { ProgressError, type XPGrant } from '@/lib/progress/types'
+import type { UserProfile } from '@/lib/firebaseService'
+
+// Longest submission accepted per exercise
+const MAX_SUBMISSION_LENGTH = 20000
+
+/**
+ * Grade every sandbox submission on the server and save the result.
+ * Each exercise passed by its tests or result set pays XP once; passing 75%+ of the set
+ * (and of its tested exercises) pays the completion bonus once. Sets with nothing the server
+ * can verify (most compiled languages, frameworks) pay for similarity passes instead, as before
+ * grading moved to the server; the ledger still pays each of them only once.
+ */
+export async function POST(request: NextRequest) {
+  return handleProgressRequest(request, 'Sandbox submission', async (body, userCode) => {
+    const { languageKey, languageId, language } = parseLanguageKey(body.languageKey)
+    const difficulty = parseDifficulty(body.difficulty)
+    const exercises = generateSandboxExercises(languageId, language.name, difficulty).exercises
+    const currentExercise = parseInteger(body.currentExercise, 'currentExercise', 0, exercises.length - 1)
+
+    const submissions = body.submissions && typeof body.submissions === 'object' ? body.submissions as Record<string, unknown> : {}
+    const codes = exercises.map((_, index) => {
+      const submission = submissions[index] ?? ''
+      if (typeof submission !== 'string' || submission.length > MAX_SUBMISSION_LENGTH) {
+        throw new ProgressError(`Submission ${index + 1} must be text of at most ${MAX_SUBMISSION_LENGTH} characters`)
+      }
+      return submission
+    })
+
+    // Check the learner may work on this difficulty before spending time on grading
+    const snapshot = await getUserRef(userCode).get()
+    if (!snapshot.exists) {
+      throw new ProgressError('User not found', 404)
+    }
+    const startingProgress = getLanguageProgressEntry(snapshot.data() as UserProfile, languageKey)
+    if (!isDifficultyUnlocked(startingProgress.completedDifficulties?.sandbox, difficulty)) {
+      throw new ProgressError(`Complete the earlier difficulties before ${difficulty}`, 403)
+    }
+
+    const grades = await gradeSubmission(languageId, exercises, codes)
+
+    const correctExercises = grades.flatMap((grade, index) => grade.passed ? [index] : [])
+    const passedThreshold = correctExercises.length / exercises.length >= PASS_THRESHOLD
+    const isCompleted = correctExercises.length >= exercises.length
+    const activityPrefix = `sandbox:${languageKey}:${difficulty}`
+
+    // XP pays for passes checked by running the code; in a set with any verified exercise,
+    // similarity passes only count as progress
+    const verifiedGrades = grades.filter(grade => grade.verified)
+    const isVerifiable = verifiedGrades.length > 0
+    const paidCorrect = isVerifiable ? correctExercises.filter(index => grades[index].verified) : correctExercises
+    const earnsCompletionBonus = passedThreshold &&
+      (!isVerifiable || paidCorrect.length / verifiedGrades.length >= PASS_THRESHOLD)
+
+    const grants: XPGrant[] = paidCorrect.map(index => ({
+      activityKey: `${activityPrefix}:exercise-${index}`,
+      source: 'sandbox',
+      amount: XP_REWARDS.SANDBOX_EXECUTE,
+      languageKey,
+      difficulty,
+    }))
+    if (earnsCompletionBonus) {
+      grants.push({
+        activityKey: `${activityPrefix}:complete`,
+        source: 'sandbox',
+        amount: XP_REWARDS.SANDBOX_COMPLETE,
+        languageKey,
+        difficulty,
+      })
+    }
+
+    const xpGranted = await getAdminDb().runTransaction(async transaction => {
+      const { userRef, user } = await getUserInTransaction(transaction, userCode)
+      const progress = getLanguageProgressEntry(user, languageKey)
+
+      const nextProgress = {
+        ...progress,
+        sandboxProgress: {
+          ...progress.sandboxProgress,
+          [difficulty]: { currentExercise, completedExercises: correctExercises, completed: isCompleted },
+        },
+      }
+      if (isCompleted) {
+        markDifficultyCompleteGlobally(nextProgress, difficulty)
+      }
+
+      const xp = await recordXPEvents(transaction, userRef, user, grants)
+
+      transaction.update(userRef, {
+        ...languageProgressUpdate(languageKey, nextProgress),
+        ...xp.updates,
+        // Passing a sandbox fills the legacy glass
+        ...(passedThreshold ? { glassProgress: 100 } : {}),
+        lastActive: Timestamp.now(),
+      })
+
+      return xp.granted
+    })
+
+    return { grades, correctExercises, passedThreshold, xpGranted }
+  }, { key: 'code-exec', config: RATE_LIMITS.codeExecution })
+}
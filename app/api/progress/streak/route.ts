@@ -0,0 +1,82 @@
+import { NextRequest } from 'next/server'
+import { Timestamp } from 'firebase-admin/firestore'
+import { getAdminDb } from '@/lib/firebaseAdmin'
+import { XP_REWARDS } from '@/utils/gameConstants'
+import { getUserInTransaction, handleProgressRequest, parseInteger } from '@/lib/progress/requests'
+import { recordXPEvents } from '@/lib/progress/ledger'
+import type { XPGrant } from '@/lib/progress/types'
+
+const DAY_MS = 1000 * 60 * 60 * 24
+// Largest change to the saved timezone per counted day (daylight saving moves clocks by an hour)
+const MAX_OFFSET_CHANGE_MINUTES = 60
+
+/**
+ * Calendar day (YYYY-MM-DD) of a moment for a client timezone.
+ * `timezoneOffset` is in minutes, as returned by Date.getTimezoneOffset().
+ */
+function getLocalDay(date: Date, timezoneOffset: number): string {
+  return new Date(date.getTime() - timezoneOffset * 60 * 1000).toISOString().slice(0, 10)
+}
+
+function getDaysBetween(fromDay: string, toDay: string): number {
+  return Math.round((Date.parse(toDay) - Date.parse(fromDay)) / DAY_MS)
+}
+
+/**
+ * Record today's visit. The streak day and its timezone are kept on the server, so the
+ * streak grows at most once per calendar day and the streak bonus is paid once per day.
+ * The saved timezone follows the client's by at most an hour per counted day; a bigger
+ * jump would otherwise let one real day count twice.
+ */
+export async function POST(request: NextRequest) {
+  return handleProgressRequest(request, 'Streak update', async (body, userCode) => {
+    // Real timezones range from UTC-12 to UTC+14
+    const clientOffset = parseInteger(body.timezoneOffset, 'timezoneOffset', -840, 720)
+
+    return getAdminDb().runTransaction(async transaction => {
+      const { userRef, user } = await getUserInTransaction(transaction, userCode)
+      const timezoneOffset = user.streakTimezoneOffset ?? clientOffset
+      const today = getLocalDay(new Date(), timezoneOffset)
+
+      // Profiles from before streakDay existed fall back to their last activity
+      const lastDay = user.streakDay ?? getLocalDay(user.lastActive.toDate(), timezoneOffset)
+      const daysDiff = getDaysBetween(lastDay, today)
+
+      if (daysDiff <= 0 && user.streakDay) {
+        return { streak: user.streak, increased: false, isNew: false, xpGranted: 0 }
+      }
+
+      let streak = user.streak
+      let increased = false
+      let isNew = false
+
+      if (daysDiff === 1) {
+        // Consecutive day - increment streak
+        streak += 1
+        increased = true
+        isNew = streak === 1
+      } else if (daysDiff > 1 || streak === 0) {
+        // Streak broken (or never started) - reset to 1
+        streak = 1
+        isNew = true
+      }
+
+      const grants: XPGrant[] = increased
+        ? [{ activityKey: `streak:${today}`, source: 'streak', amount: XP_REWARDS.STREAK_BONUS }]
+        : []
+      const xp = await recordXPEvents(transaction, userRef, user, grants)
+
+      const offsetChange = Math.max(-MAX_OFFSET_CHANGE_MINUTES, Math.min(MAX_OFFSET_CHANGE_MINUTES, clientOffset - timezoneOffset))
+
+      transaction.update(userRef, {
+        ...xp.updates,
+        streak,
+        streakDay: today,
+        streakTimezoneOffset: timezoneOffset + offsetChange,
+        lastActive: Timestamp.now(),
+      })
+
+      return { streak, increased, isNew, xpGranted: xp.granted }
+    })
+  })
+}
@@ -0,0 +1,27 @@
+import { NextRequest } from 'next/server'
+import { Timestamp } from 'firebase-admin/firestore'
+import { getAdminDb } from '@/lib/firebaseAdmin'
+import { getUserInTransaction, handleProgressRequest } from '@/lib/progress/requests'
+import { getTreeCelebrationUpdates } from '@/lib/progress/ledger'
+import { ProgressError } from '@/lib/progress/types'
+
+/**
+ * Restart a fully grown learning tree after its celebration
+ */
+export async function POST(request: NextRequest) {
+  return handleProgressRequest(request, 'Tree celebration', async (_body, userCode) => {
+    return getAdminDb().runTransaction(async transaction => {
+      const { userRef, user } = await getUserInTransaction(transaction, userCode)
+      if (!user.treeProgress || user.treeProgress.overallGrowth < 100) {
+        throw new ProgressError('The tree is not fully grown yet', 409)
+      }
+
+      transaction.update(userRef, {
+        ...getTreeCelebrationUpdates(),
+        lastActive: Timestamp.now(),
+      })
+
+      return {}
+    })
+  })
+}
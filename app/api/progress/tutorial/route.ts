@@ -0,0 +1,66 @@
+import { NextRequest } from 'next/server'
+import { Timestamp } from 'firebase-admin/firestore'
+import { getAdminDb } from '@/lib/firebaseAdmin'
+import { getUserInTransaction, handleProgressRequest, parseIndexList, parseInteger, parseLanguageKey } from '@/lib/progress/requests'
+import { getLanguageProgressEntry, languageProgressUpdate } from '@/lib/progress/languageProgress'
+import { recordXPEvents } from '@/lib/progress/ledger'
+import { XP_REWARDS } from '@/utils/gameConstants'
+import { generateComprehensiveTutorial } from '@/utils/comprehensiveTutorialContent'
+import type { XPGrant } from '@/lib/progress/types'
+
+// Shortest time on a section before moving on from it counts as reading it
+const MIN_SECTION_MS = 10 * 1000
+
+/**
+ * Save tutorial position and completed sections. The client only proposes sections: the server
+ * marks just the one the learner was on as completed, and only once they spent
+ * MIN_SECTION_MS on it, so finishing takes a visit to every section. Completion pays the
+ * tutorial reward once per language.
+ */
+export async function POST(request: NextRequest) {
+  return handleProgressRequest(request, 'Tutorial progress', async (body, userCode) => {
+    const { languageKey, languageId, language } = parseLanguageKey(body.languageKey)
+    const tutorial = generateComprehensiveTutorial(languageId, language.name, language.icon, language.description)
+    const totalSections = tutorial.sections.length
+    const currentSection = parseInteger(body.currentSection, 'currentSection', 0, totalSections - 1)
+    const proposedSections = parseIndexList(body.completedSections, 'completedSections', totalSections)
+
+    return getAdminDb().runTransaction(async transaction => {
+      const { userRef, user } = await getUserInTransaction(transaction, userCode)
+      const progress = getLanguageProgressEntry(user, languageKey)
+      const saved = progress.tutorialProgress
+      const now = Date.now()
+
+      const savedSection = saved?.currentSection ?? 0
+      const savedCompleted = (saved?.completedSections ?? []).filter(index => index < totalSections)
+      // Profiles saved before sectionStartedAt existed have no start time; their current section counts as read
+      const readSavedSection = now - (saved?.sectionStartedAt ?? 0) >= MIN_SECTION_MS
+      const completedSections = proposedSections.includes(savedSection) && readSavedSection
+        ? Array.from(new Set([...savedCompleted, savedSection])).sort((a, b) => a - b)
+        : savedCompleted
+      const isCompleted = completedSections.length >= totalSections
+
+      const grants: XPGrant[] = isCompleted
+        ? [{ activityKey: `tutorial:${languageKey}:complete`, source: 'tutorial', amount: XP_REWARDS.TUTORIAL_COMPLETE, languageKey }]
+        : []
+      const xp = await recordXPEvents(transaction, userRef, user, grants)
+
+      transaction.update(userRef, {
+        ...languageProgressUpdate(languageKey, {
+          ...progress,
+          tutorialProgress: {
+            currentSection,
+            completedSections,
+            totalSections,
+            completed: isCompleted,
+            sectionStartedAt: currentSection === savedSection && saved?.sectionStartedAt ? saved.sectionStartedAt : now,
+          },
+        }),
+        ...xp.updates,
+        lastActive: Timestamp.now(),
+      })
+
+      return { completed: isCompleted, completedSections, xpGranted: xp.granted }
+    })
+  })
+}
@@ -3,15 +3,17 @@
 import { useState, useEffect, useCallback } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useRouter } from 'next/navigation'
-import { Sparkles, Flame, Trophy, Target, Zap } from 'lucide-react'
+import { Sparkles, Flame, Trophy, Target, Zap, Brain } from 'lucide-react'
 import { TECHNOLOGY_MODULES, type Module } from '@/utils/techModules'
 import ModuleCard from '@/components/Dashboard/ModuleCard'
 import SearchFilter from '@/components/Dashboard/SearchFilter'
-import { getUserProfile, updateUserStreak, addUserXP } from '@/lib/firebaseService'
+import { getUserProfile } from '@/lib/firebaseService'
+import { claimDailyStreak } from '@/utils/progressApi'
 import type { UserProfile } from '@/lib/firebaseService'
 import { useUserStore } from '@/stores/userStore'
 import { validateSession, clearSession } from '@/utils/sessionManager'
-import { XP_REWARDS } from '@/hooks/useXP'
+import { XP_REWARDS } from '@/utils/gameConstants'
+import { getDueCards } from '@/utils/spacedRepetition'
 import { SkeletonDashboard } from '@/components/Common/Skeleton'
 
 export default function DashboardPage() {
@@ -36,9 +38,9 @@ export default function DashboardPage() {
         const profile = await getUserProfile(userCode)
         if (profile) {
           try {
-            const streakResult = await updateUserStreak(userCode)
+            // The server pays the streak bonus with the increase
+            const streakResult = await claimDailyStreak(userCode)
             if (streakResult.increased) {
-              await addUserXP(userCode, XP_REWARDS.STREAK_BONUS)
               setStreakNotification({
                 show: true,
                 streak: streakResult.streak,
@@ -94,6 +96,8 @@ export default function DashboardPage() {
 
   if (!userProfile) return null
 
+  const dueCardCount = getDueCards(userProfile.reviewCards).length
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-brand-purple-dark via-brand-purple to-brand-blue-dark pb-32">
       {/* Subtle animated background */}
@@ -189,6 +193,20 @@ export default function DashboardPage() {
                 </div>
               </motion.div>
             </div>
+
+            {/* Review badge */}
+            {dueCardCount > 0 && (
+              <motion.button
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.45 }}
+                onClick={() => router.push('/review')}
+                className="mt-6 sm:mt-8 inline-flex items-center gap-2 sm:gap-3 px-5 sm:px-6 py-2.5 sm:py-3 bg-brand-gold text-gray-900 rounded-full font-bold text-sm sm:text-base md:text-lg shadow-lg hover:scale-105 transition-transform"
+              >
+                <Brain className="w-5 h-5 sm:w-6 sm:h-6" />
+                {dueCardCount} card{dueCardCount === 1 ? '' : 's'} due for review
+              </motion.button>
+            )}
           </motion.div>
 
           {/* Section Header - Clear visual hierarchy */}
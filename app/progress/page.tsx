@@ -9,6 +9,8 @@ import { getUserProfile, getLanguageProgress, getGlobalCompletedDifficulties, ty
 import { TECHNOLOGY_MODULES } from '@/utils/techModules'
 import Certificate from '@/components/Common/Certificate'
 import { Skeleton, SkeletonProgressTree } from '@/components/Common/Skeleton'
+import XPHistory from '@/components/Progress/XPHistory'
+import { triggerProfileRefresh } from '@/components/Progress/GlobalLearningTree'
 
 interface LanguageProgressData {
   tutorialProgress: number
@@ -22,6 +24,7 @@ interface LanguageProgressData {
 export default function ProgressPage() {
   const router = useRouter()
   const [isLoading, setIsLoading] = useState(true)
+  const [userCode, setUserCode] = useState<string | null>(null)
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null)
   const [languageProgressMap, setLanguageProgressMap] = useState<Map<string, LanguageProgressData>>(new Map())
   const [activeCertificate, setActiveCertificate] = useState<{ language: string; difficulty: 'easy' | 'medium' | 'hard' } | null>(null)
@@ -32,6 +35,7 @@ export default function ProgressPage() {
       if (!userCode) {
         return
       }
+      setUserCode(userCode)
 
       try {
         // Load user profile
@@ -476,6 +480,20 @@ export default function ProgressPage() {
           </motion.div>
         )}
 
+        {/* XP History */}
+        {userCode && (
+          <XPHistory
+            userCode={userCode}
+            onRecomputed={async () => {
+              const profile = await getUserProfile(userCode)
+              if (profile) {
+                setUserProfile(profile)
+              }
+              triggerProfileRefresh()
+            }}
+          />
+        )}
+
         {/* Language Progress */}
         <div className="glass-card p-4 sm:p-6 md:p-8 2xl:p-10">
           <h2 className="text-xl sm:text-2xl md:text-3xl 2xl:text-4xl font-bold text-white mb-4 sm:mb-6 md:mb-8 flex items-center space-x-2 sm:space-x-3">
@@ -1,14 +1,70 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { motion } from 'framer-motion'
 import { useRouter } from 'next/navigation'
-import { ArrowLeft, Clock, Zap, Code2 } from 'lucide-react'
-import { MINI_PROJECTS, MiniProject } from '@/utils/miniProjects'
+import { ArrowLeft, Clock, Zap, Code2, History, CheckCircle2 } from 'lucide-react'
+import { MINI_PROJECTS, MiniProject, getProjectById } from '@/utils/miniProjects'
+import { getSession } from '@/utils/sessionManager'
+import { getUserProfile, type ProjectProgress } from '@/lib/firebaseService'
+import { projectDrafts } from '@/utils/storage'
+
+interface ProjectStatus {
+  projectId: string
+  currentStep: number
+  completedSteps: number
+  completed: boolean
+  savedAt: number
+}
 
 export default function ProjectsPage() {
   const router = useRouter()
   const [filter, setFilter] = useState<'all' | 'beginner' | 'intermediate' | 'advanced'>('all')
+  const [projectStatuses, setProjectStatuses] = useState<Record<string, ProjectStatus>>({})
+
+  // Merge profile progress with local drafts, keeping whichever was saved last
+  useEffect(() => {
+    const loadStatuses = async () => {
+      const userCode = getSession()
+      const drafts = projectDrafts.getAll(userCode)
+      let remoteProgress: Record<string, ProjectProgress> = {}
+      if (userCode) {
+        try {
+          const profile = await getUserProfile(userCode)
+          remoteProgress = profile?.projectProgress || {}
+        } catch (error) {
+          console.error('Error loading project progress:', error)
+        }
+      }
+
+      const statuses: Record<string, ProjectStatus> = {}
+      const projectIds = new Set([...Object.keys(drafts), ...Object.keys(remoteProgress)])
+      projectIds.forEach(projectId => {
+        if (!getProjectById(projectId)) return
+        const remote = remoteProgress[projectId]
+        const draft = drafts[projectId]
+        const remoteSavedAt = remote?.lastSaved?.toMillis() ?? 0
+        const latest = draft && draft.savedAt > remoteSavedAt ? draft : remote
+
+        if (!latest) return
+        statuses[projectId] = {
+          projectId,
+          currentStep: latest.currentStep,
+          completedSteps: latest.completedSteps.length,
+          completed: remote?.completed ?? false,
+          savedAt: Math.max(draft?.savedAt ?? 0, remoteSavedAt),
+        }
+      })
+      setProjectStatuses(statuses)
+    }
+
+    loadStatuses()
+  }, [])
+
+  const resumeStatus = Object.values(projectStatuses)
+    .filter(status => !status.completed)
+    .sort((a, b) => b.savedAt - a.savedAt)[0]
+  const resumeProject = resumeStatus ? getProjectById(resumeStatus.projectId) : undefined
 
   const filteredProjects = filter === 'all'
     ? MINI_PROJECTS
@@ -47,6 +103,29 @@ export default function ProjectsPage() {
           </p>
         </motion.div>
 
+        {/* Resume where you left off */}
+        {resumeProject && resumeStatus && (
+          <motion.button
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            onClick={() => router.push(`/projects/${resumeProject.id}`)}
+            className="w-full max-w-3xl mx-auto mb-10 flex items-center gap-4 bg-white/10 hover:bg-white/15 border border-white/20 rounded-2xl p-5 text-left transition-colors"
+          >
+            <div className="text-4xl">{resumeProject.icon}</div>
+            <div className="flex-1">
+              <p className="flex items-center gap-2 text-sm text-white/60 mb-1">
+                <History className="w-4 h-4" />
+                Resume where you left off
+              </p>
+              <p className="text-lg font-bold text-white">{resumeProject.title}</p>
+              <p className="text-sm text-white/60">
+                Step {resumeStatus.currentStep + 1} of {resumeProject.steps.length} · {resumeStatus.completedSteps}/{resumeProject.steps.length} steps done · saved {new Date(resumeStatus.savedAt).toLocaleString()}
+              </p>
+            </div>
+            <span className="text-white font-medium">Continue →</span>
+          </motion.button>
+        )}
+
         {/* Filter Buttons */}
         <div className="flex justify-center gap-4 mb-12">
           {(['all', 'beginner', 'intermediate', 'advanced'] as const).map((level) => (
@@ -120,9 +199,22 @@ export default function ProjectsPage() {
                   {/* Steps indicator */}
                   <div className="mt-4 pt-4 border-t border-white/10">
                     <div className="flex items-center justify-between text-sm">
-                      <span className="text-white/50">{project.steps.length} steps</span>
+                      {projectStatuses[project.id]?.completed ? (
+                        <span className="flex items-center gap-1 text-green-400">
+                          <CheckCircle2 className="w-4 h-4" />
+                          Completed
+                        </span>
+                      ) : projectStatuses[project.id] ? (
+                        <span className="text-white/50">
+                          {projectStatuses[project.id].completedSteps}/{project.steps.length} steps done
+                        </span>
+                      ) : (
+                        <span className="text-white/50">{project.steps.length} steps</span>
+                      )}
                       <span className="text-white/70 font-medium group-hover:text-white transition-colors">
-                        Start Project →
+                        {projectStatuses[project.id]?.completed
+                          ? 'Open Project →'
+                          : projectStatuses[project.id] ? 'Continue →' : 'Start Project →'}
                       </span>
                     </div>
                   </div>
@@ -0,0 +1,31 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import ReviewSession from '@/components/Review/ReviewSession'
+import { validateSession } from '@/utils/sessionManager'
+
+export default function ReviewPage() {
+  const router = useRouter()
+  const [userCode, setUserCode] = useState<string | null>(null)
+
+  // Validate session before showing page
+  useEffect(() => {
+    const code = validateSession(() => router.push('/'))
+    if (!code) {
+      return
+    }
+    setUserCode(code)
+  }, [router])
+
+  // Show loading while checking authentication
+  if (!userCode) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900">
+        <div className="text-white text-2xl">Loading...</div>
+      </div>
+    )
+  }
+
+  return <ReviewSession userCode={userCode} />
+}
@@ -0,0 +1,183 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import { Compartment, EditorState, type Extension } from '@codemirror/state'
+import {
+  EditorView,
+  crosshairCursor,
+  drawSelection,
+  dropCursor,
+  highlightActiveLine,
+  highlightActiveLineGutter,
+  highlightSpecialChars,
+  keymap,
+  lineNumbers,
+  placeholder as placeholderText,
+  rectangularSelection,
+} from '@codemirror/view'
+import { defaultKeymap, history, historyKeymap, indentWithTab } from '@codemirror/commands'
+import { bracketMatching, foldGutter, foldKeymap, indentOnInput, syntaxHighlighting } from '@codemirror/language'
+import { highlightSelectionMatches, search, searchKeymap } from '@codemirror/search'
+import { closeBrackets, closeBracketsKeymap } from '@codemirror/autocomplete'
+import { lintGutter, setDiagnostics } from '@codemirror/lint'
+import {
+  editorHighlightStyle,
+  editorTheme,
+  loadEditorLanguage,
+  locateReadOnlyRegions,
+  markersToDiagnostics,
+  readOnlyRegions as readOnlyRegionsExtension,
+  setReadOnlySpans,
+  type EditorMarker,
+  type ReadOnlyRegions,
+} from '@/utils/codeEditor'
+
+interface CodeEditorProps {
+  value: string
+  onChange: (value: string) => void
+  /** Technology language id (see TECHNOLOGY_MODULES) or project file language */
+  language: string
+  /** Inline error markers, e.g. from the last run */
+  markers?: EditorMarker[]
+  /** Scaffolding lines that stay locked while the rest is edited */
+  readOnlyRegions?: ReadOnlyRegions
+  placeholder?: string
+  ariaLabel: string
+  className?: string
+}
+
+/**
+ * Code editor with syntax highlighting, auto-indent, bracket matching, line numbers,
+ * multiple cursors (Ctrl/Cmd-click, Alt-drag, Ctrl/Cmd-D), find/replace (Ctrl/Cmd-F),
+ * error markers and read-only regions
+ */
+export default function CodeEditor({
+  value,
+  onChange,
+  language,
+  markers = [],
+  readOnlyRegions,
+  placeholder = '',
+  ariaLabel,
+  className = '',
+}: CodeEditorProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const viewRef = useRef<EditorView | null>(null)
+  const compartments = useRef({ language: new Compartment(), placeholder: new Compartment(), label: new Compartment() }).current
+  const languageSupportRef = useRef<Extension>([])
+  const propsRef = useRef({ onChange, markers, readOnlyRegions, placeholder, ariaLabel })
+  propsRef.current = { onChange, markers, readOnlyRegions, placeholder, ariaLabel }
+
+  /**
+   * A fresh state for a document from outside (exercise switch, reset, file switch),
+   * so undo never steps back into a different exercise or file
+   */
+  const createState = (doc: string) => EditorState.create({
+    doc,
+    extensions: [
+      lineNumbers(),
+      highlightActiveLineGutter(),
+      foldGutter(),
+      lintGutter(),
+      highlightSpecialChars(),
+      history(),
+      drawSelection(),
+      dropCursor(),
+      EditorState.allowMultipleSelections.of(true),
+      indentOnInput(),
+      bracketMatching(),
+      closeBrackets(),
+      rectangularSelection(),
+      crosshairCursor(),
+      highlightActiveLine(),
+      highlightSelectionMatches(),
+      search({ top: true }),
+      keymap.of([
+        ...closeBracketsKeymap,
+        ...defaultKeymap,
+        ...searchKeymap,
+        ...historyKeymap,
+        ...foldKeymap,
+        indentWithTab,
+      ]),
+      syntaxHighlighting(editorHighlightStyle),
+      editorTheme,
+      readOnlyRegionsExtension,
+      compartments.language.of(languageSupportRef.current),
+      compartments.placeholder.of(placeholderText(propsRef.current.placeholder)),
+      compartments.label.of(EditorView.contentAttributes.of({ 'aria-label': propsRef.current.ariaLabel })),
+      EditorView.updateListener.of(update => {
+        if (update.docChanged) propsRef.current.onChange(update.state.doc.toString())
+      }),
+    ],
+  })
+
+  const applyReadOnlyRegions = (view: EditorView) => {
+    const regions = propsRef.current.readOnlyRegions
+    const spans = regions ? locateReadOnlyRegions(view.state.doc.toString(), regions) : []
+    view.dispatch({ effects: setReadOnlySpans.of(spans) })
+  }
+
+  const applyMarkers = (view: EditorView) => {
+    view.dispatch(setDiagnostics(view.state, markersToDiagnostics(view.state.doc, propsRef.current.markers)))
+  }
+
+  // Create the editor once; later prop changes are dispatched into it
+  useEffect(() => {
+    if (!containerRef.current) return
+    const view = new EditorView({ parent: containerRef.current, state: createState(value) })
+    viewRef.current = view
+    applyReadOnlyRegions(view)
+    applyMarkers(view)
+
+    return () => {
+      view.destroy()
+      viewRef.current = null
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  useEffect(() => {
+    const view = viewRef.current
+    if (!view || view.state.doc.toString() === value) return
+    view.setState(createState(value))
+    applyReadOnlyRegions(view)
+    applyMarkers(view)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [value])
+
+  useEffect(() => {
+    let cancelled = false
+    loadEditorLanguage(language).then(support => {
+      if (cancelled) return
+      languageSupportRef.current = support
+      viewRef.current?.dispatch({ effects: compartments.language.reconfigure(support) })
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [language, compartments])
+
+  useEffect(() => {
+    viewRef.current?.dispatch({
+      effects: [
+        compartments.placeholder.reconfigure(placeholderText(placeholder)),
+        compartments.label.reconfigure(EditorView.contentAttributes.of({ 'aria-label': ariaLabel })),
+      ],
+    })
+  }, [placeholder, ariaLabel, compartments])
+
+  const regionsKey = readOnlyRegions ? JSON.stringify(readOnlyRegions) : ''
+  useEffect(() => {
+    if (viewRef.current) applyReadOnlyRegions(viewRef.current)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [regionsKey])
+
+  const markersKey = JSON.stringify(markers)
+  useEffect(() => {
+    if (viewRef.current) applyMarkers(viewRef.current)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [markersKey])
+
+  return <div ref={containerRef} className={`overflow-hidden text-sm ${className}`} />
+}
@@ -0,0 +1,67 @@
+'use client'
+
+import { motion } from 'framer-motion'
+import { PASSING_SCORE, type DifferenceKind, type PageComparison } from '@/utils/pageCompare'
+
+interface PageComparisonReportProps {
+  result: PageComparison
+}
+
+const DIFFERENCE_ICONS: Record<DifferenceKind, string> = {
+  missing: '➕',
+  extra: '➖',
+  moved: '↪️',
+  text: '✏️',
+  attribute: '🏷️',
+  accessibility: '♿',
+}
+
+/**
+ * Similarity score of a page against its target, with component scores and each concrete difference
+ */
+export default function PageComparisonReport({ result }: PageComparisonReportProps) {
+  const components = [
+    ['Structure', result.structureScore],
+    ['Content', result.contentScore],
+    ['Accessibility', result.accessibilityScore],
+  ] as const
+
+  return (
+    <motion.div
+      className="glass-card p-6"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-2xl font-bold text-white">Similarity</h3>
+        <div className={`text-3xl font-bold ${result.score >= PASSING_SCORE ? 'text-green-400' : 'text-christmas-gold'}`}>
+          {result.score}%
+        </div>
+      </div>
+      <div className="grid grid-cols-3 gap-4 mb-4">
+        {components.map(([label, value]) => (
+          <div key={label}>
+            <div className="flex justify-between text-white/70 text-sm mb-1">
+              <span>{label}</span>
+              <span>{Math.round(value * 100)}%</span>
+            </div>
+            <div className="h-2 bg-white/10 rounded-full overflow-hidden">
+              <div className="h-full bg-christmas-gold" style={{ width: `${Math.round(value * 100)}%` }} />
+            </div>
+          </div>
+        ))}
+      </div>
+      {result.differences.length === 0 ? (
+        <p className="text-green-400">No differences - a perfect match!</p>
+      ) : (
+        <ul className="space-y-1">
+          {result.differences.map((difference, index) => (
+            <li key={index} className="text-white/80 text-sm">
+              {DIFFERENCE_ICONS[difference.kind]} {difference.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </motion.div>
+  )
+}
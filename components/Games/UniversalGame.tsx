@@ -8,14 +8,8 @@ import { ArrowLeft, Trophy, Heart, Lightbulb, Check } from 'lucide-react'
 import { useRouter } from 'next/navigation'
 import { Language } from '@/utils/techModules'
 import { generateProgressiveQuiz, getTotalQuestionsForDifficulty } from '@/utils/progressiveGameContent'
-import {
-  getLanguageProgress,
-  initializeLanguageProgress,
-  updateGameProgress,
-  addUserXP,
-  getUserProfile,
-  fillGlass
-} from '@/lib/firebaseService'
+import { getLanguageProgress, getUserProfile } from '@/lib/firebaseService'
+import { initializeLanguageProgress, saveGameState, submitGameAnswer } from '@/utils/progressApi'
 import confetti from 'canvas-confetti'
 import Certificate from '@/components/Common/Certificate'
 import { triggerAchievementCheck } from '@/components/Common/AchievementProvider'
@@ -116,24 +110,16 @@ export default function UniversalGame({ language, moduleId, languageId, difficul
     loadProgress()
   }, [languageKey, difficulty])
 
-  // Save progress to Firebase
-  const saveProgress = async (newLevel: number, newCompleted: number[], completed: boolean, currentLives?: number, currentHints?: number, currentScore?: number) => {
+  // Save position and game state (completed levels only change through graded answers)
+  const saveProgress = async (newLevel: number, currentLives: number, currentHints: number, currentScore: number) => {
     if (!userCode) return
 
     try {
-      await updateGameProgress(
-        userCode,
-        languageKey,
-        newLevel,
-        newCompleted,
-        completed,
-        {
-          lives: currentLives ?? lives,
-          hints: currentHints ?? hints,
-          score: currentScore ?? score,
-        },
-        difficulty // Pass difficulty to mark globally complete when done
-      )
+      await saveGameState(userCode, languageKey, difficulty, newLevel, {
+        lives: currentLives,
+        hints: currentHints,
+        score: currentScore,
+      })
     } catch (error) {
       console.error('Error saving game progress:', error)
       // Notify user that save failed so they know to retry
@@ -141,6 +127,28 @@ export default function UniversalGame({ language, moduleId, languageId, difficul
     }
   }
 
+  // Send the answer to the server, which grades it, saves progress and grants XP
+  const recordAnswer = async (answer: number, currentLives: number, currentScore: number) => {
+    if (!userCode) return
+
+    try {
+      const result = await submitGameAnswer(userCode, languageKey, difficulty, currentLevel, answer, {
+        lives: currentLives,
+        hints,
+        score: currentScore,
+      })
+
+      if (result.xpGranted > 0) {
+        // Trigger profile refresh and achievement check
+        triggerProfileRefresh()
+        triggerAchievementCheck()
+      }
+    } catch (error) {
+      console.error('Error saving game progress:', error)
+      notifyProgressSaveFailed('Game progress could not be saved. Please check your connection.')
+    }
+  }
+
   const handleAnswerSelect = async (index: number) => {
     if (selectedAnswer !== null) return
 
@@ -159,15 +167,6 @@ export default function UniversalGame({ language, moduleId, languageId, difficul
         const newCompleted = [...completedLevels, currentLevel].sort((a, b) => a - b)
         setCompletedLevels(newCompleted)
 
-        // Award XP
-        if (userCode) {
-          await addUserXP(userCode, 20) // 20 XP per level
-
-          // Trigger profile refresh and achievement check
-          triggerProfileRefresh()
-          triggerAchievementCheck()
-        }
-
         confetti({
           particleCount: 50,
           spread: 60,
@@ -181,16 +180,6 @@ export default function UniversalGame({ language, moduleId, languageId, difficul
         if (isLastLevel && hasPassedThreshold) {
           setAllCompleted(true)
 
-          // Bonus XP for passing
-          if (userCode) {
-            await addUserXP(userCode, 300) // 300 XP bonus
-            await fillGlass(userCode)
-
-            // Trigger profile refresh and achievement check
-            triggerProfileRefresh()
-            triggerAchievementCheck()
-          }
-
           // Show celebration first
           setShowCelebration(true)
 
@@ -207,9 +196,8 @@ export default function UniversalGame({ language, moduleId, languageId, difficul
           }, 4000)
         }
 
-        // Save progress with updated score
-        const nextLevel = currentLevel < totalLevels - 1 ? currentLevel + 1 : currentLevel
-        await saveProgress(nextLevel, newCompleted, isLastLevel && hasPassedThreshold, lives, hints, score + 100)
+        // The server awards level XP and the completion bonus
+        await recordAnswer(index, lives, score + 100)
       }
     } else {
       // Wrong answer
@@ -217,7 +205,7 @@ export default function UniversalGame({ language, moduleId, languageId, difficul
       setLives(newLives)
 
       // Save progress with reduced lives
-      await saveProgress(currentLevel, completedLevels, false, newLives, hints, score)
+      await recordAnswer(index, newLives, score)
 
       if (newLives === 0) {
         // Game over - restart level
@@ -231,7 +219,7 @@ export default function UniversalGame({ language, moduleId, languageId, difficul
           setIsCorrect(false)
 
           // Save reset state
-          saveProgress(currentLevel, completedLevels, false, resetLives, resetHints, score)
+          saveProgress(currentLevel, resetLives, resetHints, score)
         }, 2000)
       }
     }
@@ -251,7 +239,7 @@ export default function UniversalGame({ language, moduleId, languageId, difficul
       setHints(resetHints)
 
       // Save progress with reset lives/hints for new level
-      saveProgress(nextLevel, completedLevels, false, resetLives, resetHints, score)
+      saveProgress(nextLevel, resetLives, resetHints, score)
     }
   }
 
@@ -261,7 +249,7 @@ export default function UniversalGame({ language, moduleId, languageId, difficul
       setHints(newHints)
 
       // Save progress with reduced hints
-      await saveProgress(currentLevel, completedLevels, false, lives, newHints, score)
+      await saveProgress(currentLevel, lives, newHints, score)
 
       const correctIndex = question.correctAnswer
       const wrongIndex = correctIndex === 0 ? 1 : 0
@@ -4,7 +4,7 @@ import Link from 'next/link'
 import Image from 'next/image'
 import { useRouter } from 'next/navigation'
 import { motion } from 'framer-motion'
-import { Home, Trophy, BookOpen, LogOut, Hammer, Keyboard } from 'lucide-react'
+import { Home, Trophy, BookOpen, LogOut, Hammer, Keyboard, Brain } from 'lucide-react'
 import { useUserStore } from '@/stores/userStore'
 import { useEffect, useState } from 'react'
 import { clearSession, getSession } from '@/utils/sessionManager'
@@ -62,6 +62,7 @@ export default function Navbar() {
   const navItems = [
     { href: '/dashboard', label: 'Dashboard', icon: Home },
     { href: '/projects', label: 'Projects', icon: Hammer },
+    { href: '/review', label: 'Review', icon: Brain },
     { href: '/progress', label: 'Progress', icon: Trophy },
     { href: '/achievements', label: 'Achievements', icon: BookOpen },
   ]
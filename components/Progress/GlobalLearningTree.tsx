@@ -1,7 +1,8 @@
 'use client'
 
 import { useState, useEffect, useCallback } from 'react'
-import { getUserProfile, resetTreeProgress, type UserProfile } from '@/lib/firebaseService'
+import { getUserProfile, type UserProfile } from '@/lib/firebaseService'
+import { resetLearningTree } from '@/utils/progressApi'
 import LearningTree from './LearningTree'
 import TreeCelebration from './TreeCelebration'
 import { getSession } from '@/utils/sessionManager'
@@ -63,7 +64,7 @@ export default function GlobalLearningTree() {
     // Reset tree to 75% (mature stage)
     if (userCode) {
       try {
-        await resetTreeProgress(userCode)
+        await resetLearningTree(userCode)
         await loadProfile()
       } catch (error) {
         console.error('Error resetting tree:', error)
@@ -0,0 +1,219 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { motion } from 'framer-motion'
+import { History, BookOpen, Gamepad2, Code2, Rocket, Flame, Archive, RefreshCw, ChevronDown } from 'lucide-react'
+import type { QueryDocumentSnapshot } from 'firebase/firestore'
+import { getXPHistory, type XPEvent, type XPHistoryFilters } from '@/lib/firebaseService'
+import type { XPSource } from '@/lib/progress/types'
+import { recomputeXP, type RecomputeResult } from '@/utils/progressApi'
+import { TECHNOLOGY_MODULES } from '@/utils/techModules'
+import { getProjectById } from '@/utils/miniProjects'
+
+interface XPHistoryProps {
+  userCode: string
+  /** Called after totals were rebuilt from the ledger */
+  onRecomputed?: (result: RecomputeResult) => void
+}
+
+const SOURCES: { id: XPSource; label: string; icon: typeof BookOpen; color: string }[] = [
+  { id: 'tutorial', label: 'Tutorials', icon: BookOpen, color: 'text-blue-400' },
+  { id: 'game', label: 'Games', icon: Gamepad2, color: 'text-green-400' },
+  { id: 'sandbox', label: 'Sandbox', icon: Code2, color: 'text-purple-400' },
+  { id: 'project', label: 'Projects', icon: Rocket, color: 'text-pink-400' },
+  { id: 'streak', label: 'Streaks', icon: Flame, color: 'text-red-400' },
+  { id: 'legacy', label: 'Before history', icon: Archive, color: 'text-white/60' },
+]
+
+const LANGUAGE_NAMES = new Map<string, string>(TECHNOLOGY_MODULES.flatMap(mod =>
+  mod.languages.map(language => [`${mod.id}-${language.id}`, `${language.icon} ${language.name}`] as [string, string])
+))
+
+const selectClassName = 'appearance-none w-full px-4 py-2.5 pr-10 bg-white/10 border border-white/20 rounded-xl text-white text-sm focus:outline-none focus:ring-2 focus:ring-brand-gold/50 focus:border-brand-gold/50 transition-all cursor-pointer'
+
+/**
+ * What an event was awarded for, from its activity key (e.g. "game:web-development-html:easy:level-3")
+ */
+function describeEvent(event: XPEvent): string {
+  const detail = event.activityKey.split(':').pop() ?? ''
+  switch (event.source) {
+    case 'tutorial':
+      return 'Tutorial completed'
+    case 'game':
+      return detail === 'complete' ? 'Game completed' : `Level ${Number(detail.replace('level-', '')) + 1} cleared`
+    case 'sandbox':
+      return detail === 'complete' ? 'Sandbox passed' : `Exercise ${Number(detail.replace('exercise-', '')) + 1} passed`
+    case 'project':
+      return `Project: ${getProjectById(detail)?.title ?? detail}`
+    case 'streak':
+      return 'Daily streak bonus'
+    case 'legacy':
+      return 'XP earned before history was kept'
+  }
+}
+
+export default function XPHistory({ userCode, onRecomputed }: XPHistoryProps) {
+  const [filters, setFilters] = useState<XPHistoryFilters>({})
+  const [events, setEvents] = useState<XPEvent[]>([])
+  const [cursor, setCursor] = useState<QueryDocumentSnapshot | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isRecomputing, setIsRecomputing] = useState(false)
+  const [recomputeMessage, setRecomputeMessage] = useState<string | null>(null)
+  // Id of the latest page request; responses to older ones (e.g. for previous filters) are dropped
+  const latestRequest = useRef(0)
+
+  const loadPage = useCallback(async (from: QueryDocumentSnapshot | null) => {
+    const requestId = ++latestRequest.current
+    setIsLoading(true)
+    setError(null)
+    try {
+      const page = await getXPHistory(userCode, filters, from)
+      if (requestId !== latestRequest.current) return
+      setEvents(previous => from ? [...previous, ...page.events] : page.events)
+      setCursor(page.cursor)
+    } catch (loadError) {
+      if (requestId !== latestRequest.current) return
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load XP history.')
+    } finally {
+      if (requestId === latestRequest.current) setIsLoading(false)
+    }
+  }, [userCode, filters])
+
+  // Start from the newest event whenever the filters change
+  useEffect(() => {
+    loadPage(null)
+  }, [loadPage])
+
+  const handleRecompute = async () => {
+    setIsRecomputing(true)
+    setRecomputeMessage(null)
+    try {
+      const result = await recomputeXP(userCode)
+      setRecomputeMessage(result.totalXP === result.previousTotalXP
+        ? `Your ${result.totalXP} XP matches your history.`
+        : `Total XP corrected from ${result.previousTotalXP} to ${result.totalXP}.`)
+      onRecomputed?.(result)
+      loadPage(null)
+    } catch (recomputeError) {
+      setRecomputeMessage(recomputeError instanceof Error ? recomputeError.message : 'Failed to recalculate XP.')
+    } finally {
+      setIsRecomputing(false)
+    }
+  }
+
+  return (
+    <div className="glass-card p-4 sm:p-6 md:p-8 2xl:p-10 mb-6 sm:mb-8 md:mb-12">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4 sm:mb-6">
+        <h2 className="text-xl sm:text-2xl md:text-3xl 2xl:text-4xl font-bold text-white flex items-center space-x-2 sm:space-x-3">
+          <History className="w-6 h-6 sm:w-7 sm:h-7 md:w-8 md:h-8 2xl:w-10 2xl:h-10 text-orange-400" />
+          <span>XP History</span>
+        </h2>
+        <button
+          onClick={handleRecompute}
+          disabled={isRecomputing}
+          className="flex items-center gap-2 px-4 py-2 bg-white/10 border border-white/20 rounded-xl text-white text-sm hover:bg-white/20 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <RefreshCw className={`w-4 h-4 ${isRecomputing ? 'animate-spin' : ''}`} />
+          {isRecomputing ? 'Recalculating...' : 'Recalculate totals'}
+        </button>
+      </div>
+
+      {recomputeMessage && (
+        <p className="mb-4 text-sm text-white/80 bg-white/10 border border-white/20 rounded-xl px-4 py-2.5">{recomputeMessage}</p>
+      )}
+
+      {/* Filters */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4 sm:mb-6">
+        <div className="relative">
+          <select
+            value={filters.source ?? ''}
+            onChange={(e) => setFilters(previous => ({ ...previous, source: (e.target.value || undefined) as XPSource | undefined }))}
+            className={selectClassName}
+            aria-label="Filter by source"
+          >
+            <option value="" className="bg-gray-800 text-white">All sources</option>
+            {SOURCES.map(source => (
+              <option key={source.id} value={source.id} className="bg-gray-800 text-white">{source.label}</option>
+            ))}
+          </select>
+          <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-white/50 pointer-events-none" />
+        </div>
+        <div className="relative">
+          <select
+            value={filters.languageKey ?? ''}
+            onChange={(e) => setFilters(previous => ({ ...previous, languageKey: e.target.value || undefined }))}
+            className={selectClassName}
+            aria-label="Filter by language"
+          >
+            <option value="" className="bg-gray-800 text-white">All languages</option>
+            {TECHNOLOGY_MODULES.map(mod => (
+              <optgroup key={mod.id} label={mod.name} className="bg-gray-800 text-white">
+                {mod.languages.map(language => (
+                  <option key={language.id} value={`${mod.id}-${language.id}`} className="bg-gray-800 text-white">
+                    {language.name}
+                  </option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+          <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-white/50 pointer-events-none" />
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-300 mb-4">{error}</p>
+      )}
+
+      {!isLoading && !error && events.length === 0 && (
+        <p className="text-white/60 text-sm sm:text-base text-center py-6">
+          No XP events yet{filters.source || filters.languageKey ? ' for these filters' : ''}.
+        </p>
+      )}
+
+      <ul className="space-y-2">
+        {events.map((event, index) => {
+          const source = SOURCES.find(s => s.id === event.source) ?? SOURCES[SOURCES.length - 1]
+          const Icon = source.icon
+          return (
+            <motion.li
+              key={event.activityKey}
+              className="flex items-center gap-3 bg-white/10 border border-white/20 rounded-xl px-3 sm:px-4 py-2.5 sm:py-3"
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: Math.min(index % 20, 10) * 0.03 }}
+            >
+              <Icon className={`w-5 h-5 flex-shrink-0 ${source.color}`} />
+              <div className="flex-1 min-w-0">
+                <div className="text-white text-sm sm:text-base font-semibold truncate">{describeEvent(event)}</div>
+                <div className="text-white/60 text-xs sm:text-sm truncate">
+                  {[
+                    event.languageKey ? LANGUAGE_NAMES.get(event.languageKey) ?? event.languageKey : null,
+                    event.difficulty ? event.difficulty.charAt(0).toUpperCase() + event.difficulty.slice(1) : null,
+                    event.createdAt.toDate().toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' }),
+                  ].filter(Boolean).join(' · ')}
+                </div>
+              </div>
+              <span className="text-orange-400 font-bold text-sm sm:text-base whitespace-nowrap">+{event.amount} XP</span>
+            </motion.li>
+          )
+        })}
+      </ul>
+
+      {isLoading && (
+        <p className="text-white/60 text-sm text-center py-4">Loading XP history...</p>
+      )}
+
+      {!isLoading && cursor && (
+        <div className="flex justify-center mt-4">
+          <button
+            onClick={() => loadPage(cursor)}
+            className="px-5 py-2 bg-white/10 border border-white/20 rounded-xl text-white text-sm hover:bg-white/20 transition-all"
+          >
+            Load more
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,51 +1,229 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { useRouter } from 'next/navigation'
-import { ArrowLeft, Play, Check, ChevronRight, Lightbulb, Trophy, Eye, EyeOff } from 'lucide-react'
+import { ArrowLeft, Play, Check, ChevronRight, Lightbulb, Trophy, Eye, EyeOff, Plus, Pencil, X, Terminal, Cloud, CloudOff, Circle } from 'lucide-react'
 import { MiniProject } from '@/utils/miniProjects'
+import { runStepChecks, type StepCheckResult } from '@/utils/projectChecks'
 import { executeCode } from '@/utils/pistonService'
-import { useXP } from '@/hooks/useXP'
+import { diagnosticsToMarkers, type ExecutionDiagnostic } from '@/utils/diagnostics'
+import {
+  buildPreviewDocument,
+  getFileLanguage,
+  getInitialWorkState,
+  resolveReference,
+  restoreWorkState,
+  validateFileName,
+  type PreviewConsoleMessage,
+  type ProjectWorkState,
+  type WorkspaceFile,
+} from '@/utils/projectFiles'
+import { toast } from '@/components/Common/Toast'
+import CodeEditor from '@/components/Common/CodeEditor'
+import type { EditorMarker } from '@/utils/codeEditor'
 import { getSession } from '@/utils/sessionManager'
+import { projectDrafts } from '@/utils/storage'
+import { getProjectProgress } from '@/lib/firebaseService'
+import { completeProject, saveProjectWork } from '@/utils/progressApi'
+import { notifyProgressSaveFailed, notifyXPEarned } from '@/utils/progressNotifications'
+import { triggerProfileRefresh } from '@/components/Progress/GlobalLearningTree'
 import confetti from 'canvas-confetti'
 
 interface ProjectWorkspaceProps {
   project: MiniProject
 }
 
+interface ConsoleEntry extends PreviewConsoleMessage {
+  id: number
+}
+
+// Delay before edits are written to the profile (local drafts are written immediately)
+const AUTOSAVE_DELAY_MS = 2000
+
+const CONSOLE_LEVEL_STYLES: Record<PreviewConsoleMessage['level'], string> = {
+  log: 'text-gray-200',
+  info: 'text-blue-300',
+  warn: 'text-yellow-300 bg-yellow-500/5',
+  error: 'text-red-300 bg-red-500/10',
+}
+
 export default function ProjectWorkspace({ project }: ProjectWorkspaceProps) {
   const router = useRouter()
   const userCode = getSession()
-  const { awardXP } = useXP(userCode)
 
-  // File management
+  // File management (starter files plus any files the user adds)
+  const [files, setFiles] = useState<WorkspaceFile[]>(() => getInitialWorkState(project).files)
   const [activeFileId, setActiveFileId] = useState(project.files[0].id)
-  const [fileContents, setFileContents] = useState<Record<string, string>>(() => {
-    const initial: Record<string, string> = {}
-    project.files.forEach(file => {
-      initial[file.id] = file.starterCode
-    })
-    return initial
-  })
+  const [editingFile, setEditingFile] = useState<{ id: string | null; name: string } | null>(null)
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null)
+  const [fileContents, setFileContents] = useState<Record<string, string>>(() => getInitialWorkState(project).fileContents)
 
   // Step tracking
   const [currentStep, setCurrentStep] = useState(0)
   const [completedSteps, setCompletedSteps] = useState<number[]>([])
   const [showHint, setShowHint] = useState(false)
   const [showSolution, setShowSolution] = useState(false)
+  const [checkResults, setCheckResults] = useState<StepCheckResult[] | null>(null)
+  const [isChecking, setIsChecking] = useState(false)
 
   // Execution
   const [output, setOutput] = useState('')
   const [isRunning, setIsRunning] = useState(false)
   const [showPreview, setShowPreview] = useState(true)
 
+  // Preview (web projects): entry page, reload counter and per-file console
+  const isWebProject = project.languages.includes('html')
+  const iframeRef = useRef<HTMLIFrameElement>(null)
+  const consoleIdRef = useRef(0)
+  const [previewEntry, setPreviewEntry] = useState<string | undefined>(undefined)
+  const [previewRun, setPreviewRun] = useState(0)
+  const [consoleEntries, setConsoleEntries] = useState<ConsoleEntry[]>([])
+  const [runDiagnostics, setRunDiagnostics] = useState<{ fileId: string; diagnostics: ExecutionDiagnostic[] } | null>(null)
+  const [consoleFilter, setConsoleFilter] = useState<string | null>(null)
+
   // Completion
   const [projectComplete, setProjectComplete] = useState(false)
+  const [xpGranted, setXpGranted] = useState<number | null>(null)
+
+  // Persistence
+  const [isRestoring, setIsRestoring] = useState(true)
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'local'>('idle')
+  const workState = useMemo<ProjectWorkState>(
+    () => ({ files, fileContents, currentStep, completedSteps }),
+    [files, fileContents, currentStep, completedSteps]
+  )
 
-  const activeFile = project.files.find(f => f.id === activeFileId)!
+  // Restore the most recent save: the profile copy, or the local draft if it is newer
+  useEffect(() => {
+    let cancelled = false
+
+    const restore = async () => {
+      const draft = projectDrafts.get(userCode, project.id)
+      let remote = null
+      if (userCode) {
+        try {
+          remote = await getProjectProgress(userCode, project.id)
+        } catch (error) {
+          console.error('Error loading project progress:', error)
+        }
+      }
+      if (cancelled) return
+
+      const remoteSavedAt = remote?.lastSaved?.toMillis() ?? 0
+      const saved = draft && draft.savedAt > remoteSavedAt ? draft : remote
+      if (saved) {
+        const restored = restoreWorkState(project, saved)
+        setFiles(restored.files)
+        setFileContents(restored.fileContents)
+        setCurrentStep(restored.currentStep)
+        setCompletedSteps(restored.completedSteps)
+        setActiveFileId(project.steps[restored.currentStep]?.targetFileId ?? restored.files[0].id)
+        setSaveStatus(saved === remote ? 'saved' : 'local')
+      }
+      setIsRestoring(false)
+    }
+
+    restore()
+    return () => {
+      cancelled = true
+    }
+  }, [userCode, project])
+
+  // Autosave: local draft on every change, profile after a short pause
+  useEffect(() => {
+    if (isRestoring) return
+
+    projectDrafts.set(userCode, project.id, workState)
+    if (!userCode) {
+      setSaveStatus('local')
+      return
+    }
+
+    setSaveStatus('saving')
+    const timer = setTimeout(async () => {
+      try {
+        await saveProjectWork(userCode, project.id, workState)
+        setSaveStatus('saved')
+      } catch (error) {
+        console.error('Error autosaving project:', error)
+        setSaveStatus('local')
+      }
+    }, AUTOSAVE_DELAY_MS)
+
+    return () => clearTimeout(timer)
+  }, [workState, isRestoring, userCode, project.id])
+
+  const activeFile = files.find(f => f.id === activeFileId) ?? files[0]
   const currentStepData = project.steps[currentStep]
 
+  // Preview errors and warnings with a line in the open file, and errors from its last run, are marked inline
+  const editorMarkers = useMemo<EditorMarker[]>(() => [
+    ...consoleEntries
+      .filter(entry => entry.file === activeFile.name && entry.line !== null && (entry.level === 'error' || entry.level === 'warn'))
+      .map<EditorMarker>(entry => ({ line: entry.line as number, severity: entry.level === 'error' ? 'error' : 'warning', message: entry.message })),
+    ...(runDiagnostics?.fileId === activeFile.id ? diagnosticsToMarkers(runDiagnostics.diagnostics) : []),
+  ],
+  [consoleEntries, runDiagnostics, activeFile.name, activeFile.id])
+
+  const preview = useMemo(
+    () => buildPreviewDocument(files.map(file => ({ path: file.name, content: fileContents[file.id] ?? '' })), previewEntry),
+    [files, fileContents, previewEntry]
+  )
+
+  // Every rebuild reloads the iframe, so the console starts over with any unresolved references
+  useEffect(() => {
+    setConsoleEntries(preview.missing.map(({ file, reference }) => ({
+      id: ++consoleIdRef.current,
+      level: 'error',
+      file,
+      line: null,
+      message: `Cannot find "${reference}" in this project`,
+    })))
+  }, [preview, previewRun])
+
+  // Console output and link clicks posted by the preview runtime
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (!iframeRef.current || event.source !== iframeRef.current.contentWindow) return
+      const data = event.data
+
+      if (data?.type === 'vfs-console') {
+        setConsoleEntries(prev => [...prev.slice(-199), {
+          id: ++consoleIdRef.current,
+          level: data.level,
+          file: data.file,
+          line: data.line,
+          message: String(data.message),
+        }])
+      } else if (data?.type === 'vfs-navigate' && preview.entry) {
+        const target = resolveReference(preview.entry, String(data.href))
+        if (target && files.some(file => file.name === target) && getFileLanguage(target) === 'html') {
+          setPreviewEntry(target)
+        } else {
+          setConsoleEntries(prev => [...prev, {
+            id: ++consoleIdRef.current,
+            level: 'error',
+            file: preview.entry,
+            line: null,
+            message: `Link target "${data.href}" is not an HTML file in this project`,
+          }])
+        }
+      }
+    }
+
+    window.addEventListener('message', handleMessage)
+    return () => window.removeEventListener('message', handleMessage)
+  }, [files, preview.entry])
+
+  const errorCountByFile = consoleEntries.reduce<Record<string, number>>((counts, entry) => {
+    if (entry.level === 'error' && entry.file) counts[entry.file] = (counts[entry.file] || 0) + 1
+    return counts
+  }, {})
+  const visibleConsoleEntries = consoleFilter
+    ? consoleEntries.filter(entry => entry.file === consoleFilter)
+    : consoleEntries
+
   // Update file content
   const updateFileContent = (content: string) => {
     setFileContents(prev => ({
@@ -54,22 +232,78 @@ export default function ProjectWorkspace({ project }: ProjectWorkspaceProps) {
     }))
   }
 
-  // Check if current step is complete
-  const checkStepCompletion = () => {
+  // Create or rename a file from the inline name editor
+  const commitFileEdit = () => {
+    if (!editingFile) return
+
+    const name = editingFile.name.trim()
+    const error = validateFileName(name, files, editingFile.id ?? undefined)
+    if (error) {
+      toast.error(error)
+      return
+    }
+    const language = getFileLanguage(name) || 'text'
+
+    if (editingFile.id === null) {
+      const id = `file-${Date.now()}`
+      setFiles(prev => [...prev, { id, name, language, isStarter: false }])
+      setFileContents(prev => ({ ...prev, [id]: '' }))
+      setActiveFileId(id)
+    } else {
+      const previousName = files.find(file => file.id === editingFile.id)?.name
+      setFiles(prev => prev.map(file => file.id === editingFile.id ? { ...file, name, language } : file))
+      if (previousName && previewEntry === previousName) setPreviewEntry(name)
+    }
+    setEditingFile(null)
+  }
+
+  // Delete a user-added file (asks for a second click to confirm)
+  const handleDeleteFile = (fileId: string) => {
+    if (pendingDeleteId !== fileId) {
+      setPendingDeleteId(fileId)
+      return
+    }
+
+    const file = files.find(f => f.id === fileId)
+    if (!file || file.isStarter) return
+
+    setFiles(prev => prev.filter(f => f.id !== fileId))
+    setFileContents(prev => {
+      const next = { ...prev }
+      delete next[fileId]
+      return next
+    })
+    if (activeFileId === fileId) setActiveFileId(files[0].id)
+    if (previewEntry === file.name) setPreviewEntry(undefined)
+    setPendingDeleteId(null)
+    toast.info(`Deleted ${file.name}`)
+  }
+
+  // Open the file a console entry came from
+  const openFileByName = (name: string | null) => {
+    const file = files.find(f => f.name === name)
+    if (file) setActiveFileId(file.id)
+  }
+
+  // Check if current step is complete by running its checks against the entry page
+  const checkStepCompletion = async () => {
     const step = project.steps[currentStep]
-    const fileContent = fileContents[step.targetFileId] || ''
+    const { html } = buildPreviewDocument(files.map(file => ({ path: file.name, content: fileContents[file.id] ?? '' })))
+
+    setIsChecking(true)
+    const results = await runStepChecks(html, step.checks)
+    setIsChecking(false)
+    setCheckResults(results)
 
-    // Check if all validation keywords are present
-    const isComplete = step.validation.every(keyword =>
-      fileContent.toLowerCase().includes(keyword.toLowerCase())
-    )
+    const isComplete = results.every(result => result.passed)
 
     if (isComplete && !completedSteps.includes(currentStep)) {
-      setCompletedSteps(prev => [...prev, currentStep])
+      const nextCompletedSteps = [...completedSteps, currentStep]
+      setCompletedSteps(nextCompletedSteps)
 
       // Check if project is complete
-      if (completedSteps.length + 1 === project.steps.length) {
-        completeProject()
+      if (nextCompletedSteps.length === project.steps.length) {
+        finishProject(nextCompletedSteps)
       }
     }
 
@@ -77,12 +311,14 @@ export default function ProjectWorkspace({ project }: ProjectWorkspaceProps) {
   }
 
   // Mark step as complete and move to next
-  const handleNextStep = () => {
-    if (checkStepCompletion()) {
+  const handleNextStep = async () => {
+    if (isChecking) return
+    if (await checkStepCompletion()) {
       if (currentStep < project.steps.length - 1) {
         setCurrentStep(currentStep + 1)
         setShowHint(false)
         setShowSolution(false)
+        setCheckResults(null)
 
         // Switch to target file for new step
         const nextStep = project.steps[currentStep + 1]
@@ -91,16 +327,29 @@ export default function ProjectWorkspace({ project }: ProjectWorkspaceProps) {
     }
   }
 
-  // Complete the project
-  const completeProject = () => {
+  // Complete the project (XP is only granted the first time)
+  const finishProject = async (finalCompletedSteps: number[]) => {
     setProjectComplete(true)
-    awardXP(project.xpReward, true)
+    setXpGranted(null)
 
     confetti({
       particleCount: 150,
       spread: 100,
       origin: { y: 0.6 }
     })
+
+    if (!userCode) return
+    try {
+      const granted = await completeProject(userCode, project.id, { ...workState, completedSteps: finalCompletedSteps })
+      setXpGranted(granted)
+      if (granted > 0) {
+        notifyXPEarned(granted)
+        triggerProfileRefresh()
+      }
+    } catch (error) {
+      console.error('Error completing project:', error)
+      notifyProgressSaveFailed()
+    }
   }
 
   // Run code
@@ -108,19 +357,11 @@ export default function ProjectWorkspace({ project }: ProjectWorkspaceProps) {
     setIsRunning(true)
     setOutput('Running...')
 
-    // For web projects, generate a combined preview
-    if (project.languages.includes('html')) {
-      const htmlContent = fileContents['html'] || ''
-      const cssContent = fileContents['css'] || ''
-      const jsContent = fileContents['javascript'] || ''
-
-      setOutput(`=== Preview Generated ===
-
-HTML Structure: ${htmlContent.length} characters
-CSS Styles: ${cssContent.length} characters
-JavaScript: ${jsContent.length} characters
-
-Your project is ready! Check the preview panel to see it in action.`)
+    // For web projects, reload the bundled preview with a fresh console
+    if (isWebProject) {
+      setPreviewRun(run => run + 1)
+      setShowPreview(true)
+      setOutput('')
       setIsRunning(false)
       return
     }
@@ -128,6 +369,7 @@ Your project is ready! Check the preview panel to see it in action.`)
     // For non-web projects, execute via Piston
     try {
       const result = await executeCode(activeFile.language, fileContents[activeFileId])
+      setRunDiagnostics({ fileId: activeFileId, diagnostics: result.diagnostics ?? [] })
       if (result.success) {
         setOutput(result.output)
       } else {
@@ -153,26 +395,6 @@ Your project is ready! Check the preview panel to see it in action.`)
     }
   }
 
-  // Generate preview HTML
-  const getPreviewHTML = () => {
-    const htmlContent = fileContents['html'] || '<p>No HTML content</p>'
-    const cssContent = fileContents['css'] || ''
-    const jsContent = fileContents['javascript'] || ''
-
-    return `
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <style>${cssContent}</style>
-        </head>
-        <body>
-          ${htmlContent.replace(/<link[^>]*>|<script[^>]*>.*?<\/script>/gi, '')}
-          <script>${jsContent}</script>
-        </body>
-      </html>
-    `
-  }
-
   return (
     <div className="min-h-screen bg-gray-900 flex flex-col">
       {/* Header */}
@@ -197,6 +419,12 @@ Your project is ready! Check the preview panel to see it in action.`)
           </div>
 
           <div className="flex items-center gap-4">
+            {saveStatus !== 'idle' && (
+              <span className="flex items-center gap-1 text-xs text-gray-400" aria-live="polite">
+                {saveStatus === 'local' ? <CloudOff className="w-4 h-4" /> : <Cloud className="w-4 h-4" />}
+                {saveStatus === 'saving' ? 'Saving...' : saveStatus === 'saved' ? 'Saved' : 'Saved on this device'}
+              </span>
+            )}
             <button
               onClick={handleRunCode}
               disabled={isRunning}
@@ -259,12 +487,39 @@ Your project is ready! Check the preview panel to see it in action.`)
               </button>
             )}
 
+            {/* Step checks, with the failing assertion explained after a check run */}
+            <ul className="space-y-2 mb-4" aria-live="polite">
+              {currentStepData.checks.map((check, index) => {
+                const result = checkResults?.[index]
+                return (
+                  <li key={index} className="flex items-start gap-2 text-sm">
+                    {!result ? (
+                      <Circle className="w-4 h-4 text-gray-500 shrink-0 mt-0.5" aria-label="Not checked yet" />
+                    ) : result.passed ? (
+                      <Check className="w-4 h-4 text-green-400 shrink-0 mt-0.5" aria-label="Passed" />
+                    ) : (
+                      <X className="w-4 h-4 text-red-400 shrink-0 mt-0.5" aria-label="Failed" />
+                    )}
+                    <div>
+                      <p className={result?.passed ? 'text-gray-300' : 'text-gray-400'}>{check.description}</p>
+                      {result && !result.passed && result.message && (
+                        <p className="text-xs text-red-300 mt-1">{result.message}</p>
+                      )}
+                    </div>
+                  </li>
+                )
+              })}
+            </ul>
+
             {/* Next Step Button */}
             <button
               onClick={handleNextStep}
-              className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-purple-600 hover:bg-purple-700 text-white rounded-lg font-medium"
+              disabled={isChecking}
+              className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-purple-600 hover:bg-purple-700 text-white rounded-lg font-medium disabled:opacity-50"
             >
-              {currentStep === project.steps.length - 1 ? (
+              {isChecking ? (
+                'Checking...'
+              ) : currentStep === project.steps.length - 1 ? (
                 <>
                   <Check className="w-4 h-4" />
                   Complete Project
@@ -290,7 +545,9 @@ Your project is ready! Check the preview panel to see it in action.`)
                     setActiveFileId(step.targetFileId)
                     setShowHint(false)
                     setShowSolution(false)
+                    setCheckResults(null)
                   }}
+                  disabled={isChecking}
                   className={`w-full flex items-center gap-3 p-3 rounded-lg text-left transition-colors ${
                     index === currentStep
                       ? 'bg-purple-600/20 border border-purple-500'
@@ -320,32 +577,146 @@ Your project is ready! Check the preview panel to see it in action.`)
         {/* Center - Code Editor */}
         <div className="flex-1 flex flex-col">
           {/* File Tabs */}
-          <div className="bg-gray-800 border-b border-gray-700 px-4 py-2 flex gap-2">
-            {project.files.map(file => (
+          <div className="bg-gray-800 border-b border-gray-700 px-4 py-2 flex flex-wrap items-center gap-2">
+            {files.map(file => (
+              editingFile?.id === file.id ? (
+                <input
+                  key={file.id}
+                  autoFocus
+                  value={editingFile.name}
+                  onChange={(e) => setEditingFile({ id: file.id, name: e.target.value })}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitFileEdit()
+                    if (e.key === 'Escape') setEditingFile(null)
+                  }}
+                  onBlur={() => setEditingFile(null)}
+                  className="px-3 py-2 rounded-t-lg text-sm bg-gray-900 text-white font-mono focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  aria-label={`Rename ${file.name}`}
+                />
+              ) : (
+                <div
+                  key={file.id}
+                  className={`flex items-center rounded-t-lg text-sm font-medium transition-colors ${
+                    file.id === activeFileId
+                      ? 'bg-gray-900 text-white'
+                      : 'bg-gray-700 text-gray-400 hover:text-white'
+                  }`}
+                >
+                  <button
+                    onClick={() => setActiveFileId(file.id)}
+                    onDoubleClick={() => !file.isStarter && setEditingFile({ id: file.id, name: file.name })}
+                    className="px-4 py-2 flex items-center gap-2"
+                  >
+                    {file.name}
+                    {errorCountByFile[file.name] > 0 && (
+                      <span className="w-2 h-2 rounded-full bg-red-500" title={`${errorCountByFile[file.name]} error(s)`} />
+                    )}
+                  </button>
+                  {!file.isStarter && (
+                    <>
+                      <button
+                        onClick={() => setEditingFile({ id: file.id, name: file.name })}
+                        className="p-1 text-gray-500 hover:text-white"
+                        aria-label={`Rename ${file.name}`}
+                      >
+                        <Pencil className="w-3 h-3" />
+                      </button>
+                      <button
+                        onClick={() => handleDeleteFile(file.id)}
+                        onBlur={() => setPendingDeleteId(null)}
+                        className={`p-1 mr-1 ${pendingDeleteId === file.id ? 'text-red-400' : 'text-gray-500 hover:text-red-400'}`}
+                        aria-label={pendingDeleteId === file.id ? `Click again to delete ${file.name}` : `Delete ${file.name}`}
+                        title={pendingDeleteId === file.id ? 'Click again to delete' : 'Delete file'}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              )
+            ))}
+
+            {editingFile?.id === null ? (
+              <input
+                autoFocus
+                value={editingFile.name}
+                placeholder="utils.js"
+                onChange={(e) => setEditingFile({ id: null, name: e.target.value })}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitFileEdit()
+                  if (e.key === 'Escape') setEditingFile(null)
+                }}
+                onBlur={() => setEditingFile(null)}
+                className="px-3 py-2 rounded-t-lg text-sm bg-gray-900 text-white font-mono focus:outline-none focus:ring-2 focus:ring-purple-500"
+                aria-label="New file name"
+              />
+            ) : (
               <button
-                key={file.id}
-                onClick={() => setActiveFileId(file.id)}
-                className={`px-4 py-2 rounded-t-lg text-sm font-medium transition-colors ${
-                  file.id === activeFileId
-                    ? 'bg-gray-900 text-white'
-                    : 'bg-gray-700 text-gray-400 hover:text-white'
-                }`}
+                onClick={() => setEditingFile({ id: null, name: '' })}
+                className="p-2 text-gray-400 hover:text-white"
+                aria-label="Add file"
+                title="Add file"
               >
-                {file.name}
+                <Plus className="w-4 h-4" />
               </button>
-            ))}
+            )}
           </div>
 
           {/* Editor */}
           <div className="flex-1 p-4 overflow-auto">
-            <textarea
-              value={fileContents[activeFileId]}
-              onChange={(e) => updateFileContent(e.target.value)}
-              className="w-full h-full bg-gray-950 text-gray-100 font-mono text-sm p-4 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-purple-500"
-              spellCheck={false}
+            <CodeEditor
+              value={fileContents[activeFile.id] ?? ''}
+              onChange={updateFileContent}
+              language={activeFile.language}
+              markers={editorMarkers}
+              className="h-full rounded-lg"
+              ariaLabel={`Editor for ${activeFile.name}`}
             />
           </div>
 
+          {/* Console (web projects) */}
+          {isWebProject && (
+            <div className="bg-gray-950 border-t border-gray-700 max-h-56 flex flex-col">
+              <div className="px-4 py-2 flex items-center gap-2 border-b border-gray-800 text-sm">
+                <Terminal className="w-4 h-4 text-gray-400" />
+                <span className="font-medium text-gray-400 mr-2">Console</span>
+                <button
+                  onClick={() => setConsoleFilter(null)}
+                  className={`px-2 py-0.5 rounded ${consoleFilter === null ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-white'}`}
+                >
+                  All ({consoleEntries.length})
+                </button>
+                {files.filter(file => consoleEntries.some(entry => entry.file === file.name)).map(file => (
+                  <button
+                    key={file.id}
+                    onClick={() => setConsoleFilter(file.name)}
+                    className={`px-2 py-0.5 rounded font-mono ${consoleFilter === file.name ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-white'}`}
+                  >
+                    {file.name}
+                    {errorCountByFile[file.name] > 0 && <span className="ml-1 text-red-400">({errorCountByFile[file.name]})</span>}
+                  </button>
+                ))}
+              </div>
+              <div className="overflow-auto font-mono text-xs">
+                {visibleConsoleEntries.length === 0 ? (
+                  <p className="px-4 py-2 text-gray-600">No console output yet.</p>
+                ) : (
+                  visibleConsoleEntries.map(entry => (
+                    <div key={entry.id} className={`px-4 py-1 flex gap-3 border-b border-gray-900 ${CONSOLE_LEVEL_STYLES[entry.level] || CONSOLE_LEVEL_STYLES.log}`}>
+                      <button
+                        onClick={() => openFileByName(entry.file)}
+                        className="shrink-0 text-gray-500 hover:text-purple-300 underline-offset-2 hover:underline"
+                      >
+                        {entry.file ?? 'unknown'}{entry.line !== null ? `:${entry.line}` : ''}
+                      </button>
+                      <pre className="whitespace-pre-wrap break-all">{entry.message}</pre>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Output */}
           {output && (
             <div className="bg-gray-950 border-t border-gray-700 p-4 max-h-48 overflow-auto">
@@ -358,10 +729,21 @@ Your project is ready! Check the preview panel to see it in action.`)
         </div>
 
         {/* Right Panel - Preview (for web projects) */}
-        {project.languages.includes('html') && (
+        {isWebProject && (
           <div className="w-96 bg-gray-800 border-l border-gray-700 flex flex-col">
             <div className="p-4 border-b border-gray-700 flex items-center justify-between">
-              <h3 className="font-medium text-white">Preview</h3>
+              <h3 className="font-medium text-white flex items-center gap-2">
+                Preview
+                {preview.entry && <span className="text-xs font-mono text-gray-400">{preview.entry}</span>}
+                {previewEntry && previewEntry !== 'index.html' && (
+                  <button
+                    onClick={() => setPreviewEntry(undefined)}
+                    className="text-xs text-purple-300 hover:text-purple-200"
+                  >
+                    Back to index
+                  </button>
+                )}
+              </h3>
               <button
                 onClick={() => setShowPreview(!showPreview)}
                 className="text-gray-400 hover:text-white"
@@ -372,7 +754,9 @@ Your project is ready! Check the preview panel to see it in action.`)
             {showPreview && (
               <div className="flex-1 bg-white">
                 <iframe
-                  srcDoc={getPreviewHTML()}
+                  key={previewRun}
+                  ref={iframeRef}
+                  srcDoc={preview.html}
                   className="w-full h-full border-0"
                   title="Preview"
                   sandbox="allow-scripts"
@@ -405,7 +789,11 @@ Your project is ready! Check the preview panel to see it in action.`)
                 You built: {project.title}
               </p>
               <p className="text-lg text-white/80 mb-6">
-                +{project.xpReward} XP earned!
+                {xpGranted === null
+                  ? 'Saving your project...'
+                  : xpGranted > 0
+                    ? `+${xpGranted} XP earned!`
+                    : 'You already earned the XP for this project.'}
               </p>
               <div className="flex gap-4 justify-center">
                 <button
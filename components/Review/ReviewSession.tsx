@@ -0,0 +1,258 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { motion, AnimatePresence } from 'framer-motion'
+import { ArrowLeft, Brain, Check } from 'lucide-react'
+import { useRouter } from 'next/navigation'
+import { getUserProfile } from '@/lib/firebaseService'
+import { submitReview } from '@/utils/progressApi'
+import { getDueCards, getReviewQuestion, type ReviewCard, type ReviewRating } from '@/utils/spacedRepetition'
+import type { QuizQuestion } from '@/utils/progressiveGameContent'
+import { getLanguageByModuleAndId } from '@/utils/techModules'
+import { notifyProgressSaveFailed } from '@/utils/progressNotifications'
+
+interface ReviewSessionProps {
+  userCode: string
+}
+
+interface ReviewItem {
+  cardId: string
+  card: ReviewCard
+  question: QuizQuestion
+  languageName: string
+}
+
+const RATING_BUTTONS: { rating: ReviewRating; label: string; hint: string; className: string }[] = [
+  { rating: 'hard', label: 'Hard', hint: 'I had to think hard', className: 'bg-orange-500 hover:bg-orange-600' },
+  { rating: 'good', label: 'Good', hint: 'I knew it', className: 'bg-blue-500 hover:bg-blue-600' },
+  { rating: 'easy', label: 'Easy', hint: 'Too easy', className: 'bg-green-500 hover:bg-green-600' },
+]
+
+export default function ReviewSession({ userCode }: ReviewSessionProps) {
+  const router = useRouter()
+  const [queue, setQueue] = useState<ReviewItem[]>([])
+  const [nextDueAt, setNextDueAt] = useState<number | null>(null)
+  const [position, setPosition] = useState(0)
+  const [selectedAnswer, setSelectedAnswer] = useState<number | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [correctCount, setCorrectCount] = useState(0)
+  const [isLoading, setIsLoading] = useState(true)
+
+  // Build today's queue once, so cards rescheduled during the session don't come back
+  useEffect(() => {
+    const loadQueue = async () => {
+      try {
+        const profile = await getUserProfile(userCode)
+        const items = getDueCards(profile?.reviewCards).flatMap(({ cardId, card }) => {
+          const question = getReviewQuestion(card)
+          const language = getLanguageByModuleAndId(card.moduleId, card.languageId)
+          return question && language ? [{ cardId, card, question, languageName: language.name }] : []
+        })
+        setQueue(items)
+
+        const upcoming = Object.values(profile?.reviewCards ?? {}).map(card => card.dueAt).filter(dueAt => dueAt > Date.now())
+        setNextDueAt(upcoming.length > 0 ? Math.min(...upcoming) : null)
+      } catch (error) {
+        console.error('Error loading review cards:', error)
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadQueue()
+  }, [userCode])
+
+  const item = queue[position]
+  const isCorrect = item !== undefined && selectedAnswer === item.question.correctAnswer
+
+  const saveAndContinue = async (answer: number, rating?: ReviewRating) => {
+    if (!item || isSaving) return
+    setIsSaving(true)
+    try {
+      const result = await submitReview(userCode, item.cardId, answer, rating)
+      if (result.correct) {
+        setCorrectCount(count => count + 1)
+      }
+      setSelectedAnswer(null)
+      setPosition(current => current + 1)
+    } catch (error) {
+      console.error('Error saving review:', error)
+      notifyProgressSaveFailed('Your review could not be saved. Please check your connection.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-pink-900 flex items-center justify-center">
+        <div className="text-center">
+          <div className="text-6xl mb-4">🧠</div>
+          <div className="text-white text-2xl font-bold">Loading your review cards...</div>
+        </div>
+      </div>
+    )
+  }
+
+  const header = (
+    <div className="flex items-center justify-between mb-6 md:mb-8 max-w-4xl mx-auto">
+      <button
+        onClick={() => router.push('/dashboard')}
+        className="flex items-center gap-2 text-white/80 hover:text-white transition-colors"
+      >
+        <ArrowLeft className="w-5 h-5" />
+        <span className="text-sm sm:text-base">Dashboard</span>
+      </button>
+      {queue.length > 0 && position < queue.length && (
+        <span className="text-white/80 text-sm sm:text-base font-semibold">
+          Card {position + 1} of {queue.length}
+        </span>
+      )}
+    </div>
+  )
+
+  // Nothing due, or the session is finished
+  if (!item) {
+    const finished = queue.length > 0
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-pink-900 p-4 sm:p-6 md:p-8">
+        {header}
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="glass-card max-w-xl mx-auto p-6 sm:p-8 md:p-10 text-center"
+        >
+          <Brain className="w-14 h-14 sm:w-16 sm:h-16 text-brand-gold mx-auto mb-4" />
+          <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold text-white mb-3">
+            {finished ? 'Review complete!' : 'No cards due'}
+          </h1>
+          <p className="text-white/80 text-sm sm:text-base md:text-lg mb-2">
+            {finished
+              ? `You reviewed ${queue.length} card${queue.length === 1 ? '' : 's'} and got ${correctCount} right.`
+              : 'Questions you miss in games are added here and come back just before you would forget them.'}
+          </p>
+          {nextDueAt && !finished && (
+            <p className="text-white/60 text-sm sm:text-base">
+              Next card due {new Date(nextDueAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+            </p>
+          )}
+          <button
+            onClick={() => router.push('/dashboard')}
+            className="mt-6 bg-white text-purple-600 px-6 py-3 rounded-xl font-bold hover:shadow-xl transition-all"
+          >
+            Back to Dashboard
+          </button>
+        </motion.div>
+      </div>
+    )
+  }
+
+  const { question } = item
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-900 via-purple-900 to-pink-900 p-4 sm:p-6 md:p-8 pb-20">
+      {header}
+
+      <motion.div
+        key={item.cardId}
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="max-w-4xl mx-auto"
+      >
+        <div className="bg-white/95 backdrop-blur-lg rounded-2xl md:rounded-3xl p-4 sm:p-6 md:p-8 shadow-2xl mb-4 md:mb-6">
+          <div className="flex items-center gap-2 mb-4 md:mb-6 flex-wrap">
+            <div className="bg-purple-100 px-3 md:px-4 py-1.5 md:py-2 rounded-full">
+              <span className="text-purple-700 font-semibold text-xs sm:text-sm">📚 {question.topic}</span>
+            </div>
+            <div className="bg-blue-100 px-3 md:px-4 py-1.5 md:py-2 rounded-full">
+              <span className="text-blue-700 font-semibold text-xs sm:text-sm">
+                {item.languageName} · {item.card.difficulty.charAt(0).toUpperCase() + item.card.difficulty.slice(1)}
+              </span>
+            </div>
+          </div>
+
+          <h2 className="text-lg sm:text-xl md:text-2xl lg:text-3xl font-bold text-gray-800 mb-4 md:mb-8">
+            {question.question}
+          </h2>
+
+          <div className="space-y-2 sm:space-y-3 md:space-y-4" role="listbox" aria-label="Answer options">
+            {question.options.map((option, index) => (
+              <button
+                key={index}
+                onClick={() => {
+                  if (selectedAnswer !== null) return
+                  setSelectedAnswer(index)
+                }}
+                disabled={selectedAnswer !== null}
+                role="option"
+                aria-selected={selectedAnswer === index}
+                className={`w-full p-4 md:p-5 min-h-[52px] rounded-xl md:rounded-2xl font-semibold text-left transition-all text-sm sm:text-base md:text-lg focus:outline-none focus:ring-2 focus:ring-brand-gold focus:ring-offset-2 ${
+                  selectedAnswer === null
+                    ? 'bg-gray-100 hover:bg-gray-200 text-gray-800'
+                    : index === question.correctAnswer
+                    ? 'bg-green-500 text-white'
+                    : selectedAnswer === index
+                    ? 'bg-red-500 text-white'
+                    : 'bg-gray-100 text-gray-800 opacity-50'
+                }`}
+              >
+                <div className="flex items-center gap-2 sm:gap-3 md:gap-4">
+                  <div className="w-8 h-8 sm:w-9 sm:h-9 md:w-10 md:h-10 rounded-full bg-white/20 flex items-center justify-center font-bold text-sm sm:text-base flex-shrink-0" aria-hidden="true">
+                    {String.fromCharCode(65 + index)}
+                  </div>
+                  <span className="flex-1">{option}</span>
+                  {selectedAnswer !== null && index === question.correctAnswer && (
+                    <Check className="w-5 h-5 sm:w-6 sm:h-6 flex-shrink-0" aria-hidden="true" />
+                  )}
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Explanation and rating */}
+        <AnimatePresence>
+          {selectedAnswer !== null && (
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              className={`rounded-2xl md:rounded-3xl p-4 sm:p-5 md:p-6 ${
+                isCorrect ? 'bg-green-500/20 border-2 border-green-500' : 'bg-red-500/20 border-2 border-red-500'
+              }`}
+            >
+              <h3 className="text-lg sm:text-xl md:text-2xl font-bold text-white mb-2">
+                {isCorrect ? '✅ Correct! How did that feel?' : '❌ Not quite right'}
+              </h3>
+              <p className="text-white/90 text-sm sm:text-base md:text-lg mb-3 md:mb-4">{question.explanation}</p>
+
+              {isCorrect ? (
+                <div className="grid grid-cols-3 gap-2 sm:gap-3">
+                  {RATING_BUTTONS.map(button => (
+                    <button
+                      key={button.rating}
+                      onClick={() => saveAndContinue(selectedAnswer, button.rating)}
+                      disabled={isSaving}
+                      className={`${button.className} text-white px-3 py-2 sm:py-3 rounded-xl font-bold transition-all disabled:opacity-50`}
+                    >
+                      <span className="block text-sm sm:text-base">{button.label}</span>
+                      <span className="block text-xs font-normal text-white/80">{button.hint}</span>
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <button
+                  onClick={() => saveAndContinue(selectedAnswer)}
+                  disabled={isSaving}
+                  className="bg-white text-gray-800 px-6 md:px-8 py-2.5 md:py-3 rounded-xl font-bold hover:shadow-xl transition-all disabled:opacity-50 text-sm sm:text-base"
+                >
+                  {isSaving ? 'Saving...' : 'Next Card'}
+                </button>
+              )}
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </motion.div>
+    </div>
+  )
+}
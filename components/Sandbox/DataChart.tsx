@@ -0,0 +1,157 @@
+'use client'
+
+import type { CellValue, ChartSettings, Column, DataTable } from '@/utils/dataLab'
+
+interface DataChartProps {
+  table: DataTable
+  settings: ChartSettings
+}
+
+const WIDTH = 560
+const HEIGHT = 300
+const MARGIN = { top: 16, right: 16, bottom: 48, left: 56 }
+const MAX_BARS = 40
+const HISTOGRAM_BINS = 10
+
+function toNumber(value: CellValue, column: Column): number | null {
+  if (value === null) return null
+  if (column.type === 'number') return value as number
+  if (column.type === 'date') return Date.parse(String(value))
+  return null
+}
+
+function formatTick(value: number): string {
+  if (Math.abs(value) >= 1000) return `${(value / 1000).toFixed(1)}k`
+  return Number.isInteger(value) ? String(value) : value.toFixed(2)
+}
+
+function scale(domainMin: number, domainMax: number, rangeMin: number, rangeMax: number) {
+  const span = domainMax - domainMin || 1
+  return (value: number) => rangeMin + ((value - domainMin) / span) * (rangeMax - rangeMin)
+}
+
+/**
+ * Bar, line, scatter or histogram chart of the current Data Lab result
+ */
+export default function DataChart({ table, settings }: DataChartProps) {
+  const xColumn = table.columns.find(column => column.name === settings.x)
+  const yColumn = table.columns.find(column => column.name === settings.y)
+  const isNumeric = (column?: Column) => column?.type === 'number' || column?.type === 'date'
+
+  let problem: string | null = null
+  if (!xColumn) problem = 'Pick a column for the x axis.'
+  else if (settings.kind === 'histogram' && xColumn.type !== 'number') problem = 'Histograms need a numeric column.'
+  else if (settings.kind !== 'histogram' && yColumn?.type !== 'number') problem = 'Pick a numeric column for the y axis.'
+  else if (settings.kind === 'scatter' && !isNumeric(xColumn)) problem = 'Scatter plots need a numeric x column.'
+  else if (table.rows.every(row => row[xColumn.name] === null)) problem = 'The current result has no values to chart.'
+
+  if (problem || !xColumn) {
+    return <div className="h-[200px] flex items-center justify-center text-white/60 text-sm text-center">{problem}</div>
+  }
+
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom
+  const bottom = MARGIN.top + plotHeight
+
+  // Bars (bar charts and histograms) share one layout
+  let bars: { label: string; value: number }[] = []
+  let points: { x: number; y: number }[] = []
+  let note: string | null = null
+
+  if (settings.kind === 'histogram') {
+    const values = table.rows.map(row => row[xColumn.name]).filter((value): value is number => typeof value === 'number')
+    const min = Math.min(...values)
+    const max = Math.max(...values)
+    const width = (max - min) / HISTOGRAM_BINS || 1
+    bars = Array.from({ length: HISTOGRAM_BINS }, (_, bin) => ({
+      label: formatTick(min + bin * width),
+      value: values.filter(value => Math.min(Math.floor((value - min) / width), HISTOGRAM_BINS - 1) === bin).length,
+    }))
+  } else if (settings.kind === 'bar') {
+    bars = table.rows.slice(0, MAX_BARS).map(row => ({
+      label: String(row[xColumn.name] ?? '∅'),
+      value: (row[yColumn!.name] as number | null) ?? 0,
+    }))
+    if (table.rows.length > MAX_BARS) note = `Showing the first ${MAX_BARS} of ${table.rows.length} rows`
+  } else {
+    points = table.rows.flatMap((row, index) => {
+      const x = isNumeric(xColumn) ? toNumber(row[xColumn.name], xColumn) : index
+      const y = row[yColumn!.name] as number | null
+      return x === null || y === null ? [] : [{ x, y }]
+    })
+    if (settings.kind === 'line') points.sort((a, b) => a.x - b.x)
+  }
+
+  const values = bars.length > 0 ? bars.map(bar => bar.value) : points.map(point => point.y)
+  const yMin = Math.min(0, ...values)
+  const yMax = Math.max(...values, 0)
+  const y = scale(yMin, yMax, bottom, MARGIN.top)
+  const yTicks = Array.from({ length: 5 }, (_, i) => yMin + ((yMax - yMin) * i) / 4)
+
+  const xMin = Math.min(...points.map(point => point.x))
+  const xMax = Math.max(...points.map(point => point.x))
+  const x = scale(xMin, xMax, MARGIN.left, MARGIN.left + plotWidth)
+  const formatX = (value: number) => xColumn.type === 'date'
+    ? new Date(value).toISOString().slice(0, 10)
+    : isNumeric(xColumn) ? formatTick(value) : String(table.rows[Math.round(value)]?.[xColumn.name] ?? '')
+  const band = plotWidth / Math.max(bars.length, 1)
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`${settings.kind} chart`}>
+        {yTicks.map(tick => (
+          <g key={tick}>
+            <line x1={MARGIN.left} x2={MARGIN.left + plotWidth} y1={y(tick)} y2={y(tick)} stroke="rgba(255,255,255,0.1)" />
+            <text x={MARGIN.left - 6} y={y(tick) + 4} textAnchor="end" fontSize={11} fill="rgba(255,255,255,0.7)">{formatTick(tick)}</text>
+          </g>
+        ))}
+        <line x1={MARGIN.left} x2={MARGIN.left + plotWidth} y1={bottom} y2={bottom} stroke="rgba(255,255,255,0.4)" />
+
+        {bars.map((bar, index) => (
+          <g key={index}>
+            <rect
+              x={MARGIN.left + index * band + band * 0.1}
+              width={band * 0.8}
+              y={Math.min(y(bar.value), y(0))}
+              height={Math.abs(y(0) - y(bar.value))}
+              fill={settings.kind === 'histogram' ? '#a855f7' : '#3b82f6'}
+              rx={2}
+            >
+              <title>{`${bar.label}: ${bar.value}`}</title>
+            </rect>
+            {(bars.length <= 12 || index % Math.ceil(bars.length / 12) === 0) && (
+              <text x={MARGIN.left + index * band + band / 2} y={bottom + 14} textAnchor="middle" fontSize={10} fill="rgba(255,255,255,0.7)">
+                {bar.label.length > 10 ? `${bar.label.slice(0, 9)}…` : bar.label}
+              </text>
+            )}
+          </g>
+        ))}
+
+        {settings.kind === 'line' && points.length > 1 && (
+          <polyline
+            points={points.map(point => `${x(point.x)},${y(point.y)}`).join(' ')}
+            fill="none"
+            stroke="#facc15"
+            strokeWidth={2}
+          />
+        )}
+        {points.map((point, index) => (
+          <circle key={index} cx={x(point.x)} cy={y(point.y)} r={settings.kind === 'scatter' ? 4 : 3} fill={settings.kind === 'scatter' ? '#22c55e' : '#facc15'}>
+            <title>{`${formatX(point.x)}, ${point.y}`}</title>
+          </circle>
+        ))}
+        {points.length > 0 && [xMin, (xMin + xMax) / 2, xMax].map((tick, index) => (
+          <text key={index} x={x(tick)} y={bottom + 14} textAnchor="middle" fontSize={10} fill="rgba(255,255,255,0.7)">
+            {formatX(tick)}
+          </text>
+        ))}
+
+        <text x={MARGIN.left + plotWidth / 2} y={HEIGHT - 8} textAnchor="middle" fontSize={12} fill="white">{xColumn.name}</text>
+        <text x={14} y={MARGIN.top + plotHeight / 2} textAnchor="middle" fontSize={12} fill="white" transform={`rotate(-90 14 ${MARGIN.top + plotHeight / 2})`}>
+          {settings.kind === 'histogram' ? 'count' : yColumn?.name}
+        </text>
+      </svg>
+      {note && <p className="text-white/50 text-xs text-center mt-1">{note}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,273 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ChevronsLeft, ChevronsRight, StepBack, StepForward, Play, Pause, X } from 'lucide-react'
+import type { ExecutionTrace, HeapObject, TraceStep, TraceValue } from '@/utils/executionTrace'
+
+interface ExecutionVisualizerProps {
+  trace: ExecutionTrace
+  code: string
+  onClose: () => void
+}
+
+const PLAY_INTERVAL_MS = 600
+
+const EVENT_LABELS: Record<TraceStep['event'], string> = {
+  step: 'About to run',
+  call: 'Called',
+  return: 'Returning from',
+  exception: 'Error on',
+  finish: 'Finished at',
+}
+
+/**
+ * Step-by-step replay of a traced run: the current line, the call stack with each frame's
+ * variables, the objects they point to, and the output printed so far
+ */
+export default function ExecutionVisualizer({ trace, code, onClose }: ExecutionVisualizerProps) {
+  const [stepIndex, setStepIndex] = useState(0)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [highlightedId, setHighlightedId] = useState<number | null>(null)
+  const lastIndex = trace.steps.length - 1
+  const step = trace.steps[stepIndex]
+
+  useEffect(() => {
+    setStepIndex(0)
+    setIsPlaying(false)
+  }, [trace])
+
+  useEffect(() => {
+    if (!isPlaying) return
+    if (stepIndex >= lastIndex) {
+      setIsPlaying(false)
+      return
+    }
+    const timer = setTimeout(() => setStepIndex(index => Math.min(index + 1, lastIndex)), PLAY_INTERVAL_MS)
+    return () => clearTimeout(timer)
+  }, [isPlaying, stepIndex, lastIndex])
+
+  const goTo = (index: number) => {
+    setIsPlaying(false)
+    setStepIndex(Math.max(0, Math.min(index, lastIndex)))
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.target instanceof HTMLInputElement) return
+    if (event.key === 'ArrowRight') goTo(stepIndex + 1)
+    else if (event.key === 'ArrowLeft') goTo(stepIndex - 1)
+    else if (event.key === 'Home') goTo(0)
+    else if (event.key === 'End') goTo(lastIndex)
+    else return
+    event.preventDefault()
+  }
+
+  const renderValue = (value: TraceValue) => {
+    if (value.kind === 'primitive') return <span className="text-emerald-300 break-all">{value.display}</span>
+    return (
+      <button
+        onMouseEnter={() => setHighlightedId(value.id)}
+        onMouseLeave={() => setHighlightedId(null)}
+        onFocus={() => setHighlightedId(value.id)}
+        onBlur={() => setHighlightedId(null)}
+        className="px-1.5 rounded bg-blue-500/20 text-blue-300 hover:bg-blue-500/40 transition-all"
+        aria-label={`Reference to object #${value.id}`}
+      >
+        → #{value.id}
+      </button>
+    )
+  }
+
+  const renderHeapObject = (object: HeapObject) => (
+    <div
+      key={object.id}
+      className={`rounded-lg border p-2 transition-all ${object.id === highlightedId ? 'border-blue-400 bg-blue-500/10' : 'border-gray-700'}`}
+    >
+      <p className="text-gray-400 mb-1">
+        <span className="text-gray-500">#{object.id}</span> {object.label}
+      </p>
+      {object.layout === 'sequence' && (
+        <div className="flex flex-wrap gap-px">
+          {object.entries.length === 0 && <span className="text-gray-500">empty</span>}
+          {object.entries.map(entry => (
+            <div key={entry.key} className="bg-gray-800 px-2 py-1 text-center">
+              <p className="text-gray-500 text-[10px]">{entry.key}</p>
+              {renderValue(entry.value)}
+            </div>
+          ))}
+        </div>
+      )}
+      {object.layout === 'mapping' && (
+        <table className="w-full">
+          <tbody>
+            {object.entries.length === 0 && (
+              <tr>
+                <td className="text-gray-500">empty</td>
+              </tr>
+            )}
+            {object.entries.map(entry => (
+              <tr key={entry.key} className="border-t border-gray-800">
+                <td className="pr-3 py-0.5 text-white align-top">{entry.key}</td>
+                <td className="py-0.5">{renderValue(entry.value)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {object.truncated && <p className="text-gray-500 mt-1">…and {object.truncated} more</p>}
+    </div>
+  )
+
+  const lines = code.split('\n')
+  const errorNote = trace.error && (
+    <p className="px-3 py-2 text-red-300 bg-red-500/10">
+      {trace.error.line ? `Line ${trace.error.line}: ` : ''}
+      {trace.error.message}
+    </p>
+  )
+
+  if (!step) {
+    return (
+      <div className="rounded-lg border border-gray-700 overflow-hidden font-mono text-xs sm:text-sm">
+        <div className="px-3 py-2 font-semibold bg-red-500/20 text-red-300 flex items-center justify-between">
+          Couldn&apos;t visualise this code
+          <button onClick={onClose} className="p-1 rounded hover:bg-white/10" aria-label="Close visualiser">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        {errorNote}
+      </div>
+    )
+  }
+
+  const activeFrame = step.stack.length - 1
+
+  return (
+    <div
+      className="rounded-lg border border-gray-700 overflow-hidden font-mono text-xs sm:text-sm focus:outline-none"
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      aria-label="Execution visualiser. Use the left and right arrow keys to step."
+    >
+      <div className="px-3 py-2 font-semibold bg-purple-500/20 text-purple-200 flex items-center justify-between gap-2">
+        <span>
+          Step {stepIndex + 1} of {trace.steps.length} · {EVENT_LABELS[step.event]} line {step.line}
+        </span>
+        <button onClick={onClose} className="p-1 rounded hover:bg-white/10" aria-label="Close visualiser">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Controls */}
+      <div className="px-3 py-2 flex items-center gap-1 border-b border-gray-800">
+        <button onClick={() => goTo(0)} disabled={stepIndex === 0} className="p-1.5 rounded-lg text-gray-300 hover:bg-white/10 disabled:opacity-30 transition-all" aria-label="First step">
+          <ChevronsLeft className="w-4 h-4" />
+        </button>
+        <button onClick={() => goTo(stepIndex - 1)} disabled={stepIndex === 0} className="p-1.5 rounded-lg text-gray-300 hover:bg-white/10 disabled:opacity-30 transition-all" aria-label="Previous step">
+          <StepBack className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => (stepIndex >= lastIndex ? goTo(0) : setIsPlaying(!isPlaying))}
+          className="p-1.5 rounded-lg bg-blue-600 text-white hover:bg-blue-500 transition-all"
+          aria-label={isPlaying ? 'Pause' : 'Play'}
+        >
+          {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+        </button>
+        <button onClick={() => goTo(stepIndex + 1)} disabled={stepIndex === lastIndex} className="p-1.5 rounded-lg text-gray-300 hover:bg-white/10 disabled:opacity-30 transition-all" aria-label="Next step">
+          <StepForward className="w-4 h-4" />
+        </button>
+        <button onClick={() => goTo(lastIndex)} disabled={stepIndex === lastIndex} className="p-1.5 rounded-lg text-gray-300 hover:bg-white/10 disabled:opacity-30 transition-all" aria-label="Last step">
+          <ChevronsRight className="w-4 h-4" />
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={lastIndex}
+          value={stepIndex}
+          onChange={event => goTo(Number(event.target.value))}
+          className="flex-1 ml-2 accent-blue-500"
+          aria-label="Scrub through steps"
+        />
+      </div>
+
+      {step.event === 'return' && step.returnValue && (
+        <p className="px-3 py-1.5 text-blue-200 bg-blue-500/10">
+          {step.stack[activeFrame]?.name} returns {renderValue(step.returnValue)}
+        </p>
+      )}
+      {step.message && (
+        <p className={`px-3 py-1.5 ${step.event === 'exception' ? 'text-amber-200 bg-amber-500/10' : 'text-red-300 bg-red-500/10'}`}>
+          {step.message}
+        </p>
+      )}
+
+      {/* Code */}
+      <div className="max-h-48 overflow-auto border-b border-gray-800 py-1">
+        {lines.map((text, index) => {
+          const lineNumber = index + 1
+          const isActive = lineNumber === step.line
+          return (
+            <div key={lineNumber} className={`flex ${isActive ? 'bg-yellow-500/15' : ''}`}>
+              <span className="w-5 text-center text-yellow-400 shrink-0">{isActive ? '➜' : ''}</span>
+              <span className="w-8 pr-2 text-right text-gray-600 shrink-0 select-none">{lineNumber}</span>
+              <pre className={`whitespace-pre ${isActive ? 'text-white' : 'text-gray-400'}`}>{text || ' '}</pre>
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-3 p-3">
+        {/* Frames */}
+        <div>
+          <p className="text-gray-500 mb-2">Frames</p>
+          <div className="space-y-2">
+            {step.stack.map((frame, index) => (
+              <div
+                key={`${frame.name}-${index}`}
+                className={`rounded-lg border p-2 ${index === activeFrame ? 'border-yellow-500/60 bg-yellow-500/5' : 'border-gray-700'}`}
+              >
+                <p className="text-white mb-1">
+                  {frame.name} <span className="text-gray-500">line {frame.line}</span>
+                </p>
+                {frame.locals.length === 0 ? (
+                  <p className="text-gray-500">no variables yet</p>
+                ) : (
+                  <table className="w-full">
+                    <tbody>
+                      {frame.locals.map(local => (
+                        <tr key={local.name} className="border-t border-gray-800">
+                          <td className="pr-3 py-0.5 text-gray-300 align-top">{local.name}</td>
+                          <td className="py-0.5">{renderValue(local.value)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Heap */}
+        <div>
+          <p className="text-gray-500 mb-2">Objects</p>
+          <div className="space-y-2">
+            {step.heap.length === 0 ? <p className="text-gray-500">none yet</p> : step.heap.map(renderHeapObject)}
+          </div>
+        </div>
+      </div>
+
+      {/* Output so far */}
+      <div className="border-t border-gray-800 px-3 py-2">
+        <p className="text-gray-500 mb-1">Output</p>
+        <pre className="text-gray-300 whitespace-pre-wrap">{trace.output.slice(0, step.outputLength) || ' '}</pre>
+      </div>
+
+      {trace.truncated && (
+        <p className="px-3 py-2 text-amber-300 bg-amber-500/10">
+          Only the first {trace.steps.length} steps were recorded. Try smaller inputs or fewer loop iterations to see the rest.
+        </p>
+      )}
+      {errorNote}
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+'use client'
+
+import { AlertTriangle, XCircle, Play } from 'lucide-react'
+import type { PreRunIssue } from '@/utils/preRunChecks'
+
+interface PreRunReportProps {
+  issues: PreRunIssue[]
+  onRunAnyway: () => void
+  onDismiss: () => void
+}
+
+/**
+ * Possible mistakes found before running, each with a hint, and the choice to fix them or run anyway
+ */
+export default function PreRunReport({ issues, onRunAnyway, onDismiss }: PreRunReportProps) {
+  const errorCount = issues.filter(issue => issue.severity === 'error').length
+
+  return (
+    <div className="rounded-lg border border-gray-700 overflow-hidden font-mono text-xs sm:text-sm">
+      <div className={`px-3 py-2 font-semibold ${errorCount > 0 ? 'bg-red-500/20 text-red-300' : 'bg-amber-500/20 text-amber-300'}`}>
+        Found {issues.length} possible {issues.length === 1 ? 'mistake' : 'mistakes'} before running
+      </div>
+
+      <ul className="divide-y divide-gray-800">
+        {issues.map((issue, index) => (
+          <li key={`${issue.rule}-${index}`} className="px-3 py-2 flex gap-2">
+            {issue.severity === 'error' ? (
+              <XCircle className="w-4 h-4 text-red-400 shrink-0 mt-0.5" aria-label="Error" />
+            ) : (
+              <AlertTriangle className="w-4 h-4 text-amber-400 shrink-0 mt-0.5" aria-label="Warning" />
+            )}
+            <div>
+              <p className="text-white">
+                <span className="text-gray-500">Line {issue.line}:</span> {issue.hint}
+              </p>
+              {issue.suggestion && <p className="text-gray-400 mt-1">📝 {issue.suggestion}</p>}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <div className="px-3 py-2 flex items-center justify-end gap-2 border-t border-gray-800">
+        <button
+          onClick={onDismiss}
+          className="px-3 py-1.5 rounded-lg text-gray-300 hover:bg-white/10 transition-all"
+        >
+          Keep Editing
+        </button>
+        <button
+          onClick={onRunAnyway}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-blue-600 text-white font-bold hover:bg-blue-500 transition-all"
+        >
+          <Play className="w-3 h-3" />
+          Run Anyway
+        </button>
+      </div>
+    </div>
+  )
+}
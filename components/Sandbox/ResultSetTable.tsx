@@ -0,0 +1,52 @@
+'use client'
+
+import type { QueryResultSet } from '@/types'
+
+interface ResultSetTableProps {
+  resultSet: QueryResultSet
+}
+
+/**
+ * Renders a SQL result set with column types, for database sandboxes
+ */
+export default function ResultSetTable({ resultSet }: ResultSetTableProps) {
+  if (resultSet.columns.length === 0) {
+    return <p className="text-gray-400 text-xs sm:text-sm">Query returned no columns.</p>
+  }
+
+  return (
+    <div className="overflow-auto rounded-lg border border-gray-700">
+      <table className="min-w-full text-left font-mono text-xs sm:text-sm">
+        <thead className="bg-gray-800 sticky top-0">
+          <tr>
+            {resultSet.columns.map((column, i) => (
+              <th key={`${column.name}-${i}`} className="px-3 py-2 border-b border-gray-700 whitespace-nowrap">
+                <span className="text-white font-semibold">{column.name}</span>
+                <span className="ml-2 text-[10px] uppercase text-purple-300">{column.type}</span>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {resultSet.rows.map((row, rowIndex) => (
+            <tr key={rowIndex} className="odd:bg-gray-900 even:bg-gray-800/50">
+              {row.map((value, i) => (
+                <td
+                  key={i}
+                  className={`px-3 py-1.5 border-b border-gray-800 whitespace-nowrap ${
+                    value === null ? 'text-gray-500 italic' : typeof value === 'number' ? 'text-blue-300' : 'text-green-400'
+                  }`}
+                >
+                  {value === null ? 'NULL' : String(value)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="px-3 py-1.5 text-gray-400 text-xs bg-gray-800">
+        {resultSet.rows.length} row{resultSet.rows.length === 1 ? '' : 's'}
+      </div>
+    </div>
+  )
+}
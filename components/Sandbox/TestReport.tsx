@@ -0,0 +1,85 @@
+'use client'
+
+import { Check, X, Lock } from 'lucide-react'
+import { diffOutputLines } from '@/utils/testCases'
+import type { TestCaseResult } from '@/types'
+
+interface TestReportProps {
+  results: TestCaseResult[]
+}
+
+const DIFF_LINE_STYLES = {
+  same: { prefix: ' ', className: 'text-gray-400' },
+  missing: { prefix: '-', className: 'text-red-300 bg-red-500/10' },
+  unexpected: { prefix: '+', className: 'text-green-300 bg-green-500/10' },
+}
+
+/**
+ * Per-test pass/fail report for exercises graded by test cases.
+ * Failed visible tests show a line diff of expected vs actual output.
+ */
+export default function TestReport({ results }: TestReportProps) {
+  const passedCount = results.filter(result => result.passed).length
+  const allPassed = passedCount === results.length
+
+  return (
+    <div className="rounded-lg border border-gray-700 overflow-hidden font-mono text-xs sm:text-sm">
+      <div className={`px-3 py-2 font-semibold ${allPassed ? 'bg-green-500/20 text-green-300' : 'bg-red-500/20 text-red-300'}`}>
+        {passedCount}/{results.length} tests passed
+      </div>
+
+      <ul className="divide-y divide-gray-800">
+        {results.map((result, index) => (
+          <li key={result.id} className="px-3 py-2">
+            <div className="flex items-center gap-2">
+              {result.passed ? (
+                <Check className="w-4 h-4 text-green-400 shrink-0" aria-label="Passed" />
+              ) : (
+                <X className="w-4 h-4 text-red-400 shrink-0" aria-label="Failed" />
+              )}
+              {result.hidden && <Lock className="w-3 h-3 text-gray-500 shrink-0" aria-label="Hidden test" />}
+              <span className="text-white">
+                {result.hidden ? `Hidden test #${index + 1}` : result.description || `Test #${index + 1}`}
+              </span>
+            </div>
+
+            {!result.passed && !result.hidden && (
+              <div className="mt-2 ml-6 space-y-2">
+                {result.input && (
+                  <div>
+                    <p className="text-gray-500">Input:</p>
+                    <pre className="text-blue-300 whitespace-pre-wrap">{result.input}</pre>
+                  </div>
+                )}
+
+                {result.error ? (
+                  <div>
+                    <p className="text-gray-500">Error:</p>
+                    <pre className="text-red-300 whitespace-pre-wrap">{result.error}</pre>
+                  </div>
+                ) : (
+                  <div>
+                    <p className="text-gray-500">
+                      Output diff (<span className="text-red-300">- expected</span>, <span className="text-green-300">+ yours</span>):
+                    </p>
+                    <pre className="whitespace-pre-wrap">
+                      {diffOutputLines(result.expectedOutput ?? '', result.actualOutput ?? '').map((line, i) => (
+                        <div key={i} className={DIFF_LINE_STYLES[line.kind].className}>
+                          {DIFF_LINE_STYLES[line.kind].prefix} {line.text || ' '}
+                        </div>
+                      ))}
+                    </pre>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {!result.passed && result.hidden && (
+              <p className="mt-1 ml-6 text-gray-500">Hidden tests don&apos;t show their input. Check edge cases!</p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -2,22 +2,33 @@
 
 import { useState, useEffect, useMemo } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { ArrowLeft, Play, RotateCcw, Save, Download, Code2, Terminal, BookOpen, ChevronLeft, ChevronRight, Check, Trophy, Eye, EyeOff } from 'lucide-react'
+import { ArrowLeft, Play, RotateCcw, Save, Download, Code2, Terminal, BookOpen, ChevronLeft, ChevronRight, Check, Trophy, Eye, EyeOff, ListChecks, Footprints } from 'lucide-react'
 import { useRouter } from 'next/navigation'
 import { Language } from '@/utils/techModules'
-import { useXP, XP_REWARDS } from '@/hooks/useXP'
+import { XP_REWARDS } from '@/utils/gameConstants'
 import { generateSandboxExercises } from '@/utils/sandboxExercises'
-import { executeCode, isPreviewOnly, generateHTMLPreview } from '@/utils/pistonService'
+import { executeCode, runTests, isPreviewOnly, generateHTMLPreview, supportsExecution } from '@/utils/pistonService'
 import { getSession } from '@/utils/sessionManager'
-import { getLanguageProgress, updateSandboxProgress, initializeLanguageProgress, fillGlass, getUserProfile, getNextDifficulty } from '@/lib/firebaseService'
+import { getLanguageProgress, getUserProfile, getNextDifficulty } from '@/lib/firebaseService'
+import { initializeLanguageProgress, saveSandboxPosition, submitSandbox } from '@/utils/progressApi'
+import { notifyXPEarned } from '@/utils/progressNotifications'
 import { triggerProfileRefresh } from '@/components/Progress/GlobalLearningTree'
 import confetti from 'canvas-confetti'
 import Certificate from '@/components/Common/Certificate'
+import CodeEditor from '@/components/Common/CodeEditor'
 import { toast } from '@/components/Common/Toast'
-
-// SandboxExercise type is used implicitly through the exercises array
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-import type { SandboxExercise } from '@/utils/sandboxExercises'
+import ResultSetTable from '@/components/Sandbox/ResultSetTable'
+import TestReport from '@/components/Sandbox/TestReport'
+import PreRunReport from '@/components/Sandbox/PreRunReport'
+import ExecutionVisualizer from '@/components/Sandbox/ExecutionVisualizer'
+import { buildTestProgram } from '@/utils/testCases'
+import { diagnosticsToMarkers } from '@/utils/diagnostics'
+import { preRunIssuesToMarkers, runPreRunChecks, type PreRunIssue } from '@/utils/preRunChecks'
+import { getTraceLanguage, type ExecutionTrace } from '@/utils/executionTrace'
+import { traceJavaScript } from '@/utils/jsTracer'
+import { tracePython } from '@/utils/pythonTracer'
+import type { EditorMarker } from '@/utils/codeEditor'
+import type { QueryResultSet, TestCaseResult } from '@/types'
 
 interface UniversalSandboxProps {
   language: Language
@@ -101,6 +112,8 @@ export default function UniversalSandbox({ language, moduleId, languageId }: Uni
   const [allDifficultiesCompleted, setAllDifficultiesCompleted] = useState(false)
 
   const currentExercise = exercises[currentExerciseIndex]
+  // Test cases need a language the execution service can run
+  const testCases = supportsExecution(languageId) ? currentExercise?.testCases : undefined
   const languageKey = `${moduleId}-${languageId}`
 
   const [code, setCode] = useState(
@@ -109,6 +122,12 @@ export default function UniversalSandbox({ language, moduleId, languageId }: Uni
       : STARTER_CODE[languageId] || `// ${language.name} Sandbox\n// Write your ${language.name} code here\n\nconsole.log("Hello from ${language.name}");`
   )
   const [output, setOutput] = useState('')
+  const [resultSet, setResultSet] = useState<QueryResultSet | null>(null)
+  const [runMarkers, setRunMarkers] = useState<EditorMarker[]>([])
+  const [preRunCheck, setPreRunCheck] = useState<{ issues: PreRunIssue[]; action: 'run' | 'tests' } | null>(null)
+  const [testResults, setTestResults] = useState<TestCaseResult[] | null>(null)
+  // Step-through replay of the code as it was when Visualise was clicked
+  const [visualisation, setVisualisation] = useState<{ trace: ExecutionTrace; code: string } | null>(null)
   const [isRunning, setIsRunning] = useState(false)
   const [showLivePreview, setShowLivePreview] = useState(true)
 
@@ -204,7 +223,6 @@ export default function UniversalSandbox({ language, moduleId, languageId }: Uni
   }
 
   const userCode = typeof window !== 'undefined' ? getSession() : null
-  const { awardXP } = useXP(userCode)
 
   // Load saved progress on mount
   useEffect(() => {
@@ -264,6 +282,11 @@ export default function UniversalSandbox({ language, moduleId, languageId }: Uni
     if (exerciseMode && currentExercise) {
       setCode(currentExercise.starterCode)
       setOutput('')
+      setResultSet(null)
+      setTestResults(null)
+      setRunMarkers([])
+      setPreRunCheck(null)
+      setVisualisation(null)
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currentExerciseIndex, exerciseMode])
@@ -288,12 +311,14 @@ export default function UniversalSandbox({ language, moduleId, languageId }: Uni
     }
   }
 
-  // Validate all submissions at the end
+  // Grade all submissions on the server at the end
   const handleFinalSubmission = async () => {
     if (!userCode) return
 
     setIsSubmitting(true)
     setOutput('Validating all your submissions...')
+    setResultSet(null)
+    setTestResults(null)
 
     // Include current code
     const allSubmissions = {
@@ -301,48 +326,27 @@ export default function UniversalSandbox({ language, moduleId, languageId }: Uni
       [currentExerciseIndex]: code
     }
 
-    // Check each submission
-    const results: boolean[] = []
-    const correctExercises: number[] = []
-
-    for (let i = 0; i < exercises.length; i++) {
-      const exercise = exercises[i]
-      const userCode = allSubmissions[i] || ''
-
-      // Validate the code
-      const codeNormalized = userCode.trim().replace(/\s+/g, ' ')
-      const solutionNormalized = exercise.solution.trim().replace(/\s+/g, ' ')
-      const similarity = calculateSimilarity(codeNormalized, solutionNormalized)
-      const passed = similarity > 0.7 || codeNormalized.includes(solutionNormalized)
-
-      results.push(passed)
-      if (passed) {
-        correctExercises.push(i)
-      }
-    }
-
-    // Calculate final score
-    const correctCount = results.filter(r => r).length
-    const totalCount = exercises.length
-    const scorePercentage = (correctCount / totalCount) * 100
-    const hasPassedThreshold = scorePercentage >= 75
-
-    // Update completed exercises
-    setCompletedExercises(correctExercises)
-
-    // Save progress
     try {
-      await updateSandboxProgress(userCode, languageKey, currentDifficulty, currentExerciseIndex, correctExercises, exercises.length)
+      const { grades, correctExercises, passedThreshold, xpGranted } = await submitSandbox(
+        userCode, languageKey, currentDifficulty, currentExerciseIndex, allSubmissions
+      )
 
-      // Award XP based on performance
-      const xpEarned = correctCount * XP_REWARDS.SANDBOX_EXECUTE
-      await awardXP(xpEarned, false)
+      // Calculate final score
+      const correctCount = correctExercises.length
+      const totalCount = exercises.length
+      const scorePercentage = (correctCount / totalCount) * 100
+      const testSummaries = grades.flatMap((grade, i) => grade.testsTotal !== undefined
+        ? [`${grade.passed ? '✅' : '❌'} ${exercises[i].title}: ${grade.testsPassed}/${grade.testsTotal} tests passed`]
+        : []
+      )
+      const testBreakdown = testSummaries.length > 0 ? `\n\n🧪 Tests:\n${testSummaries.join('\n')}` : ''
+      const xpLine = xpGranted > 0 ? `+${xpGranted} XP earned` : 'No new XP (already earned for these exercises)'
 
-      if (hasPassedThreshold) {
-        // Passed! Award bonus and certificate
-        await awardXP(XP_REWARDS.SANDBOX_COMPLETE, false)
-        await fillGlass(userCode)
+      // Update completed exercises
+      setCompletedExercises(correctExercises)
 
+      if (passedThreshold) {
+        // Passed! Show celebration and certificate
         setShowCelebration(true)
 
         confetti({
@@ -356,56 +360,63 @@ export default function UniversalSandbox({ language, moduleId, languageId }: Uni
           setShowCertificate(true)
         }, 4000)
 
-        setOutput(`🎉 Congratulations! You scored ${Math.round(scorePercentage)}%!\n\n✅ Correct: ${correctCount}/${totalCount} exercises\n\n+${xpEarned + XP_REWARDS.SANDBOX_COMPLETE} XP earned!\n\nYour certificate is being generated...`)
+        setOutput(`🎉 Congratulations! You scored ${Math.round(scorePercentage)}%!\n\n✅ Correct: ${correctCount}/${totalCount} exercises${testBreakdown}\n\n${xpLine}!\n\nYour certificate is being generated...`)
       } else {
         // Failed to meet threshold
-        setOutput(`📊 Results:\n\n✅ Correct: ${correctCount}/${totalCount} (${Math.round(scorePercentage)}%)\n❌ Incorrect: ${totalCount - correctCount}\n\n+${xpEarned} XP earned\n\nYou need 75%+ to earn the certificate. Review the exercises and try again!`)
+        setOutput(`📊 Results:\n\n✅ Correct: ${correctCount}/${totalCount} (${Math.round(scorePercentage)}%)\n❌ Incorrect: ${totalCount - correctCount}${testBreakdown}\n\n${xpLine}\n\nYou need 75%+ to earn the certificate. Review the exercises and try again!`)
       }
 
+      if (xpGranted > 0) {
+        notifyXPEarned(xpGranted)
+      }
       triggerProfileRefresh()
     } catch (error) {
-      console.error('Error saving sandbox progress:', error)
-      setOutput('Failed to save your results. Please try again.')
+      console.error('Error submitting sandbox exercises:', error)
+      setOutput(error instanceof Error ? error.message : 'Failed to save your results. Please try again.')
     } finally {
       setIsSubmitting(false)
     }
   }
 
-  const calculateSimilarity = (str1: string, str2: string): number => {
-    const longer = str1.length > str2.length ? str1 : str2
-    const shorter = str1.length > str2.length ? str2 : str1
-    if (longer.length === 0) return 1.0
-    const editDistance = getEditDistance(longer, shorter)
-    return (longer.length - editDistance) / longer.length
+  /**
+   * Checks the code for common mistakes before it goes to the execution service.
+   * Returns true (and shows the issues) when the run should wait for the learner.
+   * Only errors hold the run; warnings alone can be false positives, so they never block it.
+   */
+  const holdForPreRunIssues = (action: 'run' | 'tests'): boolean => {
+    setPreRunCheck(null)
+    if (!supportsExecution(languageId)) return false
+    const issues = runPreRunChecks(code || '', languageId)
+    if (!issues.some(issue => issue.severity === 'error')) return false
+
+    setPreRunCheck({ issues, action })
+    setVisualisation(null)
+    setRunMarkers(preRunIssuesToMarkers(issues))
+    setOutput('')
+    setResultSet(null)
+    setTestResults(null)
+    setShowLivePreview(false)
+    return true
   }
 
-  const getEditDistance = (str1: string, str2: string): number => {
-    const matrix: number[][] = []
-    for (let i = 0; i <= str2.length; i++) {
-      matrix[i] = [i]
-    }
-    for (let j = 0; j <= str1.length; j++) {
-      matrix[0][j] = j
-    }
-    for (let i = 1; i <= str2.length; i++) {
-      for (let j = 1; j <= str1.length; j++) {
-        if (str2.charAt(i - 1) === str1.charAt(j - 1)) {
-          matrix[i][j] = matrix[i - 1][j - 1]
-        } else {
-          matrix[i][j] = Math.min(
-            matrix[i - 1][j - 1] + 1,
-            matrix[i][j - 1] + 1,
-            matrix[i - 1][j] + 1
-          )
-        }
-      }
+  const handleRunAnyway = () => {
+    if (!preRunCheck) return
+    if (preRunCheck.action === 'tests') {
+      handleRunTests(true)
+    } else {
+      handleRunCode(true)
     }
-    return matrix[str2.length][str1.length]
   }
 
-  const handleRunCode = async () => {
+  const handleRunCode = async (skipChecks = false) => {
+    if (!skipChecks && holdForPreRunIssues('run')) return
+    setPreRunCheck(null)
+    setVisualisation(null)
     setIsRunning(true)
     setOutput('// Running code...\n')
+    setResultSet(null)
+    setTestResults(null)
+    setRunMarkers([])
 
     try {
       // Check if this is a preview-only language (HTML/CSS)
@@ -416,15 +427,23 @@ export default function UniversalSandbox({ language, moduleId, languageId }: Uni
         return
       }
 
-      // Execute code via Piston API
-      const result = await executeCode(languageId, code || '')
+      // Execute code via Piston API (SQL exercises run against their seeded database)
+      const database = exerciseMode ? currentExercise?.database : undefined
+      const result = await executeCode(languageId, code || '', '', database)
+      setRunMarkers(diagnosticsToMarkers(result.diagnostics))
 
       if (result.success) {
         let outputText = `// ${language.name} - Execution Result\n`
         if (result.executionTime) {
           outputText += `// Execution time: ${result.executionTime}ms\n`
         }
-        outputText += `\n${result.output}`
+
+        if (result.resultSet) {
+          // Rendered as a table below the header instead of plain text
+          setResultSet(result.resultSet)
+        } else {
+          outputText += `\n${result.output}`
+        }
 
         if (result.stderr && result.stderr.trim()) {
           outputText += `\n\n// Warnings:\n${result.stderr}`
@@ -449,6 +468,56 @@ export default function UniversalSandbox({ language, moduleId, languageId }: Uni
     }
   }
 
+  /**
+   * Runs the code in the offline tracer so the learner can step through it.
+   * Nothing is sent to the execution service.
+   */
+  const handleVisualise = () => {
+    const traceLanguage = getTraceLanguage(languageId)
+    if (!traceLanguage) return
+
+    const source = code || ''
+    const trace = traceLanguage === 'python' ? tracePython(source) : traceJavaScript(source)
+    setVisualisation({ trace, code: source })
+    setRunMarkers(trace.error?.line ? [{ line: trace.error.line, severity: 'error', message: trace.error.message }] : [])
+    setPreRunCheck(null)
+    setOutput('')
+    setResultSet(null)
+    setTestResults(null)
+    setShowLivePreview(false)
+  }
+
+  const handleRunTests = async (skipChecks = false) => {
+    if (!currentExercise || !testCases) return
+    if (!skipChecks && holdForPreRunIssues('tests')) return
+    setPreRunCheck(null)
+    setVisualisation(null)
+    setRunMarkers([])
+
+    setIsRunning(true)
+    setOutput('// Running tests...\n')
+    setResultSet(null)
+    setTestResults(null)
+    setShowLivePreview(false)
+
+    try {
+      const testRun = await runTests(
+        languageId,
+        buildTestProgram(code || '', currentExercise.testHarness),
+        testCases
+      )
+
+      if (testRun.success) {
+        setOutput(`// ${language.name} - Test Results\n`)
+        setTestResults(testRun.results)
+      } else {
+        setOutput(`// ${language.name} - Error\n\n${testRun.error || 'Failed to run tests'}`)
+      }
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
   const handleNextExercise = async () => {
     if (currentExerciseIndex < exercises.length - 1) {
       const nextIndex = currentExerciseIndex + 1
@@ -457,7 +526,7 @@ export default function UniversalSandbox({ language, moduleId, languageId }: Uni
       // Save progress
       if (userCode) {
         try {
-          await updateSandboxProgress(userCode, languageKey, currentDifficulty, nextIndex, completedExercises, exercises.length)
+          await saveSandboxPosition(userCode, languageKey, currentDifficulty, nextIndex)
         } catch (error) {
           console.error('Error saving sandbox progress:', error)
         }
@@ -473,7 +542,7 @@ export default function UniversalSandbox({ language, moduleId, languageId }: Uni
       // Save progress
       if (userCode) {
         try {
-          await updateSandboxProgress(userCode, languageKey, currentDifficulty, prevIndex, completedExercises, exercises.length)
+          await saveSandboxPosition(userCode, languageKey, currentDifficulty, prevIndex)
         } catch (error) {
           console.error('Error saving sandbox progress:', error)
         }
@@ -490,6 +559,11 @@ export default function UniversalSandbox({ language, moduleId, languageId }: Uni
       )
     }
     setOutput('')
+    setResultSet(null)
+    setTestResults(null)
+    setRunMarkers([])
+    setPreRunCheck(null)
+    setVisualisation(null)
   }
 
   const handleSave = () => {
@@ -665,6 +739,15 @@ export default function UniversalSandbox({ language, moduleId, languageId }: Uni
                 <div className="bg-emerald-500/15 border border-emerald-400/40 rounded-xl p-3 md:p-4 mb-3 md:mb-4 text-white/90 text-xs sm:text-sm md:text-base">
                   🎯 Complete all exercises and submit. Your answers will be graded at the end. Score 75%+ to earn your certificate!
                 </div>
+
+                {testCases && (
+                  <div className="bg-amber-500/15 border border-amber-400/40 rounded-xl p-3 md:p-4 mb-3 md:mb-4 text-white/90 text-xs sm:text-sm md:text-base">
+                    🧪 Graded by {testCases.length} test{testCases.length === 1 ? '' : 's'}
+                    {testCases.some(testCase => testCase.hidden) &&
+                      ` (${testCases.filter(testCase => testCase.hidden).length} hidden)`}
+                    . Click &quot;Run Tests&quot; to check your work before submitting.
+                  </div>
+                )}
               </div>
 
               {/* Navigation */}
@@ -696,7 +779,7 @@ export default function UniversalSandbox({ language, moduleId, languageId }: Uni
         <div className="bg-white/10 backdrop-blur-lg rounded-xl p-3 md:p-4 mb-4 md:mb-6 flex items-center justify-between flex-wrap gap-2 sm:gap-3 md:gap-4">
           <div className="flex items-center gap-2 md:gap-3 flex-wrap">
             <button
-              onClick={handleRunCode}
+              onClick={() => handleRunCode()}
               disabled={isRunning}
               className="flex items-center gap-1 md:gap-2 bg-gradient-to-r from-blue-500 to-blue-600 text-white px-3 sm:px-4 md:px-6 py-2 md:py-3 rounded-xl font-bold hover:shadow-xl transition-all disabled:opacity-50 text-xs sm:text-sm md:text-base"
             >
@@ -704,6 +787,28 @@ export default function UniversalSandbox({ language, moduleId, languageId }: Uni
               {isRunning ? 'Running...' : 'Test Run'}
             </button>
 
+            {getTraceLanguage(languageId) && (
+              <button
+                onClick={handleVisualise}
+                disabled={isRunning}
+                className="flex items-center gap-1 md:gap-2 bg-gradient-to-r from-purple-500 to-fuchsia-600 text-white px-3 sm:px-4 md:px-6 py-2 md:py-3 rounded-xl font-bold hover:shadow-xl transition-all disabled:opacity-50 text-xs sm:text-sm md:text-base"
+              >
+                <Footprints className="w-4 h-4 md:w-5 md:h-5" />
+                Visualise
+              </button>
+            )}
+
+            {exerciseMode && testCases && (
+              <button
+                onClick={() => handleRunTests()}
+                disabled={isRunning}
+                className="flex items-center gap-1 md:gap-2 bg-gradient-to-r from-amber-500 to-orange-600 text-white px-3 sm:px-4 md:px-6 py-2 md:py-3 rounded-xl font-bold hover:shadow-xl transition-all disabled:opacity-50 text-xs sm:text-sm md:text-base"
+              >
+                <ListChecks className="w-4 h-4 md:w-5 md:h-5" />
+                Run Tests
+              </button>
+            )}
+
             {exerciseMode && (
               <button
                 onClick={handleNextSubmission}
@@ -756,17 +861,17 @@ export default function UniversalSandbox({ language, moduleId, languageId }: Uni
                 {code.split('\n').length} lines
               </span>
             </div>
-            <textarea
+            <CodeEditor
               value={code}
-              onChange={(e) => setCode(e.target.value)}
-              className="w-full h-72 sm:h-80 md:h-[400px] lg:h-[500px] xl:h-[550px] 2xl:h-[650px] bg-gray-900 text-green-400 font-mono text-sm sm:text-sm md:text-base 2xl:text-lg p-3 sm:p-4 md:p-6 2xl:p-8 focus:outline-none focus:ring-2 focus:ring-green-500/50 resize-none leading-relaxed"
-              spellCheck={false}
-              autoCapitalize="off"
-              autoCorrect="off"
-              autoComplete="off"
-              data-gramm="false"
+              onChange={setCode}
+              language={languageId}
+              markers={runMarkers}
+              readOnlyRegions={exerciseMode && currentExercise?.readOnlyLines
+                ? { source: currentExercise.starterCode, lines: currentExercise.readOnlyLines }
+                : undefined}
+              className="h-72 sm:h-80 md:h-[400px] lg:h-[500px] xl:h-[550px] 2xl:h-[650px] md:text-base 2xl:text-lg"
               placeholder={`Write your ${language.name} code here...`}
-              aria-label={`Code editor for ${language.name}`}
+              ariaLabel={`Code editor for ${language.name}`}
             />
           </div>
 
@@ -821,10 +926,39 @@ export default function UniversalSandbox({ language, moduleId, languageId }: Uni
             ) : (
               /* Text output for non-web languages or when preview is off */
               <div className="w-full h-64 sm:h-80 md:h-[400px] lg:h-[500px] xl:h-[550px] 2xl:h-[650px] bg-gray-900 text-gray-300 font-mono text-xs sm:text-sm md:text-base 2xl:text-lg p-3 sm:p-4 md:p-6 2xl:p-8 overflow-auto whitespace-pre-wrap">
-                {output || (isWebLanguage
+                {preRunCheck ? (
+                  <div className="whitespace-normal">
+                    <PreRunReport
+                      issues={preRunCheck.issues}
+                      onRunAnyway={handleRunAnyway}
+                      onDismiss={() => setPreRunCheck(null)}
+                    />
+                  </div>
+                ) : visualisation ? (
+                  <div className="whitespace-normal">
+                    <ExecutionVisualizer
+                      trace={visualisation.trace}
+                      code={visualisation.code}
+                      onClose={() => {
+                        setVisualisation(null)
+                        setRunMarkers([])
+                      }}
+                    />
+                  </div>
+                ) : output || (isWebLanguage
                   ? '// Toggle to "Live Preview" to see your code rendered in real-time, or click "Test Run" to execute.'
                   : '// Click "Test Run" to see the output here...'
                 )}
+                {resultSet && (
+                  <div className="mt-3 whitespace-normal">
+                    <ResultSetTable resultSet={resultSet} />
+                  </div>
+                )}
+                {testResults && (
+                  <div className="mt-3 whitespace-normal">
+                    <TestReport results={testResults} />
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -854,7 +988,7 @@ export default function UniversalSandbox({ language, moduleId, languageId }: Uni
             <div>
               <h3 className="font-bold text-sm sm:text-base md:text-lg mb-2">⭐ Earn XP</h3>
               <p className="text-white/80 text-xs sm:text-sm">
-                Every time you run code, you earn {XP_REWARDS.SANDBOX_EXECUTE} XP. Keep experimenting!
+                Every exercise you pass earns {XP_REWARDS.SANDBOX_EXECUTE} XP, once per exercise. Keep experimenting!
               </p>
             </div>
           </div>
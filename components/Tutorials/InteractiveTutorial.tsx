@@ -7,14 +7,15 @@ import { useRouter } from 'next/navigation'
 import ReactMarkdown from 'react-markdown'
 import { Tutorial } from '@/utils/comprehensiveTutorialContent'
 import { Language } from '@/utils/techModules'
-import {
-  getLanguageProgress,
-  initializeLanguageProgress,
-  updateTutorialProgress,
-} from '@/lib/firebaseService'
+import { getLanguageProgress } from '@/lib/firebaseService'
+import { initializeLanguageProgress, updateTutorialProgress } from '@/utils/progressApi'
 import { getSession } from '@/utils/sessionManager'
 import { executeCode, isPreviewOnly } from '@/utils/pistonService'
+import { diagnosticsToMarkers } from '@/utils/diagnostics'
+import type { EditorMarker } from '@/utils/codeEditor'
 import { triggerProfileRefresh } from '@/components/Progress/GlobalLearningTree'
+import { notifyXPEarned } from '@/utils/progressNotifications'
+import CodeEditor from '@/components/Common/CodeEditor'
 
 interface InteractiveTutorialProps {
   tutorial: Tutorial
@@ -35,6 +36,7 @@ export default function InteractiveTutorial({
   const [completedSections, setCompletedSections] = useState<number[]>([])
   const [editorCode, setEditorCode] = useState('')
   const [output, setOutput] = useState('')
+  const [runMarkers, setRunMarkers] = useState<EditorMarker[]>([])
   const [userCode, setUserCode] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [isRunning, setIsRunning] = useState(false)
@@ -90,6 +92,7 @@ try{${editorCode}}catch(e){console.error(e.message)}
     if (section?.codeExample) {
       setEditorCode(section.codeExample.replace(/\\n/g, '\n'))
       setOutput('') // Clear output on section change
+      setRunMarkers([])
     }
   }, [currentSection, section])
 
@@ -152,6 +155,7 @@ try{${editorCode}}catch(e){console.error(e.message)}
   const handleRunCode = async () => {
     setIsRunning(true)
     setOutput('Running code...')
+    setRunMarkers([])
 
     try {
       // For preview-only languages (HTML/CSS), show preview message
@@ -163,6 +167,7 @@ try{${editorCode}}catch(e){console.error(e.message)}
 
       // Execute code via Piston API
       const result = await executeCode(languageId, editorCode)
+      setRunMarkers(diagnosticsToMarkers(result.diagnostics))
 
       if (result.success) {
         let outputText = `✓ ${language.name} - Execution Complete\n`
@@ -197,8 +202,12 @@ try{${editorCode}}catch(e){console.error(e.message)}
   const saveProgress = async (newSection: number, completed: number[]) => {
     if (!userCode) return
     try {
-      const isCompleted = completed.length >= totalSections
-      await updateTutorialProgress(userCode, languageKey, newSection, completed, isCompleted)
+      const { xpGranted, completedSections: accepted } = await updateTutorialProgress(userCode, languageKey, newSection, completed)
+      // Sections read too quickly aren't counted by the server
+      setCompletedSections(accepted)
+      if (xpGranted > 0) {
+        notifyXPEarned(xpGranted)
+      }
       // Trigger profile refresh for real-time progress updates
       triggerProfileRefresh()
     } catch (error) {
@@ -543,17 +552,14 @@ try{${editorCode}}catch(e){console.error(e.message)}
             </div>
           ) : (
             /* Code Editor */
-            <textarea
+            <CodeEditor
               value={editorCode}
-              onChange={(e) => setEditorCode(e.target.value)}
-              className="flex-1 bg-gray-900 text-green-400 font-mono text-sm sm:text-sm 2xl:text-base p-3 sm:p-4 2xl:p-6 resize-none focus:outline-none focus:ring-2 focus:ring-green-500/50 min-h-[250px] sm:min-h-[280px] md:min-h-[320px] lg:min-h-[400px] 2xl:min-h-[500px] leading-relaxed"
+              onChange={setEditorCode}
+              language={languageId}
+              markers={runMarkers}
+              className="flex-1 min-h-[250px] sm:min-h-[280px] md:min-h-[320px] lg:min-h-[400px] 2xl:min-h-[500px] 2xl:text-base"
               placeholder="// Write your code here..."
-              spellCheck={false}
-              autoCapitalize="off"
-              autoCorrect="off"
-              autoComplete="off"
-              data-gramm="false"
-              aria-label={`Code editor for ${language.name} tutorial`}
+              ariaLabel={`Code editor for ${language.name} tutorial`}
             />
           )}
 
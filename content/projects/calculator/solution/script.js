@@ -0,0 +1,52 @@
+let currentNumber = '0';
+let previousNumber = '';
+let operator = null;
+
+function updateDisplay() {
+  document.getElementById('display').textContent = currentNumber;
+}
+
+function appendNumber(num) {
+  if (currentNumber === '0' && num !== '.') {
+    currentNumber = num;
+  } else {
+    currentNumber += num;
+  }
+  updateDisplay();
+}
+
+function setOperator(op) {
+  if (operator !== null) {
+    calculate();
+  }
+  previousNumber = currentNumber;
+  currentNumber = '0';
+  operator = op;
+}
+
+function calculate() {
+  if (operator === null || previousNumber === '') return;
+
+  const prev = parseFloat(previousNumber);
+  const curr = parseFloat(currentNumber);
+  let result;
+
+  switch(operator) {
+    case '+': result = prev + curr; break;
+    case '-': result = prev - curr; break;
+    case '*': result = prev * curr; break;
+    case '/': result = prev / curr; break;
+  }
+
+  currentNumber = result.toString();
+  previousNumber = '';
+  operator = null;
+  updateDisplay();
+}
+
+function clearDisplay() {
+  currentNumber = '0';
+  previousNumber = '';
+  operator = null;
+  updateDisplay();
+}
@@ -0,0 +1,24 @@
+// Calculator logic
+let currentNumber = '0';
+let previousNumber = '';
+let operator = null;
+
+function updateDisplay() {
+  // Update the display element
+}
+
+function appendNumber(num) {
+  // Add number to current input
+}
+
+function setOperator(op) {
+  // Set the operator for calculation
+}
+
+function calculate() {
+  // Perform the calculation
+}
+
+function clearDisplay() {
+  // Reset the calculator
+}
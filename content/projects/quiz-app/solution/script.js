@@ -0,0 +1,88 @@
+const questions = [
+  {
+    question: "What does HTML stand for?",
+    answers: ["Hyper Text Markup Language", "Home Tool Markup Language", "Hyperlinks Text Mark Language"],
+    correct: 0
+  },
+  {
+    question: "What does CSS stand for?",
+    answers: ["Computer Style Sheets", "Cascading Style Sheets", "Creative Style System"],
+    correct: 1
+  },
+  {
+    question: "Which language runs in the browser?",
+    answers: ["Java", "Python", "JavaScript"],
+    correct: 2
+  },
+  {
+    question: "What year was JavaScript created?",
+    answers: ["1995", "2000", "1990"],
+    correct: 0
+  }
+];
+
+let currentQuestion = 0;
+let score = 0;
+let answered = false;
+
+function showQuestion() {
+  const q = questions[currentQuestion];
+  document.getElementById('question').textContent = q.question;
+
+  const answersDiv = document.getElementById('answers');
+  answersDiv.innerHTML = q.answers.map((answer, i) =>
+    `<button class="answer-btn" onclick="selectAnswer(${i})">${answer}</button>`
+  ).join('');
+
+  answered = false;
+  document.getElementById('nextBtn').style.display = 'none';
+}
+
+function selectAnswer(index) {
+  if (answered) return;
+  answered = true;
+
+  const q = questions[currentQuestion];
+  const buttons = document.querySelectorAll('.answer-btn');
+
+  buttons.forEach((btn, i) => {
+    if (i === q.correct) {
+      btn.classList.add('correct');
+    } else if (i === index) {
+      btn.classList.add('wrong');
+    }
+    btn.style.pointerEvents = 'none';
+  });
+
+  if (index === q.correct) {
+    score++;
+  }
+
+  document.getElementById('nextBtn').style.display = 'block';
+}
+
+function nextQuestion() {
+  currentQuestion++;
+  if (currentQuestion < questions.length) {
+    showQuestion();
+  } else {
+    showResults();
+  }
+}
+
+function showResults() {
+  document.getElementById('quiz').classList.add('hidden');
+  document.getElementById('results').classList.remove('hidden');
+  document.getElementById('score').textContent =
+    `You scored ${score} out of ${questions.length}!`;
+}
+
+function restartQuiz() {
+  currentQuestion = 0;
+  score = 0;
+  document.getElementById('quiz').classList.remove('hidden');
+  document.getElementById('results').classList.add('hidden');
+  showQuestion();
+}
+
+showQuestion();
@@ -0,0 +1,31 @@
+// Quiz questions
+const questions = [
+  {
+    question: "What does HTML stand for?",
+    answers: ["Hyper Text Markup Language", "Home Tool Markup Language", "Hyperlinks Text Mark Language"],
+    correct: 0
+  },
+  // Add more questions
+];
+
+let currentQuestion = 0;
+let score = 0;
+
+function showQuestion() {
+  // Display current question and answers
+}
+
+function selectAnswer(index) {
+  // Check if answer is correct
+}
+
+function nextQuestion() {
+  // Move to next question
+}
+
+function showResults() {
+  // Display final score
+}
+
+// Start the quiz
+showQuestion();
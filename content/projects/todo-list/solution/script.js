@@ -0,0 +1,41 @@
+let todos = [];
+
+function addTodo() {
+  const input = document.getElementById('todoInput');
+  const text = input.value.trim();
+
+  if (text) {
+    todos.push({ text, completed: false });
+    input.value = '';
+    renderTodos();
+  }
+}
+
+function toggleTodo(index) {
+  todos[index].completed = !todos[index].completed;
+  renderTodos();
+}
+
+function deleteTodo(index) {
+  todos.splice(index, 1);
+  renderTodos();
+}
+
+function renderTodos() {
+  const list = document.getElementById('todoList');
+  list.innerHTML = todos.map((todo, index) => `
+    <li class="${todo.completed ? 'completed' : ''}">
+      <input type="checkbox" ${todo.completed ? 'checked' : ''}
+             onchange="toggleTodo(${index})">
+      <span>${todo.text}</span>
+      <button class="delete-btn" onclick="deleteTodo(${index})">Delete</button>
+    </li>
+  `).join('');
+}
+
+// Allow Enter key to add todos
+document.addEventListener('DOMContentLoaded', () => {
+  document.getElementById('todoInput').addEventListener('keypress', (e) => {
+    if (e.key === 'Enter') addTodo();
+  });
+});
@@ -0,0 +1,18 @@
+// Todo list functionality
+let todos = [];
+
+function addTodo() {
+  // Get input and add to list
+}
+
+function toggleTodo(index) {
+  // Mark todo as complete/incomplete
+}
+
+function deleteTodo(index) {
+  // Remove todo from list
+}
+
+function renderTodos() {
+  // Update the display
+}
@@ -0,0 +1,26 @@
+const weatherData = {
+  sunny: { icon: '☀️', temp: 72, condition: 'Sunny', humidity: '45%', wind: '12 mph' },
+  cloudy: { icon: '☁️', temp: 65, condition: 'Cloudy', humidity: '60%', wind: '8 mph' },
+  rainy: { icon: '🌧️', temp: 58, condition: 'Rainy', humidity: '85%', wind: '15 mph' }
+};
+
+function setWeather(type) {
+  const data = weatherData[type];
+
+  document.getElementById('icon').textContent = data.icon;
+  document.getElementById('temp').textContent = data.temp;
+  document.getElementById('condition').textContent = data.condition;
+  document.getElementById('humidity').textContent = data.humidity;
+  document.getElementById('wind').textContent = data.wind;
+
+  document.body.className = type;
+}
+
+function updateDate() {
+  const options = { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' };
+  const today = new Date().toLocaleDateString('en-US', options);
+  document.getElementById('date').textContent = today;
+}
+
+updateDate();
+setWeather('sunny');
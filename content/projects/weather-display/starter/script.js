@@ -0,0 +1,17 @@
+// Weather data
+const weatherData = {
+  sunny: { icon: '☀️', temp: 72, condition: 'Sunny', humidity: '45%', wind: '12 mph' },
+  cloudy: { icon: '☁️', temp: 65, condition: 'Cloudy', humidity: '60%', wind: '8 mph' },
+  rainy: { icon: '🌧️', temp: 58, condition: 'Rainy', humidity: '85%', wind: '15 mph' }
+};
+
+function setWeather(type) {
+  // Update the display with weather data
+}
+
+function updateDate() {
+  // Show current date
+}
+
+// Initialize
+updateDate();
@@ -9,33 +9,69 @@ import DragDropZone from '@/components/Games/DragDropZone'
 import { useTutorialStore } from '@/stores/tutorialStore'
 import { useUserStore } from '@/stores/userStore'
 import { achievementManager } from '@/utils/achievementManager'
-
-interface AIBlock {
+import {
+  ML_BLOCKS,
+  PipelineError,
+  runBlock,
+  validatePipeline,
+  type MLBlockCategory,
+  type MLBlockType,
+  type PipelineValue,
+} from '@/utils/mlPipeline'
+
+interface PipelineBlock {
   id: string
-  type: 'data' | 'train' | 'predict' | 'evaluate'
-  label: string
-  icon: string
+  type: MLBlockType
 }
 
-const AVAILABLE_BLOCKS: AIBlock[] = [
-  { id: 'data-1', type: 'data', label: 'Load Data', icon: '📊' },
-  { id: 'train-1', type: 'train', label: 'Train Model', icon: '🎓' },
-  { id: 'predict-1', type: 'predict', label: 'Make Prediction', icon: '🔮' },
-  { id: 'evaluate-1', type: 'evaluate', label: 'Evaluate Results', icon: '📈' },
+const CATEGORIES: { id: MLBlockCategory; label: string; color: string }[] = [
+  { id: 'data', label: 'Data', color: 'from-blue-500/20 to-cyan-500/20 border-blue-500/50' },
+  { id: 'prepare', label: 'Prepare', color: 'from-yellow-500/20 to-orange-500/20 border-yellow-500/50' },
+  { id: 'model', label: 'Model', color: 'from-purple-500/20 to-pink-500/20 border-purple-500/50' },
+  { id: 'evaluate', label: 'Evaluate', color: 'from-green-500/20 to-emerald-500/20 border-green-500/50' },
+]
+
+const BLOCK_TYPES = Object.keys(ML_BLOCKS) as MLBlockType[]
+
+const TEMPLATES: { icon: string; title: string; description: string; blocks: MLBlockType[] }[] = [
+  {
+    icon: '🍎',
+    title: 'Fruit Classifier',
+    description: 'Fruit, split, normalise, k-NN, accuracy, confusion matrix',
+    blocks: ['load-fruit', 'split', 'normalise', 'knn', 'accuracy', 'confusion-matrix'],
+  },
+  {
+    icon: '📝',
+    title: 'Exam Predictor',
+    description: 'Exam results, split, normalise, logistic regression, precision & recall',
+    blocks: ['load-exam', 'split', 'normalise', 'logistic-regression', 'accuracy', 'precision-recall'],
+  },
+  {
+    icon: '🏠',
+    title: 'House Prices',
+    description: 'House prices, split, linear regression',
+    blocks: ['load-houses', 'split', 'linear-regression'],
+  },
 ]
 
+// Pause between blocks so the learner can follow the run
+const BLOCK_DELAY_MS = 400
+
 export default function AIPlaygroundSandbox() {
-  const [pipeline, setPipeline] = useState<AIBlock[]>([])
+  const [pipeline, setPipeline] = useState<PipelineBlock[]>([])
   const [output, setOutput] = useState<string[]>([])
   const [isRunning, setIsRunning] = useState(false)
   const [executingIndex, setExecutingIndex] = useState(-1)
+  const [failedIndex, setFailedIndex] = useState(-1)
+  const [result, setResult] = useState<PipelineValue | null>(null)
   const [timeSpent, setTimeSpent] = useState(0)
-  const [accuracy, setAccuracy] = useState(0)
   const startTimeRef = useRef<number>(Date.now())
 
   const { updateTopicProgress } = useTutorialStore()
   const { addXP } = useUserStore()
 
+  const orderProblem = validatePipeline(pipeline.map(block => block.type))
+
   useEffect(() => {
     const interval = setInterval(() => {
       const elapsed = Math.floor((Date.now() - startTimeRef.current) / 1000)
@@ -60,85 +96,87 @@ export default function AIPlaygroundSandbox() {
     }
   }, [pipeline.length, updateTopicProgress])
 
+  const clearRun = () => {
+    setOutput([])
+    setResult(null)
+    setFailedIndex(-1)
+  }
+
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event
 
     if (!over) return
 
-    const blockId = active.id as string
-    const block = AVAILABLE_BLOCKS.find(b => b.id === blockId)
+    const type = (active.id as string).replace('palette-', '') as MLBlockType
 
-    if (block && over.id === 'pipeline-area') {
-      setPipeline([...pipeline, { ...block, id: `${block.id}-${Date.now()}` }])
+    if (ML_BLOCKS[type] && over.id === 'pipeline-area') {
+      setPipeline([...pipeline, { id: `${type}-${Date.now()}`, type }])
+      clearRun()
     }
   }
 
   const removeBlock = (index: number) => {
     setPipeline(pipeline.filter((_, i) => i !== index))
+    clearRun()
   }
 
   const runPipeline = async () => {
+    clearRun()
+    if (pipeline.length === 0) {
+      setOutput(['❌ Add some blocks to the pipeline first'])
+      return
+    }
+    if (orderProblem) {
+      setFailedIndex(orderProblem.index)
+      setOutput([`❌ Block ${orderProblem.index + 1} (${ML_BLOCKS[pipeline[orderProblem.index].type].label}): ${orderProblem.message}`])
+      return
+    }
+
     setIsRunning(true)
-    setOutput([])
     const newOutput: string[] = []
-    let currentAccuracy = 0
+    let value: PipelineValue | null = null
 
     for (let i = 0; i < pipeline.length; i++) {
       setExecutingIndex(i)
-      await new Promise(resolve => setTimeout(resolve, 1000))
-
-      const block = pipeline[i]
-
-      switch (block.type) {
-        case 'data':
-          newOutput.push(`📊 Loading dataset... Found 1,000 samples`)
-          newOutput.push(`   ✓ Data ready for training`)
-          currentAccuracy += 20
-          break
-        case 'train':
-          newOutput.push(`🎓 Training AI model...`)
-          newOutput.push(`   Epoch 1/3... Loss: 0.45`)
-          await new Promise(resolve => setTimeout(resolve, 500))
-          newOutput.push(`   Epoch 2/3... Loss: 0.28`)
-          await new Promise(resolve => setTimeout(resolve, 500))
-          newOutput.push(`   Epoch 3/3... Loss: 0.12`)
-          newOutput.push(`   ✓ Model trained successfully!`)
-          currentAccuracy += 40
-          break
-        case 'predict':
-          newOutput.push(`🔮 Making predictions on test data...`)
-          newOutput.push(`   Prediction 1: Cat (98% confidence)`)
-          newOutput.push(`   Prediction 2: Dog (95% confidence)`)
-          newOutput.push(`   Prediction 3: Bird (87% confidence)`)
-          newOutput.push(`   ✓ Predictions complete!`)
-          currentAccuracy += 20
-          break
-        case 'evaluate':
-          const finalAccuracy = Math.min(95, currentAccuracy + Math.random() * 10)
-          setAccuracy(finalAccuracy)
-          newOutput.push(`📈 Evaluating model performance...`)
-          newOutput.push(`   Accuracy: ${finalAccuracy.toFixed(1)}%`)
-          newOutput.push(`   Precision: ${(finalAccuracy - 3).toFixed(1)}%`)
-          newOutput.push(`   Recall: ${(finalAccuracy - 2).toFixed(1)}%`)
-          newOutput.push(`   ✓ Model is performing well!`)
-          currentAccuracy += 20
-          break
+      await new Promise(resolve => setTimeout(resolve, BLOCK_DELAY_MS))
+
+      try {
+        const blockResult = await runBlock(pipeline[i].type, value)
+        value = blockResult.value
+        newOutput.push(...blockResult.log)
+      } catch (error) {
+        newOutput.push(`❌ ${error instanceof PipelineError ? error.message : 'This block failed to run. Please try again.'}`)
+        if (!(error instanceof PipelineError)) {
+          console.error('Error running pipeline block:', error)
+        }
+        setFailedIndex(i)
+        setOutput([...newOutput])
+        value = null
+        break
       }
 
       setOutput([...newOutput])
     }
 
+    setResult(value)
     setExecutingIndex(-1)
     setIsRunning(false)
   }
 
   const resetPipeline = () => {
     setPipeline([])
-    setOutput([])
     setExecutingIndex(-1)
-    setAccuracy(0)
+    clearRun()
   }
 
+  const loadTemplate = (blocks: MLBlockType[]) => {
+    setPipeline(blocks.map((type, index) => ({ id: `${type}-template-${index}`, type })))
+    clearRun()
+  }
+
+  const metrics = result?.kind === 'model' ? result.metrics : null
+  const classes = result?.kind === 'model' ? result.model.classes : []
+
   return (
     <DndContext onDragEnd={handleDragEnd}>
       <SandboxContainer
@@ -153,10 +191,10 @@ export default function AIPlaygroundSandbox() {
           <div className="text-2xl font-bold text-christmas-gold">
             {Math.floor(timeSpent / 60)}:{(timeSpent % 60).toString().padStart(2, '0')}
           </div>
-          {accuracy > 0 && (
+          {metrics?.accuracy !== undefined && (
             <div className="mt-2">
-              <div className="text-white/70 text-sm">Model Accuracy</div>
-              <div className="text-3xl font-bold text-green-400">{accuracy.toFixed(1)}%</div>
+              <div className="text-white/70 text-sm">Test Accuracy</div>
+              <div className="text-3xl font-bold text-green-400">{(metrics.accuracy * 100).toFixed(1)}%</div>
             </div>
           )}
         </div>
@@ -168,25 +206,32 @@ export default function AIPlaygroundSandbox() {
             <p className="text-white/70 text-sm mb-4">
               Drag blocks to build your AI training pipeline
             </p>
-            <div className="space-y-3">
-              {AVAILABLE_BLOCKS.map((block) => (
-                <DraggableItem key={block.id} id={block.id}>
-                  <div className="bg-gradient-to-r from-blue-500/20 to-purple-500/20 border-2 border-blue-500/50 rounded-lg p-4 cursor-grab active:cursor-grabbing">
-                    <div className="flex items-center space-x-3">
-                      <span className="text-2xl">{block.icon}</span>
-                      <div>
-                        <div className="text-white font-semibold text-sm">{block.label}</div>
-                        <div className="text-white/60 text-xs">{block.type}</div>
-                      </div>
-                    </div>
+            <div className="space-y-4">
+              {CATEGORIES.map(category => (
+                <div key={category.id}>
+                  <div className="text-white/60 text-xs font-semibold uppercase mb-2">{category.label}</div>
+                  <div className="space-y-2">
+                    {BLOCK_TYPES.filter(type => ML_BLOCKS[type].category === category.id).map(type => (
+                      <DraggableItem key={type} id={`palette-${type}`}>
+                        <div className={`bg-gradient-to-r ${category.color} border-2 rounded-lg p-3 cursor-grab active:cursor-grabbing`}>
+                          <div className="flex items-center space-x-3">
+                            <span className="text-2xl">{ML_BLOCKS[type].icon}</span>
+                            <div>
+                              <div className="text-white font-semibold text-sm">{ML_BLOCKS[type].label}</div>
+                              <div className="text-white/60 text-xs">{ML_BLOCKS[type].description}</div>
+                            </div>
+                          </div>
+                        </div>
+                      </DraggableItem>
+                    ))}
                   </div>
-                </DraggableItem>
+                </div>
               ))}
             </div>
 
             <div className="mt-6 p-4 bg-blue-500/10 border-l-4 border-blue-500 rounded">
               <p className="text-white/80 text-sm">
-                💡 <strong>Tip:</strong> Build a complete pipeline: Load Data → Train → Predict → Evaluate!
+                💡 <strong>Tip:</strong> Build a complete pipeline: Load Data → Split → Normalise → Model → Evaluate!
               </p>
             </div>
           </div>
@@ -204,39 +249,48 @@ export default function AIPlaygroundSandbox() {
                 </div>
               ) : (
                 <div className="space-y-2">
-                  {pipeline.map((block, index) => (
-                    <motion.div
-                      key={block.id}
-                      className={`
-                        bg-white/5 border-2 rounded-lg p-3 relative
-                        ${executingIndex === index
-                          ? 'border-christmas-gold bg-christmas-gold/20 scale-105'
-                          : 'border-white/20'}
-                      `}
-                      initial={{ opacity: 0, x: -20 }}
-                      animate={{ opacity: 1, x: 0 }}
-                      exit={{ opacity: 0, x: 20 }}
-                    >
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center space-x-3">
-                          <span className="text-xl">{block.icon}</span>
-                          <div>
-                            <div className="text-white font-semibold text-sm">
-                              {index + 1}. {block.label}
+                  {pipeline.map((block, index) => {
+                    const definition = ML_BLOCKS[block.type]
+                    const hasProblem = orderProblem?.index === index || failedIndex === index
+                    return (
+                      <motion.div
+                        key={block.id}
+                        className={`
+                          bg-white/5 border-2 rounded-lg p-3 relative
+                          ${executingIndex === index
+                            ? 'border-christmas-gold bg-christmas-gold/20 scale-105'
+                            : hasProblem
+                              ? 'border-red-500 bg-red-500/10'
+                              : 'border-white/20'}
+                        `}
+                        initial={{ opacity: 0, x: -20 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        exit={{ opacity: 0, x: 20 }}
+                      >
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center space-x-3">
+                            <span className="text-xl">{definition.icon}</span>
+                            <div>
+                              <div className="text-white font-semibold text-sm">
+                                {index + 1}. {definition.label}
+                              </div>
+                              <div className="text-white/60 text-xs">{definition.category}</div>
                             </div>
-                            <div className="text-white/60 text-xs">{block.type}</div>
                           </div>
+                          <button
+                            onClick={() => removeBlock(index)}
+                            disabled={isRunning}
+                            className="text-red-400 hover:text-red-300 font-bold disabled:opacity-30"
+                          >
+                            ✕
+                          </button>
                         </div>
-                        <button
-                          onClick={() => removeBlock(index)}
-                          disabled={isRunning}
-                          className="text-red-400 hover:text-red-300 font-bold disabled:opacity-30"
-                        >
-                          ✕
-                        </button>
-                      </div>
-                    </motion.div>
-                  ))}
+                        {orderProblem?.index === index && (
+                          <p className="text-red-300 text-xs mt-2">⚠️ {orderProblem.message}</p>
+                        )}
+                      </motion.div>
+                    )
+                  })}
                 </div>
               )}
             </DragDropZone>
@@ -256,7 +310,7 @@ export default function AIPlaygroundSandbox() {
                   {output.map((line, index) => (
                     <motion.div
                       key={index}
-                      className="text-green-400 mb-2"
+                      className={`mb-2 whitespace-pre-wrap ${line.startsWith('❌') ? 'text-red-400' : line.includes('⚠️') ? 'text-yellow-300' : 'text-green-400'}`}
                       initial={{ opacity: 0, y: 10 }}
                       animate={{ opacity: 1, y: 0 }}
                       transition={{ delay: index * 0.05 }}
@@ -278,7 +332,7 @@ export default function AIPlaygroundSandbox() {
               )}
             </div>
 
-            {output.length > 0 && !isRunning && (
+            {result && !isRunning && (
               <motion.div
                 className="mt-4 p-3 bg-green-500/20 border border-green-500 rounded-lg text-center"
                 initial={{ opacity: 0, scale: 0.9 }}
@@ -292,60 +346,82 @@ export default function AIPlaygroundSandbox() {
           </div>
         </div>
 
+        {/* Evaluation results */}
+        {metrics && (metrics.confusionMatrix || metrics.precisionRecall) && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
+            {metrics.confusionMatrix && (
+              <div className="glass-card p-6 overflow-x-auto">
+                <h3 className="text-xl font-bold text-white mb-4">🧮 Confusion Matrix</h3>
+                <table className="text-sm text-white mx-auto">
+                  <thead>
+                    <tr>
+                      <th className="p-2 text-white/60 text-left">actual ↓ / predicted →</th>
+                      {classes.map(label => <th key={label} className="p-2">{label}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {metrics.confusionMatrix.map((row, actual) => (
+                      <tr key={classes[actual]}>
+                        <th className="p-2 text-left">{classes[actual]}</th>
+                        {row.map((count, predicted) => (
+                          <td
+                            key={predicted}
+                            className={`p-2 text-center font-bold rounded ${
+                              actual === predicted ? 'bg-green-500/30' : count > 0 ? 'bg-red-500/30' : 'bg-white/5'
+                            }`}
+                          >
+                            {count}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {metrics.precisionRecall && (
+              <div className="glass-card p-6">
+                <h3 className="text-xl font-bold text-white mb-4">⚖️ Precision & Recall</h3>
+                <div className="space-y-3">
+                  {metrics.precisionRecall.map(entry => (
+                    <div key={entry.label}>
+                      <div className="text-white font-semibold text-sm mb-1">{entry.label}</div>
+                      {(['precision', 'recall'] as const).map(metric => (
+                        <div key={metric} className="flex items-center gap-2 text-xs text-white/70 mb-1">
+                          <span className="w-16">{metric}</span>
+                          <div className="flex-1 h-2 bg-white/10 rounded">
+                            <div className="h-2 bg-green-400 rounded" style={{ width: `${entry[metric] * 100}%` }} />
+                          </div>
+                          <span className="w-12 text-right">{(entry[metric] * 100).toFixed(0)}%</span>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Templates Section */}
         <div className="glass-card p-6 mt-6">
           <h3 className="text-xl font-bold text-white mb-4">📝 Quick Pipelines</h3>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            <motion.button
-              onClick={() => {
-                setPipeline([
-                  { ...AVAILABLE_BLOCKS[0], id: 'temp-1' },
-                  { ...AVAILABLE_BLOCKS[1], id: 'temp-2' },
-                ])
-              }}
-              className="bg-white/5 hover:bg-white/10 border-2 border-white/20 rounded-lg p-4 text-left transition-all"
-              whileHover={{ scale: 1.02 }}
-              whileTap={{ scale: 0.98 }}
-            >
-              <div className="text-2xl mb-2">🎯</div>
-              <div className="text-white font-semibold mb-1">Simple Training</div>
-              <div className="text-white/60 text-xs">Load Data, Train Model</div>
-            </motion.button>
-
-            <motion.button
-              onClick={() => {
-                setPipeline([
-                  { ...AVAILABLE_BLOCKS[0], id: 'temp-3' },
-                  { ...AVAILABLE_BLOCKS[1], id: 'temp-4' },
-                  { ...AVAILABLE_BLOCKS[2], id: 'temp-5' },
-                ])
-              }}
-              className="bg-white/5 hover:bg-white/10 border-2 border-white/20 rounded-lg p-4 text-left transition-all"
-              whileHover={{ scale: 1.02 }}
-              whileTap={{ scale: 0.98 }}
-            >
-              <div className="text-2xl mb-2">🔮</div>
-              <div className="text-white font-semibold mb-1">Train & Predict</div>
-              <div className="text-white/60 text-xs">Load, Train, Predict</div>
-            </motion.button>
-
-            <motion.button
-              onClick={() => {
-                setPipeline([
-                  { ...AVAILABLE_BLOCKS[0], id: 'temp-6' },
-                  { ...AVAILABLE_BLOCKS[1], id: 'temp-7' },
-                  { ...AVAILABLE_BLOCKS[2], id: 'temp-8' },
-                  { ...AVAILABLE_BLOCKS[3], id: 'temp-9' },
-                ])
-              }}
-              className="bg-white/5 hover:bg-white/10 border-2 border-white/20 rounded-lg p-4 text-left transition-all"
-              whileHover={{ scale: 1.02 }}
-              whileTap={{ scale: 0.98 }}
-            >
-              <div className="text-2xl mb-2">📊</div>
-              <div className="text-white font-semibold mb-1">Full Pipeline</div>
-              <div className="text-white/60 text-xs">Complete AI workflow</div>
-            </motion.button>
+            {TEMPLATES.map(template => (
+              <motion.button
+                key={template.title}
+                onClick={() => loadTemplate(template.blocks)}
+                disabled={isRunning}
+                className="bg-white/5 hover:bg-white/10 border-2 border-white/20 rounded-lg p-4 text-left transition-all"
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+              >
+                <div className="text-2xl mb-2">{template.icon}</div>
+                <div className="text-white font-semibold mb-1">{template.title}</div>
+                <div className="text-white/60 text-xs">{template.description}</div>
+              </motion.button>
+            ))}
           </div>
         </div>
       </SandboxContainer>
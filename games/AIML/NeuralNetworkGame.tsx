@@ -1,7 +1,7 @@
 'use client'
 
-import { useState } from 'react'
-import { DndContext, DragEndEvent, DragOverlay } from '@dnd-kit/core'
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { DndContext, DragEndEvent, DragOverlay, DragStartEvent } from '@dnd-kit/core'
 import { motion, AnimatePresence } from 'framer-motion'
 import GameContainer from '@/components/Games/GameContainer'
 import GameHUD from '@/components/Games/GameHUD'
@@ -11,69 +11,330 @@ import { useUserStore } from '@/stores/userStore'
 import { useTutorialStore } from '@/stores/tutorialStore'
 import { achievementManager } from '@/utils/achievementManager'
 import { soundManager } from '@/utils/soundManager'
+import {
+  DATASETS,
+  INPUT_FEATURES,
+  NeuralNetwork,
+  generateDataset,
+  type Activation,
+  type DataPoint,
+  type DatasetId,
+  type FeatureId,
+  type TrainingStats,
+} from '@/utils/neuralNetwork'
 import confetti from 'canvas-confetti'
 
 interface NetworkNode {
   id: string
-  layer: 'input' | 'hidden' | 'output'
+  layer: 'input' | 'hidden'
   label: string
   icon: string
   color: string
 }
 
-const NETWORK_NODES: NetworkNode[] = [
-  { id: 'input-1', layer: 'input', label: 'Input 1', icon: '📥', color: 'bg-blue-500' },
-  { id: 'input-2', layer: 'input', label: 'Input 2', icon: '📥', color: 'bg-blue-500' },
-  { id: 'input-3', layer: 'input', label: 'Input 3', icon: '📥', color: 'bg-blue-500' },
-  { id: 'hidden-1', layer: 'hidden', label: 'Hidden 1', icon: '🧠', color: 'bg-purple-500' },
-  { id: 'hidden-2', layer: 'hidden', label: 'Hidden 2', icon: '🧠', color: 'bg-purple-500' },
-  { id: 'hidden-3', layer: 'hidden', label: 'Hidden 3', icon: '🧠', color: 'bg-purple-500' },
-  { id: 'hidden-4', layer: 'hidden', label: 'Hidden 4', icon: '🧠', color: 'bg-purple-500' },
-  { id: 'output-1', layer: 'output', label: 'Output 1', icon: '📤', color: 'bg-green-500' },
-  { id: 'output-2', layer: 'output', label: 'Output 2', icon: '📤', color: 'bg-green-500' },
-]
-
-const LEVEL_SOLUTIONS = {
+interface NetworkLevel {
+  dataset: DatasetId
+  /** Test accuracy (0-1) the network must reach */
+  targetAccuracy: number
+  /** Epochs one training run may use before it counts as a miss */
+  maxEpochs: number
+  features: FeatureId[]
+  neurons: number
+  hiddenLayers: number
+  hint: string
+}
+
+const NETWORK_LEVELS: Record<Difficulty, NetworkLevel> = {
   easy: {
-    input: ['input-1', 'input-2'],
-    hidden: ['hidden-1', 'hidden-2'],
-    output: ['output-1']
+    dataset: 'xor',
+    targetAccuracy: 0.95,
+    maxEpochs: 200,
+    features: ['x', 'y', 'x2', 'y2', 'xy'],
+    neurons: 6,
+    hiddenLayers: 1,
+    hint: 'XOR needs more than one straight line. Feed in x and y with 3-4 hidden neurons, or try the x·y feature on its own.',
   },
   medium: {
-    input: ['input-1', 'input-2', 'input-3'],
-    hidden: ['hidden-1', 'hidden-2', 'hidden-3'],
-    output: ['output-1', 'output-2']
+    dataset: 'moons',
+    targetAccuracy: 0.95,
+    maxEpochs: 300,
+    features: ['x', 'y', 'x2', 'y2', 'sinX', 'sinY'],
+    neurons: 8,
+    hiddenLayers: 2,
+    hint: 'The moons need a bent boundary. x and y with 6 or more tanh neurons works well, and a learning rate of 0.1 trains faster.',
   },
   hard: {
-    input: ['input-1', 'input-2', 'input-3'],
-    hidden: ['hidden-1', 'hidden-2', 'hidden-3', 'hidden-4'],
-    output: ['output-1', 'output-2']
+    dataset: 'spirals',
+    targetAccuracy: 0.9,
+    maxEpochs: 400,
+    features: ['x', 'y', 'x2', 'y2', 'xy', 'sinX', 'sinY'],
+    neurons: 12,
+    hiddenLayers: 2,
+    hint: 'Spirals are very hard from x and y alone. Add sin(x) and sin(y) and spread your neurons over two hidden layers.',
   },
 }
 
+const LEARNING_RATES = [0.003, 0.01, 0.03, 0.1]
+// Epochs trained between redraws
+const EPOCHS_PER_FRAME = 4
+const TRAIN_POINTS = 200
+const TEST_POINTS = 100
+
+// Class colours: 0 is orange, 1 is blue
+const CLASS_COLORS = ['#f97316', '#3b82f6']
+
 type Difficulty = 'easy' | 'medium' | 'hard'
 
+function getLevelNodes(level: NetworkLevel): NetworkNode[] {
+  return [
+    ...level.features.map(feature => ({
+      id: `feature-${feature}`,
+      layer: 'input' as const,
+      label: INPUT_FEATURES[feature].label,
+      icon: '📥',
+      color: 'bg-blue-500',
+    })),
+    ...Array.from({ length: level.neurons }, (_, index) => ({
+      id: `neuron-${index + 1}`,
+      layer: 'hidden' as const,
+      label: `Neuron ${index + 1}`,
+      icon: '🧠',
+      color: 'bg-purple-500',
+    })),
+  ]
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`
+}
+
+/**
+ * Network drawing with edges coloured by weight sign and sized by magnitude
+ */
+function NetworkDiagram({ layerLabels, network }: { layerLabels: string[][]; network: NeuralNetwork | null }) {
+  const width = 360
+  const height = 220
+  const columns = layerLabels.filter(labels => labels.length > 0)
+  const positions = columns.map((labels, column) => labels.map((_, row) => ({
+    x: 30 + (column * (width - 60)) / Math.max(columns.length - 1, 1),
+    y: ((row + 1) * height) / (labels.length + 1),
+  })))
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label="Network diagram">
+      {positions.slice(1).map((targets, layerIndex) =>
+        targets.map((target, neuron) =>
+          positions[layerIndex].map((source, input) => {
+            const weight = network?.layers[layerIndex]?.weights[neuron]?.[input]
+            return (
+              <line
+                key={`${layerIndex}-${neuron}-${input}`}
+                x1={source.x}
+                y1={source.y}
+                x2={target.x}
+                y2={target.y}
+                stroke={weight === undefined ? 'rgba(255,255,255,0.2)' : CLASS_COLORS[weight >= 0 ? 1 : 0]}
+                strokeWidth={weight === undefined ? 1 : Math.min(0.5 + Math.abs(weight), 5)}
+                strokeOpacity={0.8}
+              />
+            )
+          })
+        )
+      )}
+      {positions.map((column, columnIndex) =>
+        column.map((node, row) => (
+          <g key={`${columnIndex}-${row}`}>
+            <circle cx={node.x} cy={node.y} r={11} fill="#1f2937" stroke="white" strokeWidth={1.5} />
+            <text x={node.x} y={node.y + 3} textAnchor="middle" fontSize={8} fill="white">
+              {columns[columnIndex][row]}
+            </text>
+          </g>
+        ))
+      )}
+    </svg>
+  )
+}
+
+/**
+ * Training loss per epoch
+ */
+function LossChart({ history }: { history: TrainingStats[] }) {
+  const width = 360
+  const height = 140
+  if (history.length === 0) {
+    return <div className="h-[140px] flex items-center justify-center text-white/50 text-sm">Train the network to see its loss</div>
+  }
+
+  const maxLoss = Math.max(...history.map(stats => stats.loss), 0.1)
+  const points = history.map((stats, index) =>
+    `${(index / Math.max(history.length - 1, 1)) * width},${height - (stats.loss / maxLoss) * (height - 10)}`
+  ).join(' ')
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label="Loss curve">
+      <line x1={0} y1={height} x2={width} y2={height} stroke="rgba(255,255,255,0.3)" />
+      <polyline points={points} fill="none" stroke="#facc15" strokeWidth={2} />
+      <text x={4} y={12} fontSize={10} fill="rgba(255,255,255,0.7)">loss {maxLoss.toFixed(2)}</text>
+      <text x={width - 4} y={height - 4} fontSize={10} textAnchor="end" fill="rgba(255,255,255,0.7)">
+        epoch {history[history.length - 1].epoch}
+      </text>
+    </svg>
+  )
+}
+
+/**
+ * Predicted class over the plane, with the training and test points on top
+ */
+function DecisionBoundary({ network, train, test, version }: {
+  network: NeuralNetwork | null
+  train: DataPoint[]
+  test: DataPoint[]
+  version: number
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const size = 240
+  const cells = 40
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext('2d')
+    if (!context) return
+    const toPixel = (value: number) => ((value + 1.1) / 2.2) * size
+    const cell = size / cells
+
+    context.fillStyle = '#111827'
+    context.fillRect(0, 0, size, size)
+
+    if (network) {
+      for (let row = 0; row < cells; row++) {
+        for (let column = 0; column < cells; column++) {
+          const x = ((column + 0.5) / cells) * 2.2 - 1.1
+          const y = 1.1 - ((row + 0.5) / cells) * 2.2
+          const probability = network.predict(x, y)
+          context.fillStyle = CLASS_COLORS[probability >= 0.5 ? 1 : 0]
+          context.globalAlpha = Math.abs(probability - 0.5) * 0.9
+          context.fillRect(column * cell, row * cell, cell + 1, cell + 1)
+        }
+      }
+      context.globalAlpha = 1
+    }
+
+    const drawPoints = (points: DataPoint[], stroke: string) => {
+      points.forEach(point => {
+        context.beginPath()
+        context.arc(toPixel(point.x), size - toPixel(point.y), 3, 0, Math.PI * 2)
+        context.fillStyle = CLASS_COLORS[point.label]
+        context.fill()
+        context.strokeStyle = stroke
+        context.stroke()
+      })
+    }
+    drawPoints(train, 'white')
+    drawPoints(test, 'black')
+  }, [network, train, test, version])
+
+  return <canvas ref={canvasRef} width={size} height={size} className="w-full max-w-[240px] mx-auto rounded-lg" aria-label="Decision boundary" />
+}
+
 export default function NeuralNetworkGame() {
   const [difficulty, setDifficulty] = useState<Difficulty>('easy')
   const [started, setStarted] = useState(false)
   const [inputLayer, setInputLayer] = useState<string[]>([])
-  const [hiddenLayer, setHiddenLayer] = useState<string[]>([])
-  const [outputLayer, setOutputLayer] = useState<string[]>([])
-  const [availableNodes, setAvailableNodes] = useState<NetworkNode[]>(NETWORK_NODES)
+  const [hiddenLayers, setHiddenLayers] = useState<string[][]>([])
   const [activeId, setActiveId] = useState<string | null>(null)
+  const [activation, setActivation] = useState<Activation>('tanh')
+  const [learningRate, setLearningRate] = useState(0.03)
+  const [history, setHistory] = useState<TrainingStats[]>([])
+  const [isTraining, setIsTraining] = useState(false)
+  const [version, setVersion] = useState(0)
   const [score, setScore] = useState(0)
   const [lives, setLives] = useState(3)
   const [hints, setHints] = useState(3)
   const [feedback, setFeedback] = useState<string>('')
   const [gameWon, setGameWon] = useState(false)
-  const [combo, setCombo] = useState(0)
-  const [bestCombo, setBestCombo] = useState(0)
+  const networkRef = useRef<NeuralNetwork | null>(null)
 
   const { addXP } = useUserStore()
   const { updateTopicProgress } = useTutorialStore()
 
-  const handleDragStart = (event: any) => {
-    setActiveId(event.active.id)
+  const level = NETWORK_LEVELS[difficulty]
+  const levelNodes = useMemo(() => getLevelNodes(level), [level])
+  const data = useMemo(() => ({
+    train: generateDataset(level.dataset, TRAIN_POINTS, 1),
+    test: generateDataset(level.dataset, TEST_POINTS, 2),
+  }), [level])
+
+  const placedIds = [...inputLayer, ...hiddenLayers.flat()]
+  const availableNodes = levelNodes.filter(node => !placedIds.includes(node.id))
+  const latest = history[history.length - 1]
+
+  // The learner changed the network, so any trained weights no longer apply
+  const resetNetwork = () => {
+    networkRef.current = null
+    setHistory([])
+    setVersion(current => current + 1)
+  }
+
+  // Train a few epochs per animation frame until the target is reached or the epochs run out
+  useEffect(() => {
+    if (!isTraining) return
+    let frame = 0
+
+    const tick = () => {
+      const network = networkRef.current
+      if (!network) return
+
+      const stats: TrainingStats[] = []
+      while (stats.length < EPOCHS_PER_FRAME && network.epoch < level.maxEpochs) {
+        const epochStats = network.trainEpoch(data.train, data.test)
+        stats.push(epochStats)
+        if (epochStats.testAccuracy >= level.targetAccuracy) break
+      }
+      setHistory(previous => [...previous, ...stats])
+      setVersion(current => current + 1)
+
+      const last = stats[stats.length - 1]
+      if (last && last.testAccuracy >= level.targetAccuracy) {
+        setIsTraining(false)
+        const basePoints = difficulty === 'easy' ? 100 : difficulty === 'medium' ? 200 : 300
+        const speedBonus = Math.round(((level.maxEpochs - last.epoch) / level.maxEpochs) * 100)
+        setScore(current => current + basePoints + speedBonus)
+        addXP(basePoints)
+
+        const progressPercent = difficulty === 'easy' ? 33 : difficulty === 'medium' ? 66 : 100
+        updateTopicProgress('ai-ml', 'game', progressPercent)
+
+        confetti({
+          particleCount: 100,
+          spread: 70,
+          origin: { y: 0.6 }
+        })
+        soundManager.playWin()
+        setFeedback(`🎉 ${formatPercent(last.testAccuracy)} test accuracy after ${last.epoch} epochs!`)
+        setTimeout(() => setGameWon(true), 1500)
+
+        setTimeout(() => {
+          achievementManager.checkAll()
+        }, 1000)
+        return
+      }
+
+      if (network.epoch >= level.maxEpochs) {
+        setIsTraining(false)
+        setLives(current => current - 1)
+        soundManager.playError()
+        setFeedback(`❌ Only ${formatPercent(last?.testAccuracy ?? 0)} after ${level.maxEpochs} epochs (target ${formatPercent(level.targetAccuracy)}). Change the network and train again!`)
+        return
+      }
+
+      frame = requestAnimationFrame(tick)
+    }
+
+    frame = requestAnimationFrame(tick)
+    return () => cancelAnimationFrame(frame)
+  }, [isTraining, level, data, difficulty, addXP, updateTopicProgress])
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setActiveId(event.active.id as string)
   }
 
   const handleDragEnd = (event: DragEndEvent) => {
@@ -82,145 +343,83 @@ export default function NeuralNetworkGame() {
 
     if (!over) return
 
-    const nodeId = active.id as string
-    const node = NETWORK_NODES.find(n => n.id === nodeId)
+    const node = levelNodes.find(n => n.id === active.id)
     const zoneId = over.id as string
-
     if (!node) return
 
-    setAvailableNodes(availableNodes.filter(n => n.id !== nodeId))
-
-    if (zoneId.startsWith('input-')) {
-      const index = parseInt(zoneId.split('-')[2])
-      const newLayer = [...inputLayer]
-      newLayer[index] = nodeId
-      setInputLayer(newLayer)
-    } else if (zoneId.startsWith('hidden-')) {
+    if (zoneId === 'layer-input') {
+      if (node.layer !== 'input') {
+        soundManager.playError()
+        setFeedback('Neurons belong in a hidden layer. The input layer takes features!')
+        setTimeout(() => setFeedback(''), 2000)
+        return
+      }
+      setInputLayer([...inputLayer, node.id])
+    } else if (zoneId.startsWith('layer-hidden-')) {
+      if (node.layer !== 'hidden') {
+        soundManager.playError()
+        setFeedback('Features belong in the input layer. Hidden layers take neurons!')
+        setTimeout(() => setFeedback(''), 2000)
+        return
+      }
       const index = parseInt(zoneId.split('-')[2])
-      const newLayer = [...hiddenLayer]
-      newLayer[index] = nodeId
-      setHiddenLayer(newLayer)
-    } else if (zoneId.startsWith('output-')) {
-      const index = parseInt(zoneId.split('-')[2])
-      const newLayer = [...outputLayer]
-      newLayer[index] = nodeId
-      setOutputLayer(newLayer)
-    }
-
-    const correct = LEVEL_SOLUTIONS[difficulty]
-    const totalCorrect =
-      inputLayer.filter((n, i) => n && n === correct.input[i]).length +
-      hiddenLayer.filter((n, i) => n && n === correct.hidden[i]).length +
-      outputLayer.filter((n, i) => n && n === correct.output[i]).length
-
-    const totalPlaced =
-      inputLayer.filter(Boolean).length +
-      hiddenLayer.filter(Boolean).length +
-      outputLayer.filter(Boolean).length
-
-    if (totalCorrect === totalPlaced && totalPlaced > 0) {
-      const newCombo = combo + 1
-      setCombo(newCombo)
-      if (newCombo > bestCombo) setBestCombo(newCombo)
-
-      const comboBonus = newCombo * 10
-      setScore(score + comboBonus)
-
-      soundManager.playCombo(newCombo)
-      setFeedback(`🔥 Combo x${newCombo}! +${comboBonus} bonus points!`)
+      setHiddenLayers(hiddenLayers.map((layer, i) => i === index ? [...layer, node.id] : layer))
     } else {
-      setCombo(0)
-      soundManager.playSuccess()
-      setFeedback('Node placed! 👍')
+      return
     }
 
-    setTimeout(() => setFeedback(''), 2000)
+    soundManager.playSuccess()
+    resetNetwork()
   }
 
-  const removeNode = (layer: 'input' | 'hidden' | 'output', index: number) => {
-    let nodeId = ''
-    if (layer === 'input') {
-      nodeId = inputLayer[index]
-      const newLayer = [...inputLayer]
-      newLayer[index] = ''
-      setInputLayer(newLayer.filter(s => s))
-    } else if (layer === 'hidden') {
-      nodeId = hiddenLayer[index]
-      const newLayer = [...hiddenLayer]
-      newLayer[index] = ''
-      setHiddenLayer(newLayer.filter(s => s))
-    } else {
-      nodeId = outputLayer[index]
-      const newLayer = [...outputLayer]
-      newLayer[index] = ''
-      setOutputLayer(newLayer.filter(s => s))
-    }
+  const removeNode = (nodeId: string) => {
+    setInputLayer(inputLayer.filter(id => id !== nodeId))
+    setHiddenLayers(hiddenLayers.map(layer => layer.filter(id => id !== nodeId)))
+    resetNetwork()
+  }
 
-    const node = NETWORK_NODES.find(n => n.id === nodeId)
-    if (node) {
-      setAvailableNodes([...availableNodes, node])
+  const toggleTraining = () => {
+    if (isTraining) {
+      setIsTraining(false)
+      return
     }
-  }
 
-  const checkSolution = () => {
-    const correct = LEVEL_SOLUTIONS[difficulty]
-    const isCorrect =
-      inputLayer.length === correct.input.length &&
-      inputLayer.every((node, idx) => node === correct.input[idx]) &&
-      hiddenLayer.length === correct.hidden.length &&
-      hiddenLayer.every((node, idx) => node === correct.hidden[idx]) &&
-      outputLayer.length === correct.output.length &&
-      outputLayer.every((node, idx) => node === correct.output[idx])
-
-    if (isCorrect) {
-      setGameWon(true)
-      const points = difficulty === 'easy' ? 100 : difficulty === 'medium' ? 200 : 300
-      setScore(score + points)
-      addXP(points)
-
-      const progressPercent = difficulty === 'easy' ? 33 : difficulty === 'medium' ? 66 : 100
-      updateTopicProgress('ai-ml', 'game', progressPercent)
-
-      confetti({
-        particleCount: 100,
-        spread: 70,
-        origin: { y: 0.6 }
+    // Start a fresh run when there is no network yet or the last run used up its epochs
+    if (!networkRef.current || networkRef.current.epoch >= level.maxEpochs) {
+      networkRef.current = new NeuralNetwork({
+        features: inputLayer.map(id => id.replace('feature-', '') as FeatureId),
+        hiddenLayers: hiddenLayers.map(layer => layer.length),
+        activation,
+        learningRate,
       })
-      setFeedback('🎉 Perfect! Neural network complete!')
-      soundManager.playWin()
-
-      setTimeout(() => {
-        achievementManager.checkAll()
-      }, 1000)
-    } else {
-      setLives(lives - 1)
-      setFeedback('❌ Not quite right. Check the network structure!')
-      soundManager.playError()
-      setTimeout(() => setFeedback(''), 2000)
+      setHistory([])
     }
+    setFeedback('')
+    setIsTraining(true)
   }
 
   const useHint = () => {
     if (hints > 0) {
       setHints(hints - 1)
       soundManager.playHint()
-      setFeedback(`💡 Hint: Build a network with Input → Hidden → Output layers!`)
-      setTimeout(() => setFeedback(''), 5000)
+      setFeedback(`💡 Hint: ${level.hint}`)
+      setTimeout(() => setFeedback(''), 6000)
     }
   }
 
   const startGame = () => {
     setStarted(true)
     setInputLayer([])
-    setHiddenLayer([])
-    setOutputLayer([])
+    setHiddenLayers(Array.from({ length: level.hiddenLayers }, () => []))
+    setActivation('tanh')
+    setLearningRate(0.03)
     setLives(3)
     setHints(3)
     setScore(0)
+    setFeedback('')
     setGameWon(false)
-    setCombo(0)
-    setBestCombo(0)
-    setAvailableNodes(NETWORK_NODES)
+    setIsTraining(false)
+    resetNetwork()
   }
 
   if (!started) {
@@ -237,8 +436,8 @@ export default function NeuralNetworkGame() {
               Neural Network Builder
             </h2>
             <p className="text-xl text-white/80 mb-8 max-w-2xl mx-auto">
-              Build a neural network by connecting nodes in layers!
-              Arrange Input, Hidden, and Output nodes to create a working AI model.
+              Build a neural network from input features and hidden neurons, then train it for real!
+              Reach the target accuracy on unseen points to clear the level.
             </p>
 
             <div className="mb-8">
@@ -260,6 +459,9 @@ export default function NeuralNetworkGame() {
                   </motion.button>
                 ))}
               </div>
+              <p className="text-white/70 mt-4">
+                {DATASETS[level.dataset].name}: {DATASETS[level.dataset].description} Target: {formatPercent(level.targetAccuracy)}
+              </p>
             </div>
 
             <motion.button
@@ -288,6 +490,11 @@ export default function NeuralNetworkGame() {
           <h2 className="text-4xl font-bold text-white mb-4">
             Level Complete!
           </h2>
+          {latest && (
+            <p className="text-xl text-white/80 mb-2">
+              {formatPercent(latest.testAccuracy)} test accuracy on {DATASETS[level.dataset].name} in {latest.epoch} epochs
+            </p>
+          )}
           <p className="text-2xl text-christmas-gold mb-6">
             Score: {score} points
           </p>
@@ -327,7 +534,7 @@ export default function NeuralNetworkGame() {
             Game Over
           </h2>
           <p className="text-xl text-white/80 mb-6">
-            Don't give up! Try again and build that perfect network!
+            Don&apos;t give up! Try different features, more neurons or another learning rate.
           </p>
           <motion.button
             onClick={() => setStarted(false)}
@@ -342,7 +549,29 @@ export default function NeuralNetworkGame() {
     )
   }
 
-  const solution = LEVEL_SOLUTIONS[difficulty]
+  const nodeLabel = (id: string) => levelNodes.find(n => n.id === id)?.label ?? id
+  const diagramLayers = [
+    inputLayer.map(nodeLabel),
+    ...hiddenLayers.map(layer => layer.map((_, index) => `h${index + 1}`)),
+    ['out'],
+  ]
+
+  const renderPlacedNode = (nodeId: string) => {
+    const node = levelNodes.find(n => n.id === nodeId)
+    return (
+      <div key={nodeId} className={`${node?.color} rounded-lg px-3 py-2 flex items-center justify-between text-white text-sm font-bold`}>
+        <span>{node?.icon} {node?.label}</span>
+        <button
+          onClick={() => removeNode(nodeId)}
+          disabled={isTraining}
+          className="text-red-200 hover:text-red-100 font-bold disabled:opacity-50"
+          aria-label={`Remove ${node?.label}`}
+        >
+          ✕
+        </button>
+      </div>
+    )
+  }
 
   return (
     <DndContext onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
@@ -357,27 +586,17 @@ export default function NeuralNetworkGame() {
             onUseHint={useHint}
           />
 
-          {combo > 1 && (
-            <motion.div
-              className="glass-card p-4 text-center"
-              initial={{ scale: 0.8, opacity: 0 }}
-              animate={{ scale: 1, opacity: 1 }}
-              exit={{ scale: 0.8, opacity: 0 }}
-            >
-              <div className="text-3xl font-bold bg-gradient-to-r from-orange-400 to-red-500 bg-clip-text text-transparent">
-                🔥 COMBO x{combo}!
-              </div>
-              <div className="text-white/70 text-sm mt-1">
-                Best: {bestCombo}
-              </div>
-            </motion.div>
-          )}
+          <div className="glass-card p-4 text-center text-white/80">
+            <span className="font-bold text-white">{DATASETS[level.dataset].name}:</span>{' '}
+            {DATASETS[level.dataset].description} Reach {formatPercent(level.targetAccuracy)} accuracy on the test points
+            within {level.maxEpochs} epochs.
+          </div>
         </div>
 
         <AnimatePresence>
           {feedback && (
             <motion.div
-              className="glass-card p-4 mb-6 text-center"
+              className="glass-card p-4 my-6 text-center"
               initial={{ opacity: 0, y: -20 }}
               animate={{ opacity: 1, y: 0 }}
               exit={{ opacity: 0, y: -20 }}
@@ -387,15 +606,15 @@ export default function NeuralNetworkGame() {
           )}
         </AnimatePresence>
 
-        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6 mt-6">
           {/* Available Nodes */}
           <div className="glass-card p-6">
             <h3 className="text-xl font-bold text-white mb-4">Available Nodes</h3>
-            <div className="space-y-2">
+            <div className="grid grid-cols-2 gap-2">
               {availableNodes.map((node) => (
-                <DraggableItem key={node.id} id={node.id}>
-                  <div className={`${node.color} rounded-lg p-3 text-white text-center font-bold text-sm`}>
-                    <div className="text-xl mb-1">{node.icon}</div>
+                <DraggableItem key={node.id} id={node.id} disabled={isTraining}>
+                  <div className={`${node.color} rounded-lg p-2 text-white text-center font-bold text-sm`}>
+                    <div className="text-lg">{node.icon}</div>
                     <div className="text-xs">{node.label}</div>
                   </div>
                 </DraggableItem>
@@ -403,123 +622,90 @@ export default function NeuralNetworkGame() {
             </div>
           </div>
 
-          {/* Input Layer */}
-          <div className="glass-card p-6">
-            <h3 className="text-xl font-bold text-white mb-4">📥 Input Layer</h3>
-            <div className="space-y-3">
-              {Array.from({ length: solution.input.length }).map((_, index) => (
-                <DragDropZone key={index} id={`input-layer-${index}`} isEmpty={!inputLayer[index]}>
-                  {inputLayer[index] && (
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center space-x-2">
-                        <span className="text-xl">
-                          {NETWORK_NODES.find(n => n.id === inputLayer[index])?.icon}
-                        </span>
-                        <span className="text-white font-bold text-sm">
-                          {NETWORK_NODES.find(n => n.id === inputLayer[index])?.label}
-                        </span>
-                      </div>
-                      <button
-                        onClick={() => removeNode('input', index)}
-                        className="text-red-400 hover:text-red-300 font-bold"
-                      >
-                        ✕
-                      </button>
-                    </div>
-                  )}
-                </DragDropZone>
-              ))}
+          {/* Layers */}
+          <div className="glass-card p-6 space-y-4">
+            <div>
+              <h3 className="text-lg font-bold text-white mb-2">📥 Input Layer</h3>
+              <DragDropZone id="layer-input" isEmpty={inputLayer.length === 0}>
+                {inputLayer.length > 0 && <div className="space-y-2">{inputLayer.map(renderPlacedNode)}</div>}
+              </DragDropZone>
             </div>
-          </div>
-
-          {/* Hidden Layer */}
-          <div className="glass-card p-6">
-            <h3 className="text-xl font-bold text-white mb-4">🧠 Hidden Layer</h3>
-            <div className="space-y-3">
-              {Array.from({ length: solution.hidden.length }).map((_, index) => (
-                <DragDropZone key={index} id={`hidden-layer-${index}`} isEmpty={!hiddenLayer[index]}>
-                  {hiddenLayer[index] && (
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center space-x-2">
-                        <span className="text-xl">
-                          {NETWORK_NODES.find(n => n.id === hiddenLayer[index])?.icon}
-                        </span>
-                        <span className="text-white font-bold text-sm">
-                          {NETWORK_NODES.find(n => n.id === hiddenLayer[index])?.label}
-                        </span>
-                      </div>
-                      <button
-                        onClick={() => removeNode('hidden', index)}
-                        className="text-red-400 hover:text-red-300 font-bold"
-                      >
-                        ✕
-                      </button>
-                    </div>
-                  )}
+            {hiddenLayers.map((layer, index) => (
+              <div key={index}>
+                <h3 className="text-lg font-bold text-white mb-2">🧠 Hidden Layer {index + 1}</h3>
+                <DragDropZone id={`layer-hidden-${index}`} isEmpty={layer.length === 0}>
+                  {layer.length > 0 && <div className="space-y-2">{layer.map(renderPlacedNode)}</div>}
                 </DragDropZone>
-              ))}
-            </div>
+              </div>
+            ))}
+            <div className="text-white/70 text-sm">📤 Output: one sigmoid neuron (orange vs blue)</div>
           </div>
 
-          {/* Output Layer */}
-          <div className="glass-card p-6">
-            <h3 className="text-xl font-bold text-white mb-4">📤 Output Layer</h3>
-            <div className="space-y-3">
-              {Array.from({ length: solution.output.length }).map((_, index) => (
-                <DragDropZone key={index} id={`output-layer-${index}`} isEmpty={!outputLayer[index]}>
-                  {outputLayer[index] && (
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center space-x-2">
-                        <span className="text-xl">
-                          {NETWORK_NODES.find(n => n.id === outputLayer[index])?.icon}
-                        </span>
-                        <span className="text-white font-bold text-sm">
-                          {NETWORK_NODES.find(n => n.id === outputLayer[index])?.label}
-                        </span>
-                      </div>
-                      <button
-                        onClick={() => removeNode('output', index)}
-                        className="text-red-400 hover:text-red-300 font-bold"
-                      >
-                        ✕
-                      </button>
-                    </div>
-                  )}
-                </DragDropZone>
-              ))}
+          {/* Network and training controls */}
+          <div className="glass-card p-6 space-y-4">
+            <h3 className="text-xl font-bold text-white">Network</h3>
+            <NetworkDiagram layerLabels={diagramLayers} network={networkRef.current} />
+            <p className="text-white/60 text-xs">Blue edges are positive weights, orange negative; thicker means stronger.</p>
+
+            <div className="grid grid-cols-2 gap-2">
+              <label className="text-white/80 text-sm">
+                Activation
+                <select
+                  value={activation}
+                  onChange={(e) => { setActivation(e.target.value as Activation); resetNetwork() }}
+                  disabled={isTraining}
+                  className="w-full mt-1 bg-white/10 border border-white/20 rounded-lg px-2 py-1 text-white"
+                >
+                  <option value="tanh" className="bg-gray-800">tanh</option>
+                  <option value="relu" className="bg-gray-800">ReLU</option>
+                </select>
+              </label>
+              <label className="text-white/80 text-sm">
+                Learning rate
+                <select
+                  value={learningRate}
+                  onChange={(e) => { setLearningRate(Number(e.target.value)); resetNetwork() }}
+                  disabled={isTraining}
+                  className="w-full mt-1 bg-white/10 border border-white/20 rounded-lg px-2 py-1 text-white"
+                >
+                  {LEARNING_RATES.map(rate => (
+                    <option key={rate} value={rate} className="bg-gray-800">{rate}</option>
+                  ))}
+                </select>
+              </label>
             </div>
 
             <motion.button
-              onClick={checkSolution}
-              disabled={
-                inputLayer.length !== solution.input.length ||
-                hiddenLayer.length !== solution.hidden.length ||
-                outputLayer.length !== solution.output.length
-              }
-              className={`btn w-full mt-6 ${
-                inputLayer.length === solution.input.length &&
-                hiddenLayer.length === solution.hidden.length &&
-                outputLayer.length === solution.output.length
-                  ? 'btn-primary'
-                  : 'opacity-50 cursor-not-allowed bg-white/10'
-              }`}
-              whileHover={
-                inputLayer.length === solution.input.length &&
-                hiddenLayer.length === solution.hidden.length &&
-                outputLayer.length === solution.output.length
-                  ? { scale: 1.02 }
-                  : {}
-              }
-              whileTap={
-                inputLayer.length === solution.input.length &&
-                hiddenLayer.length === solution.hidden.length &&
-                outputLayer.length === solution.output.length
-                  ? { scale: 0.98 }
-                  : {}
-              }
+              onClick={toggleTraining}
+              disabled={inputLayer.length === 0}
+              className={`btn w-full ${inputLayer.length > 0 ? 'btn-primary' : 'opacity-50 cursor-not-allowed bg-white/10'}`}
+              whileHover={inputLayer.length > 0 ? { scale: 1.02 } : {}}
+              whileTap={inputLayer.length > 0 ? { scale: 0.98 } : {}}
             >
-              Check Network
+              {isTraining ? 'Pause Training' : history.length > 0 && latest.epoch < level.maxEpochs ? 'Resume Training' : 'Train Network'}
             </motion.button>
+            {inputLayer.length === 0 && (
+              <p className="text-white/60 text-xs text-center">Drop at least one feature into the input layer</p>
+            )}
+          </div>
+
+          {/* Results */}
+          <div className="glass-card p-6 space-y-4">
+            <h3 className="text-xl font-bold text-white">Decision Boundary</h3>
+            <DecisionBoundary network={networkRef.current} train={data.train} test={data.test} version={version} />
+            <LossChart history={history} />
+            <div className="grid grid-cols-2 gap-2 text-center">
+              <div className="bg-white/10 rounded-lg p-2">
+                <div className="text-white/60 text-xs">Train accuracy</div>
+                <div className="text-white font-bold">{latest ? formatPercent(latest.trainAccuracy) : '–'}</div>
+              </div>
+              <div className="bg-white/10 rounded-lg p-2">
+                <div className="text-white/60 text-xs">Test accuracy</div>
+                <div className={`font-bold ${latest && latest.testAccuracy >= level.targetAccuracy ? 'text-green-400' : 'text-white'}`}>
+                  {latest ? formatPercent(latest.testAccuracy) : '–'} / {formatPercent(level.targetAccuracy)}
+                </div>
+              </div>
+            </div>
           </div>
         </div>
 
@@ -527,9 +713,9 @@ export default function NeuralNetworkGame() {
           {activeId && (
             <div className="bg-christmas-gold rounded-lg p-3 text-gray-900 text-center font-bold opacity-90">
               <div className="text-xl mb-1">
-                {NETWORK_NODES.find(n => n.id === activeId)?.icon}
+                {levelNodes.find(n => n.id === activeId)?.icon}
               </div>
-              <div className="text-xs">{NETWORK_NODES.find(n => n.id === activeId)?.label}</div>
+              <div className="text-xs">{nodeLabel(activeId)}</div>
             </div>
           )}
         </DragOverlay>
@@ -1,37 +1,133 @@
 'use client'
 
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useMemo, type ReactNode } from 'react'
 import { motion } from 'framer-motion'
+import { DndContext, DragEndEvent, DragOverlay, PointerSensor, useDroppable, useSensor, useSensors } from '@dnd-kit/core'
+import { Cloud, CloudOff } from 'lucide-react'
 import SandboxContainer from '@/components/Sandbox/SandboxContainer'
+import DraggableItem from '@/components/Games/DraggableItem'
 import { useTutorialStore } from '@/stores/tutorialStore'
 import { useUserStore } from '@/stores/userStore'
 import { achievementManager } from '@/utils/achievementManager'
+import { getSession } from '@/utils/sessionManager'
+import { contentPlanDrafts } from '@/utils/storage'
+import { getContentPlan, saveContentPlan } from '@/lib/firebaseService'
+import {
+  CADENCE_COMPARISONS,
+  CONTENT_CHANNELS,
+  CONTENT_STATUSES,
+  addDays,
+  addMonths,
+  checkCadence,
+  createContentId,
+  createContentPlan,
+  describeRule,
+  formatDayLabel,
+  monthWeeks,
+  planToCSV,
+  planToICS,
+  sortBlocks,
+  todayKey,
+  weekDays,
+  type CadenceComparison,
+  type CadencePeriod,
+  type CadenceRule,
+  type ContentBlock,
+  type ContentChannel,
+  type ContentPlan,
+  type ContentStatus,
+} from '@/utils/contentCalendar'
 
-interface ContentBlock {
-  id: string
-  type: 'blog' | 'video' | 'social' | 'email'
-  title: string
-  date: string
-  status: 'planned' | 'in-progress' | 'completed'
+type CalendarView = 'month' | 'week'
+
+type BlockForm = Omit<ContentBlock, 'id'> & { id: string | null }
+
+// Delay before edits are written to the profile (local drafts are written immediately)
+const AUTOSAVE_DELAY_MS = 2000
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+const inputClassName = 'w-full bg-white/10 text-white border-2 border-white/20 rounded-lg p-2'
+
+const emptyForm = (date: string): BlockForm => ({
+  id: null, type: 'blog', title: '', date, time: '', status: 'planned', notes: '',
+})
+
+function downloadFile(content: string, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
 }
 
-const CONTENT_TYPES = [
-  { id: 'blog', label: 'Blog Post', icon: '📝', color: 'bg-blue-500' },
-  { id: 'video', label: 'Video', icon: '🎥', color: 'bg-purple-500' },
-  { id: 'social', label: 'Social Post', icon: '📱', color: 'bg-pink-500' },
-  { id: 'email', label: 'Email', icon: '📧', color: 'bg-green-500' },
-]
+interface CalendarDayProps {
+  day: string
+  isSelected: boolean
+  isMuted: boolean
+  isOffCadence: boolean
+  className?: string
+  onSelect: () => void
+  children: ReactNode
+}
+
+function CalendarDay({ day, isSelected, isMuted, isOffCadence, className = '', onSelect, children }: CalendarDayProps) {
+  const { isOver, setNodeRef } = useDroppable({ id: `day-${day}` })
+  const isToday = day === todayKey()
+
+  return (
+    <div
+      ref={setNodeRef}
+      onClick={onSelect}
+      className={`
+        rounded-lg border-2 p-1 cursor-pointer transition-colors
+        ${isOver ? 'border-christmas-gold bg-christmas-gold/20' : isSelected ? 'border-blue-400 bg-white/10' : 'border-white/10 bg-white/5 hover:bg-white/10'}
+        ${isOffCadence && !isOver ? 'bg-red-500/10' : ''}
+        ${isMuted ? 'opacity-40' : ''}
+        ${className}
+      `}
+    >
+      <div className={`text-xs font-semibold mb-1 ${isToday ? 'text-christmas-gold' : 'text-white/70'}`}>
+        {Number(day.slice(8))}
+      </div>
+      <div className="space-y-1">{children}</div>
+    </div>
+  )
+}
 
 export default function ContentPlannerSandbox() {
-  const [contentPlan, setContentPlan] = useState<ContentBlock[]>([])
-  const [newTitle, setNewTitle] = useState('')
-  const [selectedType, setSelectedType] = useState<'blog' | 'video' | 'social' | 'email'>('blog')
-  const [selectedDate, setSelectedDate] = useState('')
+  const [plan, setPlan] = useState<ContentPlan>(createContentPlan)
+  const [view, setView] = useState<CalendarView>('month')
+  const [cursor, setCursor] = useState(todayKey)
+  const [form, setForm] = useState<BlockForm>(() => emptyForm(todayKey()))
+  const [newRule, setNewRule] = useState<Omit<CadenceRule, 'id'>>({ channel: 'social', comparison: 'at-least', count: 3, period: 'week' })
+  const [activeDragId, setActiveDragId] = useState<string | null>(null)
+  const [isRestoring, setIsRestoring] = useState(true)
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'local'>('idle')
   const [timeSpent, setTimeSpent] = useState(0)
   const startTimeRef = useRef<number>(Date.now())
 
   const { updateTopicProgress } = useTutorialStore()
   const { addXP } = useUserStore()
+  const userCode = typeof window !== 'undefined' ? getSession() : null
+
+  // A small drag distance keeps clicks on a piece of content for editing
+  const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 5 } }))
+
+  const weeks = useMemo(() => view === 'month' ? monthWeeks(cursor) : [weekDays(cursor)], [view, cursor])
+  const visibleDays = useMemo(() => weeks.flat(), [weeks])
+  const violations = useMemo(() => checkCadence(plan, visibleDays), [plan, visibleDays])
+  const offCadenceDays = useMemo(() => new Set(
+    violations
+      .filter(violation => violation.rule.period === 'week')
+      .flatMap(violation => weekDays(violation.periodStart))
+  ), [violations])
+  const blocksByDay = useMemo(() => {
+    const byDay = new Map<string, ContentBlock[]>()
+    sortBlocks(plan.blocks).forEach(block => byDay.set(block.date, [...(byDay.get(block.date) ?? []), block]))
+    return byDay
+  }, [plan.blocks])
 
   useEffect(() => {
     const interval = setInterval(() => {
@@ -43,51 +139,172 @@ export default function ContentPlannerSandbox() {
     return () => clearInterval(interval)
   }, [addXP])
 
+  // Planning content earns most of the progress; the rest comes from a plan that keeps its cadence
+  const blockCount = plan.blocks.length
+  const keepsCadence = plan.rules.length > 0 && violations.length === 0
   useEffect(() => {
-    if (contentPlan.length > 0) {
-      const progressPercent = Math.min(100, contentPlan.length * 20)
+    if (blockCount > 0) {
+      const progressPercent = Math.min(80, blockCount * 10) + (keepsCadence ? 20 : 0)
       updateTopicProgress('content-creation', 'sandbox', progressPercent)
     }
-  }, [contentPlan.length, updateTopicProgress])
+  }, [blockCount, keepsCadence, updateTopicProgress])
+
+  // Restore the most recent save: the profile copy, or the local draft if it is newer
+  useEffect(() => {
+    let cancelled = false
+
+    const restore = async () => {
+      const draft = contentPlanDrafts.get(userCode)
+      let remote = null
+      if (userCode) {
+        try {
+          remote = await getContentPlan(userCode)
+        } catch (error) {
+          console.error('Error loading content plan:', error)
+        }
+      }
+      if (cancelled) return
 
-  const addContent = () => {
-    if (!newTitle || !selectedDate) return
+      const remoteSavedAt = remote?.lastSaved?.toMillis() ?? 0
+      const saved = draft && draft.savedAt > remoteSavedAt ? draft : remote
+      if (saved) {
+        setPlan({ blocks: saved.blocks ?? [], rules: saved.rules ?? [] })
+        setSaveStatus(saved === remote ? 'saved' : 'local')
+      }
+      setIsRestoring(false)
+    }
+
+    restore()
+    return () => {
+      cancelled = true
+    }
+  }, [userCode])
+
+  // Autosave: local draft on every change, profile after a short pause
+  useEffect(() => {
+    if (isRestoring) return
 
-    const newBlock: ContentBlock = {
-      id: `content-${Date.now()}`,
-      type: selectedType,
-      title: newTitle,
-      date: selectedDate,
-      status: 'planned'
+    contentPlanDrafts.set(userCode, plan)
+    if (!userCode) {
+      setSaveStatus('local')
+      return
     }
 
-    setContentPlan([...contentPlan, newBlock].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime()))
-    setNewTitle('')
+    setSaveStatus('saving')
+    const timer = setTimeout(async () => {
+      try {
+        await saveContentPlan(userCode, plan)
+        setSaveStatus('saved')
+      } catch (error) {
+        console.error('Error autosaving content plan:', error)
+        setSaveStatus('local')
+      }
+    }, AUTOSAVE_DELAY_MS)
+
+    return () => clearTimeout(timer)
+  }, [plan, isRestoring, userCode])
+
+  const submitForm = () => {
+    if (!form.title.trim() || !form.date) return
+
+    const block: ContentBlock = { ...form, id: form.id ?? createContentId(), title: form.title.trim() }
+    setPlan({
+      ...plan,
+      blocks: form.id ? plan.blocks.map(item => item.id === form.id ? block : item) : [...plan.blocks, block],
+    })
+    setForm(emptyForm(form.date))
+  }
+
+  const editBlock = (block: ContentBlock) => {
+    setForm({ ...block })
+  }
+
+  const deleteBlock = (id: string) => {
+    setPlan({ ...plan, blocks: plan.blocks.filter(block => block.id !== id) })
+    if (form.id === id) setForm(emptyForm(form.date))
+  }
+
+  const updateStatus = (id: string, status: ContentStatus) => {
+    setPlan({ ...plan, blocks: plan.blocks.map(block => block.id === id ? { ...block, status } : block) })
+    if (form.id === id) setForm({ ...form, status })
   }
 
-  const updateStatus = (id: string, status: 'planned' | 'in-progress' | 'completed') => {
-    setContentPlan(contentPlan.map(block => block.id === id ? { ...block, status } : block))
+  const selectDay = (day: string) => {
+    setForm(form.id ? emptyForm(day) : { ...form, date: day })
+  }
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    setActiveDragId(null)
+    const overId = event.over?.id
+    if (typeof overId !== 'string' || !overId.startsWith('day-')) return
+
+    const date = overId.slice('day-'.length)
+    const id = String(event.active.id)
+    setPlan({ ...plan, blocks: plan.blocks.map(block => block.id === id ? { ...block, date } : block) })
+    if (form.id === id) setForm({ ...form, date })
   }
 
-  const deleteContent = (id: string) => {
-    setContentPlan(contentPlan.filter(block => block.id !== id))
+  const addRule = () => {
+    if (newRule.count < 0) return
+    setPlan({ ...plan, rules: [...plan.rules, { ...newRule, id: createContentId('rule') }] })
+  }
+
+  const removeRule = (id: string) => {
+    setPlan({ ...plan, rules: plan.rules.filter(rule => rule.id !== id) })
+  }
+
+  const moveCursor = (direction: number) => {
+    setCursor(view === 'month' ? addMonths(cursor, direction) : addDays(cursor, direction * 7))
   }
 
   const resetPlan = () => {
-    setContentPlan([])
-    setNewTitle('')
-    setSelectedDate('')
+    setPlan(createContentPlan())
+    setForm(emptyForm(todayKey()))
+    setCursor(todayKey())
   }
 
   const stats = {
-    total: contentPlan.length,
-    planned: contentPlan.filter(b => b.status === 'planned').length,
-    inProgress: contentPlan.filter(b => b.status === 'in-progress').length,
-    completed: contentPlan.filter(b => b.status === 'completed').length,
+    total: plan.blocks.length,
+    planned: plan.blocks.filter(b => b.status === 'planned').length,
+    inProgress: plan.blocks.filter(b => b.status === 'in-progress').length,
+    completed: plan.blocks.filter(b => b.status === 'completed').length,
   }
 
+  const calendarLabel = view === 'month'
+    ? formatDayLabel(cursor, { month: 'long', year: 'numeric' })
+    : `Week of ${formatDayLabel(weeks[0][0], { day: 'numeric', month: 'short', year: 'numeric' })}`
+  const activeBlock = plan.blocks.find(block => block.id === activeDragId)
+
+  const renderChip = (block: ContentBlock, detailed: boolean) => (
+    <DraggableItem key={block.id} id={block.id}>
+      <div
+        onClick={(e) => { e.stopPropagation(); editBlock(block) }}
+        className={`rounded px-1 py-0.5 text-xs text-white border-l-4 ${CONTENT_CHANNELS[block.type].border} ${form.id === block.id ? 'bg-blue-500/50' : 'bg-black/30'} ${block.status === 'completed' ? 'line-through opacity-70' : ''}`}
+        title={`${CONTENT_CHANNELS[block.type].label}: ${block.title} (${CONTENT_STATUSES[block.status].label})`}
+      >
+        <div className="truncate">
+          {CONTENT_CHANNELS[block.type].icon} {block.time && <span className="text-white/60">{block.time} </span>}{block.title}
+        </div>
+        {detailed && (
+          <div className="flex gap-1 mt-1">
+            {(Object.keys(CONTENT_STATUSES) as ContentStatus[]).map(status => (
+              <button
+                key={status}
+                onClick={(e) => { e.stopPropagation(); updateStatus(block.id, status) }}
+                onPointerDown={(e) => e.stopPropagation()}
+                className={`flex-1 rounded text-[10px] ${block.status === status ? `${CONTENT_STATUSES[status].color} text-white` : 'bg-white/10 text-white/60'}`}
+              >
+                {CONTENT_STATUSES[status].label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </DraggableItem>
+  )
+
   return (
-    <SandboxContainer title="Content Planner" icon="✍️" onRun={() => {}} onReset={resetPlan} isRunning={false}>
+    <SandboxContainer title="Content Planner" icon="✍️" onReset={resetPlan}>
       <div className="glass-card p-4 mb-6 text-center">
         <div className="text-white/70 text-sm mb-1">Time Planning</div>
         <div className="text-2xl font-bold text-christmas-gold">
@@ -96,60 +313,169 @@ export default function ContentPlannerSandbox() {
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-        <div className="glass-card p-6">
-          <h3 className="text-xl font-bold text-white mb-4">📅 Add Content</h3>
+        <div className="space-y-6">
+          <div className="glass-card p-6">
+            <h3 className="text-xl font-bold text-white mb-4">📅 {form.id ? 'Edit Content' : 'Add Content'}</h3>
+
+            <div className="space-y-4">
+              <div>
+                <label className="text-white text-sm mb-2 block">Content Type:</label>
+                <div className="grid grid-cols-2 gap-2">
+                  {(Object.keys(CONTENT_CHANNELS) as ContentChannel[]).map(type => (
+                    <button
+                      key={type}
+                      onClick={() => setForm({ ...form, type })}
+                      className={`p-3 rounded-lg ${form.type === type ? CONTENT_CHANNELS[type].color : 'bg-white/10'} text-white text-sm`}
+                    >
+                      {CONTENT_CHANNELS[type].icon} {CONTENT_CHANNELS[type].label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="text-white text-sm mb-2 block">Title:</label>
+                <input
+                  type="text"
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                  onKeyDown={(e) => e.key === 'Enter' && submitForm()}
+                  placeholder="Content title..."
+                  className={inputClassName}
+                />
+              </div>
 
-          <div className="space-y-4">
-            <div>
-              <label className="text-white text-sm mb-2 block">Content Type:</label>
               <div className="grid grid-cols-2 gap-2">
-                {CONTENT_TYPES.map(type => (
-                  <button
-                    key={type.id}
-                    onClick={() => setSelectedType(type.id as any)}
-                    className={`p-3 rounded-lg ${selectedType === type.id ? type.color : 'bg-white/10'} text-white text-sm`}
-                  >
-                    {type.icon} {type.label}
-                  </button>
-                ))}
+                <div>
+                  <label className="text-white text-sm mb-2 block">Publish Date:</label>
+                  <input
+                    type="date"
+                    value={form.date}
+                    onChange={(e) => setForm({ ...form, date: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="text-white text-sm mb-2 block">Time (optional):</label>
+                  <input
+                    type="time"
+                    value={form.time}
+                    onChange={(e) => setForm({ ...form, time: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="text-white text-sm mb-2 block">Notes:</label>
+                <textarea
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  rows={2}
+                  placeholder="Angle, keywords, call to action..."
+                  className={inputClassName}
+                />
               </div>
+
+              {form.id && (
+                <div className="flex gap-2">
+                  {(Object.keys(CONTENT_STATUSES) as ContentStatus[]).map(status => (
+                    <button
+                      key={status}
+                      onClick={() => setForm({ ...form, status })}
+                      className={`flex-1 px-3 py-1 rounded text-sm ${form.status === status ? `${CONTENT_STATUSES[status].color} text-white` : 'bg-white/10 text-white/60'}`}
+                    >
+                      {CONTENT_STATUSES[status].label}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              <motion.button
+                onClick={submitForm}
+                disabled={!form.title.trim() || !form.date}
+                className={`btn w-full ${form.title.trim() && form.date ? 'btn-primary' : 'opacity-50 cursor-not-allowed bg-white/10'}`}
+                whileHover={form.title.trim() && form.date ? { scale: 1.02 } : {}}
+                whileTap={form.title.trim() && form.date ? { scale: 0.98 } : {}}
+              >
+                {form.id ? 'Save Changes' : 'Add to Calendar'}
+              </motion.button>
+              {form.id && (
+                <div className="flex gap-2">
+                  <button onClick={() => setForm(emptyForm(form.date))} className="btn btn-secondary flex-1">Cancel</button>
+                  <button onClick={() => deleteBlock(form.id!)} className="btn flex-1 bg-red-500/80 text-white">🗑️ Delete</button>
+                </div>
+              )}
             </div>
+          </div>
 
-            <div>
-              <label className="text-white text-sm mb-2 block">Title:</label>
-              <input
-                type="text"
-                value={newTitle}
-                onChange={(e) => setNewTitle(e.target.value)}
-                placeholder="Content title..."
-                className="w-full bg-white/10 text-white border-2 border-white/20 rounded-lg p-2"
-              />
+          <div className="glass-card p-6">
+            <h3 className="text-xl font-bold text-white mb-4">🔁 Cadence Rules</h3>
+            <div className="space-y-2 mb-4">
+              {plan.rules.length === 0 && <p className="text-white/50 text-sm">No rules yet. Add how often each channel should publish.</p>}
+              {plan.rules.map(rule => (
+                <div key={rule.id} className="flex items-center justify-between bg-white/5 rounded-lg px-3 py-2 text-sm text-white">
+                  <span>{CONTENT_CHANNELS[rule.channel].icon} {describeRule(rule)}</span>
+                  <button onClick={() => removeRule(rule.id)} className="text-red-400 hover:text-red-300">✕</button>
+                </div>
+              ))}
             </div>
 
-            <div>
-              <label className="text-white text-sm mb-2 block">Publish Date:</label>
+            <div className="grid grid-cols-2 gap-2 mb-2">
+              <select
+                value={newRule.comparison}
+                onChange={(e) => setNewRule({ ...newRule, comparison: e.target.value as CadenceComparison })}
+                className={inputClassName}
+              >
+                {(Object.keys(CADENCE_COMPARISONS) as CadenceComparison[]).map(comparison => (
+                  <option key={comparison} value={comparison} className="bg-gray-800">{CADENCE_COMPARISONS[comparison]}</option>
+                ))}
+              </select>
               <input
-                type="date"
-                value={selectedDate}
-                onChange={(e) => setSelectedDate(e.target.value)}
-                className="w-full bg-white/10 text-white border-2 border-white/20 rounded-lg p-2"
+                type="number"
+                min={0}
+                max={31}
+                value={newRule.count}
+                onChange={(e) => setNewRule({ ...newRule, count: Math.max(0, Number(e.target.value) || 0) })}
+                className={inputClassName}
               />
+              <select
+                value={newRule.channel}
+                onChange={(e) => setNewRule({ ...newRule, channel: e.target.value as ContentChannel })}
+                className={inputClassName}
+              >
+                {(Object.keys(CONTENT_CHANNELS) as ContentChannel[]).map(channel => (
+                  <option key={channel} value={channel} className="bg-gray-800">{CONTENT_CHANNELS[channel].plural}</option>
+                ))}
+              </select>
+              <select
+                value={newRule.period}
+                onChange={(e) => setNewRule({ ...newRule, period: e.target.value as CadencePeriod })}
+                className={inputClassName}
+              >
+                <option value="week" className="bg-gray-800">per week</option>
+                <option value="month" className="bg-gray-800">per month</option>
+              </select>
             </div>
+            <button onClick={addRule} className="btn btn-secondary w-full">➕ Add Rule</button>
 
-            <motion.button
-              onClick={addContent}
-              disabled={!newTitle || !selectedDate}
-              className={`btn w-full ${newTitle && selectedDate ? 'btn-primary' : 'opacity-50 cursor-not-allowed bg-white/10'}`}
-              whileHover={newTitle && selectedDate ? { scale: 1.02 } : {}}
-              whileTap={newTitle && selectedDate ? { scale: 0.98 } : {}}
-            >
-              Add to Calendar
-            </motion.button>
+            {violations.length > 0 ? (
+              <div className="mt-4 p-4 bg-red-500/10 border-l-4 border-red-500 rounded space-y-1">
+                <p className="text-red-300 font-semibold text-sm">⚠️ This {view} breaks {violations.length === 1 ? 'a rule' : `${violations.length} rules`}:</p>
+                {violations.map(violation => (
+                  <p key={`${violation.rule.id}-${violation.periodStart}`} className="text-white/80 text-xs">{violation.message}</p>
+                ))}
+              </div>
+            ) : plan.rules.length > 0 && (
+              <div className="mt-4 p-4 bg-green-500/10 border-l-4 border-green-500 rounded">
+                <p className="text-green-300 text-sm">✅ Every rule is met for this {view}.</p>
+              </div>
+            )}
           </div>
 
-          <div className="mt-6 p-4 bg-blue-500/10 border-l-4 border-blue-500 rounded">
+          <div className="p-4 bg-blue-500/10 border-l-4 border-blue-500 rounded">
             <p className="text-white/80 text-sm">
-              💡 <strong>Tip:</strong> Plan content 2-4 weeks ahead for best results!
+              💡 <strong>Tip:</strong> Plan content 2-4 weeks ahead and keep a steady cadence, so your audience knows when to expect you!
             </p>
           </div>
         </div>
@@ -176,67 +502,85 @@ export default function ContentPlannerSandbox() {
             </div>
           </div>
 
-          <div className="space-y-3 max-h-96 overflow-y-auto">
-            {contentPlan.length === 0 ? (
-              <div className="text-center py-12 text-white/50">
-                <div className="text-6xl mb-4">📅</div>
-                <p>No content planned yet. Add your first piece!</p>
-              </div>
-            ) : (
-              contentPlan.map((block, index) => (
-                <motion.div
-                  key={block.id}
-                  className="bg-white/5 border-2 border-white/20 rounded-lg p-4"
-                  initial={{ opacity: 0, y: 10 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: index * 0.05 }}
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <div className="flex items-center gap-2">
+              <button onClick={() => moveCursor(-1)} className="px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-white" aria-label={`Previous ${view}`}>◀</button>
+              <button onClick={() => setCursor(todayKey())} className="px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-white text-sm">Today</button>
+              <button onClick={() => moveCursor(1)} className="px-3 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-white" aria-label={`Next ${view}`}>▶</button>
+              <span className="text-white font-semibold ml-2">{calendarLabel}</span>
+            </div>
+            <div className="flex items-center gap-2">
+              {(['month', 'week'] as CalendarView[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={`px-3 py-1 rounded-lg text-sm text-white capitalize ${view === option ? 'bg-blue-500' : 'bg-white/10 hover:bg-white/20'}`}
                 >
-                  <div className="flex items-start justify-between mb-3">
-                    <div className="flex items-center space-x-3">
-                      <span className="text-2xl">
-                        {CONTENT_TYPES.find(t => t.id === block.type)?.icon}
-                      </span>
-                      <div>
-                        <div className="text-white font-semibold">{block.title}</div>
-                        <div className="text-white/60 text-sm">{new Date(block.date).toLocaleDateString()}</div>
-                      </div>
-                    </div>
-                    <button
-                      onClick={() => deleteContent(block.id)}
-                      className="text-red-400 hover:text-red-300"
-                    >
-                      🗑️
-                    </button>
-                  </div>
+                  {option}
+                </button>
+              ))}
+            </div>
+          </div>
 
-                  <div className="flex gap-2">
-                    <button
-                      onClick={() => updateStatus(block.id, 'planned')}
-                      className={`flex-1 px-3 py-1 rounded text-sm ${
-                        block.status === 'planned' ? 'bg-yellow-500 text-white' : 'bg-white/10 text-white/60'
-                      }`}
-                    >
-                      Planned
-                    </button>
-                    <button
-                      onClick={() => updateStatus(block.id, 'in-progress')}
-                      className={`flex-1 px-3 py-1 rounded text-sm ${
-                        block.status === 'in-progress' ? 'bg-purple-500 text-white' : 'bg-white/10 text-white/60'
-                      }`}
-                    >
-                      In Progress
-                    </button>
-                    <button
-                      onClick={() => updateStatus(block.id, 'completed')}
-                      className={`flex-1 px-3 py-1 rounded text-sm ${
-                        block.status === 'completed' ? 'bg-green-500 text-white' : 'bg-white/10 text-white/60'
-                      }`}
+          <DndContext sensors={sensors} onDragStart={(event) => setActiveDragId(String(event.active.id))} onDragEnd={handleDragEnd} onDragCancel={() => setActiveDragId(null)}>
+            <div className="grid grid-cols-7 gap-1 mb-1">
+              {WEEKDAY_LABELS.map(label => (
+                <div key={label} className="text-center text-white/60 text-xs font-semibold">{label}</div>
+              ))}
+            </div>
+            <div className="space-y-1">
+              {weeks.map(week => (
+                <div key={week[0]} className="grid grid-cols-7 gap-1">
+                  {week.map(day => (
+                    <CalendarDay
+                      key={day}
+                      day={day}
+                      isSelected={form.date === day}
+                      isMuted={view === 'month' && day.slice(0, 7) !== cursor.slice(0, 7)}
+                      isOffCadence={offCadenceDays.has(day)}
+                      className={view === 'month' ? 'min-h-[90px]' : 'min-h-[320px]'}
+                      onSelect={() => selectDay(day)}
                     >
-                      Done
-                    </button>
-                  </div>
-                </motion.div>
-              ))
+                      {(blocksByDay.get(day) ?? []).map(block => renderChip(block, view === 'week'))}
+                    </CalendarDay>
+                  ))}
+                </div>
+              ))}
+            </div>
+            <DragOverlay>
+              {activeBlock && (
+                <div className="rounded px-2 py-1 text-xs text-white bg-blue-500 shadow-lg">
+                  {CONTENT_CHANNELS[activeBlock.type].icon} {activeBlock.title}
+                </div>
+              )}
+            </DragOverlay>
+          </DndContext>
+
+          <p className="text-white/50 text-xs mt-2">
+            Drag content to another day to reschedule it. Click a piece to edit it, or a day to plan something new.
+            {offCadenceDays.size > 0 && ' Days tinted red are in a week that breaks a cadence rule.'}
+          </p>
+
+          <div className="flex flex-wrap items-center gap-3 mt-6">
+            <button
+              onClick={() => downloadFile(planToICS(plan.blocks), 'content-plan.ics', 'text/calendar')}
+              disabled={plan.blocks.length === 0}
+              className="btn btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              📆 Export .ics
+            </button>
+            <button
+              onClick={() => downloadFile(planToCSV(plan.blocks), 'content-plan.csv', 'text/csv')}
+              disabled={plan.blocks.length === 0}
+              className="btn btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              📄 Export CSV
+            </button>
+            {saveStatus !== 'idle' && (
+              <span className="flex items-center gap-1 text-xs text-white/60" aria-live="polite">
+                {saveStatus === 'local' ? <CloudOff className="w-4 h-4" /> : <Cloud className="w-4 h-4" />}
+                {saveStatus === 'saving' ? 'Saving...' : saveStatus === 'saved' ? 'Saved to your profile' : 'Saved on this device'}
+              </span>
             )}
           </div>
         </div>
@@ -1,37 +1,127 @@
 'use client'
 
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useMemo } from 'react'
 import { motion } from 'framer-motion'
 import SandboxContainer from '@/components/Sandbox/SandboxContainer'
+import DataChart from '@/components/Sandbox/DataChart'
 import { useTutorialStore } from '@/stores/tutorialStore'
 import { useUserStore } from '@/stores/userStore'
 import { achievementManager } from '@/utils/achievementManager'
+import { dataLabAnalyses } from '@/utils/storage'
+import { getSession } from '@/utils/sessionManager'
+import {
+  DataLabError,
+  createTable,
+  parseCSVTable,
+  parseJSONTable,
+  parseSavedAnalysis,
+  runSteps,
+  toPandasScript,
+  toSQLQuery,
+  type AggregateFunction,
+  type CellValue,
+  type ChartKind,
+  type ChartSettings,
+  type DataTable,
+  type FilterOperator,
+  type SavedAnalysis,
+  type Step,
+  type StepKind,
+} from '@/utils/dataLab'
 
-interface DataRow {
-  id: number
-  name: string
-  age: number
-  score: number
-}
+const SAMPLE_TABLES: DataTable[] = [
+  createTable('students', ['id', 'name', 'age', 'score', 'city'], [
+    { id: 1, name: 'Alice', age: 25, score: 92, city: 'Oslo' },
+    { id: 2, name: 'Bob', age: 30, score: 85, city: 'Lima' },
+    { id: 3, name: 'Charlie', age: 22, score: 78, city: 'Oslo' },
+    { id: 4, name: 'Diana', age: 28, score: 95, city: 'Pune' },
+    { id: 5, name: 'Eve', age: 35, score: 88, city: 'Lima' },
+    { id: 6, name: 'Frank', age: 24, score: 72, city: 'Pune' },
+  ]),
+  createTable('enrolments', ['student_id', 'course', 'grade'], [
+    { student_id: 1, course: 'Math', grade: 94 },
+    { student_id: 1, course: 'Art', grade: 81 },
+    { student_id: 2, course: 'Math', grade: 77 },
+    { student_id: 3, course: 'Art', grade: 90 },
+    { student_id: 4, course: 'Math', grade: 99 },
+    { student_id: 4, course: 'Science', grade: 93 },
+    { student_id: 5, course: 'Science', grade: 84 },
+  ]),
+]
 
-const SAMPLE_DATA: DataRow[] = [
-  { id: 1, name: 'Alice', age: 25, score: 92 },
-  { id: 2, name: 'Bob', age: 30, score: 85 },
-  { id: 3, name: 'Charlie', age: 22, score: 78 },
-  { id: 4, name: 'Diana', age: 28, score: 95 },
-  { id: 5, name: 'Eve', age: 35, score: 88 },
-  { id: 6, name: 'Frank', age: 24, score: 72 },
+const STEP_KINDS: { kind: StepKind; label: string; icon: string }[] = [
+  { kind: 'filter', label: 'Filter', icon: '🔍' },
+  { kind: 'sort', label: 'Sort', icon: '↕️' },
+  { kind: 'groupBy', label: 'Group By', icon: '🗂️' },
+  { kind: 'join', label: 'Join', icon: '🔗' },
+  { kind: 'pivot', label: 'Pivot', icon: '🔄' },
 ]
 
-type Operation = 'none' | 'filter' | 'sort' | 'aggregate'
+const OPERATORS: FilterOperator[] = ['==', '!=', '>', '>=', '<', '<=', 'contains']
+const AGGREGATES: AggregateFunction[] = ['count', 'sum', 'mean', 'min', 'max']
+const CHART_KINDS: ChartKind[] = ['bar', 'line', 'scatter', 'histogram']
+const MAX_PREVIEW_ROWS = 100
+
+const inputClassName = 'w-full bg-white/10 text-white border-2 border-white/20 rounded-lg p-2'
+
+function describeStep(step: Step): string {
+  switch (step.kind) {
+    case 'filter':
+      return `Filter ${step.column} ${step.operator} ${step.value}`
+    case 'sort':
+      return `Sort by ${step.column} ${step.ascending ? '↑' : '↓'}`
+    case 'groupBy':
+      return `Group by ${step.by}: ${step.aggregate} of ${step.column}`
+    case 'join':
+      return `${step.how === 'left' ? 'Left join' : 'Join'} ${step.table} on ${step.leftOn} = ${step.rightOn}`
+    case 'pivot':
+      return `Pivot ${step.columns} by ${step.index}: ${step.aggregate} of ${step.values}`
+  }
+}
+
+function formatCell(value: CellValue): string {
+  if (value === null) return '∅'
+  return String(value)
+}
+
+/**
+ * A new step of the given kind with sensible defaults for the current columns
+ */
+function defaultStep(kind: StepKind, table: DataTable, tables: DataTable[]): Step {
+  const first = table.columns[0]?.name ?? ''
+  const numeric = table.columns.find(column => column.type === 'number')?.name ?? first
+  const text = table.columns.find(column => column.type === 'string')?.name ?? first
+  switch (kind) {
+    case 'filter':
+      return { kind, column: numeric, operator: '>=', value: '' }
+    case 'sort':
+      return { kind, column: numeric, ascending: false }
+    case 'groupBy':
+      return { kind, by: text, column: numeric, aggregate: 'mean' }
+    case 'join': {
+      const other = tables.find(candidate => candidate.name !== table.name) ?? tables[0]
+      return { kind, table: other.name, leftOn: first, rightOn: other.columns[0]?.name ?? '', how: 'inner' }
+    }
+    case 'pivot':
+      return { kind, index: text, columns: table.columns[1]?.name ?? first, values: numeric, aggregate: 'sum' }
+  }
+}
 
 export default function DataLabSandbox() {
-  const [data, setData] = useState<DataRow[]>(SAMPLE_DATA)
-  const [operation, setOperation] = useState<Operation>('none')
-  const [filterValue, setFilterValue] = useState(80)
-  const [sortBy, setSortBy] = useState<'age' | 'score'>('score')
+  const [tables, setTables] = useState<DataTable[]>(SAMPLE_TABLES)
+  const [baseTable, setBaseTable] = useState(SAMPLE_TABLES[0].name)
+  const [steps, setSteps] = useState<Step[]>([])
+  const [draft, setDraft] = useState<Step>(() => defaultStep('filter', SAMPLE_TABLES[0], SAMPLE_TABLES))
+  const [viewIndex, setViewIndex] = useState<number | null>(null)
+  const [codeTab, setCodeTab] = useState<'pandas' | 'sql'>('pandas')
+  const [chart, setChart] = useState<ChartSettings | null>(null)
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null)
+  const [analysisName, setAnalysisName] = useState('My analysis')
+  const [savedAnalyses, setSavedAnalyses] = useState<SavedAnalysis[]>([])
   const [timeSpent, setTimeSpent] = useState(0)
   const startTimeRef = useRef<number>(Date.now())
+  const dataInputRef = useRef<HTMLInputElement>(null)
+  const analysisInputRef = useRef<HTMLInputElement>(null)
 
   const { updateTopicProgress } = useTutorialStore()
   const { addXP } = useUserStore()
@@ -53,47 +143,131 @@ export default function DataLabSandbox() {
     return () => clearInterval(interval)
   }, [addXP])
 
-  const applyOperation = () => {
-    let result = [...SAMPLE_DATA]
-
-    switch (operation) {
-      case 'filter':
-        result = result.filter(row => row.score >= filterValue)
-        updateTopicProgress('data-science', 'sandbox', 25)
-        break
-      case 'sort':
-        result = result.sort((a, b) => b[sortBy] - a[sortBy])
-        updateTopicProgress('data-science', 'sandbox', 50)
-        break
-      case 'aggregate':
-        // Show aggregate stats instead
-        updateTopicProgress('data-science', 'sandbox', 75)
-        break
+  useEffect(() => {
+    setSavedAnalyses(dataLabAnalyses.getAll(getSession()))
+  }, [])
+
+  // Each kind of operation the learner tries counts toward sandbox progress
+  useEffect(() => {
+    const kindsUsed = new Set(steps.map(step => step.kind)).size
+    if (kindsUsed > 0) {
+      updateTopicProgress('data-science', 'sandbox', Math.min(100, kindsUsed * 25))
     }
+  }, [steps, updateTopicProgress])
 
-    setData(result)
+  const base = tables.find(table => table.name === baseTable) ?? tables[0]
+  const { results, error } = useMemo(() => runSteps(base, steps, tables), [base, steps, tables])
+  const endTable = results.length > 0 ? results[results.length - 1].table : base
+  const shownIndex = viewIndex === null || viewIndex >= results.length ? results.length - 1 : viewIndex
+  const shownTable = shownIndex >= 0 ? results[shownIndex].table : base
+
+  const showMessage = (text: string, isError = false) => {
+    setMessage({ text, isError })
+    setTimeout(() => setMessage(null), 4000)
   }
 
-  const resetData = () => {
-    setData(SAMPLE_DATA)
-    setOperation('none')
+  const startOver = (nextTables: DataTable[], nextBase: string) => {
+    setTables(nextTables)
+    setBaseTable(nextBase)
+    setSteps([])
+    setViewIndex(null)
+    setChart(null)
+    const table = nextTables.find(candidate => candidate.name === nextBase) ?? nextTables[0]
+    setDraft(defaultStep('filter', table, nextTables))
   }
 
-  const getAggregateStats = () => {
-    const avgAge = data.reduce((sum, row) => sum + row.age, 0) / data.length
-    const avgScore = data.reduce((sum, row) => sum + row.score, 0) / data.length
-    const maxScore = Math.max(...data.map(row => row.score))
-    const minScore = Math.min(...data.map(row => row.score))
+  const addStep = () => {
+    if (error) {
+      showMessage(`Fix step ${error.index + 1} before adding another.`, true)
+      return
+    }
+    setSteps([...steps, draft])
+    setViewIndex(null)
+  }
+
+  const removeStep = (index: number) => {
+    setSteps(steps.filter((_, i) => i !== index))
+    setViewIndex(null)
+  }
+
+  const handleDataUpload = async (file: File) => {
+    try {
+      const text = await file.text()
+      const table = /\.json$/i.test(file.name) ? parseJSONTable(text, file.name) : parseCSVTable(text, file.name)
+      startOver([...tables.filter(candidate => candidate.name !== table.name), table], table.name)
+      showMessage(`Loaded ${table.rows.length} rows from ${file.name}`)
+    } catch (uploadError) {
+      showMessage(uploadError instanceof DataLabError ? uploadError.message : `Could not read ${file.name}.`, true)
+    }
+  }
+
+  const currentAnalysis = (): SavedAnalysis => ({
+    name: analysisName.trim() || 'My analysis',
+    tables,
+    baseTable: base.name,
+    steps,
+    chart,
+    savedAt: Date.now(),
+  })
+
+  const loadAnalysis = (analysis: SavedAnalysis) => {
+    startOver(analysis.tables, analysis.baseTable)
+    setSteps(analysis.steps)
+    setChart(analysis.chart)
+    setAnalysisName(analysis.name)
+    showMessage(`Loaded "${analysis.name}"`)
+  }
 
-    return { avgAge, avgScore, maxScore, minScore }
+  const saveAnalysis = () => {
+    const analysis = currentAnalysis()
+    dataLabAnalyses.set(getSession(), analysis)
+    setSavedAnalyses(dataLabAnalyses.getAll(getSession()))
+    showMessage(`Saved "${analysis.name}"`)
   }
 
+  const deleteAnalysis = (name: string) => {
+    dataLabAnalyses.remove(getSession(), name)
+    setSavedAnalyses(dataLabAnalyses.getAll(getSession()))
+  }
+
+  const downloadAnalysis = () => {
+    const analysis = currentAnalysis()
+    const url = URL.createObjectURL(new Blob([JSON.stringify(analysis, null, 2)], { type: 'application/json' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${analysis.name.replace(/[^a-z0-9-_ ]/gi, '').trim() || 'analysis'}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleAnalysisUpload = async (file: File) => {
+    try {
+      loadAnalysis(parseSavedAnalysis(await file.text()))
+    } catch (uploadError) {
+      showMessage(uploadError instanceof DataLabError ? uploadError.message : `Could not read ${file.name}.`, true)
+    }
+  }
+
+  const resetLab = () => {
+    startOver(SAMPLE_TABLES, SAMPLE_TABLES[0].name)
+    setAnalysisName('My analysis')
+  }
+
+  const columnOptions = (table: DataTable) => table.columns.map(column => (
+    <option key={column.name} value={column.name} className="bg-gray-800">{column.name} ({column.type})</option>
+  ))
+
+  const updateDraft = (changes: Partial<Step>) => setDraft({ ...draft, ...changes } as Step)
+  const joinTable = draft.kind === 'join' ? tables.find(table => table.name === draft.table) : undefined
+
+  const code = codeTab === 'pandas' ? toPandasScript(base, results, tables) : toSQLQuery(base, results)
+
   return (
     <SandboxContainer
       title="Data Lab"
       icon="📊"
-      onRun={applyOperation}
-      onReset={resetData}
+      onRun={addStep}
+      onReset={resetLab}
       isRunning={false}
     >
       <div className="glass-card p-4 mb-6 text-center">
@@ -103,198 +277,366 @@ export default function DataLabSandbox() {
         </div>
       </div>
 
+      {message && (
+        <motion.div
+          className={`glass-card p-3 mb-6 text-center font-semibold ${message.isError ? 'text-red-300' : 'text-green-300'}`}
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+        >
+          {message.text}
+        </motion.div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-        {/* Operations Panel */}
-        <div className="glass-card p-6">
-          <h3 className="text-xl font-bold text-white mb-4">🔧 Data Operations</h3>
-
-          <div className="space-y-4">
-            <div>
-              <label className="text-white font-semibold mb-2 block">Select Operation:</label>
-              <select
-                value={operation}
-                onChange={(e) => setOperation(e.target.value as Operation)}
-                className="w-full bg-white/10 text-white border-2 border-white/20 rounded-lg p-2"
-              >
-                <option value="none">None</option>
-                <option value="filter">Filter</option>
-                <option value="sort">Sort</option>
-                <option value="aggregate">Aggregate</option>
-              </select>
+        {/* Data and Operations Panel */}
+        <div className="glass-card p-6 space-y-6">
+          <div>
+            <h3 className="text-xl font-bold text-white mb-4">📁 Data</h3>
+            <label className="text-white font-semibold mb-2 block">Start from:</label>
+            <select
+              value={base.name}
+              onChange={(e) => startOver(tables, e.target.value)}
+              className={inputClassName}
+            >
+              {tables.map(table => (
+                <option key={table.name} value={table.name} className="bg-gray-800">{table.name} ({table.rows.length} rows)</option>
+              ))}
+            </select>
+            <button
+              onClick={() => dataInputRef.current?.click()}
+              className="w-full mt-3 bg-white/10 hover:bg-white/20 border-2 border-white/20 rounded-lg p-2 text-white font-semibold transition-all"
+            >
+              ⬆️ Upload CSV or JSON
+            </button>
+            <input
+              ref={dataInputRef}
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (file) handleDataUpload(file)
+                e.target.value = ''
+              }}
+            />
+            <div className="flex flex-wrap gap-1 mt-3">
+              {base.columns.map(column => (
+                <span key={column.name} className="text-xs bg-white/10 text-white/80 rounded px-2 py-1">
+                  {column.name}: <span className="text-christmas-gold">{column.type}</span>
+                </span>
+              ))}
             </div>
+          </div>
 
-            {operation === 'filter' && (
-              <motion.div
-                initial={{ opacity: 0, height: 0 }}
-                animate={{ opacity: 1, height: 'auto' }}
-              >
-                <label className="text-white font-semibold mb-2 block">
-                  Filter by score ≥ {filterValue}
-                </label>
-                <input
-                  type="range"
-                  min="0"
-                  max="100"
-                  value={filterValue}
-                  onChange={(e) => setFilterValue(parseInt(e.target.value))}
-                  className="w-full"
-                />
-              </motion.div>
-            )}
+          <div>
+            <h3 className="text-xl font-bold text-white mb-4">🔧 Add a Step</h3>
+            <div className="grid grid-cols-5 gap-1 mb-4">
+              {STEP_KINDS.map(option => (
+                <button
+                  key={option.kind}
+                  onClick={() => setDraft(defaultStep(option.kind, endTable, tables))}
+                  className={`rounded-lg p-2 text-xs font-semibold transition-all ${
+                    draft.kind === option.kind ? 'bg-christmas-gold text-gray-900' : 'bg-white/10 text-white hover:bg-white/20'
+                  }`}
+                  title={option.label}
+                >
+                  <div className="text-lg">{option.icon}</div>
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-3">
+              {draft.kind === 'filter' && (
+                <>
+                  <select value={draft.column} onChange={(e) => updateDraft({ column: e.target.value })} className={inputClassName}>
+                    {columnOptions(endTable)}
+                  </select>
+                  <select value={draft.operator} onChange={(e) => updateDraft({ operator: e.target.value as FilterOperator })} className={inputClassName}>
+                    {OPERATORS.map(operator => <option key={operator} value={operator} className="bg-gray-800">{operator}</option>)}
+                  </select>
+                  <input
+                    value={draft.value}
+                    onChange={(e) => updateDraft({ value: e.target.value })}
+                    placeholder="Value"
+                    className={inputClassName}
+                  />
+                </>
+              )}
+
+              {draft.kind === 'sort' && (
+                <>
+                  <select value={draft.column} onChange={(e) => updateDraft({ column: e.target.value })} className={inputClassName}>
+                    {columnOptions(endTable)}
+                  </select>
+                  <select value={draft.ascending ? 'asc' : 'desc'} onChange={(e) => updateDraft({ ascending: e.target.value === 'asc' })} className={inputClassName}>
+                    <option value="asc" className="bg-gray-800">Ascending</option>
+                    <option value="desc" className="bg-gray-800">Descending</option>
+                  </select>
+                </>
+              )}
+
+              {draft.kind === 'groupBy' && (
+                <>
+                  <label className="text-white/80 text-sm block">Group by</label>
+                  <select value={draft.by} onChange={(e) => updateDraft({ by: e.target.value })} className={inputClassName}>
+                    {columnOptions(endTable)}
+                  </select>
+                  <label className="text-white/80 text-sm block">Aggregate</label>
+                  <div className="grid grid-cols-2 gap-2">
+                    <select value={draft.aggregate} onChange={(e) => updateDraft({ aggregate: e.target.value as AggregateFunction })} className={inputClassName}>
+                      {AGGREGATES.map(aggregate => <option key={aggregate} value={aggregate} className="bg-gray-800">{aggregate}</option>)}
+                    </select>
+                    <select value={draft.column} onChange={(e) => updateDraft({ column: e.target.value })} className={inputClassName}>
+                      {columnOptions(endTable)}
+                    </select>
+                  </div>
+                </>
+              )}
 
-            {operation === 'sort' && (
-              <motion.div
-                initial={{ opacity: 0, height: 0 }}
-                animate={{ opacity: 1, height: 'auto' }}
+              {draft.kind === 'join' && (
+                <>
+                  <label className="text-white/80 text-sm block">Join with</label>
+                  <select
+                    value={draft.table}
+                    onChange={(e) => {
+                      const other = tables.find(table => table.name === e.target.value)
+                      updateDraft({ table: e.target.value, rightOn: other?.columns[0]?.name ?? '' })
+                    }}
+                    className={inputClassName}
+                  >
+                    {tables.map(table => <option key={table.name} value={table.name} className="bg-gray-800">{table.name}</option>)}
+                  </select>
+                  <div className="grid grid-cols-2 gap-2">
+                    <select value={draft.leftOn} onChange={(e) => updateDraft({ leftOn: e.target.value })} className={inputClassName}>
+                      {columnOptions(endTable)}
+                    </select>
+                    <select value={draft.rightOn} onChange={(e) => updateDraft({ rightOn: e.target.value })} className={inputClassName}>
+                      {joinTable && columnOptions(joinTable)}
+                    </select>
+                  </div>
+                  <select value={draft.how} onChange={(e) => updateDraft({ how: e.target.value as 'inner' | 'left' })} className={inputClassName}>
+                    <option value="inner" className="bg-gray-800">Inner join (matching rows only)</option>
+                    <option value="left" className="bg-gray-800">Left join (keep every row)</option>
+                  </select>
+                </>
+              )}
+
+              {draft.kind === 'pivot' && (
+                <>
+                  <label className="text-white/80 text-sm block">Rows from</label>
+                  <select value={draft.index} onChange={(e) => updateDraft({ index: e.target.value })} className={inputClassName}>
+                    {columnOptions(endTable)}
+                  </select>
+                  <label className="text-white/80 text-sm block">Columns from</label>
+                  <select value={draft.columns} onChange={(e) => updateDraft({ columns: e.target.value })} className={inputClassName}>
+                    {columnOptions(endTable)}
+                  </select>
+                  <label className="text-white/80 text-sm block">Values</label>
+                  <div className="grid grid-cols-2 gap-2">
+                    <select value={draft.aggregate} onChange={(e) => updateDraft({ aggregate: e.target.value as AggregateFunction })} className={inputClassName}>
+                      {AGGREGATES.map(aggregate => <option key={aggregate} value={aggregate} className="bg-gray-800">{aggregate}</option>)}
+                    </select>
+                    <select value={draft.values} onChange={(e) => updateDraft({ values: e.target.value })} className={inputClassName}>
+                      {columnOptions(endTable)}
+                    </select>
+                  </div>
+                </>
+              )}
+
+              <motion.button
+                onClick={addStep}
+                className="btn btn-primary w-full"
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
               >
-                <label className="text-white font-semibold mb-2 block">Sort by:</label>
-                <select
-                  value={sortBy}
-                  onChange={(e) => setSortBy(e.target.value as 'age' | 'score')}
-                  className="w-full bg-white/10 text-white border-2 border-white/20 rounded-lg p-2"
-                >
-                  <option value="age">Age</option>
-                  <option value="score">Score</option>
-                </select>
-              </motion.div>
-            )}
+                ➕ Add Step
+              </motion.button>
+            </div>
           </div>
 
-          <div className="mt-6 p-4 bg-blue-500/10 border-l-4 border-blue-500 rounded">
+          <div className="p-4 bg-blue-500/10 border-l-4 border-blue-500 rounded">
             <p className="text-white/80 text-sm">
-              💡 <strong>Tip:</strong> Try different operations to analyze the dataset!
+              💡 <strong>Tip:</strong> Join students with enrolments on id = student_id, then pivot courses into columns!
             </p>
           </div>
         </div>
 
-        {/* Data Table */}
+        {/* Steps and Data Table */}
         <div className="glass-card p-6 lg:col-span-2">
-          <h3 className="text-xl font-bold text-white mb-4">📋 Dataset</h3>
-
-          {operation === 'aggregate' ? (
-            <div className="space-y-4">
-              <h4 className="text-lg font-semibold text-white">Aggregate Statistics</h4>
-              <div className="grid grid-cols-2 gap-4">
-                <div className="bg-blue-500/20 border-2 border-blue-500 rounded-lg p-4">
-                  <div className="text-blue-400 text-sm mb-1">Average Age</div>
-                  <div className="text-white text-2xl font-bold">
-                    {getAggregateStats().avgAge.toFixed(1)}
-                  </div>
-                </div>
-                <div className="bg-green-500/20 border-2 border-green-500 rounded-lg p-4">
-                  <div className="text-green-400 text-sm mb-1">Average Score</div>
-                  <div className="text-white text-2xl font-bold">
-                    {getAggregateStats().avgScore.toFixed(1)}
-                  </div>
-                </div>
-                <div className="bg-purple-500/20 border-2 border-purple-500 rounded-lg p-4">
-                  <div className="text-purple-400 text-sm mb-1">Max Score</div>
-                  <div className="text-white text-2xl font-bold">
-                    {getAggregateStats().maxScore}
-                  </div>
-                </div>
-                <div className="bg-orange-500/20 border-2 border-orange-500 rounded-lg p-4">
-                  <div className="text-orange-400 text-sm mb-1">Min Score</div>
-                  <div className="text-white text-2xl font-bold">
-                    {getAggregateStats().minScore}
-                  </div>
-                </div>
+          <h3 className="text-xl font-bold text-white mb-4">🪜 Steps</h3>
+          <div className="flex flex-wrap items-center gap-2 mb-6">
+            <button
+              onClick={() => setViewIndex(-1)}
+              className={`rounded-lg px-3 py-1.5 text-sm font-semibold ${shownIndex === -1 ? 'bg-christmas-gold text-gray-900' : 'bg-white/10 text-white'}`}
+            >
+              📁 {base.name}
+            </button>
+            {steps.map((step, index) => (
+              <div
+                key={index}
+                className={`flex items-center gap-1 rounded-lg px-3 py-1.5 text-sm font-semibold ${
+                  error?.index === index
+                    ? 'bg-red-500/30 text-red-200 border border-red-500'
+                    : shownIndex === index ? 'bg-christmas-gold text-gray-900' : 'bg-white/10 text-white'
+                }`}
+              >
+                <button onClick={() => setViewIndex(index)} disabled={index >= results.length}>
+                  {index + 1}. {describeStep(step)}
+                </button>
+                <button onClick={() => removeStep(index)} className="text-red-400 hover:text-red-300 font-bold ml-1" aria-label={`Remove step ${index + 1}`}>
+                  ✕
+                </button>
               </div>
+            ))}
+            {steps.length === 0 && <span className="text-white/50 text-sm">No steps yet. Add one on the left.</span>}
+          </div>
 
-              <div className="bg-white/5 rounded-lg p-4 mt-4">
-                <div className="text-white/70 text-sm mb-2">Total Records</div>
-                <div className="text-white text-3xl font-bold">{data.length}</div>
-              </div>
+          {error && (
+            <div className="mb-4 p-3 bg-red-500/20 border border-red-500 rounded-lg text-red-200 text-sm">
+              ❌ Step {error.index + 1}: {error.message}
             </div>
-          ) : (
-            <div className="overflow-x-auto">
-              <table className="w-full text-white">
-                <thead>
-                  <tr className="border-b-2 border-white/20">
-                    <th className="text-left p-3">ID</th>
-                    <th className="text-left p-3">Name</th>
-                    <th className="text-left p-3">Age</th>
-                    <th className="text-left p-3">Score</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {data.map((row, index) => (
-                    <motion.tr
-                      key={row.id}
-                      className="border-b border-white/10 hover:bg-white/5"
-                      initial={{ opacity: 0, y: 10 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      transition={{ delay: index * 0.05 }}
-                    >
-                      <td className="p-3">{row.id}</td>
-                      <td className="p-3 font-semibold">{row.name}</td>
-                      <td className="p-3">{row.age}</td>
-                      <td className="p-3">
-                        <span className={`font-bold ${row.score >= 90 ? 'text-green-400' : row.score >= 80 ? 'text-blue-400' : 'text-orange-400'}`}>
-                          {row.score}
-                        </span>
-                      </td>
-                    </motion.tr>
+          )}
+
+          <h3 className="text-xl font-bold text-white mb-4">📋 {shownIndex === -1 ? base.name : `After step ${shownIndex + 1}`}</h3>
+          <div className="overflow-x-auto max-h-[420px] overflow-y-auto">
+            <table className="w-full text-white text-sm">
+              <thead>
+                <tr className="border-b-2 border-white/20">
+                  {shownTable.columns.map(column => (
+                    <th key={column.name} className="text-left p-3">
+                      {column.name}
+                      <span className="block text-xs font-normal text-white/50">{column.type}</span>
+                    </th>
                   ))}
-                </tbody>
-              </table>
+                </tr>
+              </thead>
+              <tbody>
+                {shownTable.rows.slice(0, MAX_PREVIEW_ROWS).map((row, index) => (
+                  <tr key={index} className="border-b border-white/10 hover:bg-white/5">
+                    {shownTable.columns.map(column => (
+                      <td key={column.name} className={`p-3 ${row[column.name] === null ? 'text-white/40' : ''}`}>
+                        {formatCell(row[column.name])}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="mt-4 text-white/70 text-sm text-center">
+            Showing {Math.min(shownTable.rows.length, MAX_PREVIEW_ROWS)} of {shownTable.rows.length} rows
+          </div>
+        </div>
+      </div>
 
-              <div className="mt-4 text-white/70 text-sm text-center">
-                Showing {data.length} of {SAMPLE_DATA.length} records
-              </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-6">
+        {/* Equivalent code */}
+        <div className="glass-card p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-xl font-bold text-white">🐍 Equivalent Code</h3>
+            <div className="flex gap-1">
+              {(['pandas', 'sql'] as const).map(tab => (
+                <button
+                  key={tab}
+                  onClick={() => setCodeTab(tab)}
+                  className={`px-3 py-1 rounded-lg text-sm font-semibold ${codeTab === tab ? 'bg-christmas-gold text-gray-900' : 'bg-white/10 text-white'}`}
+                >
+                  {tab === 'pandas' ? 'pandas' : 'SQL'}
+                </button>
+              ))}
+            </div>
+          </div>
+          <pre className="bg-gray-900/50 rounded-lg p-4 text-green-400 text-xs overflow-x-auto whitespace-pre">{code}</pre>
+          {results.length > 0 && (
+            <div className="mt-4 space-y-2">
+              {results.map((result, index) => (
+                <div key={index} className="text-xs">
+                  <div className="text-white/60 mb-1">Step {index + 1}: {describeStep(steps[index])}</div>
+                  <code className="block bg-white/5 rounded p-2 text-white/90 break-all">{codeTab === 'pandas' ? result.pandas : result.sql}</code>
+                </div>
+              ))}
             </div>
           )}
         </div>
+
+        {/* Chart */}
+        <div className="glass-card p-6">
+          <h3 className="text-xl font-bold text-white mb-4">📈 Chart</h3>
+          <div className="grid grid-cols-3 gap-2 mb-4">
+            <select
+              value={chart?.kind ?? ''}
+              onChange={(e) => setChart(e.target.value
+                ? { kind: e.target.value as ChartKind, x: chart?.x ?? endTable.columns[0]?.name ?? '', y: chart?.y ?? endTable.columns.find(c => c.type === 'number')?.name ?? '' }
+                : null)}
+              className={inputClassName}
+              aria-label="Chart type"
+            >
+              <option value="" className="bg-gray-800">No chart</option>
+              {CHART_KINDS.map(kind => <option key={kind} value={kind} className="bg-gray-800">{kind}</option>)}
+            </select>
+            {chart && (
+              <select value={chart.x} onChange={(e) => setChart({ ...chart, x: e.target.value })} className={inputClassName} aria-label="X axis">
+                {columnOptions(endTable)}
+              </select>
+            )}
+            {chart && chart.kind !== 'histogram' && (
+              <select value={chart.y} onChange={(e) => setChart({ ...chart, y: e.target.value })} className={inputClassName} aria-label="Y axis">
+                {columnOptions(endTable)}
+              </select>
+            )}
+          </div>
+          {chart ? (
+            <DataChart table={endTable} settings={chart} />
+          ) : (
+            <p className="text-white/50 text-sm text-center py-12">Pick a chart type to plot the current result</p>
+          )}
+        </div>
       </div>
 
-      {/* Quick Actions */}
+      {/* Save and load */}
       <div className="glass-card p-6 mt-6">
-        <h3 className="text-xl font-bold text-white mb-4">⚡ Quick Actions</h3>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          <motion.button
-            onClick={() => {
-              setOperation('filter')
-              setFilterValue(90)
-              setTimeout(() => applyOperation(), 100)
+        <h3 className="text-xl font-bold text-white mb-4">💾 Analyses</h3>
+        <div className="flex flex-wrap gap-2 mb-4">
+          <input
+            value={analysisName}
+            onChange={(e) => setAnalysisName(e.target.value)}
+            className="flex-1 min-w-[200px] bg-white/10 text-white border-2 border-white/20 rounded-lg p-2"
+            aria-label="Analysis name"
+          />
+          <button onClick={saveAnalysis} className="btn btn-primary">Save</button>
+          <button onClick={downloadAnalysis} className="btn btn-secondary">Download</button>
+          <button onClick={() => analysisInputRef.current?.click()} className="btn btn-secondary">Open File</button>
+          <input
+            ref={analysisInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) handleAnalysisUpload(file)
+              e.target.value = ''
             }}
-            className="bg-white/5 hover:bg-white/10 border-2 border-white/20 rounded-lg p-4 text-left transition-all"
-            whileHover={{ scale: 1.02 }}
-            whileTap={{ scale: 0.98 }}
-          >
-            <div className="text-2xl mb-2">🌟</div>
-            <div className="text-white font-semibold mb-1">High Performers</div>
-            <div className="text-white/60 text-xs">Filter scores ≥ 90</div>
-          </motion.button>
-
-          <motion.button
-            onClick={() => {
-              setOperation('sort')
-              setSortBy('age')
-              setTimeout(() => applyOperation(), 100)
-            }}
-            className="bg-white/5 hover:bg-white/10 border-2 border-white/20 rounded-lg p-4 text-left transition-all"
-            whileHover={{ scale: 1.02 }}
-            whileTap={{ scale: 0.98 }}
-          >
-            <div className="text-2xl mb-2">📊</div>
-            <div className="text-white font-semibold mb-1">Sort by Age</div>
-            <div className="text-white/60 text-xs">Descending order</div>
-          </motion.button>
-
-          <motion.button
-            onClick={() => {
-              setOperation('aggregate')
-              setTimeout(() => applyOperation(), 100)
-            }}
-            className="bg-white/5 hover:bg-white/10 border-2 border-white/20 rounded-lg p-4 text-left transition-all"
-            whileHover={{ scale: 1.02 }}
-            whileTap={{ scale: 0.98 }}
-          >
-            <div className="text-2xl mb-2">📈</div>
-            <div className="text-white font-semibold mb-1">Show Stats</div>
-            <div className="text-white/60 text-xs">View aggregate data</div>
-          </motion.button>
+          />
         </div>
+        {savedAnalyses.length === 0 ? (
+          <p className="text-white/50 text-sm">Saved analyses appear here.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {savedAnalyses.map(analysis => (
+              <div key={analysis.name} className="bg-white/5 border-2 border-white/20 rounded-lg p-4">
+                <div className="text-white font-semibold mb-1">{analysis.name}</div>
+                <div className="text-white/60 text-xs mb-3">
+                  {analysis.baseTable} · {analysis.steps.length} step{analysis.steps.length === 1 ? '' : 's'} · {new Date(analysis.savedAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+                </div>
+                <div className="flex gap-2">
+                  <button onClick={() => loadAnalysis(analysis)} className="text-sm px-3 py-1 bg-white/10 hover:bg-white/20 rounded text-white">Load</button>
+                  <button onClick={() => deleteAnalysis(analysis.name)} className="text-sm px-3 py-1 bg-red-500/20 hover:bg-red-500/30 rounded text-red-300">Delete</button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     </SandboxContainer>
   )
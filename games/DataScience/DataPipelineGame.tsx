@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import { DndContext, DragEndEvent, DragOverlay } from '@dnd-kit/core'
 import { motion, AnimatePresence } from 'framer-motion'
 import GameContainer from '@/components/Games/GameContainer'
@@ -11,50 +11,115 @@ import { useUserStore } from '@/stores/userStore'
 import { useTutorialStore } from '@/stores/tutorialStore'
 import { achievementManager } from '@/utils/achievementManager'
 import { soundManager } from '@/utils/soundManager'
+import {
+  generateRawOrders,
+  measureQuality,
+  ORDER_SCHEMA,
+  PIPELINE_STAGES,
+  runDataPipeline,
+  type PipelineCell,
+  type QualityReport,
+  type StageCategory,
+  type StageId,
+  type StageRun,
+} from '@/utils/dataPipeline'
+import { parseCSV } from '@/utils/csv'
 import confetti from 'canvas-confetti'
 
-interface PipelineStep {
-  id: string
-  label: string
-  icon: string
-  color: string
+type Difficulty = 'easy' | 'medium' | 'hard'
+
+interface PipelineLevel {
+  /** Quality score the loaded data must reach */
+  target: number
+  stages: StageId[]
+  briefing: string
+  hints: string[]
 }
 
-const PIPELINE_STEPS: PipelineStep[] = [
-  { id: 'collect', label: 'Collect Data', icon: '📥', color: 'bg-blue-500' },
-  { id: 'clean', label: 'Clean Data', icon: '🧹', color: 'bg-purple-500' },
-  { id: 'transform', label: 'Transform', icon: '🔄', color: 'bg-pink-500' },
-  { id: 'analyze', label: 'Analyze', icon: '🔍', color: 'bg-orange-500' },
-  { id: 'visualize', label: 'Visualize', icon: '📊', color: 'bg-green-500' },
-  { id: 'model', label: 'Build Model', icon: '🤖', color: 'bg-cyan-500' },
-  { id: 'deploy', label: 'Deploy', icon: '🚀', color: 'bg-red-500' },
-]
+const PIPELINE_LEVELS: Record<Difficulty, PipelineLevel> = {
+  easy: {
+    target: 95,
+    stages: ['ingest', 'fix-types', 'remove-duplicates', 'fill-missing', 'drop-incomplete', 'validate', 'load'],
+    briefing: 'The orders export has duplicate rows and a few empty cells.',
+    hints: [
+      'Every value arrives as text. Fix Types turns "7" into the number 7.',
+      'Remove Duplicates catches the rows that were exported twice.',
+      'Dropping incomplete rows loses orders. Filling them keeps every order.',
+    ],
+  },
+  medium: {
+    target: 98,
+    stages: ['ingest', 'fix-types', 'remove-duplicates', 'fill-missing', 'drop-incomplete', 'standardise-text', 'cap-outliers', 'validate', 'load'],
+    briefing: 'Some prices and quantities were typed by hand: "$11.38", "three", "n/a" and a US-style date.',
+    hints: [
+      'Fix Types reads "$11.38" and "three", but "n/a" becomes an empty cell.',
+      'Fill Missing only works on numbers, so run it after Fix Types.',
+      'Compare the diffs to see which stage left empty cells behind.',
+    ],
+  },
+  hard: {
+    target: 100,
+    stages: ['ingest', 'fix-types', 'remove-duplicates', 'fill-missing', 'drop-incomplete', 'standardise-text', 'cap-outliers', 'validate', 'load'],
+    briefing: 'On top of everything else, there are impossible quantities and prices, and a duplicate with messy capitalisation.',
+    hints: [
+      'A quantity of 9999 and a price of -40 break the schema. Fix Outliers replaces them, while Validate drops the whole row.',
+      'Two rows can be the same order even when one shouts its email in capitals. Standardise Text first.',
+      'Validate at the end proves nothing slipped through, and with a clean pipeline it removes nothing.',
+    ],
+  },
+}
 
-const LEVEL_SOLUTIONS = {
-  easy: ['collect', 'clean', 'analyze', 'visualize'],
-  medium: ['collect', 'clean', 'transform', 'analyze', 'visualize'],
-  hard: ['collect', 'clean', 'transform', 'analyze', 'model', 'visualize', 'deploy'],
+const CATEGORY_LABELS: Record<StageCategory, string> = {
+  ingest: 'Ingest',
+  clean: 'Clean',
+  transform: 'Transform',
+  validate: 'Validate',
+  load: 'Load',
 }
 
-type Difficulty = 'easy' | 'medium' | 'hard'
+const QUALITY_METRICS: { key: keyof Omit<QualityReport, 'score'>; label: string }[] = [
+  { key: 'completeness', label: 'Completeness' },
+  { key: 'uniqueness', label: 'Uniqueness' },
+  { key: 'validity', label: 'Validity' },
+  { key: 'retention', label: 'Orders kept' },
+]
+
+const COLUMNS = ORDER_SCHEMA.map(rule => rule.column)
+
+function formatCell(value: PipelineCell): string {
+  if (value === null) return '∅'
+  return typeof value === 'string' ? `"${value}"` : String(value)
+}
 
 export default function DataPipelineGame() {
   const [difficulty, setDifficulty] = useState<Difficulty>('easy')
   const [started, setStarted] = useState(false)
-  const [solution, setSolution] = useState<string[]>([])
-  const [availableSteps, setAvailableSteps] = useState<PipelineStep[]>(PIPELINE_STEPS)
+  const [pipeline, setPipeline] = useState<StageId[]>([])
   const [activeId, setActiveId] = useState<string | null>(null)
   const [score, setScore] = useState(0)
   const [lives, setLives] = useState(3)
   const [hints, setHints] = useState(3)
   const [feedback, setFeedback] = useState<string>('')
   const [gameWon, setGameWon] = useState(false)
-  const [combo, setCombo] = useState(0)
-  const [bestCombo, setBestCombo] = useState(0)
+  const [runs, setRuns] = useState<StageRun[]>([])
+  const [quality, setQuality] = useState<QualityReport | null>(null)
+  const [errorIndex, setErrorIndex] = useState<number | null>(null)
+  const [selectedRun, setSelectedRun] = useState(0)
 
   const { addXP } = useUserStore()
   const { updateTopicProgress } = useTutorialStore()
 
+  const level = PIPELINE_LEVELS[difficulty]
+  const raw = useMemo(() => generateRawOrders(difficulty), [difficulty])
+  const rawRows = useMemo(() => parseCSV(raw.csv).slice(1), [raw])
+  const availableStages = level.stages.filter(stage => !pipeline.includes(stage))
+
+  const clearResults = () => {
+    setRuns([])
+    setQuality(null)
+    setErrorIndex(null)
+  }
+
   const handleDragStart = (event: any) => {
     setActiveId(event.active.id)
   }
@@ -65,59 +130,51 @@ export default function DataPipelineGame() {
 
     if (!over) return
 
-    const stepId = active.id as string
+    const stage = String(active.id).replace('stage-', '') as StageId
     const zoneId = over.id as string
 
     if (zoneId.startsWith('drop-')) {
       const index = parseInt(zoneId.split('-')[1])
-      const newSolution = [...solution]
-
-      setAvailableSteps(availableSteps.filter(s => s.id !== stepId))
-      newSolution[index] = stepId
-      setSolution(newSolution)
-
-      const correct = LEVEL_SOLUTIONS[difficulty]
-      const isCorrectPlacement = newSolution.filter((s, i) => s && s === correct[i]).length === newSolution.filter(Boolean).length
-
-      if (isCorrectPlacement) {
-        const newCombo = combo + 1
-        setCombo(newCombo)
-        if (newCombo > bestCombo) setBestCombo(newCombo)
-
-        const comboBonus = newCombo * 10
-        setScore(score + comboBonus)
-
-        soundManager.playCombo(newCombo)
-        setFeedback(`🔥 Combo x${newCombo}! +${comboBonus} bonus points!`)
-      } else {
-        setCombo(0)
-        soundManager.playSuccess()
-        setFeedback('Step placed! 👍')
-      }
-
-      setTimeout(() => setFeedback(''), 2000)
+      const newPipeline = [...pipeline]
+      newPipeline.splice(index, 0, stage)
+      setPipeline(newPipeline)
+      clearResults()
+      soundManager.playSuccess()
     }
   }
 
-  const removeStep = (index: number) => {
-    const stepId = solution[index]
-    const step = PIPELINE_STEPS.find(s => s.id === stepId)
-
-    if (step) {
-      setAvailableSteps([...availableSteps, step])
-    }
+  const removeStage = (index: number) => {
+    setPipeline(pipeline.filter((_, i) => i !== index))
+    clearResults()
+  }
 
-    const newSolution = [...solution]
-    newSolution[index] = ''
-    setSolution(newSolution.filter(s => s))
+  const moveStage = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= pipeline.length) return
+    const newPipeline = [...pipeline]
+    ;[newPipeline[index], newPipeline[target]] = [newPipeline[target], newPipeline[index]]
+    setPipeline(newPipeline)
+    clearResults()
   }
 
-  const checkSolution = () => {
-    const correct = LEVEL_SOLUTIONS[difficulty]
-    const isCorrect = solution.length === correct.length &&
-                     solution.every((step, idx) => step === correct[idx])
+  const runPipeline = () => {
+    const result = runDataPipeline(pipeline, raw.csv)
+    if (result.error) {
+      clearResults()
+      setErrorIndex(result.error.index)
+      setFeedback(`⚠️ ${result.error.message}`)
+      soundManager.playError()
+      setTimeout(() => setFeedback(''), 4000)
+      return
+    }
 
-    if (isCorrect) {
+    const report = measureQuality(result.runs[result.runs.length - 1].rows, raw.orderIds)
+    setRuns(result.runs)
+    setQuality(report)
+    setErrorIndex(null)
+    setSelectedRun(1)
+
+    if (report.score >= level.target) {
       setGameWon(true)
       const points = difficulty === 'easy' ? 100 : difficulty === 'medium' ? 200 : 300
       setScore(score + points)
@@ -131,43 +188,38 @@ export default function DataPipelineGame() {
         spread: 70,
         origin: { y: 0.6 }
       })
-      setFeedback('🎉 Perfect! Data pipeline complete!')
+      setFeedback(`🎉 Data quality ${report.score}%! The warehouse is happy.`)
       soundManager.playWin()
 
       setTimeout(() => {
         achievementManager.checkAll()
       }, 1000)
     } else {
+      const weakest = QUALITY_METRICS.reduce((worst, metric) => report[metric.key] < report[worst.key] ? metric : worst)
       setLives(lives - 1)
-      setFeedback('❌ Not quite right. Check the pipeline order!')
+      setFeedback(`❌ Quality ${report.score}%, needs ${level.target}%. Weakest: ${weakest.label.toLowerCase()} (${Math.round(report[weakest.key] * 100)}%). Check the diffs below.`)
       soundManager.playError()
-      setTimeout(() => setFeedback(''), 2000)
     }
   }
 
   const useHint = () => {
     if (hints > 0) {
-      setHints(hints - 1)
       soundManager.playHint()
-      const correct = LEVEL_SOLUTIONS[difficulty]
-      const nextIndex = solution.length
-      if (nextIndex < correct.length) {
-        setFeedback(`💡 Hint: Next step should be "${PIPELINE_STEPS.find(s => s.id === correct[nextIndex])?.label}"`)
-        setTimeout(() => setFeedback(''), 5000)
-      }
+      setFeedback(`💡 Hint: ${level.hints[level.hints.length - hints]}`)
+      setHints(hints - 1)
+      setTimeout(() => setFeedback(''), 6000)
     }
   }
 
   const startGame = () => {
     setStarted(true)
-    setSolution([])
+    setPipeline([])
     setLives(3)
     setHints(3)
     setScore(0)
     setGameWon(false)
-    setCombo(0)
-    setBestCombo(0)
-    setAvailableSteps(PIPELINE_STEPS)
+    setFeedback('')
+    clearResults()
   }
 
   if (!started) {
@@ -184,8 +236,8 @@ export default function DataPipelineGame() {
               Data Pipeline Builder
             </h2>
             <p className="text-xl text-white/80 mb-8 max-w-2xl mx-auto">
-              Build a data processing pipeline in the correct order!
-              From collecting raw data to visualizing insights.
+              A messy orders export is waiting. Chain ingest, clean, transform, validate and load stages,
+              run them on the real rows, and get the data quality high enough for the warehouse!
             </p>
 
             <div className="mb-8">
@@ -207,6 +259,9 @@ export default function DataPipelineGame() {
                   </motion.button>
                 ))}
               </div>
+              <p className="text-white/60 mt-4">
+                Target quality: {PIPELINE_LEVELS[difficulty].target}%
+              </p>
             </div>
 
             <motion.button
@@ -235,9 +290,14 @@ export default function DataPipelineGame() {
           <h2 className="text-4xl font-bold text-white mb-4">
             Level Complete!
           </h2>
-          <p className="text-2xl text-christmas-gold mb-6">
+          <p className="text-2xl text-christmas-gold mb-2">
             Score: {score} points
           </p>
+          {quality && (
+            <p className="text-white/80 mb-6">
+              Data quality {quality.score}% with {pipeline.length} stages
+            </p>
+          )}
           <div className="flex justify-center gap-4">
             <motion.button
               onClick={() => setStarted(false)}
@@ -274,7 +334,7 @@ export default function DataPipelineGame() {
             Game Over
           </h2>
           <p className="text-xl text-white/80 mb-6">
-            Don't give up! Try again and build that perfect pipeline!
+            Don&apos;t give up! Try again and build that perfect pipeline!
           </p>
           <motion.button
             onClick={() => setStarted(false)}
@@ -289,7 +349,8 @@ export default function DataPipelineGame() {
     )
   }
 
-  const solutionLength = LEVEL_SOLUTIONS[difficulty].length
+  const activeStage = activeId ? PIPELINE_STAGES[activeId.replace('stage-', '') as StageId] : null
+  const shownRun = runs[selectedRun]
 
   return (
     <DndContext onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
@@ -303,28 +364,12 @@ export default function DataPipelineGame() {
             maxHints={3}
             onUseHint={useHint}
           />
-
-          {combo > 1 && (
-            <motion.div
-              className="glass-card p-4 text-center"
-              initial={{ scale: 0.8, opacity: 0 }}
-              animate={{ scale: 1, opacity: 1 }}
-              exit={{ scale: 0.8, opacity: 0 }}
-            >
-              <div className="text-3xl font-bold bg-gradient-to-r from-orange-400 to-red-500 bg-clip-text text-transparent">
-                🔥 COMBO x{combo}!
-              </div>
-              <div className="text-white/70 text-sm mt-1">
-                Best: {bestCombo}
-              </div>
-            </motion.div>
-          )}
         </div>
 
         <AnimatePresence>
           {feedback && (
             <motion.div
-              className="glass-card p-4 mb-6 text-center"
+              className="glass-card p-4 my-6 text-center"
               initial={{ opacity: 0, y: -20 }}
               animate={{ opacity: 1, y: 0 }}
               exit={{ opacity: 0, y: -20 }}
@@ -334,71 +379,236 @@ export default function DataPipelineGame() {
           )}
         </AnimatePresence>
 
+        <div className="glass-card p-6 my-6">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+            <h3 className="text-2xl font-bold text-white">📄 orders.csv</h3>
+            <div className="flex flex-wrap gap-2 text-sm">
+              {raw.problems.duplicates > 0 && <span className="px-3 py-1 rounded-full bg-white/10 text-white">👯 {raw.problems.duplicates} duplicates</span>}
+              {raw.problems.missing > 0 && <span className="px-3 py-1 rounded-full bg-white/10 text-white">∅ {raw.problems.missing} missing</span>}
+              {raw.problems.wrongTypes > 0 && <span className="px-3 py-1 rounded-full bg-white/10 text-white">🔢 {raw.problems.wrongTypes} wrong types</span>}
+              {raw.problems.outliers > 0 && <span className="px-3 py-1 rounded-full bg-white/10 text-white">📐 {raw.problems.outliers} outliers</span>}
+            </div>
+          </div>
+          <p className="text-white/70 mb-3">{level.briefing} Reach <span className="text-christmas-gold font-bold">{level.target}%</span> data quality.</p>
+          <div className="max-h-64 overflow-auto rounded-lg border border-white/20">
+            <table className="w-full text-sm font-mono">
+              <thead className="sticky top-0 bg-gray-900">
+                <tr>
+                  <th className="px-2 py-1 text-left text-white/50">#</th>
+                  {COLUMNS.map(column => <th key={column} className="px-2 py-1 text-left text-white/80">{column}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {rawRows.map((row, index) => (
+                  <tr key={index} className="border-t border-white/10">
+                    <td className="px-2 py-1 text-white/50">{index + 1}</td>
+                    {COLUMNS.map((column, i) => (
+                      <td key={column} className={`px-2 py-1 whitespace-pre ${row[i]?.trim() ? 'text-white' : 'text-red-400'}`}>
+                        {row[i]?.trim() ? row[i] : '∅'}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           <div className="glass-card p-6">
-            <h3 className="text-2xl font-bold text-white mb-4">Available Steps</h3>
-            <div className="grid grid-cols-2 gap-3">
-              {availableSteps.map((step) => (
-                <DraggableItem key={step.id} id={step.id}>
-                  <div className={`${step.color} rounded-lg p-4 text-white text-center font-bold`}>
-                    <div className="text-2xl mb-1">{step.icon}</div>
-                    <div className="text-sm">{step.label}</div>
+            <h3 className="text-2xl font-bold text-white mb-4">Available Stages</h3>
+            <div className="space-y-4">
+              {(Object.keys(CATEGORY_LABELS) as StageCategory[]).map(category => {
+                const stages = availableStages.filter(stage => PIPELINE_STAGES[stage].category === category)
+                if (stages.length === 0) return null
+                return (
+                  <div key={category}>
+                    <div className="text-white/60 text-sm font-semibold mb-2">{CATEGORY_LABELS[category]}</div>
+                    <div className="grid grid-cols-2 gap-3">
+                      {stages.map(stage => (
+                        <DraggableItem key={stage} id={`stage-${stage}`}>
+                          <div className={`${PIPELINE_STAGES[stage].color} rounded-lg p-3 text-white text-center`} title={PIPELINE_STAGES[stage].description}>
+                            <div className="text-2xl mb-1">{PIPELINE_STAGES[stage].icon}</div>
+                            <div className="text-sm font-bold">{PIPELINE_STAGES[stage].label}</div>
+                            <div className="text-xs text-white/80 mt-1">{PIPELINE_STAGES[stage].description}</div>
+                          </div>
+                        </DraggableItem>
+                      ))}
+                    </div>
                   </div>
-                </DraggableItem>
-              ))}
+                )
+              })}
             </div>
           </div>
 
           <div className="glass-card p-6">
-            <h3 className="text-2xl font-bold text-white mb-4">Build Your Pipeline</h3>
+            <h3 className="text-2xl font-bold text-white mb-4">Your Pipeline</h3>
             <div className="space-y-3">
-              {Array.from({ length: solutionLength }).map((_, index) => (
-                <DragDropZone key={index} id={`drop-${index}`} isEmpty={!solution[index]}>
-                  {solution[index] && (
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center space-x-2">
-                        <span className="text-2xl">
-                          {PIPELINE_STEPS.find(s => s.id === solution[index])?.icon}
-                        </span>
-                        <span className="text-white font-bold">
-                          {PIPELINE_STEPS.find(s => s.id === solution[index])?.label}
-                        </span>
-                      </div>
+              {pipeline.map((stage, index) => (
+                <DragDropZone
+                  key={`${stage}-${index}`}
+                  id={`drop-${index}`}
+                  isEmpty={false}
+                  className={errorIndex === index ? 'ring-2 ring-red-500' : ''}
+                >
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <span className="text-white/50 font-mono text-sm">{index + 1}.</span>
+                      <span className="text-2xl">{PIPELINE_STAGES[stage].icon}</span>
+                      <span className="text-white font-bold">{PIPELINE_STAGES[stage].label}</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => moveStage(index, -1)}
+                        disabled={index === 0}
+                        className="text-white/70 hover:text-white disabled:opacity-30"
+                        aria-label="Move up"
+                      >
+                        ▲
+                      </button>
+                      <button
+                        onClick={() => moveStage(index, 1)}
+                        disabled={index === pipeline.length - 1}
+                        className="text-white/70 hover:text-white disabled:opacity-30"
+                        aria-label="Move down"
+                      >
+                        ▼
+                      </button>
                       <button
-                        onClick={() => removeStep(index)}
+                        onClick={() => removeStage(index)}
                         className="text-red-400 hover:text-red-300 font-bold"
+                        aria-label="Remove stage"
                       >
                         ✕
                       </button>
                     </div>
-                  )}
+                  </div>
                 </DragDropZone>
               ))}
+              <DragDropZone
+                id={`drop-${pipeline.length}`}
+                isEmpty
+                className={errorIndex === pipeline.length ? 'ring-2 ring-red-500' : ''}
+              >
+                <div className="text-white/50 text-center text-sm">Drop a stage here</div>
+              </DragDropZone>
             </div>
 
             <motion.button
-              onClick={checkSolution}
-              disabled={solution.length !== solutionLength}
+              onClick={runPipeline}
+              disabled={pipeline.length < 2}
               className={`btn w-full mt-6 ${
-                solution.length === solutionLength
+                pipeline.length >= 2
                   ? 'btn-primary'
                   : 'opacity-50 cursor-not-allowed bg-white/10'
               }`}
-              whileHover={solution.length === solutionLength ? { scale: 1.02 } : {}}
-              whileTap={solution.length === solutionLength ? { scale: 0.98 } : {}}
+              whileHover={pipeline.length >= 2 ? { scale: 1.02 } : {}}
+              whileTap={pipeline.length >= 2 ? { scale: 0.98 } : {}}
             >
-              Check Pipeline
+              ▶ Run Pipeline
             </motion.button>
           </div>
         </div>
 
+        {quality && (
+          <div className="glass-card p-6 mt-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-2xl font-bold text-white">📋 Data Quality</h3>
+              <span className={`text-3xl font-bold ${quality.score >= level.target ? 'text-green-400' : 'text-red-400'}`}>
+                {quality.score}% <span className="text-base text-white/60">/ {level.target}%</span>
+              </span>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {QUALITY_METRICS.map(metric => {
+                const value = Math.round(quality[metric.key] * 100)
+                return (
+                  <div key={metric.key}>
+                    <div className="flex justify-between text-sm text-white/80 mb-1">
+                      <span>{metric.label}</span>
+                      <span>{value}%</span>
+                    </div>
+                    <div className="h-2 rounded-full bg-white/10 overflow-hidden">
+                      <div className={`h-full ${value === 100 ? 'bg-green-500' : value >= 80 ? 'bg-yellow-500' : 'bg-red-500'}`} style={{ width: `${value}%` }} />
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+        )}
+
+        {runs.length > 0 && (
+          <div className="glass-card p-6 mt-6">
+            <h3 className="text-2xl font-bold text-white mb-4">🔍 What Each Stage Changed</h3>
+            <div className="flex flex-wrap gap-2 mb-4">
+              {runs.map((run, index) => (
+                <button
+                  key={run.stage}
+                  onClick={() => setSelectedRun(index)}
+                  className={`px-3 py-2 rounded-lg text-sm transition-all ${
+                    selectedRun === index ? 'bg-christmas-gold text-gray-900 font-semibold' : 'bg-white/10 text-white hover:bg-white/20'
+                  }`}
+                >
+                  {PIPELINE_STAGES[run.stage].icon} {PIPELINE_STAGES[run.stage].label}
+                  <span className="ml-2 opacity-70">
+                    {run.diff.removed.length > 0 && `−${run.diff.removed.length} rows `}
+                    {run.diff.changed.length > 0 && `✎${run.diff.changed.length}`}
+                  </span>
+                </button>
+              ))}
+            </div>
+
+            {shownRun && (
+              <div className="space-y-3">
+                {shownRun.notes.map(note => (
+                  <p key={note} className="text-white/70 text-sm">ℹ️ {note}</p>
+                ))}
+                {shownRun.diff.removed.length === 0 && shownRun.diff.changed.length === 0 ? (
+                  <p className="text-white/60">This stage didn&apos;t remove or edit any rows.</p>
+                ) : (
+                  <div className="max-h-72 overflow-auto rounded-lg border border-white/20">
+                    <table className="w-full text-sm font-mono">
+                      <thead className="sticky top-0 bg-gray-900">
+                        <tr>
+                          <th className="px-2 py-1 text-left text-white/50">Row</th>
+                          <th className="px-2 py-1 text-left text-white/80">Change</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {shownRun.diff.removed.map(removal => (
+                          <tr key={`removed-${removal.line}`} className="border-t border-white/10 bg-red-500/10">
+                            <td className="px-2 py-1 text-white/50">{removal.line}</td>
+                            <td className="px-2 py-1 text-red-300">
+                              <span className="line-through">removed</span> — {removal.reason}
+                            </td>
+                          </tr>
+                        ))}
+                        {shownRun.diff.changed.map(change => (
+                          <tr key={`changed-${change.line}-${change.column}`} className="border-t border-white/10 bg-yellow-500/10">
+                            <td className="px-2 py-1 text-white/50">{change.line}</td>
+                            <td className="px-2 py-1 text-white">
+                              <span className="text-white/60">{change.column}:</span>{' '}
+                              <span className="text-red-300 line-through">{formatCell(change.before)}</span>
+                              {' → '}
+                              <span className="text-green-300">{formatCell(change.after)}</span>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+                <p className="text-white/50 text-xs">{shownRun.rows.length} rows after this stage</p>
+              </div>
+            )}
+          </div>
+        )}
+
         <DragOverlay>
-          {activeId && (
+          {activeStage && (
             <div className="bg-christmas-gold rounded-lg p-4 text-gray-900 text-center font-bold opacity-90">
-              <div className="text-2xl mb-1">
-                {PIPELINE_STEPS.find(s => s.id === activeId)?.icon}
-              </div>
-              <div className="text-sm">{PIPELINE_STEPS.find(s => s.id === activeId)?.label}</div>
+              <div className="text-2xl mb-1">{activeStage.icon}</div>
+              <div className="text-sm">{activeStage.label}</div>
             </div>
           )}
         </DragOverlay>
@@ -8,80 +8,90 @@ import { useUserStore } from '@/stores/userStore'
 import { useTutorialStore } from '@/stores/tutorialStore'
 import { achievementManager } from '@/utils/achievementManager'
 import { soundManager } from '@/utils/soundManager'
+import {
+  CARD_COLOR_ROLES,
+  contrastSummary,
+  FONT_STACKS,
+  generateDesignChallenge,
+  runDesignChecks,
+  suggestFix,
+  type CardColorRole,
+  type CardDesign,
+  type DesignChallenge,
+  type DesignCheckGroup,
+  type FontChoice,
+} from '@/utils/designChecks'
 import confetti from 'canvas-confetti'
 
-interface DesignElement {
-  id: string
-  type: 'color' | 'font' | 'layout'
-  question: string
-  options: { id: string; label: string; value: string; correct: boolean }[]
-}
+type Difficulty = 'easy' | 'medium' | 'hard'
 
-const DESIGN_CHALLENGES: DesignElement[] = [
-  {
-    id: 'color-1',
-    type: 'color',
-    question: 'Which color scheme creates the most contrast?',
-    options: [
-      { id: 'a', label: 'Blue & Light Blue', value: '#3B82F6 #93C5FD', correct: false },
-      { id: 'b', label: 'Black & White', value: '#000000 #FFFFFF', correct: true },
-      { id: 'c', label: 'Gray & Light Gray', value: '#6B7280 #D1D5DB', correct: false },
-      { id: 'd', label: 'Green & Dark Green', value: '#10B981 #065F46', correct: false },
-    ]
-  },
-  {
-    id: 'font-1',
-    type: 'font',
-    question: 'Which font is best for body text readability?',
-    options: [
-      { id: 'a', label: 'Decorative Script', value: 'cursive', correct: false },
-      { id: 'b', label: 'Sans-Serif', value: 'sans-serif', correct: true },
-      { id: 'c', label: 'Bold Display', value: 'impact', correct: false },
-      { id: 'd', label: 'Narrow Condensed', value: 'narrow', correct: false },
-    ]
-  },
-  {
-    id: 'layout-1',
-    type: 'layout',
-    question: 'Which layout shows proper visual hierarchy?',
-    options: [
-      { id: 'a', label: 'All same size', value: 'equal', correct: false },
-      { id: 'b', label: 'Large title, medium subtitle, small body', value: 'hierarchy', correct: true },
-      { id: 'c', label: 'Random sizes', value: 'random', correct: false },
-      { id: 'd', label: 'Small title, large body', value: 'reversed', correct: false },
-    ]
-  },
-  {
-    id: 'color-2',
-    type: 'color',
-    question: 'Which colors are complementary (opposite on color wheel)?',
-    options: [
-      { id: 'a', label: 'Red & Orange', value: '#EF4444 #F97316', correct: false },
-      { id: 'b', label: 'Blue & Orange', value: '#3B82F6 #F97316', correct: true },
-      { id: 'c', label: 'Green & Yellow', value: '#10B981 #F59E0B', correct: false },
-      { id: 'd', label: 'Purple & Pink', value: '#8B5CF6 #EC4899', correct: false },
-    ]
-  },
-  {
-    id: 'font-2',
-    type: 'font',
-    question: 'Which font pairing creates good contrast?',
-    options: [
-      { id: 'a', label: 'Serif & Sans-Serif', value: 'contrast', correct: true },
-      { id: 'b', label: 'Sans-Serif & Sans-Serif', value: 'same', correct: false },
-      { id: 'c', label: 'Script & Script', value: 'similar', correct: false },
-      { id: 'd', label: 'Serif & Serif', value: 'match', correct: false },
-    ]
-  },
+const SWATCHES = [
+  '#000000', '#FFFFFF', '#0F172A', '#334155', '#64748B', '#CBD5E1', '#F1F5F9', '#FDF6E3',
+  '#1D4ED8', '#15803D', '#B91C1C', '#7C3AED', '#C2410C', '#FACC15', '#F9A8D4', '#67E8F9',
 ]
 
-type Difficulty = 'easy' | 'medium' | 'hard'
+const SIZE_FIELDS: { key: 'titleSize' | 'subtitleSize' | 'bodySize' | 'captionSize'; label: string }[] = [
+  { key: 'titleSize', label: 'Title' },
+  { key: 'subtitleSize', label: 'Subtitle' },
+  { key: 'bodySize', label: 'Body' },
+  { key: 'captionSize', label: 'Caption' },
+]
+
+const SPACING_FIELDS: { key: 'padding' | 'gap' | 'buttonPadding'; label: string }[] = [
+  { key: 'padding', label: 'Card padding' },
+  { key: 'gap', label: 'Gap between items' },
+  { key: 'buttonPadding', label: 'Button padding' },
+]
+
+const CHECK_GROUPS: DesignCheckGroup[] = ['WCAG AA', 'WCAG AAA', 'Typography', 'Spacing']
+
+/**
+ * The card being designed, drawn with the learner's current settings
+ */
+function MockCard({ challenge, design }: { challenge: DesignChallenge; design: CardDesign }) {
+  const { brief } = challenge
+  return (
+    <div
+      className="rounded-2xl shadow-2xl mx-auto max-w-sm flex flex-col"
+      style={{ backgroundColor: design.background, padding: design.padding, gap: design.gap }}
+    >
+      <div
+        style={{ color: design.text, fontSize: design.titleSize, fontWeight: design.titleBold ? 700 : 400, fontFamily: FONT_STACKS[design.headingFont].css, lineHeight: 1.2 }}
+      >
+        {brief.title}
+      </div>
+      <div style={{ color: design.text, fontSize: design.subtitleSize, fontFamily: FONT_STACKS[design.headingFont].css, lineHeight: 1.3 }}>
+        {brief.subtitle}
+      </div>
+      <p style={{ color: design.text, fontSize: design.bodySize, fontFamily: FONT_STACKS[design.bodyFont].css, lineHeight: 1.5 }}>
+        {brief.body}
+      </p>
+      <div style={{ color: design.muted, fontSize: design.captionSize, fontFamily: FONT_STACKS[design.bodyFont].css }}>
+        {brief.caption}
+      </div>
+      <button
+        type="button"
+        className="rounded-lg font-bold self-start"
+        style={{
+          backgroundColor: design.accent,
+          color: design.buttonText,
+          fontSize: design.bodySize,
+          padding: `${design.buttonPadding}px ${design.buttonPadding * 2}px`,
+          fontFamily: FONT_STACKS[design.bodyFont].css,
+        }}
+      >
+        {brief.button}
+      </button>
+    </div>
+  )
+}
 
 export default function DesignMatcherGame() {
   const [difficulty, setDifficulty] = useState<Difficulty>('easy')
   const [started, setStarted] = useState(false)
-  const [currentQuestion, setCurrentQuestion] = useState(0)
-  const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null)
+  const [round, setRound] = useState(0)
+  const [challenge, setChallenge] = useState<DesignChallenge | null>(null)
+  const [design, setDesign] = useState<CardDesign | null>(null)
   const [score, setScore] = useState(0)
   const [lives, setLives] = useState(3)
   const [hints, setHints] = useState(3)
@@ -93,25 +103,34 @@ export default function DesignMatcherGame() {
   const { addXP } = useUserStore()
   const { updateTopicProgress } = useTutorialStore()
 
-  const questionsToAnswer = difficulty === 'easy' ? 3 : difficulty === 'medium' ? 4 : 5
+  const roundsToPlay = difficulty === 'easy' ? 2 : difficulty === 'medium' ? 3 : 4
+
+  const loadRound = (level: Difficulty) => {
+    const next = generateDesignChallenge(level, Date.now())
+    setChallenge(next)
+    setDesign(next.design)
+  }
+
+  const updateDesign = <K extends keyof CardDesign>(key: K, value: CardDesign[K]) => {
+    if (design) setDesign({ ...design, [key]: value })
+  }
 
-  const handleAnswer = (optionId: string) => {
-    setSelectedAnswer(optionId)
-    const currentChallenge = DESIGN_CHALLENGES[currentQuestion]
-    const selectedOption = currentChallenge.options.find(o => o.id === optionId)
+  const submitDesign = () => {
+    if (!challenge || !design) return
+    const failed = runDesignChecks(challenge.checks, design).filter(result => !result.passed)
 
-    if (selectedOption?.correct) {
+    if (failed.length === 0) {
       const newCombo = combo + 1
       setCombo(newCombo)
       if (newCombo > bestCombo) setBestCombo(newCombo)
 
       const points = 10 + (newCombo * 5)
       setScore(score + points)
-      setFeedback(`✅ Correct! +${points} points`)
+      setFeedback(`✅ Every check passes! +${points} points`)
       soundManager.playCombo(newCombo)
 
       setTimeout(() => {
-        if (currentQuestion + 1 >= questionsToAnswer) {
+        if (round + 1 >= roundsToPlay) {
           setGameWon(true)
           const totalPoints = difficulty === 'easy' ? 100 : difficulty === 'medium' ? 200 : 300
           addXP(totalPoints)
@@ -121,44 +140,41 @@ export default function DesignMatcherGame() {
           soundManager.playWin()
           setTimeout(() => achievementManager.checkAll(), 1000)
         } else {
-          setCurrentQuestion(currentQuestion + 1)
-          setSelectedAnswer(null)
+          setRound(round + 1)
+          loadRound(difficulty)
           setFeedback('')
         }
       }, 1500)
     } else {
       setCombo(0)
       setLives(lives - 1)
-      setFeedback('❌ Wrong! Try again.')
+      setFeedback(`❌ ${failed.length} check${failed.length === 1 ? '' : 's'} still failing: ${failed.map(result => result.label).join(', ')}`)
       soundManager.playError()
-      setTimeout(() => {
-        setSelectedAnswer(null)
-        setFeedback('')
-      }, 1500)
+      setTimeout(() => setFeedback(''), 3000)
     }
   }
 
   const useHint = () => {
-    if (hints > 0) {
+    if (hints > 0 && challenge && design) {
       setHints(hints - 1)
       soundManager.playHint()
-      const currentChallenge = DESIGN_CHALLENGES[currentQuestion]
-      const correctOption = currentChallenge.options.find(o => o.correct)
-      setFeedback(`💡 Hint: Look for "${correctOption?.label}"`)
+      const failing = runDesignChecks(challenge.checks, design).find(result => !result.passed)
+      setFeedback(failing ? `💡 Hint: ${suggestFix(failing.id, design)}` : '💡 Hint: Everything passes. Submit your design!')
       setTimeout(() => setFeedback(''), 5000)
     }
   }
 
   const startGame = () => {
     setStarted(true)
-    setCurrentQuestion(0)
-    setSelectedAnswer(null)
+    setRound(0)
+    loadRound(difficulty)
     setLives(3)
     setHints(3)
     setScore(0)
     setGameWon(false)
     setCombo(0)
     setBestCombo(0)
+    setFeedback('')
   }
 
   if (!started) {
@@ -169,7 +185,8 @@ export default function DesignMatcherGame() {
             <div className="text-8xl mb-6">🎯</div>
             <h2 className="text-4xl font-bold text-white mb-4">Design Matcher</h2>
             <p className="text-xl text-white/80 mb-8 max-w-2xl mx-auto">
-              Match design elements correctly! Test your knowledge of colors, fonts, and layouts.
+              Fix cards that fail accessibility checks! Tweak colours, fonts and spacing until every measured
+              WCAG contrast, type-scale and spacing check passes.
             </p>
             <div className="mb-8">
               <h3 className="text-white font-semibold mb-4">Select Difficulty:</h3>
@@ -188,6 +205,11 @@ export default function DesignMatcherGame() {
                   </motion.button>
                 ))}
               </div>
+              <p className="text-white/60 mt-4">
+                {difficulty === 'easy' && 'Colour contrast (WCAG AA)'}
+                {difficulty === 'medium' && 'Contrast, text size, type scale and fonts'}
+                {difficulty === 'hard' && 'AAA body contrast, typography and spacing'}
+              </p>
             </div>
             <motion.button onClick={startGame} className="btn btn-primary text-xl px-12 py-4" whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
               Start Game
@@ -233,7 +255,12 @@ export default function DesignMatcherGame() {
     )
   }
 
-  const currentChallenge = DESIGN_CHALLENGES[currentQuestion]
+  if (!challenge || !design) return null
+
+  const results = runDesignChecks(challenge.checks, design)
+  const passedCount = results.filter(result => result.passed).length
+  const showTypography = results.some(result => result.group === 'Typography')
+  const showSpacing = results.some(result => result.group === 'Spacing')
 
   return (
     <GameContainer title="Design Matcher" icon="🎨" difficulty={difficulty}>
@@ -241,7 +268,7 @@ export default function DesignMatcherGame() {
         <GameHUD score={score} lives={lives} maxLives={3} hints={hints} maxHints={3} onUseHint={useHint} />
 
         <div className="glass-card p-4 text-center">
-          <div className="text-white/70 text-sm">Question {currentQuestion + 1} of {questionsToAnswer}</div>
+          <div className="text-white/70 text-sm">Card {round + 1} of {roundsToPlay} · {passedCount}/{results.length} checks passing</div>
           {combo > 1 && (
             <div className="text-2xl font-bold bg-gradient-to-r from-orange-400 to-red-500 bg-clip-text text-transparent">
               🔥 COMBO x{combo}!
@@ -252,43 +279,187 @@ export default function DesignMatcherGame() {
 
       <AnimatePresence>
         {feedback && (
-          <motion.div className="glass-card p-4 mb-6 text-center" initial={{ opacity: 0, y: -20 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -20 }}>
+          <motion.div className="glass-card p-4 my-6 text-center" initial={{ opacity: 0, y: -20 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -20 }}>
             <p className="text-white font-semibold text-lg">{feedback}</p>
           </motion.div>
         )}
       </AnimatePresence>
 
-      <div className="glass-card p-8">
-        <h3 className="text-2xl font-bold text-white mb-6 text-center">{currentChallenge.question}</h3>
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          {currentChallenge.options.map((option) => (
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-6">
+        <div className="space-y-6">
+          <div className="glass-card p-8">
+            <h3 className="text-xl font-bold text-white mb-6 text-center">Live Preview</h3>
+            <MockCard challenge={challenge} design={design} />
+
+            <table className="w-full text-sm mt-6">
+              <thead>
+                <tr className="text-white/60 text-left">
+                  <th className="py-1 font-semibold">Contrast</th>
+                  <th className="py-1 font-semibold">Ratio</th>
+                  <th className="py-1 font-semibold text-center">AA</th>
+                  <th className="py-1 font-semibold text-center">AAA</th>
+                </tr>
+              </thead>
+              <tbody>
+                {contrastSummary(design).map(row => (
+                  <tr key={row.label} className="border-t border-white/10 text-white">
+                    <td className="py-1">{row.label}</td>
+                    <td className="py-1 font-mono">{(Math.floor(row.ratio * 100) / 100).toFixed(2)}:1</td>
+                    <td className="py-1 text-center">{row.aa ? '✅' : '❌'}</td>
+                    <td className="py-1 text-center">{row.aaa === null ? '—' : row.aaa ? '✅' : '❌'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="glass-card p-6">
+            <h3 className="text-xl font-bold text-white mb-4">Checks</h3>
+            <div className="space-y-4">
+              {CHECK_GROUPS.map(group => {
+                const groupResults = results.filter(result => result.group === group)
+                if (groupResults.length === 0) return null
+                return (
+                  <div key={group}>
+                    <div className="text-white/60 text-sm font-semibold mb-2">{group}</div>
+                    <div className="space-y-2">
+                      {groupResults.map(result => (
+                        <div
+                          key={result.id}
+                          className={`flex items-center justify-between rounded-lg px-3 py-2 border ${
+                            result.passed ? 'bg-green-500/10 border-green-500/40' : 'bg-red-500/10 border-red-500/40'
+                          }`}
+                        >
+                          <span className="text-white text-sm">{result.passed ? '✅' : '❌'} {result.label}</span>
+                          <span className="text-white/70 text-xs font-mono text-right">
+                            {result.measured}<br />needs {result.required}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
             <motion.button
-              key={option.id}
-              onClick={() => !selectedAnswer && handleAnswer(option.id)}
-              disabled={selectedAnswer !== null}
-              className={`p-6 rounded-lg border-2 transition-all ${
-                selectedAnswer === option.id
-                  ? option.correct
-                    ? 'bg-green-500/20 border-green-500'
-                    : 'bg-red-500/20 border-red-500'
-                  : 'bg-white/5 border-white/20 hover:bg-white/10'
-              } ${selectedAnswer ? 'cursor-not-allowed' : 'cursor-pointer'}`}
-              whileHover={!selectedAnswer ? { scale: 1.02 } : {}}
-              whileTap={!selectedAnswer ? { scale: 0.98 } : {}}
+              onClick={submitDesign}
+              className="btn btn-primary w-full mt-6"
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
             >
-              <div className="text-white font-semibold mb-2">{option.label}</div>
-              {currentChallenge.type === 'color' && (
-                <div className="flex gap-2 justify-center">
-                  {option.value.split(' ').map((color, i) => (
-                    <div key={i} className="w-16 h-16 rounded" style={{ backgroundColor: color }}></div>
-                  ))}
-                </div>
-              )}
-              {selectedAnswer === option.id && (
-                <div className="mt-2 text-2xl">{option.correct ? '✅' : '❌'}</div>
-              )}
+              Submit Design
             </motion.button>
-          ))}
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          <div className="glass-card p-6">
+            <h3 className="text-xl font-bold text-white mb-4">🎨 Colours</h3>
+            <div className="space-y-4">
+              {(Object.keys(CARD_COLOR_ROLES) as CardColorRole[]).map(role => (
+                <div key={role}>
+                  <div className="flex items-center justify-between mb-2">
+                    <label htmlFor={`color-${role}`} className="text-white text-sm font-semibold">{CARD_COLOR_ROLES[role]}</label>
+                    <div className="flex items-center gap-2">
+                      <span className="text-white/60 text-xs font-mono">{design[role]}</span>
+                      <input
+                        id={`color-${role}`}
+                        type="color"
+                        value={design[role].toLowerCase()}
+                        onChange={(e) => updateDesign(role, e.target.value.toUpperCase())}
+                        className="w-8 h-8 rounded cursor-pointer bg-transparent"
+                      />
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {SWATCHES.map(swatch => (
+                      <button
+                        key={swatch}
+                        onClick={() => updateDesign(role, swatch)}
+                        className={`w-6 h-6 rounded border ${design[role] === swatch ? 'border-christmas-gold border-2' : 'border-white/30'}`}
+                        style={{ backgroundColor: swatch }}
+                        aria-label={`Use ${swatch} for ${CARD_COLOR_ROLES[role].toLowerCase()}`}
+                      />
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {showTypography && (
+            <div className="glass-card p-6">
+              <h3 className="text-xl font-bold text-white mb-4">🔤 Typography</h3>
+              <div className="grid grid-cols-2 gap-4">
+                {SIZE_FIELDS.map(field => (
+                  <label key={field.key} className="text-white text-sm">
+                    {field.label}: {design[field.key]}px
+                    <input
+                      type="range"
+                      min={10}
+                      max={48}
+                      value={design[field.key]}
+                      onChange={(e) => updateDesign(field.key, parseInt(e.target.value))}
+                      className="w-full"
+                    />
+                  </label>
+                ))}
+                <label className="text-white text-sm">
+                  Heading font
+                  <select
+                    value={design.headingFont}
+                    onChange={(e) => updateDesign('headingFont', e.target.value as FontChoice)}
+                    className="w-full mt-1 bg-white/10 border border-white/20 rounded-lg px-2 py-1 text-white"
+                  >
+                    {(Object.keys(FONT_STACKS) as FontChoice[]).map(font => (
+                      <option key={font} value={font} className="bg-gray-900">{FONT_STACKS[font].label}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-white text-sm">
+                  Body font
+                  <select
+                    value={design.bodyFont}
+                    onChange={(e) => updateDesign('bodyFont', e.target.value as FontChoice)}
+                    className="w-full mt-1 bg-white/10 border border-white/20 rounded-lg px-2 py-1 text-white"
+                  >
+                    {(Object.keys(FONT_STACKS) as FontChoice[]).map(font => (
+                      <option key={font} value={font} className="bg-gray-900">{FONT_STACKS[font].label}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2 text-white text-sm col-span-2">
+                  <input
+                    type="checkbox"
+                    checked={design.titleBold}
+                    onChange={(e) => updateDesign('titleBold', e.target.checked)}
+                  />
+                  Bold title
+                </label>
+              </div>
+            </div>
+          )}
+
+          {showSpacing && (
+            <div className="glass-card p-6">
+              <h3 className="text-xl font-bold text-white mb-4">📏 Spacing</h3>
+              <div className="grid grid-cols-3 gap-4">
+                {SPACING_FIELDS.map(field => (
+                  <label key={field.key} className="text-white text-sm">
+                    {field.label}
+                    <input
+                      type="number"
+                      min={0}
+                      max={64}
+                      value={design[field.key]}
+                      onChange={(e) => updateDesign(field.key, Math.max(0, parseInt(e.target.value) || 0))}
+                      className="w-full mt-1 bg-white/10 border border-white/20 rounded-lg px-2 py-1 text-white"
+                    />
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </GameContainer>
@@ -1,33 +1,132 @@
 'use client'
 
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react'
 import { motion } from 'framer-motion'
 import SandboxContainer from '@/components/Sandbox/SandboxContainer'
 import { useTutorialStore } from '@/stores/tutorialStore'
 import { useUserStore } from '@/stores/userStore'
 import { achievementManager } from '@/utils/achievementManager'
+import { getSession } from '@/utils/sessionManager'
+import { hslToHex } from '@/utils/colorUtils'
+import { FONT_STACKS, type FontChoice } from '@/utils/designChecks'
+import { deletePortfolioPiece, getPortfolio, savePortfolioPiece, type PortfolioPiece } from '@/lib/firebaseService'
+import {
+  ALIGNMENTS,
+  DesignError,
+  LAYER_KINDS,
+  MAX_DESIGN_BYTES,
+  PALETTE_HARMONIES,
+  alignLayers,
+  commitDesign,
+  createDesign,
+  createDesignId,
+  createHistory,
+  createLayer,
+  designFileName,
+  designSize,
+  designToSVG,
+  duplicateLayers,
+  expandSelection,
+  generatePalette,
+  groupLayers,
+  layerBounds,
+  layerToSVG,
+  moveLayers,
+  readImageFile,
+  redoDesign,
+  removeLayers,
+  renderDesignToPng,
+  reorderLayers,
+  selectionBounds,
+  snapMove,
+  svgDataUrl,
+  undoDesign,
+  ungroupLayers,
+  updateLayers,
+  type Alignment,
+  type DesignHistory,
+  type DesignLayer,
+  type LayerKind,
+  type PaletteHarmony,
+  type ReorderDirection,
+  type SnapResult,
+  type VectorDesign,
+} from '@/utils/vectorDesign'
 
-interface DesignElement {
-  id: string
-  type: 'rectangle' | 'circle' | 'text'
-  x: number
-  y: number
-  width: number
-  height: number
-  color: string
-  text?: string
+type Tool = 'select' | Exclude<LayerKind, 'image'>
+
+interface DragState {
+  mode: 'move' | 'resize'
+  startX: number
+  startY: number
+  base: VectorDesign
+  ids: string[]
+}
+
+const TOOLS: { id: Tool; label: string; icon: string }[] = [
+  { id: 'select', label: 'Select', icon: '🖱️' },
+  { id: 'rect', label: LAYER_KINDS.rect.label, icon: LAYER_KINDS.rect.icon },
+  { id: 'ellipse', label: LAYER_KINDS.ellipse.label, icon: LAYER_KINDS.ellipse.icon },
+  { id: 'line', label: LAYER_KINDS.line.label, icon: LAYER_KINDS.line.icon },
+  { id: 'text', label: LAYER_KINDS.text.label, icon: LAYER_KINDS.text.icon },
+]
+
+const REORDER_BUTTONS: { direction: ReorderDirection; label: string; icon: string }[] = [
+  { direction: 'front', label: 'Bring to front', icon: '⏫' },
+  { direction: 'forward', label: 'Bring forward', icon: '🔼' },
+  { direction: 'backward', label: 'Send backward', icon: '🔽' },
+  { direction: 'back', label: 'Send to back', icon: '⏬' },
+]
+
+const CANVAS_PRESETS = [
+  { label: 'Landscape (800×500)', width: 800, height: 500 },
+  { label: 'Square post (600×600)', width: 600, height: 600 },
+  { label: 'Poster (500×700)', width: 500, height: 700 },
+]
+
+const STARTER_COLORS = ['#EF4444', '#F97316', '#F59E0B', '#10B981', '#3B82F6', '#8B5CF6', '#EC4899', '#111827', '#FFFFFF']
+
+const inputClassName = 'w-full p-2 bg-white/10 text-white rounded-lg border border-white/20 text-sm'
+const iconButtonClassName = 'px-2 py-1 rounded-lg bg-white/10 hover:bg-white/20 text-white text-sm disabled:opacity-30 disabled:cursor-not-allowed'
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
 }
 
 export default function DesignStudioSandbox() {
-  const [elements, setElements] = useState<DesignElement[]>([])
-  const [selectedColor, setSelectedColor] = useState('#3B82F6')
-  const [selectedTool, setSelectedTool] = useState<'rectangle' | 'circle' | 'text'>('rectangle')
+  const [history, setHistory] = useState<DesignHistory>(() => createHistory(createDesign()))
+  const [draft, setDraft] = useState<VectorDesign | null>(null)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [tool, setTool] = useState<Tool>('select')
+  const [fillColor, setFillColor] = useState('#3B82F6')
+  const [guides, setGuides] = useState<SnapResult['guides'] | null>(null)
+  const [paletteBase, setPaletteBase] = useState('#3B82F6')
+  const [harmony, setHarmony] = useState<PaletteHarmony>('complementary')
+  const [designId, setDesignId] = useState(() => createDesignId())
+  const [portfolio, setPortfolio] = useState<PortfolioPiece[]>([])
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null)
   const [timeSpent, setTimeSpent] = useState(0)
   const startTimeRef = useRef<number>(Date.now())
-  const canvasRef = useRef<HTMLDivElement>(null)
+  const svgRef = useRef<SVGSVGElement>(null)
+  const dragRef = useRef<DragState | null>(null)
+  const imageInputRef = useRef<HTMLInputElement>(null)
 
   const { updateTopicProgress } = useTutorialStore()
   const { addXP } = useUserStore()
+  const userCode = typeof window !== 'undefined' ? getSession() : null
+
+  const design = draft ?? history.present
+  const selection = selectedIds.filter(id => design.layers.some(layer => layer.id === id))
+  const selectedLayers = design.layers.filter(layer => selection.includes(layer.id))
+  const bounds = selectionBounds(design.layers, selection)
+  const palette = useMemo(() => generatePalette(paletteBase, harmony), [paletteBase, harmony])
 
   useEffect(() => {
     const interval = setInterval(() => {
@@ -39,45 +138,298 @@ export default function DesignStudioSandbox() {
     return () => clearInterval(interval)
   }, [addXP])
 
+  // Saving a portfolio piece completes the sandbox; building a design gets most of the way
+  const layerCount = history.present.layers.length
+  useEffect(() => {
+    if (layerCount > 0) {
+      updateTopicProgress('graphics-design', 'sandbox', Math.min(90, layerCount * 10))
+    }
+  }, [layerCount, updateTopicProgress])
+
+  useEffect(() => {
+    if (!userCode) return
+    getPortfolio(userCode)
+      .then(setPortfolio)
+      .catch(error => console.error('Error loading portfolio:', error))
+  }, [userCode])
+
+  const showMessage = (text: string, isError = false) => {
+    setMessage({ text, isError })
+    setTimeout(() => setMessage(null), 4000)
+  }
+
+  const commit = useCallback((next: VectorDesign, mergeKey?: string) => {
+    setHistory(current => commitDesign(current, next, mergeKey))
+  }, [])
+
+  const commitLayers = useCallback((layers: DesignLayer[], mergeKey?: string) => {
+    commit({ ...history.present, layers }, mergeKey)
+  }, [commit, history.present])
+
+  const undo = useCallback(() => setHistory(undoDesign), [])
+  const redo = useCallback(() => setHistory(redoDesign), [])
+
+  const deleteSelection = useCallback(() => {
+    if (selection.length === 0) return
+    commitLayers(removeLayers(history.present.layers, selection))
+    setSelectedIds([])
+  }, [commitLayers, history.present.layers, selection])
+
+  const duplicateSelection = useCallback(() => {
+    if (selection.length === 0) return
+    const copied = duplicateLayers(history.present.layers, selection)
+    commitLayers(copied.layers)
+    setSelectedIds(copied.ids)
+  }, [commitLayers, history.present.layers, selection])
+
+  const groupSelection = useCallback(() => {
+    const grouped = groupLayers(history.present.layers, selection)
+    if (grouped.groupId) commitLayers(grouped.layers)
+  }, [commitLayers, history.present.layers, selection])
+
+  const ungroupSelection = useCallback(() => {
+    commitLayers(ungroupLayers(history.present.layers, selection))
+  }, [commitLayers, history.present.layers, selection])
+
+  const nudgeSelection = useCallback((dx: number, dy: number) => {
+    commitLayers(moveLayers(history.present.layers, selection, dx, dy), `nudge:${selection.join(',')}`)
+  }, [commitLayers, history.present.layers, selection])
+
+  // Keyboard shortcuts, ignored while typing in a field
   useEffect(() => {
-    if (elements.length > 0) {
-      const progressPercent = Math.min(100, elements.length * 10)
-      updateTopicProgress('graphics-design', 'sandbox', progressPercent)
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement
+      if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return
+
+      const modifier = e.ctrlKey || e.metaKey
+      const key = e.key.toLowerCase()
+      if (modifier && key === 'z') {
+        e.preventDefault()
+        if (e.shiftKey) redo()
+        else undo()
+      } else if (modifier && key === 'y') {
+        e.preventDefault()
+        redo()
+      } else if (modifier && key === 'd') {
+        e.preventDefault()
+        duplicateSelection()
+      } else if (modifier && key === 'g') {
+        e.preventDefault()
+        if (e.shiftKey) ungroupSelection()
+        else groupSelection()
+      } else if (key === 'delete' || key === 'backspace') {
+        e.preventDefault()
+        deleteSelection()
+      } else if (key === 'escape') {
+        setSelectedIds([])
+        setTool('select')
+      } else if (key.startsWith('arrow') && selection.length > 0) {
+        e.preventDefault()
+        const step = e.shiftKey ? 10 : 1
+        const dx = key === 'arrowleft' ? -step : key === 'arrowright' ? step : 0
+        const dy = key === 'arrowup' ? -step : key === 'arrowdown' ? step : 0
+        nudgeSelection(dx, dy)
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo, duplicateSelection, groupSelection, ungroupSelection, deleteSelection, nudgeSelection, selection.length])
+
+  const toDesignPoint = (e: React.PointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect()
+    return {
+      x: ((e.clientX - rect.left) * design.width) / rect.width,
+      y: ((e.clientY - rect.top) * design.height) / rect.height,
+    }
+  }
+
+  const startDrag = (e: React.PointerEvent, mode: DragState['mode'], ids: string[]) => {
+    const point = toDesignPoint(e)
+    dragRef.current = { mode, startX: point.x, startY: point.y, base: history.present, ids }
+    svgRef.current?.setPointerCapture(e.pointerId)
+  }
+
+  const handleCanvasPointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (tool === 'select') {
+      if (!e.shiftKey) setSelectedIds([])
+      return
+    }
+    const point = toDesignPoint(e)
+    const layer = createLayer(tool, point.x, point.y, fillColor, history.present.layers)
+    commitLayers([...history.present.layers, layer])
+    setSelectedIds([layer.id])
+    setTool('select')
+  }
+
+  const handleLayerPointerDown = (e: React.PointerEvent, layer: DesignLayer) => {
+    // With a shape tool the click falls through to the canvas and draws on top
+    if (tool !== 'select') return
+    e.stopPropagation()
+
+    let ids: string[]
+    if (e.shiftKey) {
+      const group = expandSelection(design.layers, [layer.id])
+      ids = selection.includes(layer.id) ? selection.filter(id => !group.includes(id)) : [...selection, ...group]
+    } else {
+      ids = selection.includes(layer.id) ? selection : expandSelection(design.layers, [layer.id])
     }
-  }, [elements.length, updateTopicProgress])
-
-  const handleCanvasClick = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (!canvasRef.current) return
-    const rect = canvasRef.current.getBoundingClientRect()
-    const x = e.clientX - rect.left
-    const y = e.clientY - rect.top
-
-    const newElement: DesignElement = {
-      id: `element-${Date.now()}`,
-      type: selectedTool,
-      x,
-      y,
-      width: selectedTool === 'circle' ? 80 : 120,
-      height: selectedTool === 'circle' ? 80 : 80,
-      color: selectedColor,
-      text: selectedTool === 'text' ? 'Text' : undefined
+    setSelectedIds(ids)
+
+    const movable = design.layers.filter(item => ids.includes(item.id) && !item.locked).map(item => item.id)
+    if (movable.length > 0 && !e.shiftKey) startDrag(e, 'move', movable)
+  }
+
+  const handleResizePointerDown = (e: React.PointerEvent, layer: DesignLayer) => {
+    e.stopPropagation()
+    startDrag(e, 'resize', [layer.id])
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current
+    if (!drag) return
+    const point = toDesignPoint(e)
+    const dx = point.x - drag.startX
+    const dy = point.y - drag.startY
+
+    if (drag.mode === 'resize') {
+      const layer = drag.base.layers.find(item => item.id === drag.ids[0])!
+      const width = layer.kind === 'line' ? layer.width + dx : Math.max(4, layer.width + dx)
+      const height = layer.kind === 'line' ? layer.height + dy : Math.max(4, layer.height + dy)
+      setDraft({ ...drag.base, layers: updateLayers(drag.base.layers, drag.ids, { width: Math.round(width), height: Math.round(height) }) })
+      return
+    }
+
+    // Hold Alt to move freely without snapping
+    const moving = selectionBounds(drag.base.layers, drag.ids)!
+    const others = drag.base.layers.filter(layer => !drag.ids.includes(layer.id) && !layer.hidden).map(layerBounds)
+    const snap = e.altKey
+      ? { dx, dy, guides: { vertical: [], horizontal: [] } }
+      : snapMove(moving, dx, dy, others, drag.base)
+    setGuides(snap.guides)
+    setDraft({ ...drag.base, layers: moveLayers(drag.base.layers, drag.ids, snap.dx, snap.dy) })
+  }
+
+  const handlePointerUp = () => {
+    if (draft) commit(draft)
+    dragRef.current = null
+    setDraft(null)
+    setGuides(null)
+  }
+
+  const updateSelection = (change: Partial<DesignLayer>, field: string) => {
+    commitLayers(updateLayers(history.present.layers, selection, change), `${field}:${selection.join(',')}`)
+  }
+
+  const applyColor = (color: string) => {
+    setFillColor(color)
+    if (selection.length > 0) updateSelection(selectedLayers.every(layer => layer.kind === 'line') ? { stroke: color } : { fill: color }, 'color')
+  }
+
+  const align = (alignment: Alignment) => {
+    commitLayers(alignLayers(history.present, selection, alignment))
+  }
+
+  const reorder = (direction: ReorderDirection) => {
+    commitLayers(reorderLayers(history.present.layers, selection, direction))
+  }
+
+  const selectFromLayerList = (layer: DesignLayer, additive: boolean) => {
+    const group = expandSelection(design.layers, [layer.id])
+    if (!additive) setSelectedIds(group)
+    else setSelectedIds(selection.includes(layer.id) ? selection.filter(id => !group.includes(id)) : [...selection, ...group])
+  }
+
+  const handleImageUpload = async (file: File) => {
+    try {
+      const image = await readImageFile(file)
+      // Fit large images inside the canvas
+      const scale = Math.min(1, (design.width * 0.6) / image.width, (design.height * 0.6) / image.height)
+      const layer = createLayer('image', design.width / 2, design.height / 2, '#000000', history.present.layers, {
+        name: file.name.replace(/\.[^.]+$/, '') || 'Image',
+        href: image.href,
+        width: Math.round(image.width * scale),
+        height: Math.round(image.height * scale),
+      })
+      layer.x = Math.round((design.width - layer.width) / 2)
+      layer.y = Math.round((design.height - layer.height) / 2)
+      commitLayers([...history.present.layers, layer])
+      setSelectedIds([layer.id])
+    } catch (error) {
+      showMessage(error instanceof DesignError ? error.message : `Could not add ${file.name}.`, true)
+    }
+  }
+
+  const exportSVG = () => {
+    downloadBlob(new Blob([designToSVG(history.present)], { type: 'image/svg+xml' }), designFileName(history.present, 'svg'))
+  }
+
+  const exportPNG = async () => {
+    try {
+      downloadBlob(await renderDesignToPng(history.present), designFileName(history.present, 'png'))
+    } catch (error) {
+      showMessage(error instanceof DesignError ? error.message : 'PNG export failed.', true)
+    }
+  }
+
+  const saveToPortfolio = async () => {
+    if (!userCode) return
+    if (designSize(history.present) > MAX_DESIGN_BYTES) {
+      showMessage('This design is too large to save. Try removing an image or two.', true)
+      return
     }
 
-    setElements([...elements, newElement])
+    setIsSaving(true)
+    try {
+      await savePortfolioPiece(userCode, designId, history.present)
+      setPortfolio(await getPortfolio(userCode))
+      updateTopicProgress('graphics-design', 'sandbox', 100)
+      achievementManager.checkAll()
+      showMessage(`Saved "${history.present.title}" to your portfolio`)
+    } catch (error) {
+      showMessage(error instanceof Error ? error.message : 'Failed to save your design.', true)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const openPiece = (piece: PortfolioPiece) => {
+    const { title, width, height, background, layers, palette: savedPalette } = piece
+    setHistory(createHistory({ title, width, height, background, layers, palette: savedPalette ?? [] }))
+    setDesignId(piece.id)
+    setSelectedIds([])
+    showMessage(`Opened "${piece.title}"`)
+  }
+
+  const deletePiece = async (id: string) => {
+    if (!userCode) return
+    setPendingDeleteId(null)
+    try {
+      await deletePortfolioPiece(userCode, id)
+      setPortfolio(portfolio.filter(piece => piece.id !== id))
+      // Keep editing, but a later save creates a new piece
+      if (id === designId) setDesignId(createDesignId())
+    } catch (error) {
+      showMessage(error instanceof Error ? error.message : 'Failed to delete that design.', true)
+    }
   }
 
-  const removeElement = (id: string) => {
-    setElements(elements.filter(e => e.id !== id))
+  const startNewDesign = () => {
+    setHistory(createHistory(createDesign()))
+    setDesignId(createDesignId())
+    setSelectedIds([])
   }
 
   const clearCanvas = () => {
-    setElements([])
+    commitLayers([])
+    setSelectedIds([])
   }
 
-  const colors = ['#EF4444', '#F97316', '#F59E0B', '#10B981', '#3B82F6', '#8B5CF6', '#EC4899', '#000000', '#FFFFFF']
+  const single = selectedLayers.length === 1 ? selectedLayers[0] : null
+  const selectionIsGrouped = selectedLayers.some(layer => layer.groupId)
+  const isSaved = portfolio.some(piece => piece.id === designId)
 
   return (
-    <SandboxContainer title="Design Studio" icon="🎨" onRun={() => {}} onReset={clearCanvas} isRunning={false}>
+    <SandboxContainer title="Design Studio" icon="🎨" onReset={clearCanvas}>
       <div className="glass-card p-4 mb-6 text-center">
         <div className="text-white/70 text-sm mb-1">Time Creating</div>
         <div className="text-2xl font-bold text-christmas-gold">
@@ -85,77 +437,480 @@ export default function DesignStudioSandbox() {
         </div>
       </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
-        <div className="glass-card p-6">
-          <h3 className="text-xl font-bold text-white mb-4">🎨 Tools</h3>
-          <div className="space-y-3">
-            <button onClick={() => setSelectedTool('rectangle')} className={`w-full p-3 rounded-lg ${selectedTool === 'rectangle' ? 'bg-blue-500' : 'bg-white/10'} text-white`}>
-              ◼️ Rectangle
-            </button>
-            <button onClick={() => setSelectedTool('circle')} className={`w-full p-3 rounded-lg ${selectedTool === 'circle' ? 'bg-blue-500' : 'bg-white/10'} text-white`}>
-              ⭕ Circle
-            </button>
-            <button onClick={() => setSelectedTool('text')} className={`w-full p-3 rounded-lg ${selectedTool === 'text' ? 'bg-blue-500' : 'bg-white/10'} text-white`}>
-              📝 Text
-            </button>
-          </div>
+      {message && (
+        <motion.div
+          className={`glass-card p-3 mb-6 text-center font-semibold ${message.isError ? 'text-red-300' : 'text-green-300'}`}
+          initial={{ opacity: 0, y: -10 }}
+          animate={{ opacity: 1, y: 0 }}
+        >
+          {message.text}
+        </motion.div>
+      )}
 
-          <h3 className="text-xl font-bold text-white mb-4 mt-6">🎨 Colors</h3>
-          <div className="grid grid-cols-3 gap-2">
-            {colors.map(color => (
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Tools and Colours */}
+        <div className="glass-card p-6 space-y-6">
+          <div>
+            <h3 className="text-xl font-bold text-white mb-4">🛠️ Tools</h3>
+            <div className="grid grid-cols-2 gap-2">
+              {TOOLS.map(item => (
+                <button
+                  key={item.id}
+                  onClick={() => setTool(item.id)}
+                  className={`p-2 rounded-lg text-sm text-white ${tool === item.id ? 'bg-blue-500' : 'bg-white/10 hover:bg-white/20'}`}
+                >
+                  {item.icon} {item.label}
+                </button>
+              ))}
               <button
-                key={color}
-                onClick={() => setSelectedColor(color)}
-                className={`w-full h-12 rounded-lg border-2 ${selectedColor === color ? 'border-christmas-gold scale-110' : 'border-white/20'}`}
-                style={{ backgroundColor: color }}
+                onClick={() => imageInputRef.current?.click()}
+                className="p-2 rounded-lg text-sm text-white bg-white/10 hover:bg-white/20"
+              >
+                {LAYER_KINDS.image.icon} Image
+              </button>
+              <input
+                ref={imageInputRef}
+                type="file"
+                accept="image/*"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) handleImageUpload(file)
+                  e.target.value = ''
+                }}
               />
-            ))}
+            </div>
+            <p className="text-white/50 text-xs mt-2">
+              {tool === 'select'
+                ? 'Click to select, Shift+click to add to the selection, drag to move (hold Alt to stop snapping).'
+                : `Click the canvas to place a ${LAYER_KINDS[tool].label.toLowerCase()}.`}
+            </p>
           </div>
-        </div>
 
-        <div className="glass-card p-6 lg:col-span-3">
-          <h3 className="text-xl font-bold text-white mb-4">🖼️ Canvas</h3>
-          <div
-            ref={canvasRef}
-            onClick={handleCanvasClick}
-            className="relative bg-white rounded-lg cursor-crosshair"
-            style={{ height: '500px' }}
-          >
-            {elements.map(element => (
-              <motion.div
-                key={element.id}
-                className="absolute group"
-                style={{
-                  left: element.x,
-                  top: element.y,
-                  width: element.width,
-                  height: element.height,
-                  backgroundColor: element.type !== 'text' ? element.color : 'transparent',
-                  borderRadius: element.type === 'circle' ? '50%' : '4px',
-                  color: element.type === 'text' ? element.color : 'transparent',
-                  fontSize: element.type === 'text' ? '24px' : '0',
-                  fontWeight: 'bold',
-                  display: 'flex',
-                  alignItems: 'center',
-                  justifyContent: 'center'
-                }}
-                initial={{ scale: 0 }}
-                animate={{ scale: 1 }}
-              >
-                {element.text}
+          <div>
+            <h3 className="text-xl font-bold text-white mb-4">🎨 Colour</h3>
+            <div className="grid grid-cols-5 gap-2 mb-3">
+              {[...STARTER_COLORS, ...design.palette].slice(0, 15).map((color, index) => (
                 <button
-                  onClick={(e) => { e.stopPropagation(); removeElement(element.id); }}
-                  className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full w-6 h-6 opacity-0 group-hover:opacity-100 transition-opacity"
+                  key={`${color}-${index}`}
+                  onClick={() => applyColor(color)}
+                  className={`h-8 rounded-lg border-2 ${fillColor === color ? 'border-christmas-gold scale-110' : 'border-white/20'}`}
+                  style={{ backgroundColor: color }}
+                  title={color}
+                />
+              ))}
+            </div>
+            <input
+              type="color"
+              value={fillColor}
+              onChange={(e) => applyColor(e.target.value.toUpperCase())}
+              className="w-full h-10 rounded-lg bg-transparent cursor-pointer"
+            />
+          </div>
+
+          <div>
+            <h3 className="text-xl font-bold text-white mb-4">🌈 Palette Generator</h3>
+            <div className="flex gap-2 mb-2">
+              <input
+                type="color"
+                value={paletteBase}
+                onChange={(e) => setPaletteBase(e.target.value.toUpperCase())}
+                className="w-12 h-10 rounded-lg bg-transparent cursor-pointer"
+                title="Base colour"
+              />
+              <select value={harmony} onChange={(e) => setHarmony(e.target.value as PaletteHarmony)} className={inputClassName}>
+                {(Object.keys(PALETTE_HARMONIES) as PaletteHarmony[]).map(id => (
+                  <option key={id} value={id} className="bg-gray-800">{PALETTE_HARMONIES[id].label}</option>
+                ))}
+              </select>
+            </div>
+            <p className="text-white/50 text-xs mb-3">{PALETTE_HARMONIES[harmony].description}</p>
+            <div className="space-y-1 mb-3">
+              {palette.map((swatch, index) => (
+                <button
+                  key={`${swatch.hex}-${index}`}
+                  onClick={() => applyColor(swatch.hex)}
+                  className="w-full flex items-center justify-between px-3 py-2 rounded-lg text-xs font-semibold"
+                  style={{ backgroundColor: swatch.hex, color: swatch.textColor }}
                 >
-                  ✕
+                  <span>{swatch.role}</span>
+                  <span>{swatch.hex}</span>
                 </button>
-              </motion.div>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setPaletteBase(hslToHex(Math.random() * 360, 55 + Math.random() * 30, 40 + Math.random() * 20))}
+                className="btn btn-secondary flex-1 text-sm"
+              >
+                🎲 Random
+              </button>
+              <button
+                onClick={() => commit({ ...history.present, palette: palette.map(swatch => swatch.hex) })}
+                className="btn btn-primary flex-1 text-sm"
+              >
+                📌 Use
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Canvas */}
+        <div className="glass-card p-6 lg:col-span-2">
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            <button onClick={undo} disabled={history.past.length === 0} className={iconButtonClassName} title="Undo (Ctrl+Z)">↩️</button>
+            <button onClick={redo} disabled={history.future.length === 0} className={iconButtonClassName} title="Redo (Ctrl+Shift+Z)">↪️</button>
+            <span className="w-px h-6 bg-white/20" />
+            <button onClick={duplicateSelection} disabled={selection.length === 0} className={iconButtonClassName} title="Duplicate (Ctrl+D)">⧉</button>
+            <button onClick={deleteSelection} disabled={selection.length === 0} className={iconButtonClassName} title="Delete">🗑️</button>
+            <button onClick={groupSelection} disabled={selection.length < 2} className={iconButtonClassName} title="Group (Ctrl+G)">🔗 Group</button>
+            <button onClick={ungroupSelection} disabled={!selectionIsGrouped} className={iconButtonClassName} title="Ungroup (Ctrl+Shift+G)">✂️ Ungroup</button>
+            <span className="w-px h-6 bg-white/20" />
+            {REORDER_BUTTONS.map(button => (
+              <button
+                key={button.direction}
+                onClick={() => reorder(button.direction)}
+                disabled={selection.length === 0}
+                className={iconButtonClassName}
+                title={button.label}
+              >
+                {button.icon}
+              </button>
+            ))}
+            <span className="w-px h-6 bg-white/20" />
+            {(Object.keys(ALIGNMENTS) as Alignment[]).map(alignment => (
+              <button
+                key={alignment}
+                onClick={() => align(alignment)}
+                disabled={selection.length === 0}
+                className={iconButtonClassName}
+                title={`${ALIGNMENTS[alignment].label}${selectedLayers.every(layer => layer.groupId && layer.groupId === selectedLayers[0].groupId) || selection.length === 1 ? ' (to canvas)' : ''}`}
+              >
+                {ALIGNMENTS[alignment].icon}
+              </button>
+            ))}
+          </div>
+
+          <svg
+            ref={svgRef}
+            viewBox={`0 0 ${design.width} ${design.height}`}
+            className={`w-full rounded-lg touch-none select-none ${tool === 'select' ? 'cursor-default' : 'cursor-crosshair'}`}
+            onPointerDown={handleCanvasPointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            <rect width={design.width} height={design.height} fill={design.background} />
+            {design.layers.map(layer => (
+              <g
+                key={layer.id}
+                onPointerDown={(e) => handleLayerPointerDown(e, layer)}
+                className={tool === 'select' ? (layer.locked ? 'cursor-not-allowed' : 'cursor-move') : undefined}
+                dangerouslySetInnerHTML={{ __html: layerToSVG(layer) }}
+              />
+            ))}
+
+            {guides?.vertical.map(x => (
+              <line key={`v-${x}`} x1={x} y1={0} x2={x} y2={design.height} stroke="#EC4899" strokeWidth={1} strokeDasharray="4 4" pointerEvents="none" />
             ))}
-            {elements.length === 0 && (
-              <div className="absolute inset-0 flex items-center justify-center text-gray-400">
-                <div className="text-center">
-                  <div className="text-4xl mb-2">🎨</div>
-                  <p>Click to add design elements</p>
+            {guides?.horizontal.map(y => (
+              <line key={`h-${y}`} x1={0} y1={y} x2={design.width} y2={y} stroke="#EC4899" strokeWidth={1} strokeDasharray="4 4" pointerEvents="none" />
+            ))}
+
+            {bounds && (
+              <rect
+                x={bounds.left - 4}
+                y={bounds.top - 4}
+                width={bounds.right - bounds.left + 8}
+                height={bounds.bottom - bounds.top + 8}
+                fill="none"
+                stroke="#3B82F6"
+                strokeWidth={1.5}
+                strokeDasharray="6 4"
+                pointerEvents="none"
+              />
+            )}
+            {single && single.kind !== 'text' && !single.locked && (
+              <rect
+                x={single.x + single.width - 6}
+                y={single.y + single.height - 6}
+                width={12}
+                height={12}
+                fill="#FFFFFF"
+                stroke="#3B82F6"
+                strokeWidth={2}
+                className="cursor-nwse-resize"
+                onPointerDown={(e) => handleResizePointerDown(e, single)}
+              />
+            )}
+
+            {design.layers.length === 0 && (
+              <text x={design.width / 2} y={design.height / 2} textAnchor="middle" fill="#9CA3AF" fontSize={20} pointerEvents="none">
+                Pick a tool and click to start designing
+              </text>
+            )}
+          </svg>
+          <p className="text-white/50 text-xs mt-2">
+            Shortcuts: Ctrl+Z undo · Ctrl+Shift+Z redo · Ctrl+D duplicate · Ctrl+G group · arrows nudge (Shift for 10px) · Delete removes
+          </p>
+
+          {/* Export and Portfolio */}
+          <div className="mt-6 space-y-4">
+            <div className="flex flex-wrap gap-2">
+              <button onClick={exportSVG} className="btn btn-secondary">⬇️ SVG</button>
+              <button onClick={exportPNG} className="btn btn-secondary">⬇️ PNG</button>
+              <button
+                onClick={saveToPortfolio}
+                disabled={!userCode || isSaving || design.layers.length === 0}
+                className="btn btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSaving ? 'Saving...' : isSaved ? '💾 Update Portfolio' : '💾 Save to Portfolio'}
+              </button>
+              <button onClick={startNewDesign} className="btn btn-secondary">📄 New Design</button>
+            </div>
+            {!userCode && <p className="text-white/50 text-xs">Sign in to save designs to your portfolio.</p>}
+
+            {portfolio.length > 0 && (
+              <div>
+                <h3 className="text-xl font-bold text-white mb-3">🗂️ My Portfolio</h3>
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                  {portfolio.map(piece => (
+                    <div key={piece.id} className={`bg-white/5 rounded-lg p-2 border ${piece.id === designId ? 'border-christmas-gold' : 'border-white/10'}`}>
+                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                      <img src={svgDataUrl(designToSVG(piece))} alt={piece.title} className="w-full rounded bg-white" />
+                      <div className="text-white text-sm font-semibold truncate mt-2">{piece.title}</div>
+                      <div className="text-white/50 text-xs">{piece.updatedAt?.toDate?.().toLocaleDateString()}</div>
+                      {pendingDeleteId === piece.id ? (
+                        <div className="flex gap-1 mt-2">
+                          <button onClick={() => deletePiece(piece.id)} className="flex-1 text-xs px-2 py-1 rounded bg-red-500 text-white">Delete</button>
+                          <button onClick={() => setPendingDeleteId(null)} className="flex-1 text-xs px-2 py-1 rounded bg-white/10 text-white">Keep</button>
+                        </div>
+                      ) : (
+                        <div className="flex gap-1 mt-2">
+                          <button onClick={() => openPiece(piece)} className="flex-1 text-xs px-2 py-1 rounded bg-blue-500 text-white">Open</button>
+                          <button onClick={() => setPendingDeleteId(piece.id)} className="text-xs px-2 py-1 rounded bg-white/10 text-white">🗑️</button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Layers and Properties */}
+        <div className="glass-card p-6 space-y-6">
+          <div>
+            <h3 className="text-xl font-bold text-white mb-4">📚 Layers</h3>
+            {design.layers.length === 0 ? (
+              <p className="text-white/50 text-sm">No layers yet.</p>
+            ) : (
+              <div className="space-y-1 max-h-64 overflow-y-auto">
+                {[...design.layers].reverse().map(layer => (
+                  <div
+                    key={layer.id}
+                    onClick={(e) => selectFromLayerList(layer, e.shiftKey)}
+                    className={`flex items-center gap-2 px-2 py-1 rounded-lg cursor-pointer text-sm ${selection.includes(layer.id) ? 'bg-blue-500/40' : 'bg-white/5 hover:bg-white/10'} ${layer.groupId ? 'border-l-4 border-purple-400' : ''}`}
+                  >
+                    <span>{LAYER_KINDS[layer.kind].icon}</span>
+                    <span className={`flex-1 truncate ${layer.hidden ? 'text-white/40 line-through' : 'text-white'}`}>{layer.name}</span>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); commitLayers(updateLayers(history.present.layers, [layer.id], { hidden: !layer.hidden })) }}
+                      title={layer.hidden ? 'Show' : 'Hide'}
+                      className="opacity-70 hover:opacity-100"
+                    >
+                      {layer.hidden ? '🙈' : '👁️'}
+                    </button>
+                    <button
+                      onClick={(e) => { e.stopPropagation(); commitLayers(updateLayers(history.present.layers, [layer.id], { locked: !layer.locked })) }}
+                      title={layer.locked ? 'Unlock' : 'Lock'}
+                      className="opacity-70 hover:opacity-100"
+                    >
+                      {layer.locked ? '🔒' : '🔓'}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-xl font-bold text-white mb-4">⚙️ {single ? 'Layer' : selection.length > 1 ? `${selection.length} Layers` : 'Document'}</h3>
+
+            {selection.length === 0 && (
+              <div className="space-y-3">
+                <div>
+                  <label className="text-white/70 text-xs block mb-1">Title</label>
+                  <input
+                    value={design.title}
+                    onChange={(e) => commit({ ...history.present, title: e.target.value }, 'title')}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="text-white/70 text-xs block mb-1">Canvas size</label>
+                  <select
+                    value={`${design.width}x${design.height}`}
+                    onChange={(e) => {
+                      const preset = CANVAS_PRESETS.find(item => `${item.width}x${item.height}` === e.target.value)!
+                      commit({ ...history.present, width: preset.width, height: preset.height })
+                    }}
+                    className={inputClassName}
+                  >
+                    {CANVAS_PRESETS.map(preset => (
+                      <option key={preset.label} value={`${preset.width}x${preset.height}`} className="bg-gray-800">{preset.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="text-white/70 text-xs block mb-1">Background</label>
+                  <input
+                    type="color"
+                    value={design.background}
+                    onChange={(e) => commit({ ...history.present, background: e.target.value.toUpperCase() }, 'background')}
+                    className="w-full h-10 rounded-lg bg-transparent cursor-pointer"
+                  />
+                </div>
+              </div>
+            )}
+
+            {single && (
+              <div className="space-y-3">
+                <div>
+                  <label className="text-white/70 text-xs block mb-1">Name</label>
+                  <input value={single.name} onChange={(e) => updateSelection({ name: e.target.value }, 'name')} className={inputClassName} />
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {(['x', 'y', 'width', 'height'] as const).map(field => (
+                    <div key={field}>
+                      <label className="text-white/70 text-xs block mb-1">{field === 'width' ? 'W' : field === 'height' ? 'H' : field.toUpperCase()}</label>
+                      <input
+                        type="number"
+                        value={single[field]}
+                        disabled={single.kind === 'text' && (field === 'width' || field === 'height')}
+                        onChange={(e) => updateSelection({ [field]: Number(e.target.value) || 0 }, field)}
+                        className={`${inputClassName} disabled:opacity-50`}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div>
+                  <label className="text-white/70 text-xs block mb-1">Rotation: {single.rotation}°</label>
+                  <input
+                    type="range"
+                    min={-180}
+                    max={180}
+                    value={single.rotation}
+                    onChange={(e) => updateSelection({ rotation: Number(e.target.value) }, 'rotation')}
+                    className="w-full"
+                  />
+                </div>
+                {single.kind === 'rect' && (
+                  <div>
+                    <label className="text-white/70 text-xs block mb-1">Corner radius: {single.radius ?? 0}px</label>
+                    <input
+                      type="range"
+                      min={0}
+                      max={Math.round(Math.min(single.width, single.height) / 2)}
+                      value={single.radius ?? 0}
+                      onChange={(e) => updateSelection({ radius: Number(e.target.value) }, 'radius')}
+                      className="w-full"
+                    />
+                  </div>
+                )}
+                {single.kind === 'text' && (
+                  <>
+                    <div>
+                      <label className="text-white/70 text-xs block mb-1">Text</label>
+                      <textarea
+                        value={single.text ?? ''}
+                        onChange={(e) => updateSelection({ text: e.target.value }, 'text')}
+                        rows={2}
+                        className={inputClassName}
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <label className="text-white/70 text-xs block mb-1">Size</label>
+                        <input
+                          type="number"
+                          min={8}
+                          max={200}
+                          value={single.fontSize ?? 32}
+                          onChange={(e) => updateSelection({ fontSize: Math.max(8, Number(e.target.value) || 8) }, 'fontSize')}
+                          className={inputClassName}
+                        />
+                      </div>
+                      <div>
+                        <label className="text-white/70 text-xs block mb-1">Font</label>
+                        <select
+                          value={single.font ?? 'sans'}
+                          onChange={(e) => updateSelection({ font: e.target.value as FontChoice }, 'font')}
+                          className={inputClassName}
+                        >
+                          {(Object.keys(FONT_STACKS) as FontChoice[]).map(font => (
+                            <option key={font} value={font} className="bg-gray-800">{FONT_STACKS[font].label}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+                    <label className="flex items-center gap-2 text-white text-sm">
+                      <input type="checkbox" checked={single.bold ?? false} onChange={(e) => updateSelection({ bold: e.target.checked }, 'bold')} />
+                      Bold
+                    </label>
+                  </>
+                )}
+              </div>
+            )}
+
+            {selection.length > 0 && (
+              <div className="space-y-3 mt-3">
+                {selectedLayers.some(layer => layer.kind !== 'line' && layer.kind !== 'image') && (
+                  <div>
+                    <label className="text-white/70 text-xs block mb-1">Fill</label>
+                    <input
+                      type="color"
+                      value={selectedLayers.find(layer => layer.kind !== 'line')?.fill ?? fillColor}
+                      onChange={(e) => updateSelection({ fill: e.target.value.toUpperCase() }, 'fill')}
+                      className="w-full h-10 rounded-lg bg-transparent cursor-pointer"
+                    />
+                  </div>
+                )}
+                {selectedLayers.some(layer => layer.kind !== 'image') && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <label className="text-white/70 text-xs block mb-1">Stroke</label>
+                      <input
+                        type="color"
+                        value={selectedLayers[0].stroke}
+                        onChange={(e) => updateSelection({ stroke: e.target.value.toUpperCase() }, 'stroke')}
+                        className="w-full h-10 rounded-lg bg-transparent cursor-pointer"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-white/70 text-xs block mb-1">Stroke width</label>
+                      <input
+                        type="number"
+                        min={0}
+                        max={40}
+                        value={selectedLayers[0].strokeWidth}
+                        onChange={(e) => updateSelection({ strokeWidth: Math.max(0, Number(e.target.value) || 0) }, 'strokeWidth')}
+                        className={inputClassName}
+                      />
+                    </div>
+                  </div>
+                )}
+                <div>
+                  <label className="text-white/70 text-xs block mb-1">Opacity: {Math.round(selectedLayers[0].opacity * 100)}%</label>
+                  <input
+                    type="range"
+                    min={0}
+                    max={100}
+                    value={Math.round(selectedLayers[0].opacity * 100)}
+                    onChange={(e) => updateSelection({ opacity: Number(e.target.value) / 100 }, 'opacity')}
+                    className="w-full"
+                  />
                 </div>
               </div>
             )}
@@ -9,6 +9,7 @@ import DragDropZone from '@/components/Games/DragDropZone'
 import { useTutorialStore } from '@/stores/tutorialStore'
 import { useUserStore } from '@/stores/userStore'
 import { achievementManager } from '@/utils/achievementManager'
+import { reachableFrom, type FlowEdge } from '@/utils/userFlow'
 
 interface UIComponent {
   id: string
@@ -18,6 +19,15 @@ interface UIComponent {
   props?: any
 }
 
+interface PrototypeScreen {
+  id: string
+  name: string
+  components: UIComponent[]
+}
+
+/** Button target that returns to the previous screen */
+const BACK_TARGET = 'back'
+
 const AVAILABLE_COMPONENTS: UIComponent[] = [
   { id: 'button-1', type: 'button', label: 'Button', icon: '🔘', props: { text: 'Click Me' } },
   { id: 'image-1', type: 'image', label: 'Image', icon: '🖼️', props: { src: 'placeholder' } },
@@ -26,8 +36,26 @@ const AVAILABLE_COMPONENTS: UIComponent[] = [
   { id: 'input-1', type: 'input', label: 'Text Input', icon: '⌨️', props: { placeholder: 'Enter text...' } },
 ]
 
+const createScreen = (name: string): PrototypeScreen => ({
+  id: `screen-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  name,
+  components: [],
+})
+
+/**
+ * Buttons that open another screen, as flow edges
+ */
+function prototypeEdges(screens: PrototypeScreen[]): FlowEdge[] {
+  return screens.flatMap(screen => screen.components
+    .filter(component => component.type === 'button' && component.props?.target && component.props.target !== BACK_TARGET)
+    .map(component => ({ from: screen.id, to: component.props.target as string, condition: 'tap' as const })))
+}
+
 export default function AppDesignerSandbox() {
-  const [components, setComponents] = useState<UIComponent[]>([])
+  const [screens, setScreens] = useState<PrototypeScreen[]>([{ id: 'screen-1', name: 'Home', components: [] }])
+  const [activeScreenId, setActiveScreenId] = useState(screens[0].id)
+  const [playing, setPlaying] = useState(false)
+  const [history, setHistory] = useState<string[]>([])
   const [timeSpent, setTimeSpent] = useState(0)
   const startTimeRef = useRef<number>(Date.now())
 
@@ -54,13 +82,24 @@ export default function AppDesignerSandbox() {
     return () => clearInterval(interval)
   }, [addXP])
 
-  // Update progress when components are added
+  const activeScreen = screens.find(screen => screen.id === activeScreenId) ?? screens[0]
+  const components = activeScreen.components
+  const totalComponents = screens.reduce((total, screen) => total + screen.components.length, 0)
+  const edges = prototypeEdges(screens)
+  const reachable = reachableFrom(screens[0].id, edges)
+  const screenName = (id: string) => screens.find(screen => screen.id === id)?.name ?? 'a deleted screen'
+
+  // Update progress when components are added; linking screens counts too
   useEffect(() => {
-    if (components.length > 0) {
-      const progressPercent = Math.min(100, components.length * 15)
+    if (totalComponents > 0) {
+      const progressPercent = Math.min(100, totalComponents * 15 + edges.length * 10)
       updateTopicProgress('mobile-app', 'sandbox', progressPercent)
     }
-  }, [components.length, updateTopicProgress])
+  }, [totalComponents, edges.length, updateTopicProgress])
+
+  const setComponents = (next: UIComponent[]) => {
+    setScreens(screens.map(screen => screen.id === activeScreen.id ? { ...screen, components: next } : screen))
+  }
 
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event
@@ -81,20 +120,92 @@ export default function AppDesignerSandbox() {
 
   const updateComponentProp = (index: number, key: string, value: any) => {
     const newComponents = [...components]
-    newComponents[index].props = { ...newComponents[index].props, [key]: value }
+    newComponents[index] = { ...newComponents[index], props: { ...newComponents[index].props, [key]: value } }
     setComponents(newComponents)
   }
 
+  const addScreen = () => {
+    const screen = createScreen(`Screen ${screens.length + 1}`)
+    setScreens([...screens, screen])
+    setActiveScreenId(screen.id)
+  }
+
+  const renameScreen = (name: string) => {
+    setScreens(screens.map(screen => screen.id === activeScreen.id ? { ...screen, name } : screen))
+  }
+
+  const deleteScreen = () => {
+    if (screens.length === 1) return
+    // Buttons that pointed at the deleted screen stop navigating
+    const remaining = screens
+      .filter(screen => screen.id !== activeScreen.id)
+      .map(screen => ({
+        ...screen,
+        components: screen.components.map(component => component.props?.target === activeScreen.id
+          ? { ...component, props: { ...component.props, target: '' } }
+          : component),
+      }))
+    setScreens(remaining)
+    setActiveScreenId(remaining[0].id)
+  }
+
   const resetCanvas = () => {
-    setComponents([])
+    const screen = createScreen('Home')
+    setScreens([screen])
+    setActiveScreenId(screen.id)
+    setPlaying(false)
+  }
+
+  const startPrototype = () => {
+    setHistory([screens[0].id])
+    setPlaying(true)
+  }
+
+  const navigate = (target?: string) => {
+    if (!target) return
+    if (target === BACK_TARGET) {
+      if (history.length > 1) setHistory(history.slice(0, -1))
+      return
+    }
+    if (screens.some(screen => screen.id === target)) setHistory([...history, target])
   }
 
-  const renderComponent = (component: UIComponent, index: number) => {
+  const loadLoginFlow = () => {
+    const login = createScreen('Login')
+    const home = createScreen('Home')
+    const profile = createScreen('Profile')
+    login.components = [
+      { ...AVAILABLE_COMPONENTS[2], id: 'flow-1', props: { content: 'Welcome back!' } },
+      { ...AVAILABLE_COMPONENTS[4], id: 'flow-2', props: { placeholder: 'Email' } },
+      { ...AVAILABLE_COMPONENTS[4], id: 'flow-3', props: { placeholder: 'Password' } },
+      { ...AVAILABLE_COMPONENTS[0], id: 'flow-4', props: { text: 'Sign In', target: home.id } },
+    ]
+    home.components = [
+      { ...AVAILABLE_COMPONENTS[2], id: 'flow-5', props: { content: 'My Items' } },
+      { ...AVAILABLE_COMPONENTS[3], id: 'flow-6', props: { items: 4 } },
+      { ...AVAILABLE_COMPONENTS[0], id: 'flow-7', props: { text: 'My Profile', target: profile.id } },
+      { ...AVAILABLE_COMPONENTS[0], id: 'flow-8', props: { text: 'Log Out', target: login.id } },
+    ]
+    profile.components = [
+      { ...AVAILABLE_COMPONENTS[0], id: 'flow-9', props: { text: '‹ Back', target: BACK_TARGET } },
+      { ...AVAILABLE_COMPONENTS[1], id: 'flow-10' },
+      { ...AVAILABLE_COMPONENTS[2], id: 'flow-11', props: { content: 'John Doe' } },
+    ]
+    setScreens([login, home, profile])
+    setActiveScreenId(login.id)
+    setPlaying(false)
+  }
+
+  const renderComponent = (component: UIComponent) => {
     switch (component.type) {
       case 'button':
         return (
-          <button className="bg-blue-500 hover:bg-blue-600 text-white px-6 py-3 rounded-lg font-semibold">
+          <button
+            onClick={playing ? () => navigate(component.props?.target) : undefined}
+            className="bg-blue-500 hover:bg-blue-600 text-white px-6 py-3 rounded-lg font-semibold"
+          >
             {component.props?.text || 'Button'}
+            {!playing && component.props?.target && <span className="ml-2 text-xs opacity-80">→</span>}
           </button>
         )
       case 'image':
@@ -135,9 +246,9 @@ export default function AppDesignerSandbox() {
       <SandboxContainer
         title="App Designer"
         icon="📱"
-        onRun={() => {}}
+        onRun={startPrototype}
         onReset={resetCanvas}
-        isRunning={false}
+        isRunning={playing}
       >
         {/* Time Tracker */}
         <div className="glass-card p-4 mb-6 text-center">
@@ -172,14 +283,79 @@ export default function AppDesignerSandbox() {
 
             <div className="mt-6 p-4 bg-purple-500/10 border-l-4 border-purple-500 rounded">
               <p className="text-white/80 text-sm">
-                💡 <strong>Tip:</strong> Build a complete app screen with buttons, text, images, and inputs!
+                💡 <strong>Tip:</strong> Add more screens and point buttons at them, then press Run to click through your prototype!
               </p>
             </div>
+
+            {/* Prototype Map */}
+            <div className="mt-6">
+              <h3 className="text-xl font-bold text-white mb-3">🔗 Prototype Map</h3>
+              {edges.length === 0 ? (
+                <p className="text-white/60 text-sm">No links yet. Pick a target screen for a button to connect screens.</p>
+              ) : (
+                <ul className="space-y-1 text-sm text-white/80">
+                  {edges.map((edge, index) => (
+                    <li key={index}>{screenName(edge.from)} → {screenName(edge.to)}</li>
+                  ))}
+                </ul>
+              )}
+              {screens.length > 1 && (
+                <ul className="space-y-1 text-sm mt-3">
+                  {screens.filter(screen => !reachable.has(screen.id)).map(screen => (
+                    <li key={screen.id} className="text-yellow-300">⚠️ {screen.name} can&apos;t be reached from {screens[0].name}</li>
+                  ))}
+                  {screens
+                    .filter(screen => !screen.components.some(component => component.type === 'button' && component.props?.target))
+                    .map(screen => (
+                      <li key={`${screen.id}-dead-end`} className="text-yellow-300">⚠️ {screen.name} is a dead end</li>
+                    ))}
+                </ul>
+              )}
+            </div>
           </div>
 
           {/* Canvas Area */}
           <div className="glass-card p-6 lg:col-span-2">
-            <h3 className="text-xl font-bold text-white mb-4">📱 App Preview</h3>
+            <div className="flex items-center justify-between flex-wrap gap-3 mb-4">
+              <h3 className="text-xl font-bold text-white">{playing ? '▶️ Playing Prototype' : '📱 App Preview'}</h3>
+              {playing && (
+                <div className="flex gap-2">
+                  <button onClick={startPrototype} className="btn btn-secondary text-sm">Restart</button>
+                  <button onClick={() => setPlaying(false)} className="btn btn-primary text-sm">✏️ Edit</button>
+                </div>
+              )}
+            </div>
+
+            {!playing && (
+              <div className="flex flex-wrap items-center gap-2 mb-4">
+                {screens.map((screen, index) => (
+                  <button
+                    key={screen.id}
+                    onClick={() => setActiveScreenId(screen.id)}
+                    className={`px-3 py-1 rounded-lg text-sm transition-all ${
+                      screen.id === activeScreen.id ? 'bg-christmas-gold text-gray-900 font-semibold' : 'bg-white/10 text-white hover:bg-white/20'
+                    }`}
+                  >
+                    {index === 0 && '🏁 '}{screen.name || 'Untitled'}
+                  </button>
+                ))}
+                <button onClick={addScreen} className="px-3 py-1 rounded-lg text-sm bg-white/10 text-white hover:bg-white/20">
+                  + Screen
+                </button>
+                <input
+                  type="text"
+                  value={activeScreen.name}
+                  onChange={(e) => renameScreen(e.target.value)}
+                  aria-label="Screen name"
+                  className="bg-white/10 border border-white/20 rounded-lg px-3 py-1 text-white text-sm w-36"
+                />
+                {screens.length > 1 && (
+                  <button onClick={deleteScreen} className="text-red-400 hover:text-red-300 text-sm">
+                    Delete screen
+                  </button>
+                )}
+              </div>
+            )}
 
             {/* Phone Frame */}
             <div className="mx-auto" style={{ maxWidth: '375px' }}>
@@ -190,79 +366,122 @@ export default function AppDesignerSandbox() {
                 </div>
 
                 {/* Phone Screen */}
-                <DragDropZone id="canvas-area" className="bg-white rounded-lg min-h-[600px] p-6">
-                  {components.length === 0 ? (
-                    <div className="flex flex-col items-center justify-center h-full text-gray-400">
-                      <div className="text-6xl mb-4">📱</div>
-                      <p className="text-center">Drop UI components here to build your app screen</p>
-                    </div>
-                  ) : (
-                    <div className="space-y-4">
-                      {components.map((component, index) => (
-                        <motion.div
-                          key={component.id}
-                          className="relative group"
-                          initial={{ opacity: 0, y: 10 }}
-                          animate={{ opacity: 1, y: 0 }}
-                          exit={{ opacity: 0, y: -10 }}
-                        >
-                          <div className="border-2 border-dashed border-transparent group-hover:border-blue-400 rounded-lg p-3 relative">
-                            {renderComponent(component, index)}
-
-                            <button
-                              onClick={() => removeComponent(index)}
-                              className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full w-6 h-6 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
-                            >
-                              ✕
-                            </button>
-                          </div>
-
-                          {/* Component Editor */}
-                          <div className="mt-2 bg-gray-50 rounded p-2 text-xs opacity-0 group-hover:opacity-100 transition-opacity">
-                            {component.type === 'button' && (
-                              <input
-                                type="text"
-                                value={component.props?.text || ''}
-                                onChange={(e) => updateComponentProp(index, 'text', e.target.value)}
-                                placeholder="Button text"
-                                className="w-full border border-gray-300 rounded px-2 py-1"
-                              />
-                            )}
-                            {component.type === 'text' && (
-                              <input
-                                type="text"
-                                value={component.props?.content || ''}
-                                onChange={(e) => updateComponentProp(index, 'content', e.target.value)}
-                                placeholder="Text content"
-                                className="w-full border border-gray-300 rounded px-2 py-1"
-                              />
-                            )}
-                            {component.type === 'list' && (
-                              <input
-                                type="number"
-                                value={component.props?.items || 3}
-                                onChange={(e) => updateComponentProp(index, 'items', parseInt(e.target.value))}
-                                placeholder="Number of items"
-                                min="1"
-                                max="10"
-                                className="w-full border border-gray-300 rounded px-2 py-1"
-                              />
-                            )}
-                            {component.type === 'input' && (
-                              <input
-                                type="text"
-                                value={component.props?.placeholder || ''}
-                                onChange={(e) => updateComponentProp(index, 'placeholder', e.target.value)}
-                                placeholder="Placeholder text"
-                                className="w-full border border-gray-300 rounded px-2 py-1"
-                              />
-                            )}
-                          </div>
-                        </motion.div>
-                      ))}
+                {playing ? (
+                  <div className="bg-white rounded-lg min-h-[600px] overflow-hidden">
+                    <div className="flex items-center gap-2 px-4 py-3 border-b border-gray-200">
+                      <button
+                        onClick={() => navigate(BACK_TARGET)}
+                        disabled={history.length <= 1}
+                        className="text-blue-500 text-xl disabled:text-gray-300"
+                        aria-label="Back"
+                      >
+                        ‹
+                      </button>
+                      <span className="font-semibold text-gray-800">{screenName(history[history.length - 1])}</span>
                     </div>
-                  )}
-                </DragDropZone>
+                    <AnimatePresence mode="wait">
+                      <motion.div
+                        key={history.length + history[history.length - 1]}
+                        className="space-y-4 p-6"
+                        initial={{ opacity: 0, x: 40 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        exit={{ opacity: 0, x: -40 }}
+                      >
+                        {screens.find(screen => screen.id === history[history.length - 1])?.components.map(component => (
+                          <div key={component.id}>{renderComponent(component)}</div>
+                        ))}
+                      </motion.div>
+                    </AnimatePresence>
+                  </div>
+                ) : (
+                  <DragDropZone id="canvas-area" className="bg-white rounded-lg min-h-[600px] p-6">
+                    {components.length === 0 ? (
+                      <div className="flex flex-col items-center justify-center h-full text-gray-400">
+                        <div className="text-6xl mb-4">📱</div>
+                        <p className="text-center">Drop UI components here to build your app screen</p>
+                      </div>
+                    ) : (
+                      <div className="space-y-4">
+                        {components.map((component, index) => (
+                          <motion.div
+                            key={component.id}
+                            className="relative group"
+                            initial={{ opacity: 0, y: 10 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            exit={{ opacity: 0, y: -10 }}
+                          >
+                            <div className="border-2 border-dashed border-transparent group-hover:border-blue-400 rounded-lg p-3 relative">
+                              {renderComponent(component)}
+
+                              <button
+                                onClick={() => removeComponent(index)}
+                                className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full w-6 h-6 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity"
+                              >
+                                ✕
+                              </button>
+                            </div>
+
+                            {/* Component Editor */}
+                            <div className="mt-2 bg-gray-50 rounded p-2 text-xs opacity-0 group-hover:opacity-100 transition-opacity">
+                              {component.type === 'button' && (
+                                <div className="space-y-1">
+                                  <input
+                                    type="text"
+                                    value={component.props?.text || ''}
+                                    onChange={(e) => updateComponentProp(index, 'text', e.target.value)}
+                                    placeholder="Button text"
+                                    className="w-full border border-gray-300 rounded px-2 py-1"
+                                  />
+                                  <select
+                                    value={component.props?.target || ''}
+                                    onChange={(e) => updateComponentProp(index, 'target', e.target.value)}
+                                    aria-label="When tapped"
+                                    className="w-full border border-gray-300 rounded px-2 py-1"
+                                  >
+                                    <option value="">When tapped: do nothing</option>
+                                    <option value={BACK_TARGET}>When tapped: go back</option>
+                                    {screens.filter(screen => screen.id !== activeScreen.id).map(screen => (
+                                      <option key={screen.id} value={screen.id}>When tapped: open {screen.name}</option>
+                                    ))}
+                                  </select>
+                                </div>
+                              )}
+                              {component.type === 'text' && (
+                                <input
+                                  type="text"
+                                  value={component.props?.content || ''}
+                                  onChange={(e) => updateComponentProp(index, 'content', e.target.value)}
+                                  placeholder="Text content"
+                                  className="w-full border border-gray-300 rounded px-2 py-1"
+                                />
+                              )}
+                              {component.type === 'list' && (
+                                <input
+                                  type="number"
+                                  value={component.props?.items || 3}
+                                  onChange={(e) => updateComponentProp(index, 'items', parseInt(e.target.value))}
+                                  placeholder="Number of items"
+                                  min="1"
+                                  max="10"
+                                  className="w-full border border-gray-300 rounded px-2 py-1"
+                                />
+                              )}
+                              {component.type === 'input' && (
+                                <input
+                                  type="text"
+                                  value={component.props?.placeholder || ''}
+                                  onChange={(e) => updateComponentProp(index, 'placeholder', e.target.value)}
+                                  placeholder="Placeholder text"
+                                  className="w-full border border-gray-300 rounded px-2 py-1"
+                                />
+                              )}
+                            </div>
+                          </motion.div>
+                        ))}
+                      </div>
+                    )}
+                  </DragDropZone>
+                )}
 
                 {/* Phone Bottom */}
                 <div className="bg-black rounded-b-3xl h-2"></div>
@@ -274,7 +493,7 @@ export default function AppDesignerSandbox() {
         {/* Templates Section */}
         <div className="glass-card p-6 mt-6">
           <h3 className="text-xl font-bold text-white mb-4">📝 Quick Templates</h3>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <motion.button
               onClick={() => {
                 setComponents([
@@ -327,6 +546,17 @@ export default function AppDesignerSandbox() {
               <div className="text-white font-semibold mb-1">List Screen</div>
               <div className="text-white/60 text-xs">Text, List, Button</div>
             </motion.button>
+
+            <motion.button
+              onClick={loadLoginFlow}
+              className="bg-white/5 hover:bg-white/10 border-2 border-white/20 rounded-lg p-4 text-left transition-all"
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              <div className="text-2xl mb-2">🔗</div>
+              <div className="text-white font-semibold mb-1">Login Flow</div>
+              <div className="text-white/60 text-xs">3 linked screens, ready to play</div>
+            </motion.button>
           </div>
         </div>
       </SandboxContainer>
@@ -11,51 +11,156 @@ import { useUserStore } from '@/stores/userStore'
 import { useTutorialStore } from '@/stores/tutorialStore'
 import { achievementManager } from '@/utils/achievementManager'
 import { soundManager } from '@/utils/soundManager'
+import {
+  checkFlow,
+  EDGE_CONDITIONS,
+  FLOW_PROPERTIES,
+  signedInAfter,
+  type EdgeCondition,
+  type FlowEdge,
+  type FlowPropertyId,
+  type FlowScreen,
+  type PropertyResult,
+} from '@/utils/userFlow'
 import confetti from 'canvas-confetti'
 
-interface AppScreen {
-  id: string
-  label: string
-  icon: string
-  color: string
-}
-
-const APP_SCREENS: AppScreen[] = [
-  { id: 'splash', label: 'Splash Screen', icon: '✨', color: 'bg-purple-500' },
-  { id: 'login', label: 'Login', icon: '🔐', color: 'bg-blue-500' },
-  { id: 'signup', label: 'Sign Up', icon: '📝', color: 'bg-green-500' },
-  { id: 'home', label: 'Home', icon: '🏠', color: 'bg-orange-500' },
-  { id: 'profile', label: 'Profile', icon: '👤', color: 'bg-pink-500' },
-  { id: 'settings', label: 'Settings', icon: '⚙️', color: 'bg-cyan-500' },
-  { id: 'notifications', label: 'Notifications', icon: '🔔', color: 'bg-yellow-500' },
-  { id: 'logout', label: 'Logout', icon: '🚪', color: 'bg-red-500' },
+const APP_SCREENS: FlowScreen[] = [
+  { id: 'splash', label: 'Splash Screen', icon: '✨', color: 'bg-purple-500', requiresAuth: false },
+  { id: 'login', label: 'Login', icon: '🔐', color: 'bg-blue-500', requiresAuth: false },
+  { id: 'signup', label: 'Sign Up', icon: '📝', color: 'bg-green-500', requiresAuth: false },
+  { id: 'home', label: 'Home', icon: '🏠', color: 'bg-orange-500', requiresAuth: true },
+  { id: 'profile', label: 'Profile', icon: '👤', color: 'bg-pink-500', requiresAuth: true },
+  { id: 'settings', label: 'Settings', icon: '⚙️', color: 'bg-cyan-500', requiresAuth: true },
+  { id: 'notifications', label: 'Notifications', icon: '🔔', color: 'bg-yellow-500', requiresAuth: true },
+  { id: 'logout', label: 'Logout', icon: '🚪', color: 'bg-red-500', requiresAuth: true },
 ]
 
-const LEVEL_SOLUTIONS = {
-  easy: ['splash', 'login', 'home', 'logout'],
-  medium: ['splash', 'login', 'home', 'profile', 'settings', 'logout'],
-  hard: ['splash', 'login', 'signup', 'home', 'profile', 'notifications', 'settings', 'logout'],
+type Difficulty = 'easy' | 'medium' | 'hard'
+
+interface FlowLevel {
+  screens: string[]
+  properties: FlowPropertyId[]
+  /** Edges the level starts with */
+  edges: FlowEdge[]
 }
 
-type Difficulty = 'easy' | 'medium' | 'hard'
+const FLOW_LEVELS: Record<Difficulty, FlowLevel> = {
+  easy: {
+    screens: ['splash', 'login', 'home', 'logout'],
+    properties: ['reachable', 'no-dead-ends', 'auth-guard', 'login-failure'],
+    edges: [{ from: 'splash', to: 'login', condition: 'auto' }],
+  },
+  medium: {
+    screens: ['splash', 'login', 'home', 'profile', 'settings', 'logout'],
+    properties: ['reachable', 'no-dead-ends', 'auth-guard', 'login-failure', 'logout-everywhere', 'back-navigation'],
+    edges: [{ from: 'splash', to: 'login', condition: 'auto' }],
+  },
+  hard: {
+    screens: APP_SCREENS.map(screen => screen.id),
+    properties: ['reachable', 'no-dead-ends', 'auth-guard', 'login-failure', 'logout-everywhere', 'back-navigation', 'signup-path'],
+    edges: [],
+  },
+}
+
+const screenById = (id: string) => APP_SCREENS.find(screen => screen.id === id)
+
+/**
+ * The flow drawn as a graph, with one colour per edge condition
+ */
+function FlowDiagram({ screens, edges }: { screens: FlowScreen[]; edges: FlowEdge[] }) {
+  const width = 420
+  const height = 360
+  const radius = 140
+  const positions = new Map(screens.map((screen, index) => {
+    const angle = (index / screens.length) * Math.PI * 2 - Math.PI / 2
+    return [screen.id, { x: width / 2 + radius * Math.cos(angle), y: height / 2 + radius * Math.sin(angle) }]
+  }))
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label="User flow diagram">
+      <defs>
+        {(Object.keys(EDGE_CONDITIONS) as EdgeCondition[]).map(condition => (
+          <marker key={condition} id={`arrow-${condition}`} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+            <path d="M 0 0 L 10 5 L 0 10 z" fill={EDGE_CONDITIONS[condition].color} />
+          </marker>
+        ))}
+      </defs>
+
+      {edges.map((edge, index) => {
+        const from = positions.get(edge.from)
+        const to = positions.get(edge.to)
+        if (!from || !to) return null
+        const color = EDGE_CONDITIONS[edge.condition].color
+
+        if (edge.from === edge.to) {
+          return (
+            <path
+              key={index}
+              d={`M ${from.x - 8} ${from.y - 22} C ${from.x - 40} ${from.y - 70}, ${from.x + 40} ${from.y - 70}, ${from.x + 8} ${from.y - 22}`}
+              fill="none"
+              stroke={color}
+              strokeWidth={2}
+              markerEnd={`url(#arrow-${edge.condition})`}
+            />
+          )
+        }
+
+        // Bend every edge so A→B and B→A (and several conditions between the same pair) stay apart
+        const siblings = edges.filter(other => other.from === edge.from && other.to === edge.to)
+        const bend = 24 + siblings.indexOf(edge) * 16
+        const dx = to.x - from.x
+        const dy = to.y - from.y
+        const length = Math.hypot(dx, dy) || 1
+        const trim = 24 / length
+        const start = { x: from.x + dx * trim, y: from.y + dy * trim }
+        const end = { x: to.x - dx * trim, y: to.y - dy * trim }
+        const control = { x: (from.x + to.x) / 2 - (dy / length) * bend, y: (from.y + to.y) / 2 + (dx / length) * bend }
+        return (
+          <path
+            key={index}
+            d={`M ${start.x} ${start.y} Q ${control.x} ${control.y} ${end.x} ${end.y}`}
+            fill="none"
+            stroke={color}
+            strokeWidth={2}
+            markerEnd={`url(#arrow-${edge.condition})`}
+          />
+        )
+      })}
+
+      {screens.map(screen => {
+        const position = positions.get(screen.id)!
+        return (
+          <g key={screen.id}>
+            <circle cx={position.x} cy={position.y} r={22} fill={screen.requiresAuth ? '#1e293b' : '#334155'} stroke={screen.requiresAuth ? '#facc15' : 'rgba(255,255,255,0.5)'} strokeWidth={2} />
+            <text x={position.x} y={position.y + 6} textAnchor="middle" fontSize={18}>{screen.icon}</text>
+            <text x={position.x} y={position.y + 38} textAnchor="middle" fontSize={11} fill="white">{screen.label}</text>
+          </g>
+        )
+      })}
+    </svg>
+  )
+}
 
 export default function UserFlowGame() {
   const [difficulty, setDifficulty] = useState<Difficulty>('easy')
   const [started, setStarted] = useState(false)
-  const [solution, setSolution] = useState<string[]>([])
-  const [availableScreens, setAvailableScreens] = useState<AppScreen[]>(APP_SCREENS)
+  const [edges, setEdges] = useState<FlowEdge[]>([])
+  const [condition, setCondition] = useState<EdgeCondition>('tap')
   const [activeId, setActiveId] = useState<string | null>(null)
   const [score, setScore] = useState(0)
   const [lives, setLives] = useState(3)
   const [hints, setHints] = useState(3)
   const [feedback, setFeedback] = useState<string>('')
   const [gameWon, setGameWon] = useState(false)
-  const [combo, setCombo] = useState(0)
-  const [bestCombo, setBestCombo] = useState(0)
+  const [results, setResults] = useState<PropertyResult[] | null>(null)
+  const [walkthrough, setWalkthrough] = useState<{ screen: string; signedIn: boolean }>({ screen: 'splash', signedIn: false })
 
   const { addXP } = useUserStore()
   const { updateTopicProgress } = useTutorialStore()
 
+  const level = FLOW_LEVELS[difficulty]
+  const screens = level.screens.map(id => screenById(id)!)
+
   const handleDragStart = (event: any) => {
     setActiveId(event.active.id)
   }
@@ -66,59 +171,32 @@ export default function UserFlowGame() {
 
     if (!over) return
 
-    const screenId = active.id as string
-    const zoneId = over.id as string
-
-    if (zoneId.startsWith('drop-')) {
-      const index = parseInt(zoneId.split('-')[1])
-      const newSolution = [...solution]
-
-      setAvailableScreens(availableScreens.filter(s => s.id !== screenId))
-      newSolution[index] = screenId
-      setSolution(newSolution)
+    const from = String(active.id).replace('from-', '')
+    const to = String(over.id).replace('screen-', '')
+    if (!String(over.id).startsWith('screen-')) return
 
-      const correct = LEVEL_SOLUTIONS[difficulty]
-      const isCorrectPlacement = newSolution.filter((s, i) => s && s === correct[i]).length === newSolution.filter(Boolean).length
-
-      if (isCorrectPlacement) {
-        const newCombo = combo + 1
-        setCombo(newCombo)
-        if (newCombo > bestCombo) setBestCombo(newCombo)
-
-        const comboBonus = newCombo * 10
-        setScore(score + comboBonus)
-
-        soundManager.playCombo(newCombo)
-        setFeedback(`🔥 Combo x${newCombo}! +${comboBonus} bonus points!`)
-      } else {
-        setCombo(0)
-        soundManager.playSuccess()
-        setFeedback('Screen placed! 👍')
-      }
-
-      setTimeout(() => setFeedback(''), 2000)
+    if (edges.some(edge => edge.from === from && edge.to === to && edge.condition === condition)) {
+      setFeedback('That edge is already in the flow.')
+    } else {
+      setEdges([...edges, { from, to, condition }])
+      setResults(null)
+      soundManager.playSuccess()
+      setFeedback(`${screenById(from)?.label} → ${screenById(to)?.label} on ${EDGE_CONDITIONS[condition].label.toLowerCase()} 👍`)
     }
+    setTimeout(() => setFeedback(''), 2000)
   }
 
-  const removeScreen = (index: number) => {
-    const screenId = solution[index]
-    const screen = APP_SCREENS.find(s => s.id === screenId)
-
-    if (screen) {
-      setAvailableScreens([...availableScreens, screen])
-    }
-
-    const newSolution = [...solution]
-    newSolution[index] = ''
-    setSolution(newSolution.filter(s => s))
+  const removeEdge = (index: number) => {
+    setEdges(edges.filter((_, i) => i !== index))
+    setResults(null)
   }
 
   const checkSolution = () => {
-    const correct = LEVEL_SOLUTIONS[difficulty]
-    const isCorrect = solution.length === correct.length &&
-                     solution.every((screen, idx) => screen === correct[idx])
+    const checked = checkFlow(level.properties, screens, edges)
+    setResults(checked)
+    const failed = checked.filter(result => !result.passed)
 
-    if (isCorrect) {
+    if (failed.length === 0) {
       setGameWon(true)
       const points = difficulty === 'easy' ? 100 : difficulty === 'medium' ? 200 : 300
       setScore(score + points)
@@ -132,7 +210,7 @@ export default function UserFlowGame() {
         spread: 70,
         origin: { y: 0.6 }
       })
-      setFeedback('🎉 Perfect! User flow complete!')
+      setFeedback('🎉 Perfect! Every flow property holds!')
       soundManager.playWin()
 
       setTimeout(() => {
@@ -140,9 +218,9 @@ export default function UserFlowGame() {
       }, 1000)
     } else {
       setLives(lives - 1)
-      setFeedback('❌ Not quite right. Check the user flow!')
+      setFeedback(`❌ ${failed.length} of ${checked.length} properties failed. See the checklist!`)
       soundManager.playError()
-      setTimeout(() => setFeedback(''), 2000)
+      setTimeout(() => setFeedback(''), 3000)
     }
   }
 
@@ -150,25 +228,31 @@ export default function UserFlowGame() {
     if (hints > 0) {
       setHints(hints - 1)
       soundManager.playHint()
-      const correct = LEVEL_SOLUTIONS[difficulty]
-      const nextIndex = solution.length
-      if (nextIndex < correct.length) {
-        setFeedback(`💡 Hint: Next screen should be "${APP_SCREENS.find(s => s.id === correct[nextIndex])?.label}"`)
-        setTimeout(() => setFeedback(''), 5000)
-      }
+      const failing = checkFlow(level.properties, screens, edges).find(result => !result.passed)
+      setFeedback(failing
+        ? `💡 Hint: ${failing.problems[0]}`
+        : '💡 Hint: Every property already holds. Check your flow!')
+      setTimeout(() => setFeedback(''), 5000)
     }
   }
 
+  const followEdge = (edge: FlowEdge) => {
+    setWalkthrough({
+      screen: edge.to,
+      signedIn: signedInAfter(edge, walkthrough.signedIn),
+    })
+  }
+
   const startGame = () => {
     setStarted(true)
-    setSolution([])
+    setEdges(FLOW_LEVELS[difficulty].edges)
+    setCondition('tap')
     setLives(3)
     setHints(3)
     setScore(0)
     setGameWon(false)
-    setCombo(0)
-    setBestCombo(0)
-    setAvailableScreens(APP_SCREENS)
+    setResults(null)
+    setWalkthrough({ screen: 'splash', signedIn: false })
   }
 
   if (!started) {
@@ -185,8 +269,8 @@ export default function UserFlowGame() {
               User Flow Designer
             </h2>
             <p className="text-xl text-white/80 mb-8 max-w-2xl mx-auto">
-              Arrange app screens in the correct order to create a smooth user experience!
-              Think about how users navigate through your mobile app.
+              Real apps branch: logins fail, new users sign up, and everyone needs a way back.
+              Connect the screens into a flow that passes every check!
             </p>
 
             <div className="mb-8">
@@ -239,6 +323,9 @@ export default function UserFlowGame() {
           <p className="text-2xl text-christmas-gold mb-6">
             Score: {score} points
           </p>
+          <div className="max-w-md mx-auto mb-6">
+            <FlowDiagram screens={screens} edges={edges} />
+          </div>
           <div className="flex justify-center gap-4">
             <motion.button
               onClick={() => setStarted(false)}
@@ -275,7 +362,7 @@ export default function UserFlowGame() {
             Game Over
           </h2>
           <p className="text-xl text-white/80 mb-6">
-            Don't give up! Try again and you'll master the user flow!
+            Don&apos;t give up! Try again and you&apos;ll master the user flow!
           </p>
           <motion.button
             onClick={() => setStarted(false)}
@@ -290,7 +377,9 @@ export default function UserFlowGame() {
     )
   }
 
-  const solutionLength = LEVEL_SOLUTIONS[difficulty].length
+  const activeScreen = activeId ? screenById(activeId.replace('from-', '')) : null
+  const walkScreen = screenById(walkthrough.screen)
+  const walkEdges = edges.filter(edge => edge.from === walkthrough.screen)
 
   return (
     <DndContext onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
@@ -304,28 +393,12 @@ export default function UserFlowGame() {
             maxHints={3}
             onUseHint={useHint}
           />
-
-          {combo > 1 && (
-            <motion.div
-              className="glass-card p-4 text-center"
-              initial={{ scale: 0.8, opacity: 0 }}
-              animate={{ scale: 1, opacity: 1 }}
-              exit={{ scale: 0.8, opacity: 0 }}
-            >
-              <div className="text-3xl font-bold bg-gradient-to-r from-orange-400 to-red-500 bg-clip-text text-transparent">
-                🔥 COMBO x{combo}!
-              </div>
-              <div className="text-white/70 text-sm mt-1">
-                Best: {bestCombo}
-              </div>
-            </motion.div>
-          )}
         </div>
 
         <AnimatePresence>
           {feedback && (
             <motion.div
-              className="glass-card p-4 mb-6 text-center"
+              className="glass-card p-4 my-6 text-center"
               initial={{ opacity: 0, y: -20 }}
               animate={{ opacity: 1, y: 0 }}
               exit={{ opacity: 0, y: -20 }}
@@ -335,71 +408,153 @@ export default function UserFlowGame() {
           )}
         </AnimatePresence>
 
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-6">
           <div className="glass-card p-6">
-            <h3 className="text-2xl font-bold text-white mb-4">Available Screens</h3>
+            <h3 className="text-2xl font-bold text-white mb-2">Screens</h3>
+            <p className="text-white/70 text-sm mb-4">
+              Drag a screen onto another (or onto itself) to add a <strong>{EDGE_CONDITIONS[condition].label}</strong> edge.
+              Screens with a gold border need the user to be signed in.
+            </p>
+
+            <div className="flex flex-wrap gap-2 mb-4">
+              {(Object.keys(EDGE_CONDITIONS) as EdgeCondition[]).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setCondition(option)}
+                  title={EDGE_CONDITIONS[option].description}
+                  className={`px-3 py-2 rounded-lg text-sm font-semibold transition-all ${
+                    condition === option ? 'text-gray-900' : 'bg-white/10 text-white hover:bg-white/20'
+                  }`}
+                  style={condition === option ? { backgroundColor: EDGE_CONDITIONS[option].color } : undefined}
+                >
+                  {EDGE_CONDITIONS[option].label}
+                </button>
+              ))}
+            </div>
+
             <div className="grid grid-cols-2 gap-3">
-              {availableScreens.map((screen) => (
-                <DraggableItem key={screen.id} id={screen.id}>
-                  <div className={`${screen.color} rounded-lg p-4 text-white text-center font-bold`}>
-                    <div className="text-2xl mb-1">{screen.icon}</div>
-                    <div className="text-sm">{screen.label}</div>
-                  </div>
-                </DraggableItem>
+              {screens.map((screen) => (
+                <DragDropZone key={screen.id} id={`screen-${screen.id}`} isEmpty={false} className="p-2">
+                  <DraggableItem id={`from-${screen.id}`}>
+                    <div className={`${screen.color} rounded-lg p-3 text-white text-center font-bold ${screen.requiresAuth ? 'ring-2 ring-christmas-gold' : ''}`}>
+                      <div className="text-2xl mb-1">{screen.icon}</div>
+                      <div className="text-sm">{screen.label}</div>
+                    </div>
+                  </DraggableItem>
+                </DragDropZone>
+              ))}
+            </div>
+          </div>
+
+          <div className="glass-card p-6">
+            <h3 className="text-2xl font-bold text-white mb-4">Your Flow</h3>
+            <FlowDiagram screens={screens} edges={edges} />
+            <div className="space-y-2 mt-4 max-h-56 overflow-y-auto">
+              {edges.length === 0 && <p className="text-white/60 text-sm">No edges yet.</p>}
+              {edges.map((edge, index) => (
+                <div key={`${edge.from}-${edge.to}-${edge.condition}`} className="flex items-center justify-between bg-white/5 rounded-lg px-3 py-2">
+                  <span className="text-white text-sm">
+                    {screenById(edge.from)?.icon} {screenById(edge.from)?.label} → {screenById(edge.to)?.icon} {screenById(edge.to)?.label}
+                    <span className="ml-2 text-xs font-semibold" style={{ color: EDGE_CONDITIONS[edge.condition].color }}>
+                      {EDGE_CONDITIONS[edge.condition].label}
+                    </span>
+                  </span>
+                  <button
+                    onClick={() => removeEdge(index)}
+                    className="text-red-400 hover:text-red-300 font-bold"
+                    aria-label="Remove edge"
+                  >
+                    ✕
+                  </button>
+                </div>
               ))}
             </div>
           </div>
+        </div>
 
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-6">
           <div className="glass-card p-6">
-            <h3 className="text-2xl font-bold text-white mb-4">Build User Flow</h3>
+            <h3 className="text-2xl font-bold text-white mb-4">Flow Checks</h3>
             <div className="space-y-3">
-              {Array.from({ length: solutionLength }).map((_, index) => (
-                <DragDropZone key={index} id={`drop-${index}`} isEmpty={!solution[index]}>
-                  {solution[index] && (
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center space-x-2">
-                        <span className="text-2xl">
-                          {APP_SCREENS.find(s => s.id === solution[index])?.icon}
-                        </span>
-                        <span className="text-white font-bold">
-                          {APP_SCREENS.find(s => s.id === solution[index])?.label}
-                        </span>
-                      </div>
-                      <button
-                        onClick={() => removeScreen(index)}
-                        className="text-red-400 hover:text-red-300 font-bold"
-                      >
-                        ✕
-                      </button>
+              {level.properties.map(property => {
+                const result = results?.find(r => r.property === property)
+                return (
+                  <div key={property} className="bg-white/5 rounded-lg p-3">
+                    <div className="flex items-center gap-2 text-white font-semibold">
+                      <span>{!result ? '⬜' : result.passed ? '✅' : '❌'}</span>
+                      {FLOW_PROPERTIES[property].label}
                     </div>
-                  )}
-                </DragDropZone>
-              ))}
+                    <p className="text-white/60 text-sm mt-1">{FLOW_PROPERTIES[property].description}</p>
+                    {result && !result.passed && (
+                      <ul className="mt-2 space-y-1">
+                        {result.problems.map(problem => (
+                          <li key={problem} className="text-red-300 text-sm">• {problem}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )
+              })}
             </div>
 
             <motion.button
               onClick={checkSolution}
-              disabled={solution.length !== solutionLength}
+              disabled={edges.length === 0}
               className={`btn w-full mt-6 ${
-                solution.length === solutionLength
+                edges.length > 0
                   ? 'btn-primary'
                   : 'opacity-50 cursor-not-allowed bg-white/10'
               }`}
-              whileHover={solution.length === solutionLength ? { scale: 1.02 } : {}}
-              whileTap={solution.length === solutionLength ? { scale: 0.98 } : {}}
+              whileHover={edges.length > 0 ? { scale: 1.02 } : {}}
+              whileTap={edges.length > 0 ? { scale: 0.98 } : {}}
             >
-              Check Solution
+              Check Flow
             </motion.button>
           </div>
+
+          <div className="glass-card p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-2xl font-bold text-white">Walk Through</h3>
+              <button
+                onClick={() => setWalkthrough({ screen: 'splash', signedIn: false })}
+                className="btn btn-secondary text-sm"
+              >
+                Restart
+              </button>
+            </div>
+            <div className="text-center mb-4">
+              <div className="text-5xl mb-2">{walkScreen?.icon}</div>
+              <div className="text-white font-bold text-lg">{walkScreen?.label}</div>
+              <div className={`text-sm mt-1 ${walkthrough.signedIn ? 'text-green-400' : 'text-white/60'}`}>
+                {walkthrough.signedIn ? '🔓 Signed in' : '🔒 Signed out'}
+              </div>
+              {walkScreen?.requiresAuth && !walkthrough.signedIn && (
+                <p className="text-red-300 text-sm mt-2">⚠️ A signed-out user just reached a private screen!</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              {walkEdges.length === 0 && <p className="text-white/60 text-sm text-center">Dead end: nothing leads out of this screen.</p>}
+              {walkEdges.map(edge => (
+                <button
+                  key={`${edge.to}-${edge.condition}`}
+                  onClick={() => followEdge(edge)}
+                  className="w-full bg-white/10 hover:bg-white/20 rounded-lg px-3 py-2 text-white text-sm text-left"
+                >
+                  <span className="font-semibold" style={{ color: EDGE_CONDITIONS[edge.condition].color }}>
+                    {EDGE_CONDITIONS[edge.condition].label}
+                  </span>
+                  {' → '}{screenById(edge.to)?.icon} {screenById(edge.to)?.label}
+                </button>
+              ))}
+            </div>
+          </div>
         </div>
 
         <DragOverlay>
-          {activeId && (
+          {activeScreen && (
             <div className="bg-christmas-gold rounded-lg p-4 text-gray-900 text-center font-bold opacity-90">
-              <div className="text-2xl mb-1">
-                {APP_SCREENS.find(s => s.id === activeId)?.icon}
-              </div>
-              <div className="text-sm">{APP_SCREENS.find(s => s.id === activeId)?.label}</div>
+              <div className="text-2xl mb-1">{activeScreen.icon}</div>
+              <div className="text-sm">{activeScreen.label}</div>
             </div>
           )}
         </DragOverlay>
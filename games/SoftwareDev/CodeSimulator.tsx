@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useMemo } from 'react'
 import { DndContext, DragEndEvent } from '@dnd-kit/core'
 import { motion, AnimatePresence } from 'framer-motion'
 import SandboxContainer from '@/components/Sandbox/SandboxContainer'
@@ -9,54 +9,121 @@ import DragDropZone from '@/components/Games/DragDropZone'
 import { useTutorialStore } from '@/stores/tutorialStore'
 import { useUserStore } from '@/stores/userStore'
 import { achievementManager } from '@/utils/achievementManager'
-
-interface ProgramBlock {
-  id: string
-  type: 'print' | 'variable' | 'math' | 'if' | 'loop'
-  label: string
-  icon: string
-  value?: string
+import {
+  BLOCK_TYPES,
+  MATH_OPERATORS,
+  countBlocks,
+  insertBlock,
+  moveBlock,
+  removeBlock,
+  shiftBlock,
+  traceProgram,
+  translateProgram,
+  updateBlock,
+  validateProgram,
+  type BlockType,
+  type BodyRef,
+  type MathOperator,
+  type ProgramBlock,
+  type TargetLanguage,
+} from '@/utils/blockInterpreter'
+
+// Delay between steps when the whole program runs
+const STEP_DELAY_MS = 600
+
+let blockCounter = 0
+function createBlock(type: BlockType, fields: Partial<ProgramBlock> = {}): ProgramBlock {
+  return { ...BLOCK_TYPES[type].template, id: `block-${Date.now()}-${++blockCounter}`, ...fields }
 }
 
-const AVAILABLE_BLOCKS: ProgramBlock[] = [
-  { id: 'print-1', type: 'print', label: 'Print Message', icon: '📢', value: 'Hello World!' },
-  { id: 'var-1', type: 'variable', label: 'Set Variable', icon: '📦', value: 'x = 10' },
-  { id: 'math-1', type: 'math', label: 'Calculate', icon: '🧮', value: 'x + 5' },
-  { id: 'if-1', type: 'if', label: 'If Statement', icon: '🔀', value: 'if x > 5' },
-  { id: 'loop-1', type: 'loop', label: 'Repeat 3 times', icon: '🔄', value: 'repeat 3' },
+const TEMPLATES: { name: string; icon: string; summary: string; build: () => ProgramBlock[] }[] = [
+  {
+    name: 'Simple Calculator',
+    icon: '🎯',
+    summary: 'Variables, Change, Print',
+    build: () => [
+      createBlock('variable', { name: 'price', expression: '12' }),
+      createBlock('variable', { name: 'quantity', expression: '3' }),
+      createBlock('variable', { name: 'total', expression: 'price * quantity' }),
+      createBlock('math', { name: 'total', operator: '-=', expression: '5' }),
+      createBlock('print', { expression: '"Total after discount: " + total' }),
+    ],
+  },
+  {
+    name: 'Conditional Logic',
+    icon: '🔀',
+    summary: 'Variable, If / Else, Print',
+    build: () => [
+      createBlock('variable', { name: 'temperature', expression: '22' }),
+      createBlock('if', {
+        expression: 'temperature > 25',
+        body: [createBlock('print', { expression: '"Wear shorts!"' })],
+        elseBody: [createBlock('print', { expression: '"Bring a jumper."' })],
+      }),
+    ],
+  },
+  {
+    name: 'Loop Example',
+    icon: '🔄',
+    summary: 'Repeat with an If inside',
+    build: () => [
+      createBlock('variable', { name: 'count', expression: '0' }),
+      createBlock('loop', {
+        expression: '5',
+        body: [
+          createBlock('math', { name: 'count', operator: '+=', expression: '1' }),
+          createBlock('if', {
+            expression: 'count % 2 == 0',
+            body: [createBlock('print', { expression: 'count + " is even"' })],
+            elseBody: [createBlock('print', { expression: 'count + " is odd"' })],
+          }),
+        ],
+      }),
+    ],
+  },
+  {
+    name: 'Countdown',
+    icon: '🚀',
+    summary: 'While loop',
+    build: () => [
+      createBlock('variable', { name: 'seconds', expression: '3' }),
+      createBlock('while', {
+        expression: 'seconds > 0',
+        body: [
+          createBlock('print', { expression: 'seconds + "..."' }),
+          createBlock('math', { name: 'seconds', operator: '-=', expression: '1' }),
+        ],
+      }),
+      createBlock('print', { expression: '"Lift off!"' }),
+    ],
+  },
 ]
 
-// Safe math evaluator - only supports simple arithmetic with variable x
-function safeMathEval(expression: string, xValue: number = 10): string {
-  // Replace x with the value
-  const expr = expression.replace(/x/g, xValue.toString())
-
-  // Only allow numbers, basic operators, spaces, and parentheses
-  if (!/^[\d\s+\-*/().]+$/.test(expr)) {
-    return 'Invalid expression'
-  }
-
-  try {
-    // Parse and evaluate safely using Function constructor (safer than eval)
-    // This creates a sandboxed function that can only access what we pass
-    const result = new Function(`return (${expr})`)()
-    return typeof result === 'number' ? result.toString() : 'Invalid result'
-  } catch {
-    return 'Error'
-  }
-}
+const inputClassName = 'bg-gray-900/60 text-white border border-white/20 rounded px-2 py-1 text-xs font-mono'
 
 export default function CodeSimulator() {
   const [program, setProgram] = useState<ProgramBlock[]>([])
-  const [output, setOutput] = useState<string[]>([])
+  const [stepIndex, setStepIndex] = useState(-1)
   const [isRunning, setIsRunning] = useState(false)
-  const [executingIndex, setExecutingIndex] = useState(-1)
+  const [language, setLanguage] = useState<TargetLanguage>('javascript')
   const [timeSpent, setTimeSpent] = useState(0)
   const startTimeRef = useRef<number>(Date.now())
 
   const { updateTopicProgress } = useTutorialStore()
   const { addXP } = useUserStore()
 
+  const trace = useMemo(() => traceProgram(program), [program])
+  const fieldErrors = useMemo(() => validateProgram(program), [program])
+  const translation = useMemo(() => translateProgram(program, language), [program, language])
+
+  // -1 is before the first step; steps.length is after the last one
+  const isFinished = stepIndex >= trace.steps.length
+  const currentStep = stepIndex >= 0 && !isFinished ? trace.steps[stepIndex] : null
+  const lastStep = trace.steps[trace.steps.length - 1]
+  const variables = currentStep?.variables ?? (isFinished ? lastStep?.variables ?? {} : {})
+  const output = currentStep ? trace.output.slice(0, currentStep.outputLength) : isFinished ? trace.output : []
+  const activeBlockId = currentStep?.blockId ?? (isFinished ? trace.error?.blockId ?? null : null)
+
   // Track time spent
   useEffect(() => {
     const interval = setInterval(() => {
@@ -78,75 +145,142 @@ export default function CodeSimulator() {
   }, [addXP])
 
   // Update progress when program is built
+  const blockCount = countBlocks(program)
   useEffect(() => {
-    if (program.length > 0) {
-      const progressPercent = Math.min(100, program.length * 20)
+    if (blockCount > 0) {
+      const progressPercent = Math.min(100, blockCount * 20)
       updateTopicProgress('software-dev', 'sandbox', progressPercent)
     }
-  }, [program.length, updateTopicProgress])
+  }, [blockCount, updateTopicProgress])
+
+  // Editing the program starts execution over
+  useEffect(() => {
+    setStepIndex(-1)
+    setIsRunning(false)
+  }, [program])
+
+  // Running plays through the steps one at a time
+  useEffect(() => {
+    if (!isRunning) return
+    if (stepIndex >= trace.steps.length) {
+      setIsRunning(false)
+      return
+    }
+    const timer = setTimeout(() => setStepIndex(index => index + 1), STEP_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [isRunning, stepIndex, trace.steps.length])
 
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event
-
     if (!over) return
 
-    const blockId = active.id as string
-    const block = AVAILABLE_BLOCKS.find(b => b.id === blockId)
+    const [, parentId, branch] = String(over.id).split(':')
+    const target: BodyRef = { parentId: parentId === 'root' ? null : parentId, branch: branch as BodyRef['branch'] }
+    const [source, key] = String(active.id).split(':')
 
-    if (block && over.id === 'program-area') {
-      setProgram([...program, { ...block, id: `${block.id}-${Date.now()}` }])
-    }
+    if (source === 'new') setProgram(insertBlock(program, target, createBlock(key as BlockType)))
+    if (source === 'move') setProgram(moveBlock(program, key, target))
   }
 
-  const removeBlock = (index: number) => {
-    setProgram(program.filter((_, i) => i !== index))
-  }
-
-  const runProgram = async () => {
+  const runProgram = () => {
+    setStepIndex(stepIndex >= trace.steps.length ? -1 : stepIndex)
     setIsRunning(true)
-    setOutput([])
-    const newOutput: string[] = []
-
-    for (let i = 0; i < program.length; i++) {
-      setExecutingIndex(i)
-      await new Promise(resolve => setTimeout(resolve, 800))
-
-      const block = program[i]
-
-      switch (block.type) {
-        case 'print':
-          newOutput.push(`📢 ${block.value}`)
-          break
-        case 'variable':
-          newOutput.push(`📦 Set ${block.value}`)
-          break
-        case 'math':
-          if (block.value) {
-            newOutput.push(`🧮 Result: ${block.value} = ${safeMathEval(block.value)}`)
-          }
-          break
-        case 'if':
-          newOutput.push(`🔀 Checking: ${block.value}`)
-          break
-        case 'loop':
-          newOutput.push(`🔄 Starting loop...`)
-          for (let j = 0; j < 3; j++) {
-            newOutput.push(`   Loop iteration ${j + 1}`)
-          }
-          break
-      }
-
-      setOutput([...newOutput])
-    }
-
-    setExecutingIndex(-1)
-    setIsRunning(false)
   }
 
   const resetProgram = () => {
     setProgram([])
-    setOutput([])
-    setExecutingIndex(-1)
+    setStepIndex(-1)
+  }
+
+  const renderBody = (blocks: ProgramBlock[], parentId: string, branch: BodyRef['branch'], label?: string) => (
+    <div className="mt-2">
+      {label && <div className="text-white/50 text-xs font-semibold mb-1">{label}</div>}
+      <DragDropZone id={`zone:${parentId}:${branch}`} isEmpty={blocks.length === 0}>
+        {blocks.length > 0 && <div className="space-y-2">{blocks.map(renderBlock)}</div>}
+      </DragDropZone>
+    </div>
+  )
+
+  const renderBlock = (block: ProgramBlock) => {
+    const info = BLOCK_TYPES[block.type]
+    const isActive = activeBlockId === block.id
+    const hasError = (isFinished && trace.error?.blockId === block.id) || fieldErrors[block.id]
+    const update = (change: Partial<ProgramBlock>) => setProgram(updateBlock(program, block.id, change))
+
+    return (
+      <motion.div
+        key={block.id}
+        className={`
+          bg-white/5 border-2 rounded-lg p-3
+          ${isActive ? (hasError ? 'border-red-400 bg-red-500/20' : 'border-christmas-gold bg-christmas-gold/20') : hasError ? 'border-red-400/60' : info.color}
+        `}
+        initial={{ opacity: 0, x: -20 }}
+        animate={{ opacity: 1, x: 0 }}
+      >
+        <div className="flex items-center gap-2 flex-wrap">
+          <DraggableItem id={`move:${block.id}`} disabled={isRunning}>
+            <span className="text-white/50 px-1" title="Drag to move">⠿</span>
+          </DraggableItem>
+          <span className="text-lg">{info.icon}</span>
+
+          {block.type === 'print' && (
+            <>
+              <span className="text-white text-sm font-semibold">print</span>
+              <input value={block.expression} onChange={(e) => update({ expression: e.target.value })} className={`${inputClassName} flex-1 min-w-0`} />
+            </>
+          )}
+          {(block.type === 'variable' || block.type === 'math') && (
+            <>
+              <input value={block.name ?? ''} onChange={(e) => update({ name: e.target.value })} className={`${inputClassName} w-20`} />
+              {block.type === 'variable' ? (
+                <span className="text-white text-sm">=</span>
+              ) : (
+                <select value={block.operator} onChange={(e) => update({ operator: e.target.value as MathOperator })} className={inputClassName}>
+                  {MATH_OPERATORS.map(operator => <option key={operator} value={operator}>{operator}</option>)}
+                </select>
+              )}
+              <input value={block.expression} onChange={(e) => update({ expression: e.target.value })} className={`${inputClassName} flex-1 min-w-0`} />
+            </>
+          )}
+          {(block.type === 'if' || block.type === 'while') && (
+            <>
+              <span className="text-white text-sm font-semibold">{block.type}</span>
+              <input value={block.expression} onChange={(e) => update({ expression: e.target.value })} className={`${inputClassName} flex-1 min-w-0`} />
+            </>
+          )}
+          {block.type === 'loop' && (
+            <>
+              <span className="text-white text-sm font-semibold">repeat</span>
+              <input value={block.expression} onChange={(e) => update({ expression: e.target.value })} className={`${inputClassName} w-16`} />
+              <span className="text-white text-sm">times</span>
+            </>
+          )}
+
+          <div className="flex items-center gap-1 ml-auto">
+            <button onClick={() => setProgram(shiftBlock(program, block.id, -1))} disabled={isRunning} className="text-white/60 hover:text-white disabled:opacity-30" aria-label="Move up">▲</button>
+            <button onClick={() => setProgram(shiftBlock(program, block.id, 1))} disabled={isRunning} className="text-white/60 hover:text-white disabled:opacity-30" aria-label="Move down">▼</button>
+            <button
+              onClick={() => setProgram(removeBlock(program, block.id))}
+              disabled={isRunning}
+              className="text-red-400 hover:text-red-300 font-bold disabled:opacity-30"
+              aria-label="Remove block"
+            >
+              ✕
+            </button>
+          </div>
+        </div>
+
+        {fieldErrors[block.id] && <div className="text-red-300 text-xs mt-1">⚠️ {fieldErrors[block.id]}</div>}
+
+        {block.type === 'if' && (
+          <>
+            {renderBody(block.body ?? [], block.id, 'body', 'then')}
+            {renderBody(block.elseBody ?? [], block.id, 'elseBody', 'else')}
+          </>
+        )}
+        {(block.type === 'loop' || block.type === 'while') && renderBody(block.body ?? [], block.id, 'body')}
+      </motion.div>
+    )
   }
 
   return (
@@ -165,22 +299,26 @@ export default function CodeSimulator() {
             {Math.floor(timeSpent / 60)}:{(timeSpent % 60).toString().padStart(2, '0')}
           </div>
         </div>
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
           {/* Available Blocks */}
           <div className="glass-card p-6">
             <h3 className="text-xl font-bold text-white mb-4">📚 Block Library</h3>
             <p className="text-white/70 text-sm mb-4">
-              Drag blocks to the program area to build your code
+              Drag blocks into your program, or inside an If, Repeat or While block
             </p>
             <div className="space-y-3">
-              {AVAILABLE_BLOCKS.map((block) => (
-                <DraggableItem key={block.id} id={block.id}>
-                  <div className="bg-gradient-to-r from-blue-500/20 to-purple-500/20 border-2 border-blue-500/50 rounded-lg p-4 cursor-grab active:cursor-grabbing">
+              {(Object.keys(BLOCK_TYPES) as BlockType[]).map(type => (
+                <DraggableItem key={type} id={`new:${type}`}>
+                  <div className="bg-gradient-to-r from-blue-500/20 to-purple-500/20 border-2 border-blue-500/50 rounded-lg p-3 cursor-grab active:cursor-grabbing">
                     <div className="flex items-center space-x-3">
-                      <span className="text-2xl">{block.icon}</span>
+                      <span className="text-2xl">{BLOCK_TYPES[type].icon}</span>
                       <div>
-                        <div className="text-white font-semibold text-sm">{block.label}</div>
-                        <div className="text-white/60 text-xs font-mono">{block.value}</div>
+                        <div className="text-white font-semibold text-sm">{BLOCK_TYPES[type].label}</div>
+                        <div className="text-white/60 text-xs font-mono">
+                          {type === 'variable' || type === 'math'
+                            ? `${BLOCK_TYPES[type].template.name} ${BLOCK_TYPES[type].template.operator ?? '='} ${BLOCK_TYPES[type].template.expression}`
+                            : BLOCK_TYPES[type].template.expression}
+                        </div>
                       </div>
                     </div>
                   </div>
@@ -190,15 +328,15 @@ export default function CodeSimulator() {
 
             <div className="mt-6 p-4 bg-blue-500/10 border-l-4 border-blue-500 rounded">
               <p className="text-white/80 text-sm">
-                💡 <strong>Tip:</strong> Arrange blocks in order, then click "Run" to see your program execute!
+                💡 <strong>Tip:</strong> Text goes in quotes, like &quot;Hi&quot;. Combine values with + - * / %, compare with == != &lt; &gt; and join conditions with and, or, not.
               </p>
             </div>
           </div>
 
           {/* Program Area */}
-          <div className="glass-card p-6">
+          <div className="glass-card p-6 lg:col-span-2">
             <h3 className="text-xl font-bold text-white mb-4">⚙️ Your Program</h3>
-            <DragDropZone id="program-area" className="min-h-[400px]">
+            <DragDropZone id="zone:root:body" className="min-h-[400px]" isEmpty={program.length === 0}>
               {program.length === 0 ? (
                 <div className="text-center py-12">
                   <div className="text-6xl mb-4">👇</div>
@@ -208,83 +346,88 @@ export default function CodeSimulator() {
                 </div>
               ) : (
                 <div className="space-y-2">
-                  {program.map((block, index) => (
-                    <motion.div
-                      key={block.id}
-                      className={`
-                        bg-white/5 border-2 rounded-lg p-3 relative
-                        ${executingIndex === index
-                          ? 'border-christmas-gold bg-christmas-gold/20 scale-105'
-                          : 'border-white/20'}
-                      `}
-                      initial={{ opacity: 0, x: -20 }}
-                      animate={{ opacity: 1, x: 0 }}
-                      exit={{ opacity: 0, x: 20 }}
-                    >
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center space-x-3">
-                          <span className="text-xl">{block.icon}</span>
-                          <div>
-                            <div className="text-white font-semibold text-sm">
-                              {index + 1}. {block.label}
-                            </div>
-                            <div className="text-white/60 text-xs font-mono">{block.value}</div>
-                          </div>
-                        </div>
-                        <button
-                          onClick={() => removeBlock(index)}
-                          disabled={isRunning}
-                          className="text-red-400 hover:text-red-300 font-bold disabled:opacity-30"
-                        >
-                          ✕
-                        </button>
-                      </div>
-                    </motion.div>
-                  ))}
+                  <AnimatePresence>{program.map(renderBlock)}</AnimatePresence>
                 </div>
               )}
             </DragDropZone>
           </div>
 
-          {/* Output Console */}
-          <div className="glass-card p-6">
-            <h3 className="text-xl font-bold text-white mb-4">📟 Output Console</h3>
-            <div className="bg-gray-900/50 rounded-lg p-4 min-h-[400px] font-mono text-sm">
-              {output.length === 0 ? (
-                <div className="text-white/30 text-center py-12">
-                  <div className="text-4xl mb-2">▶️</div>
-                  <p>Output will appear here...</p>
-                </div>
+          {/* Debugger */}
+          <div className="glass-card p-6 space-y-4">
+            <h3 className="text-xl font-bold text-white">🐞 Step Through</h3>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setStepIndex(Math.max(-1, stepIndex - 1))}
+                disabled={isRunning || stepIndex < 0}
+                className="btn btn-secondary flex-1 text-sm disabled:opacity-30"
+              >
+                ⏮ Back
+              </button>
+              <button
+                onClick={() => setStepIndex(Math.min(trace.steps.length, stepIndex + 1))}
+                disabled={isRunning || isFinished || program.length === 0}
+                className="btn btn-primary flex-1 text-sm disabled:opacity-30"
+              >
+                Step ⏭
+              </button>
+            </div>
+            {isRunning && (
+              <button onClick={() => setIsRunning(false)} className="btn btn-secondary w-full text-sm">⏸ Pause</button>
+            )}
+
+            <div className="text-white/70 text-xs">
+              {stepIndex < 0
+                ? 'Press Step or Run to start.'
+                : isFinished
+                  ? `Finished after ${trace.steps.length} steps`
+                  : `Step ${stepIndex + 1} of ${trace.steps.length}`}
+            </div>
+            {currentStep && (
+              <div className="p-3 bg-christmas-gold/10 border-l-4 border-christmas-gold rounded text-white text-sm">
+                {currentStep.description}
+              </div>
+            )}
+            {isFinished && trace.error && (
+              <div className="p-3 bg-red-500/10 border-l-4 border-red-500 rounded text-red-300 text-sm">
+                ❌ {trace.error.message}
+              </div>
+            )}
+
+            <div>
+              <h4 className="text-white font-semibold mb-2">👀 Watch</h4>
+              {Object.keys(variables).length === 0 ? (
+                <p className="text-white/40 text-xs">No variables yet</p>
               ) : (
-                <AnimatePresence>
-                  {output.map((line, index) => (
-                    <motion.div
-                      key={index}
-                      className="text-green-400 mb-2"
-                      initial={{ opacity: 0, y: 10 }}
-                      animate={{ opacity: 1, y: 0 }}
-                      transition={{ delay: index * 0.1 }}
-                    >
-                      {line}
-                    </motion.div>
-                  ))}
-                </AnimatePresence>
+                <table className="w-full text-xs font-mono">
+                  <tbody>
+                    {Object.entries(variables).map(([name, value]) => (
+                      <tr key={name} className={currentStep?.changed.includes(name) ? 'bg-christmas-gold/20' : ''}>
+                        <td className="text-blue-300 py-1 px-2">{name}</td>
+                        <td className="text-white py-1 px-2">{JSON.stringify(value)}</td>
+                        <td className="text-white/40 py-1 px-2">{typeof value === 'string' ? 'text' : typeof value}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
               )}
+            </div>
 
-              {isRunning && (
-                <motion.div
-                  className="text-yellow-400 mt-2"
-                  animate={{ opacity: [1, 0.5, 1] }}
-                  transition={{ duration: 1, repeat: Infinity }}
-                >
-                  ⏳ Executing...
-                </motion.div>
-              )}
+            <div>
+              <h4 className="text-white font-semibold mb-2">📟 Output</h4>
+              <div className="bg-gray-900/50 rounded-lg p-3 min-h-[120px] font-mono text-sm">
+                {output.length === 0 ? (
+                  <div className="text-white/30 text-center py-6">Output will appear here...</div>
+                ) : (
+                  output.map((line, index) => (
+                    <div key={index} className="text-green-400">{line}</div>
+                  ))
+                )}
+              </div>
             </div>
 
-            {output.length > 0 && !isRunning && (
+            {isFinished && !trace.error && trace.steps.length > 0 && (
               <motion.div
-                className="mt-4 p-3 bg-green-500/20 border border-green-500 rounded-lg text-center"
+                className="p-3 bg-green-500/20 border border-green-500 rounded-lg text-center"
                 initial={{ opacity: 0, scale: 0.9 }}
                 animate={{ opacity: 1, scale: 1 }}
               >
@@ -296,59 +439,54 @@ export default function CodeSimulator() {
           </div>
         </div>
 
+        {/* Translation */}
+        {program.length > 0 && (
+          <div className="glass-card p-6 mt-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-xl font-bold text-white">🌐 The Same Program In Real Code</h3>
+              <div className="flex gap-2">
+                {(['javascript', 'python'] as TargetLanguage[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setLanguage(option)}
+                    className={`px-3 py-1 rounded-lg text-sm text-white ${language === option ? 'bg-blue-500' : 'bg-white/10 hover:bg-white/20'}`}
+                  >
+                    {option === 'javascript' ? 'JavaScript' : 'Python'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <pre className="bg-gray-900/70 rounded-lg p-4 text-sm font-mono overflow-x-auto">
+              {translation.map((line, index) => (
+                <div
+                  key={index}
+                  className={`flex ${line.blockId && line.blockId === activeBlockId ? 'bg-christmas-gold/20' : ''}`}
+                >
+                  <span className="text-white/30 w-8 select-none text-right pr-3">{index + 1}</span>
+                  <span className="text-green-300 whitespace-pre">{line.text}</span>
+                </div>
+              ))}
+            </pre>
+          </div>
+        )}
+
         {/* Templates Section */}
         <div className="glass-card p-6 mt-6">
           <h3 className="text-xl font-bold text-white mb-4">📝 Try These Templates</h3>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            <motion.button
-              onClick={() => {
-                setProgram([
-                  { ...AVAILABLE_BLOCKS[0], id: 'temp-1' },
-                  { ...AVAILABLE_BLOCKS[1], id: 'temp-2' },
-                  { ...AVAILABLE_BLOCKS[2], id: 'temp-3' },
-                ])
-              }}
-              className="bg-white/5 hover:bg-white/10 border-2 border-white/20 rounded-lg p-4 text-left transition-all"
-              whileHover={{ scale: 1.02 }}
-              whileTap={{ scale: 0.98 }}
-            >
-              <div className="text-2xl mb-2">🎯</div>
-              <div className="text-white font-semibold mb-1">Simple Calculator</div>
-              <div className="text-white/60 text-xs">Print, Variable, Math</div>
-            </motion.button>
-
-            <motion.button
-              onClick={() => {
-                setProgram([
-                  { ...AVAILABLE_BLOCKS[1], id: 'temp-4' },
-                  { ...AVAILABLE_BLOCKS[3], id: 'temp-5' },
-                  { ...AVAILABLE_BLOCKS[0], id: 'temp-6' },
-                ])
-              }}
-              className="bg-white/5 hover:bg-white/10 border-2 border-white/20 rounded-lg p-4 text-left transition-all"
-              whileHover={{ scale: 1.02 }}
-              whileTap={{ scale: 0.98 }}
-            >
-              <div className="text-2xl mb-2">🔀</div>
-              <div className="text-white font-semibold mb-1">Conditional Logic</div>
-              <div className="text-white/60 text-xs">Variable, If, Print</div>
-            </motion.button>
-
-            <motion.button
-              onClick={() => {
-                setProgram([
-                  { ...AVAILABLE_BLOCKS[4], id: 'temp-7' },
-                  { ...AVAILABLE_BLOCKS[0], id: 'temp-8' },
-                ])
-              }}
-              className="bg-white/5 hover:bg-white/10 border-2 border-white/20 rounded-lg p-4 text-left transition-all"
-              whileHover={{ scale: 1.02 }}
-              whileTap={{ scale: 0.98 }}
-            >
-              <div className="text-2xl mb-2">🔄</div>
-              <div className="text-white font-semibold mb-1">Loop Example</div>
-              <div className="text-white/60 text-xs">Loop, Print</div>
-            </motion.button>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            {TEMPLATES.map(template => (
+              <motion.button
+                key={template.name}
+                onClick={() => setProgram(template.build())}
+                className="bg-white/5 hover:bg-white/10 border-2 border-white/20 rounded-lg p-4 text-left transition-all"
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+              >
+                <div className="text-2xl mb-2">{template.icon}</div>
+                <div className="text-white font-semibold mb-1">{template.name}</div>
+                <div className="text-white/60 text-xs">{template.summary}</div>
+              </motion.button>
+            ))}
           </div>
         </div>
       </SandboxContainer>
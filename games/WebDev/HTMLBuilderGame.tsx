@@ -1,54 +1,55 @@
 'use client'
 
-import { useState } from 'react'
-import { DndContext, DragEndEvent, DragOverlay } from '@dnd-kit/core'
+import { useState, useMemo } from 'react'
+import { DndContext, DragEndEvent, DragOverlay, DragStartEvent } from '@dnd-kit/core'
 import { motion, AnimatePresence } from 'framer-motion'
 import GameContainer from '@/components/Games/GameContainer'
 import GameHUD from '@/components/Games/GameHUD'
 import DraggableItem from '@/components/Games/DraggableItem'
 import DragDropZone from '@/components/Games/DragDropZone'
+import PageComparisonReport from '@/components/Games/PageComparisonReport'
 import { useUserStore } from '@/stores/userStore'
 import { useTutorialStore } from '@/stores/tutorialStore'
 import { achievementManager } from '@/utils/achievementManager'
 import { soundManager } from '@/utils/soundManager'
+import { comparePages, parsePage, PASSING_SCORE, type PageComparison } from '@/utils/pageCompare'
+import {
+  BUILDER_TAGS,
+  PAGE_CHALLENGES,
+  createPageElement,
+  elementsToHtml,
+  findElement,
+  insertElement,
+  moveElement,
+  removeElement,
+  shiftElement,
+  toPreviewDocument,
+  updateElement,
+  type BuilderTag,
+  type PageChallenge,
+  type PageElement,
+} from '@/utils/pageChallenges'
 import confetti from 'canvas-confetti'
 
-interface HTMLElement {
-  id: string
-  label: string
-  icon: string
-  color: string
-}
+type Difficulty = 'easy' | 'medium' | 'hard'
 
-const HTML_ELEMENTS: HTMLElement[] = [
-  { id: 'html', label: '<html>', icon: '📄', color: 'bg-blue-500' },
-  { id: 'head', label: '<head>', icon: '🧠', color: 'bg-purple-500' },
-  { id: 'title', label: '<title>', icon: '📌', color: 'bg-pink-500' },
-  { id: 'body', label: '<body>', icon: '📝', color: 'bg-green-500' },
-  { id: 'h1', label: '<h1>', icon: '📰', color: 'bg-orange-500' },
-  { id: 'p', label: '<p>', icon: '📄', color: 'bg-cyan-500' },
-  { id: 'div', label: '<div>', icon: '📦', color: 'bg-yellow-500' },
-  { id: 'a', label: '<a>', icon: '🔗', color: 'bg-red-500' },
-]
-
-const LEVEL_SOLUTIONS = {
-  easy: ['html', 'head', 'body'],
-  medium: ['html', 'head', 'title', 'body', 'h1'],
-  hard: ['html', 'head', 'title', 'body', 'h1', 'p', 'div'],
-}
+const inputClassName = 'bg-gray-900/60 text-white border border-white/20 rounded px-2 py-1 text-xs'
 
-type Difficulty = 'easy' | 'medium' | 'hard'
+function comparePage(elements: PageElement[], challenge: PageChallenge): PageComparison {
+  return comparePages(parsePage(elementsToHtml(elements)), parsePage(challenge.html))
+}
 
 export default function HTMLBuilderGame() {
   const [difficulty, setDifficulty] = useState<Difficulty>('easy')
   const [started, setStarted] = useState(false)
-  const [solution, setSolution] = useState<string[]>([])
-  const [availableElements, setAvailableElements] = useState<HTMLElement[]>(HTML_ELEMENTS)
+  const [challenge, setChallenge] = useState<PageChallenge>(PAGE_CHALLENGES[0])
+  const [elements, setElements] = useState<PageElement[]>([])
   const [activeId, setActiveId] = useState<string | null>(null)
   const [score, setScore] = useState(0)
   const [lives, setLives] = useState(3)
   const [hints, setHints] = useState(3)
   const [feedback, setFeedback] = useState<string>('')
+  const [result, setResult] = useState<PageComparison | null>(null)
   const [gameWon, setGameWon] = useState(false)
   const [combo, setCombo] = useState(0)
   const [bestCombo, setBestCombo] = useState(0)
@@ -56,8 +57,10 @@ export default function HTMLBuilderGame() {
   const { addXP } = useUserStore()
   const { updateTopicProgress } = useTutorialStore()
 
-  const handleDragStart = (event: any) => {
-    setActiveId(event.active.id)
+  const learnerHtml = useMemo(() => elementsToHtml(elements), [elements])
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setActiveId(String(event.active.id))
   }
 
   const handleDragEnd = (event: DragEndEvent) => {
@@ -66,61 +69,45 @@ export default function HTMLBuilderGame() {
 
     if (!over) return
 
-    const elementId = active.id as string
-    const zoneId = over.id as string
-
-    if (zoneId.startsWith('drop-')) {
-      const index = parseInt(zoneId.split('-')[1])
-      const newSolution = [...solution]
-
-      setAvailableElements(availableElements.filter(e => e.id !== elementId))
-      newSolution[index] = elementId
-      setSolution(newSolution)
-
-      const correct = LEVEL_SOLUTIONS[difficulty]
-      const isCorrectPlacement = newSolution.filter((e, i) => e && e === correct[i]).length === newSolution.filter(Boolean).length
-
-      if (isCorrectPlacement) {
-        const newCombo = combo + 1
-        setCombo(newCombo)
-        if (newCombo > bestCombo) setBestCombo(newCombo)
-
-        const comboBonus = newCombo * 10
-        setScore(score + comboBonus)
-
-        soundManager.playCombo(newCombo)
-        setFeedback(`🔥 Combo x${newCombo}! +${comboBonus} bonus points!`)
-      } else {
-        setCombo(0)
-        soundManager.playSuccess()
-        setFeedback('Element placed! 👍')
-      }
-
-      setTimeout(() => setFeedback(''), 2000)
-    }
-  }
-
-  const removeElement = (index: number) => {
-    const elementId = solution[index]
-    const element = HTML_ELEMENTS.find(e => e.id === elementId)
-
-    if (element) {
-      setAvailableElements([...availableElements, element])
+    const [source, key] = String(active.id).split(':')
+    const zone = String(over.id).replace('into:', '')
+    const parentId = zone === 'root' ? null : zone
+    const next = source === 'new'
+      ? insertElement(elements, parentId, createPageElement(key as BuilderTag))
+      : moveElement(elements, key, parentId)
+    if (next === elements) return
+
+    // Placements that bring the structure closer to the target build a combo
+    const before = comparePage(elements, challenge).structureScore
+    const after = comparePage(next, challenge).structureScore
+    setElements(next)
+
+    if (after > before) {
+      const newCombo = combo + 1
+      setCombo(newCombo)
+      if (newCombo > bestCombo) setBestCombo(newCombo)
+
+      const comboBonus = newCombo * 10
+      setScore(score + comboBonus)
+
+      soundManager.playCombo(newCombo)
+      setFeedback(`🔥 Combo x${newCombo}! +${comboBonus} bonus points!`)
+    } else {
+      setCombo(0)
+      soundManager.playSuccess()
+      setFeedback('Element placed! 👍')
     }
 
-    const newSolution = [...solution]
-    newSolution[index] = ''
-    setSolution(newSolution.filter(s => s))
+    setTimeout(() => setFeedback(''), 2000)
   }
 
   const checkSolution = () => {
-    const correct = LEVEL_SOLUTIONS[difficulty]
-    const isCorrect = solution.length === correct.length &&
-                     solution.every((element, idx) => element === correct[idx])
+    const comparison = comparePage(elements, challenge)
+    setResult(comparison)
 
-    if (isCorrect) {
+    if (comparison.score >= PASSING_SCORE) {
       setGameWon(true)
-      const points = difficulty === 'easy' ? 100 : difficulty === 'medium' ? 200 : 300
+      const points = (difficulty === 'easy' ? 100 : difficulty === 'medium' ? 200 : 300) + comparison.score
       setScore(score + points)
       addXP(points)
 
@@ -132,7 +119,7 @@ export default function HTMLBuilderGame() {
         spread: 70,
         origin: { y: 0.6 }
       })
-      setFeedback('🎉 Perfect! HTML structure complete!')
+      setFeedback('🎉 Perfect! Your page matches the target!')
       soundManager.playWin()
 
       setTimeout(() => {
@@ -140,37 +127,99 @@ export default function HTMLBuilderGame() {
       }, 1000)
     } else {
       setLives(lives - 1)
-      setFeedback('❌ Not quite right. Check the HTML structure!')
+      setFeedback(`❌ ${comparison.score}% similar. You need ${PASSING_SCORE}% - check the differences below!`)
       soundManager.playError()
-      setTimeout(() => setFeedback(''), 2000)
+      setTimeout(() => setFeedback(''), 3000)
     }
   }
 
   const useHint = () => {
     if (hints > 0) {
+      const [difference] = comparePage(elements, challenge).differences
+      if (!difference) return
       setHints(hints - 1)
       soundManager.playHint()
-      const correct = LEVEL_SOLUTIONS[difficulty]
-      const nextIndex = solution.length
-      if (nextIndex < correct.length) {
-        setFeedback(`💡 Hint: Next element should be "${correct[nextIndex].toUpperCase()}"`)
-        setTimeout(() => setFeedback(''), 5000)
-      }
+      setFeedback(`💡 Hint: ${difference.message}`)
+      setTimeout(() => setFeedback(''), 5000)
     }
   }
 
   const startGame = () => {
+    const options = PAGE_CHALLENGES.filter(option => option.difficulty === difficulty)
+    setChallenge(options[Math.floor(Math.random() * options.length)])
     setStarted(true)
-    setSolution([])
+    setElements([])
+    setResult(null)
     setLives(3)
     setHints(3)
     setScore(0)
     setGameWon(false)
     setCombo(0)
     setBestCombo(0)
-    setAvailableElements(HTML_ELEMENTS)
   }
 
+  const renderElement = (element: PageElement) => {
+    const info = BUILDER_TAGS[element.tag]
+    const editableAttributes = Object.keys(element.attributes).filter(name => name !== 'src')
+
+    return (
+      <motion.div
+        key={element.id}
+        className="bg-white/5 border border-white/20 rounded-lg p-2"
+        initial={{ opacity: 0, x: -10 }}
+        animate={{ opacity: 1, x: 0 }}
+      >
+        <div className="flex items-center gap-2 flex-wrap">
+          <DraggableItem id={`move:${element.id}`}>
+            <span className={`${info.color} rounded px-2 py-1 text-white text-xs font-bold font-mono`} title="Drag to move">
+              {info.icon} &lt;{element.tag}&gt;
+            </span>
+          </DraggableItem>
+          {info.hasText && (
+            <input
+              value={element.text}
+              onChange={(e) => setElements(updateElement(elements, element.id, { text: e.target.value }))}
+              placeholder="Text"
+              className={`${inputClassName} flex-1 min-w-[6rem]`}
+            />
+          )}
+          {editableAttributes.map(name => (
+            <label key={name} className="flex items-center gap-1 text-white/60 text-xs font-mono">
+              {name}=
+              <input
+                value={element.attributes[name]}
+                onChange={(e) => setElements(updateElement(elements, element.id, { attributes: { ...element.attributes, [name]: e.target.value } }))}
+                className={`${inputClassName} w-24`}
+              />
+            </label>
+          ))}
+          <div className="flex items-center gap-1 ml-auto">
+            <button onClick={() => setElements(shiftElement(elements, element.id, -1))} className="text-white/60 hover:text-white" aria-label="Move up">▲</button>
+            <button onClick={() => setElements(shiftElement(elements, element.id, 1))} className="text-white/60 hover:text-white" aria-label="Move down">▼</button>
+            <button
+              onClick={() => setElements(removeElement(elements, element.id))}
+              className="text-red-400 hover:text-red-300 font-bold"
+              aria-label="Remove element"
+            >
+              ✕
+            </button>
+          </div>
+        </div>
+        {info.container && (
+          <div className="mt-2 ml-4">
+            <DragDropZone id={`into:${element.id}`} isEmpty={element.children.length === 0}>
+              {element.children.length > 0 && <div className="space-y-2">{element.children.map(renderElement)}</div>}
+            </DragDropZone>
+          </div>
+        )}
+      </motion.div>
+    )
+  }
+
+  const draggedTag = activeId?.startsWith('new:')
+    ? activeId.slice(4) as BuilderTag
+    : activeId ? findElement(elements, activeId.slice(5))?.tag : undefined
+
   if (!started) {
     return (
       <GameContainer title="HTML Builder" icon="🌐">
@@ -185,8 +234,8 @@ export default function HTMLBuilderGame() {
               HTML Builder
             </h2>
             <p className="text-xl text-white/80 mb-8 max-w-2xl mx-auto">
-              Build a proper HTML page structure! Drag and drop HTML elements
-              in the correct order to create a valid web page.
+              Recreate the target page! Drag HTML elements into place and fill in their text.
+              Your page is compared with the target by structure, content and accessibility.
             </p>
 
             <div className="mb-8">
@@ -208,6 +257,11 @@ export default function HTMLBuilderGame() {
                   </motion.button>
                 ))}
               </div>
+              <div className="mt-4 text-white/60 text-sm">
+                {PAGE_CHALLENGES.filter(option => option.difficulty === difficulty).map(option => (
+                  <div key={option.id}><strong className="text-white/80">{option.title}:</strong> {option.brief}</div>
+                ))}
+              </div>
             </div>
 
             <motion.button
@@ -236,6 +290,9 @@ export default function HTMLBuilderGame() {
           <h2 className="text-4xl font-bold text-white mb-4">
             Level Complete!
           </h2>
+          <p className="text-xl text-white/80 mb-2">
+            {challenge.title}: {result?.score}% match
+          </p>
           <p className="text-2xl text-christmas-gold mb-6">
             Score: {score} points
           </p>
@@ -290,8 +347,6 @@ export default function HTMLBuilderGame() {
     )
   }
 
-  const solutionLength = LEVEL_SOLUTIONS[difficulty].length
-
   return (
     <DndContext onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
       <GameContainer title="HTML Builder" icon="🌐" difficulty={difficulty}>
@@ -335,15 +390,14 @@ export default function HTMLBuilderGame() {
           )}
         </AnimatePresence>
 
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           <div className="glass-card p-6">
-            <h3 className="text-2xl font-bold text-white mb-4">Available Elements</h3>
-            <div className="grid grid-cols-2 gap-3">
-              {availableElements.map((element) => (
-                <DraggableItem key={element.id} id={element.id}>
-                  <div className={`${element.color} rounded-lg p-4 text-white text-center font-bold`}>
-                    <div className="text-2xl mb-1">{element.icon}</div>
-                    <div>{element.label}</div>
+            <h3 className="text-2xl font-bold text-white mb-4">Elements</h3>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(BUILDER_TAGS) as BuilderTag[]).map(tag => (
+                <DraggableItem key={tag} id={`new:${tag}`}>
+                  <div className={`${BUILDER_TAGS[tag].color} rounded-lg p-2 text-white text-center font-bold text-sm`}>
+                    {BUILDER_TAGS[tag].icon} &lt;{tag}&gt;
                   </div>
                 </DraggableItem>
               ))}
@@ -351,55 +405,66 @@ export default function HTMLBuilderGame() {
           </div>
 
           <div className="glass-card p-6">
-            <h3 className="text-2xl font-bold text-white mb-4">Build Your HTML</h3>
-            <div className="space-y-3">
-              {Array.from({ length: solutionLength }).map((_, index) => (
-                <DragDropZone key={index} id={`drop-${index}`} isEmpty={!solution[index]}>
-                  {solution[index] && (
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center space-x-2">
-                        <span className="text-2xl">
-                          {HTML_ELEMENTS.find(e => e.id === solution[index])?.icon}
-                        </span>
-                        <span className="text-white font-bold">
-                          {HTML_ELEMENTS.find(e => e.id === solution[index])?.label}
-                        </span>
-                      </div>
-                      <button
-                        onClick={() => removeElement(index)}
-                        className="text-red-400 hover:text-red-300 font-bold"
-                      >
-                        ✕
-                      </button>
-                    </div>
-                  )}
-                </DragDropZone>
-              ))}
-            </div>
+            <h3 className="text-2xl font-bold text-white mb-4">Build Your Page</h3>
+            <DragDropZone id="into:root" className="min-h-[300px]" isEmpty={elements.length === 0}>
+              {elements.length > 0 && <div className="space-y-2">{elements.map(renderElement)}</div>}
+            </DragDropZone>
 
             <motion.button
               onClick={checkSolution}
-              disabled={solution.length !== solutionLength}
+              disabled={elements.length === 0}
               className={`btn w-full mt-6 ${
-                solution.length === solutionLength
+                elements.length > 0
                   ? 'btn-primary'
                   : 'opacity-50 cursor-not-allowed bg-white/10'
               }`}
-              whileHover={solution.length === solutionLength ? { scale: 1.02 } : {}}
-              whileTap={solution.length === solutionLength ? { scale: 0.98 } : {}}
+              whileHover={elements.length > 0 ? { scale: 1.02 } : {}}
+              whileTap={elements.length > 0 ? { scale: 0.98 } : {}}
             >
-              Check Solution
+              Compare With Target
             </motion.button>
           </div>
+
+          <div className="glass-card p-6 space-y-4">
+            <div>
+              <h3 className="text-xl font-bold text-white">🎯 Target: {challenge.title}</h3>
+              <p className="text-white/60 text-sm mb-2">{challenge.brief}</p>
+              <iframe
+                title="Target page"
+                sandbox=""
+                srcDoc={toPreviewDocument(challenge.html)}
+                className="w-full h-64 bg-white rounded-lg"
+              />
+            </div>
+            <div>
+              <h3 className="text-xl font-bold text-white mb-2">👀 Your Page</h3>
+              <iframe
+                title="Your page"
+                sandbox=""
+                srcDoc={toPreviewDocument(learnerHtml)}
+                className="w-full h-64 bg-white rounded-lg"
+              />
+            </div>
+          </div>
+        </div>
+
+        {result && (
+          <div className="mt-6">
+            <PageComparisonReport result={result} />
+          </div>
+        )}
+
+        <div className="glass-card p-6 mt-6">
+          <h3 className="text-xl font-bold text-white mb-2">📝 Your HTML</h3>
+          <pre className="bg-gray-900/70 rounded-lg p-4 text-sm font-mono text-green-300 overflow-x-auto whitespace-pre">
+            {learnerHtml || '<!-- Drop elements to start building -->'}
+          </pre>
         </div>
 
         <DragOverlay>
-          {activeId && (
-            <div className="bg-christmas-gold rounded-lg p-4 text-gray-900 text-center font-bold opacity-90">
-              <div className="text-2xl mb-1">
-                {HTML_ELEMENTS.find(e => e.id === activeId)?.icon}
-              </div>
-              <div>{HTML_ELEMENTS.find(e => e.id === activeId)?.label}</div>
+          {draggedTag && (
+            <div className="bg-christmas-gold rounded-lg p-3 text-gray-900 text-center font-bold opacity-90">
+              {BUILDER_TAGS[draggedTag].icon} &lt;{draggedTag}&gt;
             </div>
           )}
         </DragOverlay>
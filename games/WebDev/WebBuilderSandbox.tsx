@@ -4,8 +4,12 @@ import { useState, useEffect, useRef } from 'react'
 import { motion } from 'framer-motion'
 import DOMPurify from 'isomorphic-dompurify'
 import GameContainer from '@/components/Games/GameContainer'
+import PageComparisonReport from '@/components/Games/PageComparisonReport'
 import { useUserStore } from '@/stores/userStore'
+import { useTutorialStore } from '@/stores/tutorialStore'
 import { achievementManager } from '@/utils/achievementManager'
+import { comparePages, parsePage, PASSING_SCORE, type PageComparison } from '@/utils/pageCompare'
+import { PAGE_CHALLENGES, toPreviewDocument } from '@/utils/pageChallenges'
 
 interface WebBlock {
   id: string
@@ -19,12 +23,21 @@ const INITIAL_BLOCKS: WebBlock[] = [
   { id: '3', type: 'css', value: 'color: blue;' },
 ]
 
+// XP for matching a challenge's target page, once per challenge per visit
+const CHALLENGE_XP = 50
+
 export default function WebBuilderSandbox() {
   const [blocks, setBlocks] = useState<WebBlock[]>(INITIAL_BLOCKS)
   const [output, setOutput] = useState<string>('')
+  const [challengeId, setChallengeId] = useState<string>('')
+  const [result, setResult] = useState<PageComparison | null>(null)
+  const [passedChallenges, setPassedChallenges] = useState<string[]>([])
   const [timeSpent, setTimeSpent] = useState(0)
   const startTimeRef = useRef(Date.now())
   const { addXP } = useUserStore()
+  const { updateTopicProgress } = useTutorialStore()
+
+  const challenge = PAGE_CHALLENGES.find(option => option.id === challengeId)
 
   useEffect(() => {
     const interval = setInterval(() => {
@@ -89,16 +102,35 @@ export default function WebBuilderSandbox() {
 
     // Sanitize HTML to prevent XSS attacks
     const sanitizedHTML = DOMPurify.sanitize(fullHTML, {
-      ALLOWED_TAGS: ['div', 'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'span', 'a', 'ul', 'ol', 'li', 'br', 'strong', 'em', 'b', 'i', 'img', 'style', 'button', 'input', 'label', 'form', 'table', 'tr', 'td', 'th', 'thead', 'tbody'],
-      ALLOWED_ATTR: ['href', 'src', 'alt', 'class', 'id', 'style', 'type', 'value', 'placeholder', 'name'],
+      ALLOWED_TAGS: ['header', 'nav', 'main', 'section', 'article', 'aside', 'footer', 'figure', 'figcaption', 'div', 'p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'span', 'a', 'ul', 'ol', 'li', 'br', 'strong', 'em', 'b', 'i', 'img', 'style', 'button', 'input', 'label', 'form', 'table', 'tr', 'td', 'th', 'thead', 'tbody', 'select', 'option', 'textarea'],
+      ALLOWED_ATTR: ['href', 'src', 'alt', 'class', 'id', 'style', 'type', 'value', 'placeholder', 'name', 'for', 'role', 'aria-label', 'aria-labelledby'],
     })
 
     setOutput(sanitizedHTML)
+
+    if (challenge) {
+      // Compare what actually renders, after sanitizing
+      const comparison = comparePages(parsePage(sanitizedHTML), parsePage(challenge.html))
+      setResult(comparison)
+
+      if (comparison.score >= PASSING_SCORE && !passedChallenges.includes(challenge.id)) {
+        const passed = [...passedChallenges, challenge.id]
+        setPassedChallenges(passed)
+        addXP(CHALLENGE_XP)
+        updateTopicProgress('web-dev', 'sandbox', Math.round((passed.length / PAGE_CHALLENGES.length) * 100))
+      }
+    }
+  }
+
+  const selectChallenge = (id: string) => {
+    setChallengeId(id)
+    setResult(null)
   }
 
   const reset = () => {
     setBlocks(INITIAL_BLOCKS)
     setOutput('')
+    setResult(null)
   }
 
   return (
@@ -115,6 +147,23 @@ export default function WebBuilderSandbox() {
         <p className="text-white/70">
           Build your own web page! Add HTML, CSS, and text blocks, then click Run to see your creation.
         </p>
+        <div className="flex flex-wrap items-center gap-3 mt-4">
+          <label htmlFor="web-challenge" className="text-white font-semibold">🎯 Challenge:</label>
+          <select
+            id="web-challenge"
+            value={challengeId}
+            onChange={(e) => selectChallenge(e.target.value)}
+            className="bg-gray-900 text-white border border-white/20 rounded-lg px-3 py-2"
+          >
+            <option value="">Free build (no target)</option>
+            {PAGE_CHALLENGES.map(option => (
+              <option key={option.id} value={option.id}>
+                {passedChallenges.includes(option.id) ? '✅ ' : ''}{option.title} ({option.difficulty})
+              </option>
+            ))}
+          </select>
+          {challenge && <span className="text-white/70 text-sm">{challenge.brief}</span>}
+        </div>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -196,19 +245,36 @@ export default function WebBuilderSandbox() {
         </div>
 
         <div className="glass-card p-6">
+          {challenge && (
+            <div className="mb-6">
+              <h3 className="text-xl font-bold text-white mb-4">Target</h3>
+              <iframe
+                title="Target page"
+                sandbox=""
+                srcDoc={toPreviewDocument(challenge.html)}
+                className="w-full h-72 bg-white rounded-lg"
+              />
+            </div>
+          )}
           <h3 className="text-xl font-bold text-white mb-4">Preview</h3>
           <div className="bg-white rounded-lg p-4 min-h-96">
             {output ? (
               <div dangerouslySetInnerHTML={{ __html: output }} />
             ) : (
               <div className="flex items-center justify-center h-full text-gray-400">
-                Click "Run" to see your web page
+                Click &quot;Run&quot; to see your web page
               </div>
             )}
           </div>
         </div>
       </div>
 
+      {challenge && result && (
+        <div className="mt-6">
+          <PageComparisonReport result={result} />
+        </div>
+      )}
+
       <div className="glass-card p-6 mt-6">
         <h3 className="text-xl font-bold text-white mb-3">💡 Quick Tips</h3>
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-white/80">
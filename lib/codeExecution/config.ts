@@ -0,0 +1,134 @@
+import type { ExecutionProviderId, LanguageExecutionConfig } from './types'
+
+/**
+ * Execution configuration per platform language ID.
+ * `provider` is the default backend; it can be overridden per language with
+ * CODE_EXECUTION_PROVIDERS (e.g. "python=local,javascript=local") or globally
+ * with CODE_EXECUTION_PROVIDER.
+ */
+export const LANGUAGE_EXECUTION_CONFIG: Record<string, LanguageExecutionConfig> = {
+  // JavaScript/TypeScript
+  'javascript': { runtime: 'javascript', version: '18.15.0', provider: 'piston' },
+  'javascript-games': { runtime: 'javascript', version: '18.15.0', provider: 'piston' },
+  'typescript': { runtime: 'typescript', version: '5.0.3', provider: 'piston' },
+
+  // Python
+  'python': { runtime: 'python', version: '3.10.0', provider: 'piston' },
+  'python-ml': { runtime: 'python', version: '3.10.0', provider: 'piston' },
+  'python-backend': { runtime: 'python', version: '3.10.0', provider: 'piston' },
+
+  // Java
+  'java': { runtime: 'java', version: '15.0.2', provider: 'piston' },
+
+  // Go
+  'go': { runtime: 'go', version: '1.16.2', provider: 'piston' },
+
+  // Rust
+  'rust': { runtime: 'rust', version: '1.68.2', provider: 'piston' },
+
+  // C/C++
+  'c': { runtime: 'c', version: '10.2.0', provider: 'piston' },
+  'cpp': { runtime: 'cpp', version: '10.2.0', provider: 'piston' },
+
+  // C#
+  'csharp': { runtime: 'csharp', version: '6.12.0', provider: 'piston' },
+
+  // Ruby
+  'ruby': { runtime: 'ruby', version: '3.0.1', provider: 'piston' },
+
+  // PHP
+  'php': { runtime: 'php', version: '8.2.3', provider: 'piston' },
+
+  // Kotlin
+  'kotlin': { runtime: 'kotlin', version: '1.8.20', provider: 'piston' },
+
+  // Swift
+  'swift': { runtime: 'swift', version: '5.3.3', provider: 'piston' },
+
+  // R
+  'r': { runtime: 'r', version: '4.1.1', provider: 'piston' },
+
+  // SQL (in-memory SQLite seeded per exercise; Piston cannot load exercise fixtures)
+  'sql': { runtime: 'sqlite3', version: '3.36.0', provider: 'local' },
+  'postgresql': { runtime: 'sqlite3', version: '3.36.0', provider: 'local' },
+  'mongodb': { runtime: 'javascript', version: '18.15.0', provider: 'piston' },
+
+  // Bash
+  'bash': { runtime: 'bash', version: '5.2.0', provider: 'piston' },
+}
+
+// Languages that should use simulated preview (not executed)
+export const PREVIEW_ONLY_LANGUAGES = ['html', 'css', 'markdown', 'json', 'yaml']
+
+/**
+ * Resource caps for the self-hosted provider (overridable via env)
+ */
+export const LOCAL_EXECUTION_LIMITS = {
+  /** Wall-clock limit per run in milliseconds */
+  timeoutMs: readNumberEnv('LOCAL_EXEC_TIMEOUT_MS', 5000),
+  /** CPU time limit per run in seconds (child processes only) */
+  cpuSeconds: readNumberEnv('LOCAL_EXEC_CPU_SECONDS', 5),
+  /** Memory limit per run in megabytes */
+  memoryMb: readNumberEnv('LOCAL_EXEC_MEMORY_MB', 128),
+  /** Maximum captured output per stream in bytes */
+  maxOutputBytes: readNumberEnv('LOCAL_EXEC_MAX_OUTPUT_BYTES', 64 * 1024),
+  /** Processes and threads per run (Node needs a dozen threads of its own) */
+  maxProcesses: readNumberEnv('LOCAL_EXEC_MAX_PROCESSES', 64),
+}
+
+/**
+ * How the self-hosted provider isolates child processes: "bwrap" (bubblewrap, the default) or
+ * "none" for a trusted single-user machine. Runs fail when bwrap is selected but not installed.
+ */
+export const LOCAL_EXECUTION_SANDBOX: 'bwrap' | 'none' = process.env.LOCAL_EXEC_SANDBOX === 'none' ? 'none' : 'bwrap'
+
+/**
+ * Interpreter binaries used by the self-hosted provider
+ */
+export const LOCAL_RUNTIME_BINARIES: Record<string, string> = {
+  // Needs Node 20+ for the permission model
+  javascript: process.env.LOCAL_NODE_BIN || process.execPath,
+  python: process.env.LOCAL_PYTHON_BIN || 'python3',
+  bash: process.env.LOCAL_BASH_BIN || 'bash',
+  bwrap: process.env.LOCAL_BWRAP_BIN || 'bwrap',
+}
+
+/**
+ * Resolve which provider should run a platform language ID
+ */
+export function resolveProviderId(languageId: string): ExecutionProviderId | null {
+  const config = LANGUAGE_EXECUTION_CONFIG[languageId]
+  if (!config) return null
+
+  const override = parseProviderOverrides(process.env.CODE_EXECUTION_PROVIDERS)[languageId]
+  if (override) return override
+
+  // SQL always runs locally unless overridden per language: only the local engine seeds exercise data
+  const globalDefault = process.env.CODE_EXECUTION_PROVIDER
+  if (isProviderId(globalDefault) && config.runtime !== 'sqlite3') return globalDefault
+
+  return config.provider
+}
+
+function parseProviderOverrides(value: string | undefined): Record<string, ExecutionProviderId> {
+  const overrides: Record<string, ExecutionProviderId> = {}
+  if (!value) return overrides
+
+  value.split(',').forEach(entry => {
+    const [languageId, providerId] = entry.split('=').map(part => part.trim())
+    if (languageId && isProviderId(providerId)) {
+      overrides[languageId] = providerId
+    }
+  })
+
+  return overrides
+}
+
+function isProviderId(value: unknown): value is ExecutionProviderId {
+  return value === 'piston' || value === 'local'
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const parsed = Number(process.env[name])
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
@@ -0,0 +1,59 @@
+// Code execution entry point - picks a provider per language and runs code through it
+
+import { LANGUAGE_EXECUTION_CONFIG, PREVIEW_ONLY_LANGUAGES, resolveProviderId } from './config'
+import { localProvider } from './localProvider'
+import { pistonProvider } from './pistonProvider'
+import type { ExerciseDatabase } from '@/types'
+import type { ExecutionOutcome, ExecutionProvider, ExecutionProviderId } from './types'
+
+const PROVIDERS: Record<ExecutionProviderId, ExecutionProvider> = {
+  piston: pistonProvider,
+  local: localProvider,
+}
+
+/**
+ * Check if a language only shows a preview instead of executing
+ */
+export function isPreviewOnlyLanguage(languageId: string): boolean {
+  return PREVIEW_ONLY_LANGUAGES.includes(languageId)
+}
+
+/**
+ * Get the provider configured for a platform language ID.
+ * Falls back to Piston when the configured provider cannot run the runtime.
+ * Returns null for languages without execution support.
+ */
+export function getExecutionProvider(languageId: string): ExecutionProvider | null {
+  const config = LANGUAGE_EXECUTION_CONFIG[languageId]
+  const providerId = resolveProviderId(languageId)
+  if (!config || !providerId) return null
+
+  const provider = PROVIDERS[providerId]
+  return provider.supports(config.runtime) ? provider : pistonProvider
+}
+
+/**
+ * Run code for a platform language ID, or return null if the language is not executable
+ */
+export async function runCode(
+  languageId: string,
+  code: string,
+  stdin: string = '',
+  database?: ExerciseDatabase
+): Promise<ExecutionOutcome | null> {
+  const config = LANGUAGE_EXECUTION_CONFIG[languageId]
+  const provider = getExecutionProvider(languageId)
+  if (!config || !provider) return null
+
+  return provider.execute({ config, code, stdin, database })
+}
+
+export { LANGUAGE_EXECUTION_CONFIG } from './config'
+export { ExecutionProviderError } from './types'
+export type {
+  ExecutionOutcome,
+  ExecutionProvider,
+  ExecutionProviderId,
+  ExecutionStage,
+  LanguageExecutionConfig,
+} from './types'
@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { LANGUAGE_EXECUTION_CONFIG } from './config'
+
+/**
+ * config.ts reads its limits from the environment at import time, so each test loads a fresh
+ * copy of the provider with the environment it needs
+ */
+async function loadProvider(env: Record<string, string>) {
+  vi.resetModules()
+  for (const [name, value] of Object.entries(env)) vi.stubEnv(name, value)
+  const [{ localProvider }, { sandboxCommand }, { ExecutionProviderError }] = await Promise.all([
+    import('./localProvider'),
+    import('./sandbox'),
+    import('./types'),
+  ])
+  return { localProvider, sandboxCommand, ExecutionProviderError }
+}
+
+const UNSANDBOXED = { LOCAL_EXEC_SANDBOX: 'none', LOCAL_EXEC_TIMEOUT_MS: '1000' }
+
+function runBash(provider: Awaited<ReturnType<typeof loadProvider>>['localProvider'], code: string) {
+  return provider.execute({ config: LANGUAGE_EXECUTION_CONFIG.bash, code, stdin: '' })
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+describe('localProvider limits', () => {
+  it('kills the whole process group at the time limit and reports the run as failed', async () => {
+    const { localProvider } = await loadProvider(UNSANDBOXED)
+    const started = Date.now()
+    // The background sleep keeps the output pipes open after the shell itself exits
+    const { run } = await runBash(localProvider, '(sleep 30 &)\necho started')
+
+    expect(Date.now() - started).toBeLessThan(5000)
+    expect(run).toMatchObject({ code: null, signal: 'SIGKILL' })
+    expect(run.stdout).toBe('started\n')
+    expect(run.stderr).toContain('Time limit exceeded (1000ms)')
+  })
+
+  it('caps the number of processes and the captured output', async () => {
+    const { localProvider } = await loadProvider({
+      ...UNSANDBOXED,
+      LOCAL_EXEC_MAX_PROCESSES: '32',
+      LOCAL_EXEC_MAX_OUTPUT_BYTES: '100',
+    })
+
+    const limits = await runBash(localProvider, 'ulimit -u')
+    expect(limits.run.stdout.trim()).toBe('32')
+
+    const flood = await runBash(localProvider, 'for i in $(seq 1 1000); do echo line $i; done')
+    expect(flood.run.stdout).toContain('[Output truncated at 100 bytes]')
+    expect(flood.run.stdout.length).toBeLessThan(200)
+  })
+
+  it('fails with a clear error instead of running unsandboxed when bubblewrap is missing', async () => {
+    const { localProvider, ExecutionProviderError } = await loadProvider({ LOCAL_BWRAP_BIN: '/nonexistent/bwrap' })
+    const running = runBash(localProvider, 'echo hi')
+    await expect(running).rejects.toBeInstanceOf(ExecutionProviderError)
+    await expect(running).rejects.toThrow('Sandbox /nonexistent/bwrap is not installed')
+  })
+})
+
+describe('sandboxCommand', () => {
+  it('wraps the job in bubblewrap with every namespace unshared and only its directory writable', async () => {
+    const { sandboxCommand } = await loadProvider({ LOCAL_EXEC_SANDBOX: 'bwrap' })
+    const args = sandboxCommand(['python3', 'main.py'], { workDir: '/tmp/job', runtimeBinary: 'python3' })
+
+    expect(args[0]).toBe('bwrap')
+    expect(args).toEqual(expect.arrayContaining(['--unshare-all', '--die-with-parent', '--new-session']))
+    expect(args.join(' ')).toContain('--bind /tmp/job /tmp/job --chdir /tmp/job -- python3 main.py')
+  })
+
+  it('leaves the command alone when the sandbox is turned off', async () => {
+    const { sandboxCommand } = await loadProvider({ LOCAL_EXEC_SANDBOX: 'none' })
+    expect(sandboxCommand(['python3', 'main.py'], { workDir: '/tmp/job', runtimeBinary: 'python3' }))
+      .toEqual(['python3', 'main.py'])
+  })
+})
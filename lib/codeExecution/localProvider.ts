@@ -0,0 +1,305 @@
+import { execFile, spawn } from 'child_process'
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import type { CompilerHost, CompilerOptions, SourceFile } from 'typescript'
+import { LOCAL_EXECUTION_LIMITS, LOCAL_RUNTIME_BINARIES } from './config'
+import { isSandboxed, sandboxCommand } from './sandbox'
+import { runSqlite } from './sqliteRunner'
+import {
+  ExecutionProviderError,
+  type ExecutionOutcome,
+  type ExecutionProvider,
+  type ExecutionRequest,
+  type ExecutionStage,
+} from './types'
+
+const PROCESS_RUNTIMES = ['javascript', 'typescript', 'python', 'bash']
+const SQL_RUNTIMES = ['sqlite3']
+
+const SCRIPT_FILE_NAMES: Record<string, string> = {
+  javascript: 'main.js',
+  python: 'main.py',
+  bash: 'main.sh',
+}
+
+/**
+ * Self-hosted execution for offline classrooms.
+ * JavaScript, TypeScript (type-checked, then compiled), Python and bash run as child processes
+ * inside a bubblewrap sandbox (no network, no host files, no view of other processes), capped
+ * with ulimit and a wall-clock timeout. Node also runs under its permission model.
+ * SQL runs against an in-memory SQLite database seeded from the exercise.
+ */
+export const localProvider: ExecutionProvider = {
+  id: 'local',
+
+  supports(runtime) {
+    return PROCESS_RUNTIMES.includes(runtime) || SQL_RUNTIMES.includes(runtime)
+  },
+
+  async execute({ config, code, stdin, database }: ExecutionRequest): Promise<ExecutionOutcome> {
+    if (SQL_RUNTIMES.includes(config.runtime)) {
+      const { run, resultSet } = await runSqlite(code, database)
+      return { run, resultSet, runtime: 'sqlite3', version: 'sql.js' }
+    }
+
+    if (config.runtime === 'typescript') {
+      const { compile, output } = await compileTypeScript(code)
+      const nodeVersion = await getNodeVersion()
+      if (compile.code !== 0) {
+        return { compile, run: emptyStage(), runtime: 'typescript', version: nodeVersion }
+      }
+      const run = await runInChildProcess('javascript', output, stdin)
+      return { compile, run, runtime: 'typescript', version: nodeVersion }
+    }
+
+    if (PROCESS_RUNTIMES.includes(config.runtime)) {
+      const run = await runInChildProcess(config.runtime, code, stdin)
+      return { run, runtime: config.runtime, version: config.runtime === 'javascript' ? await getNodeVersion() : 'system' }
+    }
+
+    throw new ExecutionProviderError(`Local provider does not support ${config.runtime}`)
+  },
+}
+
+// ==================== TYPESCRIPT ====================
+
+// Declaration files (lib and @types) parsed once and shared by every compile
+const declarationCache = new Map<string, SourceFile | undefined>()
+
+/**
+ * Type-checks and compiles a program like `tsc main.ts` would. Any error stops the run.
+ */
+async function compileTypeScript(code: string): Promise<{ compile: ExecutionStage; output: string }> {
+  let ts: typeof import('typescript')
+  try {
+    ts = await import('typescript')
+  } catch {
+    throw new ExecutionProviderError('TypeScript compiler is not installed on this server')
+  }
+
+  const rootFile = path.join(process.cwd(), 'main.ts')
+  const hasNodeTypes = ts.sys.fileExists(path.join(process.cwd(), 'node_modules', '@types', 'node', 'index.d.ts'))
+  const options: CompilerOptions = {
+    target: ts.ScriptTarget.ES2020,
+    module: ts.ModuleKind.CommonJS,
+    // console, process and require come from @types/node; without it, from the DOM lib
+    lib: hasNodeTypes ? ['lib.es2020.d.ts'] : ['lib.es2020.d.ts', 'lib.dom.d.ts'],
+    types: hasNodeTypes ? ['node'] : [],
+    skipLibCheck: true,
+    // Node maps stack frames back to main.ts lines (--enable-source-maps), so runtime errors mark the right line
+    inlineSourceMap: true,
+  }
+
+  const defaultHost = ts.createCompilerHost(options)
+  let output = ''
+  const host: CompilerHost = {
+    ...defaultHost,
+    fileExists: fileName => fileName === rootFile || defaultHost.fileExists(fileName),
+    readFile: fileName => (fileName === rootFile ? code : defaultHost.readFile(fileName)),
+    getSourceFile: (fileName, languageVersion) => {
+      if (fileName === rootFile) return ts.createSourceFile(fileName, code, languageVersion, true)
+      if (!declarationCache.has(fileName)) {
+        declarationCache.set(fileName, defaultHost.getSourceFile(fileName, languageVersion))
+      }
+      return declarationCache.get(fileName)
+    },
+    writeFile: (fileName, text) => {
+      if (fileName.endsWith('.js')) output = text
+    },
+  }
+
+  const program = ts.createProgram([rootFile], options, host)
+  const diagnostics = ts.getPreEmitDiagnostics(program)
+    .filter(diagnostic => !diagnostic.file || diagnostic.file.fileName === rootFile)
+    .map(diagnostic => {
+      const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')
+      if (diagnostic.file && diagnostic.start !== undefined) {
+        const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+        return `main.ts(${line + 1},${character + 1}): error TS${diagnostic.code}: ${message}`
+      }
+      return `error TS${diagnostic.code}: ${message}`
+    })
+
+  if (diagnostics.length === 0) program.emit()
+
+  return {
+    compile: {
+      stdout: '',
+      stderr: diagnostics.join('\n'),
+      code: diagnostics.length > 0 ? 1 : 0,
+    },
+    output,
+  }
+}
+
+// ==================== CHILD PROCESSES ====================
+
+/**
+ * V8 reserves far more address space than it uses, so Node gets a fixed address-space cap
+ * and its heap is limited with --max-old-space-size instead
+ */
+const NODE_ADDRESS_SPACE_MB = 2048
+
+let nodeVersion: Promise<string> | null = null
+
+/**
+ * Version of the configured Node binary (LOCAL_NODE_BIN), which need not be the server's own
+ */
+function getNodeVersion(): Promise<string> {
+  nodeVersion ??= new Promise<string>((resolve, reject) => {
+    execFile(LOCAL_RUNTIME_BINARIES.javascript, ['--version'], (error, stdout) => {
+      if (error) {
+        nodeVersion = null
+        reject(new ExecutionProviderError(`Failed to start ${LOCAL_RUNTIME_BINARIES.javascript}: ${error.message}`))
+      } else {
+        resolve(stdout.trim().replace(/^v/, ''))
+      }
+    })
+  })
+  return nodeVersion
+}
+
+/**
+ * Interpreter arguments for a script. Node runs under its permission model (Node 20+) with
+ * read access to the script and stdin only: no other files, child processes or workers.
+ * The permission model leaves the network open; the sandbox closes it.
+ */
+async function getInterpreterArgs(runtime: string, scriptPath: string): Promise<string[]> {
+  if (runtime === 'python') return ['-I', scriptPath]
+  if (runtime === 'javascript') {
+    const major = Number((await getNodeVersion()).split('.')[0])
+    const permissionFlag = major >= 23 ? '--permission' : '--experimental-permission'
+    return [
+      permissionFlag,
+      `--allow-fs-read=${scriptPath}`,
+      '--allow-fs-read=/dev/stdin',
+      `--max-old-space-size=${LOCAL_EXECUTION_LIMITS.memoryMb}`,
+      '--enable-source-maps',
+      '--no-warnings',
+      scriptPath,
+    ]
+  }
+  return [scriptPath]
+}
+
+async function runInChildProcess(runtime: string, code: string, stdin: string): Promise<ExecutionStage> {
+  const { timeoutMs, cpuSeconds, memoryMb, maxOutputBytes, maxProcesses } = LOCAL_EXECUTION_LIMITS
+  const workDir = await mkdtemp(path.join(tmpdir(), 'clb-exec-'))
+  const scriptPath = path.join(workDir, SCRIPT_FILE_NAMES[runtime])
+  await writeFile(scriptPath, code, 'utf8')
+
+  const binary = LOCAL_RUNTIME_BINARIES[runtime]
+  const interpreterArgs = await getInterpreterArgs(runtime, scriptPath)
+  const addressSpaceMb = runtime === 'javascript' ? NODE_ADDRESS_SPACE_MB : memoryMb
+
+  // ulimit applies to the exec'd interpreter: CPU seconds, virtual memory (KB), file size (512-byte blocks)
+  // and processes, counted per user inside the sandbox's user namespace (dash names that one -p, bash -u)
+  const processLimit = `{ ulimit -u ${maxProcesses} 2>/dev/null || ulimit -p ${maxProcesses}; } || exit 126`
+  const limits = `ulimit -t ${cpuSeconds}; ulimit -v ${addressSpaceMb * 1024}; ulimit -f 2048; ${processLimit}; exec "$0" "$@"`
+  const [command, ...args] = sandboxCommand(['/bin/sh', '-c', limits, binary, ...interpreterArgs], { workDir, runtimeBinary: binary })
+
+  try {
+    return await new Promise<ExecutionStage>((resolve, reject) => {
+      const output = { stdout: '', stderr: '' }
+      let timedOut = false
+
+      // Detached, so the job leads its own process group and background processes die with it
+      const child = spawn(command, args, {
+        cwd: workDir,
+        detached: true,
+        env: { NODE_ENV: process.env.NODE_ENV, PATH: process.env.PATH || '/usr/bin:/bin', HOME: workDir, LANG: 'C.UTF-8' },
+      })
+
+      const timer = setTimeout(() => {
+        timedOut = true
+        killProcessGroup(child.pid)
+        // A process that left the group may still hold the pipes open; stop waiting for it
+        child.stdout.destroy()
+        child.stderr.destroy()
+      }, timeoutMs)
+
+      child.stdout.on('data', (chunk: Buffer) => {
+        output.stdout = appendCapped(output.stdout, chunk.toString('utf8'), maxOutputBytes)
+      })
+      child.stderr.on('data', (chunk: Buffer) => {
+        output.stderr = appendCapped(output.stderr, chunk.toString('utf8'), maxOutputBytes)
+      })
+
+      child.on('error', error => {
+        clearTimeout(timer)
+        const sandboxMissing = isSandboxed() && (error as NodeJS.ErrnoException).code === 'ENOENT'
+        reject(new ExecutionProviderError(sandboxMissing
+          ? `Sandbox ${command} is not installed; install bubblewrap or set LOCAL_EXEC_SANDBOX=none on a trusted machine`
+          : `Failed to start ${command}: ${error.message}`))
+      })
+
+      child.on('close', (exitCode, signal) => {
+        clearTimeout(timer)
+        // Background processes left behind by a finished script go too
+        killProcessGroup(child.pid)
+        // bwrap reports its own setup failures (e.g. user namespaces disabled) before the program starts
+        if (isSandboxed() && exitCode !== 0 && output.stderr.startsWith('bwrap:')) {
+          reject(new ExecutionProviderError(`Sandbox failed to start: ${output.stderr.trim()}`))
+          return
+        }
+        if (timedOut) {
+          output.stderr += `\nTime limit exceeded (${timeoutMs}ms)\n`
+        } else if (signal === 'SIGXCPU') {
+          output.stderr += `\nCPU time limit exceeded (${cpuSeconds}s)\n`
+        }
+        // Show paths relative to the job directory, e.g. main.py instead of /tmp/clb-exec-xyz/main.py
+        let stderr = output.stderr.split(`${workDir}${path.sep}`).join('')
+        if (runtime === 'javascript') stderr = cleanNodeStderr(stderr, memoryMb)
+        // A timed-out run failed, even when the script itself exited cleanly before the limit
+        resolve(timedOut
+          ? { stdout: output.stdout, stderr, code: null, signal: 'SIGKILL' }
+          : { stdout: output.stdout, stderr, code: exitCode, signal })
+      })
+
+      // Programs that never read stdin close the pipe early; ignore EPIPE
+      child.stdin.on('error', () => {})
+      child.stdin.end(stdin)
+    })
+  } finally {
+    await rm(workDir, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Kills every process in the job's group; the group is already gone once the job has finished
+ */
+function killProcessGroup(pid: number | undefined) {
+  if (!pid) return
+  try {
+    process.kill(-pid, 'SIGKILL')
+  } catch {
+    // ESRCH: nothing left to kill
+  }
+}
+
+/**
+ * Drops Node's own stack frames and version footer so learners only see their code in the trace,
+ * and replaces V8's out-of-memory report with the limit that was hit
+ */
+function cleanNodeStderr(stderr: string, memoryMb: number): string {
+  if (stderr.includes('JavaScript heap out of memory')) return `\nMemory limit exceeded (${memoryMb}MB)\n`
+  return stderr
+    .split('\n')
+    .filter(line => !/^\s+at (?:.*\()?node:internal\//.test(line) && !/^Node\.js v\d+/.test(line))
+    .join('\n')
+}
+
+// ==================== HELPERS ====================
+
+function appendCapped(current: string, chunk: string, maxBytes: number): string {
+  if (current.length >= maxBytes) return current
+  const next = current + chunk
+  return next.length > maxBytes
+    ? `${next.slice(0, maxBytes)}\n[Output truncated at ${maxBytes} bytes]\n`
+    : next
+}
+
+function emptyStage(): ExecutionStage {
+  return { stdout: '', stderr: '', code: null }
+}
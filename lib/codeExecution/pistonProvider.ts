@@ -0,0 +1,110 @@
+import {
+  ExecutionProviderError,
+  type ExecutionOutcome,
+  type ExecutionProvider,
+  type ExecutionRequest,
+} from './types'
+
+// Piston API endpoint (can be overridden via env)
+const PISTON_API = process.env.PISTON_API_URL || 'https://emkc.org/api/v2/piston/execute'
+
+// Request timeout in milliseconds
+const REQUEST_TIMEOUT = 30000
+
+/**
+ * Remote execution via the Piston API
+ */
+export const pistonProvider: ExecutionProvider = {
+  id: 'piston',
+
+  supports() {
+    // Piston hosts every runtime in LANGUAGE_EXECUTION_CONFIG
+    return true
+  },
+
+  async execute({ config, code, stdin }: ExecutionRequest): Promise<ExecutionOutcome> {
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT)
+
+    let pistonResponse: Response
+    try {
+      pistonResponse = await fetch(PISTON_API, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          language: config.runtime,
+          version: config.version,
+          files: [
+            {
+              name: getFileName(config.runtime),
+              content: code
+            }
+          ],
+          stdin: stdin,
+          compile_timeout: 10000,
+          run_timeout: 5000,
+          compile_memory_limit: -1,
+          run_memory_limit: -1
+        }),
+        signal: controller.signal,
+      })
+    } catch (error) {
+      const isTimeout = error instanceof Error && error.name === 'AbortError'
+      throw new ExecutionProviderError(
+        isTimeout ? 'Piston request timed out' : 'Piston request failed',
+        isTimeout
+      )
+    } finally {
+      clearTimeout(timeoutId)
+    }
+
+    if (!pistonResponse.ok) {
+      throw new ExecutionProviderError(`Piston API error: ${pistonResponse.status}`)
+    }
+
+    const result = await pistonResponse.json()
+    const runResult = result.run || {}
+
+    return {
+      compile: result.compile
+        ? {
+            stdout: result.compile.stdout || '',
+            stderr: result.compile.stderr || result.compile.output || '',
+            code: result.compile.code ?? 0,
+          }
+        : undefined,
+      run: {
+        stdout: runResult.stdout || runResult.output || '',
+        stderr: runResult.stderr || '',
+        code: runResult.code ?? 0,
+        signal: runResult.signal ?? null,
+      },
+      runtime: config.runtime,
+      version: config.version,
+    }
+  },
+}
+
+function getFileName(language: string): string {
+  const extensions: Record<string, string> = {
+    'javascript': 'main.js',
+    'typescript': 'main.ts',
+    'python': 'main.py',
+    'java': 'Main.java',
+    'go': 'main.go',
+    'rust': 'main.rs',
+    'c': 'main.c',
+    'cpp': 'main.cpp',
+    'csharp': 'Main.cs',
+    'ruby': 'main.rb',
+    'php': 'main.php',
+    'kotlin': 'Main.kt',
+    'swift': 'main.swift',
+    'r': 'main.r',
+    'bash': 'main.sh',
+    'sqlite3': 'main.sql',
+  }
+  return extensions[language] || 'main.txt'
+}
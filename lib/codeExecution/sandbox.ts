@@ -0,0 +1,94 @@
+import { lstatSync, readlinkSync, realpathSync } from 'fs'
+import path from 'path'
+import { LOCAL_EXECUTION_SANDBOX, LOCAL_RUNTIME_BINARIES } from './config'
+
+/**
+ * System directories the interpreters need, mounted read-only. Everything else on the host
+ * (the app, its .env files, home directories, other jobs) is absent from the sandbox.
+ */
+const SYSTEM_PATHS = [
+  '/usr',
+  '/bin',
+  '/sbin',
+  '/lib',
+  '/lib32',
+  '/lib64',
+  '/etc/alternatives',
+  '/etc/ld.so.cache',
+  '/etc/ld.so.conf',
+  '/etc/ld.so.conf.d',
+]
+
+// Unprivileged user inside the sandbox's user namespace
+const SANDBOX_UID = 65534
+
+let systemMounts: string[] | null = null
+
+/**
+ * Read-only mounts for the system directories; merged-/usr links (/bin -> usr/bin) stay links
+ */
+function getSystemMounts(): string[] {
+  if (systemMounts) return systemMounts
+  systemMounts = SYSTEM_PATHS.flatMap(target => {
+    try {
+      if (lstatSync(target).isSymbolicLink()) return ['--symlink', readlinkSync(target), target]
+    } catch {
+      return []
+    }
+    return ['--ro-bind', target, target]
+  })
+  return systemMounts
+}
+
+/**
+ * Install prefix of an interpreter that lives outside the system directories
+ * (e.g. ~/.nvm/versions/node/v20.19.5 for its bin/node), or null when none needs mounting
+ */
+function getRuntimePrefix(binary: string): string | null {
+  if (!path.isAbsolute(binary)) return null
+  let resolved: string
+  try {
+    resolved = realpathSync(binary)
+  } catch {
+    return null
+  }
+  const prefix = path.dirname(path.dirname(resolved))
+  const isSystem = SYSTEM_PATHS.some(systemPath => resolved === systemPath || resolved.startsWith(`${systemPath}/`))
+  return isSystem || prefix === '/' ? null : prefix
+}
+
+/**
+ * Builds the command that runs a job inside bubblewrap: new user, PID, network, IPC and UTS
+ * namespaces, so the program runs as an unprivileged user, sees only its own processes in /proc,
+ * has no network and can read nothing but the system directories, the interpreter and its job
+ * directory. With LOCAL_EXEC_SANDBOX=none the command is returned unchanged.
+ */
+export function sandboxCommand(command: string[], { workDir, runtimeBinary }: { workDir: string; runtimeBinary: string }): string[] {
+  if (LOCAL_EXECUTION_SANDBOX === 'none') return command
+
+  const runtimePrefix = getRuntimePrefix(runtimeBinary)
+  return [
+    LOCAL_RUNTIME_BINARIES.bwrap,
+    '--unshare-all',
+    '--die-with-parent',
+    '--new-session',
+    '--uid', String(SANDBOX_UID),
+    '--gid', String(SANDBOX_UID),
+    ...getSystemMounts(),
+    ...(runtimePrefix ? ['--ro-bind', runtimePrefix, runtimePrefix] : []),
+    '--proc', '/proc',
+    '--dev', '/dev',
+    '--tmpfs', '/tmp',
+    '--bind', workDir, workDir,
+    '--chdir', workDir,
+    '--',
+    ...command,
+  ]
+}
+
+/**
+ * Whether child processes run inside the sandbox
+ */
+export function isSandboxed(): boolean {
+  return LOCAL_EXECUTION_SANDBOX !== 'none'
+}
@@ -0,0 +1,153 @@
+import { Worker } from 'worker_threads'
+import type { ExerciseDatabase, QueryResultSet, SqlValue } from '@/types'
+import { formatResultSetTable } from '@/utils/sqlResultSet'
+import { LOCAL_EXECUTION_LIMITS } from './config'
+import type { ExecutionStage } from './types'
+
+// Rows returned to the client per query; larger results are truncated
+const MAX_RESULT_ROWS = 500
+
+interface SqliteWorkerResult {
+  error?: string
+  columns?: string[]
+  values?: (number | string | null)[][]
+  totalRows?: number
+  rowsModified?: number
+  fromCheckQuery?: boolean
+}
+
+/**
+ * Worker body. Builds a fresh in-memory SQLite database (sql.js) from the
+ * exercise seed, runs the learner's SQL and reports the last result set.
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads')
+const initSqlJs = require('sql.js')
+
+const { tables, code, checkQuery, maxRows } = workerData
+const toSqlite = (value) => typeof value === 'boolean' ? (value ? 1 : 0) : value
+const quote = (name) => '"' + String(name).replace(/"/g, '""') + '"'
+
+initSqlJs().then(SQL => {
+  const db = new SQL.Database()
+  try {
+    for (const table of tables) {
+      const columns = table.columns.map(c => quote(c.name) + ' ' + c.type + (c.primaryKey ? ' PRIMARY KEY' : ''))
+      db.run('CREATE TABLE ' + quote(table.name) + ' (' + columns.join(', ') + ')')
+      const insert = db.prepare('INSERT INTO ' + quote(table.name) + ' VALUES (' + table.columns.map(() => '?').join(', ') + ')')
+      for (const row of table.rows) insert.run(row.map(toSqlite))
+      insert.free()
+    }
+  } catch (error) {
+    parentPort.postMessage({ error: 'Exercise database could not be created: ' + error.message })
+    return
+  }
+
+  try {
+    const results = db.exec(code)
+    const rowsModified = db.getRowsModified()
+    let result = results[results.length - 1]
+    let fromCheckQuery = false
+    if (checkQuery) {
+      result = db.exec(checkQuery)[0] || { columns: [], values: [] }
+      fromCheckQuery = true
+    }
+    parentPort.postMessage(result
+      ? { columns: result.columns, values: result.values.slice(0, maxRows), totalRows: result.values.length, rowsModified, fromCheckQuery }
+      : { rowsModified })
+  } catch (error) {
+    parentPort.postMessage({ error: error.message })
+  } finally {
+    db.close()
+  }
+}).catch(error => parentPort.postMessage({ error: 'SQL engine failed to start: ' + error.message }))
+`
+
+/**
+ * Run SQL against an in-memory SQLite database seeded from the exercise definition
+ */
+export function runSqlite(
+  code: string,
+  database: ExerciseDatabase | undefined
+): Promise<{ run: ExecutionStage; resultSet?: QueryResultSet }> {
+  const { timeoutMs, memoryMb } = LOCAL_EXECUTION_LIMITS
+
+  return new Promise(resolve => {
+    let settled = false
+    const settle = (value: { run: ExecutionStage; resultSet?: QueryResultSet }) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      resolve(value)
+      worker.terminate()
+    }
+
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: {
+        tables: database?.tables || [],
+        code,
+        checkQuery: database?.checkQuery,
+        maxRows: MAX_RESULT_ROWS,
+      },
+      resourceLimits: { maxOldGenerationSizeMb: memoryMb },
+      env: {},
+    })
+
+    // Recursive CTEs can loop forever; SQLite has no query timeout in sql.js
+    const timer = setTimeout(() => {
+      settle({ run: { stdout: '', stderr: `Time limit exceeded (${timeoutMs}ms)\n`, code: null, signal: 'SIGKILL' } })
+    }, timeoutMs)
+
+    worker.on('message', (message: SqliteWorkerResult) => {
+      if (message.error) {
+        settle({ run: { stdout: '', stderr: `Error: ${message.error}\n`, code: 1 } })
+        return
+      }
+
+      if (!message.columns || !message.values) {
+        const rows = message.rowsModified ?? 0
+        settle({ run: { stdout: `Query OK, ${rows} row${rows === 1 ? '' : 's'} affected\n`, stderr: '', code: 0 } })
+        return
+      }
+
+      const resultSet: QueryResultSet = {
+        columns: message.columns.map((name, i) => ({ name, type: inferColumnType(message.values!, i) })),
+        rows: message.values,
+      }
+
+      let stdout = message.fromCheckQuery ? 'Table contents after your query:\n' : ''
+      stdout += formatResultSetTable(resultSet)
+      if (message.totalRows !== undefined && message.totalRows > message.values.length) {
+        stdout += `\n(${message.totalRows} rows in total, only the first ${message.values.length} were returned)`
+      }
+
+      settle({ run: { stdout: `${stdout}\n`, stderr: '', code: 0 }, resultSet })
+    })
+
+    worker.on('error', error => {
+      settle({ run: { stdout: '', stderr: `Error: ${error.message}\n`, code: 1 } })
+    })
+
+    worker.on('exit', () => {
+      settle({ run: { stdout: '', stderr: 'Error: SQL engine stopped unexpectedly\n', code: 1 } })
+    })
+  })
+}
+
+/**
+ * SQLite result sets carry no declared types, so infer them from the returned values
+ */
+function inferColumnType(rows: SqlValue[][], columnIndex: number): string {
+  let type = 'NULL'
+  for (const row of rows) {
+    const value = row[columnIndex]
+    if (value === null || value === undefined) continue
+    if (typeof value === 'string') return 'TEXT'
+    if (typeof value === 'number') {
+      if (!Number.isInteger(value)) return 'REAL'
+      type = 'INTEGER'
+    }
+  }
+  return type
+}
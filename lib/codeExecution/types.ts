@@ -0,0 +1,100 @@
+/**
+ * Code Execution Types
+ * Shared contracts between the /api/code/execute route and its execution providers
+ */
+
+import type { ExerciseDatabase, QueryResultSet } from '@/types'
+
+/**
+ * Identifier of a registered execution provider
+ */
+export type ExecutionProviderId = 'piston' | 'local'
+
+/**
+ * How a platform language ID is executed
+ */
+export interface LanguageExecutionConfig {
+  /** Runtime name understood by the provider (e.g. "python", "sqlite3") */
+  runtime: string
+
+  /** Runtime version requested from the provider */
+  version: string
+
+  /** Provider used when no override is configured */
+  provider: ExecutionProviderId
+}
+
+/**
+ * A single execution request handed to a provider
+ */
+export interface ExecutionRequest {
+  /** Language configuration resolved from the platform language ID */
+  config: LanguageExecutionConfig
+
+  /** Source code to run */
+  code: string
+
+  /** Standard input passed to the program */
+  stdin: string
+
+  /** Seeded database for SQL runtimes */
+  database?: ExerciseDatabase
+}
+
+/**
+ * Output of one stage (compile or run)
+ */
+export interface ExecutionStage {
+  stdout: string
+  stderr: string
+
+  /** Process exit code (null when killed by a signal) */
+  code: number | null
+
+  /** Signal that terminated the process, if any */
+  signal?: string | null
+}
+
+/**
+ * Raw provider result, before hints and formatting are applied by the route
+ */
+export interface ExecutionOutcome {
+  /** Compile stage, only present for compiled languages */
+  compile?: ExecutionStage
+
+  /** Run stage */
+  run: ExecutionStage
+
+  /** Runtime that actually executed the code */
+  runtime: string
+
+  /** Version of the runtime that actually executed the code */
+  version: string
+
+  /** Result set of the last query, for SQL runtimes */
+  resultSet?: QueryResultSet
+}
+
+/**
+ * An execution backend. Implementations must never throw for program errors
+ * (those belong in the stage stderr/exit code) and throw ExecutionProviderError
+ * only when the backend itself is unavailable.
+ */
+export interface ExecutionProvider {
+  id: ExecutionProviderId
+
+  /** Whether this provider can run the given runtime */
+  supports(runtime: string): boolean
+
+  execute(request: ExecutionRequest): Promise<ExecutionOutcome>
+}
+
+/**
+ * Thrown when an execution backend cannot be reached or fails internally
+ */
+export class ExecutionProviderError extends Error {
+  constructor(message: string, public readonly isTimeout: boolean = false) {
+    super(message)
+    this.name = 'ExecutionProviderError'
+  }
+}
@@ -0,0 +1,27 @@
+import { applicationDefault, cert, getApp, getApps, initializeApp } from 'firebase-admin/app'
+import { getFirestore, type Firestore } from 'firebase-admin/firestore'
+
+// Server-only Firestore access with admin credentials. XP, streaks, achievements and
+// language progress are written here so Firestore rules can deny them to browsers.
+
+let adminDb: Firestore | null = null
+
+/**
+ * Admin Firestore instance, initialized on first use.
+ * Credentials come from FIREBASE_SERVICE_ACCOUNT_KEY (service account JSON) or,
+ * when that is not set, from Application Default Credentials.
+ */
+export function getAdminDb(): Firestore {
+  if (adminDb) return adminDb
+
+  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT_KEY
+  const app = getApps().length > 0
+    ? getApp()
+    : initializeApp({
+      credential: serviceAccount ? cert(JSON.parse(serviceAccount)) : applicationDefault(),
+      projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+    })
+
+  adminDb = getFirestore(app)
+  return adminDb
+}
@@ -1,12 +1,27 @@
 import { db } from './firebase'
 import {
+  collection,
+  deleteDoc,
   doc,
   getDoc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
   setDoc,
+  startAfter,
   updateDoc,
+  where,
   Timestamp,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
 } from 'firebase/firestore'
 import { generateUniqueCode } from '@/utils/userCodeGenerator'
+import type { ProjectWorkState } from '@/utils/projectFiles'
+import type { ReviewCard } from '@/utils/spacedRepetition'
+import type { ContentPlan } from '@/utils/contentCalendar'
+import type { VectorDesign } from '@/utils/vectorDesign'
+import { XP_EVENTS_COLLECTION, type XPGrant, type XPSource } from '@/lib/progress/types'
 
 export interface LanguageProgress {
   difficulty: 'easy' | 'medium' | 'hard'
@@ -15,6 +30,8 @@ export interface LanguageProgress {
     completedSections: number[]
     totalSections: number
     completed: boolean
+    /** Epoch ms when the learner arrived at currentSection (written by the server) */
+    sectionStartedAt?: number
   }
   gameProgress: {
     currentLevel: number
@@ -51,6 +68,18 @@ export interface LanguageProgress {
   lastAccessed: Timestamp
 }
 
+export interface ProjectProgress extends ProjectWorkState {
+  // Only set by /api/progress/project, so missing until the project is first completed
+  completed?: boolean
+  // XP is only granted the first time a project is completed
+  xpAwarded?: boolean
+  lastSaved: Timestamp
+}
+
+export interface SavedContentPlan extends ContentPlan {
+  lastSaved: Timestamp
+}
+
 export interface UserProfile {
   code: string
   name: string
@@ -68,9 +97,20 @@ export interface UserProfile {
   // Common fields
   level: number
   totalXP: number
+  // Set once the profile's XP is fully explained by its xpEvents ledger
+  xpLedgerOpened?: boolean
   streak: number
+  // Calendar day (YYYY-MM-DD) the streak was last counted, set by /api/progress/streak
+  streakDay?: string
+  // Timezone offset (minutes, as Date.getTimezoneOffset()) the streak day is counted in
+  streakTimezoneOffset?: number
   achievements: string[]
   languageProgress?: { [key: string]: LanguageProgress } // key format: "moduleId-languageId"
+  projectProgress?: { [projectId: string]: ProjectProgress }
+  // Content Planner calendar and cadence rules
+  contentPlan?: SavedContentPlan
+  // Spaced-repetition state for missed quiz questions, key format: "moduleId-languageId:difficulty:questionId"
+  reviewCards?: { [cardId: string]: ReviewCard }
   createdAt: Timestamp
   lastActive: Timestamp
 }
@@ -102,6 +142,7 @@ export async function createUserProfile(
           age,
           level: 1,
           totalXP: 0,
+          xpLedgerOpened: true,
           streak: 0,
           achievements: [],
           // Initialize tree progress for new system
@@ -172,169 +213,6 @@ export async function updateDrinkPreference(
   }
 }
 
-/**
- * Adds XP to user and updates both glass (legacy) and tree progress
- * @throws Error if update fails or user not found
- */
-export async function addUserXP(code: string, xpAmount: number): Promise<void> {
-  try {
-    // Validate XP amount (max 100 per single update to prevent cheating)
-    if (xpAmount < 0 || xpAmount > 100) {
-      throw new Error('Invalid XP amount')
-    }
-
-    const userRef = doc(db, USERS_COLLECTION, code)
-    const userDoc = await getDoc(userRef)
-
-    if (!userDoc.exists()) {
-      throw new Error('User not found')
-    }
-
-    const userData = userDoc.data() as UserProfile
-    const newTotalXP = userData.totalXP + xpAmount
-    const newLevel = Math.floor(newTotalXP / 1000) + 1
-
-    // Update core XP and level
-    const updates: any = {
-      totalXP: newTotalXP,
-      level: newLevel,
-      lastActive: Timestamp.now(),
-    }
-
-    // Legacy: Update glass progress if it exists
-    if (userData.glassProgress !== undefined) {
-      let newGlassProgress = userData.glassProgress + (xpAmount / 10)
-      if (newGlassProgress > 100) {
-        newGlassProgress = 100
-      }
-      updates.glassProgress = newGlassProgress
-    }
-
-    await updateDoc(userRef, updates)
-
-    // Update tree progress (new system)
-    await updateTreeProgress(code, xpAmount)
-  } catch (error) {
-    console.error('Error adding XP:', error)
-    throw new Error('Failed to update XP. Progress may not be saved.')
-  }
-}
-
-/**
- * Empties the glass (called when Santa drinks it)
- */
-export async function emptyGlass(code: string): Promise<void> {
-  try {
-    const userRef = doc(db, USERS_COLLECTION, code)
-    await updateDoc(userRef, {
-      glassProgress: 0,
-      lastActive: Timestamp.now(),
-    })
-  } catch (error) {
-    console.error('Error emptying glass:', error)
-    throw new Error('Failed to empty glass. Please try again.')
-  }
-}
-
-/**
- * Forces the glass to full for milestone rewards
- */
-export async function fillGlass(code: string): Promise<void> {
-  try {
-    const userRef = doc(db, USERS_COLLECTION, code)
-    await updateDoc(userRef, {
-      glassProgress: 100,
-      lastActive: Timestamp.now(),
-    })
-  } catch (error) {
-    console.error('Error filling glass:', error)
-    throw new Error('Failed to fill glass. Please try again.')
-  }
-}
-
-/**
- * Unlocks an achievement
- */
-export async function unlockAchievement(
-  code: string,
-  achievementId: string
-): Promise<void> {
-  try {
-    const userRef = doc(db, USERS_COLLECTION, code)
-    const userDoc = await getDoc(userRef)
-
-    if (!userDoc.exists()) {
-      throw new Error('User not found')
-    }
-
-    const userData = userDoc.data() as UserProfile
-    if (!userData.achievements.includes(achievementId)) {
-      await updateDoc(userRef, {
-        achievements: [...userData.achievements, achievementId],
-        lastActive: Timestamp.now(),
-      })
-    }
-  } catch (error) {
-    console.error('Error unlocking achievement:', error)
-    throw new Error('Failed to unlock achievement. Please try again.')
-  }
-}
-
-/**
- * Updates user's streak based on last active date
- * Returns the updated streak value and whether it increased
- */
-export async function updateUserStreak(code: string): Promise<{ streak: number; increased: boolean; isNew: boolean }> {
-  try {
-    const userRef = doc(db, USERS_COLLECTION, code)
-    const userDoc = await getDoc(userRef)
-
-    if (!userDoc.exists()) {
-      throw new Error('User not found')
-    }
-
-    const userData = userDoc.data() as UserProfile
-    const lastActive = userData.lastActive.toDate()
-    const now = new Date()
-
-    // Reset time to midnight for accurate day comparison
-    const lastActiveDay = new Date(lastActive.getFullYear(), lastActive.getMonth(), lastActive.getDate())
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
-
-    const daysDiff = Math.floor((today.getTime() - lastActiveDay.getTime()) / (1000 * 60 * 60 * 24))
-
-    let newStreak = userData.streak
-    let increased = false
-    let isNew = false
-
-    if (daysDiff === 0) {
-      // Same day - no change to streak
-      return { streak: newStreak, increased: false, isNew: false }
-    } else if (daysDiff === 1) {
-      // Consecutive day - increment streak
-      newStreak += 1
-      increased = true
-      if (newStreak === 1) {
-        isNew = true
-      }
-    } else if (daysDiff > 1) {
-      // Streak broken - reset to 1
-      newStreak = 1
-      isNew = true
-    }
-
-    await updateDoc(userRef, {
-      streak: newStreak,
-      lastActive: Timestamp.now(),
-    })
-
-    return { streak: newStreak, increased, isNew }
-  } catch (error) {
-    console.error('Error updating streak:', error)
-    throw new Error('Failed to update streak. Please try again.')
-  }
-}
-
 /**
  * Updates user's last active timestamp
  */
@@ -370,370 +248,242 @@ export async function updateLearningGoal(
 }
 
 /**
- * Updates tree progress when user gains XP
+ * Gets language progress for a specific language
  */
-export async function updateTreeProgress(
+export async function getLanguageProgress(
   code: string,
-  xpGained: number
-): Promise<void> {
+  languageKey: string // format: "moduleId-languageId"
+): Promise<LanguageProgress | null> {
   try {
     const userRef = doc(db, USERS_COLLECTION, code)
     const userDoc = await getDoc(userRef)
 
-    if (!userDoc.exists()) {
-      throw new Error('User not found')
-    }
-
-    const userData = userDoc.data() as UserProfile
-
-    // Initialize tree progress if it doesn't exist
-    if (!userData.treeProgress) {
-      await updateDoc(userRef, {
-        treeProgress: {
-          stage: 'seedling',
-          overallGrowth: 0,
-        },
-        lastActive: Timestamp.now(),
-      })
-      return
+    if (userDoc.exists()) {
+      const userData = userDoc.data() as UserProfile
+      return userData.languageProgress?.[languageKey] || null
     }
+    return null
+  } catch (error) {
+    console.error('Error getting language progress:', error)
+    throw new Error('Failed to load progress. Please check your connection.')
+  }
+}
 
-    // Calculate new growth (10% per 100 XP, same as old glass system)
-    const newGrowth = Math.min(100, userData.treeProgress.overallGrowth + (xpGained / 10))
+/**
+ * Get all globally completed difficulties (merged from all modes)
+ */
+export function getGlobalCompletedDifficulties(
+  completedDifficulties?: {
+    tutorial?: ('easy' | 'medium' | 'hard')[]
+    game?: ('easy' | 'medium' | 'hard')[]
+    sandbox?: ('easy' | 'medium' | 'hard')[]
+  }
+): ('easy' | 'medium' | 'hard')[] {
+  if (!completedDifficulties) return []
 
-    // Determine stage based on growth
-    let stage: 'seedling' | 'sapling' | 'growing' | 'mature' | 'flourishing'
-    if (newGrowth < 25) stage = 'seedling'
-    else if (newGrowth < 50) stage = 'sapling'
-    else if (newGrowth < 75) stage = 'growing'
-    else if (newGrowth < 100) stage = 'mature'
-    else stage = 'flourishing'
+  const allCompleted = new Set<'easy' | 'medium' | 'hard'>()
 
-    await updateDoc(userRef, {
-      'treeProgress.overallGrowth': newGrowth,
-      'treeProgress.stage': stage,
-      lastActive: Timestamp.now(),
-    })
-  } catch (error) {
-    console.error('Error updating tree progress:', error)
-    throw new Error('Failed to update tree progress. Please try again.')
+  // For game and sandbox, they share completion (completing one completes both)
+  // Merge game and sandbox difficulties
+  if (completedDifficulties.game) {
+    completedDifficulties.game.forEach(d => allCompleted.add(d))
+  }
+  if (completedDifficulties.sandbox) {
+    completedDifficulties.sandbox.forEach(d => allCompleted.add(d))
   }
+
+  return Array.from(allCompleted)
 }
 
 /**
- * Resets tree progress after celebration (back to 75% mature state)
+ * Get the next available difficulty for a user in sandbox/game
  */
-export async function resetTreeProgress(code: string): Promise<void> {
-  try {
-    const userRef = doc(db, USERS_COLLECTION, code)
-    await updateDoc(userRef, {
-      'treeProgress.overallGrowth': 75,
-      'treeProgress.stage': 'mature',
-      'treeProgress.lastCelebration': Timestamp.now(),
-      lastActive: Timestamp.now(),
-    })
-  } catch (error) {
-    console.error('Error resetting tree progress:', error)
-    throw new Error('Failed to reset tree progress. Please try again.')
+export function getNextDifficulty(
+  completedDifficulties?: ('easy' | 'medium' | 'hard')[]
+): 'easy' | 'medium' | 'hard' | null {
+  if (!completedDifficulties || completedDifficulties.length === 0) {
+    return 'easy'
+  }
+  if (!completedDifficulties.includes('easy')) {
+    return 'easy'
   }
+  if (!completedDifficulties.includes('medium')) {
+    return 'medium'
+  }
+  if (!completedDifficulties.includes('hard')) {
+    return 'hard'
+  }
+  return null // All difficulties completed
 }
 
 /**
- * Gets language progress for a specific language
+ * Gets saved mini-project work for a project
  */
-export async function getLanguageProgress(
+export async function getProjectProgress(
   code: string,
-  languageKey: string // format: "moduleId-languageId"
-): Promise<LanguageProgress | null> {
+  projectId: string
+): Promise<ProjectProgress | null> {
   try {
     const userRef = doc(db, USERS_COLLECTION, code)
     const userDoc = await getDoc(userRef)
 
     if (userDoc.exists()) {
       const userData = userDoc.data() as UserProfile
-      return userData.languageProgress?.[languageKey] || null
+      return userData.projectProgress?.[projectId] || null
     }
     return null
   } catch (error) {
-    console.error('Error getting language progress:', error)
-    throw new Error('Failed to load progress. Please check your connection.')
+    console.error('Error getting project progress:', error)
+    throw new Error('Failed to load project progress. Please check your connection.')
   }
 }
 
 /**
- * Initializes language progress when user starts learning
+ * Gets the user's saved content calendar
  */
-export async function initializeLanguageProgress(
-  code: string,
-  languageKey: string,
-  difficulty: 'easy' | 'medium' | 'hard',
-  totalTutorialSections: number,
-  totalGameLevels: number
-): Promise<void> {
+export async function getContentPlan(code: string): Promise<SavedContentPlan | null> {
   try {
     const userRef = doc(db, USERS_COLLECTION, code)
     const userDoc = await getDoc(userRef)
 
-    if (!userDoc.exists()) {
-      throw new Error('User not found')
-    }
-
-    const userData = userDoc.data() as UserProfile
-    const languageProgress = userData.languageProgress || {}
-
-    languageProgress[languageKey] = {
-      difficulty,
-      tutorialProgress: {
-        currentSection: 0,
-        completedSections: [],
-        totalSections: totalTutorialSections,
-        completed: false,
-      },
-      gameProgress: {
-        currentLevel: 0,
-        completedLevels: [],
-        totalLevels: totalGameLevels,
-        completed: false,
-      },
-      lastAccessed: Timestamp.now(),
+    if (userDoc.exists()) {
+      const userData = userDoc.data() as UserProfile
+      return userData.contentPlan || null
     }
-
-    await updateDoc(userRef, {
-      languageProgress,
-      lastActive: Timestamp.now(),
-    })
+    return null
   } catch (error) {
-    console.error('Error initializing language progress:', error)
-    throw new Error('Failed to initialize progress. Please try again.')
+    console.error('Error getting content plan:', error)
+    throw new Error('Failed to load your content plan. Please check your connection.')
   }
 }
 
 /**
- * Updates tutorial progress for a language
+ * Saves the user's content calendar and cadence rules
  */
-export async function updateTutorialProgress(
-  code: string,
-  languageKey: string,
-  currentSection: number,
-  completedSections: number[],
-  completed: boolean
-): Promise<void> {
+export async function saveContentPlan(code: string, plan: ContentPlan): Promise<void> {
   try {
     const userRef = doc(db, USERS_COLLECTION, code)
-    const userDoc = await getDoc(userRef)
-
-    if (!userDoc.exists()) {
-      throw new Error('User not found')
-    }
-
-    const userData = userDoc.data() as UserProfile
-    const languageProgress = userData.languageProgress || {}
-
-    if (!languageProgress[languageKey]) {
-      throw new Error('Language progress not initialized')
-    }
-
-    languageProgress[languageKey].tutorialProgress = {
-      ...languageProgress[languageKey].tutorialProgress,
-      currentSection,
-      completedSections,
-      completed,
-    }
-    languageProgress[languageKey].lastAccessed = Timestamp.now()
 
     await updateDoc(userRef, {
-      languageProgress,
+      contentPlan: { blocks: plan.blocks, rules: plan.rules, lastSaved: Timestamp.now() },
       lastActive: Timestamp.now(),
     })
   } catch (error) {
-    console.error('Error updating tutorial progress:', error)
-    throw new Error('Failed to save tutorial progress. Please try again.')
+    console.error('Error saving content plan:', error)
+    throw new Error('Failed to save your content plan. Please try again.')
   }
 }
 
 /**
- * Updates game progress for a language
+ * A Design Studio piece saved to the user's portfolio (one document per piece)
  */
-export async function updateGameProgress(
-  code: string,
-  languageKey: string,
-  currentLevel: number,
-  completedLevels: number[],
-  completed: boolean,
-  gameState?: {
-    lives?: number
-    hints?: number
-    score?: number
-  },
-  difficulty?: 'easy' | 'medium' | 'hard'
-): Promise<void> {
-  try {
-    const userRef = doc(db, USERS_COLLECTION, code)
-    const userDoc = await getDoc(userRef)
-
-    if (!userDoc.exists()) {
-      throw new Error('User not found')
-    }
-
-    const userData = userDoc.data() as UserProfile
-    const languageProgress = userData.languageProgress || {}
-
-    if (!languageProgress[languageKey]) {
-      throw new Error('Language progress not initialized')
-    }
+export interface PortfolioPiece extends VectorDesign {
+  id: string
+  createdAt: Timestamp
+  updatedAt: Timestamp
+}
 
-    languageProgress[languageKey].gameProgress = {
-      ...languageProgress[languageKey].gameProgress,
-      currentLevel,
-      completedLevels,
-      completed,
-      // Save game state for resume functionality
-      lives: gameState?.lives,
-      hints: gameState?.hints,
-      score: gameState?.score,
-    }
-    
-    // If game is completed and difficulty is provided, mark globally complete
-    if (completed && difficulty) {
-      markDifficultyCompleteGlobally(languageProgress[languageKey], difficulty)
-    }
-    
-    languageProgress[languageKey].lastAccessed = Timestamp.now()
+const PORTFOLIO_COLLECTION = 'portfolio'
 
-    await updateDoc(userRef, {
-      languageProgress,
-      lastActive: Timestamp.now(),
-    })
+/**
+ * Gets the user's saved designs, most recently edited first
+ */
+export async function getPortfolio(code: string): Promise<PortfolioPiece[]> {
+  try {
+    const snapshot = await getDocs(query(collection(db, USERS_COLLECTION, code, PORTFOLIO_COLLECTION), orderBy('updatedAt', 'desc')))
+    return snapshot.docs.map(pieceDoc => pieceDoc.data() as PortfolioPiece)
   } catch (error) {
-    console.error('Error updating game progress:', error)
-    throw new Error('Failed to save game progress. Please try again.')
+    console.error('Error getting portfolio:', error)
+    throw new Error('Failed to load your portfolio. Please check your connection.')
   }
 }
 
 /**
- * Updates sandbox progress for a language at a specific difficulty
+ * Saves a design to the user's portfolio (keeps the original creation time)
  */
-export async function updateSandboxProgress(
+export async function savePortfolioPiece(
   code: string,
-  languageKey: string,
-  difficulty: 'easy' | 'medium' | 'hard',
-  currentExercise: number,
-  completedExercises: number[],
-  totalExercises: number
+  designId: string,
+  design: VectorDesign
 ): Promise<void> {
   try {
-    const userRef = doc(db, USERS_COLLECTION, code)
-    const userDoc = await getDoc(userRef)
-
-    if (!userDoc.exists()) {
-      throw new Error('User not found')
-    }
-
-    const userData = userDoc.data() as UserProfile
-    const languageProgress = userData.languageProgress || {}
-
-    if (!languageProgress[languageKey]) {
-      throw new Error('Language progress not initialized')
-    }
-
-    const isCompleted = completedExercises.length >= totalExercises
-
-    // Initialize sandboxProgress if it doesn't exist
-    if (!languageProgress[languageKey].sandboxProgress) {
-      languageProgress[languageKey].sandboxProgress = {}
-    }
-
-    // Update progress for specific difficulty
-    languageProgress[languageKey].sandboxProgress![difficulty] = {
-      currentExercise,
-      completedExercises,
-      completed: isCompleted,
-    }
+    const pieceRef = doc(db, USERS_COLLECTION, code, PORTFOLIO_COLLECTION, designId)
+    const existing = await getDoc(pieceRef)
+    const now = Timestamp.now()
 
-    // If sandbox is completed, mark difficulty complete globally (for both game and sandbox)
-    if (isCompleted) {
-      markDifficultyCompleteGlobally(languageProgress[languageKey], difficulty)
+    // Firestore rejects undefined fields, which optional layer properties may hold
+    const data = JSON.parse(JSON.stringify(design)) as VectorDesign
+    const piece: PortfolioPiece = {
+      ...data,
+      id: designId,
+      createdAt: existing.exists() ? (existing.data() as PortfolioPiece).createdAt : now,
+      updatedAt: now,
     }
 
-    languageProgress[languageKey].lastAccessed = Timestamp.now()
-
-    await updateDoc(userRef, {
-      languageProgress,
-      lastActive: Timestamp.now(),
-    })
+    await setDoc(pieceRef, piece)
   } catch (error) {
-    console.error('Error updating sandbox progress:', error)
-    throw new Error('Failed to save sandbox progress. Please try again.')
+    console.error('Error saving portfolio piece:', error)
+    throw new Error('Failed to save your design. Please try again.')
   }
 }
 
 /**
- * Get all globally completed difficulties (merged from all modes)
+ * Removes a design from the user's portfolio
  */
-export function getGlobalCompletedDifficulties(
-  completedDifficulties?: {
-    tutorial?: ('easy' | 'medium' | 'hard')[]
-    game?: ('easy' | 'medium' | 'hard')[]
-    sandbox?: ('easy' | 'medium' | 'hard')[]
-  }
-): ('easy' | 'medium' | 'hard')[] {
-  if (!completedDifficulties) return []
-
-  const allCompleted = new Set<'easy' | 'medium' | 'hard'>()
-
-  // For game and sandbox, they share completion (completing one completes both)
-  // Merge game and sandbox difficulties
-  if (completedDifficulties.game) {
-    completedDifficulties.game.forEach(d => allCompleted.add(d))
-  }
-  if (completedDifficulties.sandbox) {
-    completedDifficulties.sandbox.forEach(d => allCompleted.add(d))
+export async function deletePortfolioPiece(code: string, designId: string): Promise<void> {
+  try {
+    await deleteDoc(doc(db, USERS_COLLECTION, code, PORTFOLIO_COLLECTION, designId))
+  } catch (error) {
+    console.error('Error deleting portfolio piece:', error)
+    throw new Error('Failed to delete that design. Please try again.')
   }
-
-  return Array.from(allCompleted)
 }
 
 /**
- * Mark a difficulty as complete across Game and Sandbox modes
- * This ensures that once a difficulty is completed in either Game or Sandbox, it's marked complete for both
+ * One XP award from a user's ledger (written by the /api/progress routes)
  */
-function markDifficultyCompleteGlobally(
-  languageProgress: LanguageProgress,
-  difficulty: 'easy' | 'medium' | 'hard'
-): void {
-  if (!languageProgress.completedDifficulties) {
-    languageProgress.completedDifficulties = {}
-  }
+export interface XPEvent extends XPGrant {
+  createdAt: Timestamp
+}
 
-  // Add to both game and sandbox arrays (they share completion)
-  const modes: ('game' | 'sandbox')[] = ['game', 'sandbox']
-  modes.forEach(mode => {
-    if (!languageProgress.completedDifficulties![mode]) {
-      languageProgress.completedDifficulties![mode] = []
-    }
-    if (!languageProgress.completedDifficulties![mode]!.includes(difficulty)) {
-      languageProgress.completedDifficulties![mode]!.push(difficulty)
-    }
-  })
+export interface XPHistoryFilters {
+  source?: XPSource
+  languageKey?: string
+}
+
+export interface XPHistoryPage {
+  events: XPEvent[]
+  /** Pass back to load the next page; null when there are no more events */
+  cursor: QueryDocumentSnapshot | null
 }
 
 /**
- * Get the next available difficulty for a user in sandbox/game
+ * Gets a page of a user's XP events, newest first
  */
-export function getNextDifficulty(
-  completedDifficulties?: ('easy' | 'medium' | 'hard')[]
-): 'easy' | 'medium' | 'hard' | null {
-  if (!completedDifficulties || completedDifficulties.length === 0) {
-    return 'easy'
-  }
-  if (!completedDifficulties.includes('easy')) {
-    return 'easy'
-  }
-  if (!completedDifficulties.includes('medium')) {
-    return 'medium'
-  }
-  if (!completedDifficulties.includes('hard')) {
-    return 'hard'
+export async function getXPHistory(
+  code: string,
+  filters: XPHistoryFilters = {},
+  cursor: QueryDocumentSnapshot | null = null,
+  pageSize: number = 20
+): Promise<XPHistoryPage> {
+  try {
+    const constraints: QueryConstraint[] = []
+    if (filters.source) constraints.push(where('source', '==', filters.source))
+    if (filters.languageKey) constraints.push(where('languageKey', '==', filters.languageKey))
+    constraints.push(orderBy('createdAt', 'desc'))
+    if (cursor) constraints.push(startAfter(cursor))
+    // Fetch one extra event to know whether another page exists
+    constraints.push(limit(pageSize + 1))
+
+    const snapshot = await getDocs(query(collection(db, USERS_COLLECTION, code, XP_EVENTS_COLLECTION), ...constraints))
+    const docs = snapshot.docs.slice(0, pageSize)
+
+    return {
+      events: docs.map(eventDoc => eventDoc.data() as XPEvent),
+      cursor: snapshot.docs.length > pageSize ? docs[docs.length - 1] : null,
+    }
+  } catch (error) {
+    console.error('Error getting XP history:', error)
+    throw new Error('Failed to load XP history. Please check your connection.')
   }
-  return null // All difficulties completed
 }
@@ -0,0 +1,65 @@
+// Helpers for the per-language progress map (users/{code}.languageProgress)
+
+import { Timestamp } from 'firebase-admin/firestore'
+import type { LanguageProgress, UserProfile } from '@/lib/firebaseService'
+import { ProgressError, type Difficulty } from './types'
+
+// Sanity bounds for client-reported content sizes
+export const MAX_TUTORIAL_SECTIONS = 500
+export const MAX_GAME_LEVELS = 200
+
+/**
+ * Get a user's progress for a language
+ * @throws ProgressError (409) if the language was never started
+ */
+export function getLanguageProgressEntry(user: UserProfile, languageKey: string): LanguageProgress {
+  const progress = user.languageProgress?.[languageKey]
+  if (!progress) {
+    throw new ProgressError('Language progress not initialized', 409)
+  }
+  return progress
+}
+
+/**
+ * Update for a single language entry, stamped with the access time
+ */
+export function languageProgressUpdate(languageKey: string, progress: Omit<LanguageProgress, 'lastAccessed'>): Record<string, unknown> {
+  return {
+    [`languageProgress.${languageKey}`]: { ...progress, lastAccessed: Timestamp.now() },
+  }
+}
+
+/**
+ * Mark a difficulty as complete across Game and Sandbox modes
+ * This ensures that once a difficulty is completed in either Game or Sandbox, it's marked complete for both
+ */
+export function markDifficultyCompleteGlobally(
+  languageProgress: LanguageProgress,
+  difficulty: Difficulty
+): void {
+  if (!languageProgress.completedDifficulties) {
+    languageProgress.completedDifficulties = {}
+  }
+
+  // Add to both game and sandbox arrays (they share completion)
+  const modes: ('game' | 'sandbox')[] = ['game', 'sandbox']
+  modes.forEach(mode => {
+    if (!languageProgress.completedDifficulties![mode]) {
+      languageProgress.completedDifficulties![mode] = []
+    }
+    if (!languageProgress.completedDifficulties![mode]!.includes(difficulty)) {
+      languageProgress.completedDifficulties![mode]!.push(difficulty)
+    }
+  })
+}
+
+const DIFFICULTY_ORDER: Difficulty[] = ['easy', 'medium', 'hard']
+
+/**
+ * Whether a difficulty is open to the learner: already completed, or the next one in order
+ */
+export function isDifficultyUnlocked(completedDifficulties: Difficulty[] | undefined, difficulty: Difficulty): boolean {
+  const completed = completedDifficulties ?? []
+  const next = DIFFICULTY_ORDER.find(candidate => !completed.includes(candidate))
+  return !next || completed.includes(difficulty) || difficulty === next
+}
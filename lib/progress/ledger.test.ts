@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import { Timestamp, type DocumentReference, type Transaction } from 'firebase-admin/firestore'
+import type { UserProfile } from '@/lib/firebaseService'
+import { OPENING_BALANCE_KEY, XP_EVENT_CAPS, recomputeXPTotals, recordXPEvents } from './ledger'
+import type { XPEventRecord, XPGrant } from './types'
+
+/**
+ * In-memory stand-in for one user's xpEvents subcollection and the transaction methods the ledger uses
+ */
+function createLedgerStore(initial: XPEventRecord[] = []) {
+  const events = new Map(initial.map(event => [event.activityKey, event]))
+  const docRef = (id: string) => ({ id })
+  const collectionRef = { doc: docRef }
+  const userRef = { collection: () => collectionRef } as unknown as DocumentReference
+
+  const transaction = {
+    getAll: async (...refs: { id: string }[]) => refs.map(ref => ({ exists: events.has(ref.id) })),
+    get: async () => ({ docs: Array.from(events.values()).map(event => ({ data: () => event })) }),
+    create: (ref: { id: string }, data: XPEventRecord) => {
+      if (events.has(ref.id)) throw new Error(`Document ${ref.id} already exists`)
+      events.set(ref.id, data)
+    },
+  } as unknown as Transaction
+
+  return { events, userRef, transaction }
+}
+
+function makeUser(overrides: Partial<UserProfile> = {}): UserProfile {
+  return {
+    totalXP: 0,
+    level: 1,
+    streak: 0,
+    achievements: [],
+    createdAt: Timestamp.fromMillis(Date.UTC(2026, 0, 1)),
+    lastActive: Timestamp.now(),
+    xpLedgerOpened: true,
+    treeProgress: { stage: 'seedling', overallGrowth: 0 },
+    ...overrides,
+  } as UserProfile
+}
+
+const grant = (activityKey: string, amount: number, source: XPGrant['source'] = 'game'): XPGrant =>
+  ({ activityKey, source, amount })
+
+describe('recordXPEvents', () => {
+  it('pays each activity once, however often it is granted', async () => {
+    const store = createLedgerStore()
+    const user = makeUser()
+
+    const first = await recordXPEvents(store.transaction, store.userRef, user, [grant('game:html:easy:level-0', 10)])
+    expect(first.granted).toBe(10)
+    expect(first.updates).toMatchObject({ totalXP: 10, level: 1 })
+
+    const again = await recordXPEvents(store.transaction, store.userRef, makeUser({ totalXP: 10 }), [
+      grant('game:html:easy:level-0', 10),
+      grant('game:html:easy:level-1', 10),
+    ])
+    expect(again.granted).toBe(10)
+    expect(Array.from(store.events.keys())).toEqual(['game:html:easy:level-0', 'game:html:easy:level-1'])
+  })
+
+  it('caps each event at its source maximum and skips non-positive amounts', async () => {
+    const store = createLedgerStore()
+    const result = await recordXPEvents(store.transaction, store.userRef, makeUser(), [
+      grant('streak:2026-01-02', 1_000_000, 'streak'),
+      grant('game:html:easy:level-0', -50),
+    ])
+    expect(result.granted).toBe(XP_EVENT_CAPS.streak)
+    expect(store.events.has('game:html:easy:level-0')).toBe(false)
+  })
+
+  it('records XP from before the ledger as an opening balance on the first write', async () => {
+    const store = createLedgerStore()
+    const user = makeUser({ totalXP: 400, xpLedgerOpened: false })
+
+    const result = await recordXPEvents(store.transaction, store.userRef, user, [grant('game:html:easy:level-0', 10)])
+    expect(store.events.get(OPENING_BALANCE_KEY)).toMatchObject({ source: 'legacy', amount: 400 })
+    expect(result.updates).toMatchObject({ totalXP: 410, xpLedgerOpened: true })
+  })
+
+  it('writes nothing when there is nothing to grant', async () => {
+    const store = createLedgerStore()
+    expect(await recordXPEvents(store.transaction, store.userRef, makeUser(), [])).toEqual({ granted: 0, updates: {} })
+    expect(store.events.size).toBe(0)
+  })
+})
+
+describe('recomputeXPTotals', () => {
+  it('rebuilds total XP and level from the ledger, ignoring a drifted total', async () => {
+    const createdAt = Timestamp.now()
+    const store = createLedgerStore([
+      { activityKey: 'tutorial:html:complete', source: 'tutorial', amount: 100, createdAt },
+      { activityKey: 'project:portfolio', source: 'project', amount: 500, createdAt },
+      { activityKey: OPENING_BALANCE_KEY, source: 'legacy', amount: 450, createdAt },
+    ])
+
+    const result = await recomputeXPTotals(store.transaction, store.userRef, makeUser({ totalXP: 99999 }))
+    expect(result).toMatchObject({ totalXP: 1050, level: 2 })
+    expect(result.updates).toMatchObject({ totalXP: 1050, level: 2, xpLedgerOpened: true })
+  })
+})
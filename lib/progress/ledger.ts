@@ -0,0 +1,186 @@
+// Append-only XP ledger. Every XP change goes through recordXPEvents, which writes one
+// event per rewarded activity and the matching totals in the same transaction.
+// Totals can be rebuilt from the events with recomputeXPTotals.
+
+import { Timestamp, type DocumentReference, type Transaction } from 'firebase-admin/firestore'
+import { GAME_XP_REWARDS, MAX_PROJECT_XP, XP_REWARDS } from '@/utils/gameConstants'
+import type { UserProfile } from '@/lib/firebaseService'
+import { XP_EVENTS_COLLECTION, type XPGrant, type XPEventRecord, type XPSource } from './types'
+
+// Ledger id of the event holding XP earned before the ledger existed
+export const OPENING_BALANCE_KEY = 'legacy:opening-balance'
+
+// Tree growth a profile restarts from after a celebration (see /api/progress/tree)
+const TREE_GROWTH_AFTER_CELEBRATION = 75
+
+/**
+ * Largest amount a single ledger event may carry, per source
+ */
+export const XP_EVENT_CAPS: Record<XPSource, number> = {
+  tutorial: XP_REWARDS.TUTORIAL_COMPLETE,
+  game: Math.max(GAME_XP_REWARDS.CORRECT_ANSWER, GAME_XP_REWARDS.GAME_COMPLETION_BONUS),
+  sandbox: Math.max(XP_REWARDS.SANDBOX_EXECUTE, XP_REWARDS.SANDBOX_COMPLETE),
+  project: MAX_PROJECT_XP,
+  streak: XP_REWARDS.STREAK_BONUS,
+  // Only written once per profile, by openLedger
+  legacy: Number.MAX_SAFE_INTEGER,
+}
+
+type TreeStage = NonNullable<UserProfile['treeProgress']>['stage']
+
+function getLevel(totalXP: number): number {
+  return Math.floor(totalXP / 1000) + 1
+}
+
+function getTreeStage(growth: number): TreeStage {
+  if (growth < 25) return 'seedling'
+  if (growth < 50) return 'sapling'
+  if (growth < 75) return 'growing'
+  if (growth < 100) return 'mature'
+  return 'flourishing'
+}
+
+/**
+ * Profile fields to update when a user gains XP: total, level, tree growth and the legacy glass
+ */
+function getXPUpdates(user: UserProfile, xpGained: number): Record<string, unknown> {
+  const totalXP = user.totalXP + xpGained
+  const updates: Record<string, unknown> = {
+    totalXP,
+    level: getLevel(totalXP),
+  }
+
+  // Legacy: glass fills 10% per 100 XP
+  if (user.glassProgress !== undefined) {
+    updates.glassProgress = Math.min(100, user.glassProgress + xpGained / 10)
+  }
+
+  // Tree grows at the same rate; profiles without a tree start one
+  if (!user.treeProgress) {
+    updates.treeProgress = { stage: 'seedling', overallGrowth: 0 }
+  } else {
+    const overallGrowth = Math.min(100, user.treeProgress.overallGrowth + xpGained / 10)
+    updates['treeProgress.overallGrowth'] = overallGrowth
+    updates['treeProgress.stage'] = getTreeStage(overallGrowth)
+  }
+
+  return updates
+}
+
+/**
+ * Profile fields that restart a fully grown tree after its celebration
+ */
+export function getTreeCelebrationUpdates(): Record<string, unknown> {
+  return {
+    'treeProgress.overallGrowth': TREE_GROWTH_AFTER_CELEBRATION,
+    'treeProgress.stage': getTreeStage(TREE_GROWTH_AFTER_CELEBRATION),
+    'treeProgress.lastCelebration': Timestamp.now(),
+  }
+}
+
+async function getLedgerEvents(transaction: Transaction, userRef: DocumentReference): Promise<XPEventRecord[]> {
+  const snapshot = await transaction.get(userRef.collection(XP_EVENTS_COLLECTION))
+  return snapshot.docs.map(doc => doc.data() as XPEventRecord)
+}
+
+function sumEvents(events: XPEventRecord[]): number {
+  return events.reduce((total, event) => total + event.amount, 0)
+}
+
+/**
+ * Event for the XP a profile held before its ledger was opened (XP no event explains),
+ * dated to the profile's creation. Null once the ledger is open or when nothing is missing.
+ */
+function getOpeningBalance(user: UserProfile, events: XPEventRecord[]): XPEventRecord | null {
+  if (user.xpLedgerOpened) return null
+
+  const amount = user.totalXP - sumEvents(events)
+  if (amount <= 0) return null
+
+  return {
+    activityKey: OPENING_BALANCE_KEY,
+    source: 'legacy',
+    amount,
+    createdAt: Timestamp.fromMillis(user.createdAt.toMillis()),
+  }
+}
+
+/**
+ * Append XP events for the given grants, skipping activities that already paid out,
+ * and return the XP granted with the profile updates to apply.
+ * The first write for a profile also records its opening balance.
+ * Reads inside the transaction, so call it after every other read.
+ */
+export async function recordXPEvents(
+  transaction: Transaction,
+  userRef: DocumentReference,
+  user: UserProfile,
+  grants: XPGrant[]
+): Promise<{ granted: number; updates: Record<string, unknown> }> {
+  if (grants.length === 0) return { granted: 0, updates: {} }
+
+  const refs = grants.map(grant => userRef.collection(XP_EVENTS_COLLECTION).doc(grant.activityKey))
+  const snapshots = await transaction.getAll(...refs)
+  const opening = getOpeningBalance(user, user.xpLedgerOpened ? [] : await getLedgerEvents(transaction, userRef))
+  const createdAt = Timestamp.now()
+  let granted = 0
+
+  grants.forEach((grant, index) => {
+    if (snapshots[index].exists) return
+
+    const amount = Math.min(Math.max(Math.round(grant.amount), 0), XP_EVENT_CAPS[grant.source])
+    if (amount === 0) return
+
+    const event: XPEventRecord = { activityKey: grant.activityKey, source: grant.source, amount, createdAt }
+    if (grant.languageKey) event.languageKey = grant.languageKey
+    if (grant.difficulty) event.difficulty = grant.difficulty
+
+    transaction.create(refs[index], event)
+    granted += amount
+  })
+
+  if (opening) {
+    transaction.create(userRef.collection(XP_EVENTS_COLLECTION).doc(OPENING_BALANCE_KEY), opening)
+  }
+
+  const updates = granted > 0 ? getXPUpdates(user, granted) : {}
+  if (!user.xpLedgerOpened) updates.xpLedgerOpened = true
+
+  return { granted, updates }
+}
+
+/**
+ * Rebuild totalXP, level and tree growth from the ledger, for repairing drifted profiles.
+ * Tree growth counts from the last celebration when there was one.
+ * Reads inside the transaction, so call it after every other read.
+ */
+export async function recomputeXPTotals(
+  transaction: Transaction,
+  userRef: DocumentReference,
+  user: UserProfile
+): Promise<{ totalXP: number; level: number; overallGrowth: number; updates: Record<string, unknown> }> {
+  const events = await getLedgerEvents(transaction, userRef)
+  const opening = getOpeningBalance(user, events)
+  if (opening) {
+    transaction.create(userRef.collection(XP_EVENTS_COLLECTION).doc(OPENING_BALANCE_KEY), opening)
+    events.push(opening)
+  }
+
+  const totalXP = sumEvents(events)
+  const level = getLevel(totalXP)
+  const lastCelebration = user.treeProgress?.lastCelebration?.toMillis()
+  const overallGrowth = lastCelebration === undefined
+    ? Math.min(100, totalXP / 10)
+    : Math.min(100, TREE_GROWTH_AFTER_CELEBRATION +
+      sumEvents(events.filter(event => event.createdAt.toMillis() > lastCelebration)) / 10)
+
+  const updates: Record<string, unknown> = { totalXP, level, xpLedgerOpened: true }
+  if (user.treeProgress) {
+    updates['treeProgress.overallGrowth'] = overallGrowth
+    updates['treeProgress.stage'] = getTreeStage(overallGrowth)
+  } else {
+    updates.treeProgress = { stage: getTreeStage(overallGrowth), overallGrowth }
+  }
+
+  return { totalXP, level, overallGrowth, updates }
+}
@@ -0,0 +1,93 @@
+// Mini-project work sent to the /api/progress/project routes: shape checks, and the
+// server's own run of each step's checks before a completion is accepted
+
+import { JSDOM, VirtualConsole } from 'jsdom'
+import { buildPreviewDocument, getInitialWorkState, type ProjectWorkState } from '@/utils/projectFiles'
+import { CHECK_RUNTIME, CHECK_TIMEOUT_MS, isStaticCheck, type StepCheckResult } from '@/utils/projectChecks'
+import type { MiniProject, StepCheck } from '@/utils/miniProjects'
+import { ProgressError } from './types'
+
+// Largest total size of the files saved with a project
+const MAX_WORKSPACE_LENGTH = 200000
+
+/**
+ * Validate the shape and size of a workspace sent by the client
+ */
+export function parseWorkState(value: unknown): ProjectWorkState {
+  if (!value || typeof value !== 'object') {
+    throw new ProgressError('workState is required')
+  }
+  const state = value as ProjectWorkState
+  const validFiles = Array.isArray(state.files) && state.files.every(file =>
+    file && typeof file.id === 'string' && typeof file.name === 'string' &&
+    typeof file.language === 'string' && typeof file.isStarter === 'boolean'
+  )
+  const contents = state.fileContents && typeof state.fileContents === 'object' ? Object.values(state.fileContents) : null
+  if (!validFiles || !contents || contents.some(content => typeof content !== 'string') ||
+    !Number.isInteger(state.currentStep) ||
+    !Array.isArray(state.completedSteps) || !state.completedSteps.every(step => Number.isInteger(step))) {
+    throw new ProgressError('workState is malformed')
+  }
+  if ((contents as string[]).reduce((total, content) => total + content.length, 0) > MAX_WORKSPACE_LENGTH) {
+    throw new ProgressError('Project files are too large to save')
+  }
+  return state
+}
+
+/**
+ * Run checks against the bundled preview with the same runtime the workspace uses,
+ * in a jsdom window that never runs the page's own scripts or loads external resources
+ */
+function runStaticChecks(previewHtml: string, checks: StepCheck[]): Promise<StepCheckResult[]> {
+  // A virtual console that forwards nowhere keeps learners' CSS errors out of the server log
+  const dom = new JSDOM(previewHtml, { runScripts: 'outside-only', pretendToBeVisual: true, virtualConsole: new VirtualConsole() })
+  const { window } = dom
+
+  return new Promise<StepCheckResult[]>(resolve => {
+    const timer = setTimeout(() => {
+      resolve(checks.map(check => ({ description: check.description, passed: false, message: 'The preview did not respond in time' })))
+    }, CHECK_TIMEOUT_MS)
+
+    window.addEventListener('message', event => {
+      if (event.data?.type !== 'vfs-check-results' || !Array.isArray(event.data.results)) return
+      clearTimeout(timer)
+      resolve(event.data.results)
+    })
+    window.eval(CHECK_RUNTIME)
+    window.postMessage({ type: 'vfs-run-checks', id: 'server', checks }, '*')
+  }).finally(() => window.close())
+}
+
+/**
+ * Check that a workspace really completes every step of a project
+ * - every step's target file must differ from its starter code
+ * - markup and style checks are re-run here, so their steps pass whatever the client reports
+ * - checks that call into the page's scripts can't run safely on the server, so steps
+ *   relying on them must still be among the client's completed steps
+ * @throws ProgressError (409) naming the first step that isn't done
+ */
+export async function verifyProjectSteps(project: MiniProject, workState: ProjectWorkState): Promise<void> {
+  const starter = getInitialWorkState(project)
+  const untouched = project.steps.find(step => workState.fileContents[step.targetFileId] === starter.fileContents[step.targetFileId])
+  if (untouched) {
+    throw new ProgressError(`"${untouched.title}" has no changes to its starter code`, 409)
+  }
+
+  const staticChecks = project.steps.flatMap(step => step.checks.filter(isStaticCheck))
+  const { html } = buildPreviewDocument(workState.files.map(file => ({ path: file.name, content: workState.fileContents[file.id] ?? '' })))
+  const results = staticChecks.length > 0 ? await runStaticChecks(html, staticChecks) : []
+
+  let resultIndex = 0
+  project.steps.forEach((step, index) => {
+    step.checks.forEach(check => {
+      if (!isStaticCheck(check)) return
+      const result = results[resultIndex++]
+      if (!result?.passed) {
+        throw new ProgressError(`"${step.title}" isn't finished: ${result?.message || check.description}`, 409)
+      }
+    })
+    if (step.checks.some(check => !isStaticCheck(check)) && !workState.completedSteps.includes(index)) {
+      throw new ProgressError(`Complete "${step.title}" before finishing the project`, 409)
+    }
+  })
+}
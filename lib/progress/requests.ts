@@ -0,0 +1,146 @@
+// Request handling shared by the /api/progress routes
+
+import { NextRequest, NextResponse } from 'next/server'
+import type { DocumentReference, Transaction } from 'firebase-admin/firestore'
+import { checkRateLimit, getClientIdentifier, RATE_LIMITS, type RateLimitConfig } from '@/utils/rateLimit'
+import { validateCodeFormat } from '@/utils/userCodeGenerator'
+import { isValidDifficulty } from '@/utils/gameConstants'
+import { TECHNOLOGY_MODULES, type Language } from '@/utils/techModules'
+import { getAdminDb } from '@/lib/firebaseAdmin'
+import type { UserProfile } from '@/lib/firebaseService'
+import { ProgressError, type Difficulty } from './types'
+
+export type ProgressRequestBody = Record<string, unknown>
+
+const USERS_COLLECTION = 'users'
+
+/**
+ * Rate limit, parse the body and user code, run the handler and reply with
+ * `{ success: true, ...result }`. ProgressErrors become `{ success: false, error }` with their status.
+ */
+export async function handleProgressRequest(
+  request: NextRequest,
+  label: string,
+  handler: (body: ProgressRequestBody, userCode: string) => Promise<object>,
+  rateLimit: { key: string; config: RateLimitConfig } = { key: 'progress', config: RATE_LIMITS.general }
+) {
+  try {
+    const clientId = getClientIdentifier(request)
+    const limit = checkRateLimit(`${rateLimit.key}:${clientId}`, rateLimit.config)
+
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { success: false, error: 'Too many requests. Please wait a moment before trying again.' },
+        {
+          status: 429,
+          headers: {
+            'X-RateLimit-Remaining': '0',
+            'X-RateLimit-Reset': limit.resetTime.toString(),
+          }
+        }
+      )
+    }
+
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      throw new ProgressError('Invalid request body')
+    }
+
+    const userCode = typeof body.userCode === 'string' ? body.userCode : ''
+    if (!validateCodeFormat(userCode)) {
+      throw new ProgressError('A valid user code is required')
+    }
+
+    const result = await handler(body, userCode)
+    return NextResponse.json({ success: true, ...result })
+
+  } catch (error) {
+    if (error instanceof ProgressError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+
+    // Log server-side only
+    console.error(`${label} error:`, error instanceof Error ? error.message : 'Unknown')
+
+    return NextResponse.json(
+      { success: false, error: 'Saving progress failed. Please try again.' },
+      { status: 500 }
+    )
+  }
+}
+
+export function getUserRef(userCode: string): DocumentReference {
+  return getAdminDb().collection(USERS_COLLECTION).doc(userCode)
+}
+
+/**
+ * Read a user profile inside a transaction
+ * @throws ProgressError (404) if the user does not exist
+ */
+export async function getUserInTransaction(
+  transaction: Transaction,
+  userCode: string
+): Promise<{ userRef: DocumentReference; user: UserProfile }> {
+  const userRef = getUserRef(userCode)
+  const snapshot = await transaction.get(userRef)
+
+  if (!snapshot.exists) {
+    throw new ProgressError('User not found', 404)
+  }
+
+  return { userRef, user: snapshot.data() as UserProfile }
+}
+
+export function parseDifficulty(value: unknown): Difficulty {
+  if (typeof value !== 'string' || !isValidDifficulty(value)) {
+    throw new ProgressError('Difficulty must be easy, medium or hard')
+  }
+  return value
+}
+
+/**
+ * Parse an integer in [min, max]
+ */
+export function parseInteger(value: unknown, name: string, min: number, max: number): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+    throw new ProgressError(`${name} must be a whole number between ${min} and ${max}`)
+  }
+  return value
+}
+
+/**
+ * Parse a list of unique integers in [0, count)
+ */
+export function parseIndexList(value: unknown, name: string, count: number): number[] {
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'number' || !Number.isInteger(item) || item < 0 || item >= count)) {
+    throw new ProgressError(`${name} must list numbers between 0 and ${count - 1}`)
+  }
+  return Array.from(new Set(value as number[])).sort((a, b) => a - b)
+}
+
+/**
+ * Resolve a "moduleId-languageId" key to a known language
+ */
+export function parseLanguageKey(value: unknown): { languageKey: string; moduleId: string; languageId: string; language: Language } {
+  if (typeof value === 'string') {
+    for (const techModule of TECHNOLOGY_MODULES) {
+      if (!value.startsWith(`${techModule.id}-`)) continue
+      const language = techModule.languages.find(lang => `${techModule.id}-${lang.id}` === value)
+      if (language) {
+        return { languageKey: value, moduleId: techModule.id, languageId: language.id, language }
+      }
+    }
+  }
+  throw new ProgressError('Unknown language')
+}
+
+/**
+ * Parse the resumable game state a client saves with its position
+ */
+export function parseGameState(body: ProgressRequestBody): { lives: number; hints: number; score: number } {
+  return {
+    lives: parseInteger(body.lives, 'lives', 0, 10),
+    hints: parseInteger(body.hints, 'hints', 0, 10),
+    score: parseInteger(body.score, 'score', 0, 1000000),
+  }
+}
@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { ExecutionOutcome } from '@/lib/codeExecution'
+import type { SandboxExercise } from '@/utils/sandboxExercises'
+import { gradeSubmission } from './sandboxGrading'
+import { ProgressError } from './types'
+
+const execution = vi.hoisted(() => ({
+  runCode: vi.fn(),
+  getExecutionProvider: vi.fn(),
+}))
+
+vi.mock('@/lib/codeExecution', async importOriginal => ({
+  ...await importOriginal<typeof import('@/lib/codeExecution')>(),
+  runCode: execution.runCode,
+  getExecutionProvider: execution.getExecutionProvider,
+}))
+
+const { ExecutionProviderError } = await import('@/lib/codeExecution')
+
+function outcome(stdout: string, code = 0, resultSet?: ExecutionOutcome['resultSet']): ExecutionOutcome {
+  return { run: { stdout, stderr: '', code }, runtime: 'python', version: '3.10.0', resultSet }
+}
+
+// A "program" that prints its stdin shouted, unless it contains BUG
+function shoutingRunner(_languageId: string, code: string, stdin: string): Promise<ExecutionOutcome> {
+  return Promise.resolve(code.includes('BUG') ? outcome('wrong') : outcome(stdin.toUpperCase()))
+}
+
+const testedExercise: SandboxExercise = {
+  id: '1',
+  title: 'Shout',
+  description: '',
+  instructions: '',
+  starterCode: '',
+  solution: 'print(input().upper())',
+  hint: '',
+  testHarness: '# harness',
+  testCases: [
+    { id: 'a', description: 'Shouts a greeting', input: 'hi', expectedOutput: 'HI' },
+    { id: 'b', description: 'Shouts another greeting', input: 'hey', expectedOutput: 'HEY', hidden: true },
+  ],
+}
+
+const untestedExercise: SandboxExercise = {
+  id: '2',
+  title: 'Variables',
+  description: '',
+  instructions: '',
+  starterCode: '',
+  solution: 'name = "Alice"\nage = 25',
+  hint: '',
+}
+
+beforeEach(() => {
+  execution.runCode.mockReset().mockImplementation(shoutingRunner)
+  execution.getExecutionProvider.mockReset().mockReturnValue({ id: 'local' })
+})
+
+describe('gradeSubmission', () => {
+  it('passes an exercise only when every test case, hidden ones included, passes', async () => {
+    const [passing] = await gradeSubmission('python', [testedExercise], ['print(input().upper())'])
+    expect(passing).toEqual({ passed: true, verified: true, testsPassed: 2, testsTotal: 2 })
+
+    const [failing] = await gradeSubmission('python', [testedExercise], ['BUG'])
+    expect(failing).toEqual({ passed: false, verified: true, testsPassed: 0, testsTotal: 2 })
+    expect(execution.runCode).toHaveBeenCalledWith('python', 'BUG\n\n# harness\n', 'hey', undefined)
+  })
+
+  it('grades exercises without tests by similarity to the solution, unverified', async () => {
+    const grades = await gradeSubmission('python', [untestedExercise, untestedExercise], [
+      'name = "Alice"\nage = 26',
+      'print("something else entirely")',
+    ])
+    expect(grades).toEqual([{ passed: true, verified: false }, { passed: false, verified: false }])
+    expect(execution.runCode).not.toHaveBeenCalled()
+  })
+
+  it('falls back to similarity when the language cannot be run, instead of failing', async () => {
+    execution.getExecutionProvider.mockReturnValue(null)
+    const [grade] = await gradeSubmission('react', [testedExercise], ['print(input().upper())'])
+    expect(grade).toEqual({ passed: true, verified: false })
+    expect(execution.runCode).not.toHaveBeenCalled()
+  })
+
+  it('fails empty submissions without running them', async () => {
+    const [grade] = await gradeSubmission('python', [testedExercise], ['   '])
+    expect(grade).toEqual({ passed: false, verified: true, testsPassed: 0, testsTotal: 2 })
+    expect(execution.runCode).not.toHaveBeenCalled()
+  })
+
+  it('counts a timed-out or crashing run as a failed test', async () => {
+    execution.runCode
+      .mockRejectedValueOnce(new ExecutionProviderError('Timed out', true))
+      .mockResolvedValueOnce(outcome('HEY', 1))
+    const [grade] = await gradeSubmission('python', [testedExercise], ['print(input().upper())'])
+    expect(grade).toMatchObject({ passed: false, testsPassed: 0 })
+  })
+
+  it('reports an unreachable execution service as a 503 rather than a failed exercise', async () => {
+    execution.runCode.mockRejectedValue(new ExecutionProviderError('Connection refused'))
+    const grading = gradeSubmission('python', [testedExercise], ['print(input().upper())'])
+    await expect(grading).rejects.toBeInstanceOf(ProgressError)
+    await expect(grading).rejects.toMatchObject({ status: 503 })
+  })
+
+  it('grades SQL by comparing result sets with the solution', async () => {
+    const sqlExercise: SandboxExercise = {
+      ...untestedExercise,
+      solution: 'SELECT name FROM users',
+      database: { tables: [] },
+    }
+    const columns = [{ name: 'name', type: 'text' }]
+    execution.runCode.mockImplementation((_languageId: string, code: string) =>
+      Promise.resolve(outcome('', 0, { columns, rows: code.includes('WHERE') ? [['Ada']] : [['Ada'], ['Alan']] })))
+
+    const grades = await gradeSubmission('sql', [sqlExercise, sqlExercise], [
+      'select name from users',
+      'SELECT name FROM users WHERE id = 1',
+    ])
+    expect(grades).toEqual([{ passed: true, verified: true }, { passed: false, verified: true }])
+  })
+})
@@ -0,0 +1,152 @@
+// Server-side grading of sandbox submissions, so completion and XP never rely on
+// results reported by the browser
+
+import { ExecutionProviderError, getExecutionProvider, runCode } from '@/lib/codeExecution'
+import { compareResultSets } from '@/utils/sqlResultSet'
+import { buildTestProgram, outputsMatch } from '@/utils/testCases'
+import { CODE_SIMILARITY_THRESHOLD } from '@/utils/gameConstants'
+import type { SandboxExercise } from '@/utils/sandboxExercises'
+import type { ExecutionOutcome } from '@/lib/codeExecution'
+import { ProgressError } from './types'
+
+export interface ExerciseGrade {
+  passed: boolean
+  /**
+   * Whether the pass was checked by running the code (test cases or result sets).
+   * Only verified passes earn XP; the solution ships to the browser, so a pass by
+   * similarity to it only counts towards progress.
+   */
+  verified: boolean
+  /** Only set for exercises graded by test cases */
+  testsPassed?: number
+  testsTotal?: number
+}
+
+// Code runs in flight at once for one submission
+const GRADING_CONCURRENCY = 4
+// Wall-clock budget for grading a whole submission
+const GRADING_TIME_LIMIT_MS = 60000
+
+/**
+ * Run code, treating an unreachable execution backend as a request error
+ * rather than a failed exercise. Timeouts count as failures.
+ */
+async function execute(languageId: string, code: string, stdin: string, database?: SandboxExercise['database']): Promise<ExecutionOutcome | null> {
+  try {
+    return await runCode(languageId, code, stdin, database)
+  } catch (error) {
+    if (error instanceof ExecutionProviderError && !error.isTimeout) {
+      throw new ProgressError('Code execution service temporarily unavailable. Please try again.', 503)
+    }
+    if (error instanceof ExecutionProviderError) return null
+    throw error
+  }
+}
+
+function succeeded(outcome: ExecutionOutcome | null): outcome is ExecutionOutcome {
+  if (!outcome) return false
+  if (outcome.compile && outcome.compile.code !== 0) return false
+  return outcome.run.code === 0
+}
+
+/**
+ * Runs code for one submission: at most GRADING_CONCURRENCY at a time and none once the
+ * time budget is spent, so a single request can't hold the route for minutes
+ */
+function createRunner(deadline: number) {
+  let active = 0
+  const waiting: (() => void)[] = []
+
+  return async (languageId: string, code: string, stdin: string, database?: SandboxExercise['database']): Promise<ExecutionOutcome | null> => {
+    // A finishing run hands its slot straight to the next waiting one
+    if (active < GRADING_CONCURRENCY) active++
+    else await new Promise<void>(resolve => waiting.push(resolve))
+    try {
+      if (Date.now() > deadline) {
+        throw new ProgressError('Grading took too long. Please try again in a moment.', 503)
+      }
+      return await execute(languageId, code, stdin, database)
+    } finally {
+      const next = waiting.shift()
+      if (next) next()
+      else active--
+    }
+  }
+}
+
+type Runner = ReturnType<typeof createRunner>
+
+/**
+ * Levenshtein distance with two rows, so memory stays proportional to the shorter string
+ */
+function getEditDistance(longer: string, shorter: string): number {
+  let previous = Array.from({ length: shorter.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= longer.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= shorter.length; j++) {
+      current[j] = longer[i - 1] === shorter[j - 1]
+        ? previous[j - 1]
+        : Math.min(previous[j - 1], current[j - 1], previous[j]) + 1
+    }
+    previous = current
+  }
+  return previous[shorter.length]
+}
+
+function isSimilar(str1: string, str2: string): boolean {
+  const longer = str1.length > str2.length ? str1 : str2
+  const shorter = str1.length > str2.length ? str2 : str1
+  if (longer.length === 0) return true
+  // The distance is at least the length difference; skip the DP when that alone rules it out
+  const maxDistance = Math.floor(longer.length * (1 - CODE_SIMILARITY_THRESHOLD))
+  if (longer.length - shorter.length > maxDistance) return false
+  return (longer.length - getEditDistance(longer, shorter)) / longer.length > CODE_SIMILARITY_THRESHOLD
+}
+
+/**
+ * Grade one submission the same way the sandbox explains it to learners:
+ * SQL by comparing result sets with the solution, exercises with test cases by running
+ * every case (hidden ones included), anything else by similarity to the solution (unverified).
+ * Exercises in a language the server can't run are not gradeable by execution, so they fall
+ * back to similarity too rather than failing.
+ */
+async function gradeExercise(run: Runner, languageId: string, exercise: SandboxExercise, submission: string): Promise<ExerciseGrade> {
+  const verified = Boolean(exercise.database || exercise.testCases) && getExecutionProvider(languageId) !== null
+  if (!submission.trim()) {
+    return verified && exercise.testCases
+      ? { passed: false, verified, testsPassed: 0, testsTotal: exercise.testCases.length }
+      : { passed: false, verified }
+  }
+
+  if (verified && exercise.database) {
+    const [actual, expected] = await Promise.all([
+      run(languageId, submission, '', exercise.database),
+      run(languageId, exercise.solution, '', exercise.database),
+    ])
+    if (!succeeded(actual) || !succeeded(expected)) return { passed: false, verified }
+    return { passed: compareResultSets(actual.resultSet, expected.resultSet, exercise.database.orderMatters).matches, verified }
+  }
+
+  if (verified && exercise.testCases) {
+    const program = buildTestProgram(submission, exercise.testHarness)
+    const results = await Promise.all(exercise.testCases.map(async testCase => {
+      const outcome = await run(languageId, program, String(testCase.input ?? ''))
+      return succeeded(outcome) && outputsMatch(outcome.run.stdout, String(testCase.expectedOutput ?? ''))
+    }))
+    const testsPassed = results.filter(Boolean).length
+    return { passed: testsPassed === exercise.testCases.length, verified, testsPassed, testsTotal: exercise.testCases.length }
+  }
+
+  const codeNormalized = submission.trim().replace(/\s+/g, ' ')
+  const solutionNormalized = exercise.solution.trim().replace(/\s+/g, ' ')
+  return { passed: isSimilar(codeNormalized, solutionNormalized), verified }
+}
+
+/**
+ * Grade every exercise of a submission, running code concurrently within a time budget
+ * @throws ProgressError (503) if the execution service is unavailable or grading runs out of time
+ */
+export async function gradeSubmission(languageId: string, exercises: SandboxExercise[], submissions: string[]): Promise<ExerciseGrade[]> {
+  const run = createRunner(Date.now() + GRADING_TIME_LIMIT_MS)
+  return Promise.all(exercises.map((exercise, index) => gradeExercise(run, languageId, exercise, submissions[index])))
+}
@@ -0,0 +1,48 @@
+/**
+ * Progress API Types
+ * Shared contracts between the /api/progress routes and the XP ledger
+ */
+
+import type { Timestamp } from 'firebase-admin/firestore'
+
+export type Difficulty = 'easy' | 'medium' | 'hard'
+
+// Ledger subcollection under each user document
+export const XP_EVENTS_COLLECTION = 'xpEvents'
+
+/**
+ * Kind of activity that produced an XP event.
+ * 'legacy' is the opening balance: XP a profile held before the ledger was kept.
+ */
+export type XPSource = 'tutorial' | 'game' | 'sandbox' | 'project' | 'streak' | 'legacy'
+
+/**
+ * XP a route grants for one verified activity.
+ * `activityKey` (e.g. "game:web-development-html:easy:level-3") is also the ledger
+ * document id, so every activity pays out at most once.
+ */
+export interface XPGrant {
+  activityKey: string
+  source: XPSource
+  amount: number
+  /** moduleId-languageId, for language activities */
+  languageKey?: string
+  difficulty?: Difficulty
+}
+
+/**
+ * Ledger entry stored at users/{code}/xpEvents/{activityKey}. Entries are only ever created.
+ */
+export interface XPEventRecord extends XPGrant {
+  createdAt: Timestamp
+}
+
+/**
+ * A progress request that was rejected; `status` is the HTTP status returned to the client
+ */
+export class ProgressError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message)
+    this.name = 'ProgressError'
+  }
+}
@@ -1,6 +1,8 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  // sql.js loads its wasm binary from node_modules at runtime
+  serverExternalPackages: ['sql.js'],
   images: {
     domains: [],
   },
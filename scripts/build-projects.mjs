@@ -0,0 +1,327 @@
+// Build mini-projects from content/projects into utils/miniProjects.generated.ts
+//
+// Each project is a directory:
+//   content/projects/<id>/project.json    manifest: metadata, files and steps (with their checks)
+//   content/projects/<id>/starter/<name>  starter code for every file in the manifest
+//   content/projects/<id>/solution/<name> reference solution for every file
+//   content/projects/<id>/steps/<id>.md   "# Title", the step description, then a "## Hint" section
+//
+// Usage: node scripts/build-projects.mjs [--check]
+//   --check  only validate and fail if the generated module is out of date
+
+import { existsSync, readdirSync, readFileSync, statSync, writeFileSync } from 'fs'
+import path from 'path'
+import { fileURLToPath } from 'url'
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..')
+const CONTENT_DIR = path.join(ROOT, 'content', 'projects')
+const OUTPUT_FILE = path.join(ROOT, 'utils', 'miniProjects.generated.ts')
+
+const DIFFICULTIES = ['beginner', 'intermediate', 'advanced']
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/
+const SLUG = /^[a-z0-9]+(-[a-z0-9]+)*$/
+// Same limit as MAX_PROJECT_XP in utils/gameConstants.ts, enforced again when XP is granted
+const MAX_XP_REWARD = 500
+
+// Manifest schema, mirroring MiniProject / ProjectStep / StepCheck in utils/miniProjects.ts
+const PROJECT_FIELDS = {
+  id: { type: 'string', required: true },
+  title: { type: 'string', required: true },
+  description: { type: 'string', required: true },
+  difficulty: { type: 'string', required: true, oneOf: DIFFICULTIES },
+  estimatedTime: { type: 'string', required: true },
+  languages: { type: 'string[]', required: true },
+  icon: { type: 'string', required: true },
+  color: { type: 'string', required: true },
+  xpReward: { type: 'integer', required: true },
+  order: { type: 'integer' },
+  files: { type: 'array', required: true },
+  steps: { type: 'array', required: true },
+}
+const FILE_FIELDS = {
+  id: { type: 'string', required: true },
+  name: { type: 'string', required: true },
+  language: { type: 'string', required: true },
+}
+const STEP_FIELDS = {
+  id: { type: 'integer', required: true },
+  targetFileId: { type: 'string', required: true },
+  checks: { type: 'array', required: true },
+}
+const CHECK_FIELDS = {
+  element: {
+    selector: { type: 'string', required: true },
+    minCount: { type: 'integer' },
+    attribute: { type: 'string' },
+    attributeValue: { type: 'string' },
+    text: { type: 'string' },
+  },
+  style: {
+    selector: { type: 'string', required: true },
+    property: { type: 'string', required: true },
+    equals: { type: 'string' },
+    includes: { type: 'string' },
+    notEquals: { type: 'string' },
+    withClass: { type: 'string' },
+  },
+  rule: {
+    selector: { type: 'string', required: true },
+    property: { type: 'string' },
+  },
+  function: {
+    name: { type: 'string', required: true, pattern: IDENTIFIER },
+    inputs: { type: 'object' },
+    calls: { type: 'array' },
+    returns: { type: 'any' },
+    expect: { type: 'array' },
+  },
+  value: {
+    expression: { type: 'string', required: true },
+    equals: { type: 'any' },
+    atLeast: { type: 'number' },
+  },
+}
+
+function typeMatches(value, type) {
+  switch (type) {
+    case 'any': return true
+    case 'string': return typeof value === 'string' && value.trim() !== ''
+    case 'string[]': return Array.isArray(value) && value.every(item => typeof item === 'string')
+    case 'integer': return Number.isInteger(value)
+    case 'number': return typeof value === 'number' && Number.isFinite(value)
+    case 'array': return Array.isArray(value)
+    case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value)
+    default: return false
+  }
+}
+
+/**
+ * Check an object against a field spec, reporting missing, mistyped and unknown fields
+ */
+function validateFields(value, fields, where, report) {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    report(`${where} must be an object`)
+    return false
+  }
+  for (const [name, spec] of Object.entries(fields)) {
+    if (!(name in value)) {
+      if (spec.required) report(`${where}.${name} is required`)
+      continue
+    }
+    const field = value[name]
+    if (!typeMatches(field, spec.type)) {
+      report(`${where}.${name} must be ${spec.type === 'string' ? 'a non-empty string' : `of type ${spec.type}`}`)
+    } else if (spec.oneOf && !spec.oneOf.includes(field)) {
+      report(`${where}.${name} must be one of ${spec.oneOf.join(', ')} (got "${field}")`)
+    } else if (spec.pattern && !spec.pattern.test(field)) {
+      report(`${where}.${name} "${field}" is not a valid identifier`)
+    }
+  }
+  for (const name of Object.keys(value)) {
+    if (!(name in fields)) report(`${where}.${name} is not a known field`)
+  }
+  return true
+}
+
+function validateCheck(check, where, report) {
+  const type = check?.type
+  if (!(type in CHECK_FIELDS)) {
+    report(`${where}.type must be one of ${Object.keys(CHECK_FIELDS).join(', ')}`)
+    return
+  }
+  const fields = { type: { type: 'string', required: true }, description: { type: 'string', required: true }, ...CHECK_FIELDS[type] }
+  if (!validateFields(check, fields, where, report)) return
+
+  if (type === 'element' && check.minCount !== undefined && check.minCount < 1) {
+    report(`${where}.minCount must be at least 1`)
+  }
+  if (type === 'style' && ['equals', 'includes', 'notEquals'].every(name => check[name] === undefined)) {
+    report(`${where} needs one of equals, includes or notEquals`)
+  }
+  if (type === 'value' && check.equals === undefined && check.atLeast === undefined) {
+    report(`${where} needs equals or atLeast`)
+  }
+  if (type === 'function') {
+    if (check.inputs && Object.values(check.inputs).some(input => typeof input !== 'string')) {
+      report(`${where}.inputs values must be strings`)
+    }
+    ;(Array.isArray(check.calls) ? check.calls : []).forEach((call, index) => {
+      if (!Array.isArray(call) || typeof call[0] !== 'string' || !IDENTIFIER.test(call[0])) {
+        report(`${where}.calls[${index}] must be an array starting with a function name`)
+      }
+    })
+    ;(Array.isArray(check.expect) ? check.expect : []).forEach((expected, index) => {
+      validateFields(expected, { selector: { type: 'string', required: true }, text: { type: 'string' } }, `${where}.expect[${index}]`, report)
+    })
+  }
+}
+
+/**
+ * Split a step README into title, description and hint
+ */
+function parseStepReadme(source, file, report) {
+  const text = source.replace(/\r\n/g, '\n').trim()
+  const heading = /^# (.+)\n/.exec(text)
+  if (!heading) {
+    report('must start with a "# Title" heading', file)
+    return null
+  }
+  const body = text.slice(heading[0].length)
+  const hintMatch = /^## Hint[ \t]*$/m.exec(body)
+  if (!hintMatch) {
+    report('is missing a "## Hint" section', file)
+    return null
+  }
+  const description = body.slice(0, hintMatch.index).trim()
+  const hint = body.slice(hintMatch.index + hintMatch[0].length).trim()
+  if (!description) report('has no description before "## Hint"', file)
+  if (!hint) report('the "## Hint" section is empty', file)
+  return { title: heading[1].trim(), description, hint }
+}
+
+function readText(file, report) {
+  if (!existsSync(file) || !statSync(file).isFile()) {
+    report('file not found', relative(file))
+    return null
+  }
+  return readFileSync(file, 'utf8')
+}
+
+function relative(file) {
+  return path.relative(ROOT, file).split(path.sep).join('/')
+}
+
+/**
+ * Load and validate one project directory. Returns null if it has errors.
+ */
+function loadProject(dir, errors) {
+  const manifestPath = path.join(dir, 'project.json')
+  const manifestName = relative(manifestPath)
+  const errorCount = errors.length
+  const report = (message, file = manifestName) => errors.push(`${file}: ${message}`)
+
+  const source = readText(manifestPath, report)
+  if (source === null) return null
+
+  let manifest
+  try {
+    manifest = JSON.parse(source)
+  } catch (error) {
+    report(`invalid JSON (${error.message})`)
+    return null
+  }
+
+  if (!validateFields(manifest, PROJECT_FIELDS, 'project', report)) return null
+  if (typeof manifest.id === 'string' && !SLUG.test(manifest.id)) report(`project.id "${manifest.id}" must be lowercase words separated by hyphens`)
+  if (typeof manifest.id === 'string' && manifest.id !== path.basename(dir)) {
+    report(`project.id "${manifest.id}" must match its directory name "${path.basename(dir)}"`)
+  }
+  if (Number.isInteger(manifest.xpReward) && (manifest.xpReward <= 0 || manifest.xpReward > MAX_XP_REWARD)) {
+    report(`project.xpReward must be between 1 and ${MAX_XP_REWARD}`)
+  }
+
+  const files = []
+  const fileIds = new Set()
+  ;(Array.isArray(manifest.files) ? manifest.files : []).forEach((file, index) => {
+    const where = `files[${index}]`
+    if (!validateFields(file, FILE_FIELDS, where, report)) return
+    if (fileIds.has(file.id)) report(`${where}.id "${file.id}" is used more than once`)
+    fileIds.add(file.id)
+    if (typeof file.name !== 'string' || typeof file.id !== 'string') return
+
+    const starterCode = readText(path.join(dir, 'starter', file.name), report)
+    const solution = readText(path.join(dir, 'solution', file.name), report)
+    if (starterCode !== null && solution !== null) {
+      files.push({ id: file.id, name: file.name, language: file.language, starterCode, solution })
+    }
+  })
+  if (Array.isArray(manifest.files) && manifest.files.length === 0) report('project.files must list at least one file')
+
+  const steps = []
+  const stepIds = new Set()
+  ;(Array.isArray(manifest.steps) ? manifest.steps : []).forEach((step, index) => {
+    const where = `steps[${index}]`
+    if (!validateFields(step, STEP_FIELDS, where, report)) return
+    if (stepIds.has(step.id)) report(`${where}.id ${step.id} is used more than once`)
+    stepIds.add(step.id)
+    if (typeof step.targetFileId === 'string' && !fileIds.has(step.targetFileId)) {
+      report(`${where}.targetFileId "${step.targetFileId}" does not match any file id`)
+    }
+    const checks = Array.isArray(step.checks) ? step.checks : []
+    if (Array.isArray(step.checks) && checks.length === 0) report(`${where}.checks must contain at least one check`)
+    checks.forEach((check, checkIndex) => validateCheck(check, `${where}.checks[${checkIndex}]`, report))
+
+    if (!Number.isInteger(step.id)) return
+    const readmePath = path.join(dir, 'steps', `${step.id}.md`)
+    const readme = readText(readmePath, report)
+    const parsed = readme === null ? null : parseStepReadme(readme, relative(readmePath), report)
+    if (parsed) {
+      steps.push({ id: step.id, ...parsed, targetFileId: step.targetFileId, checks })
+    }
+  })
+  if (Array.isArray(manifest.steps) && manifest.steps.length === 0) report('project.steps must list at least one step')
+
+  if (errors.length > errorCount) return null
+
+  return {
+    order: manifest.order ?? Number.MAX_SAFE_INTEGER,
+    project: {
+      id: manifest.id,
+      title: manifest.title,
+      description: manifest.description,
+      difficulty: manifest.difficulty,
+      estimatedTime: manifest.estimatedTime,
+      languages: manifest.languages,
+      icon: manifest.icon,
+      color: manifest.color,
+      files,
+      steps,
+      xpReward: manifest.xpReward,
+    },
+  }
+}
+
+function renderModule(projects) {
+  return `// @generated by scripts/build-projects.mjs from content/projects. Do not edit by hand.
+// Checked in so type-checking and next build work without a build step; run \`npm run projects\` to regenerate.
+import type { MiniProject } from './miniProjects'
+
+export const GENERATED_MINI_PROJECTS: MiniProject[] = ${JSON.stringify(projects, null, 2)}
+`
+}
+
+function main() {
+  const checkOnly = process.argv.includes('--check')
+  const errors = []
+
+  const directories = existsSync(CONTENT_DIR)
+    ? readdirSync(CONTENT_DIR).filter(name => statSync(path.join(CONTENT_DIR, name)).isDirectory())
+    : []
+  const loaded = directories
+    .map(name => loadProject(path.join(CONTENT_DIR, name), errors))
+    .filter(Boolean)
+    .sort((a, b) => a.order - b.order || a.project.id.localeCompare(b.project.id))
+
+  if (errors.length > 0) {
+    console.error(`❌ ${errors.length} mini-project error${errors.length === 1 ? '' : 's'}:`)
+    errors.forEach(error => console.error(`  ${error}`))
+    process.exit(1)
+  }
+
+  const output = renderModule(loaded.map(entry => entry.project))
+  const current = existsSync(OUTPUT_FILE) ? readFileSync(OUTPUT_FILE, 'utf8') : ''
+
+  if (checkOnly) {
+    if (current !== output) {
+      console.error(`❌ ${relative(OUTPUT_FILE)} is out of date. Run: npm run projects`)
+      process.exit(1)
+    }
+    console.log(`✅ ${loaded.length} mini-projects are valid and up to date`)
+    return
+  }
+
+  if (current !== output) writeFileSync(OUTPUT_FILE, output)
+  console.log(`✅ Built ${loaded.length} mini-projects into ${relative(OUTPUT_FILE)}`)
+}
+
+main()
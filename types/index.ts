@@ -166,6 +166,96 @@ export interface TestCase {
 
   /** Description of what's being tested */
   description: string
+
+  /** Hidden tests are graded but never reveal their input or expected output */
+  hidden?: boolean
+}
+
+/**
+ * Outcome of running one test case against a submission
+ */
+export interface TestCaseResult {
+  /** Test case ID */
+  id: string
+
+  /** Description of what's being tested */
+  description: string
+
+  /** Whether the actual output matched the expected output */
+  passed: boolean
+
+  /** Whether the test is hidden (input/outputs are omitted) */
+  hidden: boolean
+
+  /** Input for the test (omitted for hidden tests) */
+  input?: string
+
+  /** Expected output (omitted for hidden tests) */
+  expectedOutput?: string
+
+  /** Actual output (omitted for hidden tests) */
+  actualOutput?: string
+
+  /** Error output, if the program failed */
+  error?: string
+}
+
+/**
+ * A single SQL value as stored in a seeded exercise database
+ */
+export type SqlValue = string | number | boolean | null
+
+/**
+ * Column declared in a seeded exercise table
+ */
+export interface DatabaseColumn {
+  /** Column name */
+  name: string
+
+  /** SQLite column type */
+  type: 'INTEGER' | 'REAL' | 'TEXT' | 'BOOLEAN' | 'DATE'
+
+  /** Whether the column is the primary key */
+  primaryKey?: boolean
+}
+
+/**
+ * Table with fixture rows loaded before the learner's query runs
+ */
+export interface DatabaseTable {
+  /** Table name */
+  name: string
+
+  /** Column definitions */
+  columns: DatabaseColumn[]
+
+  /** Fixture rows, values in column order */
+  rows: SqlValue[][]
+}
+
+/**
+ * Per-exercise seeded database for SQL sandboxes
+ */
+export interface ExerciseDatabase {
+  /** Tables created and filled before every run */
+  tables: DatabaseTable[]
+
+  /** Query run after the learner's code to check side effects (INSERT/UPDATE/DDL exercises) */
+  checkQuery?: string
+
+  /** Whether row order must match when comparing result sets (queries with ORDER BY) */
+  orderMatters?: boolean
+}
+
+/**
+ * Result set returned from a SQL query
+ */
+export interface QueryResultSet {
+  /** Column names and inferred types */
+  columns: { name: string; type: string }[]
+
+  /** Rows, values in column order */
+  rows: SqlValue[][]
 }
 
 /**
@@ -1,208 +1,59 @@
-// Achievement Manager - Handles auto-unlocking achievements based on user actions
+// Achievement Manager - Asks the server to unlock achievements after user actions
+// and shows a notification for each one it unlocks. Rules live in utils/achievements.ts.
 
 import { useUserStore } from '@/stores/userStore'
-import { useTutorialStore } from '@/stores/tutorialStore'
-import { useGameStore } from '@/stores/gameStore'
-import { unlockAchievement as unlockAchievementFirebase } from '@/lib/firebaseService'
+import { checkAchievements } from '@/utils/progressApi'
+import { getAchievement } from '@/utils/achievements'
 import { getSession } from './sessionManager'
 
-export interface AchievementTrigger {
-  id: string
-  check: () => boolean
-  message: string
-}
-
 class AchievementManager {
   private notificationCallback: ((achievement: { id: string; title: string; icon: string }) => void) | null = null
+  // Check in flight; calls made meanwhile run one more check once it finishes
+  private pendingCheck: Promise<void> | null = null
+  private recheckRequested = false
 
   setNotificationCallback(callback: (achievement: { id: string; title: string; icon: string }) => void) {
     this.notificationCallback = callback
   }
 
-  async checkAndUnlock(achievementId: string, title: string, icon: string) {
-    const { user, unlockAchievement } = useUserStore.getState()
-
-    if (!user.achievements.includes(achievementId)) {
-      // Update Zustand store (optimistic update)
-      unlockAchievement(achievementId)
-
-      // Persist to Firebase
-      const userCode = getSession()
-      if (userCode) {
-        try {
-          await unlockAchievementFirebase(userCode, achievementId)
-        } catch (error) {
-          console.error('Failed to persist achievement to Firebase:', error)
-          // Achievement is still unlocked locally, will be synced later
-        }
-      }
-
-      // Show notification
-      if (this.notificationCallback) {
-        this.notificationCallback({ id: achievementId, title, icon })
-      }
-
-      return true
+  // Check all achievements against the saved profile
+  checkAll(): Promise<void> {
+    if (this.pendingCheck) {
+      this.recheckRequested = true
+      return this.pendingCheck
     }
-    return false
-  }
-
-  // Check all achievements
-  checkAll() {
-    const achievements = this.getAllTriggers()
 
-    achievements.forEach(achievement => {
-      if (achievement.check()) {
-        this.checkAndUnlock(achievement.id, achievement.message, this.getAchievementIcon(achievement.id))
-      }
+    this.pendingCheck = (async () => {
+      do {
+        this.recheckRequested = false
+        await this.check()
+      } while (this.recheckRequested)
+    })().finally(() => {
+      this.pendingCheck = null
     })
+    return this.pendingCheck
   }
 
-  private getAchievementIcon(id: string): string {
-    const icons: { [key: string]: string } = {
-      'first-steps': '🎯',
-      'game-master': '🎮',
-      'scholar': '📚',
-      'speed-demon': '⚡',
-      'perfect-score': '💯',
-      'experimenter': '🔬',
-      'completionist': '🏅',
-      'legend': '👑',
-      'speedrunner': '🏃',
-      'thinker': '🧠',
-      'streak-master': '🔥',
-      'triple-threat': '🎭',
-    }
-    return icons[id] || '🏆'
-  }
-
-  private getAllTriggers(): AchievementTrigger[] {
-    const { tutorialProgress, topicProgress } = useTutorialStore.getState()
-    const { gameScores } = useGameStore.getState()
-    const { user } = useUserStore.getState()
-
-    return [
-      // First Steps - Complete first tutorial
-      {
-        id: 'first-steps',
-        check: () => Object.values(tutorialProgress).some(t => t.completed),
-        message: 'First Steps',
-      },
-
-      // Game Master - Win any game on hard
-      {
-        id: 'game-master',
-        check: () => {
-          return Object.values(gameScores).some(game =>
-            game.hard?.completed === true
-          )
-        },
-        message: 'Game Master',
-      },
-
-      // Scholar - Complete all tutorials in one topic
-      {
-        id: 'scholar',
-        check: () => {
-          return Object.values(topicProgress).some(topic => topic.tutorial === 100)
-        },
-        message: 'Scholar',
-      },
-
-      // Speed Demon - Complete game in under 2 minutes (120 seconds)
-      {
-        id: 'speed-demon',
-        check: () => {
-          return Object.values(gameScores).some(game =>
-            Object.values(game).some(score =>
-              score && score.completed && score.timeInSeconds < 120
-            )
-          )
-        },
-        message: 'Speed Demon',
-      },
-
-      // Perfect Score - Win with 100% accuracy
-      {
-        id: 'perfect-score',
-        check: () => {
-          return Object.values(gameScores).some(game =>
-            Object.values(game).some(score =>
-              score && score.completed && score.accuracy === 100
-            )
-          )
-        },
-        message: 'Perfect Score',
-      },
-
-      // Completionist - Finish one entire topic all 3 ways
-      {
-        id: 'completionist',
-        check: () => {
-          return Object.values(topicProgress).some(topic =>
-            topic.tutorial === 100 && topic.game === 100 && topic.sandbox === 100
-          )
-        },
-        message: 'Completionist',
-      },
+  private async check() {
+    const userCode = getSession()
+    if (!userCode) return
 
-      // Legend - Complete all 7 topics
-      {
-        id: 'legend',
-        check: () => {
-          const topics = Object.values(topicProgress)
-          return topics.length === 7 && topics.every(topic =>
-            topic.tutorial === 100 && topic.game === 100 && topic.sandbox === 100
-          )
-        },
-        message: 'Legend',
-      },
-
-      // Speedrunner - Get time bonus in 5 games
-      {
-        id: 'speedrunner',
-        check: () => {
-          let speedBonusCount = 0
-          Object.values(gameScores).forEach(game => {
-            Object.values(game).forEach(score => {
-              if (score && score.timeInSeconds < 180) { // Under 3 minutes
-                speedBonusCount++
-              }
-            })
-          })
-          return speedBonusCount >= 5
-        },
-        message: 'Speedrunner',
-      },
-
-      // Thinker - Score 100% on tutorial quiz
-      {
-        id: 'thinker',
-        check: () => {
-          return Object.values(tutorialProgress).some(t => t.quizScore === 100)
-        },
-        message: 'Thinker',
-      },
-
-      // Streak Master - 7 day streak
-      {
-        id: 'streak-master',
-        check: () => user.streak >= 7,
-        message: 'Streak Master',
-      },
+    let unlocked: string[]
+    try {
+      unlocked = await checkAchievements(userCode)
+    } catch (error) {
+      console.error('Failed to check achievements:', error)
+      return
+    }
 
-      // Triple Threat - Tutorial + Game + Sandbox in one day (tracked by localStorage timestamp)
-      {
-        id: 'triple-threat',
-        check: () => {
-          // This would need day tracking - simplified check for now
-          return Object.values(topicProgress).some(topic =>
-            topic.tutorial > 0 && topic.game > 0 && topic.sandbox > 0
-          )
-        },
-        message: 'Triple Threat',
-      },
-    ]
+    const { unlockAchievement } = useUserStore.getState()
+    unlocked.forEach(id => {
+      unlockAchievement(id)
+      const achievement = getAchievement(id)
+      if (achievement && this.notificationCallback) {
+        this.notificationCallback({ id, title: achievement.title, icon: achievement.icon })
+      }
+    })
   }
 }
 
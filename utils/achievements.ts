@@ -0,0 +1,359 @@
+// Achievements
+// Declarative achievement definitions and the rules that unlock them. Rules are evaluated
+// against the stored UserProfile: by /api/progress/achievement to unlock, and by the
+// achievements page to show progress.
+
+import type { LanguageProgress, UserProfile } from '@/lib/firebaseService'
+import { TECHNOLOGY_MODULES } from './techModules'
+
+type Difficulty = 'easy' | 'medium' | 'hard'
+type ActivityMode = 'tutorial' | 'game' | 'sandbox'
+
+const HOUR_MS = 1000 * 60 * 60
+const DAY_MS = HOUR_MS * 24
+
+const ALL_DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard']
+
+// ==================== RULES ====================
+
+/**
+ * What one language contributes towards a rule
+ * - tutorial: 1 once its tutorial is finished
+ * - difficulties: completed difficulties in the given modes, optionally only one difficulty
+ * - mastered: 1 once the tutorial and every game and sandbox difficulty are finished
+ * - started: 1 as soon as the language has any progress
+ */
+export type LanguageMeasure =
+  | { measure: 'tutorial' }
+  | { measure: 'difficulties'; modes: ActivityMode[]; difficulty?: Difficulty }
+  | { measure: 'mastered' }
+  | { measure: 'started' }
+
+/**
+ * Condition an achievement unlocks on. Every rule counts towards a target.
+ * - stat: a profile number; `withinDaysOfJoining` only counts it while the profile is that young
+ * - languages: the measure summed over languages; `withinHours` only counts languages last
+ *   worked on inside the same window of that many hours
+ * - modules: modules where any (or every) language has a nonzero measure; target 'all' means every module
+ * - retired: can no longer be earned (see RETIRED_ACHIEVEMENTS)
+ */
+export type AchievementRule =
+  | { type: 'stat'; stat: 'totalXP' | 'streak' | 'level'; target: number; withinDaysOfJoining?: number }
+  | { type: 'languages'; measure: LanguageMeasure; target: number; withinHours?: number }
+  | { type: 'modules'; measure: LanguageMeasure; languages: 'any' | 'every'; target: number | 'all' }
+  | { type: 'retired' }
+
+export type AchievementRarity = 'common' | 'rare' | 'epic' | 'legendary'
+
+export interface AchievementDefinition {
+  id: string
+  title: string
+  description: string
+  icon: string
+  rarity: AchievementRarity
+  rule: AchievementRule
+  /** Noun for the progress label, e.g. "games won" in "7/10 games won" */
+  unit: string
+}
+
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: 'first-steps',
+    title: 'First Steps',
+    description: 'Complete your first tutorial',
+    icon: '🎯',
+    rarity: 'common',
+    rule: { type: 'languages', measure: { measure: 'tutorial' }, target: 1 },
+    unit: 'tutorials',
+  },
+  {
+    id: 'experimenter',
+    title: 'Experimenter',
+    description: 'Complete a sandbox difficulty',
+    icon: '🔬',
+    rarity: 'common',
+    rule: { type: 'languages', measure: { measure: 'difficulties', modes: ['sandbox'] }, target: 1 },
+    unit: 'sandboxes completed',
+  },
+  {
+    id: 'polyglot-sprint',
+    title: 'Polyglot Sprint',
+    description: 'Work on 3 different languages within 24 hours',
+    icon: '🧭',
+    rarity: 'common',
+    rule: { type: 'languages', measure: { measure: 'started' }, target: 3, withinHours: 24 },
+    unit: 'languages',
+  },
+  {
+    id: 'streak-master',
+    title: 'Streak Master',
+    description: 'Keep a 7-day streak',
+    icon: '🔥',
+    rarity: 'rare',
+    rule: { type: 'stat', stat: 'streak', target: 7 },
+    unit: 'days',
+  },
+  {
+    id: 'game-master',
+    title: 'Game Master',
+    description: 'Win any game on hard difficulty',
+    icon: '🎮',
+    rarity: 'rare',
+    rule: { type: 'languages', measure: { measure: 'difficulties', modes: ['game'], difficulty: 'hard' }, target: 1 },
+    unit: 'hard games won',
+  },
+  {
+    id: 'fast-start',
+    title: 'Fast Start',
+    description: 'Earn 500 XP in your first week',
+    icon: '🚀',
+    rarity: 'rare',
+    rule: { type: 'stat', stat: 'totalXP', target: 500, withinDaysOfJoining: 7 },
+    unit: 'XP',
+  },
+  {
+    id: 'xp-hunter',
+    title: 'XP Hunter',
+    description: 'Earn 1000 XP',
+    icon: '💎',
+    rarity: 'rare',
+    rule: { type: 'stat', stat: 'totalXP', target: 1000 },
+    unit: 'XP',
+  },
+  {
+    id: 'scholar',
+    title: 'Scholar',
+    description: 'Complete all tutorials in one module',
+    icon: '📚',
+    rarity: 'rare',
+    rule: { type: 'modules', measure: { measure: 'tutorial' }, languages: 'every', target: 1 },
+    unit: 'modules',
+  },
+  {
+    id: 'game-champion',
+    title: 'Game Champion',
+    description: 'Win 10 games',
+    icon: '🕹️',
+    rarity: 'epic',
+    rule: { type: 'languages', measure: { measure: 'difficulties', modes: ['game'] }, target: 10 },
+    unit: 'games won',
+  },
+  {
+    id: 'hard-mode-hero',
+    title: 'Hard Mode Hero',
+    description: 'Complete 3 games or sandboxes on hard difficulty',
+    icon: '💪',
+    rarity: 'epic',
+    rule: { type: 'languages', measure: { measure: 'difficulties', modes: ['game', 'sandbox'], difficulty: 'hard' }, target: 3 },
+    unit: 'hard challenges',
+  },
+  {
+    id: 'multi-linguist',
+    title: 'Multi-Linguist',
+    description: 'Complete tutorials in 5 languages',
+    icon: '🌍',
+    rarity: 'epic',
+    rule: { type: 'languages', measure: { measure: 'tutorial' }, target: 5 },
+    unit: 'tutorials',
+  },
+  {
+    id: 'completionist',
+    title: 'Completionist',
+    description: 'Finish one language all 3 ways on every difficulty',
+    icon: '🏅',
+    rarity: 'epic',
+    rule: { type: 'languages', measure: { measure: 'mastered' }, target: 1 },
+    unit: 'languages',
+  },
+  {
+    id: 'grand-tour',
+    title: 'Grand Tour',
+    description: 'Complete a tutorial in every module',
+    icon: '🗺️',
+    rarity: 'legendary',
+    rule: { type: 'modules', measure: { measure: 'tutorial' }, languages: 'any', target: 'all' },
+    unit: 'modules',
+  },
+]
+
+/**
+ * Achievements from before the rules moved to the server, which tracked things it no longer
+ * records (game times, quiz accuracy, topic progress). Nobody can earn them now, but profiles
+ * that unlocked them keep the badge with the meaning it had when it was earned, so their ids
+ * are never reused for new rules.
+ */
+export const RETIRED_ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: 'speed-demon',
+    title: 'Speed Demon',
+    description: 'Win a game in under 2 minutes',
+    icon: '⚡',
+    rarity: 'rare',
+    rule: { type: 'retired' },
+    unit: 'games',
+  },
+  {
+    id: 'perfect-score',
+    title: 'Perfect Score',
+    description: 'Win a game with 100% accuracy',
+    icon: '💯',
+    rarity: 'rare',
+    rule: { type: 'retired' },
+    unit: 'games',
+  },
+  {
+    id: 'speedrunner',
+    title: 'Speedrunner',
+    description: 'Finish 5 games in under 3 minutes each',
+    icon: '🏃',
+    rarity: 'epic',
+    rule: { type: 'retired' },
+    unit: 'games',
+  },
+  {
+    id: 'thinker',
+    title: 'Thinker',
+    description: 'Score 100% on a tutorial quiz',
+    icon: '🧠',
+    rarity: 'rare',
+    rule: { type: 'retired' },
+    unit: 'quizzes',
+  },
+  {
+    id: 'triple-threat',
+    title: 'Triple Threat',
+    description: 'Try the tutorial, game and sandbox of one topic',
+    icon: '🎭',
+    rarity: 'common',
+    rule: { type: 'retired' },
+    unit: 'topics',
+  },
+  {
+    id: 'legend',
+    title: 'Legend',
+    description: 'Finish all 7 topics all 3 ways',
+    icon: '👑',
+    rarity: 'legendary',
+    rule: { type: 'retired' },
+    unit: 'topics',
+  },
+]
+
+// ==================== EVALUATION ====================
+
+export interface AchievementProgress {
+  /** Progress so far, capped at the target */
+  current: number
+  target: number
+  met: boolean
+  /** The rule's time window has closed, so it can no longer be met */
+  expired: boolean
+}
+
+function measureLanguage(progress: LanguageProgress, measure: LanguageMeasure): number {
+  switch (measure.measure) {
+    case 'tutorial':
+      return progress.tutorialProgress?.completed ? 1 : 0
+    case 'difficulties':
+      return measure.modes.reduce((total, mode) => {
+        const completed = progress.completedDifficulties?.[mode] ?? []
+        return total + completed.filter(difficulty => !measure.difficulty || difficulty === measure.difficulty).length
+      }, 0)
+    case 'mastered': {
+      const { game = [], sandbox = [] } = progress.completedDifficulties ?? {}
+      const allDone = ALL_DIFFICULTIES.every(difficulty => game.includes(difficulty) && sandbox.includes(difficulty))
+      return progress.tutorialProgress?.completed && allDone ? 1 : 0
+    }
+    case 'started':
+      return 1
+  }
+}
+
+/**
+ * Largest total of languages whose last access falls inside one window of `windowMs`
+ */
+function bestWindowTotal(entries: { value: number; at: number }[], windowMs: number): number {
+  const sorted = entries.filter(entry => entry.value > 0).sort((a, b) => a.at - b.at)
+  let best = 0
+  let total = 0
+  let start = 0
+  sorted.forEach(entry => {
+    total += entry.value
+    while (entry.at - sorted[start].at > windowMs) {
+      total -= sorted[start].value
+      start++
+    }
+    best = Math.max(best, total)
+  })
+  return best
+}
+
+function getRuleValue(rule: AchievementRule, profile: UserProfile): number {
+  const languageProgress = profile.languageProgress ?? {}
+
+  switch (rule.type) {
+    case 'stat':
+      return profile[rule.stat] || 0
+
+    case 'languages': {
+      const entries = Object.values(languageProgress).map(progress => ({
+        value: measureLanguage(progress, rule.measure),
+        at: progress.lastAccessed?.toMillis() ?? 0,
+      }))
+      if (rule.withinHours !== undefined) return bestWindowTotal(entries, rule.withinHours * HOUR_MS)
+      return entries.reduce((total, entry) => total + entry.value, 0)
+    }
+
+    case 'modules':
+      return TECHNOLOGY_MODULES.filter(mod => {
+        if (mod.languages.length === 0) return false
+        const meetsMeasure = (languageId: string) => {
+          const progress = languageProgress[`${mod.id}-${languageId}`]
+          return progress !== undefined && measureLanguage(progress, rule.measure) > 0
+        }
+        return rule.languages === 'every'
+          ? mod.languages.every(language => meetsMeasure(language.id))
+          : mod.languages.some(language => meetsMeasure(language.id))
+      }).length
+
+    case 'retired':
+      return 0
+  }
+}
+
+function getRuleTarget(rule: AchievementRule): number {
+  if (rule.type === 'retired') return 1
+  return rule.target === 'all' ? TECHNOLOGY_MODULES.length : rule.target
+}
+
+/**
+ * How far a profile is towards an achievement's rule
+ * @param now - Epoch ms used for time windows that run up to the present
+ */
+export function evaluateAchievement(
+  definition: AchievementDefinition,
+  profile: UserProfile,
+  now: number = Date.now()
+): AchievementProgress {
+  const { rule } = definition
+  const target = getRuleTarget(rule)
+  const value = getRuleValue(rule, profile)
+  const expired = rule.type === 'stat' && rule.withinDaysOfJoining !== undefined &&
+    now - profile.createdAt.toMillis() > rule.withinDaysOfJoining * DAY_MS
+
+  return { current: Math.min(value, target), target, met: !expired && value >= target, expired }
+}
+
+/**
+ * Ids of achievements whose rules the profile meets but that aren't unlocked yet
+ */
+export function getNewlyMetAchievements(profile: UserProfile, now: number = Date.now()): string[] {
+  const unlocked = profile.achievements ?? []
+  return ACHIEVEMENTS
+    .filter(definition => !unlocked.includes(definition.id) && evaluateAchievement(definition, profile, now).met)
+    .map(definition => definition.id)
+}
+
+export function getAchievement(id: string): AchievementDefinition | undefined {
+  return [...ACHIEVEMENTS, ...RETIRED_ACHIEVEMENTS].find(definition => definition.id === id)
+}
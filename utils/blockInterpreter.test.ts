@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import { traceProgram, type ProgramBlock } from './blockInterpreter'
+
+describe('traceProgram', () => {
+  it('runs variables, math and prints in order', () => {
+    const { output, error } = traceProgram([
+      { id: '1', type: 'variable', name: 'score', expression: '10' },
+      { id: '2', type: 'math', name: 'score', operator: '*=', expression: '3' },
+      { id: '3', type: 'print', expression: 'score + 1' },
+    ])
+    expect(error).toBeNull()
+    expect(output).toEqual(['31'])
+  })
+
+  it.each(['toString', 'constructor', 'hasOwnProperty'])('treats %s as a variable with no value, not a built-in', name => {
+    const print: ProgramBlock = { id: 'p', type: 'print', expression: name }
+    expect(traceProgram([print]).error).toMatchObject({ blockId: 'p', message: expect.stringContaining('has no value yet') })
+
+    const math: ProgramBlock = { id: 'm', type: 'math', name, operator: '+=', expression: '1' }
+    expect(traceProgram([math]).error).toMatchObject({ blockId: 'm', message: expect.stringContaining('has no value yet') })
+  })
+
+  it('lets prototype names be used once they are set', () => {
+    const { output, error } = traceProgram([
+      { id: '1', type: 'variable', name: 'constructor', expression: '2' },
+      { id: '2', type: 'math', name: 'constructor', operator: '+=', expression: '5' },
+      { id: '3', type: 'print', expression: 'constructor' },
+    ])
+    expect(error).toBeNull()
+    expect(output).toEqual(['7'])
+  })
+})
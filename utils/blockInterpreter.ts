@@ -0,0 +1,615 @@
+/**
+ * Block Interpreter
+ * Runs nested block programs one step at a time and translates them to JavaScript and Python
+ */
+
+// ==================== PROGRAM ====================
+
+export type BlockType = 'print' | 'variable' | 'math' | 'if' | 'loop' | 'while'
+export type MathOperator = '+=' | '-=' | '*=' | '/='
+
+export interface ProgramBlock {
+  id: string
+  type: BlockType
+  /** Variable name for variable and math blocks */
+  name?: string
+  operator?: MathOperator
+  /** The printed value, assigned value, condition or repeat count */
+  expression: string
+  /** Then-branch for if, loop body for loop and while */
+  body?: ProgramBlock[]
+  elseBody?: ProgramBlock[]
+}
+
+export const BLOCK_TYPES: Record<BlockType, { label: string; icon: string; color: string; template: Omit<ProgramBlock, 'id'> }> = {
+  print: { label: 'Print', icon: '📢', color: 'border-blue-500/60', template: { type: 'print', expression: '"Hello World!"' } },
+  variable: { label: 'Set Variable', icon: '📦', color: 'border-green-500/60', template: { type: 'variable', name: 'x', expression: '10' } },
+  math: { label: 'Change Variable', icon: '🧮', color: 'border-teal-500/60', template: { type: 'math', name: 'x', operator: '+=', expression: '5' } },
+  if: { label: 'If / Else', icon: '🔀', color: 'border-yellow-500/60', template: { type: 'if', expression: 'x > 5', body: [], elseBody: [] } },
+  loop: { label: 'Repeat', icon: '🔄', color: 'border-purple-500/60', template: { type: 'loop', expression: '3', body: [] } },
+  while: { label: 'While', icon: '⏳', color: 'border-pink-500/60', template: { type: 'while', expression: 'x < 20', body: [] } },
+}
+
+export const MATH_OPERATORS: MathOperator[] = ['+=', '-=', '*=', '/=']
+
+export function isContainer(block: ProgramBlock): boolean {
+  return block.type === 'if' || block.type === 'loop' || block.type === 'while'
+}
+
+export class ProgramError extends Error {
+  constructor(message: string, public blockId: string | null = null) {
+    super(message)
+    this.name = 'ProgramError'
+  }
+}
+
+// ==================== EXPRESSIONS ====================
+
+export type Value = number | string | boolean
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '==' | '!=' | '<' | '<=' | '>' | '>=' | 'and' | 'or'
+
+type Expression =
+  | { kind: 'literal'; value: Value }
+  | { kind: 'variable'; name: string }
+  | { kind: 'unary'; operator: '-' | 'not'; operand: Expression }
+  | { kind: 'binary'; operator: BinaryOperator; left: Expression; right: Expression }
+
+const PRECEDENCE: Record<BinaryOperator, number> = {
+  or: 1, and: 2, '==': 4, '!=': 4, '<': 4, '<=': 4, '>': 4, '>=': 4, '+': 5, '-': 5, '*': 6, '/': 6, '%': 6,
+}
+const NOT_PRECEDENCE = 3
+const NEGATE_PRECEDENCE = 7
+
+const OPERATOR_ALIASES: Record<string, string> = { '&&': 'and', '||': 'or', '!': 'not' }
+
+// Words that can't be variable names here, in JavaScript or in Python
+const RESERVED_WORDS = new Set([
+  'and', 'or', 'not', 'true', 'false', 'True', 'False', 'None', 'null', 'undefined',
+  'if', 'else', 'elif', 'for', 'while', 'in', 'is', 'do', 'break', 'continue', 'return', 'pass',
+  'let', 'var', 'const', 'function', 'def', 'class', 'new', 'this', 'import', 'from', 'lambda', 'print',
+])
+
+const TOKEN_PATTERN = /\s*(\d+(?:\.\d+)?|"[^"]*"|'[^']*'|[A-Za-z_]\w*|==|!=|<=|>=|&&|\|\||[-+*/%<>()!])/y
+
+function tokenize(source: string): string[] {
+  const tokens: string[] = []
+  let position = 0
+  while (position < source.length) {
+    if (/^\s*$/.test(source.slice(position))) break
+    TOKEN_PATTERN.lastIndex = position
+    const match = TOKEN_PATTERN.exec(source)
+    if (!match) {
+      const rest = source.slice(position).trim()
+      throw new ProgramError(rest.startsWith('"') || rest.startsWith("'") ? 'Text is missing its closing quote' : `Unexpected "${rest[0]}"`)
+    }
+    tokens.push(Object.hasOwn(OPERATOR_ALIASES, match[1]) ? OPERATOR_ALIASES[match[1]] : match[1])
+    position = TOKEN_PATTERN.lastIndex
+  }
+  return tokens
+}
+
+/**
+ * Parses an expression like `score + 5`, `"Hi " + name` or `x > 3 and not done`
+ */
+export function parseExpression(source: string): Expression {
+  const tokens = tokenize(source)
+  if (tokens.length === 0) throw new ProgramError('This block needs a value')
+  let index = 0
+
+  const peek = () => tokens[index]
+  const next = () => tokens[index++]
+
+  const parseBinary = (minPrecedence: number): Expression => {
+    let left = parseUnary()
+    while (Object.hasOwn(PRECEDENCE, peek()) && PRECEDENCE[peek() as BinaryOperator] >= minPrecedence) {
+      const operator = next() as BinaryOperator
+      // Comparisons don't chain, so `1 < x < 5` is an error rather than a surprise
+      if (PRECEDENCE[operator] === 4 && left.kind === 'binary' && PRECEDENCE[left.operator] === 4) {
+        throw new ProgramError(`Use "and" to combine comparisons, e.g. a < b and b < c`)
+      }
+      const right = parseBinary(PRECEDENCE[operator] + 1)
+      left = { kind: 'binary', operator, left, right }
+    }
+    return left
+  }
+
+  const parseUnary = (): Expression => {
+    if (peek() === 'not') {
+      next()
+      return { kind: 'unary', operator: 'not', operand: parseBinary(NOT_PRECEDENCE + 1) }
+    }
+    if (peek() === '-') {
+      next()
+      return { kind: 'unary', operator: '-', operand: parseUnary() }
+    }
+    return parsePrimary()
+  }
+
+  const parsePrimary = (): Expression => {
+    const token = next()
+    if (token === undefined) throw new ProgramError('The expression ends too early')
+    if (token === '(') {
+      const inner = parseBinary(1)
+      if (next() !== ')') throw new ProgramError('Missing closing bracket ")"')
+      return inner
+    }
+    if (/^\d/.test(token)) return { kind: 'literal', value: Number(token) }
+    if (/^["']/.test(token)) return { kind: 'literal', value: token.slice(1, -1) }
+    if (token === 'true' || token === 'false') return { kind: 'literal', value: token === 'true' }
+    if (/^[A-Za-z_]/.test(token)) {
+      if (RESERVED_WORDS.has(token)) throw new ProgramError(`"${token}" is a reserved word`)
+      return { kind: 'variable', name: token }
+    }
+    throw new ProgramError(`Unexpected "${token}"`)
+  }
+
+  const expression = parseBinary(1)
+  if (index < tokens.length) throw new ProgramError(`Unexpected "${tokens[index]}"`)
+  return expression
+}
+
+export function formatValue(value: Value): string {
+  return typeof value === 'string' ? value : String(value)
+}
+
+function describeType(value: Value): string {
+  return typeof value === 'string' ? 'text' : typeof value === 'boolean' ? 'true/false' : 'a number'
+}
+
+function evaluate(expression: Expression, variables: Record<string, Value>): Value {
+  switch (expression.kind) {
+    case 'literal':
+      return expression.value
+    case 'variable':
+      if (!Object.hasOwn(variables, expression.name)) {
+        throw new ProgramError(`"${expression.name}" has no value yet. Set it with a Set Variable block first.`)
+      }
+      return variables[expression.name]
+    case 'unary': {
+      const operand = evaluate(expression.operand, variables)
+      if (expression.operator === 'not') return !operand
+      if (typeof operand !== 'number') throw new ProgramError(`Can't make ${describeType(operand)} negative`)
+      return -operand
+    }
+    case 'binary': {
+      const { operator } = expression
+      const left = evaluate(expression.left, variables)
+      // and/or only look at the right side when they need to, like JavaScript and Python
+      if (operator === 'and') return left ? evaluate(expression.right, variables) : left
+      if (operator === 'or') return left ? left : evaluate(expression.right, variables)
+
+      const right = evaluate(expression.right, variables)
+      if (operator === '==') return left === right
+      if (operator === '!=') return left !== right
+      if (operator === '+' && (typeof left === 'string' || typeof right === 'string')) return formatValue(left) + formatValue(right)
+
+      if (['<', '<=', '>', '>='].includes(operator)) {
+        if (typeof left !== typeof right || typeof left === 'boolean') {
+          throw new ProgramError(`Can't compare ${describeType(left)} with ${describeType(right)}`)
+        }
+        if (operator === '<') return left < right
+        if (operator === '<=') return left <= right
+        if (operator === '>') return left > right
+        return left >= right
+      }
+
+      if (typeof left !== 'number' || typeof right !== 'number') {
+        throw new ProgramError(`Can't use ${operator} on ${describeType(typeof left !== 'number' ? left : right)}`)
+      }
+      if ((operator === '/' || operator === '%') && right === 0) throw new ProgramError('Division by zero')
+      if (operator === '+') return left + right
+      if (operator === '-') return left - right
+      if (operator === '*') return left * right
+      if (operator === '/') return left / right
+      return left % right
+    }
+  }
+}
+
+/**
+ * Error message for each block whose fields don't parse
+ */
+export function validateProgram(blocks: ProgramBlock[]): Record<string, string> {
+  const errors: Record<string, string> = {}
+  walkBlocks(blocks, block => {
+    try {
+      if ((block.type === 'variable' || block.type === 'math') && !isValidName(block.name ?? '')) {
+        throw new ProgramError(RESERVED_WORDS.has(block.name ?? '')
+          ? `"${block.name}" is a reserved word`
+          : 'Variable names use letters, digits and _ and can\'t start with a digit')
+      }
+      parseExpression(block.expression)
+    } catch (error) {
+      errors[block.id] = error instanceof Error ? error.message : String(error)
+    }
+  })
+  return errors
+}
+
+function isValidName(name: string): boolean {
+  return /^[A-Za-z_]\w*$/.test(name) && !RESERVED_WORDS.has(name)
+}
+
+// ==================== TREE ====================
+
+export function walkBlocks(blocks: ProgramBlock[], visit: (block: ProgramBlock, depth: number) => void, depth: number = 0): void {
+  blocks.forEach(block => {
+    visit(block, depth)
+    if (block.body) walkBlocks(block.body, visit, depth + 1)
+    if (block.elseBody) walkBlocks(block.elseBody, visit, depth + 1)
+  })
+}
+
+export function countBlocks(blocks: ProgramBlock[]): number {
+  let count = 0
+  walkBlocks(blocks, () => count++)
+  return count
+}
+
+/**
+ * Where a block can be dropped: the top level, or the then/else/loop body of a container
+ */
+export interface BodyRef {
+  parentId: string | null
+  branch: 'body' | 'elseBody'
+}
+
+function mapBodies(blocks: ProgramBlock[], update: (blocks: ProgramBlock[], ref: BodyRef) => ProgramBlock[], parentId: string | null = null): ProgramBlock[] {
+  const updated = update(blocks, { parentId, branch: 'body' })
+  return updated.map(block => ({
+    ...block,
+    ...(block.body && { body: mapBodies(block.body, (body, ref) => update(body, ref), block.id) }),
+    ...(block.elseBody && {
+      elseBody: mapBodies(block.elseBody, (body, ref) => update(body, ref.parentId === block.id ? { ...ref, branch: 'elseBody' } : ref), block.id),
+    }),
+  }))
+}
+
+export function insertBlock(blocks: ProgramBlock[], target: BodyRef, block: ProgramBlock, index?: number): ProgramBlock[] {
+  return mapBodies(blocks, (body, ref) => {
+    if (ref.parentId !== target.parentId || ref.branch !== target.branch) return body
+    const position = index ?? body.length
+    return [...body.slice(0, position), block, ...body.slice(position)]
+  })
+}
+
+export function findBlock(blocks: ProgramBlock[], id: string): ProgramBlock | null {
+  let found: ProgramBlock | null = null
+  walkBlocks(blocks, block => {
+    if (block.id === id) found = block
+  })
+  return found
+}
+
+export function removeBlock(blocks: ProgramBlock[], id: string): ProgramBlock[] {
+  return mapBodies(blocks, body => body.filter(block => block.id !== id))
+}
+
+export function updateBlock(blocks: ProgramBlock[], id: string, change: Partial<ProgramBlock>): ProgramBlock[] {
+  return mapBodies(blocks, body => body.map(block => block.id === id ? { ...block, ...change } : block))
+}
+
+/**
+ * Moves a block one place up or down within its own body
+ */
+export function shiftBlock(blocks: ProgramBlock[], id: string, direction: -1 | 1): ProgramBlock[] {
+  return mapBodies(blocks, body => {
+    const index = body.findIndex(block => block.id === id)
+    const target = index + direction
+    if (index === -1 || target < 0 || target >= body.length) return body
+    const reordered = [...body]
+    ;[reordered[index], reordered[target]] = [reordered[target], reordered[index]]
+    return reordered
+  })
+}
+
+/**
+ * Moves a block into another body; a container can't be moved inside itself
+ */
+export function moveBlock(blocks: ProgramBlock[], id: string, target: BodyRef): ProgramBlock[] {
+  const block = findBlock(blocks, id)
+  if (!block) return blocks
+  if (target.parentId) {
+    const parent = findBlock(blocks, target.parentId)
+    if (!parent?.[target.branch] || findBlock([block], target.parentId)) return blocks
+  }
+  return insertBlock(removeBlock(blocks, id), target, block)
+}
+
+// ==================== EXECUTION ====================
+
+export interface TraceStep {
+  blockId: string
+  /** What happened, e.g. "x > 5 is true, so the then-branch runs" */
+  description: string
+  variables: Record<string, Value>
+  /** Variables this step assigned */
+  changed: string[]
+  /** Number of output lines printed so far */
+  outputLength: number
+}
+
+export interface ProgramTrace {
+  steps: TraceStep[]
+  output: string[]
+  error: ProgramError | null
+}
+
+export const MAX_TRACE_STEPS = 500
+const MAX_REPEAT = 100
+
+/**
+ * Runs the program to completion (or the first error), recording every step for replay
+ */
+export function traceProgram(blocks: ProgramBlock[]): ProgramTrace {
+  // No prototype, so names like toString or __proto__ are ordinary variables
+  const variables: Record<string, Value> = Object.create(null)
+  const steps: TraceStep[] = []
+  const output: string[] = []
+
+  const record = (block: ProgramBlock, description: string, changed: string[] = []) => {
+    steps.push({ blockId: block.id, description, variables: { ...variables }, changed, outputLength: output.length })
+    if (steps.length >= MAX_TRACE_STEPS) {
+      throw new ProgramError(`Stopped after ${MAX_TRACE_STEPS} steps. Is a loop running forever?`, block.id)
+    }
+  }
+
+  const evaluateIn = (block: ProgramBlock) => {
+    try {
+      return evaluate(parseExpression(block.expression), variables)
+    } catch (error) {
+      if (error instanceof ProgramError) throw new ProgramError(error.message, block.id)
+      throw error
+    }
+  }
+
+  const run = (body: ProgramBlock[]) => {
+    for (const block of body) {
+      switch (block.type) {
+        case 'print': {
+          const value = formatValue(evaluateIn(block))
+          output.push(value)
+          record(block, `Printed "${value}"`)
+          break
+        }
+        case 'variable': {
+          const name = block.name ?? ''
+          if (!isValidName(name)) throw new ProgramError(`"${name}" isn't a valid variable name`, block.id)
+          variables[name] = evaluateIn(block)
+          record(block, `${name} is now ${JSON.stringify(variables[name])}`, [name])
+          break
+        }
+        case 'math': {
+          const name = block.name ?? ''
+          if (!Object.hasOwn(variables, name)) throw new ProgramError(`"${name}" has no value yet. Set it with a Set Variable block first.`, block.id)
+          const operator = (block.operator ?? '+=').charAt(0) as BinaryOperator
+          const change = evaluateIn(block)
+          try {
+            variables[name] = evaluate(
+              { kind: 'binary', operator, left: { kind: 'literal', value: variables[name] }, right: { kind: 'literal', value: change } },
+              variables
+            )
+          } catch (error) {
+            throw new ProgramError(error instanceof Error ? error.message : String(error), block.id)
+          }
+          record(block, `${name} ${block.operator} ${JSON.stringify(change)} makes ${name} ${JSON.stringify(variables[name])}`, [name])
+          break
+        }
+        case 'if': {
+          const condition = Boolean(evaluateIn(block))
+          record(block, `${block.expression} is ${condition}, so the ${condition ? 'then' : 'else'}-branch runs`)
+          run(condition ? block.body ?? [] : block.elseBody ?? [])
+          break
+        }
+        case 'loop': {
+          const times = evaluateIn(block)
+          if (typeof times !== 'number' || !Number.isInteger(times) || times < 0) {
+            throw new ProgramError('Repeat needs a whole number of times, like 3', block.id)
+          }
+          if (times > MAX_REPEAT) throw new ProgramError(`Repeat at most ${MAX_REPEAT} times`, block.id)
+          for (let i = 1; i <= times; i++) {
+            record(block, `Repeat: time ${i} of ${times}`)
+            run(block.body ?? [])
+          }
+          if (times === 0) record(block, 'Repeat 0 times: the body is skipped')
+          break
+        }
+        case 'while': {
+          let rounds = 0
+          while (evaluateIn(block)) {
+            rounds++
+            record(block, `${block.expression} is true, so the loop runs (round ${rounds})`)
+            run(block.body ?? [])
+          }
+          record(block, `${block.expression} is false, so the loop ends`)
+          break
+        }
+      }
+    }
+  }
+
+  try {
+    run(blocks)
+    return { steps, output, error: null }
+  } catch (error) {
+    return { steps, output, error: error instanceof ProgramError ? error : new ProgramError(String(error)) }
+  }
+}
+
+// ==================== TRANSLATION ====================
+
+export type TargetLanguage = 'javascript' | 'python'
+
+export interface TranslatedLine {
+  text: string
+  /** Block this line comes from, so the current step can be highlighted */
+  blockId: string | null
+}
+
+type StaticType = 'number' | 'string' | 'boolean' | 'unknown'
+
+function staticType(expression: Expression, types: Record<string, StaticType>): StaticType {
+  switch (expression.kind) {
+    case 'literal':
+      return typeof expression.value as StaticType
+    case 'variable':
+      return types[expression.name] ?? 'unknown'
+    case 'unary':
+      return expression.operator === 'not' ? 'boolean' : 'number'
+    case 'binary': {
+      if (['==', '!=', '<', '<=', '>', '>='].includes(expression.operator)) return 'boolean'
+      const left = staticType(expression.left, types)
+      const right = staticType(expression.right, types)
+      if (expression.operator === '+' && (left === 'string' || right === 'string')) return 'string'
+      if (expression.operator === 'and' || expression.operator === 'or') return left === right ? left : 'unknown'
+      return 'number'
+    }
+  }
+}
+
+/**
+ * The type each variable always holds, or unknown when assignments disagree
+ */
+function variableTypes(blocks: ProgramBlock[]): Record<string, StaticType> {
+  const types: Record<string, StaticType> = {}
+  walkBlocks(blocks, block => {
+    if (!block.name || (block.type !== 'variable' && block.type !== 'math')) return
+    let type: StaticType = 'unknown'
+    try {
+      type = block.type === 'math' ? 'number' : staticType(parseExpression(block.expression), types)
+    } catch {
+      // Unparseable blocks are reported by validateProgram
+    }
+    types[block.name] = block.name in types && types[block.name] !== type ? 'unknown' : type
+  })
+  return types
+}
+
+function translateExpression(expression: Expression, language: TargetLanguage, types: Record<string, StaticType>): string {
+  const wrap = (child: Expression, parentPrecedence: number, isRight: boolean) => {
+    const precedence = child.kind === 'binary'
+      ? PRECEDENCE[child.operator]
+      : child.kind === 'unary' ? (child.operator === 'not' ? NOT_PRECEDENCE : NEGATE_PRECEDENCE) : 99
+    const text = translateExpression(child, language, types)
+    return precedence < parentPrecedence || (isRight && precedence === parentPrecedence) ? `(${text})` : text
+  }
+
+  switch (expression.kind) {
+    case 'literal':
+      if (typeof expression.value === 'string') return JSON.stringify(expression.value)
+      if (typeof expression.value === 'boolean' && language === 'python') return expression.value ? 'True' : 'False'
+      return String(expression.value)
+    case 'variable':
+      return expression.name
+    case 'unary':
+      if (expression.operator === '-') return `-${wrap(expression.operand, NEGATE_PRECEDENCE, false)}`
+      return language === 'python'
+        ? `not ${wrap(expression.operand, NOT_PRECEDENCE, false)}`
+        // JavaScript's ! binds tighter than comparisons, so anything but a name or value needs brackets
+        : `!${wrap(expression.operand, NEGATE_PRECEDENCE, false)}`
+    case 'binary': {
+      const precedence = PRECEDENCE[expression.operator]
+      let left = wrap(expression.left, precedence, false)
+      let right = wrap(expression.right, precedence, true)
+
+      // Python won't add text and numbers, so convert the non-text side with str()
+      if (language === 'python' && expression.operator === '+') {
+        const leftType = staticType(expression.left, types)
+        const rightType = staticType(expression.right, types)
+        if (leftType === 'string' && rightType !== 'string') right = `str(${translateExpression(expression.right, language, types)})`
+        if (rightType === 'string' && leftType !== 'string') left = `str(${translateExpression(expression.left, language, types)})`
+      }
+
+      const operators: Partial<Record<BinaryOperator, string>> = language === 'javascript'
+        ? { '==': '===', '!=': '!==', and: '&&', or: '||' }
+        : {}
+      return `${left} ${operators[expression.operator] ?? expression.operator} ${right}`
+    }
+  }
+}
+
+/**
+ * Equivalent JavaScript or Python source, one entry per line
+ */
+export function translateProgram(blocks: ProgramBlock[], language: TargetLanguage): TranslatedLine[] {
+  const types = variableTypes(blocks)
+  const lines: TranslatedLine[] = []
+  const indentUnit = language === 'python' ? '    ' : '  '
+  const loopCounters = ['i', 'j', 'k', 'm', 'n']
+
+  // JavaScript needs `let` the first time a variable is set; variables first set inside
+  // a block are declared at the top so they are still visible after it
+  const declared = new Set<string>()
+  if (language === 'javascript') {
+    const topLevel = new Set(blocks.filter(block => block.type === 'variable').map(block => block.name ?? ''))
+    const nested = new Set<string>()
+    walkBlocks(blocks, (block, depth) => {
+      if (block.type === 'variable' && block.name && depth > 0 && !topLevel.has(block.name)) nested.add(block.name)
+    })
+    if (nested.size > 0) {
+      lines.push({ text: `let ${[...nested].join(', ')}`, blockId: null })
+      nested.forEach(name => declared.add(name))
+    }
+  }
+
+  const expression = (block: ProgramBlock) => {
+    try {
+      return translateExpression(parseExpression(block.expression), language, types)
+    } catch {
+      return `/* ${block.expression} */`
+    }
+  }
+
+  const emit = (body: ProgramBlock[], depth: number) => {
+    const indent = indentUnit.repeat(depth)
+    if (body.length === 0 && depth > 0 && language === 'python') lines.push({ text: `${indent}pass`, blockId: null })
+
+    body.forEach(block => {
+      const line = (text: string) => lines.push({ text: `${indent}${text}`, blockId: block.id })
+      const close = () => language === 'javascript' && lines.push({ text: `${indent}}`, blockId: null })
+
+      switch (block.type) {
+        case 'print':
+          line(language === 'python' ? `print(${expression(block)})` : `console.log(${expression(block)})`)
+          break
+        case 'variable': {
+          const name = block.name ?? ''
+          const keyword = language === 'javascript' && !declared.has(name) ? 'let ' : ''
+          declared.add(name)
+          line(`${keyword}${name} = ${expression(block)}`)
+          break
+        }
+        case 'math':
+          line(`${block.name} ${block.operator ?? '+='} ${expression(block)}`)
+          break
+        case 'if':
+          line(language === 'python' ? `if ${expression(block)}:` : `if (${expression(block)}) {`)
+          emit(block.body ?? [], depth + 1)
+          if ((block.elseBody ?? []).length > 0) {
+            lines.push({ text: language === 'python' ? `${indent}else:` : `${indent}} else {`, blockId: block.id })
+            emit(block.elseBody ?? [], depth + 1)
+          }
+          close()
+          break
+        case 'loop': {
+          const counter = loopCounters[Math.min(depth, loopCounters.length - 1)]
+          line(language === 'python'
+            ? `for ${counter} in range(${expression(block)}):`
+            : `for (let ${counter} = 0; ${counter} < ${expression(block)}; ${counter}++) {`)
+          emit(block.body ?? [], depth + 1)
+          close()
+          break
+        }
+        case 'while':
+          line(language === 'python' ? `while ${expression(block)}:` : `while (${expression(block)}) {`)
+          emit(block.body ?? [], depth + 1)
+          close()
+          break
+      }
+    })
+  }
+
+  emit(blocks, 0)
+  return lines
+}
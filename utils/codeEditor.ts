@@ -0,0 +1,258 @@
+/**
+ * Code Editor
+ * CodeMirror setup shared by every code editor: syntax highlighting for each technology,
+ * inline error markers and read-only regions that lock exercise scaffolding
+ */
+
+import { EditorState, StateEffect, StateField, RangeSetBuilder, type Extension, type Text } from '@codemirror/state'
+import { Decoration, EditorView, type DecorationSet } from '@codemirror/view'
+import { HighlightStyle, StreamLanguage, type StreamParser } from '@codemirror/language'
+import type { Diagnostic } from '@codemirror/lint'
+import { tags } from '@lezer/highlight'
+
+// ==================== LANGUAGES ====================
+
+type LanguageLoader = () => Promise<Extension>
+
+function legacyMode(load: () => Promise<StreamParser<unknown>>): LanguageLoader {
+  return async () => StreamLanguage.define(await load())
+}
+
+const loadJavaScript = () => import('@codemirror/lang-javascript').then(mod => mod.javascript())
+const loadJSX = () => import('@codemirror/lang-javascript').then(mod => mod.javascript({ jsx: true }))
+const loadTypeScript = () => import('@codemirror/lang-javascript').then(mod => mod.javascript({ typescript: true }))
+const loadPython = () => import('@codemirror/lang-python').then(mod => mod.python())
+const loadYAML = legacyMode(() => import('@codemirror/legacy-modes/mode/yaml').then(mod => mod.yaml))
+const loadShell = legacyMode(() => import('@codemirror/legacy-modes/mode/shell').then(mod => mod.shell))
+
+/**
+ * Highlighting for every language id in TECHNOLOGY_MODULES, plus the file languages used by projects
+ */
+const LANGUAGE_LOADERS: Record<string, LanguageLoader> = {
+  // Web
+  html: () => import('@codemirror/lang-html').then(mod => mod.html()),
+  css: () => import('@codemirror/lang-css').then(mod => mod.css()),
+  javascript: loadJavaScript,
+  react: loadJSX,
+  typescript: loadTypeScript,
+  nextjs: () => import('@codemirror/lang-javascript').then(mod => mod.javascript({ jsx: true, typescript: true })),
+  // Mobile
+  'react-native': loadJSX,
+  flutter: legacyMode(() => import('@codemirror/legacy-modes/mode/clike').then(mod => mod.dart)),
+  swift: legacyMode(() => import('@codemirror/legacy-modes/mode/swift').then(mod => mod.swift)),
+  kotlin: legacyMode(() => import('@codemirror/legacy-modes/mode/clike').then(mod => mod.kotlin)),
+  // Data science and AI
+  python: loadPython,
+  r: legacyMode(() => import('@codemirror/legacy-modes/mode/r').then(mod => mod.r)),
+  sql: () => import('@codemirror/lang-sql').then(mod => mod.sql({ dialect: mod.SQLite })),
+  pandas: loadPython,
+  'python-ml': loadPython,
+  tensorflow: loadPython,
+  pytorch: loadPython,
+  'scikit-learn': loadPython,
+  // Games
+  'unity-csharp': legacyMode(() => import('@codemirror/legacy-modes/mode/clike').then(mod => mod.csharp)),
+  unreal: () => import('@codemirror/lang-cpp').then(mod => mod.cpp()),
+  godot: loadPython,
+  'javascript-games': loadJavaScript,
+  // Backend
+  nodejs: loadJavaScript,
+  'python-backend': loadPython,
+  java: () => import('@codemirror/lang-java').then(mod => mod.java()),
+  go: () => import('@codemirror/lang-go').then(mod => mod.go()),
+  rust: () => import('@codemirror/lang-rust').then(mod => mod.rust()),
+  // DevOps
+  docker: legacyMode(() => import('@codemirror/legacy-modes/mode/dockerfile').then(mod => mod.dockerFile)),
+  kubernetes: loadYAML,
+  aws: loadYAML,
+  terraform: legacyMode(() => import('@codemirror/legacy-modes/mode/toml').then(mod => mod.toml)),
+  'github-actions': loadYAML,
+  // Security
+  'penetration-testing': loadPython,
+  'network-security': loadShell,
+  cryptography: loadPython,
+  'security-tools': loadShell,
+  // Blockchain
+  solidity: loadJavaScript,
+  web3js: loadJavaScript,
+  ethereum: loadJavaScript,
+  // Databases
+  postgresql: () => import('@codemirror/lang-sql').then(mod => mod.sql({ dialect: mod.PostgreSQL })),
+  mongodb: loadJavaScript,
+  redis: loadShell,
+  firebase: loadJavaScript,
+  // Other executable and project file languages
+  c: () => import('@codemirror/lang-cpp').then(mod => mod.cpp()),
+  cpp: () => import('@codemirror/lang-cpp').then(mod => mod.cpp()),
+  csharp: legacyMode(() => import('@codemirror/legacy-modes/mode/clike').then(mod => mod.csharp)),
+  php: () => import('@codemirror/lang-php').then(mod => mod.php()),
+  ruby: legacyMode(() => import('@codemirror/legacy-modes/mode/ruby').then(mod => mod.ruby)),
+  bash: loadShell,
+  json: legacyMode(() => import('@codemirror/legacy-modes/mode/javascript').then(mod => mod.json)),
+  yaml: loadYAML,
+}
+
+/**
+ * Loads the highlighting and indentation rules for a language.
+ * Unknown languages get plain text editing.
+ */
+export async function loadEditorLanguage(languageId: string): Promise<Extension> {
+  const load = LANGUAGE_LOADERS[languageId]
+  return load ? load() : []
+}
+
+// ==================== MARKERS ====================
+
+export type MarkerSeverity = 'error' | 'warning' | 'info'
+
+export interface EditorMarker {
+  /** 1-based line */
+  line: number
+  /** 1-based column; the marker covers the rest of the line from here, or the whole line without one */
+  column?: number
+  severity: MarkerSeverity
+  message: string
+}
+
+/**
+ * Converts markers to lint diagnostics, clamping positions that fall outside the document
+ */
+export function markersToDiagnostics(doc: Text, markers: EditorMarker[]): Diagnostic[] {
+  return markers.map(marker => {
+    const line = doc.line(Math.min(Math.max(1, marker.line), doc.lines))
+    const column = marker.column ? Math.min(marker.column - 1, line.length) : 0
+    const from = line.from + column
+    return {
+      from,
+      // Empty lines still need a visible range
+      to: line.to > from ? line.to : from,
+      severity: marker.severity,
+      message: marker.message,
+    }
+  })
+}
+
+// ==================== READ-ONLY REGIONS ====================
+
+/**
+ * Lines of a source text (1-based, inclusive) the learner may not edit
+ */
+export interface ReadOnlyRegions {
+  source: string
+  lines: [number, number][]
+}
+
+interface Span {
+  from: number
+  to: number
+}
+
+/**
+ * Finds the locked lines of the source in the current document, in order and on whole lines,
+ * so regions survive the learner adding or removing lines around them.
+ * Locked text that can no longer be found is left unlocked.
+ */
+export function locateReadOnlyRegions(doc: string, regions: ReadOnlyRegions): Span[] {
+  const sourceLines = regions.source.split('\n')
+  const spans: Span[] = []
+  let searchFrom = 0
+
+  ;[...regions.lines].sort((a, b) => a[0] - b[0]).forEach(([start, end]) => {
+    const text = sourceLines.slice(start - 1, end).join('\n')
+    let index = doc.indexOf(text, searchFrom)
+    while (index !== -1) {
+      const startsLine = index === 0 || doc[index - 1] === '\n'
+      const endsLine = index + text.length === doc.length || doc[index + text.length] === '\n'
+      if (startsLine && endsLine) break
+      index = doc.indexOf(text, index + 1)
+    }
+    if (index === -1) return
+    spans.push({ from: index, to: index + text.length })
+    searchFrom = index + text.length
+  })
+
+  return spans
+}
+
+export const setReadOnlySpans = StateEffect.define<Span[]>()
+
+const readOnlySpans = StateField.define<Span[]>({
+  create: () => [],
+  update(spans, tr) {
+    for (const effect of tr.effects) {
+      if (effect.is(setReadOnlySpans)) return effect.value
+    }
+    if (!tr.docChanged) return spans
+    return spans.map(span => ({ from: tr.changes.mapPos(span.from, 1), to: tr.changes.mapPos(span.to, -1) }))
+  },
+})
+
+/**
+ * Rejects any change that would alter a locked region or join it onto an editable line.
+ * New lines can still be added directly before or after it.
+ */
+const protectReadOnlySpans = EditorState.changeFilter.of(tr => {
+  const spans = tr.startState.field(readOnlySpans)
+  const doc = tr.newDoc
+
+  return spans.every(span => {
+    const from = tr.changes.mapPos(span.from, 1)
+    const to = tr.changes.mapPos(span.to, -1)
+    return doc.sliceString(from, to) === tr.startState.doc.sliceString(span.from, span.to) &&
+      doc.lineAt(from).from === from &&
+      doc.lineAt(to).to === to
+  })
+})
+
+const readOnlyLine = Decoration.line({ class: 'cm-readOnlyLine' })
+
+const readOnlyDecorations = EditorView.decorations.compute([readOnlySpans], state => {
+  const builder = new RangeSetBuilder<Decoration>()
+  state.field(readOnlySpans).forEach(span => {
+    for (let pos = span.from; pos <= span.to;) {
+      const line = state.doc.lineAt(pos)
+      builder.add(line.from, line.from, readOnlyLine)
+      pos = line.to + 1
+    }
+  })
+  return builder.finish() as DecorationSet
+})
+
+export const readOnlyRegions: Extension = [readOnlySpans, protectReadOnlySpans, readOnlyDecorations]
+
+// ==================== THEME ====================
+
+export const editorTheme = EditorView.theme({
+  '&': { height: '100%', backgroundColor: '#111827', color: '#e5e7eb' },
+  '.cm-scroller': { fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace', lineHeight: '1.6' },
+  '.cm-content': { caretColor: '#4ade80', padding: '12px 0' },
+  '.cm-cursor, .cm-dropCursor': { borderLeftColor: '#4ade80' },
+  '&.cm-focused .cm-selectionBackground, .cm-selectionBackground, .cm-content ::selection': { backgroundColor: '#374151' },
+  '.cm-activeLine': { backgroundColor: '#1f293780' },
+  '.cm-gutters': { backgroundColor: '#0b1220', color: '#6b7280', border: 'none' },
+  '.cm-activeLineGutter': { backgroundColor: '#1f2937', color: '#d1d5db' },
+  '.cm-matchingBracket': { backgroundColor: '#4ade8033', outline: '1px solid #4ade8080' },
+  '.cm-nonmatchingBracket': { backgroundColor: '#ef444433' },
+  '.cm-searchMatch': { backgroundColor: '#facc1533', outline: '1px solid #facc1580' },
+  '.cm-searchMatch.cm-searchMatch-selected': { backgroundColor: '#facc1566' },
+  '.cm-selectionMatch': { backgroundColor: '#37415180' },
+  '.cm-readOnlyLine': { backgroundColor: '#ffffff0a', color: '#9ca3af' },
+  '.cm-panels': { backgroundColor: '#1f2937', color: '#e5e7eb' },
+  '.cm-panels input, .cm-panels button': { color: '#e5e7eb' },
+  '.cm-tooltip': { backgroundColor: '#1f2937', border: '1px solid #374151' },
+  '.cm-diagnosticText': { whiteSpace: 'pre-wrap' },
+  '.cm-placeholder': { color: '#6b7280' },
+}, { dark: true })
+
+export const editorHighlightStyle = HighlightStyle.define([
+  { tag: [tags.keyword, tags.controlKeyword, tags.moduleKeyword], color: '#c084fc' },
+  { tag: [tags.string, tags.special(tags.string), tags.regexp], color: '#86efac' },
+  { tag: [tags.number, tags.bool, tags.null, tags.atom], color: '#fdba74' },
+  { tag: [tags.comment, tags.lineComment, tags.blockComment], color: '#6b7280', fontStyle: 'italic' },
+  { tag: [tags.function(tags.variableName), tags.function(tags.propertyName)], color: '#93c5fd' },
+  { tag: [tags.typeName, tags.className, tags.namespace], color: '#fcd34d' },
+  { tag: [tags.definition(tags.variableName), tags.propertyName, tags.attributeName], color: '#7dd3fc' },
+  { tag: [tags.tagName, tags.heading], color: '#f87171' },
+  { tag: [tags.operator, tags.punctuation, tags.bracket], color: '#d1d5db' },
+  { tag: tags.invalid, color: '#ef4444' },
+])
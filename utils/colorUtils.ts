@@ -327,6 +327,90 @@ export function hexToRgb(hex: string): { r: number; g: number; b: number } | nul
     : null
 }
 
+/**
+ * Relative luminance of a hex colour, as defined by WCAG 2
+ */
+export function getRelativeLuminance(hexColor: string): number {
+  const rgb = hexToRgb(hexColor)
+  if (!rgb) return 0
+
+  const [r, g, b] = [rgb.r, rgb.g, rgb.b].map(channel => {
+    const value = channel / 255
+    return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4)
+  })
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b
+}
+
+/**
+ * WCAG contrast ratio between two hex colours, from 1 (none) to 21 (black on white)
+ */
+export function getContrastRatio(foreground: string, background: string): number {
+  const a = getRelativeLuminance(foreground)
+  const b = getRelativeLuminance(background)
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05)
+}
+
+/**
+ * Blend two hex colours; amount 0 gives `from`, 1 gives `to`
+ */
+export function mixHexColors(from: string, to: string, amount: number): string {
+  const a = hexToRgb(from)
+  const b = hexToRgb(to)
+  if (!a || !b) return from
+
+  const channel = (x: number, y: number) => Math.round(x + (y - x) * amount).toString(16).padStart(2, '0')
+  return `#${channel(a.r, b.r)}${channel(a.g, b.g)}${channel(a.b, b.b)}`.toUpperCase()
+}
+
+/**
+ * Convert hex to HSL (hue in degrees, saturation and lightness in percent)
+ */
+export function hexToHsl(hex: string): { h: number; s: number; l: number } | null {
+  const rgb = hexToRgb(hex)
+  if (!rgb) return null
+
+  const r = rgb.r / 255
+  const g = rgb.g / 255
+  const b = rgb.b / 255
+  const max = Math.max(r, g, b)
+  const min = Math.min(r, g, b)
+  const l = (max + min) / 2
+  const delta = max - min
+
+  if (delta === 0) return { h: 0, s: 0, l: Math.round(l * 100) }
+
+  const s = delta / (1 - Math.abs(2 * l - 1))
+  let h: number
+  if (max === r) h = ((g - b) / delta) % 6
+  else if (max === g) h = (b - r) / delta + 2
+  else h = (r - g) / delta + 4
+
+  return { h: Math.round((h * 60 + 360) % 360), s: Math.round(s * 100), l: Math.round(l * 100) }
+}
+
+/**
+ * Convert HSL (hue in degrees, saturation and lightness in percent) to hex
+ */
+export function hslToHex(h: number, s: number, l: number): string {
+  const hue = ((h % 360) + 360) % 360
+  const sat = Math.min(100, Math.max(0, s)) / 100
+  const light = Math.min(100, Math.max(0, l)) / 100
+
+  const chroma = (1 - Math.abs(2 * light - 1)) * sat
+  const x = chroma * (1 - Math.abs(((hue / 60) % 2) - 1))
+  const m = light - chroma / 2
+  const [r, g, b] =
+    hue < 60 ? [chroma, x, 0] :
+    hue < 120 ? [x, chroma, 0] :
+    hue < 180 ? [0, chroma, x] :
+    hue < 240 ? [0, x, chroma] :
+    hue < 300 ? [x, 0, chroma] :
+    [chroma, 0, x]
+
+  const channel = (value: number) => Math.round((value + m) * 255).toString(16).padStart(2, '0')
+  return `#${channel(r)}${channel(g)}${channel(b)}`.toUpperCase()
+}
+
 /**
  * Get button classes based on completion state
  */
@@ -0,0 +1,294 @@
+/**
+ * Content Calendar
+ * Editorial plans: dated content per channel, cadence rules and iCalendar/CSV export
+ */
+
+// ==================== PLAN ====================
+
+export type ContentChannel = 'blog' | 'video' | 'social' | 'email'
+export type ContentStatus = 'planned' | 'in-progress' | 'completed'
+
+export interface ContentBlock {
+  id: string
+  type: ContentChannel
+  title: string
+  /** Publish day, YYYY-MM-DD */
+  date: string
+  /** Publish time, HH:MM, or '' for all day */
+  time: string
+  status: ContentStatus
+  notes: string
+}
+
+export type CadencePeriod = 'week' | 'month'
+export type CadenceComparison = 'at-least' | 'at-most' | 'exactly'
+
+/**
+ * e.g. "at least 2 blog posts per week"
+ */
+export interface CadenceRule {
+  id: string
+  channel: ContentChannel
+  comparison: CadenceComparison
+  count: number
+  period: CadencePeriod
+}
+
+export interface ContentPlan {
+  blocks: ContentBlock[]
+  rules: CadenceRule[]
+}
+
+export const CONTENT_CHANNELS: Record<ContentChannel, { label: string; plural: string; icon: string; color: string; border: string }> = {
+  blog: { label: 'Blog Post', plural: 'blog posts', icon: '📝', color: 'bg-blue-500', border: 'border-blue-500' },
+  video: { label: 'Video', plural: 'videos', icon: '🎥', color: 'bg-purple-500', border: 'border-purple-500' },
+  social: { label: 'Social Post', plural: 'social posts', icon: '📱', color: 'bg-pink-500', border: 'border-pink-500' },
+  email: { label: 'Email', plural: 'emails', icon: '📧', color: 'bg-green-500', border: 'border-green-500' },
+}
+
+export const CONTENT_STATUSES: Record<ContentStatus, { label: string; color: string }> = {
+  planned: { label: 'Planned', color: 'bg-yellow-500' },
+  'in-progress': { label: 'In Progress', color: 'bg-purple-500' },
+  completed: { label: 'Done', color: 'bg-green-500' },
+}
+
+export const CADENCE_COMPARISONS: Record<CadenceComparison, string> = {
+  'at-least': 'At least',
+  'at-most': 'At most',
+  exactly: 'Exactly',
+}
+
+export function createContentId(prefix: string = 'content'): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`
+}
+
+/**
+ * A typical starting cadence for a small publication
+ */
+export function createContentPlan(): ContentPlan {
+  return {
+    blocks: [],
+    rules: [
+      { id: 'rule-blog', channel: 'blog', comparison: 'at-least', count: 2, period: 'week' },
+      { id: 'rule-email', channel: 'email', comparison: 'exactly', count: 1, period: 'week' },
+    ],
+  }
+}
+
+export function sortBlocks(blocks: ContentBlock[]): ContentBlock[] {
+  return [...blocks].sort((a, b) => `${a.date}${a.time || '99:99'}`.localeCompare(`${b.date}${b.time || '99:99'}`))
+}
+
+// ==================== DATES ====================
+
+// Days are YYYY-MM-DD strings, calculated in UTC so daylight saving never shifts them
+
+function parseDay(day: string): Date {
+  const [year, month, date] = day.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, date))
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+export function todayKey(): string {
+  const now = new Date()
+  return formatDay(new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())))
+}
+
+export function addDays(day: string, amount: number): string {
+  const date = parseDay(day)
+  date.setUTCDate(date.getUTCDate() + amount)
+  return formatDay(date)
+}
+
+export function addMonths(day: string, amount: number): string {
+  const date = parseDay(day)
+  return formatDay(new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + amount, 1)))
+}
+
+/**
+ * Monday of the day's week
+ */
+export function startOfWeek(day: string): string {
+  const weekday = (parseDay(day).getUTCDay() + 6) % 7
+  return addDays(day, -weekday)
+}
+
+export function startOfMonth(day: string): string {
+  return `${day.slice(0, 7)}-01`
+}
+
+export function weekDays(day: string): string[] {
+  const monday = startOfWeek(day)
+  return Array.from({ length: 7 }, (_, i) => addDays(monday, i))
+}
+
+/**
+ * Whole Monday-to-Sunday weeks covering the day's month
+ */
+export function monthWeeks(day: string): string[][] {
+  const first = startOfMonth(day)
+  const month = first.slice(0, 7)
+  const weeks: string[][] = []
+  for (let monday = startOfWeek(first); monday.slice(0, 7) <= month; monday = addDays(monday, 7)) {
+    weeks.push(weekDays(monday))
+  }
+  return weeks
+}
+
+export function formatDayLabel(day: string, options: Intl.DateTimeFormatOptions): string {
+  return parseDay(day).toLocaleDateString(undefined, { ...options, timeZone: 'UTC' })
+}
+
+// ==================== CADENCE ====================
+
+export interface CadenceViolation {
+  rule: CadenceRule
+  /** First and last day of the week or month that breaks the rule */
+  periodStart: string
+  periodEnd: string
+  actual: number
+  message: string
+}
+
+export function describeRule(rule: CadenceRule): string {
+  const channel = CONTENT_CHANNELS[rule.channel]
+  const noun = rule.count === 1 ? channel.label.toLowerCase() : channel.plural
+  return `${CADENCE_COMPARISONS[rule.comparison]} ${rule.count} ${noun} per ${rule.period}`
+}
+
+function periodRange(day: string, period: CadencePeriod): { start: string; end: string } {
+  if (period === 'week') {
+    const start = startOfWeek(day)
+    return { start, end: addDays(start, 6) }
+  }
+  const start = startOfMonth(day)
+  return { start, end: addDays(addMonths(start, 1), -1) }
+}
+
+function breaksRule(rule: CadenceRule, actual: number): boolean {
+  if (rule.comparison === 'at-least') return actual < rule.count
+  if (rule.comparison === 'at-most') return actual > rule.count
+  return actual !== rule.count
+}
+
+/**
+ * Every week or month overlapping the given days where the plan breaks a rule.
+ * Whole periods are counted, even where they run past the visible days.
+ */
+export function checkCadence(plan: ContentPlan, days: string[]): CadenceViolation[] {
+  return plan.rules.flatMap(rule => {
+    const periods = new Map(days.map(day => {
+      const range = periodRange(day, rule.period)
+      return [range.start, range] as const
+    }))
+
+    return [...periods.values()].flatMap(({ start, end }) => {
+      const actual = plan.blocks.filter(block => block.type === rule.channel && block.date >= start && block.date <= end).length
+      if (!breaksRule(rule, actual)) return []
+
+      const label = rule.period === 'week'
+        ? `Week of ${formatDayLabel(start, { day: 'numeric', month: 'short' })}`
+        : formatDayLabel(start, { month: 'long', year: 'numeric' })
+      const channel = CONTENT_CHANNELS[rule.channel]
+      return [{
+        rule,
+        periodStart: start,
+        periodEnd: end,
+        actual,
+        message: `${label}: ${actual} ${actual === 1 ? channel.label.toLowerCase() : channel.plural}, but the rule is ${describeRule(rule).toLowerCase()}`,
+      }]
+    })
+  })
+}
+
+// ==================== EXPORT ====================
+
+function escapeICSText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+}
+
+/**
+ * Splits a content line into 75-octet pieces, as iCalendar requires
+ */
+function foldICSLine(line: string): string {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+  for (const char of line) {
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? 75 : 74
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current)
+      current = char
+    } else {
+      current += char
+    }
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+function icsTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+/**
+ * iCalendar (.ics) file with one event per piece of content; timed pieces last an hour
+ */
+export function planToICS(blocks: ContentBlock[], calendarName: string = 'Content Plan', now: Date = new Date()): string {
+  const stamp = icsTimestamp(now)
+  const events = sortBlocks(blocks).flatMap(block => {
+    const day = block.date.replace(/-/g, '')
+    const timing = block.time
+      ? [`DTSTART:${day}T${block.time.replace(':', '')}00`, 'DURATION:PT1H']
+      : [`DTSTART;VALUE=DATE:${day}`, `DTEND;VALUE=DATE:${addDays(block.date, 1).replace(/-/g, '')}`]
+    const description = [`Status: ${CONTENT_STATUSES[block.status].label}`, block.notes].filter(Boolean).join('\n')
+
+    return [
+      'BEGIN:VEVENT',
+      `UID:${block.id}@codelikebasics`,
+      `DTSTAMP:${stamp}`,
+      ...timing,
+      `SUMMARY:${escapeICSText(`${CONTENT_CHANNELS[block.type].label}: ${block.title}`)}`,
+      `DESCRIPTION:${escapeICSText(description)}`,
+      `CATEGORIES:${escapeICSText(CONTENT_CHANNELS[block.type].label)}`,
+      'END:VEVENT',
+    ]
+  })
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//CodeLikeBasics//Content Planner//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeICSText(calendarName)}`,
+    ...events,
+    'END:VCALENDAR',
+  ].map(foldICSLine).join('\r\n') + '\r\n'
+}
+
+/**
+ * One CSV row. Cells a spreadsheet would read as a formula (=, +, -, @, tab or carriage return
+ * first) get a leading apostrophe, so a title like "=HYPERLINK(...)" stays text.
+ */
+function toCSVLine(values: string[]): string {
+  return values
+    .map(value => /^[=+\-@\t\r]/.test(value) ? `'${value}` : value)
+    .map(value => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)
+    .join(',')
+}
+
+export function planToCSV(blocks: ContentBlock[]): string {
+  const rows = sortBlocks(blocks).map(block => [
+    block.date,
+    block.time,
+    CONTENT_CHANNELS[block.type].label,
+    block.title,
+    CONTENT_STATUSES[block.status].label,
+    block.notes,
+  ])
+  return [toCSVLine(['date', 'time', 'channel', 'title', 'status', 'notes']), ...rows.map(toCSVLine)].join('\n')
+}
@@ -0,0 +1,55 @@
+/**
+ * CSV Utilities
+ * Minimal RFC 4180 parsing for datasets loaded in the browser
+ */
+
+/**
+ * Split CSV text into rows of cells
+ * Handles quoted cells (with escaped "" quotes and embedded commas or newlines) and skips blank lines
+ */
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  const endRow = () => {
+    row.push(cell)
+    if (row.some(value => value.trim() !== '')) {
+      rows.push(row)
+    }
+    row = []
+    cell = ''
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      endRow()
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    endRow()
+  }
+
+  return rows
+}
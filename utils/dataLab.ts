@@ -0,0 +1,504 @@
+/**
+ * Data Lab
+ * Table import with type inference, chainable operations, and the equivalent pandas and SQL for each step
+ */
+
+import { parseCSV } from './csv'
+
+// ==================== TABLES ====================
+
+export type ColumnType = 'number' | 'boolean' | 'date' | 'string'
+export type CellValue = string | number | boolean | null
+
+export interface Column {
+  name: string
+  type: ColumnType
+}
+
+export interface DataTable {
+  name: string
+  columns: Column[]
+  rows: Record<string, CellValue>[]
+}
+
+export class DataLabError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DataLabError'
+  }
+}
+
+// Keeps uploads small enough to work with (and save) in the browser
+export const MAX_IMPORT_ROWS = 5000
+export const MAX_IMPORT_COLUMNS = 50
+
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2})?)?/
+
+/**
+ * Most specific type that fits every non-empty value of a column
+ */
+export function inferColumnType(values: CellValue[]): ColumnType {
+  const present = values.filter(value => value !== null && value !== '')
+  if (present.length === 0) return 'string'
+  if (present.every(value => typeof value === 'number' || (typeof value === 'string' && NUMBER_PATTERN.test(value.trim())))) {
+    return 'number'
+  }
+  if (present.every(value => typeof value === 'boolean' || (typeof value === 'string' && /^(true|false)$/i.test(value.trim())))) {
+    return 'boolean'
+  }
+  if (present.every(value => typeof value === 'string' && DATE_PATTERN.test(value.trim()) && !Number.isNaN(Date.parse(value)))) {
+    return 'date'
+  }
+  return 'string'
+}
+
+function convertCell(value: CellValue, type: ColumnType): CellValue {
+  if (value === null || value === '') return null
+  switch (type) {
+    case 'number':
+      return typeof value === 'number' ? value : Number(String(value).trim())
+    case 'boolean':
+      return typeof value === 'boolean' ? value : String(value).trim().toLowerCase() === 'true'
+    default:
+      return String(value).trim()
+  }
+}
+
+/**
+ * Build a typed table from raw rows, inferring each column's type
+ */
+export function createTable(name: string, columnNames: string[], rawRows: Record<string, CellValue>[]): DataTable {
+  if (columnNames.length === 0) {
+    throw new DataLabError(`${name} has no columns.`)
+  }
+  if (columnNames.length > MAX_IMPORT_COLUMNS) {
+    throw new DataLabError(`${name} has ${columnNames.length} columns; the Data Lab handles up to ${MAX_IMPORT_COLUMNS}.`)
+  }
+  if (rawRows.length > MAX_IMPORT_ROWS) {
+    throw new DataLabError(`${name} has ${rawRows.length} rows; the Data Lab handles up to ${MAX_IMPORT_ROWS}.`)
+  }
+
+  const columns = columnNames.map(column => ({ name: column, type: inferColumnType(rawRows.map(row => row[column] ?? null)) }))
+  const rows = rawRows.map(row => Object.fromEntries(columns.map(column => [column.name, convertCell(row[column.name] ?? null, column.type)])))
+  return { name, columns, rows }
+}
+
+/**
+ * Parse CSV text whose first row holds the column names
+ */
+export function parseCSVTable(text: string, name: string): DataTable {
+  const [header, ...rows] = parseCSV(text)
+  if (!header) {
+    throw new DataLabError(`${name} is empty.`)
+  }
+
+  const columnNames = header.map((column, index) => column.trim() || `column_${index + 1}`)
+  if (new Set(columnNames).size !== columnNames.length) {
+    throw new DataLabError(`${name} has duplicate column names.`)
+  }
+  return createTable(name, columnNames, rows.map(row =>
+    Object.fromEntries(columnNames.map((column, index) => [column, row[index] ?? null]))
+  ))
+}
+
+/**
+ * Parse a JSON array of objects (or an object holding one such array)
+ */
+export function parseJSONTable(text: string, name: string): DataTable {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new DataLabError(`${name} isn't valid JSON.`)
+  }
+
+  const records = Array.isArray(parsed)
+    ? parsed
+    : Object.values(parsed as object ?? {}).find(value => Array.isArray(value))
+  if (!Array.isArray(records) || records.some(record => typeof record !== 'object' || record === null || Array.isArray(record))) {
+    throw new DataLabError(`${name} should hold an array of objects, like [{"name": "Alice", "age": 25}].`)
+  }
+
+  const columnNames = Array.from(new Set(records.flatMap(record => Object.keys(record))))
+  return createTable(name, columnNames, records.map(record => Object.fromEntries(columnNames.map(column => {
+    const value = (record as Record<string, unknown>)[column]
+    // Nested values are kept as their JSON text
+    const cell = value === undefined ? null : typeof value === 'object' && value !== null ? JSON.stringify(value) : value as CellValue
+    return [column, cell]
+  }))))
+}
+
+// ==================== STEPS ====================
+
+export type FilterOperator = '==' | '!=' | '>' | '>=' | '<' | '<=' | 'contains'
+export type AggregateFunction = 'count' | 'sum' | 'mean' | 'min' | 'max'
+
+export type Step =
+  | { kind: 'filter'; column: string; operator: FilterOperator; value: string }
+  | { kind: 'sort'; column: string; ascending: boolean }
+  | { kind: 'groupBy'; by: string; column: string; aggregate: AggregateFunction }
+  | { kind: 'join'; table: string; leftOn: string; rightOn: string; how: 'inner' | 'left' }
+  | { kind: 'pivot'; index: string; columns: string; values: string; aggregate: AggregateFunction }
+
+export type StepKind = Step['kind']
+
+export interface StepResult {
+  table: DataTable
+  pandas: string
+  sql: string
+}
+
+/**
+ * A variable or table name usable in pandas and SQL
+ */
+export function toIdentifier(name: string): string {
+  const identifier = name.replace(/\.[a-z]+$/i, '').toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '')
+  return /^[a-z_]/.test(identifier) ? identifier : `t_${identifier}`
+}
+
+function requireColumn(table: DataTable, name: string): Column {
+  const column = table.columns.find(candidate => candidate.name === name)
+  if (!column) {
+    throw new DataLabError(`There is no "${name}" column. Available: ${table.columns.map(c => c.name).join(', ')}.`)
+  }
+  return column
+}
+
+function pythonLiteral(value: CellValue): string {
+  if (value === null) return 'None'
+  if (typeof value === 'boolean') return value ? 'True' : 'False'
+  if (typeof value === 'number') return String(value)
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+}
+
+function sqlLiteral(value: CellValue): string {
+  if (value === null) return 'NULL'
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE'
+  if (typeof value === 'number') return String(value)
+  return `'${value.replace(/'/g, "''")}'`
+}
+
+function quoteSQL(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`
+}
+
+function quotePython(name: string): string {
+  return pythonLiteral(name)
+}
+
+/**
+ * Read a filter value typed by the learner as the column's type
+ */
+function parseFilterValue(raw: string, column: Column): CellValue {
+  if (column.type === 'number') {
+    const number = Number(raw)
+    if (raw.trim() === '' || Number.isNaN(number)) {
+      throw new DataLabError(`"${column.name}" holds numbers, so compare it with a number.`)
+    }
+    return number
+  }
+  if (column.type === 'boolean') {
+    if (!/^(true|false)$/i.test(raw.trim())) {
+      throw new DataLabError(`"${column.name}" holds true/false values.`)
+    }
+    return raw.trim().toLowerCase() === 'true'
+  }
+  return raw
+}
+
+function compareCells(a: CellValue, b: CellValue): number {
+  if (a === null && b === null) return 0
+  if (a === null) return 1
+  if (b === null) return -1
+  if (typeof a === 'number' && typeof b === 'number') return a - b
+  return String(a).localeCompare(String(b))
+}
+
+function aggregateValues(values: CellValue[], aggregate: AggregateFunction): CellValue {
+  const present = values.filter(value => value !== null)
+  if (aggregate === 'count') return present.length
+  if (present.length === 0) return null
+  if (aggregate === 'min') return present.reduce((min, value) => compareCells(value, min) < 0 ? value : min)
+  if (aggregate === 'max') return present.reduce((max, value) => compareCells(value, max) > 0 ? value : max)
+
+  const sum = (present as number[]).reduce((total, value) => total + value, 0)
+  return aggregate === 'sum' ? sum : Math.round((sum / present.length) * 1e6) / 1e6
+}
+
+function requireNumericAggregate(column: Column, aggregate: AggregateFunction): void {
+  if ((aggregate === 'sum' || aggregate === 'mean') && column.type !== 'number') {
+    throw new DataLabError(`${aggregate} needs a numeric column, but "${column.name}" is ${column.type}.`)
+  }
+}
+
+const SQL_AGGREGATES: Record<AggregateFunction, string> = {
+  count: 'COUNT',
+  sum: 'SUM',
+  mean: 'AVG',
+  min: 'MIN',
+  max: 'MAX',
+}
+
+function groupRows(rows: Record<string, CellValue>[], column: string): Map<string, Record<string, CellValue>[]> {
+  const groups = new Map<string, Record<string, CellValue>[]>()
+  rows.forEach(row => {
+    const key = JSON.stringify(row[column])
+    groups.set(key, [...(groups.get(key) ?? []), row])
+  })
+  return groups
+}
+
+/**
+ * Apply one step to a table
+ * @param tables - Every loaded table by name, for joins
+ * @param source - Name of the input in the generated SQL (the previous step's CTE)
+ * @throws DataLabError if the step doesn't fit the table
+ */
+export function applyStep(table: DataTable, step: Step, tables: DataTable[], source: string): StepResult {
+  switch (step.kind) {
+    case 'filter': {
+      const column = requireColumn(table, step.column)
+      const value = step.operator === 'contains' ? step.value : parseFilterValue(step.value, column)
+      const needle = step.value.toLowerCase()
+      const matches = (cell: CellValue): boolean => {
+        if (step.operator === 'contains') return cell !== null && String(cell).toLowerCase().includes(needle)
+        if (step.operator === '!=') return cell !== value
+        if (cell === null) return false
+        const order = compareCells(cell, value)
+        switch (step.operator) {
+          case '==': return order === 0
+          case '>': return order > 0
+          case '>=': return order >= 0
+          case '<': return order < 0
+          case '<=': return order <= 0
+        }
+      }
+
+      const field = `df[${quotePython(column.name)}]`
+      const comparison = `${quoteSQL(column.name)} ${step.operator === '==' ? '=' : step.operator === '!=' ? '<>' : step.operator} ${sqlLiteral(value)}`
+      return {
+        table: { ...table, rows: table.rows.filter(row => matches(row[column.name])) },
+        pandas: step.operator === 'contains'
+          ? `df = df[${field}.astype(str).str.contains(${pythonLiteral(step.value)}, case=False, regex=False)]`
+          : `df = df[${field} ${step.operator} ${pythonLiteral(value)}]`,
+        sql: step.operator === 'contains'
+          ? `SELECT * FROM ${source} WHERE LOWER(${quoteSQL(column.name)}) LIKE ${sqlLiteral(`%${needle}%`)}`
+          // Like the preview and pandas, != keeps empty cells; SQL's <> alone would drop them
+          : step.operator === '!='
+            ? `SELECT * FROM ${source} WHERE ${comparison} OR ${quoteSQL(column.name)} IS NULL`
+            : `SELECT * FROM ${source} WHERE ${comparison}`,
+      }
+    }
+
+    case 'sort': {
+      const column = requireColumn(table, step.column)
+      const direction = step.ascending ? 1 : -1
+      return {
+        table: { ...table, rows: [...table.rows].sort((a, b) => direction * compareCells(a[column.name], b[column.name])) },
+        pandas: `df = df.sort_values(${quotePython(column.name)}, ascending=${step.ascending ? 'True' : 'False'})`,
+        sql: `SELECT * FROM ${source} ORDER BY ${quoteSQL(column.name)} ${step.ascending ? 'ASC' : 'DESC'}`,
+      }
+    }
+
+    case 'groupBy': {
+      const by = requireColumn(table, step.by)
+      const column = requireColumn(table, step.column)
+      requireNumericAggregate(column, step.aggregate)
+      const output = `${column.name}_${step.aggregate}`
+      const rows = Array.from(groupRows(table.rows, by.name).values()).map(group => ({
+        [by.name]: group[0][by.name],
+        [output]: aggregateValues(group.map(row => row[column.name]), step.aggregate),
+      }))
+      const outputType: ColumnType = step.aggregate === 'min' || step.aggregate === 'max' ? column.type : 'number'
+      return {
+        table: { name: table.name, columns: [by, { name: output, type: outputType }], rows },
+        // Keyword unpacking, so output names that aren't Python identifiers ("unit price_sum") still work
+        pandas: `df = df.groupby(${quotePython(by.name)}, as_index=False).agg(**{${quotePython(output)}: (${quotePython(column.name)}, ${pythonLiteral(step.aggregate)})})`,
+        sql: `SELECT ${quoteSQL(by.name)}, ${SQL_AGGREGATES[step.aggregate]}(${quoteSQL(column.name)}) AS ${quoteSQL(output)} FROM ${source} GROUP BY ${quoteSQL(by.name)}`,
+      }
+    }
+
+    case 'join': {
+      const other = tables.find(candidate => candidate.name === step.table)
+      if (!other) {
+        throw new DataLabError(`There is no table called "${step.table}" to join with.`)
+      }
+      const leftKey = requireColumn(table, step.leftOn)
+      const rightKey = requireColumn(other, step.rightOn)
+      const sameKey = leftKey.name === rightKey.name
+
+      // Like pandas, clashing column names get _x (left) and _y (right) suffixes
+      const rightColumns = other.columns.filter(column => !(sameKey && column.name === rightKey.name))
+      const clashes = new Set(rightColumns.map(column => column.name).filter(name => table.columns.some(column => column.name === name)))
+      const leftName = (name: string) => clashes.has(name) ? `${name}_x` : name
+      const rightName = (name: string) => clashes.has(name) ? `${name}_y` : name
+      const columns = [
+        ...table.columns.map(column => ({ ...column, name: leftName(column.name) })),
+        ...rightColumns.map(column => ({ ...column, name: rightName(column.name) })),
+      ]
+
+      const lookup = groupRows(other.rows, rightKey.name)
+      const rows = table.rows.flatMap(row => {
+        const matches = row[leftKey.name] === null ? [] : lookup.get(JSON.stringify(row[leftKey.name])) ?? []
+        const left = Object.fromEntries(table.columns.map(column => [leftName(column.name), row[column.name]]))
+        if (matches.length === 0) {
+          return step.how === 'left' ? [{ ...left, ...Object.fromEntries(rightColumns.map(column => [rightName(column.name), null])) }] : []
+        }
+        return matches.map(match => ({ ...left, ...Object.fromEntries(rightColumns.map(column => [rightName(column.name), match[column.name]])) }))
+      })
+
+      const otherName = toIdentifier(other.name)
+      const keys = sameKey ? `on=${quotePython(leftKey.name)}` : `left_on=${quotePython(leftKey.name)}, right_on=${quotePython(rightKey.name)}`
+      const selectList = [
+        ...table.columns.map(column => `l.${quoteSQL(column.name)}${clashes.has(column.name) ? ` AS ${quoteSQL(leftName(column.name))}` : ''}`),
+        ...rightColumns.map(column => `r.${quoteSQL(column.name)}${clashes.has(column.name) ? ` AS ${quoteSQL(rightName(column.name))}` : ''}`),
+      ].join(', ')
+      return {
+        table: { name: table.name, columns, rows },
+        pandas: `df = df.merge(${otherName}, ${keys}, how=${pythonLiteral(step.how)})`,
+        sql: `SELECT ${selectList} FROM ${source} l ${step.how === 'left' ? 'LEFT JOIN' : 'JOIN'} ${otherName} r ON l.${quoteSQL(leftKey.name)} = r.${quoteSQL(rightKey.name)}`,
+      }
+    }
+
+    case 'pivot': {
+      const index = requireColumn(table, step.index)
+      const pivotColumn = requireColumn(table, step.columns)
+      const values = requireColumn(table, step.values)
+      requireNumericAggregate(values, step.aggregate)
+
+      const headings = Array.from(new Set(table.rows.map(row => row[pivotColumn.name]).filter(value => value !== null)))
+        .sort(compareCells)
+      if (headings.length > MAX_IMPORT_COLUMNS) {
+        throw new DataLabError(`"${pivotColumn.name}" has ${headings.length} different values, too many to turn into columns.`)
+      }
+      const outputType: ColumnType = step.aggregate === 'min' || step.aggregate === 'max' ? values.type : 'number'
+      const rows = Array.from(groupRows(table.rows, index.name).values()).map(group => ({
+        [index.name]: group[0][index.name],
+        ...Object.fromEntries(headings.map(heading => [
+          String(heading),
+          aggregateValues(group.filter(row => row[pivotColumn.name] === heading).map(row => row[values.name]), step.aggregate),
+        ])),
+      }))
+
+      const cases = headings.map(heading =>
+        `${SQL_AGGREGATES[step.aggregate]}(CASE WHEN ${quoteSQL(pivotColumn.name)} = ${sqlLiteral(heading)} THEN ${quoteSQL(values.name)} END) AS ${quoteSQL(String(heading))}`
+      )
+      return {
+        table: {
+          name: table.name,
+          columns: [index, ...headings.map(heading => ({ name: String(heading), type: outputType }))],
+          rows,
+        },
+        pandas: `df = df.pivot_table(index=${quotePython(index.name)}, columns=${quotePython(pivotColumn.name)}, values=${quotePython(values.name)}, aggfunc=${pythonLiteral(step.aggregate)}).reset_index()`,
+        sql: `SELECT ${[quoteSQL(index.name), ...cases].join(', ')} FROM ${source} GROUP BY ${quoteSQL(index.name)}`,
+      }
+    }
+  }
+}
+
+/**
+ * Run steps in order on a table
+ * @returns A result per step that ran, and the error that stopped the chain (if any)
+ */
+export function runSteps(
+  base: DataTable,
+  steps: Step[],
+  tables: DataTable[]
+): { results: StepResult[]; error: { index: number; message: string } | null } {
+  const results: StepResult[] = []
+  let table = base
+  for (let index = 0; index < steps.length; index++) {
+    try {
+      const source = index === 0 ? toIdentifier(base.name) : `step_${index}`
+      const result = applyStep(table, steps[index], tables, source)
+      results.push(result)
+      table = result.table
+    } catch (error) {
+      if (!(error instanceof DataLabError)) throw error
+      return { results, error: { index, message: error.message } }
+    }
+  }
+  return { results, error: null }
+}
+
+function pandasReader(table: DataTable): string {
+  return `pd.${/\.json$/i.test(table.name) ? 'read_json' : 'read_csv'}(${pythonLiteral(table.name)})`
+}
+
+/**
+ * The whole analysis as one pandas script
+ */
+export function toPandasScript(base: DataTable, results: StepResult[], tables: DataTable[]): string {
+  const joined = tables.filter(table => table.name !== base.name && results.some(result => result.pandas.includes(`merge(${toIdentifier(table.name)},`)))
+  return [
+    'import pandas as pd',
+    '',
+    ...joined.map(table => `${toIdentifier(table.name)} = ${pandasReader(table)}`),
+    `df = ${pandasReader(base)}`,
+    ...results.map(result => result.pandas),
+  ].join('\n')
+}
+
+/**
+ * The whole analysis as one SQL query, with a CTE per step
+ */
+export function toSQLQuery(base: DataTable, results: StepResult[]): string {
+  if (results.length === 0) return `SELECT * FROM ${toIdentifier(base.name)}`
+  const ctes = results.slice(0, -1).map((result, index) => `step_${index + 1} AS (\n  ${result.sql}\n)`)
+  const last = results[results.length - 1].sql
+  return ctes.length > 0 ? `WITH ${ctes.join(',\n')}\n${last}` : last
+}
+
+// ==================== SAVED ANALYSES ====================
+
+/**
+ * Everything needed to reload an analysis: the tables and the chain of steps
+ */
+export interface SavedAnalysis {
+  name: string
+  tables: DataTable[]
+  baseTable: string
+  steps: Step[]
+  chart: ChartSettings | null
+  /** Milliseconds since epoch */
+  savedAt: number
+}
+
+export type ChartKind = 'bar' | 'line' | 'scatter' | 'histogram'
+
+export interface ChartSettings {
+  kind: ChartKind
+  x: string
+  /** Unused by histograms */
+  y: string
+}
+
+/**
+ * Check an analysis read back from storage or a file
+ * @throws DataLabError if it isn't a saved analysis
+ */
+export function parseSavedAnalysis(text: string): SavedAnalysis {
+  let parsed: Partial<SavedAnalysis>
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new DataLabError('That file isn\'t a saved analysis.')
+  }
+  if (
+    typeof parsed?.name !== 'string' ||
+    !Array.isArray(parsed.tables) ||
+    !Array.isArray(parsed.steps) ||
+    !parsed.tables.some(table => table?.name === parsed.baseTable)
+  ) {
+    throw new DataLabError('That file isn\'t a saved analysis.')
+  }
+  return {
+    name: parsed.name,
+    tables: parsed.tables,
+    baseTable: parsed.baseTable!,
+    steps: parsed.steps,
+    chart: parsed.chart ?? null,
+    savedAt: typeof parsed.savedAt === 'number' ? parsed.savedAt : Date.now(),
+  }
+}
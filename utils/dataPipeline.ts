@@ -0,0 +1,469 @@
+/**
+ * Data Pipeline
+ * Pipeline stages that operate on a sample orders dataset with injected problems,
+ * a row-level diff of what each stage changed, and a data quality score for the output
+ */
+
+import { parseCSV } from './csv'
+import { createRandom } from './neuralNetwork'
+
+type Difficulty = 'easy' | 'medium' | 'hard'
+
+// ==================== DATA ====================
+
+export type PipelineCell = string | number | null
+
+export interface PipelineRow {
+  /** Line of the raw file the row came from (1 = first data row) */
+  line: number
+  values: Record<string, PipelineCell>
+}
+
+interface ColumnRule {
+  column: string
+  type: 'integer' | 'number' | 'string' | 'email' | 'date'
+  min?: number
+  max?: number
+}
+
+/**
+ * What a loaded order must look like
+ */
+export const ORDER_SCHEMA: ColumnRule[] = [
+  { column: 'order_id', type: 'integer', min: 1, max: 99999 },
+  { column: 'customer', type: 'string' },
+  { column: 'email', type: 'email' },
+  { column: 'quantity', type: 'integer', min: 1, max: 100 },
+  { column: 'price', type: 'number', min: 0.01, max: 10000 },
+  { column: 'order_date', type: 'date' },
+]
+
+const COLUMNS = ORDER_SCHEMA.map(rule => rule.column)
+
+export interface RawDataset {
+  csv: string
+  /** order_ids of the genuine orders, which a perfect pipeline keeps */
+  orderIds: number[]
+  problems: { duplicates: number; missing: number; wrongTypes: number; outliers: number }
+}
+
+const FIRST_NAMES = ['Alice', 'Bob', 'Chen', 'Dara', 'Emeka', 'Fatima', 'Gus', 'Hana', 'Ivan', 'Jade', 'Kofi', 'Lena']
+const LAST_NAMES = ['Smith', 'Garcia', 'Okafor', 'Novak', 'Tanaka', 'Silva', 'Khan', 'Berg']
+const ORDER_COUNT = 24
+
+function toCSVLine(values: string[]): string {
+  return values.map(value => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value).join(',')
+}
+
+/**
+ * Sample orders with problems injected for the difficulty
+ * The same difficulty always produces the same file
+ */
+export function generateRawOrders(difficulty: Difficulty): RawDataset {
+  const random = createRandom(2024)
+  const rows: string[][] = Array.from({ length: ORDER_COUNT }, (_, i) => {
+    const first = FIRST_NAMES[i % FIRST_NAMES.length]
+    const last = LAST_NAMES[Math.floor(random() * LAST_NAMES.length)]
+    const month = String(1 + Math.floor(random() * 12)).padStart(2, '0')
+    const day = String(1 + Math.floor(random() * 28)).padStart(2, '0')
+    return [
+      String(1001 + i),
+      `${first} ${last}`,
+      `${first}.${last}@example.com`.toLowerCase(),
+      String(1 + Math.floor(random() * 10)),
+      (5 + random() * 55).toFixed(2),
+      `2024-${month}-${day}`,
+    ]
+  })
+  const problems = { duplicates: 0, missing: 0, wrongTypes: 0, outliers: 0 }
+  const columnIndex = (column: string) => COLUMNS.indexOf(column)
+  const set = (row: number, column: string, value: string) => { rows[row][columnIndex(column)] = value }
+
+  // Missing values
+  set(3, 'quantity', '')
+  set(8, 'price', '')
+  set(11, 'customer', '')
+  problems.missing += 3
+
+  if (difficulty !== 'easy') {
+    set(4, 'quantity', 'three')
+    set(9, 'price', `$${rows[9][columnIndex('price')]}`)
+    set(13, 'price', 'n/a')
+    set(17, 'order_date', '03/15/2024')
+    problems.wrongTypes += 4
+  }
+
+  if (difficulty === 'hard') {
+    set(19, 'quantity', '9999')
+    set(21, 'price', '-40')
+    problems.outliers += 2
+  }
+
+  // Exact copies of earlier orders, plus (on hard) copies that differ only in text formatting
+  const duplicates = [rows[1], rows[6], rows[14]].map(row => [...row])
+  if (difficulty === 'hard') {
+    const copy = [...rows[2]]
+    copy[columnIndex('customer')] = copy[columnIndex('customer')].toLowerCase()
+    copy[columnIndex('email')] = `${copy[columnIndex('email')].toUpperCase()} `
+    duplicates.push(copy)
+  }
+  problems.duplicates += duplicates.length
+  duplicates.forEach((copy, index) => rows.splice(5 + index * 6, 0, copy))
+
+  return {
+    csv: [COLUMNS.join(','), ...rows.map(toCSVLine)].join('\n'),
+    orderIds: Array.from({ length: ORDER_COUNT }, (_, i) => 1001 + i),
+    problems,
+  }
+}
+
+// ==================== VALIDATION ====================
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Why a non-null value breaks its column's rule, or null if it's valid
+ */
+function cellProblem(value: PipelineCell, rule: ColumnRule): string | null {
+  if (value === null) return null
+  switch (rule.type) {
+    case 'integer':
+    case 'number':
+      if (typeof value !== 'number') return `${rule.column} "${value}" isn't a number`
+      if (rule.type === 'integer' && !Number.isInteger(value)) return `${rule.column} ${value} isn't a whole number`
+      if ((rule.min !== undefined && value < rule.min) || (rule.max !== undefined && value > rule.max)) {
+        return `${rule.column} ${value} is out of range`
+      }
+      return null
+    case 'email':
+      return typeof value === 'string' && EMAIL_PATTERN.test(value) ? null : `email "${value}" isn't a valid address`
+    case 'date':
+      return typeof value === 'string' && ISO_DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value))
+        ? null
+        : `order_date "${value}" isn't a YYYY-MM-DD date`
+    default:
+      return typeof value === 'string' && value.trim() !== '' ? null : `${rule.column} is blank`
+  }
+}
+
+// ==================== STAGES ====================
+
+export type StageCategory = 'ingest' | 'clean' | 'transform' | 'validate' | 'load'
+
+export type StageId =
+  | 'ingest'
+  | 'fix-types'
+  | 'remove-duplicates'
+  | 'fill-missing'
+  | 'drop-incomplete'
+  | 'standardise-text'
+  | 'cap-outliers'
+  | 'validate'
+  | 'load'
+
+export interface StageDefinition {
+  label: string
+  icon: string
+  color: string
+  category: StageCategory
+  description: string
+}
+
+export const PIPELINE_STAGES: Record<StageId, StageDefinition> = {
+  ingest: {
+    label: 'Ingest CSV', icon: '📥', color: 'bg-blue-500', category: 'ingest',
+    description: 'Read the raw file into rows',
+  },
+  'fix-types': {
+    label: 'Fix Types', icon: '🔢', color: 'bg-purple-500', category: 'clean',
+    description: 'Turn text like "$12.50", "three" or 03/15/2024 into numbers and dates',
+  },
+  'remove-duplicates': {
+    label: 'Remove Duplicates', icon: '👯', color: 'bg-purple-500', category: 'clean',
+    description: 'Drop rows identical to an earlier row',
+  },
+  'fill-missing': {
+    label: 'Fill Missing', icon: '🩹', color: 'bg-purple-500', category: 'clean',
+    description: 'Fill empty numbers with the column median and empty names with "Unknown"',
+  },
+  'drop-incomplete': {
+    label: 'Drop Incomplete', icon: '🗑️', color: 'bg-purple-500', category: 'clean',
+    description: 'Drop every row with an empty cell',
+  },
+  'standardise-text': {
+    label: 'Standardise Text', icon: '🔤', color: 'bg-pink-500', category: 'transform',
+    description: 'Trim spaces, lowercase emails, capitalise names',
+  },
+  'cap-outliers': {
+    label: 'Fix Outliers', icon: '📐', color: 'bg-pink-500', category: 'transform',
+    description: 'Replace numbers outside the allowed range with the column median',
+  },
+  validate: {
+    label: 'Validate', icon: '✅', color: 'bg-orange-500', category: 'validate',
+    description: 'Quarantine rows that break the schema',
+  },
+  load: {
+    label: 'Load', icon: '🏛️', color: 'bg-green-500', category: 'load',
+    description: 'Write the rows to the warehouse',
+  },
+}
+
+export interface StageDiff {
+  removed: { line: number; reason: string }[]
+  changed: { line: number; column: string; before: PipelineCell; after: PipelineCell }[]
+}
+
+export interface StageRun {
+  stage: StageId
+  rows: PipelineRow[]
+  diff: StageDiff
+  /** Things the learner should know, e.g. a stage that couldn't do its job yet */
+  notes: string[]
+}
+
+const WORD_NUMBERS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+}
+
+function coerceNumber(value: PipelineCell): PipelineCell {
+  if (value === null || typeof value === 'number') return value
+  const text = value.trim().toLowerCase()
+  if (text in WORD_NUMBERS) return WORD_NUMBERS[text]
+  // "$12.50", "12,50" (decimal comma) and "1 200" all count as numbers
+  const cleaned = text.replace(/[$€£\s]/g, '').replace(/^(-?\d+),(\d{1,2})$/, '$1.$2')
+  const number = Number(cleaned)
+  return cleaned !== '' && !Number.isNaN(number) ? number : null
+}
+
+function coerceDate(value: PipelineCell): PipelineCell {
+  if (value === null) return null
+  const text = String(value).trim()
+  if (ISO_DATE_PATTERN.test(text)) return text
+  const usDate = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+  if (usDate) return `${usDate[3]}-${usDate[1].padStart(2, '0')}-${usDate[2].padStart(2, '0')}`
+  return null
+}
+
+function titleCase(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase().replace(/\b\p{L}/gu, letter => letter.toUpperCase())
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+function inRange(value: number, rule: ColumnRule): boolean {
+  return (rule.min === undefined || value >= rule.min) && (rule.max === undefined || value <= rule.max)
+}
+
+/**
+ * Rewrite cells with `update`, recording every change
+ * Text that only becomes the number it already spelled ("7" → 7) is counted, not listed
+ */
+function mapCells(rows: PipelineRow[], update: (value: PipelineCell, rule: ColumnRule) => PipelineCell): { rows: PipelineRow[]; diff: StageDiff; converted: number } {
+  const diff: StageDiff = { removed: [], changed: [] }
+  let converted = 0
+  const next = rows.map(row => {
+    const values = { ...row.values }
+    ORDER_SCHEMA.forEach(rule => {
+      const before = row.values[rule.column] ?? null
+      const after = update(before, rule)
+      if (after === before) return
+      values[rule.column] = after
+      if (typeof before === 'string' && typeof after === 'number' && Number(before) === after) converted++
+      else diff.changed.push({ line: row.line, column: rule.column, before, after })
+    })
+    return { line: row.line, values }
+  })
+  return { rows: next, diff, converted }
+}
+
+/**
+ * Keep rows for which `problem` returns null, recording why the rest went
+ */
+function dropRows(rows: PipelineRow[], problem: (row: PipelineRow, index: number) => string | null): { rows: PipelineRow[]; diff: StageDiff } {
+  const diff: StageDiff = { removed: [], changed: [] }
+  const kept = rows.filter((row, index) => {
+    const reason = problem(row, index)
+    if (reason) diff.removed.push({ line: row.line, reason })
+    return !reason
+  })
+  return { rows: kept, diff }
+}
+
+/**
+ * Medians of the in-range numeric values of each numeric column
+ */
+function columnMedians(rows: PipelineRow[]): Record<string, number | null> {
+  return Object.fromEntries(ORDER_SCHEMA
+    .filter(rule => rule.type === 'integer' || rule.type === 'number')
+    .map(rule => {
+      const values = rows.map(row => row.values[rule.column]).filter((value): value is number => typeof value === 'number' && inRange(value, rule))
+      const middle = median(values)
+      return [rule.column, middle === null ? null : rule.type === 'integer' ? Math.round(middle) : Math.round(middle * 100) / 100]
+    }))
+}
+
+function textColumnNote(rows: PipelineRow[], stage: string): string[] {
+  const textNumbers = ORDER_SCHEMA
+    .filter(rule => (rule.type === 'integer' || rule.type === 'number') && rows.some(row => typeof row.values[rule.column] === 'string'))
+    .map(rule => rule.column)
+  return textNumbers.length > 0
+    ? [`${textNumbers.join(', ')} still hold text, so ${stage} skipped those values. Fix Types first.`]
+    : []
+}
+
+function runStage(stage: StageId, rows: PipelineRow[], rawCSV: string): StageRun {
+  switch (stage) {
+    case 'ingest': {
+      const [header, ...lines] = parseCSV(rawCSV)
+      const ingested = lines.map((line, index) => ({
+        line: index + 1,
+        values: Object.fromEntries(header.map((column, i) => [column, line[i]?.trim() === '' || line[i] === undefined ? null : line[i]])),
+      }))
+      return { stage, rows: ingested, diff: { removed: [], changed: [] }, notes: [`Read ${ingested.length} rows`] }
+    }
+
+    case 'fix-types': {
+      const result = mapCells(rows, (value, rule) =>
+        rule.type === 'integer' || rule.type === 'number' ? coerceNumber(value) : rule.type === 'date' ? coerceDate(value) : value
+      )
+      const unreadable = result.diff.changed.filter(change => change.after === null).length
+      const notes = [`Converted ${result.converted} plain text value(s) to numbers`]
+      if (unreadable > 0) notes.push(`${unreadable} value(s) couldn't be read and are now empty`)
+      return { stage, rows: result.rows, diff: result.diff, notes }
+    }
+
+    case 'remove-duplicates': {
+      const seen = new Map<string, number>()
+      const result = dropRows(rows, row => {
+        const key = JSON.stringify(COLUMNS.map(column => row.values[column]))
+        const original = seen.get(key)
+        if (original !== undefined) return `duplicate of row ${original}`
+        seen.set(key, row.line)
+        return null
+      })
+      return { stage, ...result, notes: [] }
+    }
+
+    case 'fill-missing': {
+      const medians = columnMedians(rows)
+      const result = mapCells(rows, (value, rule) => {
+        if (value !== null) return value
+        if (rule.type === 'integer' || rule.type === 'number') return medians[rule.column] ?? null
+        return rule.type === 'string' ? 'Unknown' : null
+      })
+      return { stage, rows: result.rows, diff: result.diff, notes: textColumnNote(rows, 'the median') }
+    }
+
+    case 'drop-incomplete': {
+      const result = dropRows(rows, row => {
+        const empty = COLUMNS.filter(column => row.values[column] === null)
+        return empty.length > 0 ? `missing ${empty.join(', ')}` : null
+      })
+      return { stage, ...result, notes: [] }
+    }
+
+    case 'standardise-text': {
+      const result = mapCells(rows, (value, rule) => {
+        if (typeof value !== 'string') return value
+        if (rule.type === 'email') return value.trim().toLowerCase()
+        if (rule.type === 'string') return titleCase(value)
+        return value
+      })
+      return { stage, rows: result.rows, diff: result.diff, notes: [] }
+    }
+
+    case 'cap-outliers': {
+      const medians = columnMedians(rows)
+      const result = mapCells(rows, (value, rule) =>
+        typeof value === 'number' && !inRange(value, rule) ? medians[rule.column] ?? value : value
+      )
+      return { stage, rows: result.rows, diff: result.diff, notes: textColumnNote(rows, 'the range check') }
+    }
+
+    case 'validate': {
+      const result = dropRows(rows, row => {
+        const problems = ORDER_SCHEMA
+          .map(rule => row.values[rule.column] === null ? `missing ${rule.column}` : cellProblem(row.values[rule.column], rule))
+          .filter(Boolean)
+        return problems.length > 0 ? problems.join('; ') : null
+      })
+      return { stage, ...result, notes: result.diff.removed.length > 0 ? [`Quarantined ${result.diff.removed.length} row(s)`] : [] }
+    }
+
+    case 'load':
+      return { stage, rows, diff: { removed: [], changed: [] }, notes: [`Loaded ${rows.length} rows`] }
+  }
+}
+
+/**
+ * Check stage order, then run every stage in turn
+ * @returns Each stage's output and diff, or the first ordering problem
+ */
+export function runDataPipeline(stages: StageId[], rawCSV: string): { runs: StageRun[]; error: { index: number; message: string } | null } {
+  if (stages.length === 0 || stages[0] !== 'ingest') {
+    return { runs: [], error: { index: 0, message: 'Every pipeline starts by ingesting the raw file.' } }
+  }
+  const repeated = stages.findIndex((stage, index) => stages.indexOf(stage) !== index)
+  if (repeated !== -1) {
+    return { runs: [], error: { index: repeated, message: `${PIPELINE_STAGES[stages[repeated]].label} is already in the pipeline.` } }
+  }
+  const loadIndex = stages.indexOf('load')
+  if (loadIndex === -1) {
+    return { runs: [], error: { index: stages.length - 1, message: 'Finish with Load, or the cleaned data never reaches the warehouse.' } }
+  }
+  if (loadIndex !== stages.length - 1) {
+    return { runs: [], error: { index: loadIndex + 1, message: 'Nothing can run after Load; the data has already been written.' } }
+  }
+
+  const runs: StageRun[] = []
+  let rows: PipelineRow[] = []
+  stages.forEach(stage => {
+    const run = runStage(stage, rows, rawCSV)
+    runs.push(run)
+    rows = run.rows
+  })
+  return { runs, error: null }
+}
+
+// ==================== QUALITY ====================
+
+export interface QualityReport {
+  /** Share of cells that aren't empty */
+  completeness: number
+  /** Share of rows with an order_id no other row has */
+  uniqueness: number
+  /** Share of filled cells that follow the schema */
+  validity: number
+  /** Share of genuine orders that made it through */
+  retention: number
+  /** Average of the four, 0-100 */
+  score: number
+}
+
+export function measureQuality(rows: PipelineRow[], orderIds: number[]): QualityReport {
+  if (rows.length === 0) {
+    return { completeness: 0, uniqueness: 0, validity: 0, retention: 0, score: 0 }
+  }
+
+  const cells = rows.flatMap(row => ORDER_SCHEMA.map(rule => ({ value: row.values[rule.column] ?? null, rule })))
+  const filled = cells.filter(cell => cell.value !== null)
+  const completeness = filled.length / cells.length
+  const validity = filled.length === 0 ? 0 : filled.filter(cell => cellProblem(cell.value, cell.rule) === null).length / filled.length
+
+  const ids = rows.map(row => row.values.order_id)
+  const counts = new Map<PipelineCell, number>()
+  ids.forEach(id => counts.set(id, (counts.get(id) ?? 0) + 1))
+  const uniqueness = ids.filter(id => id !== null && counts.get(id) === 1).length / rows.length
+
+  const kept = new Set(ids.map(id => coerceNumber(id)))
+  const retention = orderIds.filter(id => kept.has(id)).length / orderIds.length
+
+  const score = Math.round(((completeness + uniqueness + validity + retention) / 4) * 100)
+  return { completeness, uniqueness, validity, retention, score }
+}
@@ -0,0 +1,291 @@
+/**
+ * Design Checks
+ * Measured accessibility, type-scale and spacing checks for a mock card,
+ * and generated card designs that break some of them
+ */
+
+import type { Difficulty } from './gameConstants'
+import { getContrastColor, getContrastRatio, mixHexColors } from './colorUtils'
+import { createRandom } from './neuralNetwork'
+
+// ==================== CARD DESIGN ====================
+
+export type FontChoice = 'sans' | 'serif' | 'mono' | 'script'
+
+export const FONT_STACKS: Record<FontChoice, { label: string; css: string }> = {
+  sans: { label: 'Sans-serif', css: 'ui-sans-serif, system-ui, sans-serif' },
+  serif: { label: 'Serif', css: 'Georgia, "Times New Roman", serif' },
+  mono: { label: 'Monospace', css: 'ui-monospace, Menlo, monospace' },
+  script: { label: 'Script', css: '"Brush Script MT", "Comic Sans MS", cursive' },
+}
+
+export interface CardDesign {
+  background: string
+  text: string
+  muted: string
+  accent: string
+  buttonText: string
+  /** Font sizes in px, largest first */
+  titleSize: number
+  subtitleSize: number
+  bodySize: number
+  captionSize: number
+  titleBold: boolean
+  headingFont: FontChoice
+  bodyFont: FontChoice
+  /** Spacing in px */
+  padding: number
+  gap: number
+  buttonPadding: number
+}
+
+export type CardColorRole = 'background' | 'text' | 'muted' | 'accent' | 'buttonText'
+
+export const CARD_COLOR_ROLES: Record<CardColorRole, string> = {
+  background: 'Card background',
+  text: 'Title & body text',
+  muted: 'Caption text',
+  accent: 'Button colour',
+  buttonText: 'Button label',
+}
+
+// ==================== CHECKS ====================
+
+export type DesignCheckId =
+  | 'title-aa'
+  | 'body-aa'
+  | 'body-aaa'
+  | 'muted-aa'
+  | 'button-aa'
+  | 'ui-contrast'
+  | 'body-size'
+  | 'type-scale'
+  | 'readable-font'
+  | 'spacing-grid'
+  | 'spacing-order'
+
+export type DesignCheckGroup = 'WCAG AA' | 'WCAG AAA' | 'Typography' | 'Spacing'
+
+export interface DesignCheckResult {
+  id: DesignCheckId
+  label: string
+  group: DesignCheckGroup
+  /** What was measured, e.g. "3.2:1" */
+  measured: string
+  /** What passing needs, e.g. "4.5:1" */
+  required: string
+  passed: boolean
+}
+
+export const SPACING_UNIT = 4
+const MIN_BODY_SIZE = 16
+const MIN_SCALE_RATIO = 1.125
+const SCALE_TOLERANCE = 0.1
+
+/**
+ * WCAG "large text": at least 24px, or 18.66px (14pt) when bold
+ */
+export function isLargeText(size: number, bold: boolean): boolean {
+  return size >= 24 || (bold && size >= 18.66)
+}
+
+function ratioText(ratio: number): string {
+  return `${(Math.floor(ratio * 100) / 100).toFixed(2)}:1`
+}
+
+function contrastCheck(id: DesignCheckId, label: string, group: DesignCheckGroup, foreground: string, background: string, minimum: number): DesignCheckResult {
+  const ratio = getContrastRatio(foreground, background)
+  return { id, label, group, measured: ratioText(ratio), required: `${minimum}:1`, passed: ratio >= minimum }
+}
+
+/**
+ * Ratios between neighbouring sizes of the type scale, largest first
+ */
+export function typeScaleRatios(design: CardDesign): number[] {
+  const sizes = [design.titleSize, design.subtitleSize, design.bodySize, design.captionSize]
+  return sizes.slice(1).map((size, index) => sizes[index] / size)
+}
+
+export function runDesignCheck(id: DesignCheckId, design: CardDesign): DesignCheckResult {
+  switch (id) {
+    case 'title-aa': {
+      const large = isLargeText(design.titleSize, design.titleBold)
+      return contrastCheck(id, `Title contrast (${large ? 'large' : 'normal'} text)`, 'WCAG AA', design.text, design.background, large ? 3 : 4.5)
+    }
+    case 'body-aa':
+      return contrastCheck(id, 'Body text contrast', 'WCAG AA', design.text, design.background, isLargeText(design.bodySize, false) ? 3 : 4.5)
+    case 'body-aaa':
+      return contrastCheck(id, 'Body text enhanced contrast', 'WCAG AAA', design.text, design.background, isLargeText(design.bodySize, false) ? 4.5 : 7)
+    case 'muted-aa':
+      return contrastCheck(id, 'Caption contrast', 'WCAG AA', design.muted, design.background, isLargeText(design.captionSize, false) ? 3 : 4.5)
+    case 'button-aa':
+      return contrastCheck(id, 'Button label contrast', 'WCAG AA', design.buttonText, design.accent, isLargeText(design.bodySize, true) ? 3 : 4.5)
+    case 'ui-contrast':
+      return contrastCheck(id, 'Button stands out from the card', 'WCAG AA', design.accent, design.background, 3)
+    case 'body-size':
+      return {
+        id, label: 'Body text size', group: 'Typography',
+        measured: `${design.bodySize}px`, required: `≥ ${MIN_BODY_SIZE}px`, passed: design.bodySize >= MIN_BODY_SIZE,
+      }
+    case 'type-scale': {
+      // A scale steps by one ratio: every neighbouring pair should be close to the average step
+      const ratios = typeScaleRatios(design)
+      const average = Math.pow(ratios.reduce((product, ratio) => product * ratio, 1), 1 / ratios.length)
+      const consistent = ratios.every(ratio => Math.abs(ratio - average) / average <= SCALE_TOLERANCE)
+      return {
+        id, label: 'Consistent type scale', group: 'Typography',
+        measured: ratios.map(ratio => `×${ratio.toFixed(2)}`).join(' '),
+        required: `steps ≥ ×${MIN_SCALE_RATIO} within ${SCALE_TOLERANCE * 100}% of each other`,
+        passed: consistent && ratios.every(ratio => ratio >= MIN_SCALE_RATIO),
+      }
+    }
+    case 'readable-font':
+      return {
+        id, label: 'Readable body font', group: 'Typography',
+        measured: FONT_STACKS[design.bodyFont].label, required: 'not a script font', passed: design.bodyFont !== 'script',
+      }
+    case 'spacing-grid': {
+      const values = [design.padding, design.gap, design.buttonPadding]
+      const offGrid = values.filter(value => value % SPACING_UNIT !== 0)
+      return {
+        id, label: `Spacing on a ${SPACING_UNIT}px grid`, group: 'Spacing',
+        measured: offGrid.length === 0 ? 'all on grid' : `${offGrid.join('px, ')}px off grid`,
+        required: `multiples of ${SPACING_UNIT}px`, passed: offGrid.length === 0,
+      }
+    }
+    case 'spacing-order':
+      return {
+        id, label: 'Outer padding ≥ gap between items', group: 'Spacing',
+        measured: `${design.padding}px / ${design.gap}px`, required: 'padding ≥ gap', passed: design.padding >= design.gap,
+      }
+  }
+}
+
+export function runDesignChecks(ids: DesignCheckId[], design: CardDesign): DesignCheckResult[] {
+  return ids.map(id => runDesignCheck(id, design))
+}
+
+export interface ContrastRow {
+  label: string
+  ratio: number
+  aa: boolean
+  /** Null where WCAG has no AAA level, as for non-text contrast */
+  aaa: boolean | null
+}
+
+/**
+ * AA and AAA results for every colour pair on the card, whether or not a level checks them
+ */
+export function contrastSummary(design: CardDesign): ContrastRow[] {
+  const textRow = (label: string, foreground: string, background: string, large: boolean): ContrastRow => {
+    const ratio = getContrastRatio(foreground, background)
+    return { label, ratio, aa: ratio >= (large ? 3 : 4.5), aaa: ratio >= (large ? 4.5 : 7) }
+  }
+  const uiRatio = getContrastRatio(design.accent, design.background)
+  return [
+    textRow('Title', design.text, design.background, isLargeText(design.titleSize, design.titleBold)),
+    textRow('Body', design.text, design.background, isLargeText(design.bodySize, false)),
+    textRow('Caption', design.muted, design.background, isLargeText(design.captionSize, false)),
+    textRow('Button label', design.buttonText, design.accent, isLargeText(design.bodySize, true)),
+    { label: 'Button vs card', ratio: uiRatio, aa: uiRatio >= 3, aaa: null },
+  ]
+}
+
+/**
+ * A one-line nudge towards fixing a failed check
+ */
+export function suggestFix(id: DesignCheckId, design: CardDesign): string {
+  switch (id) {
+    case 'title-aa':
+    case 'body-aa':
+    case 'body-aaa':
+      return `Try ${getContrastColor(design.background)} for the text; it has the most contrast against ${design.background}.`
+    case 'muted-aa':
+      return 'Captions can be softer than body text, but not that soft. Darken or lighten them away from the background.'
+    case 'button-aa':
+      return `Try ${getContrastColor(design.accent)} for the button label on ${design.accent}.`
+    case 'ui-contrast':
+      return 'The button blends into the card. Pick a button colour much darker or lighter than the background.'
+    case 'body-size':
+      return `Body text under ${MIN_BODY_SIZE}px is hard to read on phones.`
+    case 'type-scale':
+      return 'Multiply by one ratio: with a 1.25 scale and 16px body, try 12 / 16 / 20 / 25.'
+    case 'readable-font':
+      return 'Script fonts are fine for a logo, not for paragraphs. Use sans-serif or serif for body text.'
+    case 'spacing-grid':
+      return `Round every spacing value to a multiple of ${SPACING_UNIT}px, e.g. 8, 12, 16, 24.`
+    case 'spacing-order':
+      return 'Items inside the card should sit closer to each other than to the card edge.'
+  }
+}
+
+// ==================== CHALLENGES ====================
+
+export interface DesignChallenge {
+  brief: { title: string; subtitle: string; body: string; caption: string; button: string }
+  design: CardDesign
+  checks: DesignCheckId[]
+}
+
+export const CHALLENGE_CHECKS: Record<Difficulty, DesignCheckId[]> = {
+  easy: ['title-aa', 'body-aa', 'button-aa', 'ui-contrast'],
+  medium: ['title-aa', 'body-aa', 'muted-aa', 'button-aa', 'ui-contrast', 'body-size', 'type-scale', 'readable-font'],
+  hard: ['title-aa', 'body-aaa', 'muted-aa', 'button-aa', 'ui-contrast', 'body-size', 'type-scale', 'readable-font', 'spacing-grid', 'spacing-order'],
+}
+
+const BRIEFS: DesignChallenge['brief'][] = [
+  { title: 'Summer Gig', subtitle: 'Saturday · 8pm', body: 'Three bands, one rooftop and the best sunset in town.', caption: 'Doors open 7pm', button: 'Get Tickets' },
+  { title: 'Pro Plan', subtitle: '£9 per month', body: 'Unlimited projects, priority support and team sharing.', caption: 'Cancel anytime', button: 'Upgrade' },
+  { title: 'Maya Chen', subtitle: 'Product Designer', body: 'Designs friendly apps for learning and fitness.', caption: 'Based in Leeds', button: 'Follow' },
+  { title: 'Tomato Soup', subtitle: '25 minutes', body: 'A cosy, smoky soup with roasted tomatoes and basil.', caption: 'Serves four', button: 'View Recipe' },
+  { title: 'Trail Run', subtitle: '10 km · Hilly', body: 'A forest loop with two climbs and a riverside finish.', caption: 'Updated today', button: 'Start Route' },
+]
+
+const BACKGROUNDS = ['#FDF6E3', '#F1F5F9', '#FFF1F2', '#ECFDF5', '#1E293B', '#312E81', '#0F172A']
+const ACCENTS = ['#F97316', '#22C55E', '#3B82F6', '#EC4899', '#EAB308', '#A855F7', '#14B8A6']
+
+/**
+ * A card whose colours (and, on harder levels, type and spacing) fail some checks
+ */
+export function generateDesignChallenge(difficulty: Difficulty, seed: number): DesignChallenge {
+  const random = createRandom(seed)
+  const pick = <T,>(items: T[]) => items[Math.floor(random() * items.length)]
+  const background = pick(BACKGROUNDS)
+  const ideal = getContrastColor(background)
+  const accent = pick(ACCENTS)
+
+  const design: CardDesign = {
+    background,
+    // Text drifts towards the background until it's hard to read
+    text: mixHexColors(ideal, background, 0.55 + random() * 0.15),
+    muted: mixHexColors(ideal, background, 0.65 + random() * 0.15),
+    accent: mixHexColors(accent, background, 0.3 + random() * 0.2),
+    buttonText: mixHexColors(getContrastColor(accent), accent, 0.5),
+    titleSize: 28,
+    subtitleSize: 22,
+    bodySize: 18,
+    captionSize: 14,
+    titleBold: true,
+    headingFont: 'sans',
+    bodyFont: 'sans',
+    padding: 24,
+    gap: 12,
+    buttonPadding: 12,
+  }
+
+  if (difficulty !== 'easy') {
+    design.titleSize = pick([18, 20, 22])
+    design.subtitleSize = pick([20, 22])
+    design.bodySize = pick([12, 13, 14])
+    design.captionSize = 12
+    design.bodyFont = pick<FontChoice>(['script', 'sans', 'serif'])
+  }
+  if (difficulty === 'hard') {
+    design.padding = pick([10, 13, 14])
+    design.gap = pick([18, 22])
+    design.buttonPadding = pick([7, 9, 11])
+    design.bodyFont = 'script'
+  }
+
+  return { brief: pick(BRIEFS), design, checks: CHALLENGE_CHECKS[difficulty] }
+}
@@ -0,0 +1,39 @@
+import { spawnSync } from 'child_process'
+import { mkdtempSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { afterAll, describe, expect, it } from 'vitest'
+import { diagnosticsToMarkers, parseDiagnostics } from './diagnostics'
+
+const jobDir = mkdtempSync(path.join(tmpdir(), 'diagnostics-'))
+
+afterAll(() => {
+  rmSync(jobDir, { recursive: true, force: true })
+})
+
+/**
+ * Runs a program as main.js under the current Node and returns what it wrote to stderr
+ */
+function nodeStderr(code: string): string {
+  const file = path.join(jobDir, 'main.js')
+  writeFileSync(file, code)
+  return spawnSync(process.execPath, [file], { encoding: 'utf8' }).stderr
+}
+
+describe('parseDiagnostics for Node', () => {
+  it('locates a plain Error thrown by the program', () => {
+    const stderr = nodeStderr("const total = 1\nthrow new Error('boom')\n")
+    const [diagnostic, ...rest] = parseDiagnostics(stderr, 'javascript')
+
+    expect(rest).toEqual([])
+    expect(diagnostic).toMatchObject({ file: 'main.js', line: 2, column: 7, severity: 'error', message: 'Error: boom' })
+    expect(diagnosticsToMarkers([diagnostic])).toHaveLength(1)
+  })
+
+  it('locates named errors such as TypeError', () => {
+    const stderr = nodeStderr('const user = undefined\n\nconsole.log(user.name)\n')
+    expect(parseDiagnostics(stderr, 'javascript')).toEqual([
+      expect.objectContaining({ file: 'main.js', line: 3, message: expect.stringMatching(/^TypeError: /) }),
+    ])
+  })
+})
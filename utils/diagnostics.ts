@@ -0,0 +1,447 @@
+/**
+ * Execution Diagnostics
+ * Parses compiler and runtime stderr from every executable language into structured
+ * diagnostics (file, line, column, severity, message and hint) that editors mark inline
+ */
+
+import { getErrorHints } from './errorHints'
+import type { EditorMarker } from './codeEditor'
+
+// ==================== TYPES ====================
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info'
+
+export interface ExecutionDiagnostic {
+  /** File name as reported, without the sandbox directory (e.g. main.py, Main.java) */
+  file: string
+  /** 1-based line */
+  line: number
+  /** 1-based column, when the compiler or runtime reports one */
+  column?: number
+  severity: DiagnosticSeverity
+  message: string
+  /** Beginner-friendly explanation from ERROR_HINTS, or the compiler's own help */
+  hint?: string
+}
+
+/**
+ * A located message before hints are attached
+ */
+interface ParsedDiagnostic extends Omit<ExecutionDiagnostic, 'hint'> {
+  /** Text matched against ERROR_HINTS, in the shape the hint patterns expect */
+  hintText: string
+  /** Help the compiler printed itself, used when no hint matches */
+  help?: string
+}
+
+type StderrParser = (lines: string[], sourceLines: string[]) => ParsedDiagnostic[]
+
+// ==================== HELPERS ====================
+
+/**
+ * Strips the job directory, e.g. /piston/jobs/1f2e/main.py or ./main.go to main.py / main.go
+ */
+function baseName(path: string): string {
+  return path.trim().split(/[\\/]/).pop() || path
+}
+
+/**
+ * Whether a reported file is the learner's own program rather than a library or runtime file
+ */
+export function isSourceFile(file: string): boolean {
+  return /^main\.\w+$/i.test(file)
+}
+
+function severityOf(label: string | undefined): DiagnosticSeverity {
+  if (!label) return 'error'
+  if (/warning|notice|deprecated/i.test(label)) return 'warning'
+  if (/note|help|info/i.test(label)) return 'info'
+  return 'error'
+}
+
+/**
+ * Column of a caret line (`    ^` or `~~^~~`) printed under a quoted source line, 1-based
+ */
+function caretColumn(line: string | undefined): number | undefined {
+  if (!line || !/^\s*[~^]+\s*$/.test(line)) return undefined
+  return line.search(/[~^]/) + 1
+}
+
+// ==================== COMPILER MESSAGES ====================
+
+/** file:line[:column]: [severity:] message (gcc, clang, javac, kotlinc, swiftc, go, Python warnings) */
+const COMPILER_LINE = /^(\S+?):(\d+)(?::(\d+))?: (?:(fatal error|error|warning|note): )?(.*)$/
+
+/** file(line,column): severity CODE: message (tsc, mcs) */
+const PAREN_LINE = /^(\S+?)\((\d+),(\d+)\): (error|warning) ((?:TS|CS)\d+: .*)$/
+
+const parseCompilerLines: StderrParser = lines => {
+  const diagnostics: ParsedDiagnostic[] = []
+
+  lines.forEach((text, index) => {
+    const match = text.match(COMPILER_LINE)
+    if (!match) return
+    const [, file, line, column, label, message] = match
+    const diagnostic: ParsedDiagnostic = {
+      file: baseName(file),
+      line: Number(line),
+      column: column ? Number(column) : caretColumn(lines[index + 2]),
+      severity: label ? severityOf(label) : severityOf(message.match(/^\w*Warning(?=:)/)?.[0]),
+      message,
+      hintText: label ? `${label}: ${message}` : message,
+    }
+
+    // javac explains unresolved names on indented lines after the caret
+    const details = lines.slice(index + 1, index + 6).filter(detail => /^\s+(symbol|location):/.test(detail))
+    if (details.length > 0) diagnostic.message += ` (${details.map(detail => detail.trim().replace(/\s+/g, ' ')).join(', ')})`
+
+    diagnostics.push(diagnostic)
+  })
+
+  return diagnostics
+}
+
+const parseParenLines: StderrParser = lines => lines.flatMap(text => {
+  const match = text.match(PAREN_LINE)
+  if (!match) return []
+  const [, file, line, column, label, message] = match
+  return [{
+    file: baseName(file),
+    line: Number(line),
+    column: Number(column),
+    severity: severityOf(label),
+    message: message.replace(/^(TS|CS)\d+: /, ''),
+    hintText: `${label} ${message}`,
+  }]
+})
+
+// ==================== PYTHON ====================
+
+const PYTHON_FRAME = /^\s*File "(.+?)", line (\d+)/
+const PYTHON_EXCEPTION = /^([A-Za-z_][\w.]*)(?:: (.*))?$/
+
+/**
+ * The innermost frame of the learner's file in the last traceback, with the exception raised there.
+ * Python strips indentation from quoted lines and indents them by four spaces, so caret columns
+ * are shifted back onto the original source line.
+ */
+const parsePythonTraceback: StderrParser = (lines, sourceLines) => {
+  const start = lines.map(text => text.startsWith('Traceback')).lastIndexOf(true)
+  const frames: { file: string; line: number; index: number }[] = []
+  lines.forEach((text, index) => {
+    const match = index > start && text.match(PYTHON_FRAME)
+    if (match) frames.push({ file: baseName(match[1]), line: Number(match[2]), index })
+  })
+  if (frames.length === 0) return []
+
+  const exceptionLine = [...lines].reverse().find(text => PYTHON_EXCEPTION.test(text))
+  if (!exceptionLine) return []
+  const [, name, detail] = exceptionLine.match(PYTHON_EXCEPTION) as RegExpMatchArray
+
+  const frame = [...frames].reverse().find(candidate => isSourceFile(candidate.file)) || frames[frames.length - 1]
+  const caret = caretColumn(lines[frame.index + 2])
+  const indent = sourceLines[frame.line - 1]?.match(/^\s*/)?.[0].length ?? 0
+
+  return [{
+    file: frame.file,
+    line: frame.line,
+    column: caret ? Math.max(1, caret - 4 + indent) : undefined,
+    severity: 'error',
+    message: detail ? `${name}: ${detail}` : name,
+    hintText: exceptionLine,
+  }]
+}
+
+// ==================== JAVASCRIPT ====================
+
+const NODE_LOCATION_HEADER = /^(\S+\.[cm]?[jt]s):(\d+)$/
+const NODE_FRAME = /^\s+at (?:.*? \()?(.+?):(\d+):(\d+)\)?$/
+const NODE_ERROR = /^(?:Uncaught )?((?:[A-Za-z_$][\w$]*)?(?:Error|Exception))(?:: (.*))?$/
+
+/**
+ * An uncaught error, located by the first stack frame in the learner's file or else by Node's
+ * `file:line` header (syntax errors). Frames come first because source maps apply to them but
+ * not to the header, which points into compiled TypeScript.
+ */
+const parseNodeError: StderrParser = lines => {
+  const errorLine = lines.find(text => NODE_ERROR.test(text))
+  if (!errorLine) return []
+
+  const frames = lines.flatMap(text => {
+    const match = text.match(NODE_FRAME)
+    if (!match || /^(node:|internal\/)/.test(match[1])) return []
+    return [{ file: baseName(match[1]), line: Number(match[2]), column: Number(match[3]) }]
+  })
+  let location: { file: string; line: number; column?: number } | undefined = frames.find(frame => isSourceFile(frame.file))
+  const headerIndex = lines.findIndex(text => NODE_LOCATION_HEADER.test(text))
+  if (!location && headerIndex !== -1) {
+    const [, file, line] = lines[headerIndex].match(NODE_LOCATION_HEADER) as RegExpMatchArray
+    location = { file: baseName(file), line: Number(line), column: caretColumn(lines[headerIndex + 2]) }
+  }
+  location = location || frames[0]
+  if (!location) return []
+
+  return [{ ...location, severity: 'error', message: errorLine.replace(/^Uncaught /, ''), hintText: errorLine }]
+}
+
+// ==================== JVM AND .NET ====================
+
+const JVM_EXCEPTION = /^Exception in thread "[^"]*" ([\w.$]+)(?:: (.*))?$/
+const JVM_FRAME = /^\s+at .*\((\S+\.(?:java|kt)):(\d+)\)$/
+
+const parseJvmException: StderrParser = lines => {
+  const exceptionIndex = lines.findIndex(text => JVM_EXCEPTION.test(text))
+  if (exceptionIndex === -1) return []
+  const [, name, detail] = lines[exceptionIndex].match(JVM_EXCEPTION) as RegExpMatchArray
+
+  const frames = lines.slice(exceptionIndex + 1).flatMap(text => {
+    const match = text.match(JVM_FRAME)
+    return match ? [{ file: match[1], line: Number(match[2]) }] : []
+  })
+  const frame = frames.find(candidate => isSourceFile(candidate.file)) || frames[0]
+  if (!frame) return []
+
+  const simpleName = name.split('.').pop() as string
+  return [{
+    ...frame,
+    severity: 'error',
+    message: detail ? `${simpleName}: ${detail}` : simpleName,
+    hintText: lines[exceptionIndex],
+  }]
+}
+
+const DOTNET_EXCEPTION = /^(?:Unhandled Exception:\s*|\[ERROR\] FATAL UNHANDLED EXCEPTION: )?(System\.[\w.]*Exception)(?:: (.*))?$/
+const DOTNET_FRAME = /^\s+at .* in (\S+\.cs):(\d+)\s*$/
+
+/**
+ * Unhandled exceptions only carry a line when the program was compiled with debug symbols
+ */
+const parseDotNetException: StderrParser = lines => {
+  const exceptionLine = lines.find(text => DOTNET_EXCEPTION.test(text))
+  const frame = lines.map(text => text.match(DOTNET_FRAME)).find(Boolean)
+  if (!exceptionLine || !frame) return []
+  const [, name, detail] = exceptionLine.match(DOTNET_EXCEPTION) as RegExpMatchArray
+  const simpleName = name.split('.').pop() as string
+
+  return [{
+    file: baseName(frame[1]),
+    line: Number(frame[2]),
+    severity: 'error',
+    message: detail ? `${simpleName}: ${detail}` : simpleName,
+    hintText: exceptionLine,
+  }]
+}
+
+// ==================== GO, RUST AND SWIFT RUNTIME ERRORS ====================
+
+const GO_PANIC = /^(panic|fatal error): (.*)$/
+const GO_FRAME = /^\t(\S+\.go):(\d+)(?: \+0x[0-9a-f]+)?$/
+
+const parseGoPanic: StderrParser = lines => {
+  const panicIndex = lines.findIndex(text => GO_PANIC.test(text))
+  if (panicIndex === -1) return []
+
+  const frames = lines.slice(panicIndex + 1).flatMap(text => {
+    const match = text.match(GO_FRAME)
+    return match ? [{ file: baseName(match[1]), line: Number(match[2]) }] : []
+  })
+  const frame = frames.find(candidate => isSourceFile(candidate.file))
+  if (!frame) return []
+
+  const [, , message] = lines[panicIndex].match(GO_PANIC) as RegExpMatchArray
+  return [{ ...frame, severity: 'error', message, hintText: lines[panicIndex] }]
+}
+
+const RUST_HEADER = /^(error|warning)(\[E\d+\])?: (.*)$/
+const RUST_LOCATION = /^\s*--> (\S+?):(\d+):(\d+)$/
+const RUST_HELP = /^\s*(?:= )?help: (.*)$/
+const RUST_PANIC = /^thread '[^']*' panicked at (?:'(.*)', )?(\S+?):(\d+):(\d+):?$/
+
+/**
+ * rustc prints a header, then the primary location on a `-->` line and any help below it.
+ * Summary lines ("aborting due to previous error") have no location and are dropped.
+ */
+const parseRustMessages: StderrParser = lines => {
+  const diagnostics: ParsedDiagnostic[] = []
+  let header: RegExpMatchArray | null = null
+
+  lines.forEach((text, index) => {
+    const headerMatch = text.match(RUST_HEADER)
+    if (headerMatch) {
+      header = headerMatch
+      return
+    }
+
+    const location = text.match(RUST_LOCATION)
+    if (location && header) {
+      const [, label, code = '', message] = header
+      diagnostics.push({
+        file: baseName(location[1]),
+        line: Number(location[2]),
+        column: Number(location[3]),
+        severity: severityOf(label),
+        message,
+        hintText: `${label}${code}: ${message}`,
+      })
+      header = null
+      return
+    }
+
+    const help = text.match(RUST_HELP)
+    const last = diagnostics[diagnostics.length - 1]
+    if (help && last && !last.help) last.help = help[1]
+
+    const panic = text.match(RUST_PANIC)
+    if (panic) {
+      // Rust 1.73+ prints the panic message on the following line
+      const message = panic[1] ?? lines[index + 1] ?? 'panicked'
+      diagnostics.push({
+        file: baseName(panic[2]),
+        line: Number(panic[3]),
+        column: Number(panic[4]),
+        severity: 'error',
+        message: `panicked: ${message}`,
+        hintText: message,
+      })
+    }
+  })
+
+  return diagnostics
+}
+
+const SWIFT_FATAL = /^(?:(\S+\.swift):(\d+): )?Fatal error: (.*?)(?:: file (\S+\.swift), line (\d+))?$/
+
+const parseSwiftFatalError: StderrParser = lines => lines.flatMap(text => {
+  const match = text.match(SWIFT_FATAL)
+  const file = match?.[1] || match?.[4]
+  const line = match?.[2] || match?.[5]
+  if (!match || !file || !line) return []
+  return [{ file: baseName(file), line: Number(line), severity: 'error', message: `Fatal error: ${match[3]}`, hintText: text }]
+})
+
+// ==================== SCRIPTING LANGUAGES ====================
+
+const RUBY_LINE = /^(\S+\.rb):(\d+):(?:in [`'][^']*': )?(.*?)(?: \(([\w:]+)\))?$/
+
+/**
+ * `main.rb:3:in '<main>': undefined method 'x' for nil (NoMethodError)`, reshaped to
+ * `NoMethodError: undefined method ...` so it reads like the other languages and matches the hints
+ */
+const parseRubyMessages: StderrParser = lines => lines.flatMap(text => {
+  const match = text.match(RUBY_LINE)
+  if (!match) return []
+  const [, file, line, detail, className] = match
+  const isWarning = detail.startsWith('warning: ')
+  const message = className
+    ? `${className}: ${detail}`
+    : detail.replace(/^syntax error, /, 'SyntaxError: ').replace(/^warning: /, '')
+
+  return [{
+    file: baseName(file),
+    line: Number(line),
+    severity: isWarning ? 'warning' : 'error',
+    message,
+    hintText: message,
+  }]
+})
+
+const PHP_LINE = /^(?:PHP )?(Parse error|Fatal error|Warning|Notice|Deprecated):\s+(.*) in (\S+?)(?: on line |:)(\d+)$/
+
+const parsePhpMessages: StderrParser = lines => lines.flatMap(text => {
+  const match = text.match(PHP_LINE)
+  if (!match) return []
+  const [, label, message, file, line] = match
+  return [{
+    file: baseName(file),
+    line: Number(line),
+    severity: severityOf(label),
+    message: message.replace(/^Uncaught /, ''),
+    hintText: `${label}: ${message}`,
+  }]
+})
+
+const R_LOCATION = /(\S+\.[rR]):(\d+):(\d+): (.*)$/
+
+const parseRMessages: StderrParser = lines => lines.flatMap(text => {
+  const match = text.match(R_LOCATION)
+  if (!match) return []
+  const [, file, line, column, message] = match
+  return [{ file: baseName(file), line: Number(line), column: Number(column), severity: 'error', message, hintText: text }]
+})
+
+const BASH_LINE = /^(\S+\.sh): line (\d+): (.*)$/
+
+const parseBashMessages: StderrParser = lines => lines.flatMap(text => {
+  const match = text.match(BASH_LINE)
+  if (!match) return []
+  const [, file, line, message] = match
+  return [{ file: baseName(file), line: Number(line), severity: 'error', message, hintText: message }]
+})
+
+// ==================== PARSERS BY RUNTIME ====================
+
+/**
+ * Stderr parsers for each runtime in LANGUAGE_EXECUTION_CONFIG.
+ * SQLite reports errors without a position, so SQL runs never produce diagnostics.
+ */
+const RUNTIME_PARSERS: Record<string, StderrParser[]> = {
+  javascript: [parseNodeError],
+  typescript: [parseParenLines, parseNodeError],
+  python: [parsePythonTraceback, parseCompilerLines],
+  java: [parseCompilerLines, parseJvmException],
+  kotlin: [parseCompilerLines, parseJvmException],
+  go: [parseCompilerLines, parseGoPanic],
+  rust: [parseRustMessages],
+  c: [parseCompilerLines],
+  cpp: [parseCompilerLines],
+  swift: [parseCompilerLines, parseSwiftFatalError],
+  csharp: [parseParenLines, parseDotNetException],
+  ruby: [parseRubyMessages],
+  php: [parsePhpMessages],
+  r: [parseRMessages],
+  bash: [parseBashMessages],
+  sqlite3: [],
+}
+
+/**
+ * Parses compiler or runtime stderr into diagnostics, each with a hint where one applies.
+ * Unknown runtimes fall back to the common `file:line:column: message` format.
+ * @param runtime - Runtime that produced the output (e.g. "python", "rust")
+ * @param source - The program that ran, used to place Python carets on indented lines
+ */
+export function parseDiagnostics(stderr: string, runtime: string, source: string = ''): ExecutionDiagnostic[] {
+  if (!stderr.trim()) return []
+
+  const lines = stderr.replace(/\r\n/g, '\n').split('\n')
+  const sourceLines = source.split('\n')
+  const parsers = RUNTIME_PARSERS[runtime] ?? [parseCompilerLines]
+  const seen = new Set<string>()
+
+  return parsers
+    .flatMap(parse => parse(lines, sourceLines))
+    .filter(diagnostic => {
+      const key = `${diagnostic.file}:${diagnostic.line}:${diagnostic.column ?? ''}:${diagnostic.message}`
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+    .map(({ hintText, help, ...diagnostic }) => {
+      const hints = getErrorHints(hintText, runtime)
+      const hint = hints ? [hints.hint, hints.suggestion].filter(Boolean).join(' ') : help
+      return hint ? { ...diagnostic, hint } : diagnostic
+    })
+}
+
+/**
+ * Editor markers for the diagnostics that point into the learner's program
+ */
+export function diagnosticsToMarkers(diagnostics: ExecutionDiagnostic[] = []): EditorMarker[] {
+  return diagnostics
+    .filter(diagnostic => isSourceFile(diagnostic.file))
+    .map(diagnostic => ({
+      line: diagnostic.line,
+      column: diagnostic.column,
+      severity: diagnostic.severity,
+      message: diagnostic.hint ? `${diagnostic.message}\n💡 ${diagnostic.hint}` : diagnostic.message,
+    }))
+}
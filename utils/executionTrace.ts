@@ -0,0 +1,136 @@
+/**
+ * Execution Trace
+ * Step-by-step recordings of a program run for the sandbox visualiser: the current line,
+ * call stack frames with their locals, and heap objects with the references between them
+ */
+
+// ==================== TRACE ====================
+
+/**
+ * A local variable or object entry: primitives are shown inline, objects by reference into the heap
+ */
+export type TraceValue =
+  | { kind: 'primitive'; display: string }
+  | { kind: 'ref'; id: number }
+
+export interface HeapEntry {
+  /** Property name, dict key or list index */
+  key: string
+  value: TraceValue
+}
+
+export interface HeapObject {
+  id: number
+  /** e.g. "list", "dict", "Array", "Person instance", "function greet(name)" */
+  label: string
+  /** Sequences show their entries as a row of cells; everything else as a key/value table */
+  layout: 'sequence' | 'mapping' | 'opaque'
+  entries: HeapEntry[]
+  /** Entries left out of the snapshot because the object is large */
+  truncated?: number
+}
+
+export interface TraceFrame {
+  name: string
+  /** Line the frame is paused on */
+  line: number
+  locals: { name: string; value: TraceValue }[]
+}
+
+/**
+ * step: about to run the line; call: entered a function; return: leaving one with a value;
+ * exception: an error was raised; finish: the program ended
+ */
+export type TraceEvent = 'step' | 'call' | 'return' | 'exception' | 'finish'
+
+export interface TraceStep {
+  line: number
+  event: TraceEvent
+  /** Outermost (global) frame first */
+  stack: TraceFrame[]
+  /** Every object reachable from the stack */
+  heap: HeapObject[]
+  /** How much of the trace output had been printed at this step */
+  outputLength: number
+  /** Value being returned, on return steps */
+  returnValue?: TraceValue
+  /** Error message, on exception steps */
+  message?: string
+}
+
+export interface ExecutionTrace {
+  steps: TraceStep[]
+  output: string
+  /** Uncaught error, syntax error or unsupported feature that ended the run */
+  error?: { message: string; line?: number }
+  /** Whether the step limit stopped the program before it finished */
+  truncated: boolean
+}
+
+// ==================== LIMITS ====================
+
+export const MAX_TRACE_STEPS = 1000
+export const MAX_HEAP_OBJECTS = 60
+export const MAX_HEAP_ENTRIES = 40
+const MAX_TRACE_OUTPUT = 20000
+
+/**
+ * Thrown by a tracer once the step limit is reached, ending the run
+ */
+export class StepLimitError extends Error {
+  constructor() {
+    super(`Stopped after ${MAX_TRACE_STEPS} steps - Visualise only shows the start of long-running programs.`)
+    this.name = 'StepLimitError'
+  }
+}
+
+/**
+ * Collects steps and output for one run. Tracers call `record` with a snapshot of the program
+ * state; once the limit is reached `record` throws StepLimitError.
+ */
+export class TraceRecorder {
+  steps: TraceStep[] = []
+  output = ''
+
+  get isFull(): boolean {
+    return this.steps.length >= MAX_TRACE_STEPS
+  }
+
+  record(step: Omit<TraceStep, 'outputLength'>) {
+    if (this.isFull) throw new StepLimitError()
+    this.steps.push({ ...step, outputLength: this.output.length })
+  }
+
+  /** Records the final state even when the limit has been reached */
+  finish(step: Omit<TraceStep, 'outputLength'>) {
+    this.steps.push({ ...step, outputLength: this.output.length })
+  }
+
+  write(text: string) {
+    if (this.output.length < MAX_TRACE_OUTPUT) this.output += text
+  }
+
+  toTrace(error?: { message: string; line?: number }): ExecutionTrace {
+    return { steps: this.steps, output: this.output, error, truncated: this.isFull }
+  }
+}
+
+// ==================== LANGUAGES ====================
+
+export type TraceLanguage = 'javascript' | 'python'
+
+const TRACE_LANGUAGES: Record<string, TraceLanguage> = {
+  javascript: 'javascript',
+  'javascript-games': 'javascript',
+  nodejs: 'javascript',
+  python: 'python',
+  'python-ml': 'python',
+  'python-backend': 'python',
+}
+
+/**
+ * Tracer for a technology language id, or null when Visualise isn't available for it
+ */
+export function getTraceLanguage(languageId: string): TraceLanguage | null {
+  return TRACE_LANGUAGES[languageId] ?? null
+}
@@ -67,6 +67,25 @@ export const GAME_XP_REWARDS = {
   STREAK_BONUS: 50,
 } as const
 
+/**
+ * XP rewards granted by the progress API for platform activities
+ */
+export const XP_REWARDS = {
+  TUTORIAL_COMPLETE: 100,
+  TUTORIAL_SECTION: 50,
+  GAME_WIN: 150,
+  GAME_COMPLETE_LEVEL: 75,
+  SANDBOX_EXECUTE: 25,
+  SANDBOX_COMPLETE: 100,
+  FIRST_TIME_BONUS: 200,
+  STREAK_BONUS: 50,
+} as const
+
+/**
+ * Largest XP reward a mini-project definition may grant
+ */
+export const MAX_PROJECT_XP = 500
+
 // ==================== GAME TIMING ====================
 
 /**
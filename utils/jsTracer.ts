@@ -0,0 +1,552 @@
+/**
+ * JavaScript Tracer
+ * Records a JavaScript run for the sandbox visualiser. The program is parsed with acorn and
+ * instrumented with calls into a recorder before every statement and around every function,
+ * then run in the browser, so it keeps real JavaScript semantics and works offline.
+ */
+
+import { parse, type AnyNode, type Function as FunctionNode, type Pattern, type Statement } from 'acorn'
+import {
+  MAX_HEAP_ENTRIES,
+  MAX_HEAP_OBJECTS,
+  MAX_TRACE_STEPS,
+  StepLimitError,
+  TraceRecorder,
+  type ExecutionTrace,
+  type HeapObject,
+  type TraceEvent,
+  type TraceValue,
+} from './executionTrace'
+
+// ==================== INSTRUMENTATION ====================
+
+/**
+ * Text inserted into the source. Each closer is added straight after its opener, so at the same
+ * offset openers go outermost first and closers innermost first, and wrappers nest correctly.
+ */
+interface Insertion {
+  at: number
+  text: string
+  kind: 'open' | 'close'
+  order: number
+}
+
+interface Scope {
+  /** Names visible in the current function at this point */
+  names: string[]
+  /** Whether `this` is shown as a local (class and object methods) */
+  hasThis: boolean
+}
+
+/** Runtime object and frame variable names used by the instrumented code */
+const RUNTIME = '__trace'
+const FRAME = '__frame'
+const ERROR = '__error'
+
+function isNode(value: unknown): value is AnyNode {
+  return typeof value === 'object' && value !== null && typeof (value as { type?: unknown }).type === 'string'
+}
+
+function childNodes(node: AnyNode): AnyNode[] {
+  return Object.values(node as unknown as Record<string, unknown>).flatMap(value => {
+    if (Array.isArray(value)) return value.filter(isNode)
+    return isNode(value) ? [value] : []
+  })
+}
+
+function lineOf(node: AnyNode | FunctionNode): number {
+  return node.loc?.start.line ?? 1
+}
+
+function patternNames(pattern: Pattern | null | undefined): string[] {
+  if (!pattern) return []
+  switch (pattern.type) {
+    case 'Identifier': return [pattern.name]
+    case 'ObjectPattern': return pattern.properties.flatMap(property =>
+      property.type === 'RestElement' ? patternNames(property.argument) : patternNames(property.value))
+    case 'ArrayPattern': return pattern.elements.flatMap(element => patternNames(element))
+    case 'RestElement': return patternNames(pattern.argument)
+    case 'AssignmentPattern': return patternNames(pattern.left)
+    default: return []
+  }
+}
+
+/**
+ * `var` names declared anywhere in a function body, without entering nested functions
+ */
+function varNames(node: AnyNode): string[] {
+  if (node.type === 'VariableDeclaration') {
+    const own = node.kind === 'var' ? node.declarations.flatMap(declaration => patternNames(declaration.id)) : []
+    return [...own, ...node.declarations.flatMap(declaration => (declaration.init ? varNames(declaration.init) : []))]
+  }
+  if (/Function/.test(node.type)) return []
+  return childNodes(node).flatMap(varNames)
+}
+
+/**
+ * Names a statement list declares for its own block: let, const, class and function declarations
+ */
+function blockNames(statements: AnyNode[]): string[] {
+  return statements.flatMap(statement => {
+    if (statement.type === 'VariableDeclaration' && statement.kind !== 'var') {
+      return statement.declarations.flatMap(declaration => patternNames(declaration.id))
+    }
+    if ((statement.type === 'FunctionDeclaration' || statement.type === 'ClassDeclaration') && statement.id) {
+      return [statement.id.name]
+    }
+    return []
+  })
+}
+
+function unique(names: string[]): string[] {
+  return [...new Set(names)]
+}
+
+function propertyName(key: AnyNode): string {
+  if (key.type === 'Identifier' || key.type === 'PrivateIdentifier') return key.name
+  if (key.type === 'Literal') return String(key.value)
+  return 'anonymous'
+}
+
+/**
+ * Inserts recorder calls into a parsed program and returns the instrumented source
+ */
+function instrument(code: string, program: AnyNode & { body: AnyNode[] }): string {
+  const insertions: Insertion[] = []
+  const insert = (at: number, text: string, kind: Insertion['kind']) => {
+    insertions.push({ at, text, kind, order: insertions.length })
+  }
+
+  const getters = (scope: Scope) => {
+    const pairs = scope.names.map(name => `[${JSON.stringify(name)}, () => ${name}]`)
+    if (scope.hasThis) pairs.unshift('["this", () => this]')
+    return `[${pairs.join(', ')}]`
+  }
+
+  const visitStatements = (statements: AnyNode[], scope: Scope) => {
+    const inner: Scope = { ...scope, names: unique([...scope.names, ...blockNames(statements)]) }
+    statements.forEach(statement => {
+      if (statement.type !== 'FunctionDeclaration') {
+        insert(statement.start, `${RUNTIME}.step(${lineOf(statement)}, ${getters(inner)});`, 'open')
+      }
+      visitStatement(statement, inner)
+    })
+  }
+
+  const visitBody = (body: AnyNode, scope: Scope, extraNames: string[] = [], isLoopBody = false) => {
+    const inner: Scope = { ...scope, names: unique([...scope.names, ...extraNames]) }
+    if (body.type === 'BlockStatement') {
+      // Empty loop bodies still count towards a limit, so `while (true) {}` ends
+      if (isLoopBody && body.body.length === 0) insert(body.start + 1, `${RUNTIME}.tick();`, 'open')
+      visitStatements(body.body, inner)
+      return
+    }
+    insert(body.start, '{', 'open')
+    insert(body.end, '}', 'close')
+    visitStatements([body], inner)
+  }
+
+  const visitStatement = (statement: AnyNode, scope: Scope) => {
+    switch (statement.type) {
+      case 'BlockStatement':
+        visitStatements(statement.body, scope)
+        return
+      case 'IfStatement':
+        visitExpression(statement.test, scope)
+        visitBody(statement.consequent, scope)
+        if (statement.alternate) visitBody(statement.alternate, scope)
+        return
+      case 'ForStatement': {
+        const loopNames = statement.init?.type === 'VariableDeclaration'
+          ? statement.init.declarations.flatMap(declaration => patternNames(declaration.id))
+          : []
+        if (statement.init) visitExpression(statement.init, scope)
+        if (statement.test) visitExpression(statement.test, scope)
+        if (statement.update) visitExpression(statement.update, scope)
+        visitBody(statement.body, scope, loopNames, true)
+        return
+      }
+      case 'ForInStatement':
+      case 'ForOfStatement': {
+        const loopNames = statement.left.type === 'VariableDeclaration'
+          ? statement.left.declarations.flatMap(declaration => patternNames(declaration.id))
+          : []
+        visitExpression(statement.right, scope)
+        visitBody(statement.body, scope, loopNames, true)
+        return
+      }
+      case 'WhileStatement':
+      case 'DoWhileStatement':
+        visitExpression(statement.test, scope)
+        visitBody(statement.body, scope, [], true)
+        return
+      case 'TryStatement':
+        visitStatements(statement.block.body, scope)
+        if (statement.handler) {
+          visitStatements(statement.handler.body.body, { ...scope, names: unique([...scope.names, ...patternNames(statement.handler.param)]) })
+        }
+        if (statement.finalizer) visitStatements(statement.finalizer.body, scope)
+        return
+      case 'SwitchStatement':
+        visitExpression(statement.discriminant, scope)
+        statement.cases.forEach(switchCase => {
+          if (switchCase.test) visitExpression(switchCase.test, scope)
+          visitStatements(switchCase.consequent, scope)
+        })
+        return
+      case 'LabeledStatement':
+        // Wrapping the body in a block would detach the label from its loop
+        visitStatement(statement.body, scope)
+        return
+      case 'ReturnStatement':
+        if (statement.argument) {
+          visitExpression(statement.argument, scope)
+          insert(statement.argument.start, `${RUNTIME}.ret(${FRAME}, `, 'open')
+          insert(statement.argument.end, ')', 'close')
+        } else {
+          insert(statement.start + 'return'.length, ` ${RUNTIME}.ret(${FRAME}, undefined)`, 'open')
+        }
+        return
+      case 'FunctionDeclaration':
+        visitFunction(statement, statement.id?.name ?? 'anonymous', false)
+        return
+      case 'ClassDeclaration':
+        visitClass(statement, statement.id?.name ?? 'anonymous', scope)
+        return
+      default:
+        childNodes(statement).forEach(child => visitExpression(child, scope))
+    }
+  }
+
+  /**
+   * Finds functions and classes inside an expression, naming them after what they're assigned to
+   */
+  const visitExpression = (node: AnyNode, scope: Scope, nameHint?: string) => {
+    switch (node.type) {
+      case 'FunctionExpression':
+      case 'ArrowFunctionExpression':
+        visitFunction(node, node.type === 'FunctionExpression' && node.id ? node.id.name : nameHint ?? 'anonymous', false)
+        return
+      case 'ClassExpression':
+        visitClass(node, node.id?.name ?? nameHint ?? 'anonymous', scope)
+        return
+      case 'VariableDeclarator':
+        if (node.init) visitExpression(node.init, scope, node.id.type === 'Identifier' ? node.id.name : undefined)
+        return
+      case 'AssignmentExpression':
+        visitExpression(node.left, scope)
+        visitExpression(node.right, scope, node.left.type === 'Identifier'
+          ? node.left.name
+          : node.left.type === 'MemberExpression' ? propertyName(node.left.property) : undefined)
+        return
+      case 'Property':
+        if (node.value.type === 'FunctionExpression' && (node.method || node.kind !== 'init')) {
+          visitFunction(node.value, propertyName(node.key), true)
+        } else {
+          visitExpression(node.value, scope, propertyName(node.key))
+        }
+        return
+      default:
+        childNodes(node).forEach(child => visitExpression(child, scope))
+    }
+  }
+
+  const visitClass = (node: AnyNode & { body: { body: AnyNode[] }; superClass?: AnyNode | null }, className: string, scope: Scope) => {
+    if (node.superClass) visitExpression(node.superClass, scope)
+    node.body.body.forEach(member => {
+      if (member.type === 'MethodDefinition') {
+        visitFunction(member.value, `${className}.${propertyName(member.key)}`, true)
+      } else if (member.type === 'PropertyDefinition' && member.value) {
+        visitExpression(member.value, scope, `${className}.${propertyName(member.key)}`)
+      }
+    })
+  }
+
+  /**
+   * Wraps a function body so entering, returning, throwing and leaving are recorded.
+   * Generators and async functions pause mid-body, which would leave their frames on the
+   * recorded stack, so they run untraced.
+   */
+  const visitFunction = (fn: FunctionNode, name: string, isMethod: boolean) => {
+    if (fn.generator || fn.async) return
+    const params = fn.params.flatMap(param => patternNames(param))
+    const scope: Scope = { names: unique([...params, ...varNames(fn.body)]), hasThis: isMethod }
+    const enter = `const ${FRAME} = ${RUNTIME}.enter(${JSON.stringify(name)}, ${lineOf(fn)}, ${getters({ names: params, hasThis: isMethod })}); try {`
+    const leave = `} catch (${ERROR}) { ${RUNTIME}.raise(${ERROR}); throw ${ERROR} } finally { ${RUNTIME}.exit(${FRAME}) }`
+    fn.params.forEach(param => visitExpression(param, scope))
+
+    if (fn.body.type === 'BlockStatement') {
+      insert(fn.body.start + 1, enter, 'open')
+      insert(fn.body.end - 1, leave, 'close')
+      visitStatements(fn.body.body, scope)
+    } else {
+      insert(fn.body.start, `{ ${enter} return ${RUNTIME}.ret(${FRAME}, `, 'open')
+      insert(fn.body.end, `) ${leave} }`, 'close')
+      visitExpression(fn.body, scope)
+    }
+  }
+
+  visitStatements(program.body, { names: unique(varNames(program)), hasThis: false })
+
+  const ordered = insertions
+    .filter(insertion => insertion.text)
+    .sort((a, b) => a.at - b.at ||
+      (a.kind === b.kind ? (a.kind === 'open' ? a.order - b.order : b.order - a.order) : a.kind === 'close' ? -1 : 1))
+
+  let output = ''
+  let position = 0
+  ordered.forEach(insertion => {
+    output += code.slice(position, insertion.at) + insertion.text
+    position = insertion.at
+  })
+  return output + code.slice(position)
+}
+
+// ==================== RUNTIME ====================
+
+type Getters = [string, () => unknown][]
+
+interface RuntimeFrame {
+  name: string
+  line: number
+  getters: Getters
+}
+
+/** Loop iterations without a statement (empty bodies) allowed per step */
+const MAX_TICKS = MAX_TRACE_STEPS * 100
+
+function displayPrimitive(value: unknown): string {
+  if (typeof value === 'string') return JSON.stringify(value)
+  if (typeof value === 'number') return Object.is(value, -0) ? '-0' : String(value)
+  if (typeof value === 'bigint') return `${value}n`
+  return String(value)
+}
+
+function isClass(value: unknown): boolean {
+  return typeof value === 'function' && /^class\b/.test(Function.prototype.toString.call(value))
+}
+
+/**
+ * The object called by instrumented code: tracks the call stack and records a snapshot per step
+ */
+class JavaScriptRuntime {
+  frames: RuntimeFrame[] = [{ name: 'Global', line: 1, getters: [] }]
+  private ids = new WeakMap<object, number>()
+  private nextId = 1
+  private raised = new WeakSet<object>()
+  private ticks = 0
+
+  constructor(private recorder: TraceRecorder) {}
+
+  step(line: number, getters: Getters) {
+    const frame = this.frames[this.frames.length - 1]
+    frame.line = line
+    frame.getters = getters
+    this.snapshot('step', line)
+  }
+
+  tick() {
+    if (++this.ticks > MAX_TICKS) throw new StepLimitError()
+  }
+
+  enter(name: string, line: number, getters: Getters): RuntimeFrame {
+    const frame = { name, line, getters }
+    this.frames.push(frame)
+    this.snapshot('call', line)
+    return frame
+  }
+
+  ret<T>(frame: RuntimeFrame, value: T): T {
+    this.snapshot('return', frame.line, value)
+    return value
+  }
+
+  exit(frame: RuntimeFrame) {
+    const index = this.frames.lastIndexOf(frame)
+    if (index > 0) this.frames.splice(index)
+  }
+
+  /** Records an exception once, where it was first thrown */
+  raise(error: unknown) {
+    if (error instanceof StepLimitError) return
+    if (typeof error === 'object' && error !== null) {
+      if (this.raised.has(error)) return
+      this.raised.add(error)
+    }
+    const frame = this.frames[this.frames.length - 1]
+    this.snapshot('exception', frame.line, undefined, describeError(error))
+  }
+
+  /** Records the final state, with the uncaught error that ended the run if there was one */
+  finish(error?: unknown) {
+    const frame = this.frames[this.frames.length - 1]
+    this.recorder.finish(this.buildStep('finish', frame.line, undefined, error === undefined ? undefined : describeError(error)))
+  }
+
+  private snapshot(event: TraceEvent, line: number, returnValue?: unknown, message?: string) {
+    this.recorder.record(this.buildStep(event, line, returnValue, message))
+  }
+
+  private buildStep(event: TraceEvent, line: number, returnValue?: unknown, message?: string) {
+    const heap: HeapObject[] = []
+    const pending: { id: number; value: object }[] = []
+    const queued = new Set<number>()
+
+    const encode = (value: unknown): TraceValue => {
+      if (value === null || (typeof value !== 'object' && typeof value !== 'function')) {
+        return { kind: 'primitive', display: displayPrimitive(value) }
+      }
+      let id = this.ids.get(value)
+      if (id === undefined) {
+        id = this.nextId++
+        this.ids.set(value, id)
+      }
+      if (!queued.has(id) && queued.size < MAX_HEAP_OBJECTS) {
+        queued.add(id)
+        pending.push({ id, value })
+      }
+      return { kind: 'ref', id }
+    }
+
+    const stack = this.frames.map(frame => ({
+      name: frame.name,
+      line: frame.line,
+      locals: frame.getters.flatMap(([name, getter]) => {
+        try {
+          return [{ name, value: encode(getter()) }]
+        } catch {
+          // Not initialised yet (let/const before their declaration)
+          return []
+        }
+      }),
+    }))
+    const encodedReturn = event === 'return' ? encode(returnValue) : undefined
+
+    while (pending.length > 0) {
+      const { id, value } = pending.shift() as { id: number; value: object }
+      heap.push(describeObject(id, value, encode))
+    }
+
+    return { line, event, stack, heap, returnValue: encodedReturn, message }
+  }
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof Error) return `${error.name}: ${error.message}`
+  return `Uncaught ${displayPrimitive(error)}`
+}
+
+function describeObject(id: number, value: object, encode: (value: unknown) => TraceValue): HeapObject {
+  const limit = <T>(items: T[]) => ({ items: items.slice(0, MAX_HEAP_ENTRIES), truncated: Math.max(0, items.length - MAX_HEAP_ENTRIES) || undefined })
+
+  if (typeof value === 'function') {
+    const name = value.name || 'anonymous'
+    return { id, label: isClass(value) ? `class ${name}` : `function ${name}`, layout: 'opaque', entries: [] }
+  }
+  if (Array.isArray(value)) {
+    const { items, truncated } = limit([...value.keys()])
+    return { id, label: 'Array', layout: 'sequence', entries: items.map(index => ({ key: String(index), value: encode(value[index]) })), truncated }
+  }
+  if (value instanceof Map) {
+    const { items, truncated } = limit([...value.entries()])
+    return {
+      id,
+      label: 'Map',
+      layout: 'mapping',
+      entries: items.map(([key, entry]) => {
+        const encodedKey = encode(key)
+        return { key: encodedKey.kind === 'primitive' ? encodedKey.display : `#${encodedKey.id}`, value: encode(entry) }
+      }),
+      truncated,
+    }
+  }
+  if (value instanceof Set) {
+    const { items, truncated } = limit([...value.values()])
+    return { id, label: 'Set', layout: 'sequence', entries: items.map((item, index) => ({ key: String(index), value: encode(item) })), truncated }
+  }
+  if (value instanceof Date) return { id, label: `Date ${isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString()}`, layout: 'opaque', entries: [] }
+  if (value instanceof RegExp) return { id, label: String(value), layout: 'opaque', entries: [] }
+  if (value instanceof Error) return { id, label: describeError(value), layout: 'opaque', entries: [] }
+
+  const prototype = Object.getPrototypeOf(value)
+  const constructorName = prototype?.constructor?.name
+  const label = !prototype || prototype === Object.prototype ? 'Object' : `${constructorName || 'Object'} instance`
+  const { items, truncated } = limit(Object.keys(value))
+  return {
+    id,
+    label,
+    layout: 'mapping',
+    entries: items.map(key => {
+      const descriptor = Object.getOwnPropertyDescriptor(value, key)
+      return {
+        key,
+        value: descriptor && 'value' in descriptor ? encode(descriptor.value) : { kind: 'primitive', display: '[getter]' },
+      }
+    }),
+    truncated,
+  }
+}
+
+// ==================== CONSOLE ====================
+
+/**
+ * Node-style formatting for console.log, e.g. [ 1, 2, 3 ] and { name: 'Alice' }
+ */
+function inspect(value: unknown, depth = 0, seen = new Set<object>()): string {
+  if (typeof value === 'string') return depth === 0 ? value : `'${value}'`
+  if (typeof value === 'function') return isClass(value) ? `[class ${value.name}]` : `[Function: ${value.name || 'anonymous'}]`
+  if (value === null || typeof value !== 'object') return displayPrimitive(value)
+  if (seen.has(value)) return '[Circular]'
+  if (depth > 2) return Array.isArray(value) ? '[Array]' : '[Object]'
+
+  const nested = new Set(seen).add(value)
+  const inner = (item: unknown) => inspect(item, depth + 1, nested)
+  const wrap = (open: string, items: string[], close: string) => (items.length === 0 ? `${open}${close}` : `${open} ${items.join(', ')} ${close}`)
+
+  if (Array.isArray(value)) return wrap('[', value.map(inner), ']')
+  if (value instanceof Map) return `Map(${value.size}) ${wrap('{', [...value].map(([key, item]) => `${inner(key)} => ${inner(item)}`), '}')}`
+  if (value instanceof Set) return `Set(${value.size}) ${wrap('{', [...value].map(inner), '}')}`
+  if (value instanceof Error) return value.stack?.split('\n')[0] ?? `${value.name}: ${value.message}`
+  if (value instanceof Date) return value.toISOString()
+
+  const prototype = Object.getPrototypeOf(value)
+  const prefix = prototype && prototype !== Object.prototype && prototype.constructor?.name ? `${prototype.constructor.name} ` : ''
+  const entries = Object.keys(value).map(key => `${/^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key}'`}: ${inner((value as Record<string, unknown>)[key])}`)
+  return prefix + wrap('{', entries, '}')
+}
+
+function createConsole(recorder: TraceRecorder) {
+  const log = (...args: unknown[]) => recorder.write(`${args.map(arg => inspect(arg)).join(' ')}\n`)
+  return { log, info: log, warn: log, error: log, debug: log, table: log }
+}
+
+// ==================== ENTRY POINT ====================
+
+/**
+ * Runs a JavaScript program with instrumentation and returns every recorded step.
+ * Only the synchronous part of the program is traced; timers and promises run untraced.
+ */
+export function traceJavaScript(code: string): ExecutionTrace {
+  const recorder = new TraceRecorder()
+
+  let program
+  try {
+    program = parse(code, { ecmaVersion: 'latest', sourceType: 'script', locations: true })
+  } catch (error) {
+    const line = (error as { loc?: { line: number } }).loc?.line
+    return recorder.toTrace({ message: error instanceof Error ? `SyntaxError: ${error.message}` : 'SyntaxError', line })
+  }
+
+  const runtime = new JavaScriptRuntime(recorder)
+  try {
+    const run = new Function(RUNTIME, 'console', instrument(code, program as AnyNode & { body: Statement[] })) as (runtime: JavaScriptRuntime, console: unknown) => void
+    run(runtime, createConsole(recorder))
+    runtime.finish()
+    return recorder.toTrace()
+  } catch (error) {
+    if (error instanceof StepLimitError) return { ...recorder.toTrace({ message: error.message }), truncated: true }
+    if (!recorder.isFull) runtime.raise(error)
+    runtime.finish(error)
+    return recorder.toTrace({ message: describeError(error), line: runtime.frames[runtime.frames.length - 1].line })
+  }
+}
@@ -0,0 +1,773 @@
+// @generated by scripts/build-projects.mjs from content/projects. Do not edit by hand.
+// Checked in so type-checking and next build work without a build step; run `npm run projects` to regenerate.
+import type { MiniProject } from './miniProjects'
+
+export const GENERATED_MINI_PROJECTS: MiniProject[] = [
+  {
+    "id": "calculator",
+    "title": "Build a Calculator",
+    "description": "Create a working calculator with HTML, CSS, and JavaScript that can add, subtract, multiply, and divide.",
+    "difficulty": "beginner",
+    "estimatedTime": "30 min",
+    "languages": [
+      "html",
+      "css",
+      "javascript"
+    ],
+    "icon": "🧮",
+    "color": "from-blue-500 to-cyan-500",
+    "files": [
+      {
+        "id": "html",
+        "name": "index.html",
+        "language": "html",
+        "starterCode": "<!DOCTYPE html>\n<html lang=\"en\">\n<head>\n  <meta charset=\"UTF-8\">\n  <meta name=\"viewport\" content=\"width=device-width, initial-scale=1.0\">\n  <title>Calculator</title>\n  <link rel=\"stylesheet\" href=\"styles.css\">\n</head>\n<body>\n  <div class=\"calculator\">\n    <!-- Add your calculator display here -->\n\n    <!-- Add your calculator buttons here -->\n\n  </div>\n  <script src=\"script.js\"></script>\n</body>\n</html>\n",
+        "solution": "<!DOCTYPE html>\n<html lang=\"en\">\n<head>\n  <meta charset=\"UTF-8\">\n  <meta name=\"viewport\" content=\"width=device-width, initial-scale=1.0\">\n  <title>Calculator</title>\n  <link rel=\"stylesheet\" href=\"styles.css\">\n</head>\n<body>\n  <div class=\"calculator\">\n    <div class=\"display\" id=\"display\">0</div>\n    <div class=\"buttons\">\n      <button onclick=\"clearDisplay()\">C</button>\n      <button onclick=\"appendNumber('7')\">7</button>\n      <button onclick=\"appendNumber('8')\">8</button>\n      <button onclick=\"appendNumber('9')\">9</button>\n      <button onclick=\"setOperator('/')\">/</button>\n      <button onclick=\"appendNumber('4')\">4</button>\n      <button onclick=\"appendNumber('5')\">5</button>\n      <button onclick=\"appendNumber('6')\">6</button>\n      <button onclick=\"setOperator('*')\">*</button>\n      <button onclick=\"appendNumber('1')\">1</button>\n      <button onclick=\"appendNumber('2')\">2</button>\n      <button onclick=\"appendNumber('3')\">3</button>\n      <button onclick=\"setOperator('-')\">-</button>\n      <button onclick=\"appendNumber('0')\">0</button>\n      <button onclick=\"appendNumber('.')\">.</button>\n      <button onclick=\"calculate()\">=</button>\n      <button onclick=\"setOperator('+')\">+</button>\n    </div>\n  </div>\n  <script src=\"script.js\"></script>\n</body>\n</html>\n"
+      },
+      {
+        "id": "css",
+        "name": "styles.css",
+        "language": "css",
+        "starterCode": "/* Style your calculator here */\n.calculator {\n  /* Add styles */\n}\n\n.display {\n  /* Add styles */\n}\n\n.buttons {\n  /* Add styles */\n}\n\nbutton {\n  /* Add styles */\n}\n",
+        "solution": ".calculator {\n  width: 300px;\n  margin: 50px auto;\n  background: #333;\n  border-radius: 10px;\n  padding: 20px;\n  box-shadow: 0 10px 30px rgba(0,0,0,0.3);\n}\n\n.display {\n  background: #222;\n  color: #0f0;\n  font-size: 2rem;\n  padding: 20px;\n  text-align: right;\n  border-radius: 5px;\n  margin-bottom: 20px;\n  font-family: monospace;\n}\n\n.buttons {\n  display: grid;\n  grid-template-columns: repeat(4, 1fr);\n  gap: 10px;\n}\n\nbutton {\n  padding: 20px;\n  font-size: 1.2rem;\n  border: none;\n  border-radius: 5px;\n  background: #555;\n  color: white;\n  cursor: pointer;\n  transition: background 0.2s;\n}\n\nbutton:hover {\n  background: #666;\n}\n\nbutton:active {\n  background: #777;\n}\n"
+      },
+      {
+        "id": "javascript",
+        "name": "script.js",
+        "language": "javascript",
+        "starterCode": "// Calculator logic\nlet currentNumber = '0';\nlet previousNumber = '';\nlet operator = null;\n\nfunction updateDisplay() {\n  // Update the display element\n}\n\nfunction appendNumber(num) {\n  // Add number to current input\n}\n\nfunction setOperator(op) {\n  // Set the operator for calculation\n}\n\nfunction calculate() {\n  // Perform the calculation\n}\n\nfunction clearDisplay() {\n  // Reset the calculator\n}\n",
+        "solution": "let currentNumber = '0';\nlet previousNumber = '';\nlet operator = null;\n\nfunction updateDisplay() {\n  document.getElementById('display').textContent = currentNumber;\n}\n\nfunction appendNumber(num) {\n  if (currentNumber === '0' && num !== '.') {\n    currentNumber = num;\n  } else {\n    currentNumber += num;\n  }\n  updateDisplay();\n}\n\nfunction setOperator(op) {\n  if (operator !== null) {\n    calculate();\n  }\n  previousNumber = currentNumber;\n  currentNumber = '0';\n  operator = op;\n}\n\nfunction calculate() {\n  if (operator === null || previousNumber === '') return;\n\n  const prev = parseFloat(previousNumber);\n  const curr = parseFloat(currentNumber);\n  let result;\n\n  switch(operator) {\n    case '+': result = prev + curr; break;\n    case '-': result = prev - curr; break;\n    case '*': result = prev * curr; break;\n    case '/': result = prev / curr; break;\n  }\n\n  currentNumber = result.toString();\n  previousNumber = '';\n  operator = null;\n  updateDisplay();\n}\n\nfunction clearDisplay() {\n  currentNumber = '0';\n  previousNumber = '';\n  operator = null;\n  updateDisplay();\n}\n"
+      }
+    ],
+    "steps": [
+      {
+        "id": 1,
+        "title": "Create the Display",
+        "description": "Add a display div to show the calculator numbers",
+        "hint": "Use a div with id=\"display\" inside the calculator div",
+        "targetFileId": "html",
+        "checks": [
+          {
+            "type": "element",
+            "description": "A display element with id=\"display\" inside .calculator",
+            "selector": ".calculator #display"
+          }
+        ]
+      },
+      {
+        "id": 2,
+        "title": "Add Number Buttons",
+        "description": "Add buttons for numbers 0-9",
+        "hint": "Create button elements with onclick handlers",
+        "targetFileId": "html",
+        "checks": [
+          {
+            "type": "element",
+            "description": "At least 10 calculator buttons with onclick handlers",
+            "selector": ".calculator button",
+            "attribute": "onclick",
+            "minCount": 10
+          },
+          {
+            "type": "element",
+            "description": "A button calls appendNumber",
+            "selector": "button[onclick*=\"appendNumber\"]"
+          }
+        ]
+      },
+      {
+        "id": 3,
+        "title": "Style the Calculator",
+        "description": "Make it look nice with CSS grid and colors",
+        "hint": "Use display: grid for the button layout",
+        "targetFileId": "css",
+        "checks": [
+          {
+            "type": "style",
+            "description": ".buttons uses a CSS grid layout",
+            "selector": ".buttons",
+            "property": "display",
+            "equals": "grid"
+          },
+          {
+            "type": "style",
+            "description": ".calculator has a background color",
+            "selector": ".calculator",
+            "property": "background-color",
+            "notEquals": "rgba(0, 0, 0, 0)"
+          }
+        ]
+      },
+      {
+        "id": 4,
+        "title": "Implement appendNumber",
+        "description": "Write the function to add digits to the display",
+        "hint": "Concatenate the new digit to currentNumber",
+        "targetFileId": "javascript",
+        "checks": [
+          {
+            "type": "function",
+            "description": "appendNumber(\"7\") then appendNumber(\"3\") shows 73",
+            "name": "appendNumber",
+            "calls": [
+              [
+                "appendNumber",
+                "7"
+              ],
+              [
+                "appendNumber",
+                "3"
+              ]
+            ],
+            "expect": [
+              {
+                "selector": "#display",
+                "text": "73"
+              }
+            ]
+          }
+        ]
+      },
+      {
+        "id": 5,
+        "title": "Implement calculate",
+        "description": "Write setOperator and calculate to perform calculations",
+        "hint": "setOperator stores the first number and operator; calculate uses a switch statement for each operator",
+        "targetFileId": "javascript",
+        "checks": [
+          {
+            "type": "function",
+            "description": "6 * 7 = shows 42",
+            "name": "calculate",
+            "calls": [
+              [
+                "appendNumber",
+                "6"
+              ],
+              [
+                "setOperator",
+                "*"
+              ],
+              [
+                "appendNumber",
+                "7"
+              ],
+              [
+                "calculate"
+              ]
+            ],
+            "expect": [
+              {
+                "selector": "#display",
+                "text": "42"
+              }
+            ]
+          },
+          {
+            "type": "function",
+            "description": "9 - 4 = shows 5",
+            "name": "calculate",
+            "calls": [
+              [
+                "clearDisplay"
+              ],
+              [
+                "appendNumber",
+                "9"
+              ],
+              [
+                "setOperator",
+                "-"
+              ],
+              [
+                "appendNumber",
+                "4"
+              ],
+              [
+                "calculate"
+              ]
+            ],
+            "expect": [
+              {
+                "selector": "#display",
+                "text": "5"
+              }
+            ]
+          }
+        ]
+      }
+    ],
+    "xpReward": 300
+  },
+  {
+    "id": "todo-list",
+    "title": "Create a Todo List",
+    "description": "Build a todo list app where you can add, complete, and delete tasks.",
+    "difficulty": "beginner",
+    "estimatedTime": "25 min",
+    "languages": [
+      "html",
+      "css",
+      "javascript"
+    ],
+    "icon": "✅",
+    "color": "from-green-500 to-emerald-500",
+    "files": [
+      {
+        "id": "html",
+        "name": "index.html",
+        "language": "html",
+        "starterCode": "<!DOCTYPE html>\n<html lang=\"en\">\n<head>\n  <meta charset=\"UTF-8\">\n  <title>Todo List</title>\n  <link rel=\"stylesheet\" href=\"styles.css\">\n</head>\n<body>\n  <div class=\"container\">\n    <h1>My Todo List</h1>\n\n    <!-- Add input and button for new todos -->\n\n    <!-- Add list to display todos -->\n\n  </div>\n  <script src=\"script.js\"></script>\n</body>\n</html>\n",
+        "solution": "<!DOCTYPE html>\n<html lang=\"en\">\n<head>\n  <meta charset=\"UTF-8\">\n  <title>Todo List</title>\n  <link rel=\"stylesheet\" href=\"styles.css\">\n</head>\n<body>\n  <div class=\"container\">\n    <h1>My Todo List</h1>\n    <div class=\"input-container\">\n      <input type=\"text\" id=\"todoInput\" placeholder=\"Add a new task...\">\n      <button onclick=\"addTodo()\">Add</button>\n    </div>\n    <ul id=\"todoList\"></ul>\n  </div>\n  <script src=\"script.js\"></script>\n</body>\n</html>\n"
+      },
+      {
+        "id": "css",
+        "name": "styles.css",
+        "language": "css",
+        "starterCode": "body {\n  font-family: Arial, sans-serif;\n  background: #f5f5f5;\n}\n\n.container {\n  /* Style the container */\n}\n\n/* Add more styles */\n",
+        "solution": "body {\n  font-family: Arial, sans-serif;\n  background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);\n  min-height: 100vh;\n  margin: 0;\n  padding: 20px;\n}\n\n.container {\n  max-width: 500px;\n  margin: 0 auto;\n  background: white;\n  border-radius: 10px;\n  padding: 30px;\n  box-shadow: 0 10px 30px rgba(0,0,0,0.2);\n}\n\nh1 {\n  text-align: center;\n  color: #333;\n}\n\n.input-container {\n  display: flex;\n  gap: 10px;\n  margin-bottom: 20px;\n}\n\ninput {\n  flex: 1;\n  padding: 12px;\n  border: 2px solid #ddd;\n  border-radius: 5px;\n  font-size: 16px;\n}\n\nbutton {\n  padding: 12px 24px;\n  background: #667eea;\n  color: white;\n  border: none;\n  border-radius: 5px;\n  cursor: pointer;\n}\n\nul {\n  list-style: none;\n  padding: 0;\n}\n\nli {\n  display: flex;\n  align-items: center;\n  padding: 15px;\n  background: #f8f9fa;\n  margin-bottom: 10px;\n  border-radius: 5px;\n}\n\nli.completed span {\n  text-decoration: line-through;\n  color: #888;\n}\n\nli span {\n  flex: 1;\n}\n\n.delete-btn {\n  background: #e74c3c;\n  padding: 5px 10px;\n}\n"
+      },
+      {
+        "id": "javascript",
+        "name": "script.js",
+        "language": "javascript",
+        "starterCode": "// Todo list functionality\nlet todos = [];\n\nfunction addTodo() {\n  // Get input and add to list\n}\n\nfunction toggleTodo(index) {\n  // Mark todo as complete/incomplete\n}\n\nfunction deleteTodo(index) {\n  // Remove todo from list\n}\n\nfunction renderTodos() {\n  // Update the display\n}\n",
+        "solution": "let todos = [];\n\nfunction addTodo() {\n  const input = document.getElementById('todoInput');\n  const text = input.value.trim();\n\n  if (text) {\n    todos.push({ text, completed: false });\n    input.value = '';\n    renderTodos();\n  }\n}\n\nfunction toggleTodo(index) {\n  todos[index].completed = !todos[index].completed;\n  renderTodos();\n}\n\nfunction deleteTodo(index) {\n  todos.splice(index, 1);\n  renderTodos();\n}\n\nfunction renderTodos() {\n  const list = document.getElementById('todoList');\n  list.innerHTML = todos.map((todo, index) => `\n    <li class=\"${todo.completed ? 'completed' : ''}\">\n      <input type=\"checkbox\" ${todo.completed ? 'checked' : ''}\n             onchange=\"toggleTodo(${index})\">\n      <span>${todo.text}</span>\n      <button class=\"delete-btn\" onclick=\"deleteTodo(${index})\">Delete</button>\n    </li>\n  `).join('');\n}\n\n// Allow Enter key to add todos\ndocument.addEventListener('DOMContentLoaded', () => {\n  document.getElementById('todoInput').addEventListener('keypress', (e) => {\n    if (e.key === 'Enter') addTodo();\n  });\n});\n"
+      }
+    ],
+    "steps": [
+      {
+        "id": 1,
+        "title": "Add Input Field",
+        "description": "Create an input field for new todos",
+        "hint": "Use input type=\"text\" with an id",
+        "targetFileId": "html",
+        "checks": [
+          {
+            "type": "element",
+            "description": "An input with id=\"todoInput\"",
+            "selector": "input#todoInput"
+          }
+        ]
+      },
+      {
+        "id": 2,
+        "title": "Add Todo List Container",
+        "description": "Add a ul element to display todos",
+        "hint": "Use ul with id=\"todoList\"",
+        "targetFileId": "html",
+        "checks": [
+          {
+            "type": "element",
+            "description": "A list with id=\"todoList\"",
+            "selector": "ul#todoList"
+          }
+        ]
+      },
+      {
+        "id": 3,
+        "title": "Style the Input",
+        "description": "Make the input and button look nice",
+        "hint": "Wrap the input and button in a flex container and give the input flex: 1",
+        "targetFileId": "css",
+        "checks": [
+          {
+            "type": "style",
+            "description": "The input stretches to fill its row (flex: 1)",
+            "selector": "#todoInput",
+            "property": "flex-grow",
+            "notEquals": "0"
+          },
+          {
+            "type": "rule",
+            "description": "A CSS rule styles the input",
+            "selector": "input"
+          }
+        ]
+      },
+      {
+        "id": 4,
+        "title": "Implement addTodo",
+        "description": "Write the function to add new todos",
+        "hint": "Push to the todos array and call renderTodos",
+        "targetFileId": "javascript",
+        "checks": [
+          {
+            "type": "function",
+            "description": "addTodo() adds the typed task to #todoList",
+            "name": "addTodo",
+            "inputs": {
+              "#todoInput": "Buy milk"
+            },
+            "calls": [
+              [
+                "addTodo"
+              ]
+            ],
+            "expect": [
+              {
+                "selector": "#todoList li",
+                "text": "Buy milk"
+              }
+            ]
+          },
+          {
+            "type": "value",
+            "description": "The task is stored in the todos array",
+            "expression": "todos.length",
+            "equals": 1
+          }
+        ]
+      }
+    ],
+    "xpReward": 250
+  },
+  {
+    "id": "portfolio",
+    "title": "Personal Portfolio",
+    "description": "Create a beautiful personal portfolio page to showcase your work.",
+    "difficulty": "beginner",
+    "estimatedTime": "35 min",
+    "languages": [
+      "html",
+      "css"
+    ],
+    "icon": "🎨",
+    "color": "from-purple-500 to-pink-500",
+    "files": [
+      {
+        "id": "html",
+        "name": "index.html",
+        "language": "html",
+        "starterCode": "<!DOCTYPE html>\n<html lang=\"en\">\n<head>\n  <meta charset=\"UTF-8\">\n  <meta name=\"viewport\" content=\"width=device-width, initial-scale=1.0\">\n  <title>My Portfolio</title>\n  <link rel=\"stylesheet\" href=\"styles.css\">\n</head>\n<body>\n  <!-- Add navigation -->\n\n  <!-- Add hero section with your name -->\n\n  <!-- Add about section -->\n\n  <!-- Add projects section -->\n\n  <!-- Add contact section -->\n\n</body>\n</html>\n",
+        "solution": "<!DOCTYPE html>\n<html lang=\"en\">\n<head>\n  <meta charset=\"UTF-8\">\n  <meta name=\"viewport\" content=\"width=device-width, initial-scale=1.0\">\n  <title>My Portfolio</title>\n  <link rel=\"stylesheet\" href=\"styles.css\">\n</head>\n<body>\n  <nav>\n    <div class=\"logo\">MyPortfolio</div>\n    <ul>\n      <li><a href=\"#about\">About</a></li>\n      <li><a href=\"#projects\">Projects</a></li>\n      <li><a href=\"#contact\">Contact</a></li>\n    </ul>\n  </nav>\n\n  <section class=\"hero\">\n    <h1>Hi, I'm <span>Your Name</span></h1>\n    <p>A passionate developer creating amazing things</p>\n    <a href=\"#projects\" class=\"btn\">View My Work</a>\n  </section>\n\n  <section id=\"about\" class=\"about\">\n    <h2>About Me</h2>\n    <p>I'm a developer who loves building things for the web. I enjoy turning complex problems into simple, beautiful solutions.</p>\n  </section>\n\n  <section id=\"projects\" class=\"projects\">\n    <h2>My Projects</h2>\n    <div class=\"project-grid\">\n      <div class=\"project-card\">\n        <h3>Project 1</h3>\n        <p>Description of project</p>\n      </div>\n      <div class=\"project-card\">\n        <h3>Project 2</h3>\n        <p>Description of project</p>\n      </div>\n    </div>\n  </section>\n\n  <section id=\"contact\" class=\"contact\">\n    <h2>Get In Touch</h2>\n    <p>Feel free to reach out!</p>\n    <a href=\"mailto:email@example.com\" class=\"btn\">Email Me</a>\n  </section>\n</body>\n</html>\n"
+      },
+      {
+        "id": "css",
+        "name": "styles.css",
+        "language": "css",
+        "starterCode": "* {\n  margin: 0;\n  padding: 0;\n  box-sizing: border-box;\n}\n\nbody {\n  font-family: 'Segoe UI', sans-serif;\n}\n\n/* Add your styles */\n",
+        "solution": "* {\n  margin: 0;\n  padding: 0;\n  box-sizing: border-box;\n}\n\nbody {\n  font-family: 'Segoe UI', sans-serif;\n  line-height: 1.6;\n}\n\nnav {\n  display: flex;\n  justify-content: space-between;\n  align-items: center;\n  padding: 20px 50px;\n  background: #333;\n  color: white;\n  position: fixed;\n  width: 100%;\n  top: 0;\n  z-index: 100;\n}\n\nnav ul {\n  display: flex;\n  list-style: none;\n  gap: 30px;\n}\n\nnav a {\n  color: white;\n  text-decoration: none;\n}\n\n.hero {\n  height: 100vh;\n  display: flex;\n  flex-direction: column;\n  justify-content: center;\n  align-items: center;\n  background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);\n  color: white;\n  text-align: center;\n}\n\n.hero h1 {\n  font-size: 3rem;\n  margin-bottom: 20px;\n}\n\n.hero span {\n  color: #ffd700;\n}\n\n.btn {\n  display: inline-block;\n  padding: 15px 30px;\n  background: #ffd700;\n  color: #333;\n  text-decoration: none;\n  border-radius: 30px;\n  margin-top: 20px;\n  font-weight: bold;\n}\n\nsection {\n  padding: 80px 50px;\n}\n\nh2 {\n  font-size: 2rem;\n  margin-bottom: 30px;\n  text-align: center;\n}\n\n.project-grid {\n  display: grid;\n  grid-template-columns: repeat(auto-fit, minmax(300px, 1fr));\n  gap: 30px;\n  max-width: 1200px;\n  margin: 0 auto;\n}\n\n.project-card {\n  background: #f5f5f5;\n  padding: 30px;\n  border-radius: 10px;\n  box-shadow: 0 5px 15px rgba(0,0,0,0.1);\n}\n\n.contact {\n  text-align: center;\n  background: #333;\n  color: white;\n}\n"
+      }
+    ],
+    "steps": [
+      {
+        "id": 1,
+        "title": "Create Navigation",
+        "description": "Add a navigation bar with links",
+        "hint": "Use nav with ul and li elements",
+        "targetFileId": "html",
+        "checks": [
+          {
+            "type": "element",
+            "description": "A nav with a list of at least 3 items",
+            "selector": "nav ul > li",
+            "minCount": 3
+          },
+          {
+            "type": "element",
+            "description": "Each navigation item is a link",
+            "selector": "nav li a",
+            "attribute": "href",
+            "minCount": 3
+          }
+        ]
+      },
+      {
+        "id": 2,
+        "title": "Create Hero Section",
+        "description": "Add a hero section with your name and intro",
+        "hint": "Use a section with class=\"hero\"",
+        "targetFileId": "html",
+        "checks": [
+          {
+            "type": "element",
+            "description": "A section with class=\"hero\"",
+            "selector": "section.hero"
+          },
+          {
+            "type": "element",
+            "description": "The hero has an h1 heading",
+            "selector": ".hero h1"
+          }
+        ]
+      },
+      {
+        "id": 3,
+        "title": "Add Projects Section",
+        "description": "Create a grid of project cards",
+        "hint": "Use CSS grid for the layout",
+        "targetFileId": "html",
+        "checks": [
+          {
+            "type": "element",
+            "description": "A section with id=\"projects\"",
+            "selector": "section#projects"
+          },
+          {
+            "type": "element",
+            "description": "At least 2 .project-card elements inside it",
+            "selector": "#projects .project-card",
+            "minCount": 2
+          }
+        ]
+      },
+      {
+        "id": 4,
+        "title": "Style the Hero",
+        "description": "Make the hero section stand out",
+        "hint": "Use gradient background and flexbox centering",
+        "targetFileId": "css",
+        "checks": [
+          {
+            "type": "style",
+            "description": ".hero has a gradient background",
+            "selector": ".hero",
+            "property": "background-image",
+            "includes": "gradient"
+          },
+          {
+            "type": "style",
+            "description": ".hero uses flexbox",
+            "selector": ".hero",
+            "property": "display",
+            "equals": "flex"
+          }
+        ]
+      }
+    ],
+    "xpReward": 275
+  },
+  {
+    "id": "quiz-app",
+    "title": "Quiz App",
+    "description": "Build an interactive quiz app with multiple choice questions and scoring.",
+    "difficulty": "intermediate",
+    "estimatedTime": "45 min",
+    "languages": [
+      "html",
+      "css",
+      "javascript"
+    ],
+    "icon": "❓",
+    "color": "from-orange-500 to-red-500",
+    "files": [
+      {
+        "id": "html",
+        "name": "index.html",
+        "language": "html",
+        "starterCode": "<!DOCTYPE html>\n<html lang=\"en\">\n<head>\n  <meta charset=\"UTF-8\">\n  <title>Quiz App</title>\n  <link rel=\"stylesheet\" href=\"styles.css\">\n</head>\n<body>\n  <div class=\"quiz-container\">\n    <div id=\"quiz\">\n      <!-- Quiz content will be generated by JavaScript -->\n    </div>\n    <div id=\"results\" class=\"hidden\">\n      <!-- Results will show here -->\n    </div>\n  </div>\n  <script src=\"script.js\"></script>\n</body>\n</html>\n",
+        "solution": "<!DOCTYPE html>\n<html lang=\"en\">\n<head>\n  <meta charset=\"UTF-8\">\n  <title>Quiz App</title>\n  <link rel=\"stylesheet\" href=\"styles.css\">\n</head>\n<body>\n  <div class=\"quiz-container\">\n    <div id=\"quiz\">\n      <h2 id=\"question\"></h2>\n      <div id=\"answers\"></div>\n      <button id=\"nextBtn\" onclick=\"nextQuestion()\">Next Question</button>\n    </div>\n    <div id=\"results\" class=\"hidden\">\n      <h2>Quiz Complete!</h2>\n      <p id=\"score\"></p>\n      <button onclick=\"restartQuiz()\">Try Again</button>\n    </div>\n  </div>\n  <script src=\"script.js\"></script>\n</body>\n</html>\n"
+      },
+      {
+        "id": "css",
+        "name": "styles.css",
+        "language": "css",
+        "starterCode": "body {\n  font-family: Arial, sans-serif;\n  background: #1a1a2e;\n  color: white;\n  min-height: 100vh;\n  display: flex;\n  justify-content: center;\n  align-items: center;\n}\n\n.quiz-container {\n  /* Add styles */\n}\n",
+        "solution": "body {\n  font-family: Arial, sans-serif;\n  background: #1a1a2e;\n  color: white;\n  min-height: 100vh;\n  display: flex;\n  justify-content: center;\n  align-items: center;\n  margin: 0;\n}\n\n.quiz-container {\n  background: #16213e;\n  padding: 40px;\n  border-radius: 15px;\n  max-width: 600px;\n  width: 90%;\n  box-shadow: 0 10px 30px rgba(0,0,0,0.3);\n}\n\nh2 {\n  margin-bottom: 30px;\n}\n\n#answers {\n  display: flex;\n  flex-direction: column;\n  gap: 15px;\n  margin-bottom: 30px;\n}\n\n.answer-btn {\n  padding: 15px 20px;\n  background: #0f3460;\n  border: 2px solid #e94560;\n  color: white;\n  border-radius: 10px;\n  cursor: pointer;\n  font-size: 16px;\n  transition: all 0.3s;\n}\n\n.answer-btn:hover {\n  background: #e94560;\n}\n\n.answer-btn.correct {\n  background: #27ae60;\n  border-color: #27ae60;\n}\n\n.answer-btn.wrong {\n  background: #c0392b;\n  border-color: #c0392b;\n}\n\nbutton {\n  padding: 15px 30px;\n  background: #e94560;\n  color: white;\n  border: none;\n  border-radius: 10px;\n  cursor: pointer;\n  font-size: 16px;\n}\n\n.hidden {\n  display: none;\n}\n\n#score {\n  font-size: 24px;\n  margin: 20px 0;\n}\n"
+      },
+      {
+        "id": "javascript",
+        "name": "script.js",
+        "language": "javascript",
+        "starterCode": "// Quiz questions\nconst questions = [\n  {\n    question: \"What does HTML stand for?\",\n    answers: [\"Hyper Text Markup Language\", \"Home Tool Markup Language\", \"Hyperlinks Text Mark Language\"],\n    correct: 0\n  },\n  // Add more questions\n];\n\nlet currentQuestion = 0;\nlet score = 0;\n\nfunction showQuestion() {\n  // Display current question and answers\n}\n\nfunction selectAnswer(index) {\n  // Check if answer is correct\n}\n\nfunction nextQuestion() {\n  // Move to next question\n}\n\nfunction showResults() {\n  // Display final score\n}\n\n// Start the quiz\nshowQuestion();\n",
+        "solution": "const questions = [\n  {\n    question: \"What does HTML stand for?\",\n    answers: [\"Hyper Text Markup Language\", \"Home Tool Markup Language\", \"Hyperlinks Text Mark Language\"],\n    correct: 0\n  },\n  {\n    question: \"What does CSS stand for?\",\n    answers: [\"Computer Style Sheets\", \"Cascading Style Sheets\", \"Creative Style System\"],\n    correct: 1\n  },\n  {\n    question: \"Which language runs in the browser?\",\n    answers: [\"Java\", \"Python\", \"JavaScript\"],\n    correct: 2\n  },\n  {\n    question: \"What year was JavaScript created?\",\n    answers: [\"1995\", \"2000\", \"1990\"],\n    correct: 0\n  }\n];\n\nlet currentQuestion = 0;\nlet score = 0;\nlet answered = false;\n\nfunction showQuestion() {\n  const q = questions[currentQuestion];\n  document.getElementById('question').textContent = q.question;\n\n  const answersDiv = document.getElementById('answers');\n  answersDiv.innerHTML = q.answers.map((answer, i) =>\n    `<button class=\"answer-btn\" onclick=\"selectAnswer(${i})\">${answer}</button>`\n  ).join('');\n\n  answered = false;\n  document.getElementById('nextBtn').style.display = 'none';\n}\n\nfunction selectAnswer(index) {\n  if (answered) return;\n  answered = true;\n\n  const q = questions[currentQuestion];\n  const buttons = document.querySelectorAll('.answer-btn');\n\n  buttons.forEach((btn, i) => {\n    if (i === q.correct) {\n      btn.classList.add('correct');\n    } else if (i === index) {\n      btn.classList.add('wrong');\n    }\n    btn.style.pointerEvents = 'none';\n  });\n\n  if (index === q.correct) {\n    score++;\n  }\n\n  document.getElementById('nextBtn').style.display = 'block';\n}\n\nfunction nextQuestion() {\n  currentQuestion++;\n  if (currentQuestion < questions.length) {\n    showQuestion();\n  } else {\n    showResults();\n  }\n}\n\nfunction showResults() {\n  document.getElementById('quiz').classList.add('hidden');\n  document.getElementById('results').classList.remove('hidden');\n  document.getElementById('score').textContent =\n    `You scored ${score} out of ${questions.length}!`;\n}\n\nfunction restartQuiz() {\n  currentQuestion = 0;\n  score = 0;\n  document.getElementById('quiz').classList.remove('hidden');\n  document.getElementById('results').classList.add('hidden');\n  showQuestion();\n}\n\nshowQuestion();\n"
+      }
+    ],
+    "steps": [
+      {
+        "id": 1,
+        "title": "Create Quiz Structure",
+        "description": "Add HTML elements for question and answers",
+        "hint": "Add elements with IDs for question and answers",
+        "targetFileId": "html",
+        "checks": [
+          {
+            "type": "element",
+            "description": "An element with id=\"question\"",
+            "selector": "#quiz #question"
+          },
+          {
+            "type": "element",
+            "description": "An element with id=\"answers\"",
+            "selector": "#quiz #answers"
+          }
+        ]
+      },
+      {
+        "id": 2,
+        "title": "Style Answer Buttons",
+        "description": "Create attractive answer buttons",
+        "hint": "Use flex-direction: column for stacking",
+        "targetFileId": "css",
+        "checks": [
+          {
+            "type": "style",
+            "description": "#answers stacks its buttons in a flex column",
+            "selector": "#answers",
+            "property": "flex-direction",
+            "equals": "column"
+          },
+          {
+            "type": "style",
+            "description": "#answers uses flexbox",
+            "selector": "#answers",
+            "property": "display",
+            "equals": "flex"
+          },
+          {
+            "type": "rule",
+            "description": "A CSS rule styles .answer-btn",
+            "selector": ".answer-btn"
+          }
+        ]
+      },
+      {
+        "id": 3,
+        "title": "Add More Questions",
+        "description": "Add at least 3 more quiz questions",
+        "hint": "Follow the same object structure",
+        "targetFileId": "javascript",
+        "checks": [
+          {
+            "type": "value",
+            "description": "At least 4 questions",
+            "expression": "questions.length",
+            "atLeast": 4
+          },
+          {
+            "type": "value",
+            "description": "Every question has text, answers and a correct index",
+            "expression": "questions.every(q => typeof q.question === 'string' && Array.isArray(q.answers) && q.answers.length >= 2 && q.answers[q.correct] !== undefined)",
+            "equals": true
+          }
+        ]
+      },
+      {
+        "id": 4,
+        "title": "Implement selectAnswer",
+        "description": "Render the answers in showQuestion, then check answers and show correct/wrong",
+        "hint": "Give each answer the answer-btn class and use classList.add to apply correct/wrong",
+        "targetFileId": "javascript",
+        "checks": [
+          {
+            "type": "function",
+            "description": "Picking a wrong answer marks it .wrong and the right one .correct",
+            "name": "selectAnswer",
+            "calls": [
+              [
+                "showQuestion"
+              ],
+              [
+                "selectAnswer",
+                1
+              ]
+            ],
+            "expect": [
+              {
+                "selector": ".answer-btn.wrong"
+              },
+              {
+                "selector": ".answer-btn.correct"
+              }
+            ]
+          }
+        ]
+      },
+      {
+        "id": 5,
+        "title": "Show Final Score",
+        "description": "Display results at the end",
+        "hint": "Hide quiz div and show results div",
+        "targetFileId": "javascript",
+        "checks": [
+          {
+            "type": "function",
+            "description": "showResults() hides the quiz and shows the score",
+            "name": "showResults",
+            "calls": [
+              [
+                "showResults"
+              ]
+            ],
+            "expect": [
+              {
+                "selector": "#quiz.hidden"
+              },
+              {
+                "selector": "#results:not(.hidden)"
+              },
+              {
+                "selector": "#score",
+                "text": "out of"
+              }
+            ]
+          }
+        ]
+      }
+    ],
+    "xpReward": 400
+  },
+  {
+    "id": "weather-display",
+    "title": "Weather Display",
+    "description": "Create a weather display that shows current conditions with dynamic styling.",
+    "difficulty": "intermediate",
+    "estimatedTime": "40 min",
+    "languages": [
+      "html",
+      "css",
+      "javascript"
+    ],
+    "icon": "🌤️",
+    "color": "from-sky-500 to-blue-600",
+    "files": [
+      {
+        "id": "html",
+        "name": "index.html",
+        "language": "html",
+        "starterCode": "<!DOCTYPE html>\n<html lang=\"en\">\n<head>\n  <meta charset=\"UTF-8\">\n  <title>Weather Display</title>\n  <link rel=\"stylesheet\" href=\"styles.css\">\n</head>\n<body>\n  <div class=\"weather-card\" id=\"weatherCard\">\n    <!-- Add weather display elements -->\n  </div>\n  <script src=\"script.js\"></script>\n</body>\n</html>\n",
+        "solution": "<!DOCTYPE html>\n<html lang=\"en\">\n<head>\n  <meta charset=\"UTF-8\">\n  <title>Weather Display</title>\n  <link rel=\"stylesheet\" href=\"styles.css\">\n</head>\n<body>\n  <div class=\"weather-card\" id=\"weatherCard\">\n    <div class=\"location\">\n      <h1 id=\"city\">San Francisco</h1>\n      <p id=\"date\"></p>\n    </div>\n    <div class=\"weather-icon\" id=\"icon\">☀️</div>\n    <div class=\"temperature\">\n      <span id=\"temp\">72</span>°F\n    </div>\n    <div class=\"condition\" id=\"condition\">Sunny</div>\n    <div class=\"details\">\n      <div class=\"detail\">\n        <span>💧</span>\n        <span id=\"humidity\">45%</span>\n      </div>\n      <div class=\"detail\">\n        <span>💨</span>\n        <span id=\"wind\">12 mph</span>\n      </div>\n    </div>\n    <div class=\"weather-buttons\">\n      <button onclick=\"setWeather('sunny')\">Sunny</button>\n      <button onclick=\"setWeather('cloudy')\">Cloudy</button>\n      <button onclick=\"setWeather('rainy')\">Rainy</button>\n    </div>\n  </div>\n  <script src=\"script.js\"></script>\n</body>\n</html>\n"
+      },
+      {
+        "id": "css",
+        "name": "styles.css",
+        "language": "css",
+        "starterCode": "body {\n  min-height: 100vh;\n  display: flex;\n  justify-content: center;\n  align-items: center;\n  font-family: 'Segoe UI', sans-serif;\n}\n\n.weather-card {\n  /* Style the card */\n}\n",
+        "solution": "body {\n  min-height: 100vh;\n  display: flex;\n  justify-content: center;\n  align-items: center;\n  font-family: 'Segoe UI', sans-serif;\n  margin: 0;\n  transition: background 0.5s;\n}\n\nbody.sunny { background: linear-gradient(135deg, #f6d365 0%, #fda085 100%); }\nbody.cloudy { background: linear-gradient(135deg, #bdc3c7 0%, #2c3e50 100%); }\nbody.rainy { background: linear-gradient(135deg, #4b79a1 0%, #283e51 100%); }\n\n.weather-card {\n  background: rgba(255,255,255,0.9);\n  padding: 40px;\n  border-radius: 20px;\n  text-align: center;\n  box-shadow: 0 20px 50px rgba(0,0,0,0.2);\n  min-width: 350px;\n}\n\n.location h1 {\n  margin: 0;\n  font-size: 28px;\n  color: #333;\n}\n\n.location p {\n  color: #666;\n  margin-top: 5px;\n}\n\n.weather-icon {\n  font-size: 100px;\n  margin: 20px 0;\n}\n\n.temperature {\n  font-size: 60px;\n  font-weight: bold;\n  color: #333;\n}\n\n.condition {\n  font-size: 24px;\n  color: #666;\n  margin: 10px 0 20px;\n}\n\n.details {\n  display: flex;\n  justify-content: center;\n  gap: 40px;\n  margin-bottom: 20px;\n}\n\n.detail {\n  display: flex;\n  align-items: center;\n  gap: 5px;\n  font-size: 18px;\n}\n\n.weather-buttons {\n  display: flex;\n  gap: 10px;\n  justify-content: center;\n}\n\n.weather-buttons button {\n  padding: 10px 20px;\n  border: none;\n  border-radius: 20px;\n  cursor: pointer;\n  font-size: 14px;\n  transition: transform 0.2s;\n}\n\n.weather-buttons button:hover {\n  transform: scale(1.05);\n}\n"
+      },
+      {
+        "id": "javascript",
+        "name": "script.js",
+        "language": "javascript",
+        "starterCode": "// Weather data\nconst weatherData = {\n  sunny: { icon: '☀️', temp: 72, condition: 'Sunny', humidity: '45%', wind: '12 mph' },\n  cloudy: { icon: '☁️', temp: 65, condition: 'Cloudy', humidity: '60%', wind: '8 mph' },\n  rainy: { icon: '🌧️', temp: 58, condition: 'Rainy', humidity: '85%', wind: '15 mph' }\n};\n\nfunction setWeather(type) {\n  // Update the display with weather data\n}\n\nfunction updateDate() {\n  // Show current date\n}\n\n// Initialize\nupdateDate();\n",
+        "solution": "const weatherData = {\n  sunny: { icon: '☀️', temp: 72, condition: 'Sunny', humidity: '45%', wind: '12 mph' },\n  cloudy: { icon: '☁️', temp: 65, condition: 'Cloudy', humidity: '60%', wind: '8 mph' },\n  rainy: { icon: '🌧️', temp: 58, condition: 'Rainy', humidity: '85%', wind: '15 mph' }\n};\n\nfunction setWeather(type) {\n  const data = weatherData[type];\n\n  document.getElementById('icon').textContent = data.icon;\n  document.getElementById('temp').textContent = data.temp;\n  document.getElementById('condition').textContent = data.condition;\n  document.getElementById('humidity').textContent = data.humidity;\n  document.getElementById('wind').textContent = data.wind;\n\n  document.body.className = type;\n}\n\nfunction updateDate() {\n  const options = { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' };\n  const today = new Date().toLocaleDateString('en-US', options);\n  document.getElementById('date').textContent = today;\n}\n\nupdateDate();\nsetWeather('sunny');\n"
+      }
+    ],
+    "steps": [
+      {
+        "id": 1,
+        "title": "Create Weather Card Layout",
+        "description": "Add elements for temperature, icon, and conditions",
+        "hint": "Use divs with appropriate IDs",
+        "targetFileId": "html",
+        "checks": [
+          {
+            "type": "element",
+            "description": "An element with id=\"temp\"",
+            "selector": "#weatherCard #temp"
+          },
+          {
+            "type": "element",
+            "description": "An element with id=\"icon\"",
+            "selector": "#weatherCard #icon"
+          },
+          {
+            "type": "element",
+            "description": "An element with id=\"condition\"",
+            "selector": "#weatherCard #condition"
+          }
+        ]
+      },
+      {
+        "id": 2,
+        "title": "Add Weather Toggle Buttons",
+        "description": "Create buttons to switch between weather types",
+        "hint": "Use onclick to call setWeather function",
+        "targetFileId": "html",
+        "checks": [
+          {
+            "type": "element",
+            "description": "Buttons for sunny, cloudy and rainy weather",
+            "selector": "button[onclick*=\"setWeather\"]",
+            "minCount": 3
+          }
+        ]
+      },
+      {
+        "id": 3,
+        "title": "Style for Different Weather",
+        "description": "Create background styles for each weather type",
+        "hint": "Use body.sunny, body.cloudy classes",
+        "targetFileId": "css",
+        "checks": [
+          {
+            "type": "style",
+            "description": "body.sunny has a gradient background",
+            "selector": "body",
+            "withClass": "sunny",
+            "property": "background-image",
+            "includes": "gradient"
+          },
+          {
+            "type": "style",
+            "description": "body.cloudy has a gradient background",
+            "selector": "body",
+            "withClass": "cloudy",
+            "property": "background-image",
+            "includes": "gradient"
+          },
+          {
+            "type": "style",
+            "description": "body.rainy has a gradient background",
+            "selector": "body",
+            "withClass": "rainy",
+            "property": "background-image",
+            "includes": "gradient"
+          }
+        ]
+      },
+      {
+        "id": 4,
+        "title": "Implement setWeather",
+        "description": "Update all display elements with weather data",
+        "hint": "Use getElementById and textContent",
+        "targetFileId": "javascript",
+        "checks": [
+          {
+            "type": "function",
+            "description": "setWeather(\"rainy\") shows the rainy data",
+            "name": "setWeather",
+            "calls": [
+              [
+                "setWeather",
+                "rainy"
+              ]
+            ],
+            "expect": [
+              {
+                "selector": "#condition",
+                "text": "Rainy"
+              },
+              {
+                "selector": "#temp",
+                "text": "58"
+              },
+              {
+                "selector": "#icon",
+                "text": "🌧️"
+              }
+            ]
+          },
+          {
+            "type": "function",
+            "description": "setWeather(\"cloudy\") sets the body class",
+            "name": "setWeather",
+            "calls": [
+              [
+                "setWeather",
+                "cloudy"
+              ]
+            ],
+            "expect": [
+              {
+                "selector": "body.cloudy"
+              }
+            ]
+          }
+        ]
+      }
+    ],
+    "xpReward": 350
+  }
+]
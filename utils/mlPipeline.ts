@@ -0,0 +1,669 @@
+/**
+ * ML Pipeline
+ * Deterministic machine learning blocks for the AI Playground sandbox
+ * Each block takes the typed value produced by the block before it and returns a new one
+ */
+
+import { parseCSV } from './csv'
+import { createRandom } from './neuralNetwork'
+
+// ==================== DATA TYPES ====================
+
+export type Task = 'classification' | 'regression'
+
+/**
+ * A numeric table with one target column
+ */
+export interface Dataset {
+  name: string
+  features: string[]
+  target: string
+  task: Task
+  X: number[][]
+  /** Target values; class indexes into `classes` for classification */
+  y: number[]
+  /** Class names for classification, empty for regression */
+  classes: string[]
+}
+
+export interface TrainedModel {
+  name: string
+  task: Task
+  classes: string[]
+  /** Test set targets */
+  actual: number[]
+  /** Model predictions for the test set */
+  predicted: number[]
+}
+
+export interface ClassificationMetrics {
+  accuracy?: number
+  /** counts[actual][predicted] */
+  confusionMatrix?: number[][]
+  precisionRecall?: { label: string; precision: number; recall: number }[]
+}
+
+/**
+ * Value passed from one block to the next
+ */
+export type PipelineValue =
+  | { kind: 'dataset'; dataset: Dataset; normalised: boolean }
+  | { kind: 'split'; train: Dataset; test: Dataset; normalised: boolean }
+  | { kind: 'model'; model: TrainedModel; metrics: ClassificationMetrics }
+
+type ValueKind = PipelineValue['kind']
+
+export class PipelineError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PipelineError'
+  }
+}
+
+// ==================== BLOCKS ====================
+
+export type BundledDatasetId = 'fruit' | 'exam' | 'houses'
+
+export const BUNDLED_DATASETS: Record<BundledDatasetId, { file: string; name: string; target: string; task: Task }> = {
+  fruit: { file: 'fruit.csv', name: 'Fruit', target: 'fruit', task: 'classification' },
+  exam: { file: 'exam_results.csv', name: 'Exam Results', target: 'passed', task: 'classification' },
+  houses: { file: 'house_prices.csv', name: 'House Prices', target: 'price_k', task: 'regression' },
+}
+
+export type MLBlockType =
+  | 'load-fruit'
+  | 'load-exam'
+  | 'load-houses'
+  | 'split'
+  | 'normalise'
+  | 'knn'
+  | 'linear-regression'
+  | 'logistic-regression'
+  | 'decision-tree'
+  | 'accuracy'
+  | 'confusion-matrix'
+  | 'precision-recall'
+
+export type MLBlockCategory = 'data' | 'prepare' | 'model' | 'evaluate'
+
+export interface MLBlockDefinition {
+  label: string
+  icon: string
+  category: MLBlockCategory
+  description: string
+  /** Kinds of value the block accepts, or null for blocks that start a pipeline */
+  input: ValueKind[] | null
+  /** Tasks the block supports; any task when omitted */
+  tasks?: Task[]
+  dataset?: BundledDatasetId
+}
+
+export const ML_BLOCKS: Record<MLBlockType, MLBlockDefinition> = {
+  'load-fruit': {
+    label: 'Load Fruit', icon: '🍎', category: 'data', input: null, dataset: 'fruit',
+    description: '120 fruits by weight, size, sweetness and acidity: apple, orange or lemon?',
+  },
+  'load-exam': {
+    label: 'Load Exam Results', icon: '📝', category: 'data', input: null, dataset: 'exam',
+    description: '100 students by study hours, sleep and attendance: did they pass?',
+  },
+  'load-houses': {
+    label: 'Load House Prices', icon: '🏠', category: 'data', input: null, dataset: 'houses',
+    description: '100 houses by size, bedrooms, age and distance: what is the price?',
+  },
+  split: {
+    label: 'Train/Test Split', icon: '✂️', category: 'prepare', input: ['dataset'],
+    description: 'Shuffle and hold back 20% of rows to test on',
+  },
+  normalise: {
+    label: 'Normalise', icon: '📏', category: 'prepare', input: ['dataset', 'split'],
+    description: 'Scale every feature to mean 0 and standard deviation 1',
+  },
+  knn: {
+    label: 'k-Nearest Neighbours', icon: '📍', category: 'model', input: ['split'],
+    description: 'Predict from the 5 closest training rows',
+  },
+  'linear-regression': {
+    label: 'Linear Regression', icon: '📈', category: 'model', input: ['split'], tasks: ['regression'],
+    description: 'Fit a straight-line formula to predict a number',
+  },
+  'logistic-regression': {
+    label: 'Logistic Regression', icon: '🎚️', category: 'model', input: ['split'], tasks: ['classification'],
+    description: 'Learn a probability for each class with gradient descent',
+  },
+  'decision-tree': {
+    label: 'Decision Tree', icon: '🌳', category: 'model', input: ['split'], tasks: ['classification'],
+    description: 'Learn yes/no questions about features, up to 4 levels deep',
+  },
+  accuracy: {
+    label: 'Accuracy', icon: '🎯', category: 'evaluate', input: ['model'], tasks: ['classification'],
+    description: 'Share of test rows predicted correctly',
+  },
+  'confusion-matrix': {
+    label: 'Confusion Matrix', icon: '🧮', category: 'evaluate', input: ['model'], tasks: ['classification'],
+    description: 'Which classes get mistaken for which',
+  },
+  'precision-recall': {
+    label: 'Precision & Recall', icon: '⚖️', category: 'evaluate', input: ['model'], tasks: ['classification'],
+    description: 'Per class: how trustworthy and how complete the predictions are',
+  },
+}
+
+const TEST_FRACTION = 0.2
+const SPLIT_SEED = 7
+const KNN_K = 5
+const TREE_MAX_DEPTH = 4
+const TREE_MIN_SAMPLES = 4
+const LOGISTIC_ITERATIONS = 500
+const LOGISTIC_LEARNING_RATE = 0.1
+
+// ==================== VALIDATION ====================
+
+function describeKind(kind: ValueKind): string {
+  switch (kind) {
+    case 'dataset':
+      return 'a dataset'
+    case 'split':
+      return 'training and test data'
+    case 'model':
+      return 'a trained model'
+  }
+}
+
+function orderError(definition: MLBlockDefinition, kind: ValueKind): string {
+  if (definition.category === 'prepare' && kind === 'model') {
+    return `${definition.label} prepares data, so it belongs before the model.`
+  }
+  if (definition.category === 'model' && kind === 'dataset') {
+    return `${definition.label} needs training and test data. Add Train/Test Split before it.`
+  }
+  if (definition.category === 'model' && kind === 'model') {
+    return 'A model is already trained here. Evaluate it, or build a new pipeline to try another model.'
+  }
+  if (definition.category === 'evaluate') {
+    return `${definition.label} measures a trained model. Add a model block before it.`
+  }
+  if (kind === 'split') {
+    return 'The data is already split into training and test sets.'
+  }
+  return `${definition.label} can't use ${describeKind(kind)}.`
+}
+
+/**
+ * Check that blocks come in an order that makes sense, without running them
+ * @returns The first problem and the index of the block that causes it, or null
+ */
+export function validatePipeline(blocks: MLBlockType[]): { index: number; message: string } | null {
+  let kind: ValueKind | null = null
+  let task: Task | null = null
+  let normalised = false
+
+  for (let index = 0; index < blocks.length; index++) {
+    const definition = ML_BLOCKS[blocks[index]]
+
+    if (definition.input === null) {
+      if (kind !== null) {
+        return { index, message: 'A dataset is already loaded. Loaders go first, and only one per pipeline.' }
+      }
+      kind = 'dataset'
+      task = BUNDLED_DATASETS[definition.dataset!].task
+      continue
+    }
+
+    if (kind === null) {
+      return { index, message: 'Start the pipeline with a dataset loader.' }
+    }
+    if (!definition.input.includes(kind)) {
+      return { index, message: orderError(definition, kind) }
+    }
+    if (definition.tasks && task && !definition.tasks.includes(task)) {
+      return {
+        index,
+        message: task === 'regression'
+          ? `${definition.label} works on categories, but this dataset predicts a number.`
+          : `${definition.label} predicts numbers, but this dataset has categories.`,
+      }
+    }
+
+    if (blocks[index] === 'normalise') {
+      if (normalised) {
+        return { index, message: 'The data is already normalised.' }
+      }
+      normalised = true
+    } else if (blocks[index] === 'split') {
+      kind = 'split'
+    } else if (definition.category === 'model') {
+      kind = 'model'
+    }
+  }
+
+  return null
+}
+
+// ==================== DATA PREPARATION ====================
+
+/**
+ * Fetch a bundled CSV from /public/datasets
+ */
+export async function fetchBundledCSV(file: string): Promise<string> {
+  const response = await fetch(`/datasets/${file}`)
+  if (!response.ok) {
+    throw new PipelineError(`Could not load ${file}.`)
+  }
+  return response.text()
+}
+
+/**
+ * Turn CSV text into a numeric dataset
+ * @throws PipelineError if the target is missing or a feature isn't a number
+ */
+export function buildDataset(csvText: string, name: string, target: string, task: Task): Dataset {
+  const [header, ...rows] = parseCSV(csvText)
+  const targetIndex = header?.indexOf(target) ?? -1
+  if (!header || targetIndex === -1) {
+    throw new PipelineError(`${name} has no "${target}" column.`)
+  }
+
+  const featureIndexes = header.map((_, index) => index).filter(index => index !== targetIndex)
+  const rawTargets = rows.map(row => (row[targetIndex] ?? '').trim())
+  const classes = task === 'classification' ? Array.from(new Set(rawTargets)).sort() : []
+
+  const X = rows.map((row, rowIndex) => featureIndexes.map(index => {
+    const value = Number(row[index])
+    if (row[index] === undefined || row[index].trim() === '' || Number.isNaN(value)) {
+      throw new PipelineError(`Row ${rowIndex + 1} of ${name} has a non-numeric ${header[index]}: "${row[index] ?? ''}".`)
+    }
+    return value
+  }))
+  const y = rawTargets.map((value, rowIndex) => {
+    if (task === 'classification') return classes.indexOf(value)
+    const number = Number(value)
+    if (value === '' || Number.isNaN(number)) {
+      throw new PipelineError(`Row ${rowIndex + 1} of ${name} has a non-numeric ${target}: "${value}".`)
+    }
+    return number
+  })
+
+  return { name, features: featureIndexes.map(index => header[index]), target, task, X, y, classes }
+}
+
+function subset(dataset: Dataset, indexes: number[]): Dataset {
+  return { ...dataset, X: indexes.map(i => dataset.X[i]), y: indexes.map(i => dataset.y[i]) }
+}
+
+/**
+ * Seeded shuffle, then hold back the last `testFraction` of rows
+ */
+export function trainTestSplit(dataset: Dataset, testFraction: number = TEST_FRACTION, seed: number = SPLIT_SEED): { train: Dataset; test: Dataset } {
+  const random = createRandom(seed)
+  const order = dataset.X.map((_, index) => index)
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[order[i], order[j]] = [order[j], order[i]]
+  }
+  const testSize = Math.max(1, Math.round(dataset.X.length * testFraction))
+  return {
+    train: subset(dataset, order.slice(0, order.length - testSize)),
+    test: subset(dataset, order.slice(order.length - testSize)),
+  }
+}
+
+/**
+ * Mean and standard deviation of each feature
+ */
+function featureStats(dataset: Dataset): { mean: number; std: number }[] {
+  return dataset.features.map((_, column) => {
+    const values = dataset.X.map(row => row[column])
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length
+    const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length
+    return { mean, std: Math.sqrt(variance) || 1 }
+  })
+}
+
+function applyStats(dataset: Dataset, stats: { mean: number; std: number }[]): Dataset {
+  return { ...dataset, X: dataset.X.map(row => row.map((value, column) => (value - stats[column].mean) / stats[column].std)) }
+}
+
+// ==================== MODELS ====================
+
+function distance(a: number[], b: number[]): number {
+  return Math.sqrt(a.reduce((sum, value, i) => sum + (value - b[i]) ** 2, 0))
+}
+
+function mostCommon(labels: number[]): number {
+  const counts = new Map<number, number>()
+  labels.forEach(label => counts.set(label, (counts.get(label) ?? 0) + 1))
+  // Ties go to the label seen first, i.e. the nearest neighbour
+  return labels.reduce((best, label) => (counts.get(label)! > counts.get(best)! ? label : best), labels[0])
+}
+
+export function kNearestNeighbours(train: Dataset, test: Dataset, k: number = KNN_K): number[] {
+  return test.X.map(row => {
+    const nearest = train.X
+      .map((trainRow, index) => ({ index, distance: distance(row, trainRow) }))
+      .sort((a, b) => a.distance - b.distance || a.index - b.index)
+      .slice(0, k)
+      .map(neighbour => train.y[neighbour.index])
+    return train.task === 'classification'
+      ? mostCommon(nearest)
+      : nearest.reduce((sum, value) => sum + value, 0) / nearest.length
+  })
+}
+
+/**
+ * Solve A·x = b by Gaussian elimination with partial pivoting
+ */
+function solveLinearSystem(A: number[][], b: number[]): number[] {
+  const n = b.length
+  const m = A.map((row, i) => [...row, b[i]])
+  for (let col = 0; col < n; col++) {
+    let pivot = col
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row
+    }
+    ;[m[col], m[pivot]] = [m[pivot], m[col]]
+    if (Math.abs(m[col][col]) < 1e-12) {
+      throw new PipelineError('Linear regression could not be fitted: two features carry the same information.')
+    }
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col]
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k]
+    }
+  }
+  const x = new Array(n).fill(0)
+  for (let row = n - 1; row >= 0; row--) {
+    const rest = m[row].slice(row + 1, n).reduce((sum, value, i) => sum + value * x[row + 1 + i], 0)
+    x[row] = (m[row][n] - rest) / m[row][row]
+  }
+  return x
+}
+
+/**
+ * Least-squares fit via the normal equations
+ * @returns Weights with the intercept last
+ */
+export function fitLinearRegression(train: Dataset): number[] {
+  const rows = train.X.map(row => [...row, 1])
+  const size = rows[0].length
+  const xtx = Array.from({ length: size }, (_, i) =>
+    Array.from({ length: size }, (_, j) => rows.reduce((sum, row) => sum + row[i] * row[j], 0))
+  )
+  const xty = Array.from({ length: size }, (_, i) => rows.reduce((sum, row, r) => sum + row[i] * train.y[r], 0))
+  return solveLinearSystem(xtx, xty)
+}
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z))
+}
+
+/**
+ * One-vs-rest logistic regression trained with full-batch gradient descent
+ * @returns Weights per class (one set for binary problems), intercept last
+ */
+export function fitLogisticRegression(train: Dataset): number[][] {
+  const rows = train.X.map(row => [...row, 1])
+  const targets = train.classes.length === 2 ? [1] : train.classes.map((_, index) => index)
+
+  return targets.map(target => {
+    const weights = new Array(rows[0].length).fill(0)
+    for (let iteration = 0; iteration < LOGISTIC_ITERATIONS; iteration++) {
+      const gradient = new Array(weights.length).fill(0)
+      rows.forEach((row, r) => {
+        const error = sigmoid(row.reduce((sum, value, i) => sum + value * weights[i], 0)) - (train.y[r] === target ? 1 : 0)
+        row.forEach((value, i) => { gradient[i] += error * value })
+      })
+      weights.forEach((_, i) => { weights[i] -= (LOGISTIC_LEARNING_RATE * gradient[i]) / rows.length })
+    }
+    return weights
+  })
+}
+
+function predictLogistic(weights: number[][], row: number[]): number {
+  const scores = weights.map(w => sigmoid([...row, 1].reduce((sum, value, i) => sum + value * w[i], 0)))
+  if (weights.length === 1) return scores[0] >= 0.5 ? 1 : 0
+  return scores.indexOf(Math.max(...scores))
+}
+
+type TreeNode =
+  | { leaf: true; label: number }
+  | { leaf: false; feature: number; threshold: number; left: TreeNode; right: TreeNode }
+
+function gini(labels: number[]): number {
+  const counts = new Map<number, number>()
+  labels.forEach(label => counts.set(label, (counts.get(label) ?? 0) + 1))
+  return 1 - Array.from(counts.values()).reduce((sum, count) => sum + (count / labels.length) ** 2, 0)
+}
+
+/**
+ * CART classification tree split on Gini impurity
+ */
+export function fitDecisionTree(train: Dataset, maxDepth: number = TREE_MAX_DEPTH): TreeNode {
+  const build = (indexes: number[], depth: number): TreeNode => {
+    const labels = indexes.map(i => train.y[i])
+    if (depth >= maxDepth || indexes.length < TREE_MIN_SAMPLES || gini(labels) === 0) {
+      return { leaf: true, label: mostCommon(labels) }
+    }
+
+    let best: { feature: number; threshold: number; impurity: number } | null = null
+    for (let feature = 0; feature < train.features.length; feature++) {
+      const values = Array.from(new Set(indexes.map(i => train.X[i][feature]))).sort((a, b) => a - b)
+      for (let v = 1; v < values.length; v++) {
+        const threshold = (values[v - 1] + values[v]) / 2
+        const left = indexes.filter(i => train.X[i][feature] <= threshold).map(i => train.y[i])
+        const right = indexes.filter(i => train.X[i][feature] > threshold).map(i => train.y[i])
+        const impurity = (left.length * gini(left) + right.length * gini(right)) / indexes.length
+        if (!best || impurity < best.impurity) best = { feature, threshold, impurity }
+      }
+    }
+
+    if (!best) return { leaf: true, label: mostCommon(labels) }
+    const { feature, threshold } = best
+    return {
+      leaf: false,
+      feature,
+      threshold,
+      left: build(indexes.filter(i => train.X[i][feature] <= threshold), depth + 1),
+      right: build(indexes.filter(i => train.X[i][feature] > threshold), depth + 1),
+    }
+  }
+
+  return build(train.X.map((_, index) => index), 0)
+}
+
+function predictTree(node: TreeNode, row: number[]): number {
+  if (node.leaf) return node.label
+  return predictTree(row[node.feature] <= node.threshold ? node.left : node.right, row)
+}
+
+function countLeaves(node: TreeNode): number {
+  return node.leaf ? 1 : countLeaves(node.left) + countLeaves(node.right)
+}
+
+// ==================== METRICS ====================
+
+export function confusionMatrix(model: TrainedModel): number[][] {
+  const matrix = model.classes.map(() => model.classes.map(() => 0))
+  model.actual.forEach((actual, i) => { matrix[actual][model.predicted[i]]++ })
+  return matrix
+}
+
+export function precisionRecall(model: TrainedModel): { label: string; precision: number; recall: number }[] {
+  const matrix = confusionMatrix(model)
+  return model.classes.map((label, c) => {
+    const truePositives = matrix[c][c]
+    const predicted = matrix.reduce((sum, row) => sum + row[c], 0)
+    const actual = matrix[c].reduce((sum, count) => sum + count, 0)
+    return {
+      label,
+      precision: predicted === 0 ? 0 : truePositives / predicted,
+      recall: actual === 0 ? 0 : truePositives / actual,
+    }
+  })
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`
+}
+
+function regressionSummary(model: TrainedModel): string[] {
+  const mean = model.actual.reduce((sum, value) => sum + value, 0) / model.actual.length
+  const absoluteError = model.actual.reduce((sum, value, i) => sum + Math.abs(value - model.predicted[i]), 0)
+  const residual = model.actual.reduce((sum, value, i) => sum + (value - model.predicted[i]) ** 2, 0)
+  const total = model.actual.reduce((sum, value) => sum + (value - mean) ** 2, 0)
+  return [
+    `   Mean absolute error on test rows: ${(absoluteError / model.actual.length).toFixed(1)}`,
+    `   R² on test rows: ${(1 - residual / (total || 1)).toFixed(3)}`,
+  ]
+}
+
+// ==================== RUNNING ====================
+
+export interface BlockResult {
+  value: PipelineValue
+  log: string[]
+}
+
+/**
+ * Run one block on the value produced by the block before it
+ * @param loadText - Reads a bundled CSV by file name
+ * @throws PipelineError if the input doesn't suit the block
+ */
+export async function runBlock(
+  type: MLBlockType,
+  input: PipelineValue | null,
+  loadText: (file: string) => Promise<string> = fetchBundledCSV
+): Promise<BlockResult> {
+  const definition = ML_BLOCKS[type]
+
+  if (definition.input === null) {
+    const source = BUNDLED_DATASETS[definition.dataset!]
+    const dataset = buildDataset(await loadText(source.file), source.name, source.target, source.task)
+    return {
+      value: { kind: 'dataset', dataset, normalised: false },
+      log: [
+        `📊 Loaded ${source.file}: ${dataset.X.length} rows`,
+        `   Features: ${dataset.features.join(', ')}`,
+        dataset.task === 'classification'
+          ? `   Target: ${dataset.target} (${dataset.classes.join(' / ')})`
+          : `   Target: ${dataset.target} (a number)`,
+      ],
+    }
+  }
+
+  if (!input || !definition.input.includes(input.kind)) {
+    throw new PipelineError(input ? orderError(definition, input.kind) : 'Start the pipeline with a dataset loader.')
+  }
+
+  if (type === 'split' && input.kind === 'dataset') {
+    const { train, test } = trainTestSplit(input.dataset)
+    return {
+      value: { kind: 'split', train, test, normalised: input.normalised },
+      log: [`✂️ Split ${input.dataset.X.length} rows: ${train.X.length} for training, ${test.X.length} for testing`],
+    }
+  }
+
+  if (type === 'normalise' && input.kind === 'dataset') {
+    return {
+      value: { kind: 'dataset', dataset: applyStats(input.dataset, featureStats(input.dataset)), normalised: true },
+      log: [
+        '📏 Normalised every feature to mean 0, standard deviation 1',
+        '   ⚠️ Scaling before the split lets the test rows influence training. Try it after Train/Test Split.',
+      ],
+    }
+  }
+
+  if (type === 'normalise' && input.kind === 'split') {
+    // Fit on the training rows only, then apply the same scaling to the test rows
+    const stats = featureStats(input.train)
+    return {
+      value: { kind: 'split', train: applyStats(input.train, stats), test: applyStats(input.test, stats), normalised: true },
+      log: ['📏 Normalised features using the training rows\' mean and standard deviation'],
+    }
+  }
+
+  if (definition.category === 'model' && input.kind === 'split') {
+    const { train, test } = input
+    if (definition.tasks && !definition.tasks.includes(train.task)) {
+      throw new PipelineError(`${definition.label} can't be used to predict ${train.target}.`)
+    }
+
+    const log = [`${definition.icon} Training ${definition.label} on ${train.X.length} rows...`]
+    let predicted: number[]
+    if (type === 'knn') {
+      predicted = kNearestNeighbours(train, test)
+      log.push(`   ✓ Each test row takes the ${train.task === 'classification' ? 'most common class' : 'average'} of its ${KNN_K} nearest training rows`)
+    } else if (type === 'linear-regression') {
+      const weights = fitLinearRegression(train)
+      predicted = test.X.map(row => [...row, 1].reduce((sum, value, i) => sum + value * weights[i], 0))
+      const terms = [...train.features.map((feature, i) => ({ weight: weights[i], name: `×${feature}` })), { weight: weights[weights.length - 1], name: '' }]
+      const formula = terms.map(({ weight, name }, i) =>
+        `${i === 0 ? (weight < 0 ? '-' : '') : weight < 0 ? ' - ' : ' + '}${Math.abs(weight).toFixed(2)}${name}`
+      ).join('')
+      log.push(`   ✓ ${train.target} ≈ ${formula}`)
+    } else if (type === 'logistic-regression') {
+      const weights = fitLogisticRegression(train)
+      predicted = test.X.map(row => predictLogistic(weights, row))
+      log.push(`   ✓ ${LOGISTIC_ITERATIONS} gradient descent steps${weights.length > 1 ? `, one model per class (${weights.length})` : ''}`)
+    } else {
+      const tree = fitDecisionTree(train)
+      predicted = test.X.map(row => predictTree(tree, row))
+      const root = tree.leaf ? 'a single leaf' : `"${train.features[tree.feature]} ≤ ${tree.threshold.toFixed(2)}?"`
+      log.push(`   ✓ ${countLeaves(tree)} leaves, first question ${root}`)
+    }
+
+    if (!input.normalised && (type === 'knn' || type === 'logistic-regression')) {
+      log.push('   ⚠️ Features aren\'t normalised, so large-valued features dominate. Try adding Normalise.')
+    }
+
+    const model: TrainedModel = { name: definition.label, task: train.task, classes: train.classes, actual: test.y, predicted }
+    if (model.task === 'regression') {
+      log.push(...regressionSummary(model))
+    } else {
+      log.push(`   Predicted ${predicted.length} test rows`)
+    }
+    return { value: { kind: 'model', model, metrics: {} }, log }
+  }
+
+  if (input.kind === 'model') {
+    const { model } = input
+    if (model.task !== 'classification') {
+      throw new PipelineError(`${definition.label} measures classifiers, but ${model.name} predicts numbers.`)
+    }
+
+    if (type === 'accuracy') {
+      const correct = model.actual.filter((actual, i) => actual === model.predicted[i]).length
+      const accuracy = correct / model.actual.length
+      return {
+        value: { ...input, metrics: { ...input.metrics, accuracy } },
+        log: [`🎯 Accuracy: ${formatPercent(accuracy)} (${correct} of ${model.actual.length} test rows correct)`],
+      }
+    }
+
+    if (type === 'confusion-matrix') {
+      const matrix = confusionMatrix(model)
+      const mistakes = matrix.flatMap((row, actual) => row.map((count, predicted) => ({ count, actual, predicted })))
+        .filter(cell => cell.actual !== cell.predicted && cell.count > 0)
+        .sort((a, b) => b.count - a.count)
+      return {
+        value: { ...input, metrics: { ...input.metrics, confusionMatrix: matrix } },
+        log: [
+          '🧮 Confusion matrix built (rows: actual, columns: predicted)',
+          mistakes.length === 0
+            ? '   ✓ No mix-ups on the test rows'
+            : `   Most common mix-up: ${model.classes[mistakes[0].actual]} predicted as ${model.classes[mistakes[0].predicted]} (${mistakes[0].count}×)`,
+        ],
+      }
+    }
+
+    const perClass = precisionRecall(model)
+    return {
+      value: { ...input, metrics: { ...input.metrics, precisionRecall: perClass } },
+      log: [
+        '⚖️ Precision and recall per class',
+        ...perClass.map(entry => `   ${entry.label}: precision ${formatPercent(entry.precision)}, recall ${formatPercent(entry.recall)}`),
+      ],
+    }
+  }
+
+  throw new PipelineError(orderError(definition, input.kind))
+}
@@ -0,0 +1,318 @@
+/**
+ * Neural Network
+ * A small multi-layer perceptron that trains in the browser on 2D toy datasets
+ * Used by the Neural Network Builder game
+ */
+
+// ==================== DATASETS ====================
+
+export type DatasetId = 'xor' | 'moons' | 'spirals'
+
+/**
+ * A labelled point; coordinates lie roughly within [-1, 1]
+ */
+export interface DataPoint {
+  x: number
+  y: number
+  label: 0 | 1
+}
+
+export const DATASETS: Record<DatasetId, { name: string; description: string }> = {
+  xor: {
+    name: 'XOR',
+    description: 'Opposite corners share a class. No single straight line can split them.',
+  },
+  moons: {
+    name: 'Two Moons',
+    description: 'Two interleaving half circles that need a curved boundary.',
+  },
+  spirals: {
+    name: 'Spirals',
+    description: 'Two arms winding around each other, the hardest shape to separate.',
+  },
+}
+
+/**
+ * Seeded random number generator (mulberry32), so a level always gets the same data
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function gaussian(random: () => number): number {
+  const u = Math.max(random(), 1e-12)
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random())
+}
+
+/**
+ * Generate `count` points of a dataset, half of each class
+ */
+export function generateDataset(id: DatasetId, count: number, seed: number, noise: number = 0.05): DataPoint[] {
+  const random = createRandom(seed)
+  const points: DataPoint[] = []
+
+  for (let i = 0; i < count; i++) {
+    const label: 0 | 1 = i % 2 === 0 ? 0 : 1
+
+    if (id === 'xor') {
+      // Keep a small gap around the axes so the classes don't touch
+      const sx = random() < 0.5 ? -1 : 1
+      const sy = label === 1 ? sx : -sx
+      points.push({
+        x: sx * (0.1 + random() * 0.85) + gaussian(random) * noise,
+        y: sy * (0.1 + random() * 0.85) + gaussian(random) * noise,
+        label,
+      })
+    } else if (id === 'moons') {
+      const t = random() * Math.PI
+      const mx = label === 0 ? Math.cos(t) : 1 - Math.cos(t)
+      const my = label === 0 ? Math.sin(t) : 0.5 - Math.sin(t)
+      // Map x from [-1, 2] and y from [-0.5, 1] onto the plot
+      points.push({
+        x: (mx - 0.5) / 1.6 + gaussian(random) * noise,
+        y: (my - 0.25) / 1.6 + gaussian(random) * noise,
+        label,
+      })
+    } else {
+      const r = 0.1 + 0.85 * random()
+      const angle = r * 1.75 * 2 * Math.PI + (label === 1 ? Math.PI : 0)
+      points.push({
+        x: r * Math.sin(angle) + gaussian(random) * noise,
+        y: r * Math.cos(angle) + gaussian(random) * noise,
+        label,
+      })
+    }
+  }
+
+  return points
+}
+
+// ==================== INPUT FEATURES ====================
+
+export type FeatureId = 'x' | 'y' | 'x2' | 'y2' | 'xy' | 'sinX' | 'sinY'
+
+/**
+ * Features an input neuron can feed into the network
+ */
+export const INPUT_FEATURES: Record<FeatureId, { label: string; compute: (x: number, y: number) => number }> = {
+  x: { label: 'x', compute: (x) => x },
+  y: { label: 'y', compute: (_x, y) => y },
+  x2: { label: 'x²', compute: (x) => x * x },
+  y2: { label: 'y²', compute: (_x, y) => y * y },
+  xy: { label: 'x·y', compute: (x, y) => x * y },
+  sinX: { label: 'sin(x)', compute: (x) => Math.sin(Math.PI * x) },
+  sinY: { label: 'sin(y)', compute: (_x, y) => Math.sin(Math.PI * y) },
+}
+
+// ==================== NETWORK ====================
+
+export type Activation = 'tanh' | 'relu'
+
+/**
+ * Shape of a network: which features go in, and how many neurons each hidden layer has
+ * The output is always a single sigmoid neuron giving the probability of class 1
+ */
+export interface NetworkConfig {
+  features: FeatureId[]
+  hiddenLayers: number[]
+  activation: Activation
+  learningRate: number
+  seed?: number
+}
+
+/**
+ * Weights into one layer: weights[neuron][input]
+ */
+export interface Layer {
+  weights: number[][]
+  biases: number[]
+}
+
+/**
+ * Training progress after an epoch
+ */
+export interface TrainingStats {
+  epoch: number
+  loss: number
+  trainAccuracy: number
+  testAccuracy: number
+}
+
+// Adam optimizer constants
+const BETA1 = 0.9
+const BETA2 = 0.999
+const EPSILON = 1e-8
+const BATCH_SIZE = 16
+
+function zerosLike(layers: Layer[]): Layer[] {
+  return layers.map(layer => ({
+    weights: layer.weights.map(row => row.map(() => 0)),
+    biases: layer.biases.map(() => 0),
+  }))
+}
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z))
+}
+
+/**
+ * Multi-layer perceptron for binary classification, trained with mini-batch Adam
+ */
+export class NeuralNetwork {
+  readonly config: NetworkConfig
+  layers: Layer[]
+  epoch = 0
+  private random: () => number
+  private firstMoment: Layer[]
+  private secondMoment: Layer[]
+  private steps = 0
+
+  constructor(config: NetworkConfig) {
+    if (config.features.length === 0) {
+      throw new Error('A network needs at least one input feature')
+    }
+
+    this.config = config
+    this.random = createRandom(config.seed ?? 1)
+
+    // Xavier initialisation keeps early activations away from saturation
+    const sizes = [config.features.length, ...config.hiddenLayers.filter(size => size > 0), 1]
+    this.layers = sizes.slice(1).map((size, index) => {
+      const fanIn = sizes[index]
+      const scale = Math.sqrt(2 / (fanIn + size))
+      return {
+        weights: Array.from({ length: size }, () =>
+          Array.from({ length: fanIn }, () => gaussian(this.random) * scale)
+        ),
+        biases: Array.from({ length: size }, () => 0.01),
+      }
+    })
+    this.firstMoment = zerosLike(this.layers)
+    this.secondMoment = zerosLike(this.layers)
+  }
+
+  /** Feature vector for a point */
+  encode(x: number, y: number): number[] {
+    return this.config.features.map(feature => INPUT_FEATURES[feature].compute(x, y))
+  }
+
+  /** Activations of every layer, starting with the inputs */
+  forward(inputs: number[]): number[][] {
+    const activations = [inputs]
+    this.layers.forEach((layer, layerIndex) => {
+      const previous = activations[activations.length - 1]
+      const isOutput = layerIndex === this.layers.length - 1
+      activations.push(layer.weights.map((row, neuron) => {
+        const z = row.reduce((sum, weight, i) => sum + weight * previous[i], layer.biases[neuron])
+        if (isOutput) return sigmoid(z)
+        return this.config.activation === 'tanh' ? Math.tanh(z) : Math.max(0, z)
+      }))
+    })
+    return activations
+  }
+
+  /** Probability that a point belongs to class 1 */
+  predict(x: number, y: number): number {
+    const activations = this.forward(this.encode(x, y))
+    return activations[activations.length - 1][0]
+  }
+
+  /** Mean binary cross-entropy over the points */
+  loss(points: DataPoint[]): number {
+    if (points.length === 0) return 0
+    const total = points.reduce((sum, point) => {
+      const p = Math.min(Math.max(this.predict(point.x, point.y), 1e-7), 1 - 1e-7)
+      return sum - (point.label === 1 ? Math.log(p) : Math.log(1 - p))
+    }, 0)
+    return total / points.length
+  }
+
+  /** Share of points classified correctly (0-1) */
+  accuracy(points: DataPoint[]): number {
+    if (points.length === 0) return 0
+    const correct = points.filter(point => (this.predict(point.x, point.y) >= 0.5 ? 1 : 0) === point.label).length
+    return correct / points.length
+  }
+
+  /**
+   * One pass over the training points in shuffled mini-batches
+   * @returns Stats measured after the pass
+   */
+  trainEpoch(trainPoints: DataPoint[], testPoints: DataPoint[]): TrainingStats {
+    const order = trainPoints.map((_, index) => index)
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1))
+      ;[order[i], order[j]] = [order[j], order[i]]
+    }
+
+    for (let start = 0; start < order.length; start += BATCH_SIZE) {
+      const batch = order.slice(start, start + BATCH_SIZE).map(index => trainPoints[index])
+      this.step(batch)
+    }
+
+    this.epoch++
+    return {
+      epoch: this.epoch,
+      loss: this.loss(trainPoints),
+      trainAccuracy: this.accuracy(trainPoints),
+      testAccuracy: this.accuracy(testPoints),
+    }
+  }
+
+  /** Backpropagate a batch and apply one Adam update */
+  private step(batch: DataPoint[]): void {
+    const gradients = zerosLike(this.layers)
+
+    batch.forEach(point => {
+      const activations = this.forward(this.encode(point.x, point.y))
+      // Sigmoid output with cross-entropy loss: dL/dz = p - y
+      let delta = [activations[activations.length - 1][0] - point.label]
+
+      for (let l = this.layers.length - 1; l >= 0; l--) {
+        const layer = this.layers[l]
+        const inputs = activations[l]
+        delta.forEach((d, neuron) => {
+          gradients[l].biases[neuron] += d
+          inputs.forEach((input, i) => {
+            gradients[l].weights[neuron][i] += d * input
+          })
+        })
+
+        if (l > 0) {
+          delta = inputs.map((a, i) => {
+            const upstream = delta.reduce((sum, d, neuron) => sum + d * layer.weights[neuron][i], 0)
+            const derivative = this.config.activation === 'tanh' ? 1 - a * a : a > 0 ? 1 : 0
+            return upstream * derivative
+          })
+        }
+      }
+    })
+
+    this.steps++
+    const rate = this.config.learningRate
+    const correction1 = 1 - Math.pow(BETA1, this.steps)
+    const correction2 = 1 - Math.pow(BETA2, this.steps)
+    const update = (l: number, get: (layer: Layer) => number[], i: number) => {
+      const g = get(gradients[l])[i] / batch.length
+      const m = get(this.firstMoment[l])
+      const v = get(this.secondMoment[l])
+      m[i] = BETA1 * m[i] + (1 - BETA1) * g
+      v[i] = BETA2 * v[i] + (1 - BETA2) * g * g
+      get(this.layers[l])[i] -= rate * (m[i] / correction1) / (Math.sqrt(v[i] / correction2) + EPSILON)
+    }
+
+    this.layers.forEach((layer, l) => {
+      layer.biases.forEach((_, neuron) => update(l, target => target.biases, neuron))
+      layer.weights.forEach((row, neuron) => {
+        row.forEach((_, i) => update(l, target => target.weights[neuron], i))
+      })
+    })
+  }
+}
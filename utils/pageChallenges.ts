@@ -0,0 +1,270 @@
+/**
+ * Page Challenges
+ * Target pages for the web builders, and the element tree learners build pages from
+ */
+
+import type { Difficulty } from './gameConstants'
+
+// ==================== CHALLENGES ====================
+
+export interface PageChallenge {
+  id: string
+  title: string
+  difficulty: Difficulty
+  brief: string
+  /** Body content of the target page */
+  html: string
+}
+
+const MOUNTAIN_PHOTO = `data:image/svg+xml,${encodeURIComponent(
+  '<svg xmlns="http://www.w3.org/2000/svg" width="320" height="160"><rect width="320" height="160" fill="#bfdbfe"/><path d="M0 160 L90 50 L150 120 L210 30 L320 160 Z" fill="#64748b"/><path d="M90 50 L110 75 L70 75 Z M210 30 L235 65 L185 65 Z" fill="#fff"/></svg>'
+)}`
+
+export const PAGE_CHALLENGES: PageChallenge[] = [
+  {
+    id: 'welcome-page',
+    title: 'Welcome Page',
+    difficulty: 'easy',
+    brief: 'A header with the site name, a main section about you, and a footer.',
+    html: `<header>
+  <h1>Welcome to My Site</h1>
+</header>
+<main>
+  <h2>About Me</h2>
+  <p>I love building web pages.</p>
+</main>
+<footer>
+  <p>Thanks for visiting!</p>
+</footer>`,
+  },
+  {
+    id: 'recipe-card',
+    title: 'Recipe Card',
+    difficulty: 'easy',
+    brief: 'A recipe with a title, an ingredients list and one step.',
+    html: `<main>
+  <h1>Hot Chocolate</h1>
+  <h2>Ingredients</h2>
+  <ul>
+    <li>Milk</li>
+    <li>Cocoa powder</li>
+    <li>Sugar</li>
+  </ul>
+  <p>Warm the milk and stir everything together.</p>
+</main>`,
+  },
+  {
+    id: 'photo-blog',
+    title: 'Photo Blog',
+    difficulty: 'medium',
+    brief: 'A header with navigation links, one photo post with alt text, and a footer.',
+    html: `<header>
+  <h1>Holiday Photos</h1>
+  <nav>
+    <ul>
+      <li><a href="#photos">Photos</a></li>
+      <li><a href="#contact">Contact</a></li>
+    </ul>
+  </nav>
+</header>
+<main>
+  <section>
+    <h2>Snowy Mountains</h2>
+    <img src="${MOUNTAIN_PHOTO}" alt="Snow-covered mountains under a blue sky">
+    <p>Our first morning in the Alps.</p>
+  </section>
+</main>
+<footer>
+  <p>Photos by the Holiday Team</p>
+</footer>`,
+  },
+  {
+    id: 'newsletter-signup',
+    title: 'Newsletter Signup',
+    difficulty: 'hard',
+    brief: 'A signup form whose email field is properly labelled, inside the page landmarks.',
+    html: `<header>
+  <h1>Festive Newsletter</h1>
+</header>
+<main>
+  <h2>Join the list</h2>
+  <p>Get one email a week with new tutorials.</p>
+  <form>
+    <label for="email">Email address</label>
+    <input type="email" id="email" placeholder="you@example.com">
+    <button>Subscribe</button>
+  </form>
+</main>
+<footer>
+  <p>No spam, ever.</p>
+</footer>`,
+  },
+]
+
+const PREVIEW_STYLES = `
+  body { font-family: system-ui, sans-serif; color: #1f2937; margin: 0; padding: 12px; line-height: 1.4; }
+  header, footer { background: #f3f4f6; padding: 8px 12px; border-radius: 6px; }
+  main, section { padding: 4px 0; }
+  nav ul { display: flex; gap: 12px; list-style: none; padding: 0; }
+  img { max-width: 100%; border-radius: 6px; }
+  label { display: block; font-weight: 600; margin-bottom: 4px; }
+  input { padding: 6px; border: 1px solid #9ca3af; border-radius: 4px; margin-right: 6px; }
+  button { padding: 6px 12px; background: #2563eb; color: white; border: 0; border-radius: 4px; }
+`
+
+/**
+ * Full document for rendering a page's body content in a preview frame
+ */
+export function toPreviewDocument(html: string): string {
+  return `<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><style>${PREVIEW_STYLES}</style></head><body>${html}</body></html>`
+}
+
+// ==================== PAGE BUILDER ====================
+
+export type BuilderTag =
+  | 'header' | 'nav' | 'main' | 'section' | 'footer' | 'form' | 'div' | 'ul' | 'li' | 'label'
+  | 'h1' | 'h2' | 'h3' | 'p' | 'a' | 'img' | 'input' | 'button'
+
+export interface PageElement {
+  id: string
+  tag: BuilderTag
+  text: string
+  attributes: Record<string, string>
+  children: PageElement[]
+}
+
+export const BUILDER_TAGS: Record<BuilderTag, {
+  icon: string
+  color: string
+  /** Whether other elements can be dropped inside */
+  container: boolean
+  /** Whether the element shows text of its own */
+  hasText: boolean
+  /** Attributes the learner can edit, with their starting values */
+  attributes: Record<string, string>
+}> = {
+  header: { icon: '🔝', color: 'bg-blue-500', container: true, hasText: false, attributes: {} },
+  nav: { icon: '🧭', color: 'bg-indigo-500', container: true, hasText: false, attributes: {} },
+  main: { icon: '📰', color: 'bg-purple-500', container: true, hasText: false, attributes: {} },
+  section: { icon: '🧩', color: 'bg-violet-500', container: true, hasText: false, attributes: {} },
+  footer: { icon: '🔚', color: 'bg-slate-500', container: true, hasText: false, attributes: {} },
+  form: { icon: '📋', color: 'bg-teal-500', container: true, hasText: false, attributes: {} },
+  div: { icon: '📦', color: 'bg-yellow-500', container: true, hasText: false, attributes: {} },
+  ul: { icon: '📃', color: 'bg-lime-600', container: true, hasText: false, attributes: {} },
+  li: { icon: '•', color: 'bg-lime-500', container: true, hasText: true, attributes: {} },
+  label: { icon: '🏷️', color: 'bg-emerald-500', container: true, hasText: true, attributes: { for: '' } },
+  h1: { icon: '🔠', color: 'bg-orange-500', container: false, hasText: true, attributes: {} },
+  h2: { icon: '🔡', color: 'bg-orange-400', container: false, hasText: true, attributes: {} },
+  h3: { icon: '🔤', color: 'bg-amber-500', container: false, hasText: true, attributes: {} },
+  p: { icon: '📄', color: 'bg-cyan-500', container: false, hasText: true, attributes: {} },
+  a: { icon: '🔗', color: 'bg-red-500', container: false, hasText: true, attributes: { href: '#' } },
+  img: { icon: '🖼️', color: 'bg-pink-500', container: false, hasText: false, attributes: { src: MOUNTAIN_PHOTO, alt: '' } },
+  input: { icon: '⌨️', color: 'bg-green-600', container: false, hasText: false, attributes: { type: 'text', id: '', placeholder: '' } },
+  button: { icon: '🔘', color: 'bg-green-500', container: false, hasText: true, attributes: {} },
+}
+
+const VOID_TAGS = new Set<BuilderTag>(['img', 'input'])
+
+export function createPageElement(tag: BuilderTag): PageElement {
+  return {
+    id: `element-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+    tag,
+    text: '',
+    attributes: { ...BUILDER_TAGS[tag].attributes },
+    children: [],
+  }
+}
+
+function mapElements(elements: PageElement[], change: (element: PageElement) => PageElement | null): PageElement[] {
+  return elements.flatMap(element => {
+    const changed = change(element)
+    if (!changed) return []
+    return [{ ...changed, children: mapElements(changed.children, change) }]
+  })
+}
+
+export function findElement(elements: PageElement[], id: string): PageElement | null {
+  for (const element of elements) {
+    if (element.id === id) return element
+    const found = findElement(element.children, id)
+    if (found) return found
+  }
+  return null
+}
+
+/**
+ * Appends an element to the page (parentId null) or inside a container element
+ */
+export function insertElement(elements: PageElement[], parentId: string | null, element: PageElement): PageElement[] {
+  if (parentId === null) return [...elements, element]
+  return mapElements(elements, candidate =>
+    candidate.id === parentId && BUILDER_TAGS[candidate.tag].container
+      ? { ...candidate, children: [...candidate.children, element] }
+      : candidate
+  )
+}
+
+export function removeElement(elements: PageElement[], id: string): PageElement[] {
+  return mapElements(elements, element => element.id === id ? null : element)
+}
+
+export function updateElement(elements: PageElement[], id: string, change: Partial<Omit<PageElement, 'id' | 'children'>>): PageElement[] {
+  return mapElements(elements, element => element.id === id ? { ...element, ...change } : element)
+}
+
+/**
+ * Moves an element into another container, refusing moves into itself or its own children
+ */
+export function moveElement(elements: PageElement[], id: string, parentId: string | null): PageElement[] {
+  const element = findElement(elements, id)
+  if (!element) return elements
+  if (parentId !== null) {
+    const parent = findElement(elements, parentId)
+    if (!parent || !BUILDER_TAGS[parent.tag].container || parent.id === id || findElement(element.children, parentId)) {
+      return elements
+    }
+  }
+  return insertElement(removeElement(elements, id), parentId, element)
+}
+
+/**
+ * Swaps an element with its previous (-1) or next (1) sibling
+ */
+export function shiftElement(elements: PageElement[], id: string, direction: -1 | 1): PageElement[] {
+  const index = elements.findIndex(element => element.id === id)
+  if (index >= 0) {
+    const target = index + direction
+    if (target < 0 || target >= elements.length) return elements
+    const next = [...elements]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    return next
+  }
+  return elements.map(element => ({ ...element, children: shiftElement(element.children, id, direction) }))
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+/**
+ * Indented HTML for the built elements. Empty attributes other than alt are left out.
+ */
+export function elementsToHtml(elements: PageElement[], depth: number = 0): string {
+  const indent = '  '.repeat(depth)
+  return elements.map(element => {
+    const attributes = Object.entries(element.attributes)
+      .filter(([name, value]) => value !== '' || name === 'alt')
+      .map(([name, value]) => ` ${name}="${escapeHtml(value)}"`)
+      .join('')
+    const open = `<${element.tag}${attributes}>`
+    if (VOID_TAGS.has(element.tag)) return `${indent}${open}`
+
+    const text = escapeHtml(element.text)
+    if (element.children.length === 0) return `${indent}${open}${text}</${element.tag}>`
+    return [
+      `${indent}${open}${text}`,
+      elementsToHtml(element.children, depth + 1),
+      `${indent}</${element.tag}>`,
+    ].join('\n')
+  }).join('\n')
+}
@@ -0,0 +1,368 @@
+/**
+ * Page Comparison
+ * Compares a learner's page with a target page by DOM structure, text content
+ * and semantic/accessibility rules, producing a similarity score and concrete differences
+ */
+
+// ==================== PAGE TREE ====================
+
+export interface PageNode {
+  tag: string
+  attributes: Record<string, string>
+  /** The element's own text, whitespace collapsed (text inside child elements is not included) */
+  text: string
+  children: PageNode[]
+}
+
+const IGNORED_TAGS = new Set(['script', 'style', 'template', 'noscript', 'meta', 'link', 'title'])
+
+// Attributes whose values must match the target; the rest (src, id, class...) are up to the learner
+const COMPARED_ATTRIBUTES = ['type', 'href']
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Simplified tree of an element, ignoring scripts, styles and whitespace-only text
+ */
+export function toPageTree(element: Element): PageNode {
+  const children: PageNode[] = []
+  let text = ''
+
+  element.childNodes.forEach(child => {
+    if (child.nodeType === 3) {
+      text += ` ${child.textContent ?? ''}`
+    } else if (child.nodeType === 1) {
+      const childElement = child as Element
+      if (!IGNORED_TAGS.has(childElement.tagName.toLowerCase())) {
+        children.push(toPageTree(childElement))
+      }
+    }
+  })
+
+  const attributes: Record<string, string> = {}
+  Array.from(element.attributes).forEach(attribute => {
+    attributes[attribute.name.toLowerCase()] = attribute.value
+  })
+
+  return { tag: element.tagName.toLowerCase(), attributes, text: normalizeText(text), children }
+}
+
+/**
+ * Parses an HTML fragment or document and returns the tree of its <body>
+ */
+export function parsePage(html: string): PageNode {
+  const document = new DOMParser().parseFromString(html, 'text/html')
+  return toPageTree(document.body)
+}
+
+/**
+ * All text inside a node, including image alt text, as a screen reader would announce it
+ */
+export function accessibleText(node: PageNode): string {
+  const parts = [node.text, node.tag === 'img' ? node.attributes.alt ?? '' : '', ...node.children.map(accessibleText)]
+  return normalizeText(parts.join(' '))
+}
+
+function describeNode(node: PageNode): string {
+  const text = node.text || (node.tag === 'img' ? node.attributes.alt ?? '' : '')
+  if (!text) return `<${node.tag}>`
+  return `<${node.tag}> "${text.length > 40 ? `${text.slice(0, 37)}...` : text}"`
+}
+
+// ==================== ACCESSIBILITY ====================
+
+export type AccessibilityRule = 'landmarks' | 'heading-order' | 'alt-text' | 'form-labels' | 'link-text'
+
+export const ACCESSIBILITY_RULES: Record<AccessibilityRule, string> = {
+  landmarks: 'One <main> landmark holds the main content',
+  'heading-order': 'Headings start at <h1> and never skip a level',
+  'alt-text': 'Every image has alt text (alt="" for decoration)',
+  'form-labels': 'Every form field has a label',
+  'link-text': 'Links and buttons say what they do',
+}
+
+export interface AccessibilityIssue {
+  rule: AccessibilityRule
+  message: string
+}
+
+export interface AccessibilityAudit {
+  /** Number of individual checks made, so issues can be weighed against them */
+  checked: number
+  issues: AccessibilityIssue[]
+}
+
+const UNLABELLED_INPUT_TYPES = new Set(['hidden', 'submit', 'button', 'reset', 'image'])
+
+interface Located {
+  node: PageNode
+  ancestors: PageNode[]
+}
+
+function collect(root: PageNode): Located[] {
+  const found: Located[] = []
+  const visit = (node: PageNode, ancestors: PageNode[]) => {
+    node.children.forEach(child => {
+      found.push({ node: child, ancestors })
+      visit(child, [...ancestors, child])
+    })
+  }
+  visit(root, [root])
+  return found
+}
+
+/**
+ * Checks a page against the semantic and accessibility rules
+ */
+export function auditPage(root: PageNode): AccessibilityAudit {
+  const elements = collect(root)
+  const issues: AccessibilityIssue[] = []
+  let checked = 0
+  const issue = (rule: AccessibilityRule, message: string) => issues.push({ rule, message })
+
+  // Landmarks
+  checked++
+  const mains = elements.filter(({ node }) => node.tag === 'main' || node.attributes.role === 'main')
+  if (mains.length === 0) issue('landmarks', 'There is no <main> landmark. Wrap the main content in <main>.')
+  if (mains.length > 1) issue('landmarks', `There are ${mains.length} <main> landmarks, but a page should have one.`)
+
+  // Heading order
+  checked++
+  const headings = elements.filter(({ node }) => /^h[1-6]$/.test(node.tag)).map(({ node }) => node)
+  if (!headings.some(node => node.tag === 'h1')) issue('heading-order', 'The page has no <h1> heading.')
+  let previousLevel = 0
+  headings.forEach(node => {
+    checked++
+    const level = Number(node.tag[1])
+    if (level > previousLevel + 1) {
+      issue('heading-order', previousLevel === 0
+        ? `The first heading is ${describeNode(node)}. Start with <h1>.`
+        : `${describeNode(node)} skips from <h${previousLevel}> to <h${level}>.`)
+    }
+    previousLevel = level
+  })
+
+  // Images
+  elements.filter(({ node }) => node.tag === 'img').forEach(({ node }) => {
+    checked++
+    if (node.attributes.alt === undefined) {
+      const src = node.attributes.src ?? ''
+      issue('alt-text', `An image${src && !src.startsWith('data:') ? ` (${src.slice(0, 40)})` : ''} has no alt attribute.`)
+    }
+  })
+
+  // Form fields and labels
+  const labelTargets = new Set(elements.filter(({ node }) => node.tag === 'label' && node.attributes.for).map(({ node }) => node.attributes.for))
+  const fieldIds = new Set<string>()
+  elements.forEach(({ node, ancestors }) => {
+    const isField = node.tag === 'select' || node.tag === 'textarea' ||
+      (node.tag === 'input' && !UNLABELLED_INPUT_TYPES.has(node.attributes.type ?? 'text'))
+    if (!isField) return
+    checked++
+    if (node.attributes.id) fieldIds.add(node.attributes.id)
+
+    const labelled = ancestors.some(ancestor => ancestor.tag === 'label') ||
+      Boolean(node.attributes['aria-label']?.trim()) ||
+      Boolean(node.attributes['aria-labelledby']) ||
+      (node.attributes.id !== undefined && labelTargets.has(node.attributes.id))
+    if (!labelled) {
+      const described = node.tag === 'input' ? `<input type="${node.attributes.type ?? 'text'}">` : `<${node.tag}>`
+      issue('form-labels', `${described} has no label. Add <label for="..."> matching its id.`)
+    }
+  })
+  elements.filter(({ node }) => node.tag === 'label' && node.attributes.for).forEach(({ node }) => {
+    checked++
+    if (!fieldIds.has(node.attributes.for)) {
+      issue('form-labels', `${describeNode(node)} points to id "${node.attributes.for}", but no field has that id.`)
+    }
+  })
+
+  // Links and buttons
+  elements.filter(({ node }) => node.tag === 'a' || node.tag === 'button').forEach(({ node }) => {
+    checked++
+    if (!accessibleText(node) && !node.attributes['aria-label']?.trim()) {
+      issue('link-text', node.tag === 'a'
+        ? `A link${node.attributes.href ? ` to "${node.attributes.href}"` : ''} has no text.`
+        : 'A <button> has no text.')
+    }
+  })
+
+  return { checked, issues }
+}
+
+// ==================== COMPARISON ====================
+
+export type DifferenceKind = 'missing' | 'extra' | 'moved' | 'text' | 'attribute' | 'accessibility'
+
+export interface PageDifference {
+  kind: DifferenceKind
+  message: string
+}
+
+export interface PageComparison {
+  /** Overall similarity, 0-100 */
+  score: number
+  /** Component scores, 0-1 */
+  structureScore: number
+  contentScore: number
+  accessibilityScore: number
+  differences: PageDifference[]
+  audit: AccessibilityAudit
+}
+
+export const SCORE_WEIGHTS = { structure: 0.5, content: 0.2, accessibility: 0.3 }
+
+/** Similarity a page needs to count as matching its target */
+export const PASSING_SCORE = 95
+
+interface FlatNode {
+  node: PageNode
+  parent: PageNode
+}
+
+function flatten(root: PageNode): FlatNode[] {
+  const nodes: FlatNode[] = []
+  const visit = (node: PageNode) => {
+    node.children.forEach(child => {
+      nodes.push({ node: child, parent: node })
+      visit(child)
+    })
+  }
+  visit(root)
+  return nodes
+}
+
+/**
+ * Aligns the two pages' elements in document order, preferring matches that share a parent tag.
+ * Returns [targetIndex, learnerIndex] pairs; elements left out of every pair are missing or extra.
+ */
+function alignNodes(target: FlatNode[], learner: FlatNode[]): [number, number][] {
+  const weight = (a: FlatNode, b: FlatNode) => a.node.tag !== b.node.tag ? 0 : a.parent.tag === b.parent.tag ? 2 : 1
+  const best: number[][] = Array.from({ length: target.length + 1 }, () => new Array(learner.length + 1).fill(0))
+
+  for (let i = target.length - 1; i >= 0; i--) {
+    for (let j = learner.length - 1; j >= 0; j--) {
+      const match = weight(target[i], learner[j])
+      best[i][j] = Math.max(best[i + 1][j], best[i][j + 1], match > 0 ? match + best[i + 1][j + 1] : 0)
+    }
+  }
+
+  const pairs: [number, number][] = []
+  let i = 0
+  let j = 0
+  while (i < target.length && j < learner.length) {
+    const match = weight(target[i], learner[j])
+    if (match > 0 && best[i][j] === match + best[i + 1][j + 1]) {
+      pairs.push([i, j])
+      i++
+      j++
+    } else if (best[i + 1][j] >= best[i][j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+  return pairs
+}
+
+/**
+ * Compares a learner's page with the target page
+ */
+export function comparePages(learner: PageNode, target: PageNode): PageComparison {
+  const targetNodes = flatten(target)
+  const learnerNodes = flatten(learner)
+  const pairs = alignNodes(targetNodes, learnerNodes)
+  const matchedTarget = new Map(pairs)
+  const matchedLearner = new Set(pairs.map(([, j]) => j))
+  const differences: PageDifference[] = []
+
+  let structureWeight = 0
+  let contentTotal = 0
+  let contentMatched = 0
+
+  targetNodes.forEach((expected, i) => {
+    if (expected.node.text) contentTotal++
+    COMPARED_ATTRIBUTES.forEach(name => {
+      if (expected.node.attributes[name] !== undefined) contentTotal++
+    })
+    if (expected.node.tag === 'img' && expected.node.attributes.alt?.trim()) contentTotal++
+
+    const j = matchedTarget.get(i)
+    if (j === undefined) {
+      differences.push({ kind: 'missing', message: `Missing ${describeNode(expected.node)} inside <${expected.parent.tag}>` })
+      return
+    }
+
+    const actual = learnerNodes[j]
+    if (actual.parent.tag === expected.parent.tag) {
+      structureWeight += 1
+    } else {
+      structureWeight += 0.5
+      differences.push({
+        kind: 'moved',
+        message: `${describeNode(actual.node)} is inside <${actual.parent.tag}>, but the target puts it inside <${expected.parent.tag}>`,
+      })
+    }
+
+    if (expected.node.text) {
+      if (expected.node.text.toLowerCase() === actual.node.text.toLowerCase()) {
+        contentMatched++
+      } else {
+        differences.push({
+          kind: 'text',
+          message: actual.node.text
+            ? `<${actual.node.tag}> says "${actual.node.text}", but the target says "${expected.node.text}"`
+            : `<${actual.node.tag}> is empty, but the target says "${expected.node.text}"`,
+        })
+      }
+    }
+
+    COMPARED_ATTRIBUTES.forEach(name => {
+      const wanted = expected.node.attributes[name]
+      const found = actual.node.attributes[name]
+      if (wanted === undefined) return
+      if (wanted === found) {
+        contentMatched++
+      } else {
+        differences.push({
+          kind: 'attribute',
+          message: found === undefined
+            ? `${describeNode(actual.node)} needs ${name}="${wanted}"`
+            : `${describeNode(actual.node)} has ${name}="${found}", but the target uses ${name}="${wanted}"`,
+        })
+      }
+    })
+
+    // Alt wording is the learner's own, but a described image shouldn't become decorative
+    if (expected.node.tag === 'img' && expected.node.attributes.alt?.trim()) {
+      if (actual.node.attributes.alt?.trim()) {
+        contentMatched++
+      } else if (actual.node.attributes.alt !== undefined) {
+        differences.push({ kind: 'attribute', message: `The target's image is described ("${expected.node.attributes.alt}"), but yours has empty alt text` })
+      }
+    }
+  })
+
+  learnerNodes.forEach((extra, j) => {
+    if (!matchedLearner.has(j)) {
+      differences.push({ kind: 'extra', message: `Extra ${describeNode(extra.node)} inside <${extra.parent.tag}>` })
+    }
+  })
+
+  const audit = auditPage(learner)
+  audit.issues.forEach(({ message }) => differences.push({ kind: 'accessibility', message }))
+
+  const totalNodes = targetNodes.length + learnerNodes.length
+  const structureScore = totalNodes === 0 ? 1 : (2 * structureWeight) / totalNodes
+  const contentScore = contentTotal === 0 ? 1 : contentMatched / contentTotal
+  const accessibilityScore = audit.checked === 0 ? 1 : (audit.checked - audit.issues.length) / audit.checked
+  const score = Math.round(100 * (
+    SCORE_WEIGHTS.structure * structureScore +
+    SCORE_WEIGHTS.content * contentScore +
+    SCORE_WEIGHTS.accessibility * Math.max(0, accessibilityScore)
+  ))
+
+  return { score, structureScore, contentScore, accessibilityScore, differences, audit }
+}
@@ -1,6 +1,9 @@
 // Piston Code Execution Service
 // Client-side service for executing code via the API route
 
+import type { ExerciseDatabase, QueryResultSet, TestCase, TestCaseResult } from '@/types'
+import type { ExecutionDiagnostic } from './diagnostics'
+
 export interface ExecutionResult {
   success: boolean
   output: string
@@ -12,6 +15,17 @@ export interface ExecutionResult {
   isPreview?: boolean
   isSimulated?: boolean
   error?: string
+  resultSet?: QueryResultSet
+  /** Compiler and runtime errors located in the submitted code */
+  diagnostics?: ExecutionDiagnostic[]
+}
+
+export interface TestRunResult {
+  success: boolean
+  results: TestCaseResult[]
+  passedCount: number
+  total: number
+  error?: string
 }
 
 // Languages that support real execution
@@ -19,7 +33,8 @@ export const EXECUTABLE_LANGUAGES = [
   'javascript', 'javascript-games', 'typescript',
   'python', 'python-ml', 'python-backend',
   'java', 'go', 'rust', 'c', 'cpp', 'csharp',
-  'ruby', 'php', 'kotlin', 'swift', 'r', 'bash'
+  'ruby', 'php', 'kotlin', 'swift', 'r', 'bash',
+  'sql', 'postgresql'
 ]
 
 // Languages that only show preview
@@ -27,11 +42,13 @@ export const PREVIEW_LANGUAGES = ['html', 'css', 'markdown', 'json', 'yaml']
 
 /**
  * Execute code using the Piston API via our proxy route
+ * @param database - Seeded exercise database for SQL languages
  */
 export async function executeCode(
   language: string,
   code: string,
-  stdin: string = ''
+  stdin: string = '',
+  database?: ExerciseDatabase
 ): Promise<ExecutionResult> {
   try {
     const response = await fetch('/api/code/execute', {
@@ -39,7 +56,7 @@ export async function executeCode(
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({ language, code, stdin }),
+      body: JSON.stringify({ language, code, stdin, database }),
     })
 
     if (!response.ok) {
@@ -61,6 +78,42 @@ export async function executeCode(
   }
 }
 
+/**
+ * Run code against a set of test cases via the test runner route
+ * @param testCases - stdin and expected stdout per case; hidden cases only report pass/fail
+ */
+export async function runTests(
+  language: string,
+  code: string,
+  testCases: TestCase[]
+): Promise<TestRunResult> {
+  try {
+    const response = await fetch('/api/code/test', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ language, code, testCases }),
+    })
+
+    const result = await response.json()
+    if (!result.success) {
+      throw new Error(result.error || `HTTP error: ${response.status}`)
+    }
+    return result as TestRunResult
+
+  } catch (error) {
+    console.error('Test run failed:', error)
+    return {
+      success: false,
+      results: [],
+      passedCount: 0,
+      total: testCases.length,
+      error: error instanceof Error ? error.message : 'Failed to run tests'
+    }
+  }
+}
+
 /**
  * Check if a language supports real execution
  */
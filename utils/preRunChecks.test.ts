@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import { runPreRunChecks } from './preRunChecks'
+
+const bracketIssues = (code: string, languageId: string) =>
+  runPreRunChecks(code, languageId).filter(issue => issue.rule === 'unbalanced-brackets')
+
+describe('runPreRunChecks brackets', () => {
+  it('ignores brackets inside Go raw strings and rune literals', () => {
+    const code = 'package main\n\nfunc main() {\n\ts := `}\n(` + "\\\\"\n\tr := \'{\'\n\tprintln(s, r)\n}\n'
+    expect(bracketIssues(code, 'go')).toEqual([])
+  })
+
+  it('ignores brackets inside C and Java char literals, escapes included', () => {
+    expect(bracketIssues("int main() { char c = ')'; char u = '\\x29'; return 0; }", 'c')).toEqual([])
+    expect(bracketIssues("class Main { char open = '{'; char tab = '\\u0009'; }", 'java')).toEqual([])
+  })
+
+  it('still reads Rust lifetimes as code', () => {
+    expect(bracketIssues("fn first<'a>(x: &'a str) -> &'a str { x }", 'rust')).toEqual([])
+    expect(bracketIssues("fn first<'a>(x: &'a str) -> &'a str { x", 'rust')).toHaveLength(1)
+  })
+
+  it('reads a regex at the start of a line after a statement without a semicolon', () => {
+    expect(bracketIssues('const a = 1\n/[)]/.test("x")\n', 'javascript')).toEqual([])
+  })
+
+  it('reports unbalanced brackets as warnings so the code can still run', () => {
+    expect(bracketIssues('function add(a, b {\n  return a + b\n}\n', 'javascript')).toEqual([
+      expect.objectContaining({ line: 1, severity: 'warning' }),
+    ])
+  })
+})
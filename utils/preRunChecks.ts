@@ -0,0 +1,659 @@
+/**
+ * Pre-Run Checks
+ * Catches common beginner mistakes in the browser before code is sent to the execution service:
+ * unbalanced brackets, undefined variables, Python 2 print statements, missing returns
+ * and assignments used as conditions
+ */
+
+import { detectLanguageType } from './sandboxExercises'
+import type { EditorMarker } from './codeEditor'
+
+// ==================== TYPES ====================
+
+export type PreRunRule =
+  | 'unbalanced-brackets'
+  | 'undefined-variable'
+  | 'print-statement'
+  | 'missing-return'
+  | 'assignment-in-condition'
+
+export interface PreRunIssue {
+  rule: PreRunRule
+  /** 1-based line */
+  line: number
+  /** 1-based column */
+  column: number
+  severity: 'error' | 'warning'
+  hint: string
+  suggestion?: string
+}
+
+/**
+ * How the checks read a language: comment and string syntax, and which checks apply
+ */
+type LintFamily = 'javascript' | 'python' | 'c-like' | 'styling'
+
+// ==================== LANGUAGE FAMILIES ====================
+
+const PYTHON_IDS = [
+  'python', 'python-ml', 'python-backend', 'pandas', 'tensorflow', 'pytorch', 'scikit-learn',
+  'penetration-testing', 'cryptography',
+]
+
+const JAVASCRIPT_IDS = ['nodejs', 'javascript-games', 'react-native', 'web3js', 'ethereum', 'mongodb', 'firebase']
+
+const C_LIKE_IDS = [
+  'java', 'go', 'rust', 'c', 'cpp', 'csharp', 'kotlin', 'swift', 'flutter',
+  'unity-csharp', 'unreal', 'php', 'solidity',
+]
+
+/**
+ * Family of a language, or null for languages the checks don't understand (markup, SQL, YAML...)
+ */
+function lintFamily(languageId: string): LintFamily | null {
+  const languageType = detectLanguageType(languageId)
+  if (languageType === 'markup') return null
+  if (languageType === 'styling') return 'styling'
+  if (languageType === 'scripting' || languageType === 'framework') return 'javascript'
+  if (PYTHON_IDS.includes(languageId)) return 'python'
+  if (JAVASCRIPT_IDS.includes(languageId)) return 'javascript'
+  if (C_LIKE_IDS.includes(languageId)) return 'c-like'
+  return null
+}
+
+/**
+ * The undefined-variable check only runs where every name must be declared in the file.
+ * JSX text, TypeScript annotations and compiled languages' types would read as undefined names.
+ */
+const UNDEFINED_CHECK_IDS = ['javascript', 'nodejs', 'javascript-games', ...PYTHON_IDS]
+
+// ==================== SOURCE MASKING ====================
+
+interface CommentSyntax {
+  line: string[]
+  block?: [string, string]
+  quotes: string[]
+  /** Quotes whose contents have no escape sequences, like Go raw strings */
+  rawQuotes?: string[]
+}
+
+const COMMENT_SYNTAX: Record<LintFamily, CommentSyntax> = {
+  javascript: { line: ['//'], block: ['/*', '*/'], quotes: ['`', '"', "'"] },
+  python: { line: ['#'], quotes: ['"""', "'''", '"', "'"] },
+  'c-like': { line: ['//'], block: ['/*', '*/'], quotes: ['"'] },
+  styling: { line: [], block: ['/*', '*/'], quotes: ['"', "'"] },
+}
+
+/**
+ * Syntax for one language: Go adds raw strings (`...`), and every C-like language but Rust reads
+ * '...' as a char literal or string. In Rust a lone quote is a lifetime (&'a str).
+ */
+function commentSyntax(family: LintFamily, languageId: string): CommentSyntax {
+  const syntax = COMMENT_SYNTAX[family]
+  if (family !== 'c-like') return syntax
+  const rawQuotes = languageId === 'go' ? ['`'] : []
+  return {
+    ...syntax,
+    quotes: [...rawQuotes, ...syntax.quotes, ...(languageId === 'rust' ? [] : ["'"])],
+    rawQuotes,
+  }
+}
+
+const blank = (text: string) => text.replace(/[^\n]/g, ' ')
+
+// Keywords after which a "/" starts a regular expression rather than a division
+const REGEX_PRECEDING_KEYWORDS = /\b(?:return|typeof|instanceof|in|of|new|delete|void|throw|case|do|else|yield|await)$/
+
+/**
+ * Length of the JavaScript regular expression literal starting at `index`, or 0 when the "/"
+ * there is a division. Decided from the code before it: a regex can't follow a value, except at
+ * the start of a line, where automatic semicolon insertion may have ended the statement before it.
+ */
+function regexLiteralLength(code: string, masked: string, index: number): number {
+  const before = masked.trimEnd()
+  const startsLine = masked.slice(before.length).includes('\n')
+  if (before && !startsLine && !/[(,=:[!&|?{};+\-*%<>~^]$/.test(before) && !REGEX_PRECEDING_KEYWORDS.test(before)) return 0
+
+  let end = index + 1
+  let inClass = false
+  while (end < code.length && code[end] !== '\n') {
+    if (code[end] === '\\') {
+      end += 2
+      continue
+    }
+    if (code[end] === '[') inClass = true
+    else if (code[end] === ']') inClass = false
+    else if (code[end] === '/' && !inClass) {
+      const flags = code.slice(end + 1).match(/^[a-z]*/)?.[0] ?? ''
+      return end + 1 + flags.length - index
+    }
+    end++
+  }
+  return 0
+}
+
+/**
+ * Blanks out comments, string contents and JavaScript regex literals with their flags (keeping
+ * quotes, slashes and newlines) so every check can scan code with plain regular expressions and still report
+ * positions in the original text
+ */
+function maskSource(code: string, family: LintFamily, languageId: string): string {
+  const syntax = commentSyntax(family, languageId)
+  let masked = ''
+  let index = 0
+
+  while (index < code.length) {
+    const lineComment = syntax.line.find(token => code.startsWith(token, index))
+    if (lineComment) {
+      const end = code.indexOf('\n', index)
+      const stop = end === -1 ? code.length : end
+      masked += blank(code.slice(index, stop))
+      index = stop
+      continue
+    }
+
+    if (syntax.block && code.startsWith(syntax.block[0], index)) {
+      const end = code.indexOf(syntax.block[1], index + syntax.block[0].length)
+      const stop = end === -1 ? code.length : end + syntax.block[1].length
+      masked += blank(code.slice(index, stop))
+      index = stop
+      continue
+    }
+
+    if (family === 'javascript' && code[index] === '/') {
+      const length = regexLiteralLength(code, masked, index)
+      if (length > 0) {
+        const literal = code.slice(index, index + length)
+        const close = literal.lastIndexOf('/')
+        masked += `/${blank(literal.slice(1, close))}/${blank(literal.slice(close + 1))}`
+        index += length
+        continue
+      }
+    }
+
+    // Character literals in C-like languages ('a', '\n'); lone quotes are Rust lifetimes
+    if (family === 'c-like' && code[index] === "'") {
+      const literal = code.slice(index).match(/^'(\\.|[^\\'\n])'/)
+      if (literal) {
+        masked += `'${blank(literal[1])}'`
+        index += literal[0].length
+        continue
+      }
+    }
+
+    const quote = syntax.quotes.find(token => code.startsWith(token, index))
+    if (quote) {
+      const multiline = quote.length === 3 || quote === '`'
+      const raw = syntax.rawQuotes?.includes(quote)
+      let end = index + quote.length
+      while (end < code.length && !code.startsWith(quote, end) && (multiline || code[end] !== '\n')) {
+        end += code[end] === '\\' && !raw ? 2 : 1
+      }
+      // An apostrophe in JSX text or prose isn't a string; leave unterminated one-line quotes as they are
+      if (code.startsWith(quote, end) || multiline) {
+        masked += quote + blank(code.slice(index + quote.length, Math.min(end, code.length)))
+        masked += code.startsWith(quote, end) ? quote : ''
+        index = Math.min(end + quote.length, code.length)
+        continue
+      }
+    }
+
+    masked += code[index]
+    index++
+  }
+
+  return masked
+}
+
+function positionAt(code: string, offset: number): { line: number; column: number } {
+  const before = code.slice(0, offset).split('\n')
+  return { line: before.length, column: before[before.length - 1].length + 1 }
+}
+
+function issueAt(code: string, offset: number, issue: Omit<PreRunIssue, 'line' | 'column'>): PreRunIssue {
+  return { ...positionAt(code, offset), ...issue }
+}
+
+/**
+ * Offset of the bracket that closes the one at `open`, or -1 when it is never closed
+ */
+function matchingBracket(masked: string, open: number): number {
+  const closer = BRACKET_PAIRS[masked[open]]
+  let depth = 0
+  for (let index = open; index < masked.length; index++) {
+    if (masked[index] === masked[open]) depth++
+    else if (masked[index] === closer && --depth === 0) return index
+  }
+  return -1
+}
+
+/**
+ * Replaces every nested (...) and [...] group with spaces, leaving only top-level text
+ */
+function stripNestedGroups(text: string): string {
+  let previous
+  do {
+    previous = text
+    text = text.replace(/\([^()]*\)|\[[^[\]]*\]/g, match => ' '.repeat(match.length))
+  } while (text !== previous)
+  return text
+}
+
+/**
+ * Replaces every nested {...} block with spaces, leaving only top-level text
+ */
+function stripNestedBlocks(text: string): string {
+  let previous
+  do {
+    previous = text
+    text = text.replace(/\{[^{}]*\}/g, match => blank(match))
+  } while (text !== previous)
+  return text
+}
+
+const identifierPattern = () => /[A-Za-z_$][\w$]*/g
+
+function identifiersIn(text: string): string[] {
+  return text.match(identifierPattern()) ?? []
+}
+
+// ==================== BRACKETS ====================
+
+const BRACKET_PAIRS: Record<string, string> = { '(': ')', '[': ']', '{': '}' }
+const OPENERS: Record<string, string> = { ')': '(', ']': '[', '}': '{' }
+
+/**
+ * Reports the first bracket problem only; everything after an unbalanced bracket is noise.
+ * Warnings rather than errors: the masking is a heuristic, and a bracket in a string or regex
+ * it misreads must not stop valid code from running.
+ */
+function checkBrackets(code: string, masked: string): PreRunIssue[] {
+  const stack: { char: string; offset: number }[] = []
+
+  for (let offset = 0; offset < masked.length; offset++) {
+    const char = masked[offset]
+    if (BRACKET_PAIRS[char]) {
+      stack.push({ char, offset })
+    } else if (OPENERS[char]) {
+      const open = stack.pop()
+      if (!open) {
+        return [issueAt(code, offset, {
+          rule: 'unbalanced-brackets',
+          severity: 'warning',
+          hint: `There's an extra "${char}" here with no "${OPENERS[char]}" before it to close.`,
+          suggestion: `Remove it, or add the missing "${OPENERS[char]}" where the block or call starts.`,
+        })]
+      }
+      if (open.char !== OPENERS[char]) {
+        return [issueAt(code, offset, {
+          rule: 'unbalanced-brackets',
+          severity: 'warning',
+          hint: `This "${char}" closes a "${open.char}" from line ${positionAt(code, open.offset).line}.`,
+          suggestion: `Close the "${open.char}" with "${BRACKET_PAIRS[open.char]}" first, or check for a missing bracket in between.`,
+        })]
+      }
+    }
+  }
+
+  const unclosed = stack.pop()
+  if (!unclosed) return []
+  return [issueAt(code, unclosed.offset, {
+    rule: 'unbalanced-brackets',
+    severity: 'warning',
+    hint: `This "${unclosed.char}" is never closed.`,
+    suggestion: `Add a matching "${BRACKET_PAIRS[unclosed.char]}" where this block, list or call should end.`,
+  })]
+}
+
+// ==================== UNDEFINED VARIABLES ====================
+
+const JAVASCRIPT_KNOWN_NAMES = new Set([
+  // Keywords and literals
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else',
+  'export', 'extends', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof', 'let', 'new',
+  'return', 'super', 'switch', 'this', 'throw', 'try', 'typeof', 'var', 'void', 'while', 'with', 'yield',
+  'async', 'await', 'of', 'as', 'from', 'get', 'set', 'static', 'true', 'false', 'null', 'undefined',
+  'NaN', 'Infinity', 'arguments',
+  // Globals
+  'console', 'Math', 'JSON', 'Date', 'Array', 'Object', 'String', 'Number', 'Boolean', 'Symbol', 'BigInt',
+  'Promise', 'Map', 'Set', 'WeakMap', 'WeakSet', 'RegExp', 'Error', 'TypeError', 'RangeError',
+  'SyntaxError', 'ReferenceError', 'Intl', 'Reflect', 'Proxy', 'globalThis', 'parseInt', 'parseFloat',
+  'isNaN', 'isFinite', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'queueMicrotask',
+  'structuredClone', 'encodeURIComponent', 'decodeURIComponent', 'require', 'module', 'exports',
+  'process', 'Buffer', 'window', 'document', 'fetch', 'alert', 'prompt', 'confirm', 'localStorage',
+  'performance', 'URL', 'TextEncoder', 'TextDecoder',
+])
+
+const PYTHON_KNOWN_NAMES = new Set([
+  // Keywords and literals
+  'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else',
+  'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not',
+  'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield', 'match', 'case', 'True', 'False', 'None',
+  // Built-ins
+  'print', 'input', 'len', 'range', 'int', 'str', 'float', 'bool', 'list', 'dict', 'set', 'tuple', 'type',
+  'isinstance', 'issubclass', 'enumerate', 'zip', 'map', 'filter', 'sorted', 'reversed', 'sum', 'min',
+  'max', 'abs', 'round', 'open', 'any', 'all', 'ord', 'chr', 'hex', 'bin', 'oct', 'repr', 'format', 'id',
+  'hash', 'iter', 'next', 'super', 'object', 'property', 'staticmethod', 'classmethod', 'getattr',
+  'setattr', 'hasattr', 'delattr', 'divmod', 'pow', 'callable', 'vars', 'dir', 'exit', 'quit', 'bytes',
+  'bytearray', 'frozenset', 'complex', 'slice', 'help', 'NotImplemented', 'Ellipsis', '__name__', '__file__',
+  'Exception', 'BaseException', 'ValueError', 'TypeError', 'KeyError', 'IndexError', 'ZeroDivisionError',
+  'NameError', 'AttributeError', 'RuntimeError', 'StopIteration', 'NotImplementedError', 'ImportError',
+  'ModuleNotFoundError', 'OSError', 'FileNotFoundError', 'AssertionError', 'ArithmeticError',
+  'LookupError', 'KeyboardInterrupt', 'RecursionError', 'OverflowError',
+])
+
+/**
+ * Every name the program declares anywhere. Scope is ignored on purpose, so a name declared
+ * in one function never gets reported in another: the check would rather miss than nag.
+ */
+function declaredJavaScriptNames(masked: string): Set<string> {
+  const declared = new Set<string>()
+  const add = (text: string | undefined) => identifiersIn(text ?? '').forEach(name => declared.add(name))
+  const patterns = [
+    /\b(?:let|const|var)\s+([^=;\n]+?)\s*(?:=|;|\n|\bof\b|\bin\b)/g,
+    /,\s*([\w$]+)\s*=(?![=>])/g,
+    /\bfunction\s*\*?\s*([\w$]*)\s*\(([^)]*)\)/g,
+    /\bclass\s+([\w$]+)/g,
+    /\(([^()]*)\)\s*=>/g,
+    /([\w$]+)\s*=>/g,
+    /\bcatch\s*\(([^)]*)\)/g,
+    /\bimport\s+([^;]+?)\s+from\b/g,
+  ]
+  patterns.forEach(pattern => {
+    for (const match of masked.matchAll(pattern)) {
+      match.slice(1).forEach(add)
+    }
+  })
+  // Methods in classes and object literals: name(params) {
+  for (const match of masked.matchAll(/([\w$]+)\s*\(([^()]*)\)\s*\{/g)) {
+    if (!/^(?:if|for|while|switch|catch|function)$/.test(match[1])) match.slice(1).forEach(add)
+  }
+  // Class fields (count = 0, static max = 10, #secret;), read from each class body with its methods blanked out
+  for (const match of masked.matchAll(/\bclass\b[^{]*\{/g)) {
+    const open = (match.index ?? 0) + match[0].length - 1
+    const close = matchingBracket(masked, open)
+    const body = stripNestedBlocks(masked.slice(open + 1, close === -1 ? masked.length : close))
+    for (const field of body.matchAll(/(?:^|[;\n])\s*(?:static\s+)?#?([\w$]+)\s*(?=[=;\n}]|$)/g)) add(field[1])
+  }
+  // Statement labels (outer: for ...), named again by break and continue
+  for (const match of masked.matchAll(/(?:^|[;{}])\s*([\w$]+)\s*:\s*(?=(?:for|while|do)\b|\{)/gm)) {
+    add(match[1])
+  }
+  return declared
+}
+
+function declaredPythonNames(masked: string): Set<string> {
+  const declared = new Set<string>()
+  const add = (text: string | undefined) => identifiersIn(text ?? '').forEach(name => declared.add(name))
+  const patterns = [
+    /^\s*([\w\s,()[\].*]+?)\s*(?:[+\-*/%@&|^]|\/\/|\*\*|<<|>>)?=(?!=)/gm,
+    /^\s*(\w+)\s*:[^=\n]+=(?!=)/gm,
+    /\bfor\s+([\w\s,()]+?)\s+in\b/g,
+    /\bdef\s+(\w+)\s*\(([^)]*)\)/g,
+    /\bclass\s+(\w+)/g,
+    /^\s*import\s+(.+)$/gm,
+    /^\s*from\s+\S+\s+import\s+(.+)$/gm,
+    /\bas\s+(\w+)/g,
+    /\blambda\s+([^:]*):/g,
+    /\b(?:global|nonlocal)\s+(.+)$/gm,
+    /(\w+)\s*:=/g,
+  ]
+  patterns.forEach(pattern => {
+    for (const match of masked.matchAll(pattern)) {
+      match.slice(1).forEach(add)
+    }
+  })
+  return declared
+}
+
+function checkUndefinedNames(code: string, masked: string, family: LintFamily): PreRunIssue[] {
+  const isPython = family === 'python'
+  // Star imports and dynamic code can define names this scan can't see
+  if (isPython ? /\bimport\s+\*|\b(?:exec|eval|globals)\s*\(/.test(masked) : /\beval\s*\(|\bwith\s*\(/.test(masked)) {
+    return []
+  }
+
+  const known = isPython ? PYTHON_KNOWN_NAMES : JAVASCRIPT_KNOWN_NAMES
+  const declared = isPython ? declaredPythonNames(masked) : declaredJavaScriptNames(masked)
+  // Module names on import lines are not variables
+  const scanned = isPython ? masked.replace(/^\s*(?:import|from)\s.*$/gm, blank) : masked
+  const reported = new Set<string>()
+  const issues: PreRunIssue[] = []
+
+  for (const match of scanned.matchAll(identifierPattern())) {
+    const name = match[0]
+    const offset = match.index ?? 0
+    if (known.has(name) || declared.has(name) || reported.has(name)) continue
+
+    const before = scanned.slice(0, offset)
+    const after = scanned.slice(offset + name.length)
+    // Part of a number (1e5), a property (obj.name), an object key ({ name: 1 }), a string prefix (f"...")
+    // or a keyword argument (f(name=1))
+    if (/[\w$]$/.test(before) || /\.\s*$/.test(before) || /^\s*:(?!:)/.test(after) || /^['"`]/.test(after)) continue
+    // Private class members (#count, this.#count) are declared by the class, never global
+    if (!isPython && /#$/.test(before)) continue
+    if (isPython && /^\s*=(?!=)/.test(after)) continue
+    reported.add(name)
+    issues.push(issueAt(code, offset, {
+      rule: 'undefined-variable',
+      severity: 'warning',
+      hint: `"${name}" hasn't been defined yet.`,
+      suggestion: isPython
+        ? `Check the spelling, or give "${name}" a value (${name} = ...) before this line.`
+        : `Check the spelling, or declare it with let or const before this line.`,
+    }))
+  }
+
+  return issues
+}
+
+// ==================== PYTHON PRINT ====================
+
+function checkPrintStatements(code: string, masked: string): PreRunIssue[] {
+  const issues: PreRunIssue[] = []
+  for (const match of masked.matchAll(/^(\s*)print[ \t]+(?![(=.\s])/gm)) {
+    issues.push(issueAt(code, (match.index ?? 0) + match[1].length, {
+      rule: 'print-statement',
+      severity: 'error',
+      hint: 'In Python 3, print is a function, so it needs parentheses.',
+      suggestion: 'Write print("Hello") instead of print "Hello".',
+    }))
+  }
+  return issues
+}
+
+// ==================== MISSING RETURN ====================
+
+/**
+ * Whether a call to the function is used as a value somewhere outside its own body,
+ * e.g. `total = add(1, 2)` or `console.log(add(1, 2))`. Returns the offset of that call.
+ */
+function findValueUse(masked: string, name: string, body: [number, number]): number {
+  const call = new RegExp(`(?<![\\w$.])${name.replace(/\$/g, '\\$')}\\s*\\(`, 'g')
+  for (const match of masked.matchAll(call)) {
+    const offset = match.index ?? 0
+    if (offset >= body[0] && offset <= body[1]) continue
+    const before = masked.slice(0, offset).trimEnd()
+    // Arrow callbacks (() => greet()) usually call for the side effect
+    if (/=>$/.test(before)) continue
+    if (/[=(,[+\-*/%?!&|<>]$/.test(before) || /\breturn$/.test(before)) return offset
+  }
+  return -1
+}
+
+function missingReturnIssue(code: string, offset: number, name: string, family: LintFamily, useOffset: number): PreRunIssue {
+  const nothing = family === 'python' ? 'None' : 'undefined'
+  return issueAt(code, offset, {
+    rule: 'missing-return',
+    severity: 'warning',
+    hint: `"${name}" never returns a value, but its result is used on line ${positionAt(code, useOffset).line}, so that result will be ${nothing}.`,
+    suggestion: 'Add a return statement with the value the function should give back.',
+  })
+}
+
+function checkMissingReturnsJavaScript(code: string, masked: string): PreRunIssue[] {
+  const issues: PreRunIssue[] = []
+  const declarations = /\bfunction\s+([\w$]+)\s*\([^)]*\)\s*\{|\b(?:const|let|var)\s+([\w$]+)\s*=\s*(?:async\s+)?(?:function\s*[\w$]*\s*\([^)]*\)|\([^()]*\)\s*=>|[\w$]+\s*=>)\s*\{/g
+
+  for (const match of masked.matchAll(declarations)) {
+    const name = match[1] || match[2]
+    const open = (match.index ?? 0) + match[0].length - 1
+    const close = matchingBracket(masked, open)
+    if (close === -1 || /\breturn\b/.test(masked.slice(open, close))) continue
+    const use = findValueUse(masked, name, [open, close])
+    if (use !== -1) issues.push(missingReturnIssue(code, match.index ?? 0, name, 'javascript', use))
+  }
+  return issues
+}
+
+function checkMissingReturnsPython(code: string, masked: string): PreRunIssue[] {
+  const issues: PreRunIssue[] = []
+  const lines = masked.split('\n')
+  let offset = 0
+
+  lines.forEach((line, index) => {
+    const lineOffset = offset
+    offset += line.length + 1
+    const match = line.match(/^(\s*)def\s+(\w+)\s*\(/)
+    if (!match) return
+
+    // The body is every following line indented deeper than the def
+    const bodyLines: string[] = []
+    for (const next of lines.slice(index + 1)) {
+      if (next.trim() && next.match(/^\s*/)![0].length <= match[1].length) break
+      bodyLines.push(next)
+    }
+    const body = bodyLines.join('\n')
+    if (/\breturn\s+\S|\byield\b/.test(body)) return
+
+    const bodyEnd = lineOffset + line.length + 1 + body.length
+    const use = findValueUse(masked, match[2], [lineOffset, bodyEnd])
+    if (use !== -1) issues.push(missingReturnIssue(code, lineOffset + match[1].length, match[2], 'python', use))
+  })
+  return issues
+}
+
+/**
+ * Typed C-like functions (int add(...), func add(...) int, fun add(...): Int, func add(...) -> Int)
+ * whose body has no return. Rust is skipped: its last expression is the return value.
+ */
+function checkMissingReturnsTyped(code: string, masked: string, languageId: string): PreRunIssue[] {
+  if (languageId === 'rust') return []
+  const issues: PreRunIssue[] = []
+  const declarations = [
+    /\b(?:int|long|short|double|float|boolean|bool|char|String|string)\s+(?!main\b)(\w+)\s*\([^)]*\)\s*\{/g,
+    /\bfunc\s+(\w+)\s*\([^)]*\)\s*(?!throws\b|async\b)(?:[\w[\]*.]+|\([^)]*\))\s*\{/g,
+    /\bfun\s+(\w+)\s*\([^)]*\)\s*:\s*[\w<>?, ]+\s*\{/g,
+    /\bfunc\s+(\w+)\s*\([^)]*\)\s*->\s*[\w<>?[\], ]+\s*\{/g,
+  ]
+
+  declarations.forEach(pattern => {
+    for (const match of masked.matchAll(pattern)) {
+      const open = (match.index ?? 0) + match[0].length - 1
+      const close = matchingBracket(masked, open)
+      if (close === -1 || /\breturn\b|\bthrow\b|\bpanic\s*\(/.test(masked.slice(open, close))) continue
+      issues.push(issueAt(code, match.index ?? 0, {
+        rule: 'missing-return',
+        severity: 'warning',
+        hint: `"${match[1]}" says it returns a value, but its body has no return statement.`,
+        suggestion: 'Add a return statement with the value the function should give back, or make it return void.',
+      }))
+    }
+  })
+  return issues
+}
+
+// ==================== ASSIGNMENT IN CONDITION ====================
+
+/** A single = that isn't part of ==, ===, !=, <=, >=, =>, :=, += and friends */
+const SINGLE_EQUALS = /(?<![=!<>:+\-*/%&|^?])=(?![=>])/
+
+function assignmentIssue(code: string, offset: number, family: LintFamily): PreRunIssue {
+  const compare = family === 'javascript' ? '===' : '=='
+  return issueAt(code, offset, {
+    rule: 'assignment-in-condition',
+    severity: family === 'python' ? 'error' : 'warning',
+    hint: `A single = assigns a value; it doesn't compare. To check if two values are equal, use ${compare}.`,
+    suggestion: `Change = to ${compare} in this condition.`,
+  })
+}
+
+function checkConditionAssignments(code: string, masked: string, family: LintFamily): PreRunIssue[] {
+  const issues: PreRunIssue[] = []
+
+  if (family === 'python') {
+    for (const match of masked.matchAll(/^(\s*(?:if|elif|while)\s+)(.*):[ \t]*$/gm)) {
+      const condition = stripNestedGroups(match[2])
+      const equals = condition.search(SINGLE_EQUALS)
+      if (equals !== -1) issues.push(assignmentIssue(code, (match.index ?? 0) + match[1].length + equals, family))
+    }
+    return issues
+  }
+
+  for (const match of masked.matchAll(/\b(?:if|while)\b\s*/g)) {
+    const start = (match.index ?? 0) + match[0].length
+    let condition: string
+    let conditionStart: number
+    if (masked[start] === '(') {
+      const close = matchingBracket(masked, start)
+      if (close === -1) continue
+      conditionStart = start + 1
+      condition = masked.slice(conditionStart, close)
+    } else if (family === 'c-like') {
+      // Go, Rust, Swift and Kotlin conditions run up to the block; `if let` binds on purpose
+      const end = masked.indexOf('{', start)
+      if (end === -1) continue
+      conditionStart = start
+      condition = masked.slice(start, end)
+      if (/^(?:let|var|case)\b/.test(condition) || condition.includes('\n')) continue
+    } else {
+      continue
+    }
+    // Go's `if x := f(); x > 0` runs a statement before the condition
+    const statementEnd = condition.lastIndexOf(';')
+    const checked = stripNestedGroups(condition).slice(statementEnd + 1)
+    const equals = checked.search(SINGLE_EQUALS)
+    if (equals !== -1) issues.push(assignmentIssue(code, conditionStart + statementEnd + 1 + equals, family))
+  }
+  return issues
+}
+
+// ==================== ENTRY POINTS ====================
+
+/**
+ * Runs every check that applies to the language. Issues are ordered by position;
+ * languages the checks don't understand return none.
+ */
+export function runPreRunChecks(code: string, languageId: string): PreRunIssue[] {
+  const family = lintFamily(languageId)
+  if (!family || !code.trim()) return []
+
+  const masked = maskSource(code, family, languageId)
+  const issues = checkBrackets(code, masked)
+  if (family === 'styling') return issues
+
+  if (UNDEFINED_CHECK_IDS.includes(languageId)) issues.push(...checkUndefinedNames(code, masked, family))
+  if (family === 'python') {
+    issues.push(...checkPrintStatements(code, masked))
+    issues.push(...checkMissingReturnsPython(code, masked))
+  } else if (family === 'javascript') {
+    issues.push(...checkMissingReturnsJavaScript(code, masked))
+  } else {
+    issues.push(...checkMissingReturnsTyped(code, masked, languageId))
+  }
+  issues.push(...checkConditionAssignments(code, masked, family))
+
+  return issues.sort((a, b) => a.line - b.line || a.column - b.column)
+}
+
+/**
+ * Editor markers for pre-run issues, with the hint and suggestion in the tooltip
+ */
+export function preRunIssuesToMarkers(issues: PreRunIssue[]): EditorMarker[] {
+  return issues.map(issue => ({
+    line: issue.line,
+    column: issue.column,
+    severity: issue.severity,
+    message: issue.suggestion ? `${issue.hint}\n📝 ${issue.suggestion}` : issue.hint,
+  }))
+}
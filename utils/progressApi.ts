@@ -0,0 +1,216 @@
+// Progress API Client
+// Client-side calls to the /api/progress routes. XP, streaks, achievements, language and
+// project progress and tree growth are only written by these routes; the browser never writes them directly.
+
+import type { ExerciseGrade } from '@/lib/progress/sandboxGrading'
+import type { ProjectWorkState } from '@/utils/projectFiles'
+import type { ReviewCard, ReviewRating } from '@/utils/spacedRepetition'
+
+type Difficulty = 'easy' | 'medium' | 'hard'
+
+export interface GameAnswerResult {
+  correct: boolean
+  completedLevels: number[]
+  /** Whether the game at this difficulty has ever been finished */
+  completed: boolean
+  /** Whether this answer finished the game */
+  finishedGame: boolean
+  xpGranted: number
+}
+
+export interface SandboxSubmitResult {
+  grades: ExerciseGrade[]
+  correctExercises: number[]
+  passedThreshold: boolean
+  xpGranted: number
+}
+
+export interface StreakResult {
+  streak: number
+  increased: boolean
+  isNew: boolean
+  xpGranted: number
+}
+
+export interface RecomputeResult {
+  previousTotalXP: number
+  totalXP: number
+  level: number
+  overallGrowth: number
+}
+
+/**
+ * POST to a progress route and return its payload
+ * @throws Error with the route's message (or `failureMessage`) if the request fails
+ */
+async function postProgress<T>(path: string, body: object, failureMessage: string): Promise<T> {
+  let data: ({ success: boolean; error?: string } & T) | null = null
+  try {
+    const response = await fetch(`/api/progress/${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    })
+    data = await response.json().catch(() => null)
+  } catch (error) {
+    console.error(`Progress request to ${path} failed:`, error)
+  }
+
+  if (!data?.success) {
+    throw new Error(data?.error || failureMessage)
+  }
+  return data
+}
+
+/**
+ * Starts (or restarts) progress for a language
+ */
+export async function initializeLanguageProgress(
+  userCode: string,
+  languageKey: string,
+  difficulty: Difficulty,
+  totalTutorialSections: number,
+  totalGameLevels: number
+): Promise<void> {
+  await postProgress('language', { userCode, languageKey, difficulty, totalTutorialSections, totalGameLevels },
+    'Failed to initialize progress. Please try again.')
+}
+
+/**
+ * Saves tutorial position and proposes completed sections; the server returns the sections it
+ * accepted, and finishing the tutorial grants XP once
+ */
+export async function updateTutorialProgress(
+  userCode: string,
+  languageKey: string,
+  currentSection: number,
+  completedSections: number[]
+): Promise<{ completed: boolean; completedSections: number[]; xpGranted: number }> {
+  return postProgress<{ completed: boolean; completedSections: number[]; xpGranted: number }>('tutorial',
+    { userCode, languageKey, currentSection, completedSections },
+    'Failed to save tutorial progress. Please try again.')
+}
+
+/**
+ * Submits a quiz answer; the server grades it and grants any XP
+ */
+export async function submitGameAnswer(
+  userCode: string,
+  languageKey: string,
+  difficulty: Difficulty,
+  level: number,
+  answer: number,
+  gameState: { lives: number; hints: number; score: number }
+): Promise<GameAnswerResult> {
+  return postProgress<GameAnswerResult>('game/answer', { userCode, languageKey, difficulty, level, answer, ...gameState },
+    'Failed to save game progress. Please try again.')
+}
+
+/**
+ * Saves the current level and resumable game state
+ */
+export async function saveGameState(
+  userCode: string,
+  languageKey: string,
+  difficulty: Difficulty,
+  currentLevel: number,
+  gameState: { lives: number; hints: number; score: number }
+): Promise<void> {
+  await postProgress('game/state', { userCode, languageKey, difficulty, currentLevel, ...gameState },
+    'Failed to save game progress. Please try again.')
+}
+
+/**
+ * Submits every sandbox exercise for grading on the server
+ * @param submissions - Code per exercise index
+ */
+export async function submitSandbox(
+  userCode: string,
+  languageKey: string,
+  difficulty: Difficulty,
+  currentExercise: number,
+  submissions: Record<number, string>
+): Promise<SandboxSubmitResult> {
+  return postProgress<SandboxSubmitResult>('sandbox/submit', { userCode, languageKey, difficulty, currentExercise, submissions },
+    'Failed to grade your submission. Please try again.')
+}
+
+/**
+ * Saves which sandbox exercise the learner is on
+ */
+export async function saveSandboxPosition(
+  userCode: string,
+  languageKey: string,
+  difficulty: Difficulty,
+  currentExercise: number
+): Promise<void> {
+  await postProgress('sandbox/state', { userCode, languageKey, difficulty, currentExercise },
+    'Failed to save sandbox progress. Please try again.')
+}
+
+/**
+ * Records today's visit and updates the streak
+ */
+export async function claimDailyStreak(userCode: string): Promise<StreakResult> {
+  return postProgress<StreakResult>('streak', { userCode, timezoneOffset: new Date().getTimezoneOffset() },
+    'Failed to update streak. Please try again.')
+}
+
+/**
+ * Saves mini-project files and step position (completion only changes through completeProject)
+ */
+export async function saveProjectWork(userCode: string, projectId: string, workState: ProjectWorkState): Promise<void> {
+  await postProgress('project/save', { userCode, projectId, workState },
+    'Failed to save project progress. Please try again.')
+}
+
+/**
+ * Marks a mini-project complete
+ * @returns XP granted by this call (0 if the reward was already claimed)
+ */
+export async function completeProject(userCode: string, projectId: string, workState: ProjectWorkState): Promise<number> {
+  const result = await postProgress<{ xpGranted: number }>('project', { userCode, projectId, workState },
+    'Failed to save project completion. Please try again.')
+  return result.xpGranted
+}
+
+/**
+ * Unlocks every achievement the stored profile now qualifies for
+ * @returns Ids of the achievements unlocked by this call
+ */
+export async function checkAchievements(userCode: string): Promise<string[]> {
+  const result = await postProgress<{ unlocked: string[] }>('achievement', { userCode },
+    'Failed to check achievements. Please try again.')
+  return result.unlocked
+}
+
+/**
+ * Restarts a fully grown learning tree after its celebration
+ */
+export async function resetLearningTree(userCode: string): Promise<void> {
+  await postProgress('tree', { userCode }, 'Failed to reset tree progress. Please try again.')
+}
+
+/**
+ * Rebuilds totalXP, level and tree growth from the XP ledger
+ */
+export async function recomputeXP(userCode: string): Promise<RecomputeResult> {
+  return postProgress<RecomputeResult>('recompute', { userCode },
+    'Failed to recalculate XP. Please try again.')
+}
+
+/**
+ * Submits a review answer; correct answers carry the learner's rating
+ * @returns Whether the answer was correct and the rescheduled card
+ */
+export async function submitReview(
+  userCode: string,
+  cardId: string,
+  answer: number,
+  rating?: ReviewRating
+): Promise<{ correct: boolean; card: ReviewCard }> {
+  return postProgress<{ correct: boolean; card: ReviewCard }>('review', { userCode, cardId, answer, rating },
+    'Failed to save your review. Please try again.')
+}
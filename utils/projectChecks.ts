@@ -0,0 +1,250 @@
+import type { StepCheck } from './miniProjects'
+
+export interface StepCheckResult {
+  description: string
+  passed: boolean
+  message: string
+}
+
+// How long a preview gets to load and answer before every check counts as failed
+export const CHECK_TIMEOUT_MS = 4000
+
+/**
+ * Script appended to the preview document used for checking. Waits for the page to load,
+ * evaluates each check against the live DOM, computed styles and globals, and posts the results back.
+ * Also run by the server (lib/progress/projects.ts) against a copy of the page without its scripts.
+ */
+export const CHECK_RUNTIME = `(function () {
+  function show(value) {
+    try {
+      var json = JSON.stringify(value);
+      return json === undefined ? String(value) : json;
+    } catch (error) {
+      return String(value);
+    }
+  }
+  function describeCall(call) {
+    return call[0] + '(' + call.slice(1).map(show).join(', ') + ')';
+  }
+  function lookup(name) {
+    if (!/^[A-Za-z_$][\\w$]*$/.test(name)) return undefined;
+    try {
+      return (0, eval)(name);
+    } catch (error) {
+      return undefined;
+    }
+  }
+  function fail(message) {
+    return { passed: false, message: message };
+  }
+  var PASS = { passed: true, message: '' };
+
+  function checkExpectations(expectations) {
+    for (var i = 0; i < (expectations || []).length; i++) {
+      var expected = expectations[i];
+      var elements = Array.prototype.slice.call(document.querySelectorAll(expected.selector));
+      if (elements.length === 0) return fail('No element matches "' + expected.selector + '"');
+      if (expected.text !== undefined) {
+        var text = String(expected.text).toLowerCase();
+        var found = elements.some(function (element) {
+          return (element.textContent || '').toLowerCase().indexOf(text) !== -1;
+        });
+        if (!found) {
+          return fail('Expected "' + expected.selector + '" to contain "' + expected.text + '", but it shows "' + (elements[0].textContent || '').trim() + '"');
+        }
+      }
+    }
+    return PASS;
+  }
+
+  var handlers = {
+    element: function (check) {
+      var elements = Array.prototype.slice.call(document.querySelectorAll(check.selector));
+      var label = '"' + check.selector + '"';
+      if (check.attribute) {
+        elements = elements.filter(function (element) {
+          return element.hasAttribute(check.attribute) &&
+            (check.attributeValue === undefined || element.getAttribute(check.attribute) === check.attributeValue);
+        });
+        label += ' with ' + check.attribute + (check.attributeValue === undefined ? '' : '="' + check.attributeValue + '"');
+      }
+      if (check.text !== undefined) {
+        var text = String(check.text).toLowerCase();
+        elements = elements.filter(function (element) {
+          return (element.textContent || '').toLowerCase().indexOf(text) !== -1;
+        });
+        label += ' containing "' + check.text + '"';
+      }
+      var minCount = check.minCount || 1;
+      if (elements.length >= minCount) return PASS;
+      return elements.length === 0
+        ? fail('No element matches ' + label)
+        : fail('Expected at least ' + minCount + ' elements matching ' + label + ', found ' + elements.length);
+    },
+    style: function (check) {
+      var element = document.querySelector(check.selector);
+      if (!element) return fail('No element matches "' + check.selector + '"');
+      var added = check.withClass && !element.classList.contains(check.withClass);
+      if (added) element.classList.add(check.withClass);
+      var actual = getComputedStyle(element).getPropertyValue(check.property).trim();
+      if (added) element.classList.remove(check.withClass);
+      var target = '"' + check.selector + (check.withClass ? '.' + check.withClass : '') + '"';
+      if (check.equals !== undefined && actual !== check.equals) {
+        return fail('Expected ' + check.property + ' of ' + target + ' to be "' + check.equals + '", but it is "' + actual + '"');
+      }
+      if (check.includes !== undefined && actual.indexOf(check.includes) === -1) {
+        return fail('Expected ' + check.property + ' of ' + target + ' to include "' + check.includes + '", but it is "' + actual + '"');
+      }
+      if (check.notEquals !== undefined && actual === check.notEquals) {
+        return fail(check.property + ' of ' + target + ' is still the default "' + actual + '"');
+      }
+      return PASS;
+    },
+    rule: function (check) {
+      var rules = [];
+      Array.prototype.forEach.call(document.styleSheets, function (sheet) {
+        try {
+          Array.prototype.forEach.call(sheet.cssRules, function (rule) {
+            if (rule.selectorText && rule.selectorText.split(',').some(function (part) { return part.trim() === check.selector; })) {
+              rules.push(rule);
+            }
+          });
+        } catch (error) {
+          // Cross-origin stylesheets can't be read
+        }
+      });
+      if (rules.length === 0) return fail('No CSS rule targets "' + check.selector + '"');
+      if (!check.property) return PASS;
+      var sets = rules.some(function (rule) {
+        return Array.prototype.some.call(rule.style, function (name) {
+          return name === check.property || name.indexOf(check.property + '-') === 0;
+        });
+      });
+      return sets ? PASS : fail('The "' + check.selector + '" rule does not set ' + check.property);
+    },
+    'function': function (check) {
+      var fn = lookup(check.name);
+      if (fn === undefined) return fail('Function ' + check.name + '() is not defined');
+      if (typeof fn !== 'function') return fail(check.name + ' is not a function');
+
+      var inputs = check.inputs || {};
+      for (var selector in inputs) {
+        var field = document.querySelector(selector);
+        if (!field) return fail('No element matches "' + selector + '"');
+        field.value = inputs[selector];
+      }
+
+      var calls = check.calls || [[check.name]];
+      var returned;
+      for (var i = 0; i < calls.length; i++) {
+        var target = lookup(calls[i][0]);
+        if (typeof target !== 'function') return fail('Function ' + calls[i][0] + '() is not defined');
+        try {
+          returned = target.apply(window, calls[i].slice(1));
+        } catch (error) {
+          return fail(describeCall(calls[i]) + ' threw ' + (error && error.name ? error.name + ': ' + error.message : String(error)));
+        }
+      }
+      if ('returns' in check && show(returned) !== show(check.returns)) {
+        return fail('Expected ' + describeCall(calls[calls.length - 1]) + ' to return ' + show(check.returns) + ', but it returned ' + show(returned));
+      }
+      var result = checkExpectations(check.expect);
+      if (!result.passed) result.message = 'After ' + calls.map(describeCall).join(', ') + ': ' + result.message;
+      return result;
+    },
+    value: function (check) {
+      var actual;
+      try {
+        actual = (0, eval)(check.expression);
+      } catch (error) {
+        return fail(check.expression + ' could not be evaluated: ' + (error && error.message ? error.message : String(error)));
+      }
+      if ('equals' in check && show(actual) !== show(check.equals)) {
+        return fail('Expected ' + check.expression + ' to be ' + show(check.equals) + ', but it is ' + show(actual));
+      }
+      if (check.atLeast !== undefined && !(actual >= check.atLeast)) {
+        return fail('Expected ' + check.expression + ' to be at least ' + check.atLeast + ', but it is ' + show(actual));
+      }
+      return PASS;
+    }
+  };
+
+  function run(checks) {
+    return checks.map(function (check) {
+      var handler = handlers[check.type];
+      var result;
+      try {
+        result = handler ? handler(check) : fail('Unknown check type "' + check.type + '"');
+      } catch (error) {
+        result = fail('Check failed to run: ' + (error && error.message ? error.message : String(error)));
+      }
+      return { description: check.description, passed: result.passed, message: result.message };
+    });
+  }
+
+  window.addEventListener('message', function (event) {
+    var data = event.data;
+    if (!data || data.type !== 'vfs-run-checks') return;
+    function respond() {
+      parent.postMessage({ type: 'vfs-check-results', id: data.id, results: run(data.checks) }, '*');
+    }
+    if (document.readyState === 'complete') respond();
+    else window.addEventListener('load', respond);
+  });
+})();`
+
+/**
+ * Whether a check only reads the markup and stylesheets, so it gives the same result
+ * without running the page's scripts. Function and value checks call into the scripts.
+ */
+export function isStaticCheck(check: StepCheck): boolean {
+  return check.type === 'element' || check.type === 'style' || check.type === 'rule'
+}
+
+/**
+ * Run a step's checks against a fresh, hidden copy of the preview so the learner's
+ * own preview keeps its state. Resolves with one result per check, in order.
+ */
+export function runStepChecks(previewHtml: string, checks: StepCheck[], timeoutMs: number = CHECK_TIMEOUT_MS): Promise<StepCheckResult[]> {
+  if (checks.length === 0) return Promise.resolve([])
+
+  return new Promise(resolve => {
+    const requestId = `${Date.now()}-${Math.random().toString(36).slice(2)}`
+    const iframe = document.createElement('iframe')
+    iframe.setAttribute('sandbox', 'allow-scripts')
+    iframe.setAttribute('aria-hidden', 'true')
+    iframe.tabIndex = -1
+    // Rendered off-screen at a desktop size so layout-dependent styles compute normally
+    iframe.style.cssText = 'position:fixed;left:-10000px;top:0;width:1024px;height:768px;border:0;'
+
+    const finish = (results: StepCheckResult[]) => {
+      clearTimeout(timer)
+      window.removeEventListener('message', handleMessage)
+      iframe.remove()
+      resolve(results)
+    }
+
+    const timer = setTimeout(() => {
+      finish(checks.map(check => ({
+        description: check.description,
+        passed: false,
+        message: 'The preview did not respond in time. Check for endless loops or errors in the console.'
+      })))
+    }, timeoutMs)
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== iframe.contentWindow) return
+      const data = event.data
+      if (data?.type === 'vfs-check-results' && data.id === requestId && Array.isArray(data.results)) {
+        finish(data.results)
+      }
+    }
+
+    window.addEventListener('message', handleMessage)
+    iframe.addEventListener('load', () => {
+      iframe.contentWindow?.postMessage({ type: 'vfs-run-checks', id: requestId, checks }, '*')
+    })
+    iframe.srcdoc = `${previewHtml}\n<script>${CHECK_RUNTIME}</script>`
+    document.body.appendChild(iframe)
+  })
+}
@@ -0,0 +1,349 @@
+// Project virtual file system
+// Resolves relative references between mini-project files and bundles them into one preview document
+
+import type { MiniProject } from '@/utils/miniProjects'
+
+export interface VirtualFile {
+  /** Path relative to the project root, e.g. "index.html" or "js/utils.js" */
+  path: string
+  content: string
+}
+
+/**
+ * A file open in the project workspace (starter files keep their step target IDs)
+ */
+export interface WorkspaceFile {
+  id: string
+  name: string
+  language: string
+  /** Starter files come from the project definition and cannot be renamed or deleted */
+  isStarter: boolean
+}
+
+/**
+ * Everything needed to restore a project workspace (saved to the profile and local drafts)
+ */
+export interface ProjectWorkState {
+  files: WorkspaceFile[]
+  /** File contents keyed by file ID */
+  fileContents: Record<string, string>
+  currentStep: number
+  completedSteps: number[]
+}
+
+/**
+ * Fresh workspace state from a project's starter files
+ */
+export function getInitialWorkState(project: MiniProject): ProjectWorkState {
+  return {
+    files: project.files.map(file => ({ id: file.id, name: file.name, language: file.language, isStarter: true })),
+    fileContents: Object.fromEntries(project.files.map(file => [file.id, file.starterCode])),
+    currentStep: 0,
+    completedSteps: [],
+  }
+}
+
+/**
+ * Merge saved work into the current project definition: starter files that were added
+ * to the project since the save are restored, and out-of-range steps are dropped.
+ */
+export function restoreWorkState(project: MiniProject, saved: ProjectWorkState): ProjectWorkState {
+  const initial = getInitialWorkState(project)
+  const savedFiles = (saved.files || []).filter(file => file.isStarter
+    ? project.files.some(starter => starter.id === file.id)
+    : true
+  )
+  const missingStarters = initial.files.filter(starter => !savedFiles.some(file => file.id === starter.id))
+  const files = [...missingStarters, ...savedFiles]
+
+  return {
+    files,
+    fileContents: Object.fromEntries(files.map(file => [
+      file.id,
+      saved.fileContents?.[file.id] ?? initial.fileContents[file.id] ?? '',
+    ])),
+    currentStep: Math.min(Math.max(saved.currentStep || 0, 0), project.steps.length - 1),
+    completedSteps: (saved.completedSteps || []).filter(step => step >= 0 && step < project.steps.length),
+  }
+}
+
+/**
+ * A reference in a project file that does not point at any project file
+ */
+export interface MissingReference {
+  file: string
+  reference: string
+}
+
+export interface PreviewDocument {
+  html: string
+  /** Path of the HTML file the document was built from, null if the project has none */
+  entry: string | null
+  missing: MissingReference[]
+}
+
+export type PreviewConsoleLevel = 'log' | 'info' | 'warn' | 'error'
+
+/**
+ * Console message posted by the preview iframe
+ */
+export interface PreviewConsoleMessage {
+  level: PreviewConsoleLevel
+  /** Project file the message came from */
+  file: string | null
+  line: number | null
+  message: string
+}
+
+// Scheme used for module URLs and sourceURLs so stack traces name the project file
+const VFS_SCHEME = 'vfs:/'
+
+const FILE_LANGUAGES: Record<string, string> = {
+  html: 'html',
+  htm: 'html',
+  css: 'css',
+  js: 'javascript',
+  mjs: 'javascript',
+  json: 'json',
+  md: 'markdown',
+  txt: 'text',
+}
+
+/**
+ * Detect a file's language from its extension, or null if unsupported
+ */
+export function getFileLanguage(path: string): string | null {
+  const extension = path.split('.').pop()?.toLowerCase() || ''
+  return FILE_LANGUAGES[extension] ?? null
+}
+
+/**
+ * Normalize a project path: resolves "." and ".." segments and strips leading slashes.
+ * Returns null if the path escapes the project root.
+ */
+export function normalizePath(path: string): string | null {
+  const segments: string[] = []
+  for (const segment of path.split('/')) {
+    if (segment === '' || segment === '.') continue
+    if (segment === '..') {
+      if (segments.length === 0) return null
+      segments.pop()
+    } else {
+      segments.push(segment)
+    }
+  }
+  return segments.join('/')
+}
+
+/**
+ * Whether a reference points outside the project (URL with a scheme, protocol-relative or fragment)
+ */
+export function isExternalReference(reference: string): boolean {
+  return /^([a-z][a-z0-9+.-]*:|\/\/|#)/i.test(reference.trim())
+}
+
+/**
+ * Resolve a reference made from one project file to a project path.
+ * Returns null for external references and paths outside the project.
+ */
+export function resolveReference(fromPath: string, reference: string): string | null {
+  const target = reference.trim().split(/[?#]/)[0]
+  if (!target || isExternalReference(reference)) return null
+  if (target.startsWith('/')) return normalizePath(target)
+
+  const directory = fromPath.includes('/') ? fromPath.slice(0, fromPath.lastIndexOf('/')) : ''
+  return normalizePath(`${directory}/${target}`)
+}
+
+/**
+ * Validate a new or renamed file path. Returns an error message, or null if valid.
+ */
+export function validateFileName(name: string, files: WorkspaceFile[], ignoreId?: string): string | null {
+  const path = name.trim()
+  if (!path) return 'File name cannot be empty'
+  if (!/^[\w.-]+(\/[\w.-]+)*$/.test(path)) {
+    return 'Use letters, numbers, dots, dashes and underscores (folders separated by "/")'
+  }
+  if (normalizePath(path) !== path) return 'File name cannot contain "." or ".." folders'
+  if (!getFileLanguage(path)) {
+    return `Unsupported file type. Use one of: ${Object.keys(FILE_LANGUAGES).map(ext => `.${ext}`).join(', ')}`
+  }
+  const taken = files.some(file => file.id !== ignoreId && file.name.toLowerCase() === path.toLowerCase())
+  return taken ? `A file named "${path}" already exists` : null
+}
+
+// Matches static imports/re-exports, side-effect imports and dynamic imports with a string specifier
+const MODULE_SPECIFIER_PATTERN = /(\bimport\s*\(\s*|\b(?:import|export)\s+(?:[\w*{}\s,$]+?\s+from\s+)?)(['"])([^'"\n]+)\2/g
+
+/**
+ * Rewrite relative module specifiers to vfs: URLs so they resolve through the preview import map
+ */
+function rewriteModuleSpecifiers(source: string, fromPath: string, files: Map<string, string>, missing: MissingReference[]): string {
+  return source.replace(MODULE_SPECIFIER_PATTERN, (match, prefix: string, quote: string, specifier: string) => {
+    if (!/^(\.{1,2})?\//.test(specifier)) return match
+
+    const resolved = resolveReference(fromPath, specifier)
+    if (resolved === null || !files.has(resolved)) {
+      missing.push({ file: fromPath, reference: specifier })
+      return match
+    }
+    return `${prefix}${quote}${VFS_SCHEME}${resolved}${quote}`
+  })
+}
+
+/**
+ * Inline @import rules that point at project stylesheets
+ */
+function inlineStylesheet(path: string, files: Map<string, string>, missing: MissingReference[], seen: Set<string> = new Set()): string {
+  seen.add(path)
+  const source = files.get(path) ?? ''
+
+  return source.replace(/@import\s+(?:url\(\s*)?(['"]?)([^'")\s;]+)\1\s*\)?\s*;/g, (rule, _quote: string, reference: string) => {
+    if (isExternalReference(reference)) return rule
+    const resolved = resolveReference(path, reference)
+    if (resolved === null || !files.has(resolved)) {
+      missing.push({ file: path, reference })
+      return ''
+    }
+    if (seen.has(resolved)) return ''
+    return `/* ${resolved} */\n${inlineStylesheet(resolved, files, missing, seen)}`
+  })
+}
+
+function getAttribute(tag: string, name: string): string | null {
+  const match = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i').exec(tag)
+  return match ? (match[1] ?? match[2] ?? match[3]) : null
+}
+
+function escapeClosingTag(source: string, tagName: string): string {
+  return source.replace(new RegExp(`</${tagName}`, 'gi'), `<\\/${tagName}`)
+}
+
+/**
+ * Script injected first into every preview. Forwards console calls, uncaught errors and
+ * clicks on relative links to the workspace, naming the project file found in the stack trace.
+ */
+function getPreviewRuntime(entry: string): string {
+  return `(function () {
+  var ENTRY = ${JSON.stringify(entry)};
+  function locate(stack) {
+    var match = /vfs:\\/([^\\s)]+?):(\\d+)(?::\\d+)?/.exec(String(stack || ''));
+    return match ? { file: match[1], line: Number(match[2]) } : { file: ENTRY, line: null };
+  }
+  function format(value) {
+    if (typeof value === 'string') return value;
+    if (value instanceof Error) return value.name + ': ' + value.message;
+    try {
+      var json = JSON.stringify(value);
+      return json === undefined ? String(value) : json;
+    } catch (error) {
+      return String(value);
+    }
+  }
+  function post(level, location, message) {
+    parent.postMessage({ type: 'vfs-console', level: level, file: location.file, line: location.line, message: message }, '*');
+  }
+  ['log', 'info', 'warn', 'error'].forEach(function (level) {
+    var original = console[level];
+    console[level] = function () {
+      post(level, locate(new Error().stack), Array.prototype.map.call(arguments, format).join(' '));
+      return original.apply(console, arguments);
+    };
+  });
+  window.addEventListener('error', function (event) {
+    var location = event.error && event.error.stack ? locate(event.error.stack) : locate(event.filename + ':' + event.lineno);
+    post('error', location, event.error ? format(event.error) : event.message);
+  });
+  window.addEventListener('unhandledrejection', function (event) {
+    var reason = event.reason;
+    post('error', locate(reason && reason.stack), 'Uncaught (in promise) ' + format(reason));
+  });
+  document.addEventListener('click', function (event) {
+    var link = event.target && event.target.closest ? event.target.closest('a[href]') : null;
+    var href = link && link.getAttribute('href');
+    if (!href || /^([a-z][a-z0-9+.-]*:|\\/\\/|#)/i.test(href)) return;
+    event.preventDefault();
+    parent.postMessage({ type: 'vfs-navigate', href: href }, '*');
+  });
+})();`
+}
+
+/**
+ * Build a self-contained preview document from project files.
+ * Stylesheet links and scripts are inlined, ES modules are served through an import map,
+ * and every script carries a sourceURL so errors can be traced back to their file.
+ */
+export function buildPreviewDocument(virtualFiles: VirtualFile[], entryPath?: string): PreviewDocument {
+  const files = new Map(virtualFiles.map(file => [file.path, file.content]))
+  const entry = entryPath && files.has(entryPath)
+    ? entryPath
+    : virtualFiles.find(file => file.path === 'index.html')?.path
+      ?? virtualFiles.find(file => getFileLanguage(file.path) === 'html')?.path
+      ?? null
+
+  if (!entry) {
+    return { html: '<p style="font-family: sans-serif">Add an index.html file to see a preview.</p>', entry: null, missing: [] }
+  }
+
+  const missing: MissingReference[] = []
+
+  // Every JavaScript file is importable as a module through the import map
+  const imports: Record<string, string> = {}
+  virtualFiles
+    .filter(file => getFileLanguage(file.path) === 'javascript')
+    .forEach(file => {
+      const source = `${rewriteModuleSpecifiers(file.content, file.path, files, missing)}\n//# sourceURL=${VFS_SCHEME}${file.path}`
+      imports[`${VFS_SCHEME}${file.path}`] = `data:text/javascript;charset=utf-8,${encodeURIComponent(source)}`
+    })
+
+  let html = files.get(entry) ?? ''
+
+  // <link rel="stylesheet" href="..."> -> inline <style>
+  html = html.replace(/<link\b[^>]*>/gi, tag => {
+    const href = getAttribute(tag, 'href')
+    if (!href || !/stylesheet/i.test(getAttribute(tag, 'rel') || '') || isExternalReference(href)) return tag
+
+    const resolved = resolveReference(entry, href)
+    if (resolved === null || !files.has(resolved)) {
+      missing.push({ file: entry, reference: href })
+      return ''
+    }
+    return `<style data-file="${resolved}">\n${escapeClosingTag(inlineStylesheet(resolved, files, missing), 'style')}\n</style>`
+  })
+
+  // <script src="..."> -> inline classic script or module import; inline modules get their imports rewritten
+  html = html.replace(/<script\b([^>]*)>([\s\S]*?)<\/script>/gi, (tag, attributes: string, body: string) => {
+    const isModule = /^module$/i.test(getAttribute(attributes, 'type') || '')
+    const src = getAttribute(attributes, 'src')
+
+    if (!src) {
+      return isModule
+        ? `<script type="module">${rewriteModuleSpecifiers(body, entry, files, missing)}</script>`
+        : tag
+    }
+    if (isExternalReference(src)) return tag
+
+    const resolved = resolveReference(entry, src)
+    if (resolved === null || !files.has(resolved)) {
+      missing.push({ file: entry, reference: src })
+      return ''
+    }
+    if (isModule) {
+      return `<script type="module">import '${VFS_SCHEME}${resolved}'</script>`
+    }
+    const source = escapeClosingTag(files.get(resolved) ?? '', 'script')
+    return `<script data-file="${resolved}">${source}\n//# sourceURL=${VFS_SCHEME}${resolved}</script>`
+  })
+
+  // Runtime and import map must come before any other script
+  const head = `<script>${getPreviewRuntime(entry)}</script>\n<script type="importmap">${JSON.stringify({ imports })}</script>\n`
+  if (/<head\b[^>]*>/i.test(html)) {
+    html = html.replace(/<head\b[^>]*>/i, match => `${match}\n${head}`)
+  } else if (/<html\b[^>]*>/i.test(html)) {
+    html = html.replace(/<html\b[^>]*>/i, match => `${match}\n<head>\n${head}</head>`)
+  } else {
+    html = `${head}${html}`
+  }
+
+  return { html, entry, missing }
+}
@@ -0,0 +1,2031 @@
+/**
+ * Python Builtins
+ * Built-in functions, types, exceptions, methods and the standard modules available to the
+ * offline Python interpreter in pythonTracer.ts.
+ */
+
+import { UnsupportedFeatureError } from './pythonParser'
+import type { PythonInterpreter } from './pythonTracer'
+import {
+  NOT_IMPLEMENTED,
+  ELLIPSIS,
+  PyBoundMethod,
+  PyBuiltin,
+  PyClass,
+  PyClassMethod,
+  PyDict,
+  PyFile,
+  PyFunction,
+  PyGenerator,
+  PyInstance,
+  PyIterator,
+  PyList,
+  PyMatch,
+  PyModule,
+  PyPattern,
+  PyProperty,
+  PyRange,
+  PySet,
+  PySlice,
+  PyStaticMethod,
+  PySuper,
+  PyTuple,
+  PyView,
+  PythonException,
+  isNumeric,
+  quoteString,
+  toNumeric,
+  type Kwargs,
+  type NativeFunction,
+  type PyValue,
+} from './pythonValues'
+
+export type Builtins = Map<string, PyValue>
+
+const EXCEPTION_TREE: [string, string][] = [
+  ['SystemExit', 'BaseException'],
+  ['KeyboardInterrupt', 'BaseException'],
+  ['GeneratorExit', 'BaseException'],
+  ['Exception', 'BaseException'],
+  ['ArithmeticError', 'Exception'],
+  ['ZeroDivisionError', 'ArithmeticError'],
+  ['OverflowError', 'ArithmeticError'],
+  ['AssertionError', 'Exception'],
+  ['AttributeError', 'Exception'],
+  ['EOFError', 'Exception'],
+  ['ImportError', 'Exception'],
+  ['ModuleNotFoundError', 'ImportError'],
+  ['LookupError', 'Exception'],
+  ['IndexError', 'LookupError'],
+  ['KeyError', 'LookupError'],
+  ['MemoryError', 'Exception'],
+  ['NameError', 'Exception'],
+  ['UnboundLocalError', 'NameError'],
+  ['OSError', 'Exception'],
+  ['FileNotFoundError', 'OSError'],
+  ['FileExistsError', 'OSError'],
+  ['PermissionError', 'OSError'],
+  ['RuntimeError', 'Exception'],
+  ['RecursionError', 'RuntimeError'],
+  ['NotImplementedError', 'RuntimeError'],
+  ['StopIteration', 'Exception'],
+  ['SyntaxError', 'Exception'],
+  ['TypeError', 'Exception'],
+  ['ValueError', 'Exception'],
+]
+
+// ==================== HELPERS ====================
+
+function builtin(name: string, call: NativeFunction): PyBuiltin {
+  return new PyBuiltin(name, call)
+}
+
+/** A method stored on a class, called with the instance first */
+function method(name: string, call: NativeFunction): PyBuiltin {
+  return new PyBuiltin(name, call, true)
+}
+
+/** Positional argument or keyword argument of the same name */
+function param(args: PyValue[], kwargs: Kwargs, index: number, name: string): PyValue | undefined {
+  return index < args.length ? args[index] : kwargs.get(name)
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`
+}
+
+function checkArity(py: PythonInterpreter, name: string, args: PyValue[], min: number, max = min) {
+  if (args.length >= min && args.length <= max) return
+  if (min === max) throw py.error('TypeError', `${name}() takes exactly ${plural(min, 'argument')} (${args.length} given)`)
+  if (args.length < min) throw py.error('TypeError', `${name} expected at least ${plural(min, 'argument')}, got ${args.length}`)
+  throw py.error('TypeError', `${name} expected at most ${plural(max, 'argument')}, got ${args.length}`)
+}
+
+function unsupported(py: PythonInterpreter, feature: string): UnsupportedFeatureError {
+  return new UnsupportedFeatureError(feature, py.frames[py.frames.length - 1]?.line ?? 0)
+}
+
+function toInteger(py: PythonInterpreter, value: PyValue | undefined): bigint {
+  if (value !== undefined && isNumeric(value)) {
+    const number = toNumeric(value)
+    if (typeof number === 'bigint') return number
+  }
+  throw py.error('TypeError', `'${py.typeName(value ?? null)}' object cannot be interpreted as an integer`)
+}
+
+function toFloat(py: PythonInterpreter, value: PyValue | undefined): number {
+  if (value !== undefined && isNumeric(value)) return Number(toNumeric(value))
+  throw py.error('TypeError', `must be real number, not ${py.typeName(value ?? null)}`)
+}
+
+function toText(py: PythonInterpreter, value: PyValue | undefined, context: string): string {
+  if (typeof value === 'string') return value
+  throw py.error('TypeError', `${context} must be str, not ${py.typeName(value ?? null)}`)
+}
+
+/** Python's int(text, base), or null when the text isn't a valid literal */
+function parseInteger(text: string, base: number): bigint | null {
+  let body = text.trim().toLowerCase()
+  let negative = false
+  if (/^[+-]/.test(body)) {
+    negative = body[0] === '-'
+    body = body.slice(1)
+  }
+  const prefixes: Record<string, number> = { '0x': 16, '0o': 8, '0b': 2 }
+  const prefix = body.slice(0, 2)
+  if (prefixes[prefix] && (base === 0 || base === prefixes[prefix])) {
+    base = prefixes[prefix]
+    body = body.slice(2).replace(/^_/, '')
+  } else if (base === 0) {
+    if (/^0+[1-9]/.test(body)) return null
+    base = 10
+  }
+  if (!/^[0-9a-z]+(_[0-9a-z]+)*$/.test(body)) return null
+  let result = 0n
+  for (const char of body.replace(/_/g, '')) {
+    const digit = parseInt(char, 36)
+    if (digit >= base) return null
+    result = result * BigInt(base) + BigInt(digit)
+  }
+  return negative ? -result : result
+}
+
+function parseFloatLiteral(text: string): number | null {
+  const body = text.trim().toLowerCase().replace(/_/g, '')
+  if (/^[+-]?(inf|infinity)$/.test(body)) return body.startsWith('-') ? -Infinity : Infinity
+  if (/^[+-]?nan$/.test(body)) return NaN
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/.test(body)) return null
+  return Number(body)
+}
+
+/** Round half to even, like Python's round() */
+function roundHalfEven(value: number): number {
+  const floor = Math.floor(value)
+  const difference = value - floor
+  if (difference > 0.5) return floor + 1
+  if (difference < 0.5) return floor
+  return floor % 2 === 0 ? floor : floor + 1
+}
+
+/**
+ * round(value, places) on the float's exact binary value, so round(2.675, 2) is 2.67 as in Python
+ */
+function roundToPlaces(value: number, places: number): number {
+  const view = new DataView(new ArrayBuffer(8))
+  view.setFloat64(0, Math.abs(value))
+  const bits = view.getBigUint64(0)
+  const biasedExponent = Number((bits >> 52n) & 0x7ffn)
+  const fraction = bits & ((1n << 52n) - 1n)
+  const mantissa = biasedExponent === 0 ? fraction : fraction | (1n << 52n)
+  const exponent = biasedExponent === 0 ? -1074 : biasedExponent - 1075
+
+  // value * 10^places as the exact fraction numerator / denominator
+  let numerator = mantissa * (places >= 0 ? 10n ** BigInt(places) : 1n)
+  let denominator = places < 0 ? 10n ** BigInt(-places) : 1n
+  if (exponent >= 0) numerator <<= BigInt(exponent)
+  else denominator <<= BigInt(-exponent)
+
+  let quotient = numerator / denominator
+  const twiceRemainder = (numerator % denominator) * 2n
+  if (twiceRemainder > denominator || (twiceRemainder === denominator && quotient % 2n === 1n)) quotient++
+  const rounded = Number(`${quotient}e${-places}`)
+  return value < 0 ? -rounded : rounded
+}
+
+function formatInteger(value: bigint, radix: number, prefix: string): string {
+  return value < 0n ? `-${prefix}${(-value).toString(radix)}` : `${prefix}${value.toString(radix)}`
+}
+
+/** Stable sort using Python's < on the items or their keys */
+function sortValues(py: PythonInterpreter, items: PyValue[], key: PyValue, reverse: boolean): PyValue[] {
+  const keyed = items.map(item => ({ item, key: key === null ? item : py.callValue(key, [item]) }))
+  keyed.sort((a, b) => {
+    const [first, second] = reverse ? [b, a] : [a, b]
+    if (py.lessThan(first.key, second.key)) return -1
+    if (py.lessThan(second.key, first.key)) return 1
+    return 0
+  })
+  return keyed.map(entry => entry.item)
+}
+
+function stringHash(text: string): bigint {
+  let hash = 0x811c9dc5
+  for (let index = 0; index < text.length; index++) {
+    hash ^= text.charCodeAt(index)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return BigInt(hash | 0)
+}
+
+function fillDict(py: PythonInterpreter, dict: PyDict, source: PyValue | undefined, kwargs: Kwargs) {
+  if (source !== undefined) {
+    if (source instanceof PyDict || (source instanceof PyInstance && py.findMethod(source, 'keys'))) {
+      py.mappingItems(source).forEach(([key, value]) => py.dictSet(dict, key, value))
+    } else {
+      let index = 0
+      for (const pair of py.iterate(source)) {
+        const items = py.isIterable(pair) ? [...py.iterate(pair)] : null
+        if (!items) throw py.error('TypeError', `cannot convert dictionary update sequence element #${index} to a sequence`)
+        if (items.length !== 2) throw py.error('ValueError', `dictionary update sequence element #${index} has length ${items.length}; 2 is required`)
+        py.dictSet(dict, items[0], items[1])
+        index++
+      }
+    }
+  }
+  kwargs.forEach((value, key) => py.dictSet(dict, key, value))
+}
+
+function countInto(py: PythonInterpreter, counter: PyDict, source: PyValue | undefined, sign: bigint) {
+  if (source === undefined) return
+  const add = (key: PyValue, amount: PyValue) => {
+    const current = py.dictGet(counter, key) ?? 0n
+    py.dictSet(counter, key, py.binaryOperation('+', current, sign > 0n ? amount : py.binaryOperation('*', amount, -1n)))
+  }
+  if (source instanceof PyDict) source.entries.forEach(([key, amount]) => add(key, amount))
+  else for (const item of py.iterate(source)) add(item, 1n)
+}
+
+function copyDict(py: PythonInterpreter, dict: PyDict): PyDict {
+  const copy = new PyDict(dict.typeName, dict.defaultFactory)
+  dict.entries.forEach((entry, hash) => copy.entries.set(hash, [...entry]))
+  return copy
+}
+
+// ==================== BUILTINS ====================
+
+/**
+ * The builtins namespace for one interpreter: functions, types and the exception hierarchy
+ */
+export function createBuiltins(py: PythonInterpreter): Builtins {
+  const names: Builtins = new Map()
+  const define = (name: string, call: NativeFunction) => names.set(name, builtin(name, call))
+  const defineType = (name: string, construct: NativeFunction, bases: PyClass[] = [objectClass]) => {
+    const cls = new PyClass(name, bases, new Map(), construct, 'builtins')
+    names.set(name, cls)
+    return cls
+  }
+
+  // ---------- object and exceptions ----------
+
+  const objectClass: PyClass = new PyClass('object', [], new Map(), null, 'builtins')
+  objectClass.construct = () => new PyInstance(objectClass)
+  objectClass.namespace.set('__init__', method('__init__', () => null))
+  names.set('object', objectClass)
+
+  const baseException = new PyClass('BaseException', [objectClass], new Map(), null, 'builtins')
+  baseException.namespace.set('__init__', method('__init__', ([self, ...args]) => {
+    if (self instanceof PyInstance) self.attributes.set('args', new PyTuple(args))
+    return null
+  }))
+  baseException.namespace.set('__str__', method('__str__', ([self]) => {
+    const args = self instanceof PyInstance ? self.attributes.get('args') : null
+    if (!(args instanceof PyTuple) || args.items.length === 0) return ''
+    if (args.items.length > 1) return py.repr(args)
+    const [value] = args.items
+    return self instanceof PyInstance && self.cls.mro.some(cls => cls.name === 'KeyError' && cls.module === 'builtins') ? py.repr(value) : py.str(value)
+  }))
+  names.set('BaseException', baseException)
+  EXCEPTION_TREE.forEach(([name, base]) => {
+    names.set(name, new PyClass(name, [names.get(base) as PyClass], new Map(), null, 'builtins'))
+  })
+  names.set('IOError', names.get('OSError') as PyValue)
+
+  // ---------- types ----------
+
+  const intClass = defineType('int', (args, kwargs) => {
+    const value = param(args, kwargs, 0, 'x') ?? 0n
+    const base = param(args, kwargs, 1, 'base')
+    if (base !== undefined) {
+      const text = toText(py, value, "int() can't convert non-string with explicit base")
+      const parsed = parseInteger(text, Number(toInteger(py, base)))
+      if (parsed === null) throw py.error('ValueError', `invalid literal for int() with base ${base}: ${quoteString(text)}`)
+      return parsed
+    }
+    if (typeof value === 'string') {
+      const parsed = parseInteger(value, 10)
+      if (parsed === null) throw py.error('ValueError', `invalid literal for int() with base 10: ${quoteString(value)}`)
+      return parsed
+    }
+    if (isNumeric(value)) {
+      const number = toNumeric(value)
+      if (typeof number === 'bigint') return number
+      if (Number.isNaN(number)) throw py.error('ValueError', 'cannot convert float NaN to integer')
+      if (!Number.isFinite(number)) throw py.error('OverflowError', 'cannot convert float infinity to integer')
+      return BigInt(Math.trunc(number))
+    }
+    const convert = py.findMethod(value, '__int__') ?? py.findMethod(value, '__index__')
+    if (convert) return py.callValue(convert, [])
+    throw py.error('TypeError', `int() argument must be a string, a bytes-like object or a real number, not '${py.typeName(value)}'`)
+  })
+
+  defineType('bool', args => (args.length === 0 ? false : py.isTruthy(args[0])), [intClass])
+
+  defineType('float', args => {
+    const value = args[0] ?? 0
+    if (typeof value === 'string') {
+      const parsed = parseFloatLiteral(value)
+      if (parsed === null) throw py.error('ValueError', `could not convert string to float: ${quoteString(value)}`)
+      return parsed
+    }
+    if (isNumeric(value)) return Number(toNumeric(value))
+    const convert = py.findMethod(value, '__float__')
+    if (convert) return py.callValue(convert, [])
+    throw py.error('TypeError', `float() argument must be a string or a real number, not '${py.typeName(value)}'`)
+  })
+
+  defineType('str', args => (args.length === 0 ? '' : py.str(args[0])))
+  defineType('list', args => new PyList(args.length === 0 ? [] : [...py.iterate(args[0])]))
+  defineType('tuple', args => new PyTuple(args.length === 0 ? [] : [...py.iterate(args[0])]))
+
+  const dictClass = defineType('dict', (args, kwargs) => {
+    const dict = new PyDict()
+    fillDict(py, dict, args[0], kwargs)
+    return dict
+  })
+  dictClass.namespace.set('fromkeys', new PyStaticMethod(builtin('fromkeys', args => {
+    checkArity(py, 'fromkeys', args, 1, 2)
+    const dict = new PyDict()
+    for (const key of py.iterate(args[0])) py.dictSet(dict, key, args[1] ?? null)
+    return dict
+  })))
+
+  const makeSet = (args: PyValue[]) => {
+    const set = new PySet()
+    if (args.length > 0) for (const item of py.iterate(args[0])) py.setAdd(set, item)
+    return set
+  }
+  defineType('set', makeSet)
+  names.set('frozenset', names.get('set') as PyValue)
+
+  defineType('range', args => {
+    checkArity(py, 'range', args, 1, 3)
+    const [start, stop] = args.length === 1 ? [0n, toInteger(py, args[0])] : [toInteger(py, args[0]), toInteger(py, args[1])]
+    const step = args.length === 3 ? toInteger(py, args[2]) : 1n
+    if (step === 0n) throw py.error('ValueError', 'range() arg 3 must not be zero')
+    return new PyRange(start, stop, step)
+  })
+
+  defineType('slice', args => {
+    checkArity(py, 'slice', args, 1, 3)
+    return args.length === 1 ? new PySlice(null, args[0], null) : new PySlice(args[0], args[1], args[2] ?? null)
+  })
+
+  defineType('type', args => {
+    if (args.length === 1) return py.typeOf(args[0])
+    checkArity(py, 'type', args, 3)
+    const [name, bases, namespace] = args
+    if (typeof name !== 'string' || !(bases instanceof PyTuple) || !(namespace instanceof PyDict)) {
+      throw py.error('TypeError', 'type() argument 1 must be str, 2 must be tuple and 3 must be dict')
+    }
+    const members = new Map<string, PyValue>()
+    namespace.entries.forEach(([key, value]) => members.set(py.str(key), value))
+    const parents = bases.items.length > 0 ? (bases.items as PyClass[]) : [objectClass]
+    return new PyClass(name, parents, members)
+  })
+
+  defineType('staticmethod', args => new PyStaticMethod(args[0] ?? null))
+  defineType('classmethod', args => new PyClassMethod(args[0] ?? null))
+  defineType('property', (args, kwargs) => new PyProperty(param(args, kwargs, 0, 'fget') ?? null, param(args, kwargs, 1, 'fset') ?? null))
+
+  defineType('super', args => {
+    if (args.length === 2) {
+      if (!(args[0] instanceof PyClass)) throw py.error('TypeError', 'super() argument 1 must be a type')
+      return new PySuper(args[0], args[1])
+    }
+    const frame = py.frames[py.frames.length - 1]
+    const func = frame.func
+    const firstParam = func?.params[0]
+    if (!func?.ownerClass || !firstParam || !frame.scope.vars.has(firstParam.name)) throw py.error('RuntimeError', 'super(): no arguments')
+    return new PySuper(func.ownerClass, frame.scope.vars.get(firstParam.name) as PyValue)
+  })
+
+  // ---------- output and input ----------
+
+  define('print', (args, kwargs) => {
+    const sep = kwargs.get('sep') ?? null
+    const end = kwargs.get('end') ?? null
+    const text = args.map(arg => py.str(arg)).join(sep === null ? ' ' : toText(py, sep, 'sep')) + (end === null ? '\n' : toText(py, end, 'end'))
+    const file = kwargs.get('file') ?? null
+    if (file instanceof PyFile) writeFile(py, file, text)
+    else py.write(text)
+    return null
+  })
+
+  define('input', args => {
+    checkArity(py, 'input', args, 0, 1)
+    if (args.length > 0) py.write(py.str(args[0]))
+    const line = py.readLine(py.stdin)
+    if (line === '') throw py.error('EOFError', 'EOF when reading a line')
+    return line.replace(/\r?\n$/, '')
+  })
+
+  define('open', (args, kwargs) => {
+    const name = toText(py, param(args, kwargs, 0, 'file'), 'open() argument "file"')
+    const mode = toText(py, param(args, kwargs, 1, 'mode') ?? 'r', 'open() argument "mode"')
+    if (/[wx]/.test(mode)) {
+      if (mode.includes('x') && py.files.has(name)) throw py.error('FileExistsError', `[Errno 17] File exists: ${quoteString(name)}`)
+      py.files.set(name, '')
+      return new PyFile(name, mode, '')
+    }
+    const content = py.files.get(name)
+    if (content === undefined) {
+      if (mode.includes('a')) {
+        py.files.set(name, '')
+        return new PyFile(name, mode, '')
+      }
+      throw py.error('FileNotFoundError', `[Errno 2] No such file or directory: ${quoteString(name)}`)
+    }
+    const file = new PyFile(name, mode, content)
+    if (mode.includes('a')) file.position = content.length
+    return file
+  })
+
+  // ---------- sequences and iteration ----------
+
+  define('len', args => {
+    checkArity(py, 'len', args, 1)
+    const [value] = args
+    if (typeof value === 'string') return BigInt([...value].length)
+    if (value instanceof PyList || value instanceof PyTuple) return BigInt(value.items.length)
+    if (value instanceof PyDict || value instanceof PySet) return BigInt(value.entries.size)
+    if (value instanceof PyView) return BigInt(value.dict.entries.size)
+    if (value instanceof PyRange) return value.length
+    const len = py.findMethod(value, '__len__')
+    if (len) return py.callValue(len, [])
+    throw py.error('TypeError', `object of type '${py.typeName(value)}' has no len()`)
+  })
+
+  define('sorted', (args, kwargs) => {
+    checkArity(py, 'sorted', args, 1)
+    return new PyList(sortValues(py, [...py.iterate(args[0])], kwargs.get('key') ?? null, py.isTruthy(kwargs.get('reverse') ?? false)))
+  })
+
+  define('reversed', args => {
+    checkArity(py, 'reversed', args, 1)
+    const [value] = args
+    const reverse = py.findMethod(value, '__reversed__')
+    if (value instanceof PyInstance && reverse) return py.callValue(reverse, [])
+    const sequence = value instanceof PyList || value instanceof PyTuple || typeof value === 'string' || value instanceof PyRange || value instanceof PyDict || value instanceof PyView
+    if (!sequence && !(value instanceof PyInstance && py.findMethod(value, '__getitem__'))) {
+      throw py.error('TypeError', `'${py.typeName(value)}' object is not reversible`)
+    }
+    return new PyIterator('reversed', [...py.iterate(value)].reverse()[Symbol.iterator]())
+  })
+
+  define('enumerate', (args, kwargs) => {
+    const iterator = py.iterate(param(args, kwargs, 0, 'iterable') ?? null)
+    let index = toInteger(py, param(args, kwargs, 1, 'start') ?? 0n)
+    return new PyIterator('enumerate', (function* () {
+      for (const item of iterator) yield new PyTuple([index++, item])
+    })())
+  })
+
+  define('zip', (args, kwargs) => {
+    const iterators = args.map(arg => py.iterate(arg))
+    const strict = py.isTruthy(kwargs.get('strict') ?? false)
+    return new PyIterator('zip', (function* () {
+      if (iterators.length === 0) return
+      for (;;) {
+        const results = iterators.map(iterator => iterator.next())
+        const finished = results.filter(result => result.done).length
+        if (finished > 0) {
+          if (strict && finished < results.length) throw py.error('ValueError', 'zip() arguments have different lengths')
+          return
+        }
+        yield new PyTuple(results.map(result => result.value as PyValue))
+      }
+    })())
+  })
+
+  define('map', args => {
+    if (args.length < 2) throw py.error('TypeError', 'map() must have at least two arguments.')
+    const [func, ...iterables] = args
+    const iterators = iterables.map(iterable => py.iterate(iterable))
+    return new PyIterator('map', (function* () {
+      for (;;) {
+        const results = iterators.map(iterator => iterator.next())
+        if (results.some(result => result.done)) return
+        yield py.callValue(func, results.map(result => result.value as PyValue))
+      }
+    })())
+  })
+
+  define('filter', args => {
+    checkArity(py, 'filter', args, 2)
+    const [func, iterable] = args
+    const iterator = py.iterate(iterable)
+    return new PyIterator('filter', (function* () {
+      for (const item of iterator) {
+        if (py.isTruthy(func === null ? item : py.callValue(func, [item]))) yield item
+      }
+    })())
+  })
+
+  define('iter', args => {
+    checkArity(py, 'iter', args, 1)
+    const [value] = args
+    if (value instanceof PyGenerator || value instanceof PyIterator || value instanceof PyFile) return value
+    const iter = value instanceof PyInstance ? py.findMethod(value, '__iter__') : undefined
+    if (iter) return py.callValue(iter, [])
+    return new PyIterator(`${py.typeName(value)}_iterator`, py.iterate(value))
+  })
+
+  define('next', args => {
+    checkArity(py, 'next', args, 1, 2)
+    const item = py.nextItem(args[0])
+    if (item !== undefined) return item
+    if (args.length === 2) return args[1]
+    throw py.error('StopIteration')
+  })
+
+  define('all', args => {
+    checkArity(py, 'all', args, 1)
+    for (const item of py.iterate(args[0])) if (!py.isTruthy(item)) return false
+    return true
+  })
+
+  define('any', args => {
+    checkArity(py, 'any', args, 1)
+    for (const item of py.iterate(args[0])) if (py.isTruthy(item)) return true
+    return false
+  })
+
+  // ---------- numbers ----------
+
+  define('sum', (args, kwargs) => {
+    checkArity(py, 'sum', args, 1, 2)
+    let total: PyValue = param(args, kwargs, 1, 'start') ?? 0n
+    if (typeof total === 'string') throw py.error('TypeError', "sum() can't sum strings [use ''.join(seq) instead]")
+    for (const item of py.iterate(args[0])) total = py.binaryOperation('+', total, item)
+    return total
+  })
+
+  const extreme = (name: string, largest: boolean) => define(name, (args, kwargs) => {
+    if (args.length === 0) throw py.error('TypeError', `${name} expected at least 1 argument, got 0`)
+    const key = kwargs.get('key') ?? null
+    const items = args.length === 1 ? [...py.iterate(args[0])] : args
+    if (items.length === 0) {
+      if (kwargs.has('default')) return kwargs.get('default') as PyValue
+      throw py.error('ValueError', `${name}() iterable argument is empty`)
+    }
+    let best = items[0]
+    let bestKey = key === null ? best : py.callValue(key, [best])
+    for (const item of items.slice(1)) {
+      const itemKey = key === null ? item : py.callValue(key, [item])
+      if (largest ? py.lessThan(bestKey, itemKey) : py.lessThan(itemKey, bestKey)) {
+        best = item
+        bestKey = itemKey
+      }
+    }
+    return best
+  })
+  extreme('min', false)
+  extreme('max', true)
+
+  define('abs', args => {
+    checkArity(py, 'abs', args, 1)
+    const [value] = args
+    if (isNumeric(value)) {
+      const number = toNumeric(value)
+      return typeof number === 'bigint' ? (number < 0n ? -number : number) : Math.abs(number)
+    }
+    const absolute = py.findMethod(value, '__abs__')
+    if (absolute) return py.callValue(absolute, [])
+    throw py.error('TypeError', `bad operand type for abs(): '${py.typeName(value)}'`)
+  })
+
+  define('round', (args, kwargs) => {
+    checkArity(py, 'round', args, 1, 2)
+    const [value] = args
+    const digits = param(args, kwargs, 1, 'ndigits') ?? null
+    if (!isNumeric(value)) {
+      const round = py.findMethod(value, '__round__')
+      if (round) return py.callValue(round, digits === null ? [] : [digits])
+      throw py.error('TypeError', `type ${py.typeName(value)} doesn't define __round__ method`)
+    }
+    const number = toNumeric(value)
+    if (digits === null) {
+      if (typeof number === 'bigint') return number
+      if (!Number.isFinite(number)) throw py.error(Number.isNaN(number) ? 'ValueError' : 'OverflowError', 'cannot convert float to integer')
+      return BigInt(roundHalfEven(number))
+    }
+    const places = Number(toInteger(py, digits))
+    if (typeof number === 'bigint') {
+      if (places >= 0) return number
+      const factor = 10n ** BigInt(-places)
+      return BigInt(roundHalfEven(Number(number) / Number(factor))) * factor
+    }
+    return Number.isFinite(number) ? roundToPlaces(number, places) : number
+  })
+
+  define('divmod', args => {
+    checkArity(py, 'divmod', args, 2)
+    return new PyTuple([py.binaryOperation('//', args[0], args[1]), py.binaryOperation('%', args[0], args[1])])
+  })
+
+  define('pow', args => {
+    checkArity(py, 'pow', args, 2, 3)
+    if (args.length === 2 || args[2] === null) return py.binaryOperation('**', args[0], args[1])
+    let base = toInteger(py, args[0])
+    let exponent = toInteger(py, args[1])
+    const modulus = toInteger(py, args[2])
+    if (modulus === 0n) throw py.error('ValueError', 'pow() 3rd argument cannot be 0')
+    if (exponent < 0n) throw unsupported(py, 'Modular inverses')
+    let result = 1n
+    base = ((base % modulus) + modulus) % modulus
+    while (exponent > 0n) {
+      if (exponent & 1n) result = (result * base) % modulus
+      base = (base * base) % modulus
+      exponent >>= 1n
+    }
+    return modulus < 0n && result > 0n ? result + modulus : result
+  })
+
+  define('hex', args => formatInteger(toInteger(py, args[0]), 16, '0x'))
+  define('oct', args => formatInteger(toInteger(py, args[0]), 8, '0o'))
+  define('bin', args => formatInteger(toInteger(py, args[0]), 2, '0b'))
+
+  define('ord', args => {
+    checkArity(py, 'ord', args, 1)
+    const text = toText(py, args[0], 'ord() argument')
+    const chars = [...text]
+    if (chars.length !== 1) throw py.error('TypeError', `ord() expected a character, but string of length ${chars.length} found`)
+    return BigInt(chars[0].codePointAt(0) as number)
+  })
+
+  define('chr', args => {
+    checkArity(py, 'chr', args, 1)
+    const code = toInteger(py, args[0])
+    if (code < 0n || code > 0x10ffffn) throw py.error('ValueError', 'chr() arg not in range(0x110000)')
+    return String.fromCodePoint(Number(code))
+  })
+
+  // ---------- objects ----------
+
+  define('isinstance', args => {
+    checkArity(py, 'isinstance', args, 2)
+    const check = (classInfo: PyValue): boolean => {
+      if (classInfo instanceof PyTuple) return classInfo.items.some(check)
+      if (!(classInfo instanceof PyClass)) throw py.error('TypeError', 'isinstance() arg 2 must be a type, a tuple of types, or a union')
+      return py.isInstance(args[0], classInfo)
+    }
+    return check(args[1])
+  })
+
+  define('issubclass', args => {
+    checkArity(py, 'issubclass', args, 2)
+    const [cls] = args
+    if (!(cls instanceof PyClass)) throw py.error('TypeError', 'issubclass() arg 1 must be a class')
+    const check = (classInfo: PyValue): boolean => {
+      if (classInfo instanceof PyTuple) return classInfo.items.some(check)
+      if (!(classInfo instanceof PyClass)) throw py.error('TypeError', 'issubclass() arg 2 must be a class, a tuple of classes, or a union')
+      return cls.mro.includes(classInfo)
+    }
+    return check(args[1])
+  })
+
+  define('callable', args => {
+    checkArity(py, 'callable', args, 1)
+    const [value] = args
+    if (value instanceof PyFunction || value instanceof PyBuiltin || value instanceof PyBoundMethod || value instanceof PyClass) return true
+    return value instanceof PyInstance && py.findInMro(value.cls, '__call__') !== undefined
+  })
+
+  const isAttributeError = (error: unknown) => error instanceof PythonException && py.isInstance(error.exception, names.get('AttributeError') as PyClass)
+
+  define('getattr', args => {
+    checkArity(py, 'getattr', args, 2, 3)
+    const name = toText(py, args[1], 'attribute name')
+    try {
+      return py.getAttribute(args[0], name)
+    } catch (error) {
+      if (args.length === 3 && isAttributeError(error)) return args[2]
+      throw error
+    }
+  })
+
+  define('hasattr', args => {
+    checkArity(py, 'hasattr', args, 2)
+    try {
+      py.getAttribute(args[0], toText(py, args[1], 'attribute name'))
+      return true
+    } catch (error) {
+      if (isAttributeError(error)) return false
+      throw error
+    }
+  })
+
+  define('setattr', args => {
+    checkArity(py, 'setattr', args, 3)
+    py.setAttribute(args[0], toText(py, args[1], 'attribute name'), args[2])
+    return null
+  })
+
+  define('delattr', args => {
+    checkArity(py, 'delattr', args, 2)
+    const [target] = args
+    const name = toText(py, args[1], 'attribute name')
+    if (!(target instanceof PyInstance) || !target.attributes.delete(name)) {
+      throw py.error('AttributeError', `'${py.typeName(target)}' object has no attribute '${name}'`)
+    }
+    return null
+  })
+
+  define('vars', args => {
+    checkArity(py, 'vars', args, 1)
+    return py.getAttribute(args[0], '__dict__')
+  })
+
+  define('repr', args => {
+    checkArity(py, 'repr', args, 1)
+    return py.repr(args[0])
+  })
+  names.set('ascii', names.get('repr') as PyValue)
+
+  define('format', args => {
+    checkArity(py, 'format', args, 1, 2)
+    return py.format(args[0], args.length === 2 ? toText(py, args[1], 'format_spec') : '')
+  })
+
+  define('id', args => {
+    checkArity(py, 'id', args, 1)
+    const [value] = args
+    if (value !== null && typeof value === 'object') return BigInt(0x7f3a1c000000 + py.objectId(value) * 0x30)
+    return stringHash(py.hashKey(value)) & 0xffffffffn
+  })
+
+  define('hash', args => {
+    checkArity(py, 'hash', args, 1)
+    const [value] = args
+    if (isNumeric(value) && typeof toNumeric(value) === 'bigint') return toNumeric(value)
+    const hash = value instanceof PyInstance ? py.findMethod(value, '__hash__') : undefined
+    if (hash) return py.callValue(hash, [])
+    return stringHash(py.hashKey(value))
+  })
+
+  const exit = (args: PyValue[]) => {
+    throw new PythonException(py.instantiate(names.get('SystemExit') as PyClass, args) as PyInstance)
+  }
+  define('exit', exit)
+  define('quit', exit)
+
+  names.set('NotImplemented', NOT_IMPLEMENTED)
+  names.set('Ellipsis', ELLIPSIS)
+  return names
+}
+
+// ==================== FILES ====================
+
+function writeFile(py: PythonInterpreter, file: PyFile, text: string) {
+  if (file.closed) throw py.error('ValueError', 'I/O operation on closed file.')
+  if (file.name === '<stdout>' || file.name === '<stderr>') {
+    py.write(text)
+    return
+  }
+  if (!/[wax+]/.test(file.mode)) throw py.error('OSError', 'not writable')
+  file.content = file.content.slice(0, file.position) + text + file.content.slice(file.position + text.length)
+  file.position += text.length
+  py.files.set(file.name, file.content)
+}
+
+function checkReadable(py: PythonInterpreter, file: PyFile) {
+  if (file.closed) throw py.error('ValueError', 'I/O operation on closed file.')
+  if (!/[r+]/.test(file.mode)) throw py.error('OSError', 'not readable')
+}
+
+// ==================== METHODS ====================
+
+type Method<T> = (self: T, args: PyValue[], kwargs: Kwargs) => PyValue
+
+interface MethodTables {
+  str: Record<string, Method<string>>
+  list: Record<string, Method<PyList>>
+  tuple: Record<string, Method<PyTuple>>
+  dict: Record<string, Method<PyDict>>
+  set: Record<string, Method<PySet>>
+  file: Record<string, Method<PyFile>>
+  generator: Record<string, Method<PyGenerator>>
+  pattern: Record<string, Method<PyPattern>>
+  match: Record<string, Method<PyMatch>>
+  property: Record<string, Method<PyProperty>>
+  int: Record<string, Method<bigint>>
+  float: Record<string, Method<number>>
+}
+
+const methodTables = new WeakMap<PythonInterpreter, MethodTables>()
+
+/**
+ * A method of a built-in value, such as "abc".upper or [].append, bound to the value
+ */
+export function nativeMethod(py: PythonInterpreter, value: PyValue, name: string): PyValue | null {
+  let tables = methodTables.get(py)
+  if (!tables) {
+    tables = createMethodTables(py)
+    methodTables.set(py, tables)
+  }
+  const bind = <T>(table: Record<string, Method<T>>, self: T): PyValue | null => {
+    if (!Object.hasOwn(table, name)) return null
+    const call = table[name]
+    return builtin(name, (args, kwargs) => call(self, args, kwargs))
+  }
+
+  if (typeof value === 'string') return bind(tables.str, value)
+  if (typeof value === 'bigint' || typeof value === 'boolean') return bind(tables.int, toNumeric(value) as bigint)
+  if (typeof value === 'number') return bind(tables.float, value)
+  if (value instanceof PyList) return bind(tables.list, value)
+  if (value instanceof PyTuple) return bind(tables.tuple, value)
+  if (value instanceof PyDict) return bind(tables.dict, value)
+  if (value instanceof PySet) return bind(tables.set, value)
+  if (value instanceof PyFile) return bind(tables.file, value)
+  if (value instanceof PyGenerator) return bind(tables.generator, value)
+  if (value instanceof PyPattern) return bind(tables.pattern, value)
+  if (value instanceof PyMatch) return bind(tables.match, value)
+  if (value instanceof PyProperty) return bind(tables.property, value)
+  return null
+}
+
+function createMethodTables(py: PythonInterpreter): MethodTables {
+  const chars = (text: string) => [...text]
+
+  const strip = (text: string, charsArg: PyValue | undefined, left: boolean, right: boolean) => {
+    const remove = charsArg === undefined || charsArg === null ? null : new Set(chars(toText(py, charsArg, 'strip arg')))
+    const shouldRemove = (char: string) => (remove ? remove.has(char) : /\s/.test(char))
+    const letters = chars(text)
+    let start = 0
+    let end = letters.length
+    if (left) while (start < end && shouldRemove(letters[start])) start++
+    if (right) while (end > start && shouldRemove(letters[end - 1])) end--
+    return letters.slice(start, end).join('')
+  }
+
+  const split = (text: string, args: PyValue[], kwargs: Kwargs, fromRight: boolean): PyList => {
+    const separator = param(args, kwargs, 0, 'sep') ?? null
+    const limit = Number(toInteger(py, param(args, kwargs, 1, 'maxsplit') ?? -1n))
+    if (separator === null) {
+      const words = text.split(/\s+/).filter(Boolean)
+      if (limit < 0 || words.length <= limit + 1) return new PyList(words)
+      const result: string[] = []
+      if (fromRight) {
+        let rest = text.replace(/\s+$/, '')
+        while (result.length < limit) {
+          const gap = /\s+(?=\S*$)/.exec(rest)
+          if (!gap) break
+          result.unshift(rest.slice(gap.index + gap[0].length))
+          rest = rest.slice(0, gap.index)
+        }
+        if (rest) result.unshift(rest)
+        return new PyList(result)
+      }
+      let rest = text.replace(/^\s+/, '')
+      while (result.length < limit) {
+        const gap = /\s+/.exec(rest)
+        if (!gap) break
+        result.push(rest.slice(0, gap.index))
+        rest = rest.slice(gap.index + gap[0].length)
+      }
+      if (rest) result.push(rest)
+      return new PyList(result)
+    }
+    const sep = toText(py, separator, 'must be str or None')
+    if (sep === '') throw py.error('ValueError', 'empty separator')
+    const pieces = text.split(sep)
+    if (limit < 0 || pieces.length <= limit + 1) return new PyList(pieces)
+    if (fromRight) return new PyList([pieces.slice(0, pieces.length - limit).join(sep), ...pieces.slice(pieces.length - limit)])
+    return new PyList([...pieces.slice(0, limit), pieces.slice(limit).join(sep)])
+  }
+
+  const bounds = (text: string, args: PyValue[], offset: number): [number, number] => {
+    const length = chars(text).length
+    const [start, stop] = py.sliceIndices(new PySlice(args[offset] ?? null, args[offset + 1] ?? null, null), length)
+    return [start, stop]
+  }
+
+  const findIn = (text: string, args: PyValue[], last: boolean): number => {
+    const needle = toText(py, args[0], 'must be str')
+    const [start, stop] = bounds(text, args, 1)
+    const letters = chars(text)
+    const region = letters.slice(start, stop).join('')
+    const index = last ? region.lastIndexOf(needle) : region.indexOf(needle)
+    return index === -1 ? -1 : start + chars(region.slice(0, index)).length
+  }
+
+  const affix = (name: string, test: (text: string, affixText: string) => boolean) => (self: string, args: PyValue[]) => {
+    const [start, stop] = bounds(self, args, 1)
+    const region = chars(self).slice(start, stop).join('')
+    const options = args[0] instanceof PyTuple ? args[0].items : [args[0]]
+    return options.some(option => test(region, toText(py, option, `${name} first arg`)))
+  }
+
+  const pad = (self: string, args: PyValue[], align: 'left' | 'right' | 'center') => {
+    const width = Number(toInteger(py, args[0]))
+    const fill = args.length > 1 ? toText(py, args[1], 'fill character') : ' '
+    const length = chars(self).length
+    if (width <= length) return self
+    const padding = width - length
+    if (align === 'left') return self + fill.repeat(padding)
+    if (align === 'right') return fill.repeat(padding) + self
+    const left = Math.floor(padding / 2) + (padding % 2 && width % 2 ? 1 : 0)
+    return fill.repeat(left) + self + fill.repeat(padding - left)
+  }
+
+  const test = (pattern: RegExp) => (self: string) => self.length > 0 && pattern.test(self)
+
+  const str: Record<string, Method<string>> = {
+    upper: self => self.toUpperCase(),
+    lower: self => self.toLowerCase(),
+    casefold: self => self.toLowerCase(),
+    swapcase: self => chars(self).map(char => (char === char.toUpperCase() ? char.toLowerCase() : char.toUpperCase())).join(''),
+    capitalize: self => (self ? chars(self)[0].toUpperCase() + chars(self).slice(1).join('').toLowerCase() : ''),
+    title: self => self.toLowerCase().replace(/(^|\P{L})(\p{L})/gu, (_match, before: string, letter: string) => before + letter.toUpperCase()),
+    strip: (self, args) => strip(self, args[0], true, true),
+    lstrip: (self, args) => strip(self, args[0], true, false),
+    rstrip: (self, args) => strip(self, args[0], false, true),
+    split: (self, args, kwargs) => split(self, args, kwargs, false),
+    rsplit: (self, args, kwargs) => split(self, args, kwargs, true),
+    splitlines: (self, args, kwargs) => {
+      const keepEnds = py.isTruthy(param(args, kwargs, 0, 'keepends') ?? false)
+      const lines = self.match(/[^\r\n]*(\r\n|\r|\n)|[^\r\n]+$/g) ?? []
+      return new PyList(keepEnds ? lines : lines.map(line => line.replace(/(\r\n|\r|\n)$/, '')))
+    },
+    join: (self, args) => {
+      checkArity(py, 'join', args, 1)
+      const parts: string[] = []
+      for (const item of py.iterate(args[0])) {
+        if (typeof item !== 'string') throw py.error('TypeError', `sequence item ${parts.length}: expected str instance, ${py.typeName(item)} found`)
+        parts.push(item)
+      }
+      return parts.join(self)
+    },
+    replace: (self, args) => {
+      checkArity(py, 'replace', args, 2, 3)
+      const old = toText(py, args[0], 'replace() argument 1')
+      const replacement = toText(py, args[1], 'replace() argument 2')
+      const count = args.length === 3 ? Number(toInteger(py, args[2])) : -1
+      if (count < 0) return self.split(old).join(replacement)
+      const pieces = self.split(old)
+      return pieces.slice(0, count + 1).join(replacement) + (pieces.length > count + 1 ? old + pieces.slice(count + 1).join(old) : '')
+    },
+    find: (self, args) => BigInt(findIn(self, args, false)),
+    rfind: (self, args) => BigInt(findIn(self, args, true)),
+    index: (self, args) => {
+      const index = findIn(self, args, false)
+      if (index === -1) throw py.error('ValueError', 'substring not found')
+      return BigInt(index)
+    },
+    rindex: (self, args) => {
+      const index = findIn(self, args, true)
+      if (index === -1) throw py.error('ValueError', 'substring not found')
+      return BigInt(index)
+    },
+    count: (self, args) => {
+      const needle = toText(py, args[0], 'must be str')
+      const [start, stop] = bounds(self, args, 1)
+      const region = chars(self).slice(start, stop).join('')
+      return BigInt(needle === '' ? chars(region).length + 1 : region.split(needle).length - 1)
+    },
+    startswith: affix('startswith', (text, prefix) => text.startsWith(prefix)),
+    endswith: affix('endswith', (text, suffix) => text.endsWith(suffix)),
+    isdigit: test(/^\d+$/),
+    isnumeric: test(/^\d+$/),
+    isdecimal: test(/^\d+$/),
+    isalpha: test(/^[^\W\d_]+$/u),
+    isalnum: test(/^[^\W_]+$/u),
+    isspace: test(/^\s+$/),
+    isupper: self => /[A-Z]/.test(self) && self === self.toUpperCase(),
+    islower: self => /[a-z]/.test(self) && self === self.toLowerCase(),
+    isidentifier: self => /^[A-Za-z_]\w*$/.test(self),
+    istitle: self => /[A-Za-z]/.test(self) && self === str.title(self, [], new Map()),
+    center: (self, args) => pad(self, args, 'center'),
+    ljust: (self, args) => pad(self, args, 'left'),
+    rjust: (self, args) => pad(self, args, 'right'),
+    zfill: (self, args) => {
+      const width = Number(toInteger(py, args[0]))
+      const sign = /^[+-]/.test(self) ? self[0] : ''
+      const body = self.slice(sign.length)
+      return sign + body.padStart(width - sign.length, '0')
+    },
+    partition: (self, args) => {
+      const sep = toText(py, args[0], 'partition() argument')
+      const index = self.indexOf(sep)
+      return new PyTuple(index === -1 ? [self, '', ''] : [self.slice(0, index), sep, self.slice(index + sep.length)])
+    },
+    rpartition: (self, args) => {
+      const sep = toText(py, args[0], 'rpartition() argument')
+      const index = self.lastIndexOf(sep)
+      return new PyTuple(index === -1 ? ['', '', self] : [self.slice(0, index), sep, self.slice(index + sep.length)])
+    },
+    removeprefix: (self, args) => {
+      const prefix = toText(py, args[0], 'removeprefix() argument')
+      return prefix && self.startsWith(prefix) ? self.slice(prefix.length) : self
+    },
+    removesuffix: (self, args) => {
+      const suffix = toText(py, args[0], 'removesuffix() argument')
+      return suffix && self.endsWith(suffix) ? self.slice(0, -suffix.length) : self
+    },
+    format: (self, args, kwargs) => formatString(py, self, args, kwargs),
+    encode: () => {
+      throw unsupported(py, 'bytes objects')
+    },
+  }
+
+  // ---------- lists, deques and queues ----------
+
+  const popFrom = (self: PyList, index: number, emptyMessage: string) => {
+    if (self.items.length === 0) throw py.error('IndexError', emptyMessage)
+    const position = index < 0 ? index + self.items.length : index
+    if (position < 0 || position >= self.items.length) throw py.error('IndexError', 'pop index out of range')
+    return self.items.splice(position, 1)[0]
+  }
+
+  const indexOf = (items: PyValue[], args: PyValue[], typeName: string) => {
+    const [start, stop] = py.sliceIndices(new PySlice(args[1] ?? null, args[2] ?? null, null), items.length)
+    for (let index = start; index < stop; index++) if (py.equals(items[index], args[0])) return BigInt(index)
+    throw py.error('ValueError', typeName === 'list' ? `${py.repr(args[0])} is not in list` : `${typeName}.index(x): x not in ${typeName}`)
+  }
+
+  const countOf = (items: PyValue[], value: PyValue) => BigInt(items.filter(item => py.equals(item, value)).length)
+
+  const list: Record<string, Method<PyList>> = {
+    append: (self, args) => {
+      checkArity(py, 'append', args, 1)
+      self.items.push(args[0])
+      return null
+    },
+    extend: (self, args) => {
+      checkArity(py, 'extend', args, 1)
+      self.items.push(...py.iterate(args[0]))
+      return null
+    },
+    insert: (self, args) => {
+      checkArity(py, 'insert', args, 2)
+      let index = Number(toInteger(py, args[0]))
+      if (index < 0) index = Math.max(0, index + self.items.length)
+      self.items.splice(Math.min(index, self.items.length), 0, args[1])
+      return null
+    },
+    pop: (self, args) => popFrom(self, args.length > 0 ? Number(toInteger(py, args[0])) : -1, self.typeName === 'deque' ? 'pop from an empty deque' : 'pop from empty list'),
+    remove: (self, args) => {
+      const index = self.items.findIndex(item => py.equals(item, args[0]))
+      if (index === -1) throw py.error('ValueError', self.typeName === 'deque' ? `${py.repr(args[0])} is not in deque` : 'list.remove(x): x not in list')
+      self.items.splice(index, 1)
+      return null
+    },
+    index: (self, args) => indexOf(self.items, args, 'list'),
+    count: (self, args) => countOf(self.items, args[0]),
+    sort: (self, args, kwargs) => {
+      if (args.length > 0) throw py.error('TypeError', 'sort() takes no positional arguments')
+      self.items = sortValues(py, self.items, kwargs.get('key') ?? null, py.isTruthy(kwargs.get('reverse') ?? false))
+      return null
+    },
+    reverse: self => {
+      self.items.reverse()
+      return null
+    },
+    copy: self => new PyList([...self.items], self.typeName),
+    clear: self => {
+      self.items.length = 0
+      return null
+    },
+    appendleft: (self, args) => {
+      self.items.unshift(args[0])
+      return null
+    },
+    popleft: self => popFrom(self, 0, 'pop from an empty deque'),
+    extendleft: (self, args) => {
+      for (const item of py.iterate(args[0])) self.items.unshift(item)
+      return null
+    },
+    rotate: (self, args) => {
+      const length = self.items.length
+      if (length === 0) return null
+      const steps = ((Number(toInteger(py, args[0] ?? 1n)) % length) + length) % length
+      self.items.unshift(...self.items.splice(length - steps, steps))
+      return null
+    },
+    put: (self, args) => {
+      self.items.push(args[0])
+      return null
+    },
+    get: (self, args, kwargs) => {
+      if (self.items.length > 0) return self.items.shift() as PyValue
+      if (!py.isTruthy(param(args, kwargs, 0, 'block') ?? true)) throw py.error('IndexError', 'get from an empty Queue')
+      throw py.error('RuntimeError', 'Queue.get() would wait forever: Visualise runs threads one after another, so nothing else can fill the queue')
+    },
+    empty: self => self.items.length === 0,
+    full: () => false,
+    qsize: self => BigInt(self.items.length),
+    task_done: () => null,
+    join: () => null,
+  }
+  list.put_nowait = list.put
+  list.get_nowait = (self, args, kwargs) => list.get(self, [false], kwargs)
+  const listOnly = ['sort', 'insert', 'index', 'count', 'copy', 'reverse', 'clear', 'extend', 'remove', 'pop', 'append']
+  const dequeOnly = ['appendleft', 'popleft', 'extendleft', 'rotate']
+  const queueOnly = ['put', 'get', 'empty', 'full', 'qsize', 'task_done', 'join', 'put_nowait', 'get_nowait']
+  const listMethods: Record<string, Method<PyList>> = {}
+  Object.entries(list).forEach(([name, call]) => {
+    listMethods[name] = (self, args, kwargs) => {
+      const allowed = self.typeName === 'Queue' ? queueOnly : self.typeName === 'deque' ? [...listOnly, ...dequeOnly] : listOnly
+      if (!allowed.includes(name)) throw py.error('AttributeError', `'${self.typeName}' object has no attribute '${name}'`)
+      return call(self, args, kwargs)
+    }
+  })
+
+  const tuple: Record<string, Method<PyTuple>> = {
+    index: (self, args) => indexOf(self.items, args, 'tuple'),
+    count: (self, args) => countOf(self.items, args[0]),
+  }
+
+  // ---------- dicts ----------
+
+  const missingKey = (key: PyValue) => py.error('KeyError', key as string)
+
+  const dict: Record<string, Method<PyDict>> = {
+    keys: self => new PyView(self, 'keys'),
+    values: self => new PyView(self, 'values'),
+    items: self => new PyView(self, 'items'),
+    get: (self, args) => {
+      checkArity(py, 'get', args, 1, 2)
+      return py.dictGet(self, args[0]) ?? args[1] ?? null
+    },
+    pop: (self, args) => {
+      checkArity(py, 'pop', args, 1, 2)
+      const hash = py.hashKey(args[0])
+      const entry = self.entries.get(hash)
+      if (entry) {
+        self.entries.delete(hash)
+        return entry[1]
+      }
+      if (args.length === 2) return args[1]
+      throw missingKey(args[0])
+    },
+    popitem: (self, args, kwargs) => {
+      if (self.entries.size === 0) throw py.error('KeyError', self.typeName === 'dict' ? 'popitem(): dictionary is empty' : 'dictionary is empty')
+      const last = py.isTruthy(param(args, kwargs, 0, 'last') ?? true)
+      const hashes = [...self.entries.keys()]
+      const hash = last ? hashes[hashes.length - 1] : hashes[0]
+      const entry = self.entries.get(hash) as [PyValue, PyValue]
+      self.entries.delete(hash)
+      return new PyTuple([...entry])
+    },
+    setdefault: (self, args) => {
+      const existing = py.dictGet(self, args[0])
+      if (existing !== undefined) return existing
+      py.dictSet(self, args[0], args[1] ?? null)
+      return args[1] ?? null
+    },
+    update: (self, args, kwargs) => {
+      if (self.typeName === 'Counter') countInto(py, self, args[0], 1n)
+      else fillDict(py, self, args[0], kwargs)
+      return null
+    },
+    copy: self => copyDict(py, self),
+    clear: self => {
+      self.entries.clear()
+      return null
+    },
+    move_to_end: (self, args, kwargs) => {
+      const hash = py.hashKey(args[0])
+      const entry = self.entries.get(hash)
+      if (!entry) throw missingKey(args[0])
+      self.entries.delete(hash)
+      if (py.isTruthy(param(args, kwargs, 1, 'last') ?? true)) {
+        self.entries.set(hash, entry)
+      } else {
+        const rest = [...self.entries]
+        self.entries.clear()
+        self.entries.set(hash, entry)
+        rest.forEach(([key, value]) => self.entries.set(key, value))
+      }
+      return null
+    },
+    most_common: (self, args) => {
+      const pairs = [...self.entries.values()].map(([key, value]) => new PyTuple([key, value]))
+      const sorted = sortValues(py, pairs, builtin('count', ([pair]) => (pair as PyTuple).items[1]), true)
+      const limit = args.length > 0 && args[0] !== null ? Number(toInteger(py, args[0])) : sorted.length
+      return new PyList(sorted.slice(0, Math.max(0, limit)))
+    },
+    elements: self => {
+      const items: PyValue[] = []
+      self.entries.forEach(([key, count]) => {
+        for (let index = 0n; index < toInteger(py, count); index++) items.push(key)
+      })
+      return new PyIterator('itertools.chain', items[Symbol.iterator]())
+    },
+    subtract: (self, args) => {
+      countInto(py, self, args[0], -1n)
+      return null
+    },
+    total: self => {
+      let total: PyValue = 0n
+      self.entries.forEach(([, count]) => {
+        total = py.binaryOperation('+', total, count)
+      })
+      return total
+    },
+  }
+  const dictMethods: Record<string, Method<PyDict>> = {}
+  Object.entries(dict).forEach(([name, call]) => {
+    const counterOnly = ['most_common', 'elements', 'subtract', 'total'].includes(name)
+    dictMethods[name] = (self, args, kwargs) => {
+      if ((counterOnly && self.typeName !== 'Counter') || (name === 'move_to_end' && self.typeName !== 'OrderedDict')) {
+        throw py.error('AttributeError', `'${self.typeName}' object has no attribute '${name}'`)
+      }
+      return call(self, args, kwargs)
+    }
+  })
+
+  // ---------- sets ----------
+
+  const toSet = (value: PyValue): PySet => {
+    if (value instanceof PySet) return value
+    const set = new PySet()
+    for (const item of py.iterate(value)) py.setAdd(set, item)
+    return set
+  }
+  const combine = (op: string) => (self: PySet, args: PyValue[]) => {
+    let result = self
+    args.forEach(other => {
+      result = py.binaryOperation(op, result, toSet(other)) as PySet
+    })
+    return result === self ? py.binaryOperation('|', self, new PySet()) : result
+  }
+  const updateWith = (op: string) => (self: PySet, args: PyValue[]) => {
+    const result = combine(op)(self, args) as PySet
+    self.entries = new Map(result.entries)
+    return null
+  }
+
+  const set: Record<string, Method<PySet>> = {
+    add: (self, args) => {
+      checkArity(py, 'add', args, 1)
+      py.setAdd(self, args[0])
+      return null
+    },
+    remove: (self, args) => {
+      if (!self.entries.delete(py.hashKey(args[0]))) throw missingKey(args[0])
+      return null
+    },
+    discard: (self, args) => {
+      self.entries.delete(py.hashKey(args[0]))
+      return null
+    },
+    pop: self => {
+      const first = self.entries.entries().next()
+      if (first.done) throw py.error('KeyError', 'pop from an empty set')
+      self.entries.delete(first.value[0])
+      return first.value[1]
+    },
+    clear: self => {
+      self.entries.clear()
+      return null
+    },
+    copy: self => combine('|')(self, []),
+    union: combine('|'),
+    intersection: combine('&'),
+    difference: combine('-'),
+    symmetric_difference: combine('^'),
+    update: updateWith('|'),
+    intersection_update: updateWith('&'),
+    difference_update: updateWith('-'),
+    issubset: (self, args) => py.lessThan(self, toSet(args[0])) || py.equals(self, toSet(args[0])),
+    issuperset: (self, args) => py.lessThan(toSet(args[0]), self) || py.equals(self, toSet(args[0])),
+    isdisjoint: (self, args) => [...toSet(args[0]).entries.keys()].every(hash => !self.entries.has(hash)),
+  }
+
+  // ---------- files ----------
+
+  const file: Record<string, Method<PyFile>> = {
+    read: (self, args) => {
+      checkReadable(py, self)
+      const size = args.length > 0 && args[0] !== null ? Number(toInteger(py, args[0])) : -1
+      const end = size < 0 ? self.content.length : self.position + size
+      const text = self.content.slice(self.position, end)
+      self.position = Math.min(end, self.content.length)
+      return text
+    },
+    readline: self => {
+      checkReadable(py, self)
+      return py.readLine(self)
+    },
+    readlines: self => {
+      checkReadable(py, self)
+      const lines: PyValue[] = []
+      for (let line = py.readLine(self); line; line = py.readLine(self)) lines.push(line)
+      return new PyList(lines)
+    },
+    write: (self, args) => {
+      const text = toText(py, args[0], 'write() argument')
+      writeFile(py, self, text)
+      return BigInt(chars(text).length)
+    },
+    writelines: (self, args) => {
+      for (const line of py.iterate(args[0])) writeFile(py, self, toText(py, line, 'write() argument'))
+      return null
+    },
+    close: self => {
+      self.closed = true
+      return null
+    },
+    flush: () => null,
+    __enter__: self => {
+      if (self.closed) throw py.error('ValueError', 'I/O operation on closed file.')
+      return self
+    },
+    __exit__: self => {
+      self.closed = true
+      return false
+    },
+  }
+
+  // ---------- generators ----------
+
+  const generator: Record<string, Method<PyGenerator>> = {
+    send: (self, args) => {
+      if (self.state === 'created' && args[0] !== null) throw py.error('TypeError', "can't send non-None value to a just-started generator")
+      const result = py.resume(self, args[0] ?? null)
+      if (result.done) throw py.error('StopIteration')
+      return result.value
+    },
+    close: self => {
+      self.state = 'done'
+      return null
+    },
+    __next__: self => {
+      const result = py.resume(self, null)
+      if (result.done) throw py.error('StopIteration')
+      return result.value
+    },
+  }
+
+  // ---------- numbers ----------
+
+  const int: Record<string, Method<bigint>> = {
+    bit_length: self => BigInt((self < 0n ? -self : self).toString(2).replace(/^0$/, '').length),
+    conjugate: self => self,
+    __index__: self => self,
+  }
+
+  const float: Record<string, Method<number>> = {
+    is_integer: self => Number.isInteger(self),
+    conjugate: self => self,
+  }
+
+  const property: Record<string, Method<PyProperty>> = {
+    setter: (self, args) => new PyProperty(self.getter, args[0] ?? null),
+    getter: (self, args) => new PyProperty(args[0] ?? null, self.setter),
+  }
+
+  return {
+    str,
+    list: listMethods,
+    tuple,
+    dict: dictMethods,
+    set,
+    file,
+    generator,
+    pattern: createPatternMethods(py),
+    match: createMatchMethods(py),
+    property,
+    int,
+    float,
+  }
+}
+
+/**
+ * str.format: positional and named fields, attribute and index lookups, conversions and specs
+ */
+function formatString(py: PythonInterpreter, template: string, args: PyValue[], kwargs: Kwargs): string {
+  let automatic = 0
+  const resolve = (field: string): PyValue => {
+    const [, first, rest] = /^([^.[]*)([\s\S]*)$/.exec(field) as RegExpExecArray
+    let value: PyValue
+    if (first === '' || /^\d+$/.test(first)) {
+      const index = first === '' ? automatic++ : Number(first)
+      if (index >= args.length) throw py.error('IndexError', `Replacement index ${index} out of range for positional args tuple`)
+      value = args[index]
+    } else {
+      if (!kwargs.has(first)) throw py.error('KeyError', first)
+      value = kwargs.get(first) as PyValue
+    }
+    for (const [, attribute, key] of rest.matchAll(/\.(\w+)|\[([^\]]*)\]/g)) {
+      value = attribute !== undefined ? py.getAttribute(value, attribute) : py.getItem(value, /^\d+$/.test(key) ? BigInt(key) : key)
+    }
+    return value
+  }
+
+  return template.replace(/\{\{|\}\}|\{([^{}]*(?:\{[^{}]*\}[^{}]*)*)\}/g, (whole, field: string | undefined) => {
+    if (whole === '{{') return '{'
+    if (whole === '}}') return '}'
+    const [, path, conversion, rawSpec] = /^([^!:]*)(?:!([rsa]))?(?::([\s\S]*))?$/.exec(field ?? '') ?? []
+    if (path === undefined) throw py.error('ValueError', 'Invalid format string')
+    let value = resolve(path)
+    if (conversion === 's') value = py.str(value)
+    else if (conversion) value = py.repr(value)
+    const spec = (rawSpec ?? '').replace(/\{([^{}]*)\}/g, (_match, inner: string) => py.str(resolve(inner)))
+    return py.format(value, spec)
+  })
+}
+
+// ==================== REGULAR EXPRESSIONS ====================
+
+const RE_FLAGS: Record<string, bigint> = { IGNORECASE: 2n, I: 2n, MULTILINE: 8n, M: 8n, DOTALL: 16n, S: 16n, VERBOSE: 64n, X: 64n, ASCII: 256n, A: 256n }
+
+/**
+ * Translates a Python pattern to a JavaScript RegExp with match indices
+ */
+function toRegExp(py: PythonInterpreter, pattern: PyPattern, extraFlags = ''): RegExp {
+  let source = pattern.source
+  let flags = pattern.flags
+  const inline = /^\(\?([aiLmsux]+)\)/.exec(source)
+  if (inline) {
+    source = source.slice(inline[0].length)
+    for (const letter of inline[1]) flags |= { i: 2n, m: 8n, s: 16n, x: 64n }[letter] ?? 0n
+  }
+  if (flags & 64n) source = source.replace(/\\#|#[^\n]*|\s+/g, match => (match === '\\#' ? match : ''))
+  source = source
+    .replace(/\(\?P<(\w+)>/g, '(?<$1>')
+    .replace(/\(\?P=(\w+)\)/g, '\\k<$1>')
+    .replace(/\\A/g, '(?<![\\s\\S])')
+    .replace(/\\Z/g, '(?![\\s\\S])')
+  const jsFlags = `d${flags & 2n ? 'i' : ''}${flags & 8n ? 'm' : ''}${flags & 16n ? 's' : ''}${extraFlags}`
+  try {
+    return new RegExp(source, jsFlags)
+  } catch (error) {
+    throw py.error('ValueError', `invalid regular expression: ${(error as Error).message}`)
+  }
+}
+
+function allMatches(py: PythonInterpreter, pattern: PyPattern, text: string): RegExpExecArray[] {
+  const regex = toRegExp(py, pattern, 'g')
+  const matches: RegExpExecArray[] = []
+  for (let match = regex.exec(text); match; match = regex.exec(text)) {
+    py.tick()
+    matches.push(match)
+    if (match[0] === '') regex.lastIndex++
+  }
+  return matches
+}
+
+function groupValue(match: RegExpExecArray, group: PyValue, py: PythonInterpreter): PyValue {
+  if (typeof group === 'string') {
+    if (!match.groups || !(group in match.groups)) throw py.error('IndexError', 'no such group')
+    return match.groups[group] ?? null
+  }
+  const index = Number(toInteger(py, group))
+  if (index < 0 || index >= match.length) throw py.error('IndexError', 'no such group')
+  return match[index] ?? null
+}
+
+function groupSpan(match: RegExpExecArray, group: PyValue, py: PythonInterpreter): [number, number] {
+  const indices = match.indices
+  let span: [number, number] | undefined
+  if (typeof group === 'string') span = indices?.groups?.[group]
+  else span = indices?.[Number(toInteger(py, group))]
+  return span ?? [-1, -1]
+}
+
+/** Expands \1, \g<name> and escapes in a re.sub replacement */
+function expandTemplate(py: PythonInterpreter, template: string, match: RegExpExecArray): string {
+  const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', '\\': '\\' }
+  return template.replace(/\\(?:g<(\w+)>|(\d\d?)|([\s\S]))/g, (whole, name: string | undefined, number: string | undefined, escaped: string | undefined) => {
+    if (name !== undefined) return String(groupValue(match, /^\d+$/.test(name) ? BigInt(name) : name, py) ?? '')
+    if (number !== undefined) return String(groupValue(match, BigInt(number), py) ?? '')
+    return escapes[escaped as string] ?? whole
+  })
+}
+
+function createPatternMethods(py: PythonInterpreter): Record<string, Method<PyPattern>> {
+  const text = (value: PyValue | undefined) => toText(py, value, 'expected string')
+  const matchAt = (self: PyPattern, input: string, anchored: 'start' | 'full' | null) => {
+    const regex = anchored === 'full'
+      ? toRegExp(py, new PyPattern(`(?:${self.source})(?![\\s\\S])`, self.flags), 'y')
+      : toRegExp(py, self, anchored === 'start' ? 'y' : '')
+    const match = regex.exec(input)
+    return match ? new PyMatch(match, input) : null
+  }
+
+  return {
+    search: (self, args) => matchAt(self, text(args[0]), null),
+    match: (self, args) => matchAt(self, text(args[0]), 'start'),
+    fullmatch: (self, args) => matchAt(self, text(args[0]), 'full'),
+    findall: (self, args) => {
+      const matches = allMatches(py, self, text(args[0]))
+      return new PyList(matches.map(match => {
+        if (match.length === 1) return match[0]
+        if (match.length === 2) return match[1] ?? ''
+        return new PyTuple(match.slice(1).map(group => group ?? ''))
+      }))
+    },
+    finditer: (self, args) => {
+      const input = text(args[0])
+      return new PyIterator('callable_iterator', allMatches(py, self, input).map(match => new PyMatch(match, input))[Symbol.iterator]())
+    },
+    sub: (self, args, kwargs) => {
+      const [replacement] = args
+      const input = text(args[1])
+      const count = Number(toInteger(py, param(args, kwargs, 2, 'count') ?? 0n))
+      let result = ''
+      let last = 0
+      allMatches(py, self, input).slice(0, count > 0 ? count : undefined).forEach(match => {
+        const replaced = typeof replacement === 'string'
+          ? expandTemplate(py, replacement, match)
+          : toText(py, py.callValue(replacement, [new PyMatch(match, input)]), 'replacement')
+        result += input.slice(last, match.index) + replaced
+        last = match.index + match[0].length
+      })
+      return result + input.slice(last)
+    },
+    split: (self, args, kwargs) => {
+      const input = text(args[0])
+      const limit = Number(toInteger(py, param(args, kwargs, 1, 'maxsplit') ?? 0n))
+      const parts: PyValue[] = []
+      let last = 0
+      allMatches(py, self, input).slice(0, limit > 0 ? limit : undefined).forEach(match => {
+        parts.push(input.slice(last, match.index), ...match.slice(1).map(group => group ?? null))
+        last = match.index + match[0].length
+      })
+      parts.push(input.slice(last))
+      return new PyList(parts)
+    },
+  }
+}
+
+function createMatchMethods(py: PythonInterpreter): Record<string, Method<PyMatch>> {
+  return {
+    group: (self, args) => {
+      if (args.length <= 1) return groupValue(self.match, args[0] ?? 0n, py)
+      return new PyTuple(args.map(group => groupValue(self.match, group, py)))
+    },
+    groups: (self, args) => new PyTuple(self.match.slice(1).map(group => group ?? args[0] ?? null)),
+    groupdict: (self, args) => {
+      const dict = new PyDict()
+      Object.entries(self.match.groups ?? {}).forEach(([name, value]) => py.dictSet(dict, name, value ?? args[0] ?? null))
+      return dict
+    },
+    start: (self, args) => BigInt(groupSpan(self.match, args[0] ?? 0n, py)[0]),
+    end: (self, args) => BigInt(groupSpan(self.match, args[0] ?? 0n, py)[1]),
+    span: (self, args) => new PyTuple(groupSpan(self.match, args[0] ?? 0n, py).map(BigInt)),
+  }
+}
+
+// ==================== MODULES ====================
+
+function createModuleAttributes(py: PythonInterpreter, name: string): Map<string, PyValue> | null {
+  switch (name) {
+    case 'math': return createMath(py)
+    case 'random': return createRandom(py)
+    case 'time': return createTime(py)
+    case 're': return createRe(py)
+    case 'sys': return createSys(py)
+    case 'string': return createString()
+    case 'collections': return createCollections(py)
+    case 'functools': return createFunctools(py)
+    case 'typing': return createTyping(py)
+    case 'queue': return createQueue(py)
+    case 'threading': return createThreading(py)
+    default: return null
+  }
+}
+
+/**
+ * A standard module the interpreter provides offline, or null for anything else
+ */
+export function createModule(py: PythonInterpreter, name: string): PyModule | null {
+  const attributes = createModuleAttributes(py, name)
+  return attributes ? new PyModule(name, attributes) : null
+}
+
+function functions(entries: Record<string, NativeFunction>): Map<string, PyValue> {
+  return new Map(Object.entries(entries).map(([name, call]) => [name, builtin(name, call)]))
+}
+
+/** A class from a standard module, registered so type() and isinstance() recognise its values */
+function nativeType(py: PythonInterpreter, name: string, construct: NativeFunction, module: string, typeName = name): PyClass {
+  const cls = new PyClass(name, [py.builtins.get('object') as PyClass], new Map(), construct, module)
+  py.nativeClasses.set(typeName, cls)
+  return cls
+}
+
+/** A class implemented with native methods that Python code can subclass */
+function nativeClass(py: PythonInterpreter, name: string, members: Record<string, NativeFunction>, module: string): PyClass {
+  const namespace = new Map<string, PyValue>(Object.entries(members).map(([member, call]) => [member, method(member, call)]))
+  return new PyClass(name, [py.builtins.get('object') as PyClass], namespace, null, module)
+}
+
+function createMath(py: PythonInterpreter): Map<string, PyValue> {
+  const real = (value: PyValue | undefined) => toFloat(py, value)
+  const domain = (result: number) => {
+    if (Number.isNaN(result)) throw py.error('ValueError', 'math domain error')
+    return result
+  }
+  const toWhole = (value: number) => {
+    if (Number.isNaN(value)) throw py.error('ValueError', 'cannot convert float NaN to integer')
+    if (!Number.isFinite(value)) throw py.error('OverflowError', 'cannot convert float infinity to integer')
+    return BigInt(value)
+  }
+  const whole = (value: PyValue | undefined) => {
+    if (value !== undefined && isNumeric(value) && typeof toNumeric(value) === 'bigint') return toNumeric(value) as bigint
+    return null
+  }
+  const gcd = (a: bigint, b: bigint): bigint => {
+    let [x, y] = [a < 0n ? -a : a, b < 0n ? -b : b]
+    while (y) [x, y] = [y, x % y]
+    return x
+  }
+  const factorial = (n: bigint) => {
+    if (n < 0n) throw py.error('ValueError', 'factorial() not defined for negative values')
+    if (n > 5000n) throw py.error('MemoryError', 'Visualise stops numbers this large')
+    let result = 1n
+    for (let index = 2n; index <= n; index++) result *= index
+    return result
+  }
+
+  const attributes = functions({
+    sqrt: ([x]) => domain(Math.sqrt(real(x))),
+    floor: ([x]) => whole(x) ?? toWhole(Math.floor(real(x))),
+    ceil: ([x]) => whole(x) ?? toWhole(Math.ceil(real(x))),
+    trunc: ([x]) => whole(x) ?? toWhole(Math.trunc(real(x))),
+    fabs: ([x]) => Math.abs(real(x)),
+    pow: ([x, y]) => domain(real(x) ** real(y)),
+    exp: ([x]) => Math.exp(real(x)),
+    log: ([x, base]) => {
+      if (real(x) <= 0) throw py.error('ValueError', 'math domain error')
+      return base === undefined ? Math.log(real(x)) : Math.log(real(x)) / Math.log(real(base))
+    },
+    log2: ([x]) => domain(real(x) > 0 ? Math.log2(real(x)) : NaN),
+    log10: ([x]) => domain(real(x) > 0 ? Math.log10(real(x)) : NaN),
+    sin: ([x]) => Math.sin(real(x)),
+    cos: ([x]) => Math.cos(real(x)),
+    tan: ([x]) => Math.tan(real(x)),
+    asin: ([x]) => domain(Math.asin(real(x))),
+    acos: ([x]) => domain(Math.acos(real(x))),
+    atan: ([x]) => Math.atan(real(x)),
+    atan2: ([y, x]) => Math.atan2(real(y), real(x)),
+    hypot: args => Math.hypot(...args.map(real)),
+    degrees: ([x]) => (real(x) * 180) / Math.PI,
+    radians: ([x]) => (real(x) * Math.PI) / 180,
+    isclose: ([a, b], kwargs) => {
+      const relative = kwargs.has('rel_tol') ? real(kwargs.get('rel_tol')) : 1e-9
+      const absolute = kwargs.has('abs_tol') ? real(kwargs.get('abs_tol')) : 0
+      const difference = Math.abs(real(a) - real(b))
+      return difference <= Math.max(relative * Math.max(Math.abs(real(a)), Math.abs(real(b))), absolute)
+    },
+    isfinite: ([x]) => Number.isFinite(real(x)),
+    isinf: ([x]) => Math.abs(real(x)) === Infinity,
+    isnan: ([x]) => Number.isNaN(real(x)),
+    factorial: ([n]) => factorial(toInteger(py, n)),
+    gcd: args => args.reduce<bigint>((result, value) => gcd(result, toInteger(py, value)), 0n),
+    lcm: args => args.reduce<bigint>((result, value) => {
+      const n = toInteger(py, value)
+      if (result === 0n || n === 0n) return 0n
+      const product = (result * n) / gcd(result, n)
+      return product < 0n ? -product : product
+    }, 1n),
+    isqrt: ([n]) => {
+      const value = toInteger(py, n)
+      if (value < 0n) throw py.error('ValueError', 'isqrt() argument must be nonnegative')
+      let root = BigInt(Math.floor(Math.sqrt(Number(value))))
+      while (root * root > value) root--
+      while ((root + 1n) * (root + 1n) <= value) root++
+      return root
+    },
+    comb: ([n, k]) => {
+      const [total, chosen] = [toInteger(py, n), toInteger(py, k)]
+      if (chosen < 0n || chosen > total) return 0n
+      return factorial(total) / (factorial(chosen) * factorial(total - chosen))
+    },
+    perm: ([n, k]) => {
+      const total = toInteger(py, n)
+      const chosen = k === undefined || k === null ? total : toInteger(py, k)
+      if (chosen < 0n || chosen > total) return 0n
+      return factorial(total) / factorial(total - chosen)
+    },
+    prod: ([iterable], kwargs) => {
+      let product: PyValue = kwargs.get('start') ?? 1n
+      for (const item of py.iterate(iterable)) product = py.binaryOperation('*', product, item)
+      return product
+    },
+    fsum: ([iterable]) => [...py.iterate(iterable)].reduce<number>((total, item) => total + real(item), 0),
+  })
+  attributes.set('pi', Math.PI)
+  attributes.set('e', Math.E)
+  attributes.set('tau', Math.PI * 2)
+  attributes.set('inf', Infinity)
+  attributes.set('nan', NaN)
+  return attributes
+}
+
+function createRandom(py: PythonInterpreter): Map<string, PyValue> {
+  // mulberry32, so random.seed() makes runs repeatable
+  let state = Math.floor(Math.random() * 2 ** 32)
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+  const below = (limit: bigint) => {
+    if (limit <= 0n) throw py.error('ValueError', 'empty range for randrange()')
+    return BigInt(Math.floor(next() * Number(limit)))
+  }
+  const sequence = (value: PyValue | undefined) => [...py.iterate(value ?? null)]
+
+  return functions({
+    seed: ([value]) => {
+      state = Number(stringHash(py.hashKey(value ?? null)) & 0xffffffffn)
+      return null
+    },
+    random: () => next(),
+    uniform: ([a, b]) => toFloat(py, a) + (toFloat(py, b) - toFloat(py, a)) * next(),
+    randint: ([a, b]) => toInteger(py, a) + below(toInteger(py, b) - toInteger(py, a) + 1n),
+    randrange: args => {
+      checkArity(py, 'randrange', args, 1, 3)
+      const [start, stop] = args.length === 1 ? [0n, toInteger(py, args[0])] : [toInteger(py, args[0]), toInteger(py, args[1])]
+      const step = args.length === 3 ? toInteger(py, args[2]) : 1n
+      const count = new PyRange(start, stop, step).length
+      return start + below(count) * step
+    },
+    choice: ([population]) => {
+      const items = sequence(population)
+      if (items.length === 0) throw py.error('IndexError', 'Cannot choose from an empty sequence')
+      return items[Number(below(BigInt(items.length)))]
+    },
+    choices: ([population], kwargs) => {
+      const items = sequence(population)
+      const count = Number(toInteger(py, kwargs.get('k') ?? 1n))
+      return new PyList(Array.from({ length: count }, () => items[Number(below(BigInt(items.length)))]))
+    },
+    sample: ([population, k]) => {
+      const items = sequence(population)
+      const count = Number(toInteger(py, k))
+      if (count > items.length || count < 0) throw py.error('ValueError', 'Sample larger than population or is negative')
+      const picked: PyValue[] = []
+      for (let index = 0; index < count; index++) picked.push(items.splice(Number(below(BigInt(items.length))), 1)[0])
+      return new PyList(picked)
+    },
+    shuffle: ([target]) => {
+      if (!(target instanceof PyList)) throw py.error('TypeError', `'${py.typeName(target ?? null)}' object does not support item assignment`)
+      for (let index = target.items.length - 1; index > 0; index--) {
+        const other = Number(below(BigInt(index + 1)))
+        ;[target.items[index], target.items[other]] = [target.items[other], target.items[index]]
+      }
+      return null
+    },
+  })
+}
+
+function createTime(py: PythonInterpreter): Map<string, PyValue> {
+  // A virtual clock: sleep() moves it forward instead of pausing the trace
+  const start = Date.now() / 1000
+  let elapsed = 0
+  const now = () => start + elapsed
+  return functions({
+    time: () => now(),
+    perf_counter: () => elapsed,
+    monotonic: () => elapsed,
+    process_time: () => elapsed,
+    sleep: ([seconds]) => {
+      const duration = toFloat(py, seconds)
+      if (duration < 0) throw py.error('ValueError', 'sleep length must be non-negative')
+      elapsed += duration
+      return null
+    },
+    ctime: () => new Date(now() * 1000).toString().slice(0, 24),
+  })
+}
+
+function createRe(py: PythonInterpreter): Map<string, PyValue> {
+  const compile = (pattern: PyValue | undefined, flags: PyValue | undefined) => {
+    if (pattern instanceof PyPattern) return pattern
+    return new PyPattern(toText(py, pattern, 'first argument'), toInteger(py, flags ?? 0n))
+  }
+  const patternMethods = createPatternMethods(py)
+  const delegate = (name: string, flagIndex: number): NativeFunction => (args, kwargs) => {
+    const pattern = compile(args[0], param(args, kwargs, flagIndex, 'flags'))
+    const rest = args.slice(1, flagIndex)
+    return patternMethods[name](pattern, rest, kwargs)
+  }
+
+  const attributes = functions({
+    compile: (args, kwargs) => compile(args[0], param(args, kwargs, 1, 'flags')),
+    search: delegate('search', 2),
+    match: delegate('match', 2),
+    fullmatch: delegate('fullmatch', 2),
+    findall: delegate('findall', 2),
+    finditer: delegate('finditer', 2),
+    split: delegate('split', 3),
+    sub: delegate('sub', 4),
+    escape: ([text]) => toText(py, text, 'escape() argument').replace(/[.*+?^${}()|[\]\\\-#&~\s]/g, '\\$&'),
+  })
+  Object.entries(RE_FLAGS).forEach(([flag, value]) => attributes.set(flag, value))
+  return attributes
+}
+
+function createSys(py: PythonInterpreter): Map<string, PyValue> {
+  const attributes = functions({
+    exit: args => {
+      throw new PythonException(py.instantiate(py.builtins.get('SystemExit') as PyClass, args) as PyInstance)
+    },
+    getrecursionlimit: () => 200n,
+    setrecursionlimit: () => null,
+  })
+  attributes.set('stdin', py.stdin)
+  attributes.set('stdout', new PyFile('<stdout>', 'w', ''))
+  attributes.set('stderr', new PyFile('<stderr>', 'w', ''))
+  attributes.set('argv', new PyList(['main.py']))
+  attributes.set('version', '3.12.0 (Visualise)')
+  attributes.set('maxsize', 2n ** 63n - 1n)
+  attributes.set('platform', 'browser')
+  return attributes
+}
+
+function createString(): Map<string, PyValue> {
+  const lowercase = 'abcdefghijklmnopqrstuvwxyz'
+  const uppercase = lowercase.toUpperCase()
+  return new Map<string, PyValue>([
+    ['ascii_lowercase', lowercase],
+    ['ascii_uppercase', uppercase],
+    ['ascii_letters', lowercase + uppercase],
+    ['digits', '0123456789'],
+    ['hexdigits', '0123456789abcdefABCDEF'],
+    ['octdigits', '01234567'],
+    ['punctuation', '!"#$%&\'()*+,-./:;<=>?@[\\]^_`{|}~'],
+    ['whitespace', ' \t\n\r\x0b\x0c'],
+  ])
+}
+
+function createCollections(py: PythonInterpreter): Map<string, PyValue> {
+  const fromSource = (dict: PyDict, args: PyValue[], kwargs: Kwargs) => {
+    fillDict(py, dict, args[0], kwargs)
+    return dict
+  }
+
+  const namedtuple = builtin('namedtuple', ([typename, fieldNames]) => {
+    const name = toText(py, typename, 'typename')
+    const fields = typeof fieldNames === 'string'
+      ? fieldNames.replace(/,/g, ' ').split(/\s+/).filter(Boolean)
+      : [...py.iterate(fieldNames ?? null)].map(field => toText(py, field, 'field name'))
+    const values = (self: PyValue) => new PyTuple(fields.map(field => (self as PyInstance).attributes.get(field) ?? null))
+
+    const cls = nativeClass(py, name, {
+      __init__: ([self, ...args], kwargs) => {
+        const instance = self as PyInstance
+        if (args.length > fields.length) throw py.error('TypeError', `${name}() takes ${fields.length} positional arguments but ${args.length} were given`)
+        fields.forEach((field, index) => {
+          const value = index < args.length ? args[index] : kwargs.get(field)
+          if (value === undefined) throw py.error('TypeError', `${name}() missing required argument: '${field}'`)
+          instance.attributes.set(field, value)
+        })
+        return null
+      },
+      __repr__: ([self]) => `${name}(${fields.map(field => `${field}=${py.repr((self as PyInstance).attributes.get(field) ?? null)}`).join(', ')})`,
+      __iter__: ([self]) => values(self),
+      __len__: () => BigInt(fields.length),
+      __getitem__: ([self, index]) => py.getItem(values(self), index),
+      __eq__: ([self, other]) => py.equals(values(self), other instanceof PyInstance && other.cls === (self as PyInstance).cls ? values(other) : other),
+      __hash__: ([self]) => stringHash(py.hashKey(values(self))),
+      _asdict: ([self]) => {
+        const dict = new PyDict()
+        fields.forEach(field => py.dictSet(dict, field, (self as PyInstance).attributes.get(field) ?? null))
+        return dict
+      },
+      _replace: ([self], kwargs) => {
+        const copy = new PyInstance((self as PyInstance).cls)
+        fields.forEach(field => copy.attributes.set(field, kwargs.get(field) ?? (self as PyInstance).attributes.get(field) ?? null))
+        return copy
+      },
+    }, '__main__')
+    cls.namespace.set('_fields', new PyTuple(fields))
+    return cls
+  })
+
+  return new Map<string, PyValue>([
+    ['OrderedDict', nativeType(py, 'OrderedDict', (args, kwargs) => fromSource(new PyDict('OrderedDict'), args, kwargs), 'collections')],
+    ['defaultdict', nativeType(py, 'defaultdict', ([factory, ...rest], kwargs) => {
+      if (factory !== undefined && factory !== null && !py.isTruthy(py.callValue(py.builtins.get('callable') as PyValue, [factory]))) {
+        throw py.error('TypeError', 'first argument must be callable or None')
+      }
+      return fromSource(new PyDict('defaultdict', factory ?? null), rest, kwargs)
+    }, 'collections')],
+    ['Counter', nativeType(py, 'Counter', ([source], kwargs) => {
+      const counter = new PyDict('Counter')
+      countInto(py, counter, source, 1n)
+      kwargs.forEach((value, key) => py.dictSet(counter, key, value))
+      return counter
+    }, 'collections')],
+    ['deque', nativeType(py, 'deque', ([source]) => new PyList(source === undefined ? [] : [...py.iterate(source)], 'deque'), 'collections')],
+    ['namedtuple', namedtuple],
+  ])
+}
+
+function createFunctools(py: PythonInterpreter): Map<string, PyValue> {
+  const cached = (func: PyValue) => {
+    const results = new Map<string, PyValue>()
+    const name = func instanceof PyFunction ? func.name : py.str(py.getAttribute(func, '__name__'))
+    return builtin(name, (args, kwargs) => {
+      const key = py.hashKey(new PyTuple([...args, ...[...kwargs].flat()]))
+      if (!results.has(key)) results.set(key, py.callValue(func, args, kwargs))
+      return results.get(key) as PyValue
+    })
+  }
+
+  return functions({
+    wraps: ([wrapped]) => builtin('decorator', ([wrapper]) => {
+      if (wrapper instanceof PyFunction && wrapped !== undefined) {
+        ;['__name__', '__qualname__', '__doc__', '__module__'].forEach(attribute => {
+          wrapper.attributes.set(attribute, py.getAttribute(wrapped, attribute))
+        })
+        wrapper.attributes.set('__wrapped__', wrapped)
+      }
+      return wrapper
+    }),
+    reduce: args => {
+      checkArity(py, 'reduce', args, 2, 3)
+      const [func, iterable] = args
+      const iterator = py.iterate(iterable)
+      let accumulator: PyValue
+      if (args.length === 3) {
+        accumulator = args[2]
+      } else {
+        const first = iterator.next()
+        if (first.done) throw py.error('TypeError', 'reduce() of empty iterable with no initial value')
+        accumulator = first.value
+      }
+      for (const item of iterator) accumulator = py.callValue(func, [accumulator, item])
+      return accumulator
+    },
+    partial: ([func, ...bound], boundKwargs) => builtin('partial', (args, kwargs) => py.callValue(func, [...bound, ...args], new Map([...boundKwargs, ...kwargs]))),
+    lru_cache: args => {
+      const [first] = args
+      if (first instanceof PyFunction || first instanceof PyBuiltin) return cached(first)
+      return builtin('lru_cache', ([func]) => cached(func))
+    },
+    cache: ([func]) => cached(func),
+  })
+}
+
+function createTyping(py: PythonInterpreter): Map<string, PyValue> {
+  const aliases: Record<string, string> = { List: 'list', Dict: 'dict', Tuple: 'tuple', Set: 'set', FrozenSet: 'set', Type: 'type' }
+  const special = ['Any', 'Optional', 'Union', 'Callable', 'Iterable', 'Iterator', 'Generator', 'Sequence', 'Mapping', 'NoReturn', 'Literal', 'ClassVar', 'Final']
+  const attributes = new Map<string, PyValue>(Object.entries(aliases).map(([name, target]) => [name, py.builtins.get(target) as PyValue]))
+  special.forEach(name => attributes.set(name, nativeType(py, name, () => {
+    throw py.error('TypeError', `Cannot instantiate typing.${name}`)
+  }, 'typing', `typing.${name}`)))
+  attributes.set('TypeVar', builtin('TypeVar', ([name]) => nativeType(py, toText(py, name, 'TypeVar name'), () => {
+    throw py.error('TypeError', 'Cannot instantiate TypeVar')
+  }, 'typing', `typing.TypeVar.${py.str(name ?? null)}`)))
+  return attributes
+}
+
+function createQueue(py: PythonInterpreter): Map<string, PyValue> {
+  return new Map<string, PyValue>([
+    ['Queue', nativeType(py, 'Queue', () => new PyList([], 'Queue'), 'queue')],
+    ['Empty', new PyClass('Empty', [py.builtins.get('Exception') as PyClass], new Map(), null, 'queue')],
+  ])
+}
+
+function createThreading(py: PythonInterpreter): Map<string, PyValue> {
+  // Threads run to completion when started, one after another, so every step can be traced
+  const thread = nativeClass(py, 'Thread', {
+    __init__: ([self, ...args], kwargs) => {
+      const instance = self as PyInstance
+      instance.attributes.set('_target', param(args, kwargs, 1, 'target') ?? null)
+      instance.attributes.set('name', param(args, kwargs, 2, 'name') ?? 'Thread')
+      instance.attributes.set('_args', param(args, kwargs, 3, 'args') ?? new PyTuple([]))
+      instance.attributes.set('_kwargs', param(args, kwargs, 4, 'kwargs') ?? new PyDict())
+      instance.attributes.set('daemon', kwargs.get('daemon') ?? false)
+      return null
+    },
+    start: ([self]) => {
+      py.callValue(py.getAttribute(self, 'run'), [])
+      return null
+    },
+    run: ([self]) => {
+      const instance = self as PyInstance
+      const target = instance.attributes.get('_target') ?? null
+      if (target === null) return null
+      const kwargs = new Map<string, PyValue>()
+      py.mappingItems(instance.attributes.get('_kwargs') ?? new PyDict()).forEach(([key, value]) => kwargs.set(py.str(key), value))
+      py.callValue(target, [...py.iterate(instance.attributes.get('_args') ?? new PyTuple([]))], kwargs)
+      return null
+    },
+    join: () => null,
+    is_alive: () => false,
+  }, 'threading')
+
+  const lock = nativeClass(py, 'Lock', {
+    acquire: () => true,
+    release: () => null,
+    locked: () => false,
+    __enter__: () => true,
+    __exit__: () => false,
+  }, 'threading')
+
+  return new Map<string, PyValue>([
+    ['Thread', thread],
+    ['Lock', lock],
+    ['RLock', lock],
+    ['current_thread', builtin('current_thread', () => null)],
+  ])
+}
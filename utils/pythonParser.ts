@@ -0,0 +1,1190 @@
+/**
+ * Python Parser
+ * Tokenizer and recursive-descent parser for the Python the sandbox visualiser runs offline.
+ * Produces a small syntax tree that pythonTracer.ts interprets.
+ */
+
+// ==================== ERRORS ====================
+
+/**
+ * Invalid Python, reported like CPython's SyntaxError with the line it was found on
+ */
+export class PythonSyntaxError extends Error {
+  line: number
+
+  constructor(message: string, line: number) {
+    super(message)
+    this.name = 'PythonSyntaxError'
+    this.line = line
+  }
+}
+
+/**
+ * Valid Python that the visualiser can't run, such as async functions
+ */
+export class UnsupportedFeatureError extends Error {
+  line: number
+
+  constructor(feature: string, line: number) {
+    super(`${feature} ${/s$/.test(feature) ? "aren't" : "isn't"} supported by Visualise yet`)
+    this.name = 'UnsupportedFeatureError'
+    this.line = line
+  }
+}
+
+// ==================== SYNTAX TREE ====================
+
+export interface Param {
+  name: string
+  /** positional: a or a=1; varargs: *args; keyword: keyword-only (after *); varkw: **kwargs */
+  kind: 'positional' | 'varargs' | 'keyword' | 'varkw'
+  defaultValue: Expr | null
+}
+
+export interface Keyword {
+  /** null for **mapping */
+  name: string | null
+  value: Expr
+}
+
+export interface ComprehensionFor {
+  target: Expr
+  iter: Expr
+  conditions: Expr[]
+}
+
+export type FStringPart =
+  | string
+  | {
+      expression: Expr
+      conversion: string | null
+      spec: FStringPart[] | null
+      /** Source text for f"{value=}", printed before the value */
+      debug: string | null
+    }
+
+export type Expr =
+  | { type: 'Name'; line: number; id: string }
+  | { type: 'Constant'; line: number; value: null | boolean | bigint | number | string }
+  | { type: 'Ellipsis'; line: number }
+  | { type: 'FString'; line: number; parts: FStringPart[] }
+  | { type: 'List' | 'Tuple' | 'Set'; line: number; elements: Expr[] }
+  | { type: 'Dict'; line: number; keys: (Expr | null)[]; values: Expr[] }
+  | { type: 'BinOp'; line: number; op: string; left: Expr; right: Expr }
+  | { type: 'UnaryOp'; line: number; op: string; operand: Expr }
+  | { type: 'BoolOp'; line: number; op: 'and' | 'or'; values: Expr[] }
+  | { type: 'Compare'; line: number; left: Expr; ops: string[]; comparators: Expr[] }
+  | { type: 'Call'; line: number; func: Expr; args: Expr[]; keywords: Keyword[] }
+  | { type: 'Attribute'; line: number; value: Expr; attr: string }
+  | { type: 'Subscript'; line: number; value: Expr; index: Expr }
+  | { type: 'Slice'; line: number; lower: Expr | null; upper: Expr | null; step: Expr | null }
+  | { type: 'Lambda'; line: number; params: Param[]; body: Expr }
+  | { type: 'IfExp'; line: number; test: Expr; body: Expr; orelse: Expr }
+  | { type: 'Comprehension'; line: number; kind: 'list' | 'set' | 'dict' | 'generator'; element: Expr; value: Expr | null; generators: ComprehensionFor[] }
+  | { type: 'Starred'; line: number; value: Expr }
+  | { type: 'Yield'; line: number; value: Expr | null }
+  | { type: 'YieldFrom'; line: number; value: Expr }
+  | { type: 'NamedExpr'; line: number; target: string; value: Expr }
+
+export interface ExceptHandler {
+  line: number
+  exceptionType: Expr | null
+  name: string | null
+  body: Stmt[]
+}
+
+export interface ImportAlias {
+  name: string
+  alias: string | null
+}
+
+export type Stmt =
+  | { type: 'Expr'; line: number; value: Expr }
+  | { type: 'Assign'; line: number; targets: Expr[]; value: Expr }
+  | { type: 'AugAssign'; line: number; target: Expr; op: string; value: Expr }
+  | { type: 'AnnAssign'; line: number; target: Expr; value: Expr | null }
+  | { type: 'If' | 'While'; line: number; test: Expr; body: Stmt[]; orelse: Stmt[] }
+  | { type: 'For'; line: number; target: Expr; iter: Expr; body: Stmt[]; orelse: Stmt[] }
+  | { type: 'Break' | 'Continue' | 'Pass'; line: number }
+  | { type: 'FunctionDef'; line: number; name: string; params: Param[]; body: Stmt[]; decorators: Expr[]; isGenerator: boolean }
+  | { type: 'Return'; line: number; value: Expr | null }
+  | { type: 'ClassDef'; line: number; name: string; bases: Expr[]; body: Stmt[]; decorators: Expr[] }
+  | { type: 'Try'; line: number; body: Stmt[]; handlers: ExceptHandler[]; orelse: Stmt[]; finalbody: Stmt[] }
+  | { type: 'Raise'; line: number; exception: Expr | null; cause: Expr | null }
+  | { type: 'Global' | 'Nonlocal'; line: number; names: string[] }
+  | { type: 'Assert'; line: number; test: Expr; message: Expr | null }
+  | { type: 'Delete'; line: number; targets: Expr[] }
+  | { type: 'Import'; line: number; names: ImportAlias[] }
+  | { type: 'ImportFrom'; line: number; module: string; names: ImportAlias[] }
+  | { type: 'With'; line: number; items: { context: Expr; target: Expr | null }[]; body: Stmt[] }
+
+// ==================== TOKENIZER ====================
+
+interface Token {
+  type: 'name' | 'number' | 'string' | 'op' | 'newline' | 'indent' | 'dedent' | 'end'
+  value: string
+  line: number
+  /** String prefix letters, lowercased (e.g. "f" or "rb") */
+  prefix?: string
+}
+
+const NAME = /[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*/y
+const NUMBER = /(?:0[xX][\da-fA-F_]+|0[oO][0-7_]+|0[bB][01_]+|(?:\d[\d_]*(?:\.[\d_]*)?|\.\d[\d_]*)(?:[eE][+-]?\d[\d_]*)?)[jJ]?/y
+const STRING_START = /([rRbBuUfF]{0,2})('''|"""|'|")/y
+
+const OPERATORS = [
+  '**=', '//=', '>>=', '<<=', '...', '->', ':=', '**', '//', '==', '!=', '<=', '>=', '<<', '>>',
+  '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '@=',
+  '+', '-', '*', '/', '%', '@', '&', '|', '^', '~', '<', '>', '(', ')', '[', ']', '{', '}', ',', ':', '.', ';', '=',
+]
+
+const KEYWORDS = new Set([
+  'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del',
+  'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal',
+  'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield',
+])
+
+const AUGMENTED_ASSIGNMENTS = new Set(['+=', '-=', '*=', '/=', '//=', '%=', '**=', '&=', '|=', '^=', '>>=', '<<=', '@='])
+const COMPARISONS = new Set(['<', '>', '==', '>=', '<=', '!='])
+
+function tokenize(source: string, firstLine = 1): Token[] {
+  const tokens: Token[] = []
+  const indents = [0]
+  const brackets: string[] = []
+  let position = 0
+  let line = firstLine
+  let atLineStart = true
+
+  const push = (type: Token['type'], value: string, tokenLine = line, prefix?: string) => {
+    tokens.push({ type, value, line: tokenLine, prefix })
+  }
+  const fail = (message: string): never => {
+    throw new PythonSyntaxError(message, line)
+  }
+
+  while (position < source.length) {
+    if (atLineStart && brackets.length === 0) {
+      let width = 0
+      let cursor = position
+      while (source[cursor] === ' ' || source[cursor] === '\t') {
+        width = source[cursor] === '\t' ? width + 8 - (width % 8) : width + 1
+        cursor++
+      }
+      const next = source[cursor]
+      if (next === undefined || next === '\n' || next === '\r' || next === '#') {
+        // Blank and comment-only lines don't affect indentation
+        const end = source.indexOf('\n', cursor)
+        if (end === -1) break
+        position = end + 1
+        line++
+        continue
+      }
+      if (width > indents[indents.length - 1]) {
+        indents.push(width)
+        push('indent', '')
+      }
+      while (width < indents[indents.length - 1]) {
+        indents.pop()
+        push('dedent', '')
+      }
+      if (width !== indents[indents.length - 1]) fail('unindent does not match any outer indentation level')
+      position = cursor
+      atLineStart = false
+    }
+
+    const char = source[position]
+    if (char === '\n') {
+      if (brackets.length === 0) {
+        push('newline', '')
+        atLineStart = true
+      }
+      position++
+      line++
+      continue
+    }
+    if (char === ' ' || char === '\t' || char === '\r' || char === '\f') {
+      position++
+      continue
+    }
+    if (char === '#') {
+      const end = source.indexOf('\n', position)
+      position = end === -1 ? source.length : end
+      continue
+    }
+    if (char === '\\' && /^\r?\n/.test(source.slice(position + 1, position + 3))) {
+      position = source.indexOf('\n', position) + 1
+      line++
+      continue
+    }
+
+    STRING_START.lastIndex = position
+    const stringStart = STRING_START.exec(source)
+    if (stringStart) {
+      const quote = stringStart[2]
+      const startLine = line
+      let cursor = position + stringStart[0].length
+      let body = ''
+      let closed = false
+      while (cursor < source.length) {
+        if (source.startsWith(quote, cursor)) {
+          closed = true
+          cursor += quote.length
+          break
+        }
+        const current = source[cursor]
+        if (current === '\\') {
+          if (source[cursor + 1] === '\n') line++
+          body += source.slice(cursor, cursor + 2)
+          cursor += 2
+          continue
+        }
+        if (current === '\n') {
+          if (quote.length === 1) fail('unterminated string literal')
+          line++
+        }
+        body += current
+        cursor++
+      }
+      if (!closed) fail(quote.length === 3 ? 'unterminated triple-quoted string literal' : 'unterminated string literal')
+      push('string', body, startLine, stringStart[1].toLowerCase())
+      position = cursor
+      continue
+    }
+
+    NUMBER.lastIndex = position
+    const number = NUMBER.exec(source)
+    if (number) {
+      push('number', number[0])
+      position += number[0].length
+      continue
+    }
+
+    NAME.lastIndex = position
+    const name = NAME.exec(source)
+    if (name) {
+      push('name', name[0])
+      position += name[0].length
+      continue
+    }
+
+    const operator = OPERATORS.find(candidate => source.startsWith(candidate, position)) ?? fail(`invalid character '${char}'`)
+    if ('([{'.includes(operator)) brackets.push(operator)
+    if (')]}'.includes(operator)) {
+      const open = brackets.pop()
+      if (!open) fail(`unmatched '${operator}'`)
+      if ('([{'.indexOf(open as string) !== ')]}'.indexOf(operator)) fail(`closing parenthesis '${operator}' does not match opening parenthesis '${open}'`)
+    }
+    push('op', operator)
+    position += operator.length
+  }
+
+  if (brackets.length > 0) fail(`'${brackets[brackets.length - 1]}' was never closed`)
+  if (tokens.length > 0 && tokens[tokens.length - 1].type !== 'newline') push('newline', '')
+  while (indents.length > 1) {
+    indents.pop()
+    push('dedent', '')
+  }
+  push('end', '')
+  return tokens
+}
+
+const ESCAPES: Record<string, string> = {
+  n: '\n', t: '\t', r: '\r', '\\': '\\', "'": "'", '"': '"', a: '\x07', b: '\b', f: '\f', v: '\v', '\n': '',
+}
+
+function unescape(text: string): string {
+  return text.replace(/\\(x[\da-fA-F]{2}|u[\da-fA-F]{4}|U[\da-fA-F]{8}|[0-7]{1,3}|[\s\S])/g, (match, code: string) => {
+    if (/^[xuU]./.test(code)) return String.fromCodePoint(parseInt(code.slice(1), 16))
+    if (/^[0-7]+$/.test(code)) return String.fromCharCode(parseInt(code, 8))
+    return ESCAPES[code] ?? match
+  })
+}
+
+// ==================== PARSER ====================
+
+class Parser {
+  private position = 0
+  /** Whether each enclosing function contains `yield` */
+  private functions: { isGenerator: boolean }[] = []
+
+  constructor(private tokens: Token[]) {}
+
+  // ---------- token helpers ----------
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.position + offset, this.tokens.length - 1)]
+  }
+
+  private advance(): Token {
+    const token = this.peek()
+    if (this.position < this.tokens.length - 1) this.position++
+    return token
+  }
+
+  private get line(): number {
+    return this.peek().line
+  }
+
+  /** Whether the next token is the given operator or keyword */
+  private at(value: string, offset = 0): boolean {
+    const token = this.peek(offset)
+    return (token.type === 'op' || token.type === 'name') && token.value === value
+  }
+
+  private accept(value: string): boolean {
+    if (!this.at(value)) return false
+    this.advance()
+    return true
+  }
+
+  private expect(value: string): Token {
+    if (!this.at(value)) this.fail(value === ':' ? "expected ':'" : `expected '${value}'`)
+    return this.advance()
+  }
+
+  private expectName(): string {
+    const token = this.peek()
+    if (token.type !== 'name' || KEYWORDS.has(token.value)) this.fail('invalid syntax')
+    return this.advance().value
+  }
+
+  private expectEndOfLine() {
+    if (this.peek().type === 'newline') this.advance()
+    else if (this.peek().type !== 'end') this.fail('invalid syntax')
+  }
+
+  private fail(message: string): never {
+    throw new PythonSyntaxError(message, this.line)
+  }
+
+  private canStartExpression(): boolean {
+    const token = this.peek()
+    if (token.type === 'number' || token.type === 'string') return true
+    if (token.type === 'name') return !KEYWORDS.has(token.value) || ['not', 'lambda', 'None', 'True', 'False', 'await', 'yield'].includes(token.value)
+    return token.type === 'op' && ['(', '[', '{', '-', '+', '~', '*', '...'].includes(token.value)
+  }
+
+  // ---------- statements ----------
+
+  parseModule(): Stmt[] {
+    const body: Stmt[] = []
+    while (this.peek().type !== 'end') {
+      if (this.peek().type === 'newline') {
+        this.advance()
+        continue
+      }
+      if (this.peek().type === 'indent') this.fail('unexpected indent')
+      body.push(...this.parseStatement())
+    }
+    return body
+  }
+
+  private parseBlock(): Stmt[] {
+    this.expect(':')
+    if (this.peek().type !== 'newline') return this.parseSimpleStatements()
+    this.advance()
+    if (this.peek().type !== 'indent') this.fail('expected an indented block')
+    this.advance()
+    const body: Stmt[] = []
+    while (this.peek().type !== 'dedent' && this.peek().type !== 'end') {
+      if (this.peek().type === 'newline') {
+        this.advance()
+        continue
+      }
+      body.push(...this.parseStatement())
+    }
+    this.advance()
+    return body
+  }
+
+  private parseStatement(): Stmt[] {
+    const token = this.peek()
+    if (token.type === 'op' && token.value === '@') return [this.parseDecorated()]
+    if (token.type !== 'name') return this.parseSimpleStatements()
+
+    switch (token.value) {
+      case 'if': return [this.parseIf()]
+      case 'while': {
+        this.advance()
+        const test = this.parseNamedExpression()
+        const body = this.parseBlock()
+        return [{ type: 'While', line: token.line, test, body, orelse: this.parseElse() }]
+      }
+      case 'for': {
+        this.advance()
+        const target = this.parseTargetList()
+        this.expect('in')
+        const iter = this.parseExpressionList()
+        const body = this.parseBlock()
+        return [{ type: 'For', line: token.line, target, iter, body, orelse: this.parseElse() }]
+      }
+      case 'def': return [this.parseFunction([])]
+      case 'class': return [this.parseClass([])]
+      case 'try': return [this.parseTry()]
+      case 'with': return [this.parseWith()]
+      case 'async': throw new UnsupportedFeatureError('async functions', token.line)
+      default: return this.parseSimpleStatements()
+    }
+  }
+
+  private parseIf(): Stmt {
+    const line = this.advance().line
+    const test = this.parseNamedExpression()
+    const body = this.parseBlock()
+    if (this.at('elif')) return { type: 'If', line, test, body, orelse: [this.parseIf()] }
+    return { type: 'If', line, test, body, orelse: this.parseElse() }
+  }
+
+  private parseElse(): Stmt[] {
+    return this.accept('else') ? this.parseBlock() : []
+  }
+
+  private parseDecorated(): Stmt {
+    const decorators: Expr[] = []
+    while (this.accept('@')) {
+      decorators.push(this.parseNamedExpression())
+      this.expectEndOfLine()
+    }
+    if (this.at('def')) return this.parseFunction(decorators)
+    if (this.at('class')) return this.parseClass(decorators)
+    if (this.at('async')) throw new UnsupportedFeatureError('async functions', this.line)
+    return this.fail('invalid syntax')
+  }
+
+  private parseFunction(decorators: Expr[]): Stmt {
+    const line = this.expect('def').line
+    const name = this.expectName()
+    this.expect('(')
+    const params = this.parseParams(')')
+    this.expect(')')
+    if (this.accept('->')) this.parseTest()
+
+    this.functions.push({ isGenerator: false })
+    const body = this.parseBlock()
+    const { isGenerator } = this.functions.pop() as { isGenerator: boolean }
+    return { type: 'FunctionDef', line, name, params, body, decorators, isGenerator }
+  }
+
+  private parseClass(decorators: Expr[]): Stmt {
+    const line = this.expect('class').line
+    const name = this.expectName()
+    let bases: Expr[] = []
+    if (this.accept('(')) {
+      const { args, keywords } = this.parseCallArguments()
+      if (keywords.length > 0) throw new UnsupportedFeatureError('Class keyword arguments such as metaclass=', line)
+      bases = args
+    }
+    // Functions defined in the class body are separate scopes, but the body itself isn't one
+    const functions = this.functions
+    this.functions = []
+    const body = this.parseBlock()
+    this.functions = functions
+    return { type: 'ClassDef', line, name, bases, body, decorators }
+  }
+
+  private parseTry(): Stmt {
+    const line = this.expect('try').line
+    const body = this.parseBlock()
+    const handlers: ExceptHandler[] = []
+    while (this.at('except')) {
+      const handlerLine = this.advance().line
+      if (this.at('*')) throw new UnsupportedFeatureError('Exception groups (except*)', handlerLine)
+      let exceptionType: Expr | null = null
+      let name: string | null = null
+      if (!this.at(':')) {
+        exceptionType = this.parseTest()
+        if (this.accept(',')) exceptionType = { type: 'Tuple', line: handlerLine, elements: [exceptionType, ...this.parseRestOfList(':', () => this.parseTest())] }
+        if (this.accept('as')) name = this.expectName()
+      }
+      handlers.push({ line: handlerLine, exceptionType, name, body: this.parseBlock() })
+    }
+    const orelse = handlers.length > 0 ? this.parseElse() : []
+    const finalbody = this.accept('finally') ? this.parseBlock() : []
+    if (handlers.length === 0 && finalbody.length === 0) this.fail("expected 'except' or 'finally' block")
+    return { type: 'Try', line, body, handlers, orelse, finalbody }
+  }
+
+  private parseWith(): Stmt {
+    const line = this.expect('with').line
+    const items: { context: Expr; target: Expr | null }[] = []
+    do {
+      const context = this.parseTest()
+      items.push({ context, target: this.accept('as') ? this.parseTarget() : null })
+    } while (this.accept(','))
+    return { type: 'With', line, items, body: this.parseBlock() }
+  }
+
+  private parseSimpleStatements(): Stmt[] {
+    const statements = [this.parseSimpleStatement()]
+    while (this.accept(';')) {
+      if (this.peek().type === 'newline' || this.peek().type === 'end') break
+      statements.push(this.parseSimpleStatement())
+    }
+    this.expectEndOfLine()
+    return statements
+  }
+
+  private parseSimpleStatement(): Stmt {
+    const token = this.peek()
+    const line = token.line
+    if (token.type === 'name') {
+      switch (token.value) {
+        case 'pass':
+        case 'break':
+        case 'continue':
+          this.advance()
+          return { type: token.value === 'pass' ? 'Pass' : token.value === 'break' ? 'Break' : 'Continue', line }
+        case 'return':
+          this.advance()
+          if (this.functions.length === 0) this.fail("'return' outside function")
+          return { type: 'Return', line, value: this.canStartExpression() ? this.parseExpressionList() : null }
+        case 'raise': {
+          this.advance()
+          if (!this.canStartExpression()) return { type: 'Raise', line, exception: null, cause: null }
+          const exception = this.parseTest()
+          return { type: 'Raise', line, exception, cause: this.accept('from') ? this.parseTest() : null }
+        }
+        case 'global':
+        case 'nonlocal': {
+          this.advance()
+          const names = [this.expectName()]
+          while (this.accept(',')) names.push(this.expectName())
+          return { type: token.value === 'global' ? 'Global' : 'Nonlocal', line, names }
+        }
+        case 'del': {
+          this.advance()
+          const target = this.parseTargetList()
+          return { type: 'Delete', line, targets: target.type === 'Tuple' ? target.elements : [target] }
+        }
+        case 'assert': {
+          this.advance()
+          const test = this.parseTest()
+          return { type: 'Assert', line, test, message: this.accept(',') ? this.parseTest() : null }
+        }
+        case 'import': {
+          this.advance()
+          const names: ImportAlias[] = []
+          do {
+            const name = this.parseDottedName()
+            names.push({ name, alias: this.accept('as') ? this.expectName() : null })
+          } while (this.accept(','))
+          return { type: 'Import', line, names }
+        }
+        case 'from': {
+          this.advance()
+          if (this.at('.') || this.at('...')) throw new UnsupportedFeatureError('Relative imports', line)
+          const moduleName = this.parseDottedName()
+          this.expect('import')
+          if (this.accept('*')) return { type: 'ImportFrom', line, module: moduleName, names: [{ name: '*', alias: null }] }
+          const parenthesized = this.accept('(')
+          const names: ImportAlias[] = []
+          do {
+            if (parenthesized && this.at(')')) break
+            const name = this.expectName()
+            names.push({ name, alias: this.accept('as') ? this.expectName() : null })
+          } while (this.accept(','))
+          if (parenthesized) this.expect(')')
+          return { type: 'ImportFrom', line, module: moduleName, names }
+        }
+      }
+    }
+    return this.parseExpressionStatement()
+  }
+
+  private parseDottedName(): string {
+    let name = this.expectName()
+    while (this.accept('.')) name += `.${this.expectName()}`
+    return name
+  }
+
+  private parseExpressionStatement(): Stmt {
+    const line = this.line
+    const first = this.parseExpressionListOrYield()
+
+    if (this.at('=')) {
+      const targets = [first]
+      let value = first
+      while (this.accept('=')) {
+        value = this.parseExpressionListOrYield()
+        targets.push(value)
+      }
+      targets.pop()
+      targets.forEach(target => this.checkTarget(target))
+      return { type: 'Assign', line, targets, value }
+    }
+
+    const token = this.peek()
+    if (token.type === 'op' && AUGMENTED_ASSIGNMENTS.has(token.value)) {
+      this.advance()
+      if (!['Name', 'Attribute', 'Subscript'].includes(first.type)) this.fail("'tuple' is an illegal expression for augmented assignment")
+      return { type: 'AugAssign', line, target: first, op: token.value.slice(0, -1), value: this.parseExpressionListOrYield() }
+    }
+
+    if (this.accept(':')) {
+      this.checkTarget(first)
+      this.parseTest()
+      return { type: 'AnnAssign', line, target: first, value: this.accept('=') ? this.parseExpressionListOrYield() : null }
+    }
+
+    return { type: 'Expr', line, value: first }
+  }
+
+  private checkTarget(target: Expr) {
+    switch (target.type) {
+      case 'Name':
+      case 'Attribute':
+      case 'Subscript':
+        return
+      case 'Tuple':
+      case 'List':
+        target.elements.forEach(element => this.checkTarget(element))
+        return
+      case 'Starred':
+        this.checkTarget(target.value)
+        return
+      default:
+        throw new PythonSyntaxError('cannot assign to expression', target.line)
+    }
+  }
+
+  // ---------- parameters and arguments ----------
+
+  private parseParams(closing: string): Param[] {
+    const params: Param[] = []
+    let keywordOnly = false
+    const annotated = closing === ')'
+    while (!this.at(closing)) {
+      if (this.accept('/')) {
+        // Positional-only marker: those parameters are treated as ordinary ones
+      } else if (this.accept('**')) {
+        const name = this.expectName()
+        if (annotated && this.accept(':')) this.parseTest()
+        params.push({ name, kind: 'varkw', defaultValue: null })
+      } else if (this.accept('*')) {
+        keywordOnly = true
+        if (!this.at(',') && !this.at(closing)) {
+          const name = this.expectName()
+          if (annotated && this.accept(':')) this.parseTest()
+          params.push({ name, kind: 'varargs', defaultValue: null })
+        }
+      } else {
+        const name = this.expectName()
+        if (annotated && this.accept(':')) this.parseTest()
+        const defaultValue = this.accept('=') ? this.parseTest() : null
+        if (!defaultValue && !keywordOnly && params.some(param => param.kind === 'positional' && param.defaultValue)) {
+          this.fail('non-default argument follows default argument')
+        }
+        params.push({ name, kind: keywordOnly ? 'keyword' : 'positional', defaultValue })
+      }
+      if (!this.accept(',')) break
+    }
+    return params
+  }
+
+  private parseCallArguments(): { args: Expr[]; keywords: Keyword[] } {
+    const args: Expr[] = []
+    const keywords: Keyword[] = []
+    while (!this.at(')')) {
+      const line = this.line
+      if (this.accept('**')) {
+        keywords.push({ name: null, value: this.parseTest() })
+      } else if (this.accept('*')) {
+        args.push({ type: 'Starred', line, value: this.parseTest() })
+      } else if (this.peek().type === 'name' && this.at('=', 1)) {
+        const name = this.expectName()
+        this.advance()
+        keywords.push({ name, value: this.parseTest() })
+      } else {
+        const value = this.parseNamedExpression()
+        if (this.at('for')) {
+          args.push(this.parseComprehension('generator', value, null, line))
+        } else {
+          args.push(value)
+        }
+      }
+      if (!this.accept(',')) break
+    }
+    this.expect(')')
+    return { args, keywords }
+  }
+
+  // ---------- expressions ----------
+
+  /** Comma-separated expressions, which form a tuple when there's more than one */
+  parseExpressionList(): Expr {
+    const line = this.line
+    const first = this.parseStarOrNamed()
+    if (!this.at(',')) return first
+    const elements = [first]
+    while (this.accept(',') && this.canStartExpression()) elements.push(this.parseStarOrNamed())
+    return { type: 'Tuple', line, elements }
+  }
+
+  private parseExpressionListOrYield(): Expr {
+    return this.at('yield') ? this.parseYield() : this.parseExpressionList()
+  }
+
+  private parseYield(): Expr {
+    const line = this.expect('yield').line
+    const current = this.functions[this.functions.length - 1]
+    if (!current) this.fail("'yield' outside function")
+    current.isGenerator = true
+    if (this.accept('from')) return { type: 'YieldFrom', line, value: this.parseTest() }
+    return { type: 'Yield', line, value: this.canStartExpression() ? this.parseExpressionList() : null }
+  }
+
+  private parseStarOrNamed(): Expr {
+    const line = this.line
+    if (this.accept('*')) return { type: 'Starred', line, value: this.parseBitOr() }
+    return this.parseNamedExpression()
+  }
+
+  /** Assignment targets for `for` and `with`, which stop before `in` */
+  private parseTargetList(): Expr {
+    const line = this.line
+    const first = this.parseTarget()
+    if (!this.at(',')) return first
+    const elements = [first]
+    while (this.accept(',') && this.canStartExpression()) elements.push(this.parseTarget())
+    return { type: 'Tuple', line, elements }
+  }
+
+  private parseTarget(): Expr {
+    const line = this.line
+    const target = this.accept('*') ? { type: 'Starred' as const, line, value: this.parseBitOr() } : this.parseBitOr()
+    this.checkTarget(target)
+    return target
+  }
+
+  private parseRestOfList(closing: string, parseItem: () => Expr): Expr[] {
+    const items: Expr[] = []
+    while (!this.at(closing)) {
+      items.push(parseItem())
+      if (!this.accept(',')) break
+    }
+    return items
+  }
+
+  private parseNamedExpression(): Expr {
+    if (this.peek().type === 'name' && this.at(':=', 1)) {
+      const line = this.line
+      const target = this.expectName()
+      this.advance()
+      return { type: 'NamedExpr', line, target, value: this.parseTest() }
+    }
+    return this.parseTest()
+  }
+
+  parseTest(): Expr {
+    if (this.at('lambda')) return this.parseLambda()
+    const line = this.line
+    const body = this.parseOr()
+    if (!this.accept('if')) return body
+    const test = this.parseOr()
+    this.expect('else')
+    return { type: 'IfExp', line, test, body, orelse: this.parseTest() }
+  }
+
+  private parseLambda(): Expr {
+    const line = this.expect('lambda').line
+    const params = this.parseParams(':')
+    this.expect(':')
+    return { type: 'Lambda', line, params, body: this.parseTest() }
+  }
+
+  private parseOr(): Expr {
+    const line = this.line
+    const first = this.parseAnd()
+    if (!this.at('or')) return first
+    const values = [first]
+    while (this.accept('or')) values.push(this.parseAnd())
+    return { type: 'BoolOp', line, op: 'or', values }
+  }
+
+  private parseAnd(): Expr {
+    const line = this.line
+    const first = this.parseNot()
+    if (!this.at('and')) return first
+    const values = [first]
+    while (this.accept('and')) values.push(this.parseNot())
+    return { type: 'BoolOp', line, op: 'and', values }
+  }
+
+  private parseNot(): Expr {
+    const line = this.line
+    if (this.accept('not')) return { type: 'UnaryOp', line, op: 'not', operand: this.parseNot() }
+    return this.parseComparison()
+  }
+
+  private parseComparison(): Expr {
+    const line = this.line
+    const left = this.parseBitOr()
+    const ops: string[] = []
+    const comparators: Expr[] = []
+    for (;;) {
+      const token = this.peek()
+      let op: string | null = null
+      if (token.type === 'op' && COMPARISONS.has(token.value)) op = token.value
+      else if (this.at('in')) op = 'in'
+      else if (this.at('not') && this.at('in', 1)) op = 'not in'
+      else if (this.at('is')) op = this.at('not', 1) ? 'is not' : 'is'
+      if (!op) break
+      this.advance()
+      if (op === 'not in' || op === 'is not') this.advance()
+      ops.push(op)
+      comparators.push(this.parseBitOr())
+    }
+    return ops.length === 0 ? left : { type: 'Compare', line, left, ops, comparators }
+  }
+
+  private parseBinary(operators: string[], parseOperand: () => Expr): Expr {
+    let left = parseOperand()
+    for (;;) {
+      const token = this.peek()
+      if (token.type !== 'op' || !operators.includes(token.value)) return left
+      this.advance()
+      left = { type: 'BinOp', line: token.line, op: token.value, left, right: parseOperand() }
+    }
+  }
+
+  private parseBitOr(): Expr {
+    return this.parseBinary(['|'], () => this.parseBitXor())
+  }
+
+  private parseBitXor(): Expr {
+    return this.parseBinary(['^'], () => this.parseBitAnd())
+  }
+
+  private parseBitAnd(): Expr {
+    return this.parseBinary(['&'], () => this.parseShift())
+  }
+
+  private parseShift(): Expr {
+    return this.parseBinary(['<<', '>>'], () => this.parseArithmetic())
+  }
+
+  private parseArithmetic(): Expr {
+    return this.parseBinary(['+', '-'], () => this.parseTerm())
+  }
+
+  private parseTerm(): Expr {
+    return this.parseBinary(['*', '/', '//', '%', '@'], () => this.parseFactor())
+  }
+
+  private parseFactor(): Expr {
+    const token = this.peek()
+    if (token.type === 'op' && ['-', '+', '~'].includes(token.value)) {
+      this.advance()
+      return { type: 'UnaryOp', line: token.line, op: token.value, operand: this.parseFactor() }
+    }
+    return this.parsePower()
+  }
+
+  private parsePower(): Expr {
+    if (this.at('await')) throw new UnsupportedFeatureError('await', this.line)
+    const base = this.parsePrimary()
+    const token = this.peek()
+    if (!this.accept('**')) return base
+    return { type: 'BinOp', line: token.line, op: '**', left: base, right: this.parseFactor() }
+  }
+
+  private parsePrimary(): Expr {
+    let value = this.parseAtom()
+    for (;;) {
+      const line = this.line
+      if (this.accept('(')) {
+        const { args, keywords } = this.parseCallArguments()
+        value = { type: 'Call', line, func: value, args, keywords }
+      } else if (this.accept('[')) {
+        const first = this.parseSliceItem()
+        let index = first
+        if (this.at(',')) {
+          const elements = [first]
+          while (this.accept(',') && !this.at(']')) elements.push(this.parseSliceItem())
+          index = { type: 'Tuple', line, elements }
+        }
+        this.expect(']')
+        value = { type: 'Subscript', line, value, index }
+      } else if (this.accept('.')) {
+        value = { type: 'Attribute', line, value, attr: this.expectName() }
+      } else {
+        return value
+      }
+    }
+  }
+
+  private parseSliceItem(): Expr {
+    const line = this.line
+    const lower = this.at(':') ? null : this.parseNamedExpression()
+    if (!this.accept(':')) return lower as Expr
+    const upper = this.at(':') || this.at(']') || this.at(',') ? null : this.parseTest()
+    let step: Expr | null = null
+    if (this.accept(':') && !this.at(']') && !this.at(',')) step = this.parseTest()
+    return { type: 'Slice', line, lower, upper, step }
+  }
+
+  private parseAtom(): Expr {
+    const token = this.peek()
+    const line = token.line
+
+    if (token.type === 'number') {
+      this.advance()
+      return { type: 'Constant', line, value: parseNumber(token.value, line) }
+    }
+    if (token.type === 'string') return this.parseStrings()
+    if (token.type === 'name') {
+      this.advance()
+      switch (token.value) {
+        case 'True': return { type: 'Constant', line, value: true }
+        case 'False': return { type: 'Constant', line, value: false }
+        case 'None': return { type: 'Constant', line, value: null }
+        case 'yield': this.fail("'yield' must be in parentheses here")
+      }
+      if (KEYWORDS.has(token.value)) this.fail('invalid syntax')
+      return { type: 'Name', line, id: token.value }
+    }
+    if (token.type !== 'op') this.fail(token.type === 'indent' ? 'unexpected indent' : 'invalid syntax')
+
+    this.advance()
+    switch (token.value) {
+      case '...':
+        return { type: 'Ellipsis', line }
+      case '(': {
+        if (this.accept(')')) return { type: 'Tuple', line, elements: [] }
+        if (this.at('yield')) {
+          const value = this.parseYield()
+          this.expect(')')
+          return value
+        }
+        const first = this.parseStarOrNamed()
+        if (this.at('for')) {
+          const comprehension = this.parseComprehension('generator', first, null, line)
+          this.expect(')')
+          return comprehension
+        }
+        if (!this.accept(',')) {
+          this.expect(')')
+          return first
+        }
+        const elements = [first, ...this.parseRestOfList(')', () => this.parseStarOrNamed())]
+        this.expect(')')
+        return { type: 'Tuple', line, elements }
+      }
+      case '[': {
+        if (this.accept(']')) return { type: 'List', line, elements: [] }
+        const first = this.parseStarOrNamed()
+        if (this.at('for')) {
+          const comprehension = this.parseComprehension('list', first, null, line)
+          this.expect(']')
+          return comprehension
+        }
+        const elements = this.accept(',') ? [first, ...this.parseRestOfList(']', () => this.parseStarOrNamed())] : [first]
+        this.expect(']')
+        return { type: 'List', line, elements }
+      }
+      case '{':
+        return this.parseBraces(line)
+      default:
+        return this.fail('invalid syntax')
+    }
+  }
+
+  private parseBraces(line: number): Expr {
+    if (this.accept('}')) return { type: 'Dict', line, keys: [], values: [] }
+
+    const parseEntry = (): [Expr | null, Expr] => {
+      if (this.accept('**')) return [null, this.parseBitOr()]
+      const key = this.parseTest()
+      this.expect(':')
+      return [key, this.parseTest()]
+    }
+
+    if (this.at('**') || this.isDictEntry()) {
+      const [firstKey, firstValue] = parseEntry()
+      if (firstKey && this.at('for')) {
+        const comprehension = this.parseComprehension('dict', firstKey, firstValue, line)
+        this.expect('}')
+        return comprehension
+      }
+      const keys = [firstKey]
+      const values = [firstValue]
+      while (this.accept(',') && !this.at('}')) {
+        const [key, value] = parseEntry()
+        keys.push(key)
+        values.push(value)
+      }
+      this.expect('}')
+      return { type: 'Dict', line, keys, values }
+    }
+
+    const first = this.parseStarOrNamed()
+    if (this.at('for')) {
+      const comprehension = this.parseComprehension('set', first, null, line)
+      this.expect('}')
+      return comprehension
+    }
+    const elements = this.accept(',') ? [first, ...this.parseRestOfList('}', () => this.parseStarOrNamed())] : [first]
+    this.expect('}')
+    return { type: 'Set', line, elements }
+  }
+
+  /** Looks ahead for a top-level ':' to tell `{key: value}` from `{item}` */
+  private isDictEntry(): boolean {
+    let depth = 0
+    for (let offset = 0; ; offset++) {
+      const token = this.peek(offset)
+      if (token.type === 'end') return false
+      if (token.type === 'name') {
+        if (depth === 0 && (token.value === 'for' || token.value === 'lambda')) return false
+        continue
+      }
+      if (token.type !== 'op') continue
+      if ('([{'.includes(token.value)) depth++
+      else if (')]}'.includes(token.value)) {
+        if (depth === 0) return false
+        depth--
+      } else if (depth === 0 && token.value === ',') return false
+      else if (depth === 0 && token.value === ':') return true
+    }
+  }
+
+  private parseComprehension(kind: 'list' | 'set' | 'dict' | 'generator', element: Expr, value: Expr | null, line: number): Expr {
+    const generators: ComprehensionFor[] = []
+    while (this.accept('for')) {
+      const target = this.parseTargetList()
+      this.expect('in')
+      const iter = this.parseOr()
+      const conditions: Expr[] = []
+      while (this.accept('if')) conditions.push(this.parseOr())
+      generators.push({ target, iter, conditions })
+    }
+    return { type: 'Comprehension', line, kind, element, value, generators }
+  }
+
+  /** Adjacent string literals, joined into one constant or f-string */
+  private parseStrings(): Expr {
+    const line = this.line
+    const parts: FStringPart[] = []
+    let isFormatted = false
+    while (this.peek().type === 'string') {
+      const token = this.advance()
+      const prefix = token.prefix ?? ''
+      const raw = prefix.includes('r')
+      if (prefix.includes('f')) {
+        isFormatted = true
+        parts.push(...parseFString(token.value, raw, token.line))
+      } else {
+        parts.push(raw ? token.value : unescape(token.value))
+      }
+    }
+    if (isFormatted) return { type: 'FString', line, parts }
+    return { type: 'Constant', line, value: parts.join('') }
+  }
+}
+
+function parseNumber(text: string, line: number): bigint | number {
+  const clean = text.replace(/_/g, '')
+  if (/[jJ]$/.test(clean)) throw new UnsupportedFeatureError('Complex numbers', line)
+  if (/^0[xXoObB]/.test(clean)) return BigInt(clean)
+  if (/[.eE]/.test(clean)) return Number(clean)
+  if (/^0\d/.test(clean) && /[1-9]/.test(clean)) {
+    throw new PythonSyntaxError('leading zeros in decimal integer literals are not permitted; use an 0o prefix for octal integers', line)
+  }
+  return BigInt(clean)
+}
+
+/**
+ * Splits an f-string body into literal text and {expression!conversion:spec} fields
+ */
+function parseFString(body: string, raw: boolean, line: number): FStringPart[] {
+  const parts: FStringPart[] = []
+  let literal = ''
+  const flush = () => {
+    if (literal) parts.push(raw ? literal : unescape(literal))
+    literal = ''
+  }
+
+  let index = 0
+  while (index < body.length) {
+    const char = body[index]
+    if ((char === '{' || char === '}') && body[index + 1] === char) {
+      literal += char
+      index += 2
+      continue
+    }
+    if (char === '}') throw new PythonSyntaxError("f-string: single '}' is not allowed", line)
+    if (char !== '{') {
+      literal += char
+      index++
+      continue
+    }
+    flush()
+
+    let end = index + 1
+    let depth = 0
+    let quote: string | null = null
+    for (; end < body.length; end++) {
+      const current = body[end]
+      if (quote) {
+        if (current === quote) quote = null
+      } else if (current === '"' || current === "'") {
+        quote = current
+      } else if ('([{'.includes(current)) {
+        depth++
+      } else if (')]}'.includes(current)) {
+        if (depth === 0) break
+        depth--
+      } else if (depth === 0 && ((current === '!' && body[end + 1] !== '=') || current === ':')) {
+        break
+      }
+    }
+
+    let source = body.slice(index + 1, end)
+    let debug: string | null = null
+    if (/[^=!<>]=\s*$/.test(source)) {
+      debug = source
+      source = source.replace(/=\s*$/, '')
+    }
+    if (!source.trim()) throw new PythonSyntaxError('f-string: valid expression required before }', line)
+
+    let conversion: string | null = null
+    if (body[end] === '!') {
+      conversion = body[end + 1]
+      if (!'rsa'.includes(conversion)) throw new PythonSyntaxError("f-string: invalid conversion character: expected 's', 'r', or 'a'", line)
+      end += 2
+    }
+    let spec: FStringPart[] | null = null
+    if (body[end] === ':') {
+      let specEnd = end + 1
+      let specDepth = 0
+      for (; specEnd < body.length; specEnd++) {
+        if (body[specEnd] === '{') specDepth++
+        else if (body[specEnd] === '}') {
+          if (specDepth === 0) break
+          specDepth--
+        }
+      }
+      spec = parseFString(body.slice(end + 1, specEnd), raw, line)
+      end = specEnd
+    }
+    if (body[end] !== '}') throw new PythonSyntaxError("f-string: expecting '}'", line)
+
+    parts.push({ expression: parseExpressionSource(source, line), conversion, spec, debug })
+    index = end + 1
+  }
+  flush()
+  return parts
+}
+
+function parseExpressionSource(source: string, line: number): Expr {
+  return new Parser(tokenize(`(${source})`, line)).parseTest()
+}
+
+// ==================== ENTRY POINT ====================
+
+/**
+ * Parses a Python module. Throws PythonSyntaxError or UnsupportedFeatureError.
+ */
+export function parsePython(source: string): Stmt[] {
+  return new Parser(tokenize(source)).parseModule()
+}
@@ -0,0 +1,2126 @@
+/**
+ * Python Tracer
+ * A small Python interpreter that runs in the browser and records every step for the sandbox
+ * visualiser: the line about to run, each call frame's variables and the objects they reference.
+ * It covers the core language and a handful of standard modules, not all of CPython.
+ */
+
+import {
+  MAX_HEAP_ENTRIES,
+  MAX_HEAP_OBJECTS,
+  StepLimitError,
+  TraceRecorder,
+  type ExecutionTrace,
+  type HeapObject,
+  type TraceEvent,
+  type TraceValue,
+} from './executionTrace'
+import { parsePython, PythonSyntaxError, UnsupportedFeatureError, type Expr, type ExceptHandler, type FStringPart, type Param, type Stmt } from './pythonParser'
+import {
+  ELLIPSIS,
+  NOT_IMPLEMENTED,
+  PyBoundMethod,
+  PyBuiltin,
+  PyClass,
+  PyClassMethod,
+  PyDict,
+  PyFile,
+  PyFunction,
+  PyGenerator,
+  PyInstance,
+  PyIterator,
+  PyList,
+  PyMatch,
+  PyModule,
+  PyObject,
+  PyPattern,
+  PyProperty,
+  PyRange,
+  PySet,
+  PySingleton,
+  PySlice,
+  PyStaticMethod,
+  PySuper,
+  PyTuple,
+  PyView,
+  PythonException,
+  Scope,
+  formatFloat,
+  isNumeric,
+  quoteString,
+  toNumeric,
+  type Frame,
+  type Kwargs,
+  type PyValue,
+  type ScopeInfo,
+} from './pythonValues'
+import { createBuiltins, createModule, nativeMethod, type Builtins } from './pythonBuiltins'
+
+// ==================== LIMITS ====================
+
+const MAX_CALL_DEPTH = 200
+/** Loop iterations and other work allowed in total, so long-running builtins end */
+const MAX_TICKS = 2_000_000
+/** Longest string, list or repeated sequence a program may build */
+const MAX_SEQUENCE_LENGTH = 1_000_000
+
+// ==================== SCOPES ====================
+
+type Completion = undefined | { kind: 'break' } | { kind: 'continue' } | { kind: 'return'; value: PyValue }
+type Execution<T> = Generator<PyValue, T, PyValue>
+
+const BREAK = { kind: 'break' } as const
+const CONTINUE = { kind: 'continue' } as const
+const EMPTY_KWARGS: Kwargs = new Map()
+
+const BINARY_METHODS: Record<string, [string, string]> = {
+  '+': ['__add__', '__radd__'],
+  '-': ['__sub__', '__rsub__'],
+  '*': ['__mul__', '__rmul__'],
+  '/': ['__truediv__', '__rtruediv__'],
+  '//': ['__floordiv__', '__rfloordiv__'],
+  '%': ['__mod__', '__rmod__'],
+  '**': ['__pow__', '__rpow__'],
+  '@': ['__matmul__', '__rmatmul__'],
+  '&': ['__and__', '__rand__'],
+  '|': ['__or__', '__ror__'],
+  '^': ['__xor__', '__rxor__'],
+  '<<': ['__lshift__', '__rlshift__'],
+  '>>': ['__rshift__', '__rrshift__'],
+}
+
+const COMPARISON_METHODS: Record<string, [string, string]> = {
+  '<': ['__lt__', '__gt__'],
+  '>': ['__gt__', '__lt__'],
+  '<=': ['__le__', '__ge__'],
+  '>=': ['__ge__', '__le__'],
+}
+
+function collectTargetNames(target: Expr, names: Set<string>) {
+  if (target.type === 'Name') names.add(target.id)
+  else if (target.type === 'Tuple' || target.type === 'List') target.elements.forEach(element => collectTargetNames(element, names))
+  else if (target.type === 'Starred') collectTargetNames(target.value, names)
+}
+
+const scopeCache = new WeakMap<object, ScopeInfo>()
+
+/**
+ * Which names a function assigns (its locals) and which it declares global or nonlocal
+ */
+function analyzeScope(body: Stmt[] | Expr, params: Param[]): ScopeInfo {
+  const cached = scopeCache.get(body)
+  if (cached) return cached
+
+  const info: ScopeInfo = { locals: new Set(params.map(param => param.name)), globals: new Set(), nonlocals: new Set() }
+  const visit = (statements: Stmt[]) => statements.forEach(statement => {
+    switch (statement.type) {
+      case 'Assign': statement.targets.forEach(target => collectTargetNames(target, info.locals)); break
+      case 'AugAssign':
+      case 'AnnAssign': collectTargetNames(statement.target, info.locals); break
+      case 'For':
+        collectTargetNames(statement.target, info.locals)
+        visit(statement.body)
+        visit(statement.orelse)
+        break
+      case 'If':
+      case 'While':
+        visit(statement.body)
+        visit(statement.orelse)
+        break
+      case 'Try':
+        visit(statement.body)
+        statement.handlers.forEach(handler => {
+          if (handler.name) info.locals.add(handler.name)
+          visit(handler.body)
+        })
+        visit(statement.orelse)
+        visit(statement.finalbody)
+        break
+      case 'With':
+        statement.items.forEach(item => item.target && collectTargetNames(item.target, info.locals))
+        visit(statement.body)
+        break
+      case 'FunctionDef':
+      case 'ClassDef': info.locals.add(statement.name); break
+      case 'Import': statement.names.forEach(alias => info.locals.add(alias.alias ?? alias.name.split('.')[0])); break
+      case 'ImportFrom': statement.names.forEach(alias => alias.name !== '*' && info.locals.add(alias.alias ?? alias.name)); break
+      case 'Delete': statement.targets.forEach(target => collectTargetNames(target, info.locals)); break
+      case 'Global': statement.names.forEach(name => info.globals.add(name)); break
+      case 'Nonlocal': statement.names.forEach(name => info.nonlocals.add(name)); break
+    }
+  })
+  if (Array.isArray(body)) visit(body)
+  info.globals.forEach(name => info.locals.delete(name))
+  info.nonlocals.forEach(name => info.locals.delete(name))
+  scopeCache.set(body, info)
+  return info
+}
+
+/**
+ * Runs a generator that never yields (the body of an ordinary function) to completion
+ */
+function drive<T>(execution: Execution<T>): T {
+  const result = execution.next()
+  if (!result.done) throw new UnsupportedFeatureError("'yield' here", 0)
+  return result.value
+}
+
+// ==================== INTERPRETER ====================
+
+export class PythonInterpreter {
+  frames: Frame[] = []
+  globals: Scope
+  builtins: Builtins
+  files = new Map<string, string>()
+  stdin: PyFile
+  modules = new Map<string, PyModule>()
+  /** Exceptions being handled by except blocks, for bare `raise` */
+  private handling: PythonException[] = []
+  private recorded = new WeakSet<PyInstance>()
+  private exceptionLines = new WeakMap<PyInstance, number>()
+  private ids = new WeakMap<object, number>()
+  private nextId = 1
+  private ticks = 0
+
+  constructor(private recorder: TraceRecorder, stdin: string) {
+    this.stdin = new PyFile('<stdin>', 'r', stdin)
+    this.builtins = createBuiltins(this)
+    this.globals = new Scope('module', null, null)
+    this.globals.vars.set('__name__', '__main__')
+  }
+
+  run(program: Stmt[]) {
+    this.frames.push({ name: 'Global', line: 1, scope: this.globals, func: null })
+    drive(this.execBlock(program, this.globals))
+  }
+
+  // ---------- recording ----------
+
+  write(text: string) {
+    this.recorder.write(text)
+  }
+
+  tick() {
+    if (++this.ticks > MAX_TICKS) throw new StepLimitError()
+  }
+
+  private get frame(): Frame {
+    return this.frames[this.frames.length - 1]
+  }
+
+  private step(line: number) {
+    this.frame.line = line
+    this.record('step', line)
+  }
+
+  private record(event: TraceEvent, line: number, returnValue?: PyValue, message?: string) {
+    this.recorder.record(this.snapshot(event, line, returnValue, message))
+  }
+
+  /** Records an exception step once, on the line where it was raised */
+  noteException(error: unknown) {
+    if (!(error instanceof PythonException) || this.recorded.has(error.exception)) return
+    this.recorded.add(error.exception)
+    this.exceptionLines.set(error.exception, this.frame.line)
+    if (!this.recorder.isFull) this.record('exception', this.frame.line, undefined, this.describeException(error.exception))
+  }
+
+  finish(error?: PythonException) {
+    const message = error ? this.describeException(error.exception) : undefined
+    this.recorder.finish(this.snapshot('finish', this.frame.line, undefined, message))
+  }
+
+  exceptionLine(error: PythonException): number | undefined {
+    return this.exceptionLines.get(error.exception)
+  }
+
+  describeException(exception: PyInstance): string {
+    const text = this.str(exception)
+    return text ? `${exception.cls.name}: ${text}` : exception.cls.name
+  }
+
+  objectId(value: object): number {
+    let id = this.ids.get(value)
+    if (id === undefined) {
+      id = this.nextId++
+      this.ids.set(value, id)
+    }
+    return id
+  }
+
+  private snapshot(event: TraceEvent, line: number, returnValue?: PyValue, message?: string) {
+    const heap: HeapObject[] = []
+    const pending: PyObject[] = []
+    const queued = new Set<number>()
+
+    const encode = (value: PyValue): TraceValue => {
+      if (!(value instanceof PyObject) || value instanceof PySingleton) return { kind: 'primitive', display: this.repr(value) }
+      const id = this.objectId(value)
+      if (!queued.has(id) && queued.size < MAX_HEAP_OBJECTS) {
+        queued.add(id)
+        pending.push(value)
+      }
+      return { kind: 'ref', id }
+    }
+
+    const stack = this.frames.map(frame => ({
+      name: frame.name,
+      line: frame.line,
+      locals: [...frame.scope.vars]
+        .filter(([name]) => !/^__\w+__$/.test(name))
+        .map(([name, value]) => ({ name, value: encode(value) })),
+    }))
+    const encodedReturn = returnValue === undefined ? undefined : encode(returnValue)
+
+    while (pending.length > 0) {
+      const value = pending.shift() as PyObject
+      heap.push(this.describeObject(this.objectId(value), value, encode))
+    }
+    return { line, event, stack, heap, returnValue: encodedReturn, message }
+  }
+
+  private describeObject(id: number, value: PyObject, encode: (value: PyValue) => TraceValue): HeapObject {
+    const sequence = (label: string, items: PyValue[]): HeapObject => ({
+      id,
+      label,
+      layout: 'sequence',
+      entries: items.slice(0, MAX_HEAP_ENTRIES).map((item, index) => ({ key: String(index), value: encode(item) })),
+      truncated: Math.max(0, items.length - MAX_HEAP_ENTRIES) || undefined,
+    })
+    const mapping = (label: string, entries: [string, PyValue][]): HeapObject => ({
+      id,
+      label,
+      layout: 'mapping',
+      entries: entries.slice(0, MAX_HEAP_ENTRIES).map(([key, item]) => ({ key, value: encode(item) })),
+      truncated: Math.max(0, entries.length - MAX_HEAP_ENTRIES) || undefined,
+    })
+    const opaque = (label: string): HeapObject => ({ id, label, layout: 'opaque', entries: [] })
+
+    if (value instanceof PyList) return sequence(value.typeName, value.items)
+    if (value instanceof PyTuple) return sequence('tuple', value.items)
+    if (value instanceof PySet) return sequence('set', [...value.entries.values()])
+    if (value instanceof PyDict) return mapping(value.typeName, [...value.entries.values()].map(([key, item]) => [this.repr(key), item]))
+    if (value instanceof PyInstance) return mapping(`${value.cls.name} instance`, [...value.attributes])
+    if (value instanceof PyClass) {
+      if (value.construct) return opaque(`class ${value.name}`)
+      return mapping(`class ${value.name}`, [...value.namespace].filter(([name]) => name === '__init__' || !/^__\w+__$/.test(name)))
+    }
+    if (value instanceof PyFunction) {
+      const params = value.params.map(param => (param.kind === 'varargs' ? `*${param.name}` : param.kind === 'varkw' ? `**${param.name}` : param.name))
+      return opaque(`function ${value.qualname}(${params.join(', ')})`)
+    }
+    if (value instanceof PyBoundMethod) return opaque(`method ${value.func.qualname}`)
+    if (value instanceof PyBuiltin) return opaque(`built-in function ${value.name}`)
+    if (value instanceof PyModule) return opaque(`module ${value.name}`)
+    if (value instanceof PyGenerator) return opaque(`generator ${value.func.name}`)
+    if (value instanceof PyView) return sequence(`dict_${value.kind}`, [...this.iterate(value)])
+    return opaque(this.repr(value))
+  }
+
+  // ---------- errors ----------
+
+  /**
+   * A Python exception of a built-in class, ready to throw
+   */
+  error(className: string, message?: string): PythonException {
+    const cls = this.builtins.get(className)
+    if (!(cls instanceof PyClass)) throw new Error(`Unknown exception class ${className}`)
+    return new PythonException(this.instantiate(cls, message === undefined ? [] : [message]) as PyInstance)
+  }
+
+  // ---------- names ----------
+
+  lookup(name: string, scope: Scope): PyValue {
+    if (scope.kind === 'function' && scope.info) {
+      if (scope.info.globals.has(name)) return this.lookupGlobal(name)
+      if (scope.vars.has(name)) return scope.vars.get(name) as PyValue
+      if (scope.info.locals.has(name)) throw this.error('UnboundLocalError', `cannot access local variable '${name}' where it is not associated with a value`)
+    } else if (scope.vars.has(name)) {
+      return scope.vars.get(name) as PyValue
+    }
+
+    for (let enclosing = scope.parent; enclosing; enclosing = enclosing.parent) {
+      if (enclosing.kind === 'class') continue
+      if (enclosing.vars.has(name)) return enclosing.vars.get(name) as PyValue
+    }
+    return this.lookupGlobal(name)
+  }
+
+  private lookupGlobal(name: string): PyValue {
+    if (this.globals.vars.has(name)) return this.globals.vars.get(name) as PyValue
+    if (this.builtins.has(name)) return this.builtins.get(name) as PyValue
+    throw this.error('NameError', `name '${name}' is not defined`)
+  }
+
+  store(name: string, value: PyValue, scope: Scope) {
+    this.targetScope(name, scope).vars.set(name, value)
+  }
+
+  private targetScope(name: string, scope: Scope): Scope {
+    if (scope.kind !== 'function' || !scope.info) return scope
+    if (scope.info.globals.has(name)) return this.globals
+    if (scope.info.nonlocals.has(name)) {
+      for (let enclosing = scope.parent; enclosing; enclosing = enclosing.parent) {
+        if (enclosing.kind === 'function' && enclosing.vars.has(name)) return enclosing
+      }
+      throw this.error('SyntaxError', `no binding for nonlocal '${name}' found`)
+    }
+    return scope
+  }
+
+  /** Nearest enclosing scope that isn't a class body, which functions close over */
+  private closureScope(scope: Scope): Scope {
+    let closure = scope
+    while (closure.kind === 'class' && closure.parent) closure = closure.parent
+    return closure
+  }
+
+  // ---------- statements ----------
+
+  private *execBlock(body: Stmt[], scope: Scope): Execution<Completion> {
+    for (const statement of body) {
+      const completion = yield* this.execute(statement, scope)
+      if (completion) return completion
+    }
+    return undefined
+  }
+
+  private *execute(statement: Stmt, scope: Scope): Execution<Completion> {
+    this.step(statement.line)
+    try {
+      return yield* this.executeStatement(statement, scope)
+    } catch (error) {
+      this.noteException(error)
+      throw error
+    }
+  }
+
+  private *executeStatement(statement: Stmt, scope: Scope): Execution<Completion> {
+    switch (statement.type) {
+      case 'Expr':
+        yield* this.evaluate(statement.value, scope)
+        return undefined
+
+      case 'Assign': {
+        const value = yield* this.evaluate(statement.value, scope)
+        for (const target of statement.targets) yield* this.assign(target, value, scope)
+        return undefined
+      }
+
+      case 'AugAssign':
+        yield* this.augmentedAssign(statement.target, statement.op, statement.value, scope)
+        return undefined
+
+      case 'AnnAssign':
+        if (statement.value) yield* this.assign(statement.target, yield* this.evaluate(statement.value, scope), scope)
+        return undefined
+
+      case 'If':
+        if (this.isTruthy(yield* this.evaluate(statement.test, scope))) return yield* this.execBlock(statement.body, scope)
+        return yield* this.execBlock(statement.orelse, scope)
+
+      case 'While':
+        for (let iteration = 0; ; iteration++) {
+          if (iteration > 0) this.step(statement.line)
+          if (!this.isTruthy(yield* this.evaluate(statement.test, scope))) return yield* this.execBlock(statement.orelse, scope)
+          const completion = yield* this.execBlock(statement.body, scope)
+          if (completion === BREAK) return undefined
+          if (completion?.kind === 'return') return completion
+        }
+
+      case 'For': {
+        const iterator = this.iterate(yield* this.evaluate(statement.iter, scope))
+        for (let iteration = 0; ; iteration++) {
+          if (iteration > 0) this.step(statement.line)
+          const next = iterator.next()
+          if (next.done) return yield* this.execBlock(statement.orelse, scope)
+          yield* this.assign(statement.target, next.value, scope)
+          const completion = yield* this.execBlock(statement.body, scope)
+          if (completion === BREAK) return undefined
+          if (completion?.kind === 'return') return completion
+        }
+      }
+
+      case 'Break':
+        return BREAK
+      case 'Continue':
+        return CONTINUE
+      case 'Pass':
+      case 'Global':
+      case 'Nonlocal':
+        return undefined
+
+      case 'Return':
+        return { kind: 'return', value: statement.value ? yield* this.evaluate(statement.value, scope) : null }
+
+      case 'FunctionDef': {
+        const decorators: PyValue[] = []
+        for (const decorator of statement.decorators) decorators.push(yield* this.evaluate(decorator, scope))
+        const qualname = scope.kind === 'class' ? `${scope.name}.${statement.name}` : statement.name
+        let func: PyValue = yield* this.makeFunction(statement.name, qualname, statement.params, statement.body, statement.isGenerator, statement.line, scope)
+        for (const decorator of decorators.reverse()) func = this.callValue(decorator, [func])
+        this.store(statement.name, func, scope)
+        return undefined
+      }
+
+      case 'ClassDef': {
+        const decorators: PyValue[] = []
+        for (const decorator of statement.decorators) decorators.push(yield* this.evaluate(decorator, scope))
+        const bases: PyClass[] = []
+        for (const baseExpression of statement.bases) {
+          const base = yield* this.evaluate(baseExpression, scope)
+          if (!(base instanceof PyClass)) throw this.error('TypeError', 'bases must be types')
+          bases.push(base)
+        }
+        const body = new Scope('class', scope, null, statement.name)
+        yield* this.execBlock(statement.body, body)
+        let owner: PyClass
+        try {
+          owner = new PyClass(statement.name, bases.length > 0 ? bases : [this.builtins.get('object') as PyClass], body.vars)
+        } catch (error) {
+          throw this.error('TypeError', (error as Error).message)
+        }
+        body.vars.forEach(member => {
+          const func = member instanceof PyStaticMethod || member instanceof PyClassMethod ? member.func : member instanceof PyProperty ? member.getter : member
+          if (func instanceof PyFunction && !func.ownerClass) func.ownerClass = owner
+          if (member instanceof PyProperty && member.setter instanceof PyFunction && !member.setter.ownerClass) member.setter.ownerClass = owner
+        })
+        let cls: PyValue = owner
+        for (const decorator of decorators.reverse()) cls = this.callValue(decorator, [cls])
+        this.store(statement.name, cls, scope)
+        return undefined
+      }
+
+      case 'Try':
+        return yield* this.executeTry(statement, scope)
+
+      case 'Raise': {
+        if (!statement.exception) {
+          const active = this.handling[this.handling.length - 1]
+          if (!active) throw this.error('RuntimeError', 'No active exception to reraise')
+          throw active
+        }
+        const exception = this.toException(yield* this.evaluate(statement.exception, scope))
+        if (statement.cause) exception.attributes.set('__cause__', yield* this.evaluate(statement.cause, scope))
+        throw new PythonException(exception)
+      }
+
+      case 'Assert':
+        if (!this.isTruthy(yield* this.evaluate(statement.test, scope))) {
+          const message = statement.message ? yield* this.evaluate(statement.message, scope) : undefined
+          throw new PythonException(this.instantiate(this.builtins.get('AssertionError') as PyClass, message === undefined ? [] : [message]) as PyInstance)
+        }
+        return undefined
+
+      case 'Delete':
+        for (const target of statement.targets) yield* this.deleteTarget(target, scope)
+        return undefined
+
+      case 'Import':
+        statement.names.forEach(alias => {
+          const imported = this.importModule(alias.name)
+          this.store(alias.alias ?? alias.name.split('.')[0], imported, scope)
+        })
+        return undefined
+
+      case 'ImportFrom': {
+        const imported = this.importModule(statement.module)
+        statement.names.forEach(alias => {
+          if (alias.name === '*') {
+            imported.attributes.forEach((value, name) => !name.startsWith('_') && this.store(name, value, scope))
+            return
+          }
+          if (!imported.attributes.has(alias.name)) throw this.error('ImportError', `cannot import name '${alias.name}' from '${statement.module}'`)
+          this.store(alias.alias ?? alias.name, imported.attributes.get(alias.name) as PyValue, scope)
+        })
+        return undefined
+      }
+
+      case 'With':
+        return yield* this.executeWith(statement.items, statement.body, scope)
+    }
+  }
+
+  private *executeTry(statement: Extract<Stmt, { type: 'Try' }>, scope: Scope): Execution<Completion> {
+    let completion: Completion
+    let failed = false
+    let failure: unknown
+
+    try {
+      let raised: PythonException | null = null
+      try {
+        completion = yield* this.execBlock(statement.body, scope)
+      } catch (error) {
+        if (!(error instanceof PythonException) || statement.handlers.length === 0) throw error
+        raised = error
+      }
+      if (raised) completion = yield* this.handleException(statement.handlers, raised, scope)
+      else if (completion === undefined) completion = yield* this.execBlock(statement.orelse, scope)
+    } catch (error) {
+      if (statement.finalbody.length === 0 || error instanceof StepLimitError) throw error
+      failed = true
+      failure = error
+    }
+
+    if (statement.finalbody.length > 0) {
+      const finalCompletion = yield* this.execBlock(statement.finalbody, scope)
+      if (finalCompletion) return finalCompletion
+    }
+    if (failed) throw failure
+    return completion
+  }
+
+  private *handleException(handlers: ExceptHandler[], raised: PythonException, scope: Scope): Execution<Completion> {
+    for (const handler of handlers) {
+      if (handler.exceptionType) {
+        const expected = yield* this.evaluate(handler.exceptionType, scope)
+        if (!this.exceptionMatches(raised.exception, expected)) continue
+      }
+      this.step(handler.line)
+      if (handler.name) this.store(handler.name, raised.exception, scope)
+      this.handling.push(raised)
+      try {
+        return yield* this.execBlock(handler.body, scope)
+      } finally {
+        this.handling.pop()
+        if (handler.name) this.targetScope(handler.name, scope).vars.delete(handler.name)
+      }
+    }
+    throw raised
+  }
+
+  private exceptionMatches(exception: PyInstance, expected: PyValue): boolean {
+    if (expected instanceof PyTuple) return expected.items.some(item => this.exceptionMatches(exception, item))
+    const base = this.builtins.get('BaseException') as PyClass
+    if (!(expected instanceof PyClass) || !expected.mro.includes(base)) {
+      throw this.error('TypeError', 'catching classes that do not inherit from BaseException is not allowed')
+    }
+    return exception.cls.mro.includes(expected)
+  }
+
+  private toException(value: PyValue): PyInstance {
+    const base = this.builtins.get('BaseException') as PyClass
+    if (value instanceof PyClass && value.mro.includes(base)) return this.instantiate(value, []) as PyInstance
+    if (value instanceof PyInstance && value.cls.mro.includes(base)) return value
+    throw this.error('TypeError', 'exceptions must derive from BaseException')
+  }
+
+  private *executeWith(items: { context: Expr; target: Expr | null }[], body: Stmt[], scope: Scope): Execution<Completion> {
+    if (items.length === 0) return yield* this.execBlock(body, scope)
+    const [item, ...rest] = items
+    const manager = yield* this.evaluate(item.context, scope)
+    const enter = this.findMethod(manager, '__enter__')
+    const exit = this.findMethod(manager, '__exit__')
+    if (!enter || !exit) throw this.error('TypeError', `'${this.typeName(manager)}' object does not support the context manager protocol`)
+
+    const entered = this.callValue(enter, [])
+    if (item.target) yield* this.assign(item.target, entered, scope)
+    let completion: Completion
+    try {
+      completion = yield* this.executeWith(rest, body, scope)
+    } catch (error) {
+      if (!(error instanceof PythonException)) throw error
+      const { exception } = error
+      if (this.isTruthy(this.callValue(exit, [exception.cls, exception, null]))) return undefined
+      throw error
+    }
+    this.callValue(exit, [null, null, null])
+    return completion
+  }
+
+  private *makeFunction(name: string, qualname: string, params: Param[], body: Stmt[] | Expr, isGenerator: boolean, line: number, scope: Scope): Execution<PyFunction> {
+    const defaults = new Map<string, PyValue>()
+    for (const param of params) {
+      if (param.defaultValue) defaults.set(param.name, yield* this.evaluate(param.defaultValue, scope))
+    }
+    return new PyFunction(name, qualname, params, defaults, body, this.closureScope(scope), analyzeScope(body, params), isGenerator, line)
+  }
+
+  // ---------- assignment ----------
+
+  private *assign(target: Expr, value: PyValue, scope: Scope): Execution<void> {
+    switch (target.type) {
+      case 'Name':
+        this.store(target.id, value, scope)
+        return
+      case 'Attribute':
+        this.setAttribute(yield* this.evaluate(target.value, scope), target.attr, value)
+        return
+      case 'Subscript': {
+        const container = yield* this.evaluate(target.value, scope)
+        this.setItem(container, yield* this.evaluate(target.index, scope), value)
+        return
+      }
+      case 'Tuple':
+      case 'List': {
+        if (!this.isIterable(value)) throw this.error('TypeError', `cannot unpack non-iterable ${this.typeName(value)} object`)
+        const items = [...this.iterate(value)]
+        const starIndex = target.elements.findIndex(element => element.type === 'Starred')
+        const expected = target.elements.length
+        if (starIndex === -1) {
+          if (items.length > expected) throw this.error('ValueError', `too many values to unpack (expected ${expected})`)
+          if (items.length < expected) throw this.error('ValueError', `not enough values to unpack (expected ${expected}, got ${items.length})`)
+          for (let index = 0; index < expected; index++) yield* this.assign(target.elements[index], items[index], scope)
+          return
+        }
+        const after = expected - starIndex - 1
+        if (items.length < expected - 1) throw this.error('ValueError', `not enough values to unpack (expected at least ${expected - 1}, got ${items.length})`)
+        for (let index = 0; index < starIndex; index++) yield* this.assign(target.elements[index], items[index], scope)
+        const starred = target.elements[starIndex] as Extract<Expr, { type: 'Starred' }>
+        yield* this.assign(starred.value, new PyList(items.slice(starIndex, items.length - after)), scope)
+        for (let index = 0; index < after; index++) yield* this.assign(target.elements[starIndex + 1 + index], items[items.length - after + index], scope)
+        return
+      }
+      default:
+        throw this.error('SyntaxError', 'cannot assign to expression')
+    }
+  }
+
+  private *augmentedAssign(target: Expr, op: string, valueExpression: Expr, scope: Scope): Execution<void> {
+    if (target.type === 'Name') {
+      const current = this.lookup(target.id, scope)
+      this.store(target.id, this.inplaceOperation(op, current, yield* this.evaluate(valueExpression, scope)), scope)
+    } else if (target.type === 'Attribute') {
+      const object = yield* this.evaluate(target.value, scope)
+      const current = this.getAttribute(object, target.attr)
+      this.setAttribute(object, target.attr, this.inplaceOperation(op, current, yield* this.evaluate(valueExpression, scope)))
+    } else if (target.type === 'Subscript') {
+      const container = yield* this.evaluate(target.value, scope)
+      const index = yield* this.evaluate(target.index, scope)
+      const current = this.getItem(container, index)
+      this.setItem(container, index, this.inplaceOperation(op, current, yield* this.evaluate(valueExpression, scope)))
+    }
+  }
+
+  private *deleteTarget(target: Expr, scope: Scope): Execution<void> {
+    if (target.type === 'Name') {
+      const owner = this.targetScope(target.id, scope)
+      if (!owner.vars.delete(target.id)) throw this.error('NameError', `name '${target.id}' is not defined`)
+    } else if (target.type === 'Subscript') {
+      const container = yield* this.evaluate(target.value, scope)
+      this.deleteItem(container, yield* this.evaluate(target.index, scope))
+    } else if (target.type === 'Attribute') {
+      const object = yield* this.evaluate(target.value, scope)
+      if (!(object instanceof PyInstance) || !object.attributes.delete(target.attr)) {
+        throw this.error('AttributeError', `'${this.typeName(object)}' object has no attribute '${target.attr}'`)
+      }
+    } else if (target.type === 'Tuple' || target.type === 'List') {
+      for (const element of target.elements) yield* this.deleteTarget(element, scope)
+    }
+  }
+
+  // ---------- expressions ----------
+
+  private *evaluate(expression: Expr, scope: Scope): Execution<PyValue> {
+    switch (expression.type) {
+      case 'Name':
+        return this.lookup(expression.id, scope)
+      case 'Constant':
+        return expression.value
+      case 'Ellipsis':
+        return ELLIPSIS
+      case 'FString':
+        return yield* this.evaluateFString(expression.parts, scope)
+      case 'List':
+        return new PyList(yield* this.evaluateElements(expression.elements, scope))
+      case 'Tuple':
+        return new PyTuple(yield* this.evaluateElements(expression.elements, scope))
+      case 'Set': {
+        const set = new PySet()
+        for (const item of yield* this.evaluateElements(expression.elements, scope)) this.setAdd(set, item)
+        return set
+      }
+      case 'Dict': {
+        const dict = new PyDict()
+        for (let index = 0; index < expression.keys.length; index++) {
+          const key = expression.keys[index]
+          const value = yield* this.evaluate(expression.values[index], scope)
+          if (key) this.dictSet(dict, yield* this.evaluate(key, scope), value)
+          else this.mappingItems(value).forEach(([itemKey, item]) => this.dictSet(dict, itemKey, item))
+        }
+        return dict
+      }
+      case 'BinOp': {
+        const left = yield* this.evaluate(expression.left, scope)
+        return this.binaryOperation(expression.op, left, yield* this.evaluate(expression.right, scope))
+      }
+      case 'UnaryOp':
+        return this.unaryOperation(expression.op, yield* this.evaluate(expression.operand, scope))
+      case 'BoolOp': {
+        let value: PyValue = null
+        for (const operand of expression.values) {
+          value = yield* this.evaluate(operand, scope)
+          if (this.isTruthy(value) === (expression.op === 'or')) return value
+        }
+        return value
+      }
+      case 'Compare': {
+        let left = yield* this.evaluate(expression.left, scope)
+        for (let index = 0; index < expression.ops.length; index++) {
+          const right = yield* this.evaluate(expression.comparators[index], scope)
+          if (!this.compare(expression.ops[index], left, right)) return false
+          left = right
+        }
+        return true
+      }
+      case 'Call': {
+        const func = yield* this.evaluate(expression.func, scope)
+        const args = yield* this.evaluateElements(expression.args, scope)
+        const kwargs: Kwargs = new Map()
+        for (const keyword of expression.keywords) {
+          const value = yield* this.evaluate(keyword.value, scope)
+          if (keyword.name) {
+            kwargs.set(keyword.name, value)
+            continue
+          }
+          this.mappingItems(value).forEach(([key, item]) => {
+            if (typeof key !== 'string') throw this.error('TypeError', 'keywords must be strings')
+            kwargs.set(key, item)
+          })
+        }
+        return this.callValue(func, args, kwargs)
+      }
+      case 'Attribute':
+        return this.getAttribute(yield* this.evaluate(expression.value, scope), expression.attr)
+      case 'Subscript': {
+        const container = yield* this.evaluate(expression.value, scope)
+        return this.getItem(container, yield* this.evaluate(expression.index, scope))
+      }
+      case 'Slice':
+        return new PySlice(
+          expression.lower ? yield* this.evaluate(expression.lower, scope) : null,
+          expression.upper ? yield* this.evaluate(expression.upper, scope) : null,
+          expression.step ? yield* this.evaluate(expression.step, scope) : null
+        )
+      case 'Lambda':
+        return yield* this.makeFunction('<lambda>', '<lambda>', expression.params, expression.body, false, expression.line, scope)
+      case 'IfExp':
+        return this.isTruthy(yield* this.evaluate(expression.test, scope))
+          ? yield* this.evaluate(expression.body, scope)
+          : yield* this.evaluate(expression.orelse, scope)
+      case 'Comprehension':
+        return yield* this.evaluateComprehension(expression, scope)
+      case 'Starred':
+        throw this.error('SyntaxError', "can't use starred expression here")
+      case 'Yield': {
+        const sent = yield expression.value ? yield* this.evaluate(expression.value, scope) : null
+        return sent === undefined ? null : sent
+      }
+      case 'YieldFrom': {
+        for (const item of this.iterate(yield* this.evaluate(expression.value, scope))) yield item
+        return null
+      }
+      case 'NamedExpr': {
+        const value = yield* this.evaluate(expression.value, scope)
+        this.store(expression.target, value, scope)
+        return value
+      }
+    }
+  }
+
+  private *evaluateElements(elements: Expr[], scope: Scope): Execution<PyValue[]> {
+    const values: PyValue[] = []
+    for (const element of elements) {
+      if (element.type === 'Starred') values.push(...this.iterate(yield* this.evaluate(element.value, scope)))
+      else values.push(yield* this.evaluate(element, scope))
+    }
+    return values
+  }
+
+  private *evaluateFString(parts: FStringPart[], scope: Scope): Execution<string> {
+    let text = ''
+    for (const part of parts) {
+      if (typeof part === 'string') {
+        text += part
+        continue
+      }
+      let value = yield* this.evaluate(part.expression, scope)
+      const conversion = part.conversion ?? (part.debug && !part.spec ? 'r' : null)
+      if (conversion === 'r' || conversion === 'a') value = this.repr(value)
+      else if (conversion === 's') value = this.str(value)
+      const spec = part.spec ? yield* this.evaluateFString(part.spec, scope) : ''
+      text += (part.debug ?? '') + this.format(value, spec)
+    }
+    return text
+  }
+
+  private *evaluateComprehension(expression: Extract<Expr, { type: 'Comprehension' }>, scope: Scope): Execution<PyValue> {
+    const locals = new Set<string>()
+    expression.generators.forEach(generator => collectTargetNames(generator.target, locals))
+    const inner = new Scope('function', scope, { locals, globals: new Set(), nonlocals: new Set() })
+    const items: PyValue[] = []
+    const dict = new PyDict()
+
+    const loop = function* (this: PythonInterpreter, level: number): Execution<void> {
+      if (level === expression.generators.length) {
+        if (expression.kind === 'dict') {
+          const key = yield* this.evaluate(expression.element, inner)
+          this.dictSet(dict, key, yield* this.evaluate(expression.value as Expr, inner))
+        } else {
+          items.push(yield* this.evaluate(expression.element, inner))
+        }
+        return
+      }
+      const generator = expression.generators[level]
+      const iterable = yield* this.evaluate(generator.iter, level === 0 ? scope : inner)
+      for (const item of this.iterate(iterable)) {
+        yield* this.assign(generator.target, item, inner)
+        let included = true
+        for (const condition of generator.conditions) {
+          if (!this.isTruthy(yield* this.evaluate(condition, inner))) {
+            included = false
+            break
+          }
+        }
+        if (included) yield* loop.call(this, level + 1)
+      }
+    }
+    yield* loop.call(this, 0)
+
+    switch (expression.kind) {
+      case 'dict':
+        return dict
+      case 'set': {
+        const set = new PySet()
+        items.forEach(item => this.setAdd(set, item))
+        return set
+      }
+      case 'generator':
+        return new PyIterator('generator', items[Symbol.iterator]())
+      default:
+        return new PyList(items)
+    }
+  }
+
+  // ---------- calls ----------
+
+  callValue(callee: PyValue, args: PyValue[], kwargs: Kwargs = EMPTY_KWARGS): PyValue {
+    if (callee instanceof PyFunction) return this.callFunction(callee, args, kwargs)
+    if (callee instanceof PyBoundMethod) return this.callFunction(callee.func, [callee.self, ...args], kwargs)
+    if (callee instanceof PyBuiltin) return callee.call(args, kwargs)
+    if (callee instanceof PyClass) return this.instantiate(callee, args, kwargs)
+    if (callee instanceof PyStaticMethod) return this.callValue(callee.func, args, kwargs)
+    const call = this.findMethod(callee, '__call__')
+    if (call && callee instanceof PyInstance) return this.callValue(call, args, kwargs)
+    throw this.error('TypeError', `'${this.typeName(callee)}' object is not callable`)
+  }
+
+  private callFunction(func: PyFunction, args: PyValue[], kwargs: Kwargs): PyValue {
+    if (this.frames.length >= MAX_CALL_DEPTH) throw this.error('RecursionError', 'maximum recursion depth exceeded')
+    const scope = new Scope('function', func.closure, func.info)
+    this.bindArguments(func, scope, args, kwargs)
+    const frame: Frame = { name: func.qualname, line: func.line, scope, func }
+
+    if (func.isGenerator) return new PyGenerator(func, frame, this.execBlock(func.body as Stmt[], scope))
+
+    this.frames.push(frame)
+    try {
+      this.record('call', func.line)
+      let result: PyValue
+      if (Array.isArray(func.body)) {
+        const completion = drive(this.execBlock(func.body, scope))
+        result = completion?.kind === 'return' ? completion.value : null
+      } else {
+        result = drive(this.evaluate(func.body, scope))
+      }
+      this.record('return', frame.line, result)
+      return result
+    } catch (error) {
+      this.noteException(error)
+      throw error
+    } finally {
+      this.frames.pop()
+    }
+  }
+
+  private bindArguments(func: PyFunction, scope: Scope, args: PyValue[], kwargs: Kwargs) {
+    const positional = func.params.filter(param => param.kind === 'positional')
+    const varargs = func.params.find(param => param.kind === 'varargs')
+    const varkw = func.params.find(param => param.kind === 'varkw')
+    const bound = new Map<string, PyValue>()
+    const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`
+
+    if (args.length > positional.length && !varargs) {
+      throw this.error('TypeError', `${func.name}() takes ${plural(positional.length, 'positional argument')} but ${args.length} ${args.length === 1 ? 'was' : 'were'} given`)
+    }
+    positional.forEach((param, index) => index < args.length && bound.set(param.name, args[index]))
+
+    const extra = new PyDict()
+    kwargs.forEach((value, name) => {
+      const param = func.params.find(candidate => candidate.name === name && (candidate.kind === 'positional' || candidate.kind === 'keyword'))
+      if (param) {
+        if (bound.has(name)) throw this.error('TypeError', `${func.name}() got multiple values for argument '${name}'`)
+        bound.set(name, value)
+      } else if (varkw) {
+        this.dictSet(extra, name, value)
+      } else {
+        throw this.error('TypeError', `${func.name}() got an unexpected keyword argument '${name}'`)
+      }
+    })
+
+    const missing: string[] = []
+    func.params.forEach(param => {
+      if (param.kind === 'varargs') bound.set(param.name, new PyTuple(args.slice(positional.length)))
+      else if (param.kind === 'varkw') bound.set(param.name, extra)
+      else if (!bound.has(param.name)) {
+        if (func.defaults.has(param.name)) bound.set(param.name, func.defaults.get(param.name) as PyValue)
+        else missing.push(`'${param.name}'`)
+      }
+    })
+    if (missing.length > 0) {
+      const names = missing.length === 1 ? missing[0] : `${missing.slice(0, -1).join(', ')} and ${missing[missing.length - 1]}`
+      throw this.error('TypeError', `${func.name}() missing ${plural(missing.length, 'required positional argument')}: ${names}`)
+    }
+
+    func.params.forEach(param => scope.vars.set(param.name, bound.get(param.name) as PyValue))
+  }
+
+  instantiate(cls: PyClass, args: PyValue[], kwargs: Kwargs = EMPTY_KWARGS): PyValue {
+    if (cls.construct) return cls.construct(args, kwargs)
+    const native = cls.mro.find(base => base.construct && base.name !== 'object')
+    if (native) throw new UnsupportedFeatureError(`Subclasses of built-in type '${native.name}'`, this.frame.line)
+
+    const instance = new PyInstance(cls)
+    // Exceptions keep their arguments even when a subclass's __init__ doesn't call super()
+    if (cls.mro.includes(this.builtins.get('BaseException') as PyClass)) instance.attributes.set('args', new PyTuple(args))
+    const init = this.findInMro(cls, '__init__')
+    if (init === (this.builtins.get('object') as PyClass).namespace.get('__init__')) {
+      if (args.length > 0 || kwargs.size > 0) throw this.error('TypeError', `${cls.name}() takes no arguments`)
+    } else if (init !== undefined) {
+      const result = this.callValue(this.bind(init, instance, cls), args, kwargs)
+      if (result !== null) throw this.error('TypeError', `__init__() should return None, not '${this.typeName(result)}'`)
+    }
+    return instance
+  }
+
+  /**
+   * Runs a generator until it yields or returns
+   */
+  resume(generator: PyGenerator, sent: PyValue): { done: boolean; value: PyValue } {
+    if (generator.state === 'done') return { done: true, value: null }
+    if (generator.state === 'running') throw this.error('ValueError', 'generator already executing')
+    if (this.frames.length >= MAX_CALL_DEPTH) throw this.error('RecursionError', 'maximum recursion depth exceeded')
+
+    const firstRun = generator.state === 'created'
+    generator.state = 'running'
+    this.frames.push(generator.frame)
+    try {
+      if (firstRun) this.record('call', generator.func.line)
+      const result = generator.execution.next(sent)
+      if (result.done) {
+        generator.state = 'done'
+        const completion = result.value as Completion
+        const value = completion?.kind === 'return' ? completion.value : null
+        this.record('return', generator.frame.line, value)
+        return { done: true, value }
+      }
+      generator.state = 'suspended'
+      this.record('return', generator.frame.line, result.value)
+      return { done: false, value: result.value }
+    } catch (error) {
+      generator.state = 'done'
+      this.noteException(error)
+      throw error
+    } finally {
+      this.frames.pop()
+    }
+  }
+
+  // ---------- attributes ----------
+
+  findInMro(cls: PyClass, name: string): PyValue | undefined {
+    for (const base of cls.mro) {
+      if (base.namespace.has(name)) return base.namespace.get(name) as PyValue
+    }
+    return undefined
+  }
+
+  /** Turns a class attribute into what `instance.name` evaluates to */
+  private bind(attribute: PyValue, instance: PyValue, cls: PyClass): PyValue {
+    if (attribute instanceof PyFunction) return new PyBoundMethod(instance, attribute)
+    if (attribute instanceof PyBuiltin && attribute.isMethod) {
+      return new PyBuiltin(attribute.name, (args, kwargs) => attribute.call([instance, ...args], kwargs))
+    }
+    if (attribute instanceof PyStaticMethod) return attribute.func
+    if (attribute instanceof PyClassMethod) return this.bind(attribute.func, cls, cls)
+    if (attribute instanceof PyProperty) return this.callValue(attribute.getter, [instance])
+    return attribute
+  }
+
+  /** A special method such as __enter__ or __len__, bound to the value, if it has one */
+  findMethod(value: PyValue, name: string): PyValue | undefined {
+    if (value instanceof PyInstance) {
+      const attribute = this.findInMro(value.cls, name)
+      return attribute === undefined ? undefined : this.bind(attribute, value, value.cls)
+    }
+    return nativeMethod(this, value, name) ?? undefined
+  }
+
+  getAttribute(target: PyValue, name: string): PyValue {
+    if (target instanceof PyInstance) {
+      const classAttribute = this.findInMro(target.cls, name)
+      if (classAttribute instanceof PyProperty) return this.bind(classAttribute, target, target.cls)
+      if (target.attributes.has(name)) return target.attributes.get(name) as PyValue
+      if (name === '__class__') return target.cls
+      if (name === '__dict__') {
+        const dict = new PyDict()
+        target.attributes.forEach((value, key) => this.dictSet(dict, key, value))
+        return dict
+      }
+      if (classAttribute !== undefined) return this.bind(classAttribute, target, target.cls)
+      const fallback = this.findInMro(target.cls, '__getattr__')
+      if (fallback !== undefined) return this.callValue(this.bind(fallback, target, target.cls), [name])
+      throw this.error('AttributeError', `'${target.cls.name}' object has no attribute '${name}'`)
+    }
+
+    if (target instanceof PyClass) {
+      if (name === '__name__' || name === '__qualname__') return target.name
+      if (name === '__bases__') return new PyTuple(target.bases)
+      if (name === '__mro__') return new PyTuple(target.mro)
+      const attribute = this.findInMro(target, name)
+      if (attribute instanceof PyClassMethod) return this.bind(attribute.func, target, target)
+      if (attribute instanceof PyStaticMethod) return attribute.func
+      if (attribute !== undefined) return attribute
+      if (target.construct) {
+        return new PyBuiltin(name, (args, kwargs) => {
+          const method = args.length > 0 ? nativeMethod(this, args[0], name) : null
+          if (!method) throw this.error('TypeError', `descriptor '${name}' for '${target.name}' objects doesn't apply`)
+          return this.callValue(method, args.slice(1), kwargs)
+        })
+      }
+      throw this.error('AttributeError', `type object '${target.name}' has no attribute '${name}'`)
+    }
+
+    if (target instanceof PySuper) {
+      const owner = target.self instanceof PyClass ? target.self : this.typeOf(target.self)
+      const mro = owner.mro
+      for (const base of mro.slice(mro.indexOf(target.cls) + 1)) {
+        if (base.namespace.has(name)) return this.bind(base.namespace.get(name) as PyValue, target.self, owner)
+      }
+      throw this.error('AttributeError', `'super' object has no attribute '${name}'`)
+    }
+
+    if (target instanceof PyModule) {
+      if (target.attributes.has(name)) return target.attributes.get(name) as PyValue
+      if (name === '__name__') return target.name
+      throw this.error('AttributeError', `module '${target.name}' has no attribute '${name}'`)
+    }
+
+    if (target instanceof PyFunction) {
+      if (target.attributes.has(name)) return target.attributes.get(name) as PyValue
+      if (name === '__name__') return target.name
+      if (name === '__qualname__') return target.qualname
+      if (name === '__doc__') return null
+      if (name === '__module__') return '__main__'
+    }
+    if (target instanceof PyBuiltin && name === '__name__') return target.name
+    if (target instanceof PyBoundMethod) {
+      if (name === '__self__') return target.self
+      if (name === '__func__') return target.func
+      return this.getAttribute(target.func, name)
+    }
+    if (target instanceof PyFile) {
+      if (name === 'closed') return target.closed
+      if (name === 'name') return target.name
+      if (name === 'mode') return target.mode
+    }
+    if (name === '__class__') return this.typeOf(target)
+
+    const method = nativeMethod(this, target, name)
+    if (method) return method
+    throw this.error('AttributeError', `'${this.typeName(target)}' object has no attribute '${name}'`)
+  }
+
+  setAttribute(target: PyValue, name: string, value: PyValue) {
+    if (target instanceof PyInstance) {
+      const classAttribute = this.findInMro(target.cls, name)
+      if (classAttribute instanceof PyProperty) {
+        if (classAttribute.setter === null) throw this.error('AttributeError', `property '${name}' of '${target.cls.name}' object has no setter`)
+        this.callValue(classAttribute.setter, [target, value])
+        return
+      }
+      target.attributes.set(name, value)
+      return
+    }
+    if (target instanceof PyClass && !target.construct) {
+      target.namespace.set(name, value)
+      return
+    }
+    if (target instanceof PyFunction) {
+      target.attributes.set(name, value)
+      return
+    }
+    if (target instanceof PyModule) {
+      target.attributes.set(name, value)
+      return
+    }
+    throw this.error('AttributeError', `'${this.typeName(target)}' object has no attribute '${name}'`)
+  }
+
+  private importModule(name: string): PyModule {
+    const cached = this.modules.get(name)
+    if (cached) return cached
+    const created = createModule(this, name)
+    if (!created) {
+      throw this.error('ModuleNotFoundError', `No module named '${name}' (Visualise runs offline with math, random, time, re, sys, string, collections, functools, typing, queue and threading)`)
+    }
+    this.modules.set(name, created)
+    return created
+  }
+
+  // ---------- types ----------
+
+  typeName(value: PyValue): string {
+    if (value === null) return 'NoneType'
+    if (typeof value === 'boolean') return 'bool'
+    if (typeof value === 'bigint') return 'int'
+    if (typeof value === 'number') return 'float'
+    if (typeof value === 'string') return 'str'
+    if (value instanceof PyInstance) return value.cls.name
+    if (value instanceof PyList) return value.typeName
+    if (value instanceof PyTuple) return 'tuple'
+    if (value instanceof PyDict) return value.typeName
+    if (value instanceof PySet) return 'set'
+    if (value instanceof PyRange) return 'range'
+    if (value instanceof PySlice) return 'slice'
+    if (value instanceof PyFunction) return 'function'
+    if (value instanceof PyBuiltin) return 'builtin_function_or_method'
+    if (value instanceof PyBoundMethod) return 'method'
+    if (value instanceof PyClass) return 'type'
+    if (value instanceof PyModule) return 'module'
+    if (value instanceof PyGenerator) return 'generator'
+    if (value instanceof PyIterator) return value.typeName
+    if (value instanceof PyView) return `dict_${value.kind}`
+    if (value instanceof PyFile) return 'TextIOWrapper'
+    if (value instanceof PyProperty) return 'property'
+    if (value instanceof PyStaticMethod) return 'staticmethod'
+    if (value instanceof PyClassMethod) return 'classmethod'
+    if (value instanceof PySuper) return 'super'
+    if (value instanceof PyPattern) return 're.Pattern'
+    if (value instanceof PyMatch) return 're.Match'
+    if (value === ELLIPSIS) return 'ellipsis'
+    return 'NotImplementedType'
+  }
+
+  typeOf(value: PyValue): PyClass {
+    if (value instanceof PyInstance) return value.cls
+    const name = this.typeName(value)
+    const known = this.builtins.get(name)
+    if (known instanceof PyClass) return known
+    return this.nativeClass(name)
+  }
+
+  /** Classes of built-in types that aren't builtins, such as function and collections.deque */
+  nativeClasses = new Map<string, PyClass>()
+
+  /** Class object for built-in types without a constructor, such as function or generator */
+  nativeClass(name: string): PyClass {
+    let cls = this.nativeClasses.get(name)
+    if (!cls) {
+      cls = new PyClass(name, [this.builtins.get('object') as PyClass], new Map(), () => {
+        throw this.error('TypeError', `cannot create '${name}' instances`)
+      }, 'builtins')
+      this.nativeClasses.set(name, cls)
+    }
+    return cls
+  }
+
+  isInstance(value: PyValue, cls: PyClass): boolean {
+    return this.typeOf(value).mro.includes(cls)
+  }
+
+  // ---------- truth, equality and ordering ----------
+
+  isTruthy(value: PyValue): boolean {
+    if (value === null) return false
+    if (typeof value === 'boolean') return value
+    if (typeof value === 'bigint') return value !== 0n
+    if (typeof value === 'number') return value !== 0
+    if (typeof value === 'string') return value.length > 0
+    if (value instanceof PyList || value instanceof PyTuple) return value.items.length > 0
+    if (value instanceof PyDict || value instanceof PySet) return value.entries.size > 0
+    if (value instanceof PyView) return value.dict.entries.size > 0
+    if (value instanceof PyRange) return value.length > 0n
+    if (value instanceof PyInstance) {
+      const bool = this.findMethod(value, '__bool__')
+      if (bool) return this.callValue(bool, []) === true
+      const len = this.findMethod(value, '__len__')
+      if (len) return this.callValue(len, []) !== 0n
+    }
+    return true
+  }
+
+  equals(left: PyValue, right: PyValue): boolean {
+    if (left === right) return true
+    if (isNumeric(left) && isNumeric(right)) {
+      const a = toNumeric(left)
+      const b = toNumeric(right)
+      return typeof a === 'bigint' && typeof b === 'bigint' ? a === b : Number(a) === Number(b)
+    }
+    if (left instanceof PyInstance || right instanceof PyInstance) {
+      const result = this.richCompare('__eq__', '__eq__', left, right)
+      if (result !== NOT_IMPLEMENTED) return this.isTruthy(result)
+      return false
+    }
+    if ((left instanceof PyList && right instanceof PyList) || (left instanceof PyTuple && right instanceof PyTuple)) {
+      return left.items.length === right.items.length && left.items.every((item, index) => this.equals(item, right.items[index]))
+    }
+    if (left instanceof PyDict && right instanceof PyDict) {
+      if (left.entries.size !== right.entries.size) return false
+      for (const [hash, [, value]] of left.entries) {
+        const other = right.entries.get(hash)
+        if (!other || !this.equals(value, other[1])) return false
+      }
+      return true
+    }
+    if (left instanceof PySet && right instanceof PySet) {
+      return left.entries.size === right.entries.size && [...left.entries.keys()].every(hash => right.entries.has(hash))
+    }
+    if (left instanceof PyRange && right instanceof PyRange) {
+      return this.equals(new PyList([...this.iterate(left)]), new PyList([...this.iterate(right)]))
+    }
+    return false
+  }
+
+  /** Calls a comparison special method, falling back to the reflected one on the right operand */
+  private richCompare(method: string, reflected: string, left: PyValue, right: PyValue): PyValue {
+    if (left instanceof PyInstance) {
+      const own = this.findMethod(left, method)
+      if (own) {
+        const result = this.callValue(own, [right])
+        if (result !== NOT_IMPLEMENTED) return result
+      }
+    }
+    if (right instanceof PyInstance) {
+      const other = this.findMethod(right, reflected)
+      if (other) return this.callValue(other, [left])
+    }
+    return NOT_IMPLEMENTED
+  }
+
+  private orderCompare(op: string, left: PyValue, right: PyValue): boolean {
+    if (isNumeric(left) && isNumeric(right)) {
+      const a = toNumeric(left)
+      const b = toNumeric(right)
+      if (typeof a === 'bigint' && typeof b === 'bigint') return compareValues(op, a, b)
+      return compareValues(op, Number(a), Number(b))
+    }
+    if (typeof left === 'string' && typeof right === 'string') return compareValues(op, left, right)
+    if ((left instanceof PyList && right instanceof PyList) || (left instanceof PyTuple && right instanceof PyTuple)) {
+      const length = Math.min(left.items.length, right.items.length)
+      for (let index = 0; index < length; index++) {
+        if (!this.equals(left.items[index], right.items[index])) return this.orderCompare(op, left.items[index], right.items[index])
+      }
+      return compareValues(op, left.items.length, right.items.length)
+    }
+    if (left instanceof PySet && right instanceof PySet) {
+      const subset = (a: PySet, b: PySet) => [...a.entries.keys()].every(hash => b.entries.has(hash))
+      if (op === '<=') return subset(left, right)
+      if (op === '>=') return subset(right, left)
+      if (op === '<') return left.entries.size < right.entries.size && subset(left, right)
+      return left.entries.size > right.entries.size && subset(right, left)
+    }
+    const [method, reflected] = COMPARISON_METHODS[op]
+    const result = this.richCompare(method, reflected, left, right)
+    if (result !== NOT_IMPLEMENTED) return this.isTruthy(result)
+    throw this.error('TypeError', `'${op}' not supported between instances of '${this.typeName(left)}' and '${this.typeName(right)}'`)
+  }
+
+  /** Python's < for sorting, min and max */
+  lessThan(left: PyValue, right: PyValue): boolean {
+    return this.orderCompare('<', left, right)
+  }
+
+  private compare(op: string, left: PyValue, right: PyValue): boolean {
+    switch (op) {
+      case '==': return this.equals(left, right)
+      case '!=': return !this.equals(left, right)
+      case 'is': return isSame(left, right)
+      case 'is not': return !isSame(left, right)
+      case 'in': return this.contains(right, left)
+      case 'not in': return !this.contains(right, left)
+      default: return this.orderCompare(op, left, right)
+    }
+  }
+
+  contains(container: PyValue, item: PyValue): boolean {
+    if (typeof container === 'string') {
+      if (typeof item !== 'string') throw this.error('TypeError', `'in <string>' requires string as left operand, not ${this.typeName(item)}`)
+      return container.includes(item)
+    }
+    if (container instanceof PyList || container instanceof PyTuple) return container.items.some(element => this.equals(element, item))
+    if (container instanceof PyDict) return container.entries.has(this.hashKey(item))
+    if (container instanceof PySet) return container.entries.has(this.hashKey(item))
+    if (container instanceof PyView && container.kind === 'keys') return container.dict.entries.has(this.hashKey(item))
+    if (container instanceof PyRange && isNumeric(item)) {
+      const value = toNumeric(item)
+      if (typeof value !== 'bigint') return Number.isInteger(value) && this.contains(container, BigInt(value))
+      const offset = value - container.start
+      return offset % container.step === 0n && offset / container.step >= 0n && offset / container.step < container.length
+    }
+    if (container instanceof PyInstance) {
+      const method = this.findMethod(container, '__contains__')
+      if (method) return this.isTruthy(this.callValue(method, [item]))
+    }
+    if (!this.isIterable(container)) throw this.error('TypeError', `argument of type '${this.typeName(container)}' is not iterable`)
+    for (const element of this.iterate(container)) {
+      if (this.equals(element, item)) return true
+    }
+    return false
+  }
+
+  // ---------- operators ----------
+
+  binaryOperation(op: string, left: PyValue, right: PyValue): PyValue {
+    if (isNumeric(left) && isNumeric(right)) return this.arithmetic(op, toNumeric(left), toNumeric(right))
+
+    if (left instanceof PyInstance || right instanceof PyInstance) {
+      const [method, reflected] = BINARY_METHODS[op]
+      if (left instanceof PyInstance) {
+        const own = this.findMethod(left, method)
+        const result = own ? this.callValue(own, [right]) : NOT_IMPLEMENTED
+        if (result !== NOT_IMPLEMENTED) return result
+      }
+      if (right instanceof PyInstance) {
+        const other = this.findMethod(right, reflected)
+        const result = other ? this.callValue(other, [left]) : NOT_IMPLEMENTED
+        if (result !== NOT_IMPLEMENTED) return result
+      }
+    }
+
+    switch (op) {
+      case '+':
+        if (typeof left === 'string' && typeof right === 'string') return this.checkLength(left.length + right.length) && left + right
+        if (left instanceof PyList && right instanceof PyList && left.typeName === right.typeName) return new PyList([...left.items, ...right.items], left.typeName)
+        if (left instanceof PyTuple && right instanceof PyTuple) return new PyTuple([...left.items, ...right.items])
+        if (typeof left === 'string') throw this.error('TypeError', `can only concatenate str (not "${this.typeName(right)}") to str`)
+        if (left instanceof PyList) throw this.error('TypeError', `can only concatenate list (not "${this.typeName(right)}") to list`)
+        if (left instanceof PyTuple) throw this.error('TypeError', `can only concatenate tuple (not "${this.typeName(right)}") to tuple`)
+        break
+      case '*': {
+        const [sequence, count] = isNumeric(left) ? [right, left] : [left, right]
+        if (isNumeric(count) && typeof toNumeric(count) === 'bigint') {
+          const times = Math.max(0, Number(toNumeric(count)))
+          if (typeof sequence === 'string') return this.checkLength(sequence.length * times) && sequence.repeat(times)
+          if (sequence instanceof PyList || sequence instanceof PyTuple) {
+            this.checkLength(sequence.items.length * times)
+            const items = Array.from({ length: times }, () => sequence.items).flat()
+            return sequence instanceof PyList ? new PyList(items, sequence.typeName) : new PyTuple(items)
+          }
+        }
+        if (typeof sequence === 'string' || sequence instanceof PyList || sequence instanceof PyTuple) {
+          throw this.error('TypeError', `can't multiply sequence by non-int of type '${this.typeName(count)}'`)
+        }
+        break
+      }
+      case '%':
+        if (typeof left === 'string') return this.percentFormat(left, right)
+        break
+      case '|':
+      case '&':
+      case '-':
+      case '^':
+        if (left instanceof PySet && right instanceof PySet) return this.setOperation(op, left, right)
+        if (op === '|' && left instanceof PyDict && right instanceof PyDict) {
+          const merged = new PyDict(left.typeName)
+          for (const source of [left, right]) source.entries.forEach(([key, value]) => this.dictSet(merged, key, value))
+          return merged
+        }
+        break
+    }
+    throw this.error('TypeError', `unsupported operand type(s) for ${op}: '${this.typeName(left)}' and '${this.typeName(right)}'`)
+  }
+
+  private checkLength(length: number): true {
+    if (length > MAX_SEQUENCE_LENGTH) throw this.error('MemoryError', `Visualise stops sequences longer than ${MAX_SEQUENCE_LENGTH} items`)
+    return true
+  }
+
+  private arithmetic(op: string, a: bigint | number, b: bigint | number): PyValue {
+    if (typeof a === 'bigint' && typeof b === 'bigint') {
+      switch (op) {
+        case '+': return a + b
+        case '-': return a - b
+        case '*': return a * b
+        case '/':
+          if (b === 0n) throw this.error('ZeroDivisionError', 'division by zero')
+          return Number(a) / Number(b)
+        case '//':
+          if (b === 0n) throw this.error('ZeroDivisionError', 'integer division or modulo by zero')
+          return floorDivide(a, b)
+        case '%':
+          if (b === 0n) throw this.error('ZeroDivisionError', 'integer modulo by zero')
+          return modulo(a, b)
+        case '**':
+          if (b < 0n) {
+            if (a === 0n) throw this.error('ZeroDivisionError', '0.0 cannot be raised to a negative power')
+            return Number(a) ** Number(b)
+          }
+          if (b > 100_000n && a !== 0n && a !== 1n && a !== -1n) throw this.error('MemoryError', 'Visualise stops numbers this large')
+          return a ** b
+        case '&': return a & b
+        case '|': return a | b
+        case '^': return a ^ b
+        case '<<':
+        case '>>':
+          if (b < 0n) throw this.error('ValueError', 'negative shift count')
+          if (op === '<<' && b > 100_000n) throw this.error('MemoryError', 'Visualise stops numbers this large')
+          return op === '<<' ? a << b : a >> b
+      }
+    }
+
+    const x = Number(a)
+    const y = Number(b)
+    switch (op) {
+      case '+': return x + y
+      case '-': return x - y
+      case '*': return x * y
+      case '/':
+        if (y === 0) throw this.error('ZeroDivisionError', 'float division by zero')
+        return x / y
+      case '//':
+        if (y === 0) throw this.error('ZeroDivisionError', 'float floor division by zero')
+        return Math.floor(x / y)
+      case '%': {
+        if (y === 0) throw this.error('ZeroDivisionError', 'float modulo')
+        const remainder = x % y
+        return remainder !== 0 && remainder < 0 !== y < 0 ? remainder + y : remainder
+      }
+      case '**':
+        if (x === 0 && y < 0) throw this.error('ZeroDivisionError', '0.0 cannot be raised to a negative power')
+        if (x < 0 && !Number.isInteger(y)) throw new UnsupportedFeatureError('Complex numbers', this.frame.line)
+        return x ** y
+    }
+    throw this.error('TypeError', `unsupported operand type(s) for ${op}: '${typeof a === 'bigint' ? 'int' : 'float'}' and '${typeof b === 'bigint' ? 'int' : 'float'}'`)
+  }
+
+  private inplaceOperation(op: string, left: PyValue, right: PyValue): PyValue {
+    if (left instanceof PyList && op === '+') {
+      left.items.push(...this.iterate(right))
+      return left
+    }
+    if (left instanceof PyInstance) {
+      const method = this.findMethod(left, `__i${BINARY_METHODS[op][0].slice(2)}`)
+      if (method) {
+        const result = this.callValue(method, [right])
+        if (result !== NOT_IMPLEMENTED) return result
+      }
+    }
+    return this.binaryOperation(op, left, right)
+  }
+
+  private unaryOperation(op: string, operand: PyValue): PyValue {
+    if (op === 'not') return !this.isTruthy(operand)
+    if (isNumeric(operand)) {
+      const value = toNumeric(operand)
+      if (op === '-') return -value
+      if (op === '+') return value
+      if (op === '~' && typeof value === 'bigint') return ~value
+    }
+    if (operand instanceof PyInstance) {
+      const method = this.findMethod(operand, op === '-' ? '__neg__' : op === '+' ? '__pos__' : '__invert__')
+      if (method) return this.callValue(method, [])
+    }
+    throw this.error('TypeError', `bad operand type for unary ${op}: '${this.typeName(operand)}'`)
+  }
+
+  private setOperation(op: string, left: PySet, right: PySet): PySet {
+    const result = new PySet()
+    if (op === '|') {
+      for (const source of [left, right]) source.entries.forEach((value, hash) => result.entries.set(hash, value))
+    } else if (op === '&') {
+      left.entries.forEach((value, hash) => right.entries.has(hash) && result.entries.set(hash, value))
+    } else if (op === '-') {
+      left.entries.forEach((value, hash) => !right.entries.has(hash) && result.entries.set(hash, value))
+    } else {
+      left.entries.forEach((value, hash) => !right.entries.has(hash) && result.entries.set(hash, value))
+      right.entries.forEach((value, hash) => !left.entries.has(hash) && result.entries.set(hash, value))
+    }
+    return result
+  }
+
+  // ---------- containers ----------
+
+  hashKey(value: PyValue): string {
+    if (value === null) return 'None'
+    if (typeof value === 'boolean') return value ? 'n1' : 'n0'
+    if (typeof value === 'bigint') return `n${value}`
+    if (typeof value === 'number') return Number.isInteger(value) ? `n${BigInt(value)}` : `f${value}`
+    if (typeof value === 'string') return `s${JSON.stringify(value)}`
+    if (value instanceof PyTuple) return `t(${value.items.map(item => this.hashKey(item)).join(',')})`
+    if (value instanceof PyList || value instanceof PyDict || value instanceof PySet) {
+      throw this.error('TypeError', `unhashable type: '${this.typeName(value)}'`)
+    }
+    if (value instanceof PyInstance) {
+      const hash = this.findMethod(value, '__hash__')
+      if (hash) return `h${this.repr(this.callValue(hash, []))}`
+    }
+    return `o${this.objectId(value)}`
+  }
+
+  dictGet(dict: PyDict, key: PyValue): PyValue | undefined {
+    return dict.entries.get(this.hashKey(key))?.[1]
+  }
+
+  dictSet(dict: PyDict, key: PyValue, value: PyValue) {
+    const hash = this.hashKey(key)
+    const existing = dict.entries.get(hash)
+    dict.entries.set(hash, [existing ? existing[0] : key, value])
+  }
+
+  setAdd(set: PySet, value: PyValue) {
+    const hash = this.hashKey(value)
+    if (!set.entries.has(hash)) set.entries.set(hash, value)
+  }
+
+  /** Key/value pairs of a dict or any object with keys() and __getitem__ */
+  mappingItems(value: PyValue): [PyValue, PyValue][] {
+    if (value instanceof PyDict) return [...value.entries.values()]
+    const keys = this.findMethod(value, 'keys')
+    if (!keys) throw this.error('TypeError', `'${this.typeName(value)}' object is not a mapping`)
+    return [...this.iterate(this.callValue(keys, []))].map(key => [key, this.getItem(value, key)])
+  }
+
+  /** Python index semantics: negative counts from the end; out of range raises IndexError */
+  private index(value: PyValue, length: number, typeName: string): number {
+    if (!isNumeric(value) || typeof toNumeric(value) !== 'bigint') {
+      throw this.error('TypeError', `${typeName} indices must be integers or slices, not ${this.typeName(value)}`)
+    }
+    let index = Number(toNumeric(value))
+    if (index < 0) index += length
+    if (index < 0 || index >= length) throw this.error('IndexError', `${typeName} index out of range`)
+    return index
+  }
+
+  /** Start, stop and step of a slice over a sequence of the given length */
+  sliceIndices(slice: PySlice, length: number): [number, number, number] {
+    const toInt = (value: PyValue, fallback: number): number => {
+      if (value === null) return fallback
+      if (!isNumeric(value) || typeof toNumeric(value) !== 'bigint') {
+        throw this.error('TypeError', 'slice indices must be integers or None or have an __index__ method')
+      }
+      return Number(toNumeric(value))
+    }
+    const step = toInt(slice.step, 1)
+    if (step === 0) throw this.error('ValueError', 'slice step cannot be zero')
+    const clamp = (value: number, low: number, high: number) => Math.min(Math.max(value, low), high)
+    const normalise = (value: number, low: number, high: number) => clamp(value < 0 ? value + length : value, low, high)
+    if (step > 0) return [normalise(toInt(slice.start, 0), 0, length), normalise(toInt(slice.stop, length), 0, length), step]
+    return [normalise(toInt(slice.start, length - 1), -1, length - 1), normalise(toInt(slice.stop, -length - 1), -1, length - 1), step]
+  }
+
+  private sliceItems<T>(items: T[], slice: PySlice): T[] {
+    const [start, stop, step] = this.sliceIndices(slice, items.length)
+    const result: T[] = []
+    for (let index = start; step > 0 ? index < stop : index > stop; index += step) result.push(items[index])
+    return result
+  }
+
+  getItem(container: PyValue, key: PyValue): PyValue {
+    if (typeof container === 'string') {
+      if (key instanceof PySlice) return this.sliceItems([...container], key).join('')
+      const chars = [...container]
+      return chars[this.index(key, chars.length, 'string')]
+    }
+    if (container instanceof PyList || container instanceof PyTuple) {
+      const typeName = container instanceof PyList ? container.typeName : 'tuple'
+      if (key instanceof PySlice) {
+        const items = this.sliceItems(container.items, key)
+        return container instanceof PyList ? new PyList(items, container.typeName) : new PyTuple(items)
+      }
+      return container.items[this.index(key, container.items.length, typeName)]
+    }
+    if (container instanceof PyDict) {
+      const value = this.dictGet(container, key)
+      if (value !== undefined) return value
+      if (container.typeName === 'Counter') return 0n
+      if (container.typeName === 'defaultdict' && container.defaultFactory !== null) {
+        const created = this.callValue(container.defaultFactory, [])
+        this.dictSet(container, key, created)
+        return created
+      }
+      throw this.error('KeyError', key as string)
+    }
+    if (container instanceof PyRange) {
+      if (key instanceof PySlice) return new PyList(this.sliceItems([...this.iterate(container)], key))
+      return container.at(BigInt(this.index(key, Number(container.length), 'range object')))
+    }
+    if (container instanceof PyMatch) return this.callValue(this.getAttribute(container, 'group'), [key])
+    if (container instanceof PyClass) return container
+    if (container instanceof PyInstance) {
+      const method = this.findMethod(container, '__getitem__')
+      if (method) return this.callValue(method, [key])
+    }
+    throw this.error('TypeError', `'${this.typeName(container)}' object is not subscriptable`)
+  }
+
+  setItem(container: PyValue, key: PyValue, value: PyValue) {
+    if (container instanceof PyList) {
+      if (key instanceof PySlice) {
+        const [start, stop, step] = this.sliceIndices(key, container.items.length)
+        const replacement = [...this.iterate(value)]
+        if (step !== 1) throw new UnsupportedFeatureError('Extended slice assignment', this.frame.line)
+        container.items.splice(start, Math.max(0, stop - start), ...replacement)
+        return
+      }
+      container.items[this.index(key, container.items.length, 'list')] = value
+      return
+    }
+    if (container instanceof PyDict) {
+      this.dictSet(container, key, value)
+      return
+    }
+    if (container instanceof PyInstance) {
+      const method = this.findMethod(container, '__setitem__')
+      if (method) {
+        this.callValue(method, [key, value])
+        return
+      }
+    }
+    throw this.error('TypeError', `'${this.typeName(container)}' object does not support item assignment`)
+  }
+
+  private deleteItem(container: PyValue, key: PyValue) {
+    if (container instanceof PyList) {
+      if (key instanceof PySlice) {
+        const [start, stop, step] = this.sliceIndices(key, container.items.length)
+        if (step !== 1) throw new UnsupportedFeatureError('Extended slice deletion', this.frame.line)
+        container.items.splice(start, Math.max(0, stop - start))
+        return
+      }
+      container.items.splice(this.index(key, container.items.length, 'list'), 1)
+      return
+    }
+    if (container instanceof PyDict) {
+      if (!container.entries.delete(this.hashKey(key))) throw this.error('KeyError', key as string)
+      return
+    }
+    if (container instanceof PyInstance) {
+      const method = this.findMethod(container, '__delitem__')
+      if (method) {
+        this.callValue(method, [key])
+        return
+      }
+    }
+    throw this.error('TypeError', `'${this.typeName(container)}' object does not support item deletion`)
+  }
+
+  // ---------- iteration ----------
+
+  isIterable(value: PyValue): boolean {
+    if (typeof value === 'string') return true
+    if (value instanceof PyInstance) return this.findInMro(value.cls, '__iter__') !== undefined || this.findInMro(value.cls, '__getitem__') !== undefined
+    return [PyList, PyTuple, PyDict, PySet, PyRange, PyView, PyIterator, PyGenerator, PyFile].some(type => value instanceof type)
+  }
+
+  /**
+   * Iterates any Python iterable. Raises TypeError straight away for values that aren't.
+   */
+  iterate(value: PyValue): Generator<PyValue, void, undefined> {
+    if (!this.isIterable(value)) throw this.error('TypeError', `'${this.typeName(value)}' object is not iterable`)
+    return this.countedIteration(value)
+  }
+
+  private *countedIteration(value: PyValue): Generator<PyValue, void, undefined> {
+    for (const item of this.iterateValues(value)) {
+      this.tick()
+      yield item
+    }
+  }
+
+  private *iterateValues(value: PyValue): Generator<PyValue, void, undefined> {
+    if (typeof value === 'string') {
+      yield* value
+    } else if (value instanceof PyList || value instanceof PyTuple) {
+      for (let index = 0; index < value.items.length; index++) yield value.items[index]
+    } else if (value instanceof PyDict || value instanceof PySet || value instanceof PyView) {
+      const entries = value instanceof PyView ? value.dict.entries : value.entries
+      const size = entries.size
+      for (const entry of [...entries.values()]) {
+        if (entries.size !== size) throw this.error('RuntimeError', `${value instanceof PySet ? 'Set' : 'dictionary'} changed size during iteration`)
+        if (value instanceof PySet) yield entry as PyValue
+        else if (value instanceof PyView && value.kind === 'values') yield (entry as [PyValue, PyValue])[1]
+        else if (value instanceof PyView && value.kind === 'items') yield new PyTuple([...(entry as [PyValue, PyValue])])
+        else yield (entry as [PyValue, PyValue])[0]
+      }
+    } else if (value instanceof PyRange) {
+      const { start, stop, step } = value
+      for (let current = start; step > 0n ? current < stop : current > stop; current += step) yield current
+    } else if (value instanceof PyIterator) {
+      for (let next = value.source.next(); !next.done; next = value.source.next()) yield next.value
+    } else if (value instanceof PyGenerator) {
+      for (let next = this.resume(value, null); !next.done; next = this.resume(value, null)) yield next.value
+    } else if (value instanceof PyFile) {
+      for (let line = this.readLine(value); line; line = this.readLine(value)) yield line
+    } else if (value instanceof PyInstance) {
+      yield* this.iterateInstance(value)
+    }
+  }
+
+  private *iterateInstance(value: PyInstance): Generator<PyValue, void, undefined> {
+    const iter = this.findMethod(value, '__iter__')
+    if (!iter) {
+      // Sequence protocol: __getitem__ with 0, 1, 2... until IndexError
+      const getItem = this.findMethod(value, '__getitem__') as PyValue
+      for (let index = 0n; ; index++) {
+        try {
+          yield this.callValue(getItem, [index])
+        } catch (error) {
+          if (error instanceof PythonException && this.isInstance(error.exception, this.builtins.get('IndexError') as PyClass)) return
+          throw error
+        }
+      }
+    }
+    const iterator = this.callValue(iter, [])
+    if (!(iterator instanceof PyInstance)) {
+      yield* this.iterate(iterator)
+      return
+    }
+    const next = this.findMethod(iterator, '__next__')
+    if (!next) throw this.error('TypeError', `iter() returned non-iterator of type '${this.typeName(iterator)}'`)
+    for (;;) {
+      try {
+        yield this.callValue(next, [])
+      } catch (error) {
+        if (error instanceof PythonException && this.isInstance(error.exception, this.builtins.get('StopIteration') as PyClass)) return
+        throw error
+      }
+    }
+  }
+
+  /** Next item of an iterator for next(), or undefined once it's exhausted */
+  nextItem(iterator: PyValue): PyValue | undefined {
+    if (iterator instanceof PyGenerator) {
+      const result = this.resume(iterator, null)
+      return result.done ? undefined : result.value
+    }
+    if (iterator instanceof PyIterator) {
+      const result = iterator.source.next()
+      return result.done ? undefined : result.value
+    }
+    if (iterator instanceof PyFile) return this.readLine(iterator) || undefined
+    if (iterator instanceof PyInstance) {
+      const next = this.findMethod(iterator, '__next__')
+      if (next) {
+        try {
+          return this.callValue(next, [])
+        } catch (error) {
+          if (error instanceof PythonException && this.isInstance(error.exception, this.builtins.get('StopIteration') as PyClass)) return undefined
+          throw error
+        }
+      }
+    }
+    throw this.error('TypeError', `'${this.typeName(iterator)}' object is not an iterator`)
+  }
+
+  readLine(file: PyFile): string {
+    if (file.closed) throw this.error('ValueError', 'I/O operation on closed file.')
+    const end = file.content.indexOf('\n', file.position)
+    const next = end === -1 ? file.content.length : end + 1
+    const line = file.content.slice(file.position, next)
+    file.position = next
+    return line
+  }
+
+  // ---------- text ----------
+
+  str(value: PyValue): string {
+    if (typeof value === 'string') return value
+    if (value instanceof PyInstance) {
+      const method = this.findInMro(value.cls, '__str__')
+      if (method !== undefined) return this.textResult(this.callValue(this.bind(method, value, value.cls), []), '__str__')
+    }
+    return this.repr(value)
+  }
+
+  private textResult(value: PyValue, method: string): string {
+    if (typeof value !== 'string') throw this.error('TypeError', `${method} returned non-string (type ${this.typeName(value)})`)
+    return value
+  }
+
+  repr(value: PyValue, seen = new Set<PyObject>()): string {
+    if (value === null) return 'None'
+    if (typeof value === 'boolean') return value ? 'True' : 'False'
+    if (typeof value === 'bigint') return value.toString()
+    if (typeof value === 'number') return formatFloat(value)
+    if (typeof value === 'string') return quoteString(value)
+
+    const address = () => `0x${(0x7f3a1c000000 + this.objectId(value) * 0x30).toString(16)}`
+    if (seen.has(value)) {
+      if (value instanceof PyList) return '[...]'
+      if (value instanceof PyDict) return '{...}'
+      return '(...)'
+    }
+    const inner = new Set(seen).add(value)
+    const items = (values: PyValue[]) => values.map(item => this.repr(item, inner)).join(', ')
+    const dictBody = (dict: PyDict) => `{${[...dict.entries.values()].map(([key, item]) => `${this.repr(key, inner)}: ${this.repr(item, inner)}`).join(', ')}}`
+
+    if (value instanceof PyList) {
+      if (value.typeName === 'deque') return `deque([${items(value.items)}])`
+      if (value.typeName === 'Queue') return `<queue.Queue object at ${address()}>`
+      return `[${items(value.items)}]`
+    }
+    if (value instanceof PyTuple) return value.items.length === 1 ? `(${items(value.items)},)` : `(${items(value.items)})`
+    if (value instanceof PyDict) {
+      if (value.typeName === 'dict') return dictBody(value)
+      if (value.typeName === 'defaultdict') return `defaultdict(${this.repr(value.defaultFactory, inner)}, ${dictBody(value)})`
+      return value.entries.size === 0 ? `${value.typeName}()` : `${value.typeName}(${dictBody(value)})`
+    }
+    if (value instanceof PySet) return value.entries.size === 0 ? 'set()' : `{${items([...value.entries.values()])}}`
+    if (value instanceof PyRange) {
+      return value.step === 1n ? `range(${value.start}, ${value.stop})` : `range(${value.start}, ${value.stop}, ${value.step})`
+    }
+    if (value instanceof PySlice) return `slice(${items([value.start, value.stop, value.step])})`
+    if (value instanceof PyFunction) return `<function ${value.qualname} at ${address()}>`
+    if (value instanceof PyBuiltin) return `<built-in function ${value.name}>`
+    if (value instanceof PyBoundMethod) return `<bound method ${value.func.qualname} of ${this.repr(value.self, inner)}>`
+    if (value instanceof PyClass) return value.module === '__main__' ? `<class '__main__.${value.name}'>` : `<class '${value.name}'>`
+    if (value instanceof PyInstance) {
+      const method = this.findInMro(value.cls, '__repr__')
+      if (method !== undefined) return this.textResult(this.callValue(this.bind(method, value, value.cls), []), '__repr__')
+      const args = value.attributes.get('args')
+      if (args instanceof PyTuple && this.isInstance(value, this.builtins.get('BaseException') as PyClass)) {
+        return `${value.cls.name}(${items(args.items)})`
+      }
+      return `<${value.cls.module}.${value.cls.name} object at ${address()}>`
+    }
+    if (value instanceof PyModule) return `<module '${value.name}' (built-in)>`
+    if (value instanceof PyGenerator) return `<generator object ${value.func.qualname} at ${address()}>`
+    if (value instanceof PyIterator) return `<${value.typeName} object at ${address()}>`
+    if (value instanceof PyView) return `dict_${value.kind}([${items([...this.iterate(value)])}])`
+    if (value instanceof PyFile) return `<_io.TextIOWrapper name='${value.name}' mode='${value.mode}' encoding='UTF-8'>`
+    if (value instanceof PySuper) return `<super: <class '${value.cls.name}'>, <${this.typeName(value.self)} object>>`
+    if (value instanceof PyPattern) return `re.compile(${quoteString(value.source)})`
+    if (value instanceof PyMatch) {
+      const start = value.match.index
+      return `<re.Match object; span=(${start}, ${start + value.match[0].length}), match=${quoteString(value.match[0])}>`
+    }
+    if (value instanceof PySingleton) return value.name
+    return `<${this.typeName(value)} object at ${address()}>`
+  }
+
+  /**
+   * format(value, spec): the mini-language used by f-strings and str.format
+   */
+  format(value: PyValue, spec: string): string {
+    if (value instanceof PyInstance) {
+      const method = this.findInMro(value.cls, '__format__')
+      if (method !== undefined) return this.textResult(this.callValue(this.bind(method, value, value.cls), [spec]), '__format__')
+      if (spec === '') return this.str(value)
+    }
+    if (spec === '') return this.str(value)
+
+    const match = /^(?:([\s\S])?([<>=^]))?([+\- ])?(#)?(0)?(\d+)?([,_])?(?:\.(\d+))?([bcdeEfFgGnosxX%])?$/.exec(spec)
+    const typeName = this.typeName(value)
+    if (!match) throw this.error('ValueError', `Invalid format specifier '${spec}' for object of type '${typeName}'`)
+    const [, fillChar, alignChar, signChar, alternate, zero, widthText, grouping, precisionText, formatType] = match
+    const precision = precisionText === undefined ? undefined : Number(precisionText)
+    const width = widthText === undefined ? 0 : Number(widthText)
+    let fill = fillChar ?? ' '
+    let align = alignChar
+    if (zero && !alignChar) {
+      fill = '0'
+      align = '='
+    }
+    const pad = (body: string, sign: string, defaultAlign: string): string => {
+      const total = sign.length + body.length
+      if (total >= width) return sign + body
+      const padding = width - total
+      switch (align ?? defaultAlign) {
+        case '<': return sign + body + fill.repeat(padding)
+        case '^': return fill.repeat(Math.floor(padding / 2)) + sign + body + fill.repeat(Math.ceil(padding / 2))
+        case '=': return sign + fill.repeat(padding) + body
+        default: return fill.repeat(padding) + sign + body
+      }
+    }
+
+    if (typeof value === 'string') {
+      if (formatType && formatType !== 's') throw this.error('ValueError', `Unknown format code '${formatType}' for object of type 'str'`)
+      return pad(precision === undefined ? value : value.slice(0, precision), '', '<')
+    }
+    if (!isNumeric(value)) throw this.error('TypeError', `unsupported format string passed to ${typeName}.__format__`)
+
+    const number = toNumeric(value)
+    const negative = typeof number === 'bigint' ? number < 0n : number < 0 || Object.is(number, -0)
+    const sign = negative ? '-' : signChar === '+' ? '+' : signChar === ' ' ? ' ' : ''
+    const group = (digits: string) => {
+      if (!grouping) return digits
+      const [integer, fraction] = digits.split('.')
+      const grouped = integer.replace(/\B(?=(\d{3})+(?!\d))/g, grouping)
+      return fraction === undefined ? grouped : `${grouped}.${fraction}`
+    }
+
+    let body: string
+    const type = formatType ?? (typeof number === 'bigint' ? 'd' : '')
+    if (typeof number === 'bigint' && 'dnbcoxX'.includes(type)) {
+      if (precision !== undefined) throw this.error('ValueError', 'Precision not allowed in integer format specifier')
+      const magnitude = negative ? -number : number
+      switch (type) {
+        case 'b': body = (alternate ? '0b' : '') + magnitude.toString(2); break
+        case 'o': body = (alternate ? '0o' : '') + magnitude.toString(8); break
+        case 'x': body = (alternate ? '0x' : '') + magnitude.toString(16); break
+        case 'X': body = (alternate ? '0X' : '') + magnitude.toString(16).toUpperCase(); break
+        case 'c': return pad(String.fromCodePoint(Number(number)), '', '>')
+        default: body = group(magnitude.toString())
+      }
+      return pad(body, sign, '>')
+    }
+    if (typeof number === 'number' && 'dnbcoxX'.includes(type) && type !== '') {
+      throw this.error('ValueError', `Unknown format code '${type}' for object of type 'float'`)
+    }
+
+    const magnitude = Math.abs(Number(number))
+    if (!Number.isFinite(magnitude)) {
+      body = Number.isNaN(magnitude) ? 'nan' : 'inf'
+    } else {
+      switch (type) {
+        case 'f':
+        case 'F':
+          body = group(magnitude.toFixed(precision ?? 6))
+          break
+        case 'e':
+        case 'E':
+          body = exponential(magnitude, precision ?? 6)
+          if (type === 'E') body = body.toUpperCase()
+          break
+        case '%':
+          body = `${group((magnitude * 100).toFixed(precision ?? 6))}%`
+          break
+        case 'g':
+        case 'G':
+          body = general(magnitude, precision ?? 6, Boolean(alternate))
+          if (type === 'G') body = body.toUpperCase()
+          break
+        default:
+          body = precision === undefined ? group(formatFloat(magnitude)) : group(general(magnitude, precision || 1, false, true))
+      }
+    }
+    if (Number.isNaN(Number(number))) return pad(body, signChar === '+' ? '+' : signChar === ' ' ? ' ' : '', '>')
+    return pad(body, sign, '>')
+  }
+
+  /** printf-style formatting: "%s scored %d" % (name, score) */
+  private percentFormat(template: string, args: PyValue): string {
+    const values = args instanceof PyTuple ? [...args.items] : [args]
+    const mapping = args instanceof PyDict ? args : null
+    let used = 0
+    const result = template.replace(/%(?:\((\w+)\))?([-+ #0]*)(\d+|\*)?(?:\.(\d+))?([diouxXeEfFgGcrsa%])/g, (_match, key: string | undefined, flags: string, width: string | undefined, precision: string | undefined, conversion: string) => {
+      if (conversion === '%') return '%'
+      let value: PyValue
+      if (key !== undefined) {
+        if (!mapping) throw this.error('TypeError', 'format requires a mapping')
+        const found = this.dictGet(mapping, key)
+        if (found === undefined) throw this.error('KeyError', key)
+        value = found
+      } else {
+        if (used >= values.length) throw this.error('TypeError', 'not enough arguments for format string')
+        value = values[used++]
+      }
+      const align = flags.includes('-') ? '<' : ''
+      const zero = flags.includes('0') && !align ? '0' : ''
+      const sign = flags.includes('+') ? '+' : flags.includes(' ') ? ' ' : ''
+      const size = width ?? ''
+      const dot = precision === undefined ? '' : `.${precision}`
+      if (conversion === 's' || conversion === 'r' || conversion === 'a') {
+        const text = conversion === 's' ? this.str(value) : this.repr(value)
+        return this.format(text, `${align}${size}${dot}`)
+      }
+      if ('diu'.includes(conversion)) {
+        if (!isNumeric(value)) throw this.error('TypeError', `%${conversion} format: a real number is required, not ${this.typeName(value)}`)
+        const number = toNumeric(value)
+        return this.format(typeof number === 'bigint' ? number : BigInt(Math.trunc(number)), `${align}${sign}${zero}${size}d`)
+      }
+      if (conversion === 'c') return typeof value === 'string' ? value : String.fromCodePoint(Number(value))
+      return this.format(value, `${align}${sign}${zero}${size}${dot}${conversion}`)
+    })
+    if (!mapping && used < values.length) throw this.error('TypeError', 'not all arguments converted during string formatting')
+    return result
+  }
+}
+
+// ==================== HELPERS ====================
+
+function isSame(left: PyValue, right: PyValue): boolean {
+  return left === right
+}
+
+function compareValues<T extends bigint | number | string>(op: string, a: T, b: T): boolean {
+  switch (op) {
+    case '<': return a < b
+    case '>': return a > b
+    case '<=': return a <= b
+    default: return a >= b
+  }
+}
+
+function floorDivide(a: bigint, b: bigint): bigint {
+  const quotient = a / b
+  return a % b !== 0n && a < 0n !== b < 0n ? quotient - 1n : quotient
+}
+
+function modulo(a: bigint, b: bigint): bigint {
+  const remainder = a % b
+  return remainder !== 0n && remainder < 0n !== b < 0n ? remainder + b : remainder
+}
+
+function exponential(value: number, precision: number): string {
+  const [mantissa, exponent] = value.toExponential(precision).split('e')
+  const power = Number(exponent)
+  return `${mantissa}e${power < 0 ? '-' : '+'}${String(Math.abs(power)).padStart(2, '0')}`
+}
+
+/**
+ * The 'g' presentation type: fixed or exponential depending on the exponent, trailing zeros removed
+ */
+function general(value: number, precision: number, keepZeros: boolean, keepPoint = false): string {
+  const digits = Math.max(precision, 1)
+  if (value === 0) return keepPoint ? '0.0' : '0'
+  const power = Math.floor(Math.log10(value))
+  const rounded = Number(value.toPrecision(digits))
+  const exponent = rounded === 0 ? power : Math.floor(Math.log10(rounded))
+  let text = exponent < -4 || exponent >= digits ? exponential(rounded, digits - 1) : rounded.toFixed(Math.max(0, digits - 1 - exponent))
+  if (!keepZeros) {
+    text = text.replace(/(\.\d*?)0+(e|$)/, '$1$2').replace(/\.(e|$)/, '$1')
+    if (keepPoint && !/[.e]/.test(text)) text += '.0'
+  }
+  return text
+}
+
+// ==================== ENTRY POINT ====================
+
+/**
+ * Runs a Python program and returns every recorded step. input() and sys.stdin read from stdin.
+ */
+export function tracePython(code: string, stdin = ''): ExecutionTrace {
+  const recorder = new TraceRecorder()
+
+  let program: Stmt[]
+  try {
+    program = parsePython(code)
+  } catch (error) {
+    if (error instanceof PythonSyntaxError) return recorder.toTrace({ message: `SyntaxError: ${error.message}`, line: error.line })
+    if (error instanceof UnsupportedFeatureError) return recorder.toTrace({ message: error.message, line: error.line })
+    throw error
+  }
+
+  const interpreter = new PythonInterpreter(recorder, stdin)
+  try {
+    interpreter.run(program)
+    interpreter.finish()
+    return recorder.toTrace()
+  } catch (error) {
+    if (error instanceof StepLimitError) return { ...recorder.toTrace({ message: error.message }), truncated: true }
+    if (error instanceof UnsupportedFeatureError) return recorder.toTrace({ message: error.message, line: error.line || undefined })
+    if (error instanceof PythonException) {
+      if (error.exception.cls.name === 'SystemExit') {
+        interpreter.finish()
+        return recorder.toTrace()
+      }
+      interpreter.noteException(error)
+      interpreter.finish(error)
+      return recorder.toTrace({ message: interpreter.describeException(error.exception), line: interpreter.exceptionLine(error) })
+    }
+    if (error instanceof RangeError) return recorder.toTrace({ message: 'RecursionError: maximum recursion depth exceeded' })
+    throw error
+  }
+}
@@ -0,0 +1,329 @@
+/**
+ * Python Values
+ * Runtime objects for the offline Python interpreter behind the sandbox visualiser.
+ * ints are bigints, floats are numbers, None is null; everything else is a PyObject.
+ */
+
+import type { Expr, Param, Stmt } from './pythonParser'
+
+// ==================== VALUES ====================
+
+export type PyValue = null | boolean | bigint | number | string | PyObject
+export type Kwargs = Map<string, PyValue>
+export type NativeFunction = (args: PyValue[], kwargs: Kwargs) => PyValue
+
+export abstract class PyObject {}
+
+export class PyList extends PyObject {
+  constructor(public items: PyValue[], public typeName: 'list' | 'deque' | 'Queue' = 'list') {
+    super()
+  }
+}
+
+export class PyTuple extends PyObject {
+  constructor(public items: PyValue[]) {
+    super()
+  }
+}
+
+/** Entries are keyed by the interpreter's hash of the Python key */
+export class PyDict extends PyObject {
+  entries = new Map<string, [PyValue, PyValue]>()
+
+  constructor(public typeName: 'dict' | 'OrderedDict' | 'defaultdict' | 'Counter' = 'dict', public defaultFactory: PyValue = null) {
+    super()
+  }
+}
+
+export class PySet extends PyObject {
+  entries = new Map<string, PyValue>()
+}
+
+export class PyRange extends PyObject {
+  constructor(public start: bigint, public stop: bigint, public step: bigint) {
+    super()
+  }
+
+  get length(): bigint {
+    const span = this.step > 0n ? this.stop - this.start : this.start - this.stop
+    const step = this.step > 0n ? this.step : -this.step
+    return span <= 0n ? 0n : (span + step - 1n) / step
+  }
+
+  at(index: bigint): bigint {
+    return this.start + index * this.step
+  }
+}
+
+export class PySlice extends PyObject {
+  constructor(public start: PyValue, public stop: PyValue, public step: PyValue) {
+    super()
+  }
+}
+
+export interface ScopeInfo {
+  locals: Set<string>
+  globals: Set<string>
+  nonlocals: Set<string>
+}
+
+/**
+ * Variables of a module, function call, class body or comprehension
+ */
+export class Scope {
+  vars = new Map<string, PyValue>()
+
+  constructor(
+    public kind: 'module' | 'function' | 'class',
+    public parent: Scope | null,
+    public info: ScopeInfo | null,
+    /** Class name, used to name methods defined in a class body */
+    public name = ''
+  ) {}
+}
+
+export class PyFunction extends PyObject {
+  /** Attributes set on the function, such as __name__ copied by functools.wraps */
+  attributes = new Map<string, PyValue>()
+  /** Class the function was defined in, for zero-argument super() */
+  ownerClass: PyClass | null = null
+
+  constructor(
+    public name: string,
+    public qualname: string,
+    public params: Param[],
+    public defaults: Map<string, PyValue>,
+    /** Statements for def, an expression for lambda */
+    public body: Stmt[] | Expr,
+    public closure: Scope,
+    public info: ScopeInfo,
+    public isGenerator: boolean,
+    public line: number
+  ) {
+    super()
+  }
+}
+
+export class PyBuiltin extends PyObject {
+  constructor(
+    public name: string,
+    public call: NativeFunction,
+    /** Methods stored on a class receive the instance as their first argument */
+    public isMethod = false
+  ) {
+    super()
+  }
+}
+
+export class PyBoundMethod extends PyObject {
+  constructor(public self: PyValue, public func: PyFunction) {
+    super()
+  }
+}
+
+export class PyClass extends PyObject {
+  mro: PyClass[]
+
+  constructor(
+    public name: string,
+    public bases: PyClass[],
+    public namespace: Map<string, PyValue>,
+    /** Constructor for built-in types such as int and list, which don't create instances */
+    public construct: NativeFunction | null = null,
+    public module = '__main__'
+  ) {
+    super()
+    this.mro = [this, ...linearize(bases)]
+  }
+}
+
+/**
+ * C3 method resolution order of a class's bases
+ */
+function linearize(bases: PyClass[]): PyClass[] {
+  const sequences = [...bases.map(base => [...base.mro]), [...bases]].filter(sequence => sequence.length > 0)
+  const order: PyClass[] = []
+  while (sequences.length > 0) {
+    const head = sequences
+      .map(sequence => sequence[0])
+      .find(candidate => sequences.every(sequence => !sequence.slice(1).includes(candidate)))
+    if (!head) throw new TypeError('Cannot create a consistent method resolution order (MRO)')
+    order.push(head)
+    sequences.forEach(sequence => {
+      if (sequence[0] === head) sequence.shift()
+    })
+    for (let index = sequences.length - 1; index >= 0; index--) {
+      if (sequences[index].length === 0) sequences.splice(index, 1)
+    }
+  }
+  return order
+}
+
+export class PyInstance extends PyObject {
+  attributes = new Map<string, PyValue>()
+
+  constructor(public cls: PyClass) {
+    super()
+  }
+}
+
+export class PyModule extends PyObject {
+  constructor(public name: string, public attributes: Map<string, PyValue>) {
+    super()
+  }
+}
+
+export class PyGenerator extends PyObject {
+  state: 'created' | 'suspended' | 'running' | 'done' = 'created'
+
+  constructor(
+    public func: PyFunction,
+    public frame: Frame,
+    public execution: Generator<PyValue, unknown, PyValue>
+  ) {
+    super()
+  }
+}
+
+/** map, filter, zip, enumerate, iter() and other lazy iterators */
+export class PyIterator extends PyObject {
+  constructor(public typeName: string, public source: Iterator<PyValue>) {
+    super()
+  }
+}
+
+export class PyView extends PyObject {
+  constructor(public dict: PyDict, public kind: 'keys' | 'values' | 'items') {
+    super()
+  }
+}
+
+export class PyProperty extends PyObject {
+  constructor(public getter: PyValue, public setter: PyValue = null) {
+    super()
+  }
+}
+
+export class PyStaticMethod extends PyObject {
+  constructor(public func: PyValue) {
+    super()
+  }
+}
+
+export class PyClassMethod extends PyObject {
+  constructor(public func: PyValue) {
+    super()
+  }
+}
+
+export class PySuper extends PyObject {
+  constructor(public cls: PyClass, public self: PyValue) {
+    super()
+  }
+}
+
+/**
+ * An open file in the interpreter's in-memory file system, or sys.stdin / sys.stdout
+ */
+export class PyFile extends PyObject {
+  position = 0
+  closed = false
+
+  constructor(public name: string, public mode: string, public content: string) {
+    super()
+  }
+}
+
+export class PyPattern extends PyObject {
+  constructor(public source: string, public flags: bigint) {
+    super()
+  }
+}
+
+export class PyMatch extends PyObject {
+  constructor(public match: RegExpExecArray, public input: string) {
+    super()
+  }
+}
+
+/** Ellipsis and NotImplemented */
+export class PySingleton extends PyObject {
+  constructor(public name: string) {
+    super()
+  }
+}
+
+export const ELLIPSIS = new PySingleton('Ellipsis')
+export const NOT_IMPLEMENTED = new PySingleton('NotImplemented')
+
+// ==================== FRAMES ====================
+
+export interface Frame {
+  name: string
+  line: number
+  scope: Scope
+  func: PyFunction | null
+}
+
+/**
+ * Thrown to unwind the interpreter when Python code raises
+ */
+export class PythonException extends Error {
+  constructor(public exception: PyInstance) {
+    super(exception.cls.name)
+    this.name = 'PythonException'
+  }
+}
+
+// ==================== NUMBERS ====================
+
+export function isNumeric(value: PyValue): value is boolean | bigint | number {
+  return typeof value === 'boolean' || typeof value === 'bigint' || typeof value === 'number'
+}
+
+/** bools count as the ints 0 and 1 */
+export function toNumeric(value: boolean | bigint | number): bigint | number {
+  return typeof value === 'boolean' ? BigInt(value) : value
+}
+
+// ==================== FORMATTING ====================
+
+/**
+ * Python's repr() of a float: shortest round-tripping digits, exponent outside 1e-4..1e16
+ */
+export function formatFloat(value: number): string {
+  if (Number.isNaN(value)) return 'nan'
+  if (!Number.isFinite(value)) return value > 0 ? 'inf' : '-inf'
+  if (value === 0) return Object.is(value, -0) ? '-0.0' : '0.0'
+
+  const [mantissa, exponentText] = Math.abs(value).toExponential().split('e')
+  const exponent = Number(exponentText)
+  const digits = mantissa.replace('.', '')
+  const sign = value < 0 ? '-' : ''
+
+  if (exponent < -4 || exponent >= 16) {
+    const shortMantissa = digits.length === 1 ? digits : `${digits[0]}.${digits.slice(1)}`
+    return `${sign}${shortMantissa}e${exponent < 0 ? '-' : '+'}${String(Math.abs(exponent)).padStart(2, '0')}`
+  }
+  if (exponent < 0) return `${sign}0.${'0'.repeat(-exponent - 1)}${digits}`
+  if (digits.length <= exponent + 1) return `${sign}${digits}${'0'.repeat(exponent + 1 - digits.length)}.0`
+  return `${sign}${digits.slice(0, exponent + 1)}.${digits.slice(exponent + 1)}`
+}
+
+/**
+ * Python's repr() of a str, preferring single quotes
+ */
+export function quoteString(value: string): string {
+  const quote = value.includes("'") && !value.includes('"') ? '"' : "'"
+  let result = quote
+  for (const char of value) {
+    const code = char.codePointAt(0) as number
+    if (char === quote || char === '\\') result += `\\${char}`
+    else if (char === '\n') result += '\\n'
+    else if (char === '\r') result += '\\r'
+    else if (char === '\t') result += '\\t'
+    else if (code < 0x20 || code === 0x7f) result += `\\x${code.toString(16).padStart(2, '0')}`
+    else result += char
+  }
+  return result + quote
+}
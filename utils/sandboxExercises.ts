@@ -2,6 +2,9 @@
 // Practice exercises for each tutorial concept
 // Users write real code and see it run!
 
+import type { DatabaseTable, ExerciseDatabase, TestCase } from '@/types'
+import { supportsExecution } from './pistonService'
+
 export interface SandboxExercise {
   id: string
   title: string
@@ -10,8 +13,16 @@ export interface SandboxExercise {
   starterCode: string
   solution: string
   hint: string
+  /** Lines of starterCode (1-based, inclusive) locked in the editor, so only the rest is edited */
+  readOnlyLines?: [number, number][]
   validation?: (code: string) => boolean
   expectedOutput?: string
+  /** Seeded database for SQL exercises; graded by comparing result sets with the solution */
+  database?: ExerciseDatabase
+  /** Code appended to the submission when running test cases (reads stdin, prints results) */
+  testHarness?: string
+  /** stdin/expected stdout pairs; when present, grading requires every case to pass */
+  testCases?: TestCase[]
 }
 
 export interface SandboxExerciseSet {
@@ -36,7 +47,10 @@ export function generateSandboxExercises(
   }
 }
 
-function detectLanguageType(languageId: string): string {
+/**
+ * Broad family of a language (markup, styling, scripting, framework or general)
+ */
+export function detectLanguageType(languageId: string): string {
   if (['html'].includes(languageId)) return 'markup'
   if (['css'].includes(languageId)) return 'styling'
   if (['javascript', 'typescript'].includes(languageId)) return 'scripting'
@@ -932,8 +946,22 @@ button:hover {
 // ============================================
 // JAVASCRIPT EXERCISES
 // ============================================
+// Wraps harness lines in a block with the trimmed stdin bound to `input`, so they can't clash with learner variables
+function jsTestHarness(...lines: string[]): string {
+  return [
+    '{',
+    "  const input = require('fs').readFileSync(0, 'utf8').trim()",
+    ...lines.map(line => `  ${line}`),
+    '}',
+  ].join('\n')
+}
+
 function generateJavaScriptExercises(languageId: string, difficulty: 'easy' | 'medium' | 'hard'): SandboxExercise[] {
   const isTS = languageId.includes('typescript')
+  // Harnesses read stdin with require('fs'), which TypeScript rejects without Node typings.
+  // React and Next.js share these exercises but can't run, so their tests could never pass.
+  const withTests = (tests: Pick<SandboxExercise, 'testHarness' | 'testCases'>) =>
+    (isTS || !supportsExecution(languageId) ? {} : tests)
 
   if (difficulty === 'easy') {
     return [
@@ -959,7 +987,15 @@ function generateJavaScriptExercises(languageId: string, difficulty: 'easy' | 'm
         ? `function greet(name: string): string {\n  return \`Hello, \${name}!\`;\n}`
         : `function greet(name) {\n  return \`Hello, \${name}!\`;\n}`,
       hint: 'Use template literals with backticks',
-      expectedOutput: 'Function returns greeting message'
+      expectedOutput: 'Function returns greeting message',
+      ...withTests({
+        testHarness: jsTestHarness('console.log(greet(input))'),
+        testCases: [
+          { id: 't1', input: 'Alice', expectedOutput: 'Hello, Alice!', description: 'Greets Alice' },
+          { id: 't2', input: 'Bob', expectedOutput: 'Hello, Bob!', description: 'Greets Bob' },
+          { id: 't3', input: 'Ada Lovelace', expectedOutput: 'Hello, Ada Lovelace!', description: 'Greets a full name', hidden: true },
+        ],
+      })
     },
     {
       id: '3',
@@ -967,9 +1003,19 @@ function generateJavaScriptExercises(languageId: string, difficulty: 'easy' | 'm
       description: 'Use conditional logic.',
       instructions: 'Write a function isAdult(age) that returns true if age >= 18, otherwise false',
       starterCode: `function isAdult(age) {\n  // Write your if/else here\n}`,
+      readOnlyLines: [[1, 1], [3, 3]],
       solution: `function isAdult(age) {\n  if (age >= 18) {\n    return true;\n  } else {\n    return false;\n  }\n}`,
       hint: 'Use if (condition) { } else { }',
-      expectedOutput: 'Returns true for 18+, false otherwise'
+      expectedOutput: 'Returns true for 18+, false otherwise',
+      ...withTests({
+        testHarness: jsTestHarness('console.log(isAdult(Number(input)))'),
+        testCases: [
+          { id: 't1', input: '30', expectedOutput: 'true', description: 'Adult age' },
+          { id: 't2', input: '12', expectedOutput: 'false', description: 'Child age' },
+          { id: 't3', input: '18', expectedOutput: 'true', description: 'Exactly 18', hidden: true },
+          { id: 't4', input: '17', expectedOutput: 'false', description: 'Just under 18', hidden: true },
+        ],
+      })
     },
     {
       id: '4',
@@ -977,9 +1023,16 @@ function generateJavaScriptExercises(languageId: string, difficulty: 'easy' | 'm
       description: 'Loop through numbers.',
       instructions: 'Write a function printNumbers() that logs numbers 1 to 5 using a for loop',
       starterCode: `function printNumbers() {\n  // Write your for loop here\n}`,
+      readOnlyLines: [[1, 1], [3, 3]],
       solution: `function printNumbers() {\n  for (let i = 1; i <= 5; i++) {\n    console.log(i);\n  }\n}`,
       hint: 'Use for (let i = 1; i <= 5; i++)',
-      expectedOutput: 'Logs 1, 2, 3, 4, 5'
+      expectedOutput: 'Logs 1, 2, 3, 4, 5',
+      ...withTests({
+        testHarness: 'printNumbers()',
+        testCases: [
+          { id: 't1', input: '', expectedOutput: '1\n2\n3\n4\n5', description: 'Logs 1 to 5, one per line' },
+        ],
+      })
     },
     {
       id: '5',
@@ -987,6 +1040,7 @@ function generateJavaScriptExercises(languageId: string, difficulty: 'easy' | 'm
       description: 'Work with arrays.',
       instructions: 'Create an array of fruits and add "grape" to it using push()',
       starterCode: `let fruits = ["apple", "banana", "orange"];\n// Add grape to the array`,
+      readOnlyLines: [[1, 1]],
       solution: `let fruits = ["apple", "banana", "orange"];\nfruits.push("grape");`,
       hint: 'Use array.push() to add items',
       expectedOutput: 'Array contains 4 fruits'
@@ -1007,9 +1061,16 @@ function generateJavaScriptExercises(languageId: string, difficulty: 'easy' | 'm
       description: 'Use array map method.',
       instructions: 'Use map() to double all numbers in the array [1, 2, 3, 4, 5]',
       starterCode: `let numbers = [1, 2, 3, 4, 5];\nlet doubled = // Use map here`,
+      readOnlyLines: [[1, 1]],
       solution: `let numbers = [1, 2, 3, 4, 5];\nlet doubled = numbers.map(n => n * 2);`,
       hint: 'Use numbers.map(n => n * 2)',
-      expectedOutput: '[2, 4, 6, 8, 10]'
+      expectedOutput: '[2, 4, 6, 8, 10]',
+      ...withTests({
+        testHarness: 'console.log(JSON.stringify(doubled))',
+        testCases: [
+          { id: 't1', input: '', expectedOutput: '[2,4,6,8,10]', description: 'doubled holds every number times two' },
+        ],
+      })
     },
     {
       id: '8',
@@ -1019,7 +1080,22 @@ function generateJavaScriptExercises(languageId: string, difficulty: 'easy' | 'm
       starterCode: `// Create your calculator functions`,
       solution: `function add(a, b) { return a + b; }\nfunction subtract(a, b) { return a - b; }\nfunction multiply(a, b) { return a * b; }\nfunction divide(a, b) { return a / b; }`,
       hint: 'Each function takes two parameters and returns the result',
-      expectedOutput: 'All calculator operations work'
+      expectedOutput: 'All calculator operations work',
+      ...withTests({
+        testHarness: jsTestHarness(
+          "const [op, a, b] = input.split(' ')",
+          'const operations = { add, subtract, multiply, divide }',
+          'console.log(operations[op](Number(a), Number(b)))'
+        ),
+        testCases: [
+          { id: 't1', input: 'add 2 3', expectedOutput: '5', description: 'add(2, 3)' },
+          { id: 't2', input: 'subtract 10 4', expectedOutput: '6', description: 'subtract(10, 4)' },
+          { id: 't3', input: 'multiply 6 7', expectedOutput: '42', description: 'multiply(6, 7)' },
+          { id: 't4', input: 'divide 9 3', expectedOutput: '3', description: 'divide(9, 3)' },
+          { id: 't5', input: 'subtract 3 8', expectedOutput: '-5', description: 'Negative result', hidden: true },
+          { id: 't6', input: 'divide 7 2', expectedOutput: '3.5', description: 'Non-integer division', hidden: true },
+        ],
+      })
     }
   ]
   } else if (difficulty === 'medium') {
@@ -1032,7 +1108,16 @@ function generateJavaScriptExercises(languageId: string, difficulty: 'easy' | 'm
         starterCode: `// Write arrow function here`,
         solution: `const square = (x) => x * x;`,
         hint: 'Use (param) => expression syntax',
-        expectedOutput: 'Arrow function that squares a number'
+        expectedOutput: 'Arrow function that squares a number',
+        ...withTests({
+          testHarness: jsTestHarness('console.log(square(Number(input)))'),
+          testCases: [
+            { id: 't1', input: '4', expectedOutput: '16', description: 'square(4)' },
+            { id: 't2', input: '0', expectedOutput: '0', description: 'square(0)' },
+            { id: 't3', input: '-3', expectedOutput: '9', description: 'Negative number', hidden: true },
+            { id: 't4', input: '1.5', expectedOutput: '2.25', description: 'Decimal number', hidden: true },
+          ],
+        })
       },
       {
         id: 'm2',
@@ -1040,6 +1125,7 @@ function generateJavaScriptExercises(languageId: string, difficulty: 'easy' | 'm
         description: 'Use destructuring to extract array values.',
         instructions: 'Destructure [10, 20, 30] into variables a, b, c',
         starterCode: `const numbers = [10, 20, 30];\n// Destructure here`,
+        readOnlyLines: [[1, 1]],
         solution: `const numbers = [10, 20, 30];\nconst [a, b, c] = numbers;`,
         hint: 'Use [a, b, c] = array syntax',
         expectedOutput: 'Variables a=10, b=20, c=30'
@@ -1050,6 +1136,7 @@ function generateJavaScriptExercises(languageId: string, difficulty: 'easy' | 'm
         description: 'Extract object properties.',
         instructions: 'Destructure name and age from person object',
         starterCode: `const person = { name: \"Alice\", age: 25, city: \"NYC\" };\n// Destructure name and age`,
+        readOnlyLines: [[1, 1]],
         solution: `const person = { name: \"Alice\", age: 25, city: \"NYC\" };\nconst { name, age } = person;`,
         hint: 'Use { property1, property2 } = object',
         expectedOutput: 'Extracted name and age variables'
@@ -1060,6 +1147,7 @@ function generateJavaScriptExercises(languageId: string, difficulty: 'easy' | 'm
         description: 'Use spread operator to combine arrays.',
         instructions: 'Combine [1, 2] and [3, 4] into one array using spread',
         starterCode: `const arr1 = [1, 2];\nconst arr2 = [3, 4];\n// Combine using spread`,
+        readOnlyLines: [[1, 2]],
         solution: `const arr1 = [1, 2];\nconst arr2 = [3, 4];\nconst combined = [...arr1, ...arr2];`,
         hint: 'Use [...array1, ...array2]',
         expectedOutput: '[1, 2, 3, 4]'
@@ -1070,9 +1158,16 @@ function generateJavaScriptExercises(languageId: string, difficulty: 'easy' | 'm
         description: 'Filter array elements.',
         instructions: 'Filter numbers array to get only even numbers',
         starterCode: `const numbers = [1, 2, 3, 4, 5, 6];\n// Filter even numbers`,
+        readOnlyLines: [[1, 1]],
         solution: `const numbers = [1, 2, 3, 4, 5, 6];\nconst evens = numbers.filter(n => n % 2 === 0);`,
         hint: 'Use .filter(n => n % 2 === 0)',
-        expectedOutput: '[2, 4, 6]'
+        expectedOutput: '[2, 4, 6]',
+        ...withTests({
+          testHarness: 'console.log(JSON.stringify(evens))',
+          testCases: [
+            { id: 't1', input: '', expectedOutput: '[2,4,6]', description: 'evens holds only the even numbers' },
+          ],
+        })
       },
       {
         id: 'm6',
@@ -1080,9 +1175,16 @@ function generateJavaScriptExercises(languageId: string, difficulty: 'easy' | 'm
         description: 'Sum array elements using reduce.',
         instructions: 'Use reduce to sum all numbers in array',
         starterCode: `const numbers = [1, 2, 3, 4, 5];\n// Use reduce to sum`,
+        readOnlyLines: [[1, 1]],
         solution: `const numbers = [1, 2, 3, 4, 5];\nconst sum = numbers.reduce((acc, n) => acc + n, 0);`,
         hint: 'Use .reduce((accumulator, current) => accumulator + current, 0)',
-        expectedOutput: '15'
+        expectedOutput: '15',
+        ...withTests({
+          testHarness: 'console.log(sum)',
+          testCases: [
+            { id: 't1', input: '', expectedOutput: '15', description: 'sum holds the total of the array' },
+          ],
+        })
       },
     ]
   } else {
@@ -1116,7 +1218,21 @@ function generateJavaScriptExercises(languageId: string, difficulty: 'easy' | 'm
         starterCode: `// Create closure`,
         solution: `function createCounter() {\n  let count = 0;\n  return {\n    increment: () => ++count,\n    decrement: () => --count,\n    getCount: () => count\n  };\n}`,
         hint: 'Return an object with methods that access outer variable',
-        expectedOutput: 'Counter with private state'
+        expectedOutput: 'Counter with private state',
+        ...withTests({
+          testHarness: jsTestHarness(
+            'const counter = createCounter()',
+            'const other = createCounter()',
+            'for (const command of input.split(/\\s+/).filter(Boolean)) counter[command]()',
+            'console.log(counter.getCount())',
+            'console.log(other.getCount())'
+          ),
+          testCases: [
+            { id: 't1', input: 'increment increment increment', expectedOutput: '3\n0', description: 'Counts up; a second counter is unaffected' },
+            { id: 't2', input: 'increment decrement decrement', expectedOutput: '-1\n0', description: 'Counts down below zero' },
+            { id: 't3', input: '', expectedOutput: '0\n0', description: 'Starts at zero', hidden: true },
+          ],
+        })
       },
       {
         id: 'h4',
@@ -1126,7 +1242,18 @@ function generateJavaScriptExercises(languageId: string, difficulty: 'easy' | 'm
         starterCode: `// Create classes`,
         solution: `class Animal {\n  constructor(name) {\n    this.name = name;\n  }\n  speak() {\n    return \`\${this.name} makes a sound\`;\n  }\n}\n\nclass Dog extends Animal {\n  speak() {\n    return \`\${this.name} barks\`;\n  }\n}`,
         hint: 'Use class, constructor, extends',
-        expectedOutput: 'Dog class extending Animal'
+        expectedOutput: 'Dog class extending Animal',
+        ...withTests({
+          testHarness: jsTestHarness(
+            'console.log(new Dog(input).speak())',
+            'console.log(new Animal(input).speak())',
+            'console.log(new Dog(input) instanceof Animal)'
+          ),
+          testCases: [
+            { id: 't1', input: 'Rex', expectedOutput: 'Rex barks\nRex makes a sound\ntrue', description: 'Dog overrides speak()' },
+            { id: 't2', input: 'Luna', expectedOutput: 'Luna barks\nLuna makes a sound\ntrue', description: 'Uses the given name', hidden: true },
+          ],
+        })
       },
       {
         id: 'h5',
@@ -1136,7 +1263,20 @@ function generateJavaScriptExercises(languageId: string, difficulty: 'easy' | 'm
         starterCode: `// Create debounce function`,
         solution: `function debounce(func, delay) {\n  let timeoutId;\n  return function(...args) {\n    clearTimeout(timeoutId);\n    timeoutId = setTimeout(() => func.apply(this, args), delay);\n  };\n}`,
         hint: 'Use setTimeout and clearTimeout',
-        expectedOutput: 'Debounced function'
+        expectedOutput: 'Debounced function',
+        ...withTests({
+          testHarness: jsTestHarness(
+            'const log = debounce(value => console.log(value), 50)',
+            "log('first')",
+            "log('second')",
+            'log(input)',
+            "setTimeout(() => console.log('done'), 100)"
+          ),
+          testCases: [
+            { id: 't1', input: 'last', expectedOutput: 'last\ndone', description: 'Only the last call runs, after the delay' },
+            { id: 't2', input: 'final value', expectedOutput: 'final value\ndone', description: 'Passes arguments through', hidden: true },
+          ],
+        })
       },
       {
         id: 'h6',
@@ -1146,7 +1286,13 @@ function generateJavaScriptExercises(languageId: string, difficulty: 'easy' | 'm
         starterCode: `// Create iterable object`,
         solution: `const range = {\n  from: 1,\n  to: 5,\n  [Symbol.iterator]() {\n    return {\n      current: this.from,\n      last: this.to,\n      next() {\n        if (this.current <= this.last) {\n          return { done: false, value: this.current++ };\n        } else {\n          return { done: true };\n        }\n      }\n    };\n  }\n};`,
         hint: 'Implement [Symbol.iterator]() with next() method',
-        expectedOutput: 'Iterable range object'
+        expectedOutput: 'Iterable range object',
+        ...withTests({
+          testHarness: "console.log([...range].join(' '))",
+          testCases: [
+            { id: 't1', input: '', expectedOutput: '1 2 3 4 5', description: 'Iterates from 1 to 5' },
+          ],
+        })
       },
     ]
   }
@@ -1179,7 +1325,13 @@ function generateGeneralPurposeExercises(languageId: string, languageName: strin
         starterCode: `# Define your function here`,
         solution: `def greet(name):\n    return f"Hello, {name}!"`,
         hint: 'Use def function_name(params):',
-        expectedOutput: 'Function returns greeting'
+        expectedOutput: 'Function returns greeting',
+        testHarness: 'print(greet(input()))',
+        testCases: [
+          { id: 't1', input: 'Alice', expectedOutput: 'Hello, Alice!', description: 'Greets Alice' },
+          { id: 't2', input: 'Bob', expectedOutput: 'Hello, Bob!', description: 'Greets Bob' },
+          { id: 't3', input: 'Ada Lovelace', expectedOutput: 'Hello, Ada Lovelace!', description: 'Greets a full name', hidden: true },
+        ]
       },
       {
         id: '3',
@@ -1187,9 +1339,17 @@ function generateGeneralPurposeExercises(languageId: string, languageName: strin
         description: 'Use conditional statements.',
         instructions: 'Write a function is_adult(age) that returns True if age >= 18',
         starterCode: `def is_adult(age):\n    # Write your if/else here`,
+        readOnlyLines: [[1, 1]],
         solution: `def is_adult(age):\n    if age >= 18:\n        return True\n    else:\n        return False`,
         hint: 'Remember Python uses indentation',
-        expectedOutput: 'Returns True/False based on age'
+        expectedOutput: 'Returns True/False based on age',
+        testHarness: 'print(is_adult(int(input())))',
+        testCases: [
+          { id: 't1', input: '30', expectedOutput: 'True', description: 'Adult age' },
+          { id: 't2', input: '12', expectedOutput: 'False', description: 'Child age' },
+          { id: 't3', input: '18', expectedOutput: 'True', description: 'Exactly 18', hidden: true },
+          { id: 't4', input: '17', expectedOutput: 'False', description: 'Just under 18', hidden: true },
+        ]
       },
       {
         id: '4',
@@ -1197,9 +1357,14 @@ function generateGeneralPurposeExercises(languageId: string, languageName: strin
         description: 'Loop through a range.',
         instructions: 'Write a function that prints numbers 1 to 5 using a for loop',
         starterCode: `def print_numbers():\n    # Write your loop here`,
+        readOnlyLines: [[1, 1]],
         solution: `def print_numbers():\n    for i in range(1, 6):\n        print(i)`,
         hint: 'Use for i in range(1, 6):',
-        expectedOutput: 'Prints 1, 2, 3, 4, 5'
+        expectedOutput: 'Prints 1, 2, 3, 4, 5',
+        testHarness: 'print_numbers()',
+        testCases: [
+          { id: 't1', input: '', expectedOutput: '1\n2\n3\n4\n5', description: 'Prints 1 to 5, one per line' },
+        ]
       },
       {
         id: '5',
@@ -1207,6 +1372,7 @@ function generateGeneralPurposeExercises(languageId: string, languageName: strin
         description: 'Work with Python lists.',
         instructions: 'Create a list of fruits and add "grape" using append()',
         starterCode: `fruits = ["apple", "banana", "orange"]\n# Add grape to the list`,
+        readOnlyLines: [[1, 1]],
         solution: `fruits = ["apple", "banana", "orange"]\nfruits.append("grape")`,
         hint: 'Use list.append(item)',
         expectedOutput: 'List contains 4 fruits'
@@ -1229,7 +1395,12 @@ function generateGeneralPurposeExercises(languageId: string, languageName: strin
         starterCode: `# Define your class here`,
         solution: `class Person:\n    def __init__(self, name):\n        self.name = name\n    \n    def greet(self):\n        return f"Hi, I'm {self.name}"`,
         hint: 'Use class ClassName: and def __init__(self):',
-        expectedOutput: 'Person class with name and greet method'
+        expectedOutput: 'Person class with name and greet method',
+        testHarness: 'print(Person(input()).greet())',
+        testCases: [
+          { id: 't1', input: 'Alice', expectedOutput: "Hi, I'm Alice", description: 'Greets with the stored name' },
+          { id: 't2', input: 'Grace', expectedOutput: "Hi, I'm Grace", description: 'Uses the name passed to __init__', hidden: true },
+        ]
       },
       {
         id: '8',
@@ -1252,7 +1423,11 @@ function generateGeneralPurposeExercises(languageId: string, languageName: strin
           starterCode: `# Use list comprehension`,
           solution: `squares = [x**2 for x in range(1, 11)]`,
           hint: 'Use [expression for item in range()]',
-          expectedOutput: 'List of squares [1, 4, 9, ...]'
+          expectedOutput: 'List of squares [1, 4, 9, ...]',
+          testHarness: 'print(squares)',
+          testCases: [
+            { id: 't1', input: '', expectedOutput: '[1, 4, 9, 16, 25, 36, 49, 64, 81, 100]', description: 'squares holds 1² to 10²' },
+          ]
         },
         {
           id: 'm2',
@@ -1262,17 +1437,26 @@ function generateGeneralPurposeExercises(languageId: string, languageName: strin
           starterCode: `# Dict comprehension`,
           solution: `squares_dict = {x: x**2 for x in range(1, 6)}`,
           hint: 'Use {key: value for item in range()}',
-          expectedOutput: '{1: 1, 2: 4, 3: 9, 4: 16, 5: 25}'
+          expectedOutput: '{1: 1, 2: 4, 3: 9, 4: 16, 5: 25}',
+          testHarness: 'print(squares_dict)',
+          testCases: [
+            { id: 't1', input: '', expectedOutput: '{1: 1, 2: 4, 3: 9, 4: 16, 5: 25}', description: 'squares_dict maps 1-5 to their squares' },
+          ]
         },
         {
           id: 'm3',
           title: 'Lambda Functions',
           description: 'Use lambda expressions.',
           instructions: 'Sort list of tuples by second element using lambda',
-          starterCode: `data = [(\"Alice\", 25), (\"Bob\", 30), (\"Charlie\", 20)]\\n# Sort by age`,
-          solution: `data = [(\"Alice\", 25), (\"Bob\", 30), (\"Charlie\", 20)]\\nsorted_data = sorted(data, key=lambda x: x[1])`,
+          starterCode: `data = [(\"Alice\", 25), (\"Bob\", 30), (\"Charlie\", 20)]\n# Sort by age`,
+          readOnlyLines: [[1, 1]],
+          solution: `data = [(\"Alice\", 25), (\"Bob\", 30), (\"Charlie\", 20)]\nsorted_data = sorted(data, key=lambda x: x[1])`,
           hint: 'Use sorted(list, key=lambda x: x[1])',
-          expectedOutput: 'Sorted by age: Charlie, Alice, Bob'
+          expectedOutput: 'Sorted by age: Charlie, Alice, Bob',
+          testHarness: 'print(sorted_data)',
+          testCases: [
+            { id: 't1', input: '', expectedOutput: "[('Charlie', 20), ('Alice', 25), ('Bob', 30)]", description: 'sorted_data is ordered by age' },
+          ]
         },
         {
           id: 'm4',
@@ -1280,7 +1464,7 @@ function generateGeneralPurposeExercises(languageId: string, languageName: strin
           description: 'Read and write files.',
           instructions: 'Read from input.txt and write uppercase to output.txt',
           starterCode: `# File operations`,
-          solution: `with open(\"input.txt\", \"r\") as f:\\n    content = f.read()\\n\\nwith open(\"output.txt\", \"w\") as f:\\n    f.write(content.upper())`,
+          solution: `with open(\"input.txt\", \"r\") as f:\n    content = f.read()\n\nwith open(\"output.txt\", \"w\") as f:\n    f.write(content.upper())`,
           hint: 'Use with open() context manager',
           expectedOutput: 'File content copied and uppercased'
         },
@@ -1290,7 +1474,7 @@ function generateGeneralPurposeExercises(languageId: string, languageName: strin
           description: 'Handle errors gracefully.',
           instructions: 'Try to convert string to int with error handling',
           starterCode: `# Try/except`,
-          solution: `try:\\n    num = int(\"abc\")\\nexcept ValueError as e:\\n    print(f\"Error: {e}\")\\n    num = 0`,
+          solution: `try:\n    num = int(\"abc\")\nexcept ValueError as e:\n    print(f\"Error: {e}\")\n    num = 0`,
           hint: 'Use try/except ValueError',
           expectedOutput: 'Error caught and handled'
         },
@@ -1299,10 +1483,14 @@ function generateGeneralPurposeExercises(languageId: string, languageName: strin
           title: 'Regular Expressions',
           description: 'Match patterns in strings.',
           instructions: 'Extract all email addresses from text using regex',
-          starterCode: `import re\\n# Find emails`,
-          solution: `import re\\ntext = \"Contact: alice@example.com or bob@test.com\"\\nemails = re.findall(r'[\\w.-]+@[\\w.-]+', text)`,
+          starterCode: `import re\n# Find emails`,
+          solution: `import re\ntext = \"Contact: alice@example.com or bob@test.com\"\nemails = re.findall(r'[\\w.-]+@[\\w.-]+', text)`,
           hint: 'Use re.findall() with email pattern',
-          expectedOutput: 'List of email addresses'
+          expectedOutput: 'List of email addresses',
+          testHarness: 'print(emails)',
+          testCases: [
+            { id: 't1', input: '', expectedOutput: "['alice@example.com', 'bob@test.com']", description: 'emails holds both addresses' },
+          ]
         },
       ]
     } else {
@@ -1314,7 +1502,7 @@ function generateGeneralPurposeExercises(languageId: string, languageName: strin
           description: 'Create custom decorator.',
           instructions: 'Create a timing decorator that measures function execution time',
           starterCode: `# Create decorator`,
-          solution: `import time\\nfrom functools import wraps\\n\\ndef timer(func):\\n    @wraps(func)\\n    def wrapper(*args, **kwargs):\\n        start = time.time()\\n        result = func(*args, **kwargs)\\n        end = time.time()\\n        print(f\"{func.__name__} took {end-start:.4f}s\")\\n        return result\\n    return wrapper\\n\\n@timer\\ndef slow_function():\\n    time.sleep(1)`,
+          solution: `import time\nfrom functools import wraps\n\ndef timer(func):\n    @wraps(func)\n    def wrapper(*args, **kwargs):\n        start = time.time()\n        result = func(*args, **kwargs)\n        end = time.time()\n        print(f\"{func.__name__} took {end-start:.4f}s\")\n        return result\n    return wrapper\n\n@timer\ndef slow_function():\n    time.sleep(1)`,
           hint: 'Use @wraps and return wrapper function',
           expectedOutput: 'Decorator measures execution time'
         },
@@ -1324,9 +1512,12 @@ function generateGeneralPurposeExercises(languageId: string, languageName: strin
           description: 'Create generator function.',
           instructions: 'Create Fibonacci generator using yield',
           starterCode: `# Create generator`,
-          solution: `def fibonacci():\\n    a, b = 0, 1\\n    while True:\\n        yield a\\n        a, b = b, a + b\\n\\nfib = fibonacci()\\nfor _ in range(10):\\n    print(next(fib))`,
+          solution: `def fibonacci():\n    a, b = 0, 1\n    while True:\n        yield a\n        a, b = b, a + b\n\nfib = fibonacci()\nfor _ in range(10):\n    print(next(fib))`,
           hint: 'Use yield keyword',
-          expectedOutput: 'Fibonacci sequence: 0, 1, 1, 2, 3, 5...'
+          expectedOutput: 'Fibonacci sequence: 0, 1, 1, 2, 3, 5...',
+          testCases: [
+            { id: 't1', input: '', expectedOutput: '0\n1\n1\n2\n3\n5\n8\n13\n21\n34', description: 'Prints the first 10 Fibonacci numbers' },
+          ]
         },
         {
           id: 'h3',
@@ -1334,7 +1525,7 @@ function generateGeneralPurposeExercises(languageId: string, languageName: strin
           description: 'Use metaclass to modify class behavior.',
           instructions: 'Create metaclass that logs method calls',
           starterCode: `# Create metaclass`,
-          solution: `class LoggingMeta(type):\\n    def __new__(cls, name, bases, dct):\\n        for key, value in dct.items():\\n            if callable(value):\\n                dct[key] = cls.log_calls(value)\\n        return super().__new__(cls, name, bases, dct)\\n    \\n    @staticmethod\\n    def log_calls(func):\\n        def wrapper(*args, **kwargs):\\n            print(f\"Calling {func.__name__}\")\\n            return func(*args, **kwargs)\\n        return wrapper`,
+          solution: `class LoggingMeta(type):\n    def __new__(cls, name, bases, dct):\n        for key, value in dct.items():\n            if callable(value):\n                dct[key] = cls.log_calls(value)\n        return super().__new__(cls, name, bases, dct)\n    \n    @staticmethod\n    def log_calls(func):\n        def wrapper(*args, **kwargs):\n            print(f\"Calling {func.__name__}\")\n            return func(*args, **kwargs)\n        return wrapper`,
           hint: 'Override __new__ in metaclass',
           expectedOutput: 'Metaclass logs all method calls'
         },
@@ -1344,9 +1535,12 @@ function generateGeneralPurposeExercises(languageId: string, languageName: strin
           description: 'Create custom context manager.',
           instructions: 'Create context manager for database connection',
           starterCode: `# Create context manager`,
-          solution: `class DatabaseConnection:\\n    def __enter__(self):\\n        print(\"Opening connection\")\\n        return self\\n    \\n    def __exit__(self, exc_type, exc_val, exc_tb):\\n        print(\"Closing connection\")\\n        return False\\n\\nwith DatabaseConnection() as db:\\n    print(\"Using database\")`,
+          solution: `class DatabaseConnection:\n    def __enter__(self):\n        print(\"Opening connection\")\n        return self\n    \n    def __exit__(self, exc_type, exc_val, exc_tb):\n        print(\"Closing connection\")\n        return False\n\nwith DatabaseConnection() as db:\n    print(\"Using database\")`,
           hint: 'Implement __enter__ and __exit__',
-          expectedOutput: 'Resource management with cleanup'
+          expectedOutput: 'Resource management with cleanup',
+          testCases: [
+            { id: 't1', input: '', expectedOutput: 'Opening connection\nUsing database\nClosing connection', description: 'Opens, uses, then closes the connection' },
+          ]
         },
         {
           id: 'h5',
@@ -1354,7 +1548,7 @@ function generateGeneralPurposeExercises(languageId: string, languageName: strin
           description: 'Create and manage threads.',
           instructions: 'Create producer-consumer with thread synchronization',
           starterCode: `# Create threads`,
-          solution: `from threading import Thread\\nfrom queue import Queue\\n\\nqueue = Queue()\\n\\ndef producer():\\n    for i in range(5):\\n        queue.put(i)\\n\\ndef consumer():\\n    while True:\\n        item = queue.get()\\n        if item is None:\\n            break\\n        print(f\"Consumed {item}\")`,
+          solution: `from threading import Thread\nfrom queue import Queue\n\nqueue = Queue()\n\ndef producer():\n    for i in range(5):\n        queue.put(i)\n\ndef consumer():\n    while True:\n        item = queue.get()\n        if item is None:\n            break\n        print(f\"Consumed {item}\")`,
           hint: 'Use Queue and Thread for synchronization',
           expectedOutput: 'Thread-safe producer-consumer pattern'
         },
@@ -1364,9 +1558,26 @@ function generateGeneralPurposeExercises(languageId: string, languageName: strin
           description: 'Implement LRU Cache.',
           instructions: 'Create LRU Cache using OrderedDict',
           starterCode: `# Create LRU Cache`,
-          solution: `from collections import OrderedDict\\n\\nclass LRUCache:\\n    def __init__(self, capacity):\\n        self.cache = OrderedDict()\\n        self.capacity = capacity\\n    \\n    def get(self, key):\\n        if key not in self.cache:\\n            return -1\\n        self.cache.move_to_end(key)\\n        return self.cache[key]\\n    \\n    def put(self, key, value):\\n        if key in self.cache:\\n            self.cache.move_to_end(key)\\n        self.cache[key] = value\\n        if len(self.cache) > self.capacity:\\n            self.cache.popitem(last=False)`,
+          solution: `from collections import OrderedDict\n\nclass LRUCache:\n    def __init__(self, capacity):\n        self.cache = OrderedDict()\n        self.capacity = capacity\n    \n    def get(self, key):\n        if key not in self.cache:\n            return -1\n        self.cache.move_to_end(key)\n        return self.cache[key]\n    \n    def put(self, key, value):\n        if key in self.cache:\n            self.cache.move_to_end(key)\n        self.cache[key] = value\n        if len(self.cache) > self.capacity:\n            self.cache.popitem(last=False)`,
           hint: 'Use OrderedDict and move_to_end',
-          expectedOutput: 'LRU Cache with O(1) operations'
+          expectedOutput: 'LRU Cache with O(1) operations',
+          testHarness: [
+            'import sys',
+            'cache = None',
+            'for line in sys.stdin.read().splitlines():',
+            '    parts = line.split()',
+            "    if parts[0] == 'capacity':",
+            '        cache = LRUCache(int(parts[1]))',
+            "    elif parts[0] == 'put':",
+            '        cache.put(int(parts[1]), int(parts[2]))',
+            "    elif parts[0] == 'get':",
+            '        print(cache.get(int(parts[1])))',
+          ].join('\n'),
+          testCases: [
+            { id: 't1', input: 'capacity 2\nput 1 1\nput 2 2\nget 1\nput 3 3\nget 2\nget 3', expectedOutput: '1\n-1\n3', description: 'Evicts the least recently used key' },
+            { id: 't2', input: 'capacity 2\nget 5', expectedOutput: '-1', description: 'Missing key returns -1' },
+            { id: 't3', input: 'capacity 1\nput 1 10\nput 1 11\nget 1\nput 2 20\nget 1\nget 2', expectedOutput: '11\n-1\n20', description: 'Updating a key keeps capacity', hidden: true },
+          ]
         },
       ]
     }
@@ -1606,6 +1817,7 @@ function generateReactExercises(difficulty: 'easy' | 'medium' | 'hard'): Sandbox
         description: 'Pass data to components.',
         instructions: 'Create Greeting component that takes a name prop',
         starterCode: `function Greeting(props) {\n  // Use props.name\n}`,
+        readOnlyLines: [[1, 1], [3, 3]],
         solution: `function Greeting(props) {\n  return <h1>Hello, {props.name}!</h1>;\n}`,
         hint: 'Access props with curly braces in JSX',
         expectedOutput: 'Displays greeting with name'
@@ -2399,12 +2611,348 @@ function generateRExercises(difficulty: 'easy' | 'medium' | 'hard'): SandboxExer
   })
 }
 
+// ============================================
+// SQL EXERCISES (run against a seeded in-memory database)
+// ============================================
+const SQL_STUDENTS: DatabaseTable = {
+  name: 'students',
+  columns: [
+    { name: 'id', type: 'INTEGER', primaryKey: true },
+    { name: 'name', type: 'TEXT' },
+    { name: 'age', type: 'INTEGER' },
+    { name: 'grade', type: 'REAL' },
+    { name: 'city', type: 'TEXT' }
+  ],
+  rows: [
+    [1, 'Ana', 20, 91.5, 'Lahore'],
+    [2, 'Ben', 22, 78, 'Karachi'],
+    [3, 'Chen', 19, 85, 'Lahore'],
+    [4, 'Dina', 21, 64.5, 'Islamabad'],
+    [5, 'Eli', 23, 88, 'Karachi'],
+    [6, 'Fatima', 20, 95, 'Islamabad']
+  ]
+}
+
+const SQL_COURSES: DatabaseTable = {
+  name: 'courses',
+  columns: [
+    { name: 'id', type: 'INTEGER', primaryKey: true },
+    { name: 'title', type: 'TEXT' },
+    { name: 'credits', type: 'INTEGER' }
+  ],
+  rows: [
+    [1, 'Databases', 4],
+    [2, 'Web Development', 3],
+    [3, 'Statistics', 3],
+    [4, 'Algorithms', 4]
+  ]
+}
+
+const SQL_ENROLLMENTS: DatabaseTable = {
+  name: 'enrollments',
+  columns: [
+    { name: 'student_id', type: 'INTEGER' },
+    { name: 'course_id', type: 'INTEGER' },
+    { name: 'score', type: 'INTEGER' }
+  ],
+  rows: [
+    [1, 1, 92], [1, 2, 88], [2, 1, 75], [3, 3, 81], [3, 4, 90],
+    [4, 2, 60], [5, 1, 85], [5, 4, 79], [6, 3, 97], [6, 1, 94]
+  ]
+}
+
+const SQL_CUSTOMERS: DatabaseTable = {
+  name: 'customers',
+  columns: [
+    { name: 'id', type: 'INTEGER', primaryKey: true },
+    { name: 'name', type: 'TEXT' },
+    { name: 'country', type: 'TEXT' }
+  ],
+  rows: [
+    [1, 'Acme Corp', 'USA'],
+    [2, 'Globex', 'UK'],
+    [3, 'Initech', 'USA'],
+    [4, 'Umbrella', 'Japan']
+  ]
+}
+
+const SQL_ORDERS: DatabaseTable = {
+  name: 'orders',
+  columns: [
+    { name: 'id', type: 'INTEGER', primaryKey: true },
+    { name: 'customer_id', type: 'INTEGER' },
+    { name: 'amount', type: 'REAL' },
+    { name: 'order_date', type: 'DATE' }
+  ],
+  rows: [
+    [1, 1, 250, '2024-01-05'],
+    [2, 2, 120, '2024-01-07'],
+    [3, 1, 400, '2024-02-11'],
+    [4, 3, 75, '2024-02-15'],
+    [5, 4, 610, '2024-03-02'],
+    [6, 2, 90, '2024-03-09'],
+    [7, 3, 300, '2024-03-20']
+  ]
+}
+
+const SQL_EMPLOYEES: DatabaseTable = {
+  name: 'employees',
+  columns: [
+    { name: 'id', type: 'INTEGER', primaryKey: true },
+    { name: 'name', type: 'TEXT' },
+    { name: 'department', type: 'TEXT' },
+    { name: 'salary', type: 'INTEGER' },
+    { name: 'manager_id', type: 'INTEGER' }
+  ],
+  rows: [
+    [1, 'Sara', 'Engineering', 120000, null],
+    [2, 'Omar', 'Engineering', 95000, 1],
+    [3, 'Lena', 'Engineering', 99000, 1],
+    [4, 'Raj', 'Sales', 70000, 1],
+    [5, 'Mia', 'Sales', 72000, 4],
+    [6, 'Tom', 'Sales', 65000, 4],
+    [7, 'Ivy', 'Engineering', 88000, 2]
+  ]
+}
+
+const SQL_ACCOUNTS: DatabaseTable = {
+  name: 'accounts',
+  columns: [
+    { name: 'id', type: 'INTEGER', primaryKey: true },
+    { name: 'owner', type: 'TEXT' },
+    { name: 'balance', type: 'REAL' }
+  ],
+  rows: [
+    [1, 'Ana', 500],
+    [2, 'Ben', 200]
+  ]
+}
+
+const SQL_GRADE_LOG: DatabaseTable = {
+  name: 'grade_log',
+  columns: [
+    { name: 'student_id', type: 'INTEGER' },
+    { name: 'old_grade', type: 'REAL' },
+    { name: 'new_grade', type: 'REAL' }
+  ],
+  rows: []
+}
+
 function generateSQLExercises(difficulty: 'easy' | 'medium' | 'hard'): SandboxExercise[] {
-  return generateLanguageTemplate('SQL', 'sql', difficulty, {
-    easy: { concepts: ['SELECT', 'WHERE', 'INSERT', 'UPDATE', 'DELETE', 'JOIN'] },
-    medium: { concepts: ['Subqueries', 'GROUP BY', 'HAVING', 'Indexes', 'Views', 'Transactions'] },
-    hard: { concepts: ['CTEs', 'Window Functions', 'Query Optimization', 'Stored Procedures', 'Triggers', 'Partitioning'] }
-  })
+  if (difficulty === 'easy') {
+    return [
+      {
+        id: '1',
+        title: 'SELECT',
+        description: 'Read every row from a table.',
+        instructions: 'Select all columns from the students table.',
+        starterCode: `-- Tables: students(id, name, age, grade, city)\n-- Write your query here\n`,
+        solution: `SELECT * FROM students;`,
+        hint: 'SELECT * returns every column',
+        expectedOutput: 'All 6 students',
+        database: { tables: [SQL_STUDENTS] }
+      },
+      {
+        id: '2',
+        title: 'WHERE',
+        description: 'Filter rows with conditions.',
+        instructions: 'Return the name and grade of students from Lahore with a grade above 80.',
+        starterCode: `-- Tables: students(id, name, age, grade, city)\nSELECT name, grade\nFROM students\n-- Add your WHERE clause\n`,
+        solution: `SELECT name, grade FROM students WHERE city = 'Lahore' AND grade > 80;`,
+        hint: "Combine two conditions with AND, and put text values in single quotes: city = 'Lahore'",
+        expectedOutput: 'Ana and Chen',
+        database: { tables: [SQL_STUDENTS] }
+      },
+      {
+        id: '3',
+        title: 'INSERT',
+        description: 'Add a new row to a table.',
+        instructions: 'Insert a student with id 7, name "Gus", age 24, grade 72 and city "Karachi".',
+        starterCode: `-- Tables: students(id, name, age, grade, city)\n-- Insert the new student here\n`,
+        solution: `INSERT INTO students (id, name, age, grade, city) VALUES (7, 'Gus', 24, 72, 'Karachi');`,
+        hint: 'INSERT INTO table (columns) VALUES (values);',
+        expectedOutput: 'The students table has 7 rows',
+        database: { tables: [SQL_STUDENTS], checkQuery: 'SELECT * FROM students ORDER BY id', orderMatters: true }
+      },
+      {
+        id: '4',
+        title: 'UPDATE',
+        description: 'Change existing rows.',
+        instructions: "Dina retook her exam. Update Dina's grade to 70.",
+        starterCode: `-- Tables: students(id, name, age, grade, city)\n-- Update Dina's grade here\n`,
+        solution: `UPDATE students SET grade = 70 WHERE name = 'Dina';`,
+        hint: "Don't forget the WHERE clause, or every student gets a 70!",
+        expectedOutput: "Dina's grade is 70",
+        database: { tables: [SQL_STUDENTS], checkQuery: 'SELECT * FROM students ORDER BY id', orderMatters: true }
+      },
+      {
+        id: '5',
+        title: 'DELETE',
+        description: 'Remove rows from a table.',
+        instructions: 'Delete every student whose grade is below 70.',
+        starterCode: `-- Tables: students(id, name, age, grade, city)\n-- Delete the students here\n`,
+        solution: `DELETE FROM students WHERE grade < 70;`,
+        hint: 'DELETE FROM table WHERE condition;',
+        expectedOutput: '5 students remain',
+        database: { tables: [SQL_STUDENTS], checkQuery: 'SELECT * FROM students ORDER BY id', orderMatters: true }
+      },
+      {
+        id: '6',
+        title: 'JOIN',
+        description: 'Combine rows from several tables.',
+        instructions: 'List every enrollment as the student name and the course title. Return two columns: name and title.',
+        starterCode: `-- Tables: students(id, name, ...), courses(id, title, credits),\n--         enrollments(student_id, course_id, score)\nSELECT s.name, c.title\nFROM enrollments e\n-- Join students and courses here\n`,
+        solution: `SELECT s.name, c.title\nFROM enrollments e\nJOIN students s ON s.id = e.student_id\nJOIN courses c ON c.id = e.course_id;`,
+        hint: 'JOIN other_table ON other_table.id = e.foreign_key_column',
+        expectedOutput: '10 rows of student and course pairs',
+        database: { tables: [SQL_STUDENTS, SQL_COURSES, SQL_ENROLLMENTS] }
+      }
+    ]
+  } else if (difficulty === 'medium') {
+    return [
+      {
+        id: 'm1',
+        title: 'Subqueries',
+        description: 'Use the result of one query inside another.',
+        instructions: 'Return the name and grade of students whose grade is above the average grade of all students.',
+        starterCode: `-- Tables: students(id, name, age, grade, city)\nSELECT name, grade\nFROM students\nWHERE grade > -- subquery here\n`,
+        solution: `SELECT name, grade FROM students WHERE grade > (SELECT AVG(grade) FROM students);`,
+        hint: 'Put (SELECT AVG(grade) FROM students) on the right side of the comparison',
+        expectedOutput: 'Students above the class average',
+        database: { tables: [SQL_STUDENTS] }
+      },
+      {
+        id: 'm2',
+        title: 'GROUP BY',
+        description: 'Aggregate rows into groups.',
+        instructions: 'Count the students in each city. Return the columns city and student_count.',
+        starterCode: `-- Tables: students(id, name, age, grade, city)\n-- Count students per city\n`,
+        solution: `SELECT city, COUNT(*) AS student_count FROM students GROUP BY city;`,
+        hint: 'COUNT(*) AS student_count ... GROUP BY city',
+        expectedOutput: 'One row per city with 2 students each',
+        database: { tables: [SQL_STUDENTS] }
+      },
+      {
+        id: 'm3',
+        title: 'HAVING',
+        description: 'Filter groups after aggregating.',
+        instructions: 'Find customers whose orders add up to more than 500. Return the columns name and total.',
+        starterCode: `-- Tables: customers(id, name, country), orders(id, customer_id, amount, order_date)\n-- Sum order amounts per customer and keep totals over 500\n`,
+        solution: `SELECT c.name, SUM(o.amount) AS total\nFROM customers c\nJOIN orders o ON o.customer_id = c.id\nGROUP BY c.id\nHAVING SUM(o.amount) > 500;`,
+        hint: 'WHERE filters rows, HAVING filters groups: HAVING SUM(o.amount) > 500',
+        expectedOutput: 'Acme Corp and Umbrella',
+        database: { tables: [SQL_CUSTOMERS, SQL_ORDERS] }
+      },
+      {
+        id: 'm4',
+        title: 'Indexes',
+        description: 'Speed up lookups with an index.',
+        instructions: 'Create an index named idx_orders_customer on the customer_id column of orders.',
+        starterCode: `-- Tables: orders(id, customer_id, amount, order_date)\n-- Create your index here\n`,
+        solution: `CREATE INDEX idx_orders_customer ON orders (customer_id);`,
+        hint: 'CREATE INDEX index_name ON table (column);',
+        expectedOutput: 'idx_orders_customer exists on orders',
+        database: {
+          tables: [SQL_ORDERS],
+          checkQuery: "SELECT name, tbl_name FROM sqlite_master WHERE type = 'index' AND name NOT LIKE 'sqlite_%'"
+        }
+      },
+      {
+        id: 'm5',
+        title: 'Views',
+        description: 'Save a query as a virtual table.',
+        instructions: 'Create a view named top_students with the name and grade of students whose grade is 85 or higher.',
+        starterCode: `-- Tables: students(id, name, age, grade, city)\n-- Create the top_students view here\n`,
+        solution: `CREATE VIEW top_students AS\nSELECT name, grade FROM students WHERE grade >= 85;`,
+        hint: 'CREATE VIEW view_name AS SELECT ...;',
+        expectedOutput: 'top_students lists 4 students',
+        database: { tables: [SQL_STUDENTS], checkQuery: 'SELECT * FROM top_students' }
+      },
+      {
+        id: 'm6',
+        title: 'Transactions',
+        description: 'Group changes so they succeed or fail together.',
+        instructions: 'Inside a transaction, move 100 from Ana\'s account to Ben\'s account.',
+        starterCode: `-- Tables: accounts(id, owner, balance)\nBEGIN TRANSACTION;\n-- Move 100 from Ana to Ben\n\nCOMMIT;\n`,
+        solution: `BEGIN TRANSACTION;\nUPDATE accounts SET balance = balance - 100 WHERE owner = 'Ana';\nUPDATE accounts SET balance = balance + 100 WHERE owner = 'Ben';\nCOMMIT;`,
+        hint: 'Use two UPDATE statements between BEGIN and COMMIT',
+        expectedOutput: 'Ana has 400, Ben has 300',
+        database: { tables: [SQL_ACCOUNTS], checkQuery: 'SELECT * FROM accounts ORDER BY id', orderMatters: true }
+      }
+    ]
+  } else {
+    return [
+      {
+        id: 'h1',
+        title: 'CTEs',
+        description: 'Name intermediate results with WITH.',
+        instructions: 'Using a WITH clause, compute the average enrollment score per course. Return the columns title and avg_score.',
+        starterCode: `-- Tables: courses(id, title, credits), enrollments(student_id, course_id, score)\nWITH course_scores AS (\n  -- average score per course_id\n)\nSELECT ...\n`,
+        solution: `WITH course_scores AS (\n  SELECT course_id, AVG(score) AS avg_score\n  FROM enrollments\n  GROUP BY course_id\n)\nSELECT c.title, cs.avg_score\nFROM course_scores cs\nJOIN courses c ON c.id = cs.course_id;`,
+        hint: 'The CTE groups enrollments by course_id; the main query joins it to courses',
+        expectedOutput: 'One average per course',
+        database: { tables: [SQL_COURSES, SQL_ENROLLMENTS] }
+      },
+      {
+        id: 'h2',
+        title: 'Window Functions',
+        description: 'Rank rows within groups without collapsing them.',
+        instructions: 'Rank employees by salary within their department (highest = 1). Return name, department, salary and salary_rank.',
+        starterCode: `-- Tables: employees(id, name, department, salary, manager_id)\n-- Use RANK() OVER (...)\n`,
+        solution: `SELECT name, department, salary,\n  RANK() OVER (PARTITION BY department ORDER BY salary DESC) AS salary_rank\nFROM employees;`,
+        hint: 'RANK() OVER (PARTITION BY department ORDER BY salary DESC)',
+        expectedOutput: 'Every employee with their rank in the department',
+        database: { tables: [SQL_EMPLOYEES] }
+      },
+      {
+        id: 'h3',
+        title: 'Recursive Queries',
+        description: 'Walk a hierarchy with a recursive CTE.',
+        instructions: 'Find everyone who reports to Omar directly or indirectly, plus everyone under Raj. Return a single name column.',
+        starterCode: `-- Tables: employees(id, name, department, salary, manager_id)\nWITH RECURSIVE reports(id, name) AS (\n  -- start with the direct reports of Omar (id 2) and Raj (id 4)\n  -- then add the reports of those reports\n)\nSELECT name FROM reports;\n`,
+        solution: `WITH RECURSIVE reports(id, name) AS (\n  SELECT id, name FROM employees WHERE manager_id IN (2, 4)\n  UNION ALL\n  SELECT e.id, e.name FROM employees e JOIN reports r ON e.manager_id = r.id\n)\nSELECT name FROM reports;`,
+        hint: 'The recursive part joins employees to the CTE itself: e.manager_id = r.id',
+        expectedOutput: 'Ivy, Mia and Tom',
+        database: { tables: [SQL_EMPLOYEES] }
+      },
+      {
+        id: 'h4',
+        title: 'Triggers',
+        description: 'Run SQL automatically when data changes.',
+        instructions: 'Create a trigger named log_grade_change that inserts (student_id, old_grade, new_grade) into grade_log whenever a student\'s grade is updated.',
+        starterCode: `-- Tables: students(id, name, age, grade, city), grade_log(student_id, old_grade, new_grade)\nCREATE TRIGGER log_grade_change\nAFTER UPDATE OF grade ON students\nBEGIN\n  -- insert into grade_log using OLD and NEW\nEND;\n`,
+        solution: `CREATE TRIGGER log_grade_change\nAFTER UPDATE OF grade ON students\nBEGIN\n  INSERT INTO grade_log (student_id, old_grade, new_grade) VALUES (OLD.id, OLD.grade, NEW.grade);\nEND;`,
+        hint: 'Inside a trigger, OLD.column is the value before the update and NEW.column the value after',
+        expectedOutput: 'Updating a grade adds a row to grade_log',
+        database: {
+          tables: [SQL_STUDENTS, SQL_GRADE_LOG],
+          checkQuery: 'UPDATE students SET grade = 80 WHERE id = 2; SELECT * FROM grade_log'
+        }
+      },
+      {
+        id: 'h5',
+        title: 'CASE Expressions',
+        description: 'Derive values with conditional logic.',
+        instructions: 'Give every student a letter: A for 90+, B for 80+, C for 70+, otherwise F. Return the columns name and letter.',
+        starterCode: `-- Tables: students(id, name, age, grade, city)\nSELECT name,\n  CASE\n    -- WHEN ... THEN ...\n  END AS letter\nFROM students;\n`,
+        solution: `SELECT name,\n  CASE\n    WHEN grade >= 90 THEN 'A'\n    WHEN grade >= 80 THEN 'B'\n    WHEN grade >= 70 THEN 'C'\n    ELSE 'F'\n  END AS letter\nFROM students;`,
+        hint: 'CASE checks each WHEN in order and stops at the first match',
+        expectedOutput: 'A letter for each student',
+        database: { tables: [SQL_STUDENTS] }
+      },
+      {
+        id: 'h6',
+        title: 'Running Totals',
+        description: 'Accumulate values across ordered rows.',
+        instructions: 'List orders by order_date with a running total of the amount. Return id, order_date, amount and running_total, ordered by order_date.',
+        starterCode: `-- Tables: orders(id, customer_id, amount, order_date)\n-- Use SUM(...) OVER (ORDER BY ...)\n`,
+        solution: `SELECT id, order_date, amount,\n  SUM(amount) OVER (ORDER BY order_date) AS running_total\nFROM orders\nORDER BY order_date;`,
+        hint: 'SUM(amount) OVER (ORDER BY order_date) adds up all rows so far',
+        expectedOutput: 'Running total ending at 1845',
+        database: { tables: [SQL_ORDERS], orderMatters: true }
+      }
+    ]
+  }
 }
 
 function generateMongoDBExercises(difficulty: 'easy' | 'medium' | 'hard'): SandboxExercise[] {
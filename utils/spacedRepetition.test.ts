@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import {
+  FAILED_QUALITY,
+  REVIEW_RATINGS,
+  getDueCards,
+  recordMissedQuestion,
+  scheduleReview,
+  type ReviewCard,
+} from './spacedRepetition'
+
+const DAY_MS = 1000 * 60 * 60 * 24
+const NOW = Date.UTC(2026, 0, 1)
+
+function makeCard(overrides: Partial<ReviewCard> = {}): ReviewCard {
+  return {
+    moduleId: 'web-development',
+    languageId: 'html',
+    difficulty: 'easy',
+    questionId: 'q1',
+    easeFactor: 2.5,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+    dueAt: NOW,
+    lastReviewedAt: NOW,
+    ...overrides,
+  }
+}
+
+describe('scheduleReview', () => {
+  it('schedules passing reviews 1 day, 6 days, then interval x ease factor apart', () => {
+    const first = scheduleReview(makeCard(), REVIEW_RATINGS.good, NOW)
+    expect(first).toMatchObject({ repetitions: 1, interval: 1, dueAt: NOW + DAY_MS })
+
+    const second = scheduleReview(first, REVIEW_RATINGS.good, NOW)
+    expect(second).toMatchObject({ repetitions: 2, interval: 6 })
+
+    const third = scheduleReview(second, REVIEW_RATINGS.good, NOW)
+    expect(third).toMatchObject({ repetitions: 3, interval: Math.round(6 * second.easeFactor) })
+  })
+
+  it('adjusts the ease factor by rating, never below 1.3', () => {
+    expect(scheduleReview(makeCard(), REVIEW_RATINGS.easy, NOW).easeFactor).toBe(2.6)
+    expect(scheduleReview(makeCard(), REVIEW_RATINGS.good, NOW).easeFactor).toBe(2.5)
+    expect(scheduleReview(makeCard(), REVIEW_RATINGS.hard, NOW).easeFactor).toBe(2.36)
+    expect(scheduleReview(makeCard({ easeFactor: 1.3 }), FAILED_QUALITY, NOW).easeFactor).toBe(1.3)
+  })
+
+  it('restarts repetitions and counts a lapse on a failed review', () => {
+    const card = makeCard({ repetitions: 4, interval: 30, lapses: 1 })
+    expect(scheduleReview(card, FAILED_QUALITY, NOW)).toMatchObject({
+      repetitions: 0,
+      interval: 1,
+      lapses: 2,
+      dueAt: NOW + DAY_MS,
+      lastReviewedAt: NOW,
+    })
+  })
+})
+
+describe('recordMissedQuestion', () => {
+  it('creates a card due tomorrow for a newly missed question', () => {
+    const card = recordMissedQuestion(undefined, 'web-development', 'html', 'easy', 'q7', NOW)
+    expect(card).toMatchObject({ questionId: 'q7', repetitions: 0, lapses: 1, interval: 1, dueAt: NOW + DAY_MS })
+  })
+
+  it('fails the existing card for a question missed again', () => {
+    const existing = makeCard({ repetitions: 3, interval: 15, lapses: 2 })
+    expect(recordMissedQuestion(existing, 'web-development', 'html', 'easy', 'q1', NOW)).toMatchObject({
+      repetitions: 0,
+      lapses: 3,
+    })
+  })
+})
+
+describe('getDueCards', () => {
+  it('returns only due cards, most overdue first', () => {
+    const cards = {
+      later: makeCard({ dueAt: NOW + DAY_MS }),
+      today: makeCard({ dueAt: NOW }),
+      overdue: makeCard({ dueAt: NOW - DAY_MS }),
+    }
+    expect(getDueCards(cards, NOW).map(({ cardId }) => cardId)).toEqual(['overdue', 'today'])
+    expect(getDueCards(undefined, NOW)).toEqual([])
+  })
+})
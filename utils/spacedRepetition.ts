@@ -0,0 +1,136 @@
+// Spaced Repetition
+// SM-2 scheduling for review cards made from quiz questions missed in games
+
+import { generateProgressiveQuiz, type QuizQuestion } from './progressiveGameContent'
+import { getLanguageByModuleAndId } from './techModules'
+
+type Difficulty = 'easy' | 'medium' | 'hard'
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+// SM-2 constants
+const INITIAL_EASE_FACTOR = 2.5
+const MIN_EASE_FACTOR = 1.3
+// Answers rated below this restart the card's repetitions
+const PASSING_QUALITY = 3
+
+/**
+ * Review state for one quiz question, stored in the profile under reviewCards[cardId]
+ */
+export interface ReviewCard {
+  moduleId: string
+  languageId: string
+  difficulty: Difficulty
+  questionId: string
+  easeFactor: number
+  /** Days until the next review */
+  interval: number
+  /** Successful reviews in a row */
+  repetitions: number
+  /** Times the question was answered wrong (in a game or a review) */
+  lapses: number
+  /** Epoch ms when the card is next due */
+  dueAt: number
+  lastReviewedAt: number
+}
+
+/**
+ * How a learner rates a correct review answer, mapped to SM-2 quality
+ */
+export const REVIEW_RATINGS = {
+  hard: 3,
+  good: 4,
+  easy: 5,
+} as const
+
+export type ReviewRating = keyof typeof REVIEW_RATINGS
+
+// Quality recorded for a wrong answer
+export const FAILED_QUALITY = 1
+
+export function getReviewCardId(languageKey: string, difficulty: Difficulty, questionId: string): string {
+  return `${languageKey}:${difficulty}:${questionId}`
+}
+
+/**
+ * Apply one SM-2 review with quality 0-5 and schedule the next one
+ */
+export function scheduleReview(card: ReviewCard, quality: number, now: number = Date.now()): ReviewCard {
+  const passed = quality >= PASSING_QUALITY
+  const repetitions = passed ? card.repetitions + 1 : 0
+
+  let interval = 1
+  if (passed && repetitions === 2) interval = 6
+  else if (passed && repetitions > 2) interval = Math.round(card.interval * card.easeFactor)
+
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    card.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  )
+
+  return {
+    ...card,
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    interval,
+    repetitions,
+    lapses: passed ? card.lapses : card.lapses + 1,
+    dueAt: now + interval * DAY_MS,
+    lastReviewedAt: now,
+  }
+}
+
+/**
+ * Card for a question missed in a game: a new card (or the existing one) with a failed review
+ */
+export function recordMissedQuestion(
+  existing: ReviewCard | undefined,
+  moduleId: string,
+  languageId: string,
+  difficulty: Difficulty,
+  questionId: string,
+  now: number = Date.now()
+): ReviewCard {
+  const card = existing ?? {
+    moduleId,
+    languageId,
+    difficulty,
+    questionId,
+    easeFactor: INITIAL_EASE_FACTOR,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+    dueAt: now,
+    lastReviewedAt: now,
+  }
+  return scheduleReview(card, FAILED_QUALITY, now)
+}
+
+/**
+ * Whether a card is due for review at `now`
+ */
+export function isCardDue(card: ReviewCard, now: number = Date.now()): boolean {
+  return card.dueAt <= now
+}
+
+/**
+ * Cards due for review, most overdue first
+ */
+export function getDueCards(
+  cards: { [cardId: string]: ReviewCard } | undefined,
+  now: number = Date.now()
+): { cardId: string; card: ReviewCard }[] {
+  return Object.entries(cards ?? {})
+    .filter(([, card]) => isCardDue(card, now))
+    .sort(([, a], [, b]) => a.dueAt - b.dueAt)
+    .map(([cardId, card]) => ({ cardId, card }))
+}
+
+/**
+ * The quiz question a card reviews, or null if the language or question no longer exists
+ */
+export function getReviewQuestion(card: ReviewCard): QuizQuestion | null {
+  const language = getLanguageByModuleAndId(card.moduleId, card.languageId)
+  if (!language) return null
+  const quiz = generateProgressiveQuiz(card.languageId, language.name, card.difficulty)
+  return quiz.questions.find(question => question.id === card.questionId) ?? null
+}
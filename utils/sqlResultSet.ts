@@ -0,0 +1,101 @@
+// SQL result set helpers - shared by the execution route and the sandbox grader
+
+import type { QueryResultSet, SqlValue } from '@/types'
+
+export interface ResultSetComparison {
+  matches: boolean
+  /** Learner-facing explanation when the result sets differ */
+  reason?: string
+}
+
+/**
+ * Render a result set as a plain-text table for the output panel
+ */
+export function formatResultSetTable(resultSet: QueryResultSet, maxRows: number = 50): string {
+  if (resultSet.columns.length === 0) return '(no columns)'
+
+  const header = resultSet.columns.map(column => column.name)
+  const body = resultSet.rows.slice(0, maxRows).map(row => row.map(formatValue))
+  const widths = header.map((name, i) =>
+    Math.max(name.length, ...body.map(row => (row[i] ?? '').length))
+  )
+
+  const line = (cells: string[]) => '| ' + cells.map((cell, i) => cell.padEnd(widths[i])).join(' | ') + ' |'
+  const divider = '+-' + widths.map(width => '-'.repeat(width)).join('-+-') + '-+'
+
+  const lines = [divider, line(header), divider, ...body.map(line), divider]
+  const remaining = resultSet.rows.length - body.length
+  lines.push(
+    remaining > 0
+      ? `${resultSet.rows.length} rows (showing first ${body.length})`
+      : `${resultSet.rows.length} row${resultSet.rows.length === 1 ? '' : 's'}`
+  )
+
+  return lines.join('\n')
+}
+
+/**
+ * Compare a learner's result set with the expected one.
+ * Column names are compared case-insensitively, values loosely (1 == 1.0, true == 1).
+ */
+export function compareResultSets(
+  actual: QueryResultSet | undefined,
+  expected: QueryResultSet | undefined,
+  orderMatters: boolean = false
+): ResultSetComparison {
+  if (!expected) return { matches: false, reason: 'The reference query did not return any rows.' }
+  if (!actual) return { matches: false, reason: 'Your query did not return a result set.' }
+
+  const actualColumns = actual.columns.map(column => column.name.toLowerCase())
+  const expectedColumns = expected.columns.map(column => column.name.toLowerCase())
+
+  if (actualColumns.length !== expectedColumns.length) {
+    return {
+      matches: false,
+      reason: `Expected ${expectedColumns.length} columns (${expectedColumns.join(', ')}) but got ${actualColumns.length}.`,
+    }
+  }
+
+  const missing = expectedColumns.filter(name => !actualColumns.includes(name))
+  if (missing.length > 0) {
+    return { matches: false, reason: `Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}.` }
+  }
+
+  if (actual.rows.length !== expected.rows.length) {
+    return {
+      matches: false,
+      reason: `Expected ${expected.rows.length} rows but got ${actual.rows.length}.`,
+    }
+  }
+
+  // Reorder the learner's columns to match the expected column order
+  const columnOrder = expectedColumns.map(name => actualColumns.indexOf(name))
+  const actualRows = actual.rows.map(row => columnOrder.map(i => rowKey(row[i])).join('\u0000'))
+  const expectedRows = expected.rows.map(row => row.map(rowKey).join('\u0000'))
+
+  if (orderMatters) {
+    const firstMismatch = expectedRows.findIndex((row, i) => row !== actualRows[i])
+    return firstMismatch === -1
+      ? { matches: true }
+      : { matches: false, reason: `Row ${firstMismatch + 1} is different (check your ORDER BY).` }
+  }
+
+  const sortedActual = [...actualRows].sort()
+  const sortedExpected = [...expectedRows].sort()
+  const matches = sortedExpected.every((row, i) => row === sortedActual[i])
+  return matches
+    ? { matches: true }
+    : { matches: false, reason: 'The rows returned are different from the expected rows.' }
+}
+
+function formatValue(value: SqlValue): string {
+  if (value === null) return 'NULL'
+  return String(value)
+}
+
+function rowKey(value: SqlValue): string {
+  if (value === null) return 'NULL'
+  if (typeof value === 'boolean') return value ? '1' : '0'
+  if (typeof value === 'number') return String(Number(value.toFixed(6)))
+  return value
+}
@@ -1,5 +1,8 @@
 // localStorage utility functions for persisting user data
 import { toast } from '@/components/Common/Toast'
+import type { ProjectWorkState } from '@/utils/projectFiles'
+import type { SavedAnalysis } from '@/utils/dataLab'
+import type { ContentPlan } from '@/utils/contentCalendar'
 
 const STORAGE_KEYS = {
   USER_PROGRESS: 'holiday_learning_user_progress',
@@ -7,6 +10,9 @@ const STORAGE_KEYS = {
   TUTORIAL_PROGRESS: 'holiday_learning_tutorial_progress',
   ACHIEVEMENTS: 'holiday_learning_achievements',
   USER_DATA: 'holiday_learning_user_data',
+  PROJECT_DRAFTS: 'holiday_learning_project_drafts',
+  DATA_LAB_ANALYSES: 'holiday_learning_data_lab_analyses',
+  CONTENT_PLANS: 'holiday_learning_content_plans',
 } as const
 
 export const storage = {
@@ -84,4 +90,92 @@ export const storage = {
   },
 }
 
+/**
+ * Local copy of mini-project work, used when the profile can't be reached
+ */
+export interface ProjectDraft extends ProjectWorkState {
+  /** Milliseconds since epoch */
+  savedAt: number
+}
+
+// Drafts are keyed per user so a shared browser doesn't mix up projects
+const getDraftKey = (userCode: string | null, projectId: string) => `${userCode || 'guest'}:${projectId}`
+
+export const projectDrafts = {
+  get: (userCode: string | null, projectId: string): ProjectDraft | null => {
+    const drafts = storage.get<Record<string, ProjectDraft>>(STORAGE_KEYS.PROJECT_DRAFTS, {})
+    return drafts[getDraftKey(userCode, projectId)] || null
+  },
+
+  // All drafts for a user, keyed by project ID
+  getAll: (userCode: string | null): Record<string, ProjectDraft> => {
+    const prefix = getDraftKey(userCode, '')
+    const drafts = storage.get<Record<string, ProjectDraft>>(STORAGE_KEYS.PROJECT_DRAFTS, {})
+    return Object.fromEntries(
+      Object.entries(drafts)
+        .filter(([key]) => key.startsWith(prefix))
+        .map(([key, draft]) => [key.slice(prefix.length), draft])
+    )
+  },
+
+  set: (userCode: string | null, projectId: string, workState: ProjectWorkState): void => {
+    const drafts = storage.get<Record<string, ProjectDraft>>(STORAGE_KEYS.PROJECT_DRAFTS, {})
+    drafts[getDraftKey(userCode, projectId)] = { ...workState, savedAt: Date.now() }
+    storage.set(STORAGE_KEYS.PROJECT_DRAFTS, drafts)
+  },
+
+  remove: (userCode: string | null, projectId: string): void => {
+    const drafts = storage.get<Record<string, ProjectDraft>>(STORAGE_KEYS.PROJECT_DRAFTS, {})
+    delete drafts[getDraftKey(userCode, projectId)]
+    storage.set(STORAGE_KEYS.PROJECT_DRAFTS, drafts)
+  },
+}
+
+// Data Lab analyses, keyed per user and analysis name like project drafts
+export const dataLabAnalyses = {
+  // Newest first
+  getAll: (userCode: string | null): SavedAnalysis[] => {
+    const prefix = getDraftKey(userCode, '')
+    const analyses = storage.get<Record<string, SavedAnalysis>>(STORAGE_KEYS.DATA_LAB_ANALYSES, {})
+    return Object.entries(analyses)
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([, analysis]) => analysis)
+      .sort((a, b) => b.savedAt - a.savedAt)
+  },
+
+  set: (userCode: string | null, analysis: SavedAnalysis): void => {
+    const analyses = storage.get<Record<string, SavedAnalysis>>(STORAGE_KEYS.DATA_LAB_ANALYSES, {})
+    analyses[getDraftKey(userCode, analysis.name)] = analysis
+    storage.set(STORAGE_KEYS.DATA_LAB_ANALYSES, analyses)
+  },
+
+  remove: (userCode: string | null, name: string): void => {
+    const analyses = storage.get<Record<string, SavedAnalysis>>(STORAGE_KEYS.DATA_LAB_ANALYSES, {})
+    delete analyses[getDraftKey(userCode, name)]
+    storage.set(STORAGE_KEYS.DATA_LAB_ANALYSES, analyses)
+  },
+}
+
+/**
+ * Local copy of the Content Planner calendar, used when the profile can't be reached
+ */
+export interface ContentPlanDraft extends ContentPlan {
+  /** Milliseconds since epoch */
+  savedAt: number
+}
+
+// Content Planner calendars, keyed per user like project drafts
+export const contentPlanDrafts = {
+  get: (userCode: string | null): ContentPlanDraft | null => {
+    const plans = storage.get<Record<string, ContentPlanDraft>>(STORAGE_KEYS.CONTENT_PLANS, {})
+    return plans[userCode || 'guest'] || null
+  },
+
+  set: (userCode: string | null, plan: ContentPlan): void => {
+    const plans = storage.get<Record<string, ContentPlanDraft>>(STORAGE_KEYS.CONTENT_PLANS, {})
+    plans[userCode || 'guest'] = { blocks: plan.blocks, rules: plan.rules, savedAt: Date.now() }
+    storage.set(STORAGE_KEYS.CONTENT_PLANS, plans)
+  },
+}
+
 export { STORAGE_KEYS }
@@ -0,0 +1,71 @@
+// Test case helpers - shared by the test runner route and the sandbox test report
+
+export type DiffLineKind = 'same' | 'missing' | 'unexpected'
+
+export interface DiffLine {
+  kind: DiffLineKind
+  text: string
+}
+
+/**
+ * Normalize program output before comparing it with the expected output.
+ * Trailing whitespace on each line and trailing blank lines are ignored.
+ */
+export function normalizeOutput(output: string): string {
+  return output
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .trimEnd()
+}
+
+/**
+ * Whether actual output matches the expected output after normalization
+ */
+export function outputsMatch(actual: string, expected: string): boolean {
+  return normalizeOutput(actual) === normalizeOutput(expected)
+}
+
+/**
+ * Append an exercise's test harness to the learner's code
+ */
+export function buildTestProgram(code: string, testHarness?: string): string {
+  return testHarness ? `${code.trimEnd()}\n\n${testHarness}\n` : code
+}
+
+/**
+ * Line diff of expected vs actual output (longest common subsequence).
+ * "missing" lines were expected but not printed, "unexpected" lines were printed but not expected.
+ */
+export function diffOutputLines(expected: string, actual: string): DiffLine[] {
+  const a = normalizeOutput(expected).split('\n')
+  const b = normalizeOutput(actual).split('\n')
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const diff: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      diff.push({ kind: 'same', text: a[i] })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      diff.push({ kind: 'missing', text: a[i++] })
+    } else {
+      diff.push({ kind: 'unexpected', text: b[j++] })
+    }
+  }
+  while (i < a.length) diff.push({ kind: 'missing', text: a[i++] })
+  while (j < b.length) diff.push({ kind: 'unexpected', text: b[j++] })
+
+  return diff
+}
@@ -0,0 +1,210 @@
+/**
+ * User Flow Graphs
+ * App flows as directed graphs with conditional edges, and the properties a good flow should have
+ */
+
+// ==================== GRAPH ====================
+
+export type EdgeCondition = 'tap' | 'auto' | 'success' | 'failure' | 'back'
+
+export interface FlowEdge {
+  from: string
+  to: string
+  condition: EdgeCondition
+}
+
+export interface FlowScreen {
+  id: string
+  label: string
+  icon: string
+  color: string
+  /** Only signed-in users may see this screen */
+  requiresAuth: boolean
+}
+
+export const EDGE_CONDITIONS: Record<EdgeCondition, { label: string; description: string; color: string }> = {
+  tap: { label: 'Tap', description: 'The user taps a button or link', color: '#60a5fa' },
+  auto: { label: 'Auto', description: 'Happens by itself, e.g. when the splash screen finishes', color: '#c084fc' },
+  success: { label: 'Success', description: 'The action worked, e.g. the password was right', color: '#4ade80' },
+  failure: { label: 'Failure', description: 'The action failed, e.g. a wrong password', color: '#f87171' },
+  back: { label: 'Back', description: 'The user goes back to the previous screen', color: '#facc15' },
+}
+
+/**
+ * Screens that sign the user in when they succeed, and the screen that signs them out
+ */
+const SIGN_IN_SCREENS = ['login', 'signup']
+const SIGN_OUT_SCREEN = 'logout'
+
+/**
+ * Every screen reachable from `start` by following edges, whatever their condition
+ */
+export function reachableFrom(start: string, edges: FlowEdge[]): Set<string> {
+  const seen = new Set([start])
+  const queue = [start]
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    edges.filter(edge => edge.from === current && !seen.has(edge.to)).forEach(edge => {
+      seen.add(edge.to)
+      queue.push(edge.to)
+    })
+  }
+  return seen
+}
+
+/**
+ * Whether the user is signed in after following an edge
+ */
+export function signedInAfter(edge: FlowEdge, signedIn: boolean): boolean {
+  if (edge.from === SIGN_OUT_SCREEN) return false
+  if (SIGN_IN_SCREENS.includes(edge.from) && edge.condition === 'success') return true
+  return signedIn
+}
+
+// ==================== PROPERTIES ====================
+
+export type FlowPropertyId =
+  | 'reachable'
+  | 'no-dead-ends'
+  | 'auth-guard'
+  | 'login-failure'
+  | 'logout-everywhere'
+  | 'back-navigation'
+  | 'signup-path'
+
+export const FLOW_PROPERTIES: Record<FlowPropertyId, { label: string; description: string }> = {
+  reachable: {
+    label: 'Every screen is reachable',
+    description: 'Starting at the splash screen, a user can get to every screen in the app.',
+  },
+  'no-dead-ends': {
+    label: 'No dead ends',
+    description: 'Every screen has at least one way out.',
+  },
+  'auth-guard': {
+    label: 'Private screens need a login',
+    description: 'No route reaches a signed-in screen without a successful login or sign up first.',
+  },
+  'login-failure': {
+    label: 'Failed logins are handled',
+    description: 'A failed login keeps the user on a public screen so they can try again.',
+  },
+  'logout-everywhere': {
+    label: 'Logout from anywhere',
+    description: 'Logout can be reached from every signed-in screen.',
+  },
+  'back-navigation': {
+    label: 'Back goes back',
+    description: 'Every screen you tap into has a back edge to the screen you came from.',
+  },
+  'signup-path': {
+    label: 'New users can sign up',
+    description: 'Sign Up can be reached from Login, and a successful sign up lands on a signed-in screen.',
+  },
+}
+
+export interface PropertyResult {
+  property: FlowPropertyId
+  passed: boolean
+  problems: string[]
+}
+
+/**
+ * Check one property of a flow, listing every place it fails
+ * @param start - Screen the app opens on
+ */
+export function checkFlowProperty(property: FlowPropertyId, screens: FlowScreen[], edges: FlowEdge[], start = 'splash'): PropertyResult {
+  const label = (id: string) => screens.find(screen => screen.id === id)?.label ?? id
+  const has = (id: string) => screens.some(screen => screen.id === id)
+  const problems: string[] = []
+
+  switch (property) {
+    case 'reachable': {
+      const reachable = reachableFrom(start, edges)
+      screens.filter(screen => !reachable.has(screen.id)).forEach(screen => {
+        problems.push(`${screen.label} can't be reached from ${label(start)}.`)
+      })
+      break
+    }
+
+    case 'no-dead-ends':
+      screens.filter(screen => !edges.some(edge => edge.from === screen.id)).forEach(screen => {
+        problems.push(`${screen.label} has no way out.`)
+      })
+      break
+
+    case 'auth-guard': {
+      // Walk (screen, signed in) states so a route is judged by what happened before it
+      const seen = new Set([`${start}:false`])
+      const queue: [string, boolean][] = [[start, false]]
+      const reported = new Set<string>()
+      while (queue.length > 0) {
+        const [current, signedIn] = queue.shift()!
+        edges.filter(edge => edge.from === current).forEach(edge => {
+          const next = signedInAfter(edge, signedIn)
+          const target = screens.find(screen => screen.id === edge.to)
+          if (target?.requiresAuth && !next) {
+            const key = `${edge.from}->${edge.to}`
+            if (!reported.has(key)) {
+              reported.add(key)
+              problems.push(`${label(edge.from)} → ${target.label} (${EDGE_CONDITIONS[edge.condition].label.toLowerCase()}) lets a signed-out user in.`)
+            }
+            return
+          }
+          const state = `${edge.to}:${next}`
+          if (!seen.has(state)) {
+            seen.add(state)
+            queue.push([edge.to, next])
+          }
+        })
+      }
+      break
+    }
+
+    case 'login-failure': {
+      const failures = edges.filter(edge => edge.from === 'login' && edge.condition === 'failure')
+      if (failures.length === 0) problems.push('Login has no failure edge, so a wrong password goes nowhere.')
+      failures.filter(edge => screens.find(screen => screen.id === edge.to)?.requiresAuth).forEach(edge => {
+        problems.push(`A failed login shouldn't open ${label(edge.to)}.`)
+      })
+      if (!edges.some(edge => edge.from === 'login' && edge.condition === 'success')) {
+        problems.push('Login has no success edge.')
+      }
+      break
+    }
+
+    case 'logout-everywhere':
+      if (!has(SIGN_OUT_SCREEN)) {
+        problems.push('The flow has no Logout screen.')
+        break
+      }
+      screens
+        .filter(screen => screen.requiresAuth && screen.id !== SIGN_OUT_SCREEN && !reachableFrom(screen.id, edges).has(SIGN_OUT_SCREEN))
+        .forEach(screen => problems.push(`Logout can't be reached from ${screen.label}.`))
+      break
+
+    case 'back-navigation':
+      edges
+        .filter(edge => edge.condition === 'tap' && edge.to !== SIGN_OUT_SCREEN && edge.from !== edge.to)
+        .filter(edge => !edges.some(back => back.condition === 'back' && back.from === edge.to && back.to === edge.from))
+        .forEach(edge => problems.push(`${label(edge.to)} has no back edge to ${label(edge.from)}.`))
+      break
+
+    case 'signup-path':
+      if (!has('signup')) {
+        problems.push('The flow has no Sign Up screen.')
+        break
+      }
+      if (!reachableFrom('login', edges).has('signup')) problems.push('Sign Up can\'t be reached from Login.')
+      if (!edges.some(edge => edge.from === 'signup' && edge.condition === 'success' && screens.find(screen => screen.id === edge.to)?.requiresAuth)) {
+        problems.push('A successful sign up doesn\'t lead to a signed-in screen.')
+      }
+      break
+  }
+
+  return { property, passed: problems.length === 0, problems }
+}
+
+export function checkFlow(properties: FlowPropertyId[], screens: FlowScreen[], edges: FlowEdge[], start = 'splash'): PropertyResult[] {
+  return properties.map(property => checkFlowProperty(property, screens, edges, start))
+}
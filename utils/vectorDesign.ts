@@ -0,0 +1,591 @@
+/**
+ * Vector Design
+ * Layered vector documents for the Design Studio: layers, groups, z-order, alignment,
+ * snapping guides, undo history, palettes and SVG/PNG export
+ */
+
+import { getContrastColor, hexToHsl, hslToHex, mixHexColors } from './colorUtils'
+import { FONT_STACKS, type FontChoice } from './designChecks'
+
+export class DesignError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DesignError'
+  }
+}
+
+// ==================== DOCUMENT ====================
+
+export type LayerKind = 'rect' | 'ellipse' | 'line' | 'text' | 'image'
+
+export interface DesignLayer {
+  id: string
+  kind: LayerKind
+  name: string
+  /** Top-left corner; for lines, the start point */
+  x: number
+  y: number
+  /** Box size; for lines, the offset to the end point (may be negative) */
+  width: number
+  height: number
+  fill: string
+  stroke: string
+  strokeWidth: number
+  /** 0 to 1 */
+  opacity: number
+  /** Degrees clockwise around the layer's centre */
+  rotation: number
+  /** Corner radius for rectangles */
+  radius?: number
+  text?: string
+  fontSize?: number
+  font?: FontChoice
+  bold?: boolean
+  /** Data URL for image layers */
+  href?: string
+  /** Layers sharing a group id are selected, moved and reordered together */
+  groupId?: string
+  hidden?: boolean
+  locked?: boolean
+}
+
+export interface VectorDesign {
+  title: string
+  width: number
+  height: number
+  background: string
+  /** Bottom to top */
+  layers: DesignLayer[]
+  palette: string[]
+}
+
+export const LAYER_KINDS: Record<LayerKind, { label: string; icon: string }> = {
+  rect: { label: 'Rectangle', icon: '◼️' },
+  ellipse: { label: 'Ellipse', icon: '⭕' },
+  line: { label: 'Line', icon: '📏' },
+  text: { label: 'Text', icon: '📝' },
+  image: { label: 'Image', icon: '🖼️' },
+}
+
+export const DEFAULT_CANVAS = { width: 800, height: 500 }
+
+// Every saved piece is one Firestore document, which must stay under 1 MB
+export const MAX_DESIGN_BYTES = 800_000
+export const MAX_IMAGE_UPLOAD_BYTES = 5_000_000
+const MAX_IMAGE_SIDE = 480
+const MAX_IMAGE_DATA_LENGTH = 250_000
+
+export function createDesignId(prefix: string = 'design'): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`
+}
+
+export function createDesign(title: string = 'Untitled design'): VectorDesign {
+  return {
+    title,
+    ...DEFAULT_CANVAS,
+    background: '#FFFFFF',
+    layers: [],
+    palette: [],
+  }
+}
+
+/**
+ * Rough text box from the font size, so text layers can be selected, aligned and snapped
+ */
+export function fitTextBox(layer: DesignLayer): DesignLayer {
+  if (layer.kind !== 'text') return layer
+  const fontSize = layer.fontSize ?? 32
+  const longest = Math.max(1, ...(layer.text ?? '').split('\n').map(line => line.length))
+  return { ...layer, width: Math.round(longest * fontSize * 0.6), height: Math.round(fontSize * 1.25) }
+}
+
+/**
+ * A new layer centred on (x, y)
+ */
+export function createLayer(
+  kind: LayerKind,
+  x: number,
+  y: number,
+  fill: string,
+  existing: DesignLayer[],
+  overrides: Partial<DesignLayer> = {}
+): DesignLayer {
+  const count = existing.filter(layer => layer.kind === kind).length + 1
+  const size = kind === 'line' ? { width: 160, height: 0 } : kind === 'ellipse' ? { width: 100, height: 100 } : { width: 140, height: 90 }
+  const base: DesignLayer = {
+    id: createDesignId('layer'),
+    kind,
+    name: `${LAYER_KINDS[kind].label} ${count}`,
+    x: Math.round(x - size.width / 2),
+    y: Math.round(y - size.height / 2),
+    ...size,
+    fill,
+    stroke: kind === 'line' ? fill : '#000000',
+    strokeWidth: kind === 'line' ? 4 : 0,
+    opacity: 1,
+    rotation: 0,
+    ...(kind === 'rect' && { radius: 8 }),
+    ...(kind === 'text' && { text: 'Your text', fontSize: 32, font: 'sans' as FontChoice, bold: true }),
+    ...overrides,
+  }
+  if (kind !== 'text') return base
+
+  const fitted = fitTextBox(base)
+  return { ...fitted, x: Math.round(x - fitted.width / 2), y: Math.round(y - fitted.height / 2) }
+}
+
+/**
+ * Copies of layers, offset a little; duplicated groups get a fresh group id
+ */
+export function duplicateLayers(layers: DesignLayer[], ids: string[]): { layers: DesignLayer[]; ids: string[] } {
+  const groupIds = new Map<string, string>()
+  const copies = layers
+    .filter(layer => ids.includes(layer.id))
+    .map(layer => {
+      let groupId = layer.groupId
+      if (groupId) {
+        if (!groupIds.has(groupId)) groupIds.set(groupId, createDesignId('group'))
+        groupId = groupIds.get(groupId)
+      }
+      return { ...layer, id: createDesignId('layer'), name: `${layer.name} copy`, x: layer.x + 20, y: layer.y + 20, groupId }
+    })
+  return { layers: [...layers, ...copies], ids: copies.map(copy => copy.id) }
+}
+
+export function updateLayers(layers: DesignLayer[], ids: string[], change: Partial<DesignLayer>): DesignLayer[] {
+  return layers.map(layer => ids.includes(layer.id) ? fitTextBox({ ...layer, ...change }) : layer)
+}
+
+export function removeLayers(layers: DesignLayer[], ids: string[]): DesignLayer[] {
+  return layers.filter(layer => !ids.includes(layer.id))
+}
+
+export function moveLayers(layers: DesignLayer[], ids: string[], dx: number, dy: number): DesignLayer[] {
+  return layers.map(layer =>
+    ids.includes(layer.id) && !layer.locked ? { ...layer, x: Math.round(layer.x + dx), y: Math.round(layer.y + dy) } : layer
+  )
+}
+
+// ==================== GROUPS AND Z-ORDER ====================
+
+/**
+ * A selection grown to cover every member of any group it touches
+ */
+export function expandSelection(layers: DesignLayer[], ids: string[]): string[] {
+  const groups = new Set(layers.filter(layer => ids.includes(layer.id) && layer.groupId).map(layer => layer.groupId))
+  return layers.filter(layer => ids.includes(layer.id) || (layer.groupId && groups.has(layer.groupId))).map(layer => layer.id)
+}
+
+/**
+ * Groups the layers, gathering them just below the top-most member so the group stays contiguous
+ */
+export function groupLayers(layers: DesignLayer[], ids: string[]): { layers: DesignLayer[]; groupId: string | null } {
+  const members = expandSelection(layers, ids)
+  if (members.length < 2) return { layers, groupId: null }
+
+  const groupId = createDesignId('group')
+  const topIndex = Math.max(...members.map(id => layers.findIndex(layer => layer.id === id)))
+  const grouped = layers.filter(layer => members.includes(layer.id)).map(layer => ({ ...layer, groupId }))
+  const below = layers.slice(0, topIndex + 1).filter(layer => !members.includes(layer.id))
+  const above = layers.slice(topIndex + 1)
+  return { layers: [...below, ...grouped, ...above], groupId }
+}
+
+export function ungroupLayers(layers: DesignLayer[], ids: string[]): DesignLayer[] {
+  const groups = new Set(layers.filter(layer => ids.includes(layer.id)).map(layer => layer.groupId))
+  return layers.map(layer => layer.groupId && groups.has(layer.groupId) ? { ...layer, groupId: undefined } : layer)
+}
+
+export type ReorderDirection = 'front' | 'forward' | 'backward' | 'back'
+
+/**
+ * Moves the selected layers through the stack, treating each group as a single unit
+ */
+export function reorderLayers(layers: DesignLayer[], ids: string[], direction: ReorderDirection): DesignLayer[] {
+  const units: DesignLayer[][] = []
+  layers.forEach(layer => {
+    const last = units[units.length - 1]
+    if (last && layer.groupId && last[0].groupId === layer.groupId) last.push(layer)
+    else units.push([layer])
+  })
+  const isSelected = (unit: DesignLayer[]) => unit.some(layer => ids.includes(layer.id))
+
+  let ordered = units
+  if (direction === 'front') {
+    ordered = [...units.filter(unit => !isSelected(unit)), ...units.filter(isSelected)]
+  } else if (direction === 'back') {
+    ordered = [...units.filter(isSelected), ...units.filter(unit => !isSelected(unit))]
+  } else if (direction === 'forward') {
+    for (let i = units.length - 2; i >= 0; i--) {
+      if (isSelected(units[i]) && !isSelected(units[i + 1])) [units[i], units[i + 1]] = [units[i + 1], units[i]]
+    }
+  } else {
+    for (let i = 1; i < units.length; i++) {
+      if (isSelected(units[i]) && !isSelected(units[i - 1])) [units[i], units[i - 1]] = [units[i - 1], units[i]]
+    }
+  }
+  return ordered.flat()
+}
+
+// ==================== ALIGNMENT AND GUIDES ====================
+
+export interface Bounds {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
+
+export function layerBounds(layer: DesignLayer): Bounds {
+  const x2 = layer.x + layer.width
+  const y2 = layer.y + layer.height
+  return { left: Math.min(layer.x, x2), top: Math.min(layer.y, y2), right: Math.max(layer.x, x2), bottom: Math.max(layer.y, y2) }
+}
+
+export function selectionBounds(layers: DesignLayer[], ids: string[]): Bounds | null {
+  const boxes = layers.filter(layer => ids.includes(layer.id)).map(layerBounds)
+  if (boxes.length === 0) return null
+  return {
+    left: Math.min(...boxes.map(box => box.left)),
+    top: Math.min(...boxes.map(box => box.top)),
+    right: Math.max(...boxes.map(box => box.right)),
+    bottom: Math.max(...boxes.map(box => box.bottom)),
+  }
+}
+
+export type Alignment = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom'
+
+export const ALIGNMENTS: Record<Alignment, { label: string; icon: string }> = {
+  left: { label: 'Align left', icon: '⇤' },
+  center: { label: 'Align centres horizontally', icon: '↔' },
+  right: { label: 'Align right', icon: '⇥' },
+  top: { label: 'Align top', icon: '⤒' },
+  middle: { label: 'Align centres vertically', icon: '↕' },
+  bottom: { label: 'Align bottom', icon: '⤓' },
+}
+
+/**
+ * Lines up layers with each other, or with the canvas when one layer (or one group) is selected
+ */
+export function alignLayers(design: VectorDesign, ids: string[], alignment: Alignment): DesignLayer[] {
+  const units = new Set(design.layers.filter(layer => ids.includes(layer.id)).map(layer => layer.groupId ?? layer.id))
+  const target: Bounds | null = units.size === 1
+    ? { left: 0, top: 0, right: design.width, bottom: design.height }
+    : selectionBounds(design.layers, ids)
+  if (!target) return design.layers
+
+  // Each group moves as one block, so it keeps its internal layout
+  const offsets = new Map<string, { dx: number; dy: number }>()
+  units.forEach(unit => {
+    const members = design.layers.filter(layer => (layer.groupId ?? layer.id) === unit && ids.includes(layer.id))
+    const box = selectionBounds(members, members.map(layer => layer.id))!
+    const centreX = (box.left + box.right) / 2
+    const centreY = (box.top + box.bottom) / 2
+    const offset = { dx: 0, dy: 0 }
+    if (alignment === 'left') offset.dx = target.left - box.left
+    if (alignment === 'right') offset.dx = target.right - box.right
+    if (alignment === 'center') offset.dx = (target.left + target.right) / 2 - centreX
+    if (alignment === 'top') offset.dy = target.top - box.top
+    if (alignment === 'bottom') offset.dy = target.bottom - box.bottom
+    if (alignment === 'middle') offset.dy = (target.top + target.bottom) / 2 - centreY
+    offsets.set(unit, offset)
+  })
+
+  return design.layers.map(layer => {
+    const offset = ids.includes(layer.id) ? offsets.get(layer.groupId ?? layer.id) : undefined
+    return offset && !layer.locked
+      ? { ...layer, x: Math.round(layer.x + offset.dx), y: Math.round(layer.y + offset.dy) }
+      : layer
+  })
+}
+
+export interface SnapResult {
+  dx: number
+  dy: number
+  /** x positions of vertical guide lines, y positions of horizontal ones */
+  guides: { vertical: number[]; horizontal: number[] }
+}
+
+export const SNAP_THRESHOLD = 6
+
+/**
+ * Snaps a moving box's edges and centre to the canvas and other layers, returning the
+ * adjusted offset and the guide lines it lines up with
+ */
+export function snapMove(
+  moving: Bounds,
+  dx: number,
+  dy: number,
+  others: Bounds[],
+  canvas: { width: number; height: number },
+  threshold: number = SNAP_THRESHOLD
+): SnapResult {
+  const targetsX = [0, canvas.width / 2, canvas.width, ...others.flatMap(box => [box.left, (box.left + box.right) / 2, box.right])]
+  const targetsY = [0, canvas.height / 2, canvas.height, ...others.flatMap(box => [box.top, (box.top + box.bottom) / 2, box.bottom])]
+
+  const snapAxis = (start: number, end: number, offset: number, targets: number[]) => {
+    const lines = [start + offset, (start + end) / 2 + offset, end + offset]
+    let best: number | null = null
+    for (const line of lines) {
+      for (const target of targets) {
+        const diff = target - line
+        if (Math.abs(diff) <= threshold && (best === null || Math.abs(diff) < Math.abs(best))) best = diff
+      }
+    }
+    if (best === null) return { offset, guides: [] }
+
+    const shift = best
+    const guides = [...new Set(targets.filter(target => lines.some(line => Math.abs(line + shift - target) < 0.5)))]
+    return { offset: offset + shift, guides }
+  }
+
+  const x = snapAxis(moving.left, moving.right, dx, targetsX)
+  const y = snapAxis(moving.top, moving.bottom, dy, targetsY)
+  return { dx: x.offset, dy: y.offset, guides: { vertical: x.guides, horizontal: y.guides } }
+}
+
+// ==================== HISTORY ====================
+
+export interface DesignHistory {
+  past: VectorDesign[]
+  present: VectorDesign
+  future: VectorDesign[]
+  /** Key of the last commit, so a run of edits to the same property undoes in one step */
+  mergeKey?: string
+}
+
+export const HISTORY_LIMIT = 100
+
+export function createHistory(design: VectorDesign): DesignHistory {
+  return { past: [], present: design, future: [] }
+}
+
+/**
+ * Records a new version of the design; anything that had been undone is discarded.
+ * Consecutive commits with the same merge key (e.g. dragging a colour picker) replace each other.
+ */
+export function commitDesign(history: DesignHistory, next: VectorDesign, mergeKey?: string): DesignHistory {
+  if (next === history.present) return history
+  if (mergeKey && mergeKey === history.mergeKey) return { ...history, present: next, future: [] }
+  return { past: [...history.past, history.present].slice(-HISTORY_LIMIT), present: next, future: [], mergeKey }
+}
+
+export function undoDesign(history: DesignHistory): DesignHistory {
+  if (history.past.length === 0) return history
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  }
+}
+
+export function redoDesign(history: DesignHistory): DesignHistory {
+  if (history.future.length === 0) return history
+  return { past: [...history.past, history.present], present: history.future[0], future: history.future.slice(1) }
+}
+
+// ==================== PALETTES ====================
+
+export type PaletteHarmony = 'monochrome' | 'analogous' | 'complementary' | 'triadic' | 'split-complementary'
+
+export const PALETTE_HARMONIES: Record<PaletteHarmony, { label: string; description: string }> = {
+  monochrome: { label: 'Monochrome', description: 'One hue at different lightness levels. Calm and always consistent.' },
+  analogous: { label: 'Analogous', description: 'Neighbouring hues on the colour wheel. Harmonious and natural.' },
+  complementary: { label: 'Complementary', description: 'The base and its opposite hue. High energy, so use the accent sparingly.' },
+  triadic: { label: 'Triadic', description: 'Three hues evenly spaced around the wheel. Vibrant but balanced.' },
+  'split-complementary': { label: 'Split Complementary', description: 'The base plus the two hues either side of its opposite. Contrast with less tension.' },
+}
+
+export interface PaletteSwatch {
+  hex: string
+  role: string
+  /** Black or white, whichever reads better on this swatch */
+  textColor: string
+}
+
+/**
+ * Five-colour palette from a base colour and a colour-wheel harmony
+ */
+export function generatePalette(base: string, harmony: PaletteHarmony): PaletteSwatch[] {
+  const hsl = hexToHsl(base) ?? { h: 220, s: 70, l: 50 }
+  const hue = (offset: number, lightness: number = hsl.l) => hslToHex(hsl.h + offset, Math.max(hsl.s, 35), lightness)
+  const light = mixHexColors(base, '#FFFFFF', 0.75)
+  const dark = mixHexColors(base, '#111827', 0.7)
+
+  const palettes: Record<PaletteHarmony, [string, string][]> = {
+    monochrome: [
+      ['Darkest', hue(0, 15)], ['Dark', hue(0, 32)], ['Base', base], ['Light', hue(0, 72)], ['Lightest', hue(0, 92)],
+    ],
+    analogous: [
+      ['Base', base], ['Neighbour', hue(-30)], ['Neighbour', hue(30)], ['Background', light], ['Text', dark],
+    ],
+    complementary: [
+      ['Base', base], ['Accent', hue(180)], ['Soft accent', mixHexColors(hue(180), '#FFFFFF', 0.5)], ['Background', light], ['Text', dark],
+    ],
+    triadic: [
+      ['Base', base], ['Second', hue(120)], ['Third', hue(240)], ['Background', light], ['Text', dark],
+    ],
+    'split-complementary': [
+      ['Base', base], ['Accent', hue(150)], ['Accent', hue(210)], ['Background', light], ['Text', dark],
+    ],
+  }
+
+  return palettes[harmony].map(([role, hex]) => ({ hex: hex.toUpperCase(), role, textColor: getContrastColor(hex) }))
+}
+
+// ==================== EXPORT ====================
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function attributes(values: Record<string, string | number | undefined>): string {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `${name}="${escapeXml(String(value))}"`)
+    .join(' ')
+}
+
+/**
+ * SVG markup for a single layer; the editor renders layers with this too, so exports match the canvas
+ */
+export function layerToSVG(layer: DesignLayer): string {
+  if (layer.hidden) return ''
+
+  const box = layerBounds(layer)
+  const centreX = (box.left + box.right) / 2
+  const centreY = (box.top + box.bottom) / 2
+  const common = {
+    opacity: layer.opacity < 1 ? layer.opacity : undefined,
+    transform: layer.rotation ? `rotate(${layer.rotation} ${centreX} ${centreY})` : undefined,
+  }
+  const stroke = layer.strokeWidth > 0 ? { stroke: layer.stroke, 'stroke-width': layer.strokeWidth } : {}
+
+  switch (layer.kind) {
+    case 'rect':
+      return `<rect ${attributes({
+        x: box.left, y: box.top, width: box.right - box.left, height: box.bottom - box.top, rx: layer.radius || undefined,
+        fill: layer.fill, ...stroke, ...common,
+      })}/>`
+    case 'ellipse':
+      return `<ellipse ${attributes({
+        cx: centreX, cy: centreY, rx: (box.right - box.left) / 2, ry: (box.bottom - box.top) / 2,
+        fill: layer.fill, ...stroke, ...common,
+      })}/>`
+    case 'line':
+      return `<line ${attributes({
+        x1: layer.x, y1: layer.y, x2: layer.x + layer.width, y2: layer.y + layer.height,
+        stroke: layer.stroke, 'stroke-width': Math.max(1, layer.strokeWidth), 'stroke-linecap': 'round', ...common,
+      })}/>`
+    case 'text': {
+      const fontSize = layer.fontSize ?? 32
+      const lines = (layer.text ?? '').split('\n')
+      const tspans = lines
+        .map((line, index) => `<tspan ${attributes({ x: layer.x, dy: index === 0 ? undefined : fontSize * 1.25 })}>${escapeXml(line)}</tspan>`)
+        .join('')
+      return `<text ${attributes({
+        x: layer.x, y: layer.y + fontSize, 'font-size': fontSize, 'font-family': FONT_STACKS[layer.font ?? 'sans'].css,
+        'font-weight': layer.bold ? 'bold' : undefined, fill: layer.fill, ...stroke, ...common,
+      })}>${tspans}</text>`
+    }
+    case 'image':
+      return layer.href
+        ? `<image ${attributes({
+          x: box.left, y: box.top, width: box.right - box.left, height: box.bottom - box.top,
+          href: layer.href, preserveAspectRatio: 'xMidYMid slice', ...common,
+        })}/>`
+        : ''
+  }
+}
+
+export function designToSVG(design: VectorDesign): string {
+  const body = design.layers.map(layerToSVG).filter(Boolean).map(markup => `  ${markup}`).join('\n')
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" ${attributes({ width: design.width, height: design.height, viewBox: `0 0 ${design.width} ${design.height}` })}>`,
+    `  <title>${escapeXml(design.title)}</title>`,
+    `  <rect ${attributes({ width: design.width, height: design.height, fill: design.background })}/>`,
+    body,
+    '</svg>',
+  ].filter(Boolean).join('\n')
+}
+
+export function svgDataUrl(svg: string): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+}
+
+/**
+ * Safe file name for downloads, e.g. "My Poster!" -> "my-poster"
+ */
+export function designFileName(design: VectorDesign, extension: 'svg' | 'png'): string {
+  const slug = design.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+  return `${slug || 'design'}.${extension}`
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new DesignError('Could not load that image.'))
+    image.src = src
+  })
+}
+
+/**
+ * Draws the exported SVG onto a canvas and encodes it as PNG (browser only)
+ */
+export async function renderDesignToPng(design: VectorDesign, scale: number = 2): Promise<Blob> {
+  const image = await loadImage(svgDataUrl(designToSVG(design)))
+  const canvas = document.createElement('canvas')
+  canvas.width = design.width * scale
+  canvas.height = design.height * scale
+  const context = canvas.getContext('2d')
+  if (!context) throw new DesignError('Your browser cannot export PNG images.')
+
+  context.drawImage(image, 0, 0, canvas.width, canvas.height)
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new DesignError('PNG export failed.')), 'image/png')
+  })
+}
+
+/**
+ * Reads an uploaded image and scales it down so it can be embedded in a saved design (browser only)
+ */
+export async function readImageFile(file: File): Promise<{ href: string; width: number; height: number }> {
+  if (!file.type.startsWith('image/')) throw new DesignError('Please choose an image file.')
+  if (file.size > MAX_IMAGE_UPLOAD_BYTES) throw new DesignError('That image is over 5 MB. Please choose a smaller one.')
+
+  const original = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result))
+    reader.onerror = () => reject(new DesignError('Could not read that image.'))
+    reader.readAsDataURL(file)
+  })
+  const image = await loadImage(original)
+
+  const scale = Math.min(1, MAX_IMAGE_SIDE / Math.max(image.width, image.height))
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(image.width * scale))
+  canvas.height = Math.max(1, Math.round(image.height * scale))
+  const context = canvas.getContext('2d')
+  if (!context) throw new DesignError('Your browser cannot process images.')
+  context.drawImage(image, 0, 0, canvas.width, canvas.height)
+
+  // PNG keeps transparency; fall back to JPEG when it is too large to save
+  let href = canvas.toDataURL(file.type === 'image/png' ? 'image/png' : 'image/jpeg', 0.85)
+  if (href.length > MAX_IMAGE_DATA_LENGTH) href = canvas.toDataURL('image/jpeg', 0.7)
+  if (href.length > MAX_IMAGE_DATA_LENGTH) throw new DesignError('That image is too detailed to save. Please try a simpler one.')
+
+  return { href, width: canvas.width, height: canvas.height }
+}
+
+/**
+ * Size of the design as it will be saved, in bytes
+ */
+export function designSize(design: VectorDesign): number {
+  return JSON.stringify(design).length
+}